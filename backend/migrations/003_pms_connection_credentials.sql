@@ -0,0 +1,10 @@
+-- PMS Gateway Connection Persistence
+-- Created: 2026-10-19
+
+-- Gateway adapters need PMS-specific credential keys (client_id, hotel_code, ...)
+-- that do not fit the client_token/access_token/refresh_token columns
+ALTER TABLE pms_connections
+ADD COLUMN IF NOT EXISTS credentials JSONB;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS pms_connections_hotel_active_idx ON pms_connections(hotel_id, is_active);
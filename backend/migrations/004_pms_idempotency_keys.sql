@@ -0,0 +1,20 @@
+-- PMS Reservation Write Idempotency
+-- Created: 2026-10-19
+
+-- One row per (hotel, Idempotency-Key). A retried write with the same key and
+-- payload replays the stored response instead of hitting the PMS again.
+CREATE TABLE IF NOT EXISTS pms_idempotency_keys (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hotel_id UUID NOT NULL REFERENCES hotels(id) ON DELETE CASCADE,
+  idempotency_key VARCHAR(255) NOT NULL,
+  operation VARCHAR(50) NOT NULL, -- 'create_reservation', 'modify_reservation', 'cancel_reservation'
+  request_hash VARCHAR(64) NOT NULL, -- sha256 of operation + payload
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- 'pending', 'completed'
+  response JSONB,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  completed_at TIMESTAMPTZ,
+  UNIQUE (hotel_id, idempotency_key)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS pms_idempotency_keys_created_idx ON pms_idempotency_keys(created_at);
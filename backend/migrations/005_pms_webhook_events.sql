@@ -0,0 +1,33 @@
+-- PMS Webhook Inbox
+-- Created: 2026-10-19
+
+-- PMS-side account (property, enterprise or account id) that webhook
+-- deliveries are matched against; credentials are encrypted so the id is
+-- copied here in plaintext when the connection is registered
+ALTER TABLE pms_connections
+ADD COLUMN IF NOT EXISTS webhook_account VARCHAR(255);
+
+-- Durable inbox: every verified event is stored before it is applied.
+-- UNIQUE (pms_type, event_id) drops redeliveries of the same event.
+CREATE TABLE IF NOT EXISTS pms_webhook_events (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  pms_type VARCHAR(50) NOT NULL,
+  event_id VARCHAR(255) NOT NULL, -- PMS event id (@ event time), else subject @ event time, else subject @ sha256 of the sent content
+  hotel_id UUID REFERENCES hotels(id) ON DELETE CASCADE,
+  event_type VARCHAR(50) NOT NULL, -- 'reservation.created', 'reservation.updated', 'reservation.cancelled', 'rates.updated'
+  reservation_id VARCHAR(255),
+  payload JSONB NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'received', -- 'received', 'processed', 'failed'
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  received_at TIMESTAMPTZ DEFAULT NOW(),
+  processed_at TIMESTAMPTZ,
+  UNIQUE (pms_type, event_id)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS pms_connections_webhook_account_idx ON pms_connections(pms_type, webhook_account);
+CREATE INDEX IF NOT EXISTS pms_webhook_events_status_idx ON pms_webhook_events(status, received_at);
+-- One booking row per PMS reservation so events update in place
+CREATE UNIQUE INDEX IF NOT EXISTS bookings_hotel_pms_booking_idx
+  ON bookings(hotel_id, pms_booking_id) WHERE pms_booking_id IS NOT NULL;
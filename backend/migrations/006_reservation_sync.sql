@@ -0,0 +1,7 @@
+-- PMS Reservation Sync Watermark
+-- Created: 2026-10-19
+
+-- Start time of the last successful reservation sync; the next run only asks
+-- the PMS for reservations modified since then
+ALTER TABLE pms_connections
+ADD COLUMN IF NOT EXISTS reservations_synced_at TIMESTAMPTZ;
@@ -0,0 +1,18 @@
+-- Channel Attribution Mappings
+-- Created: 2026-10-19
+
+-- Per-hotel overrides mapping a raw PMS source / agency code to a channel.
+-- source_key is the normalized source (lowercase alphanumerics) used for matching.
+CREATE TABLE IF NOT EXISTS channel_source_mappings (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hotel_id UUID NOT NULL REFERENCES hotels(id) ON DELETE CASCADE,
+  source VARCHAR(255) NOT NULL, -- as entered / reported by the PMS
+  source_key VARCHAR(255) NOT NULL,
+  channel_id UUID NOT NULL REFERENCES channels(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (hotel_id, source_key)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS bookings_unattributed_idx ON bookings(hotel_id, source_detail) WHERE channel_id IS NULL;
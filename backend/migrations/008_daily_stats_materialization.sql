@@ -0,0 +1,12 @@
+-- Daily Stats Materialization
+-- Created: 2026-10-19
+
+-- Room counts behind occupancy, ADR and RevPAR so longer periods can be
+-- aggregated exactly (averaging daily percentages would not be)
+ALTER TABLE daily_stats
+ADD COLUMN IF NOT EXISTS rooms_available INTEGER,
+ADD COLUMN IF NOT EXISTS rooms_sold INTEGER DEFAULT 0,
+ADD COLUMN IF NOT EXISTS updated_at TIMESTAMPTZ DEFAULT NOW();
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS ai_sessions_hotel_created_idx ON ai_sessions(hotel_id, created_at);
@@ -0,0 +1,16 @@
+-- ROI Model Settings
+-- Created: 2026-10-19
+
+-- Per-hotel assumptions of the ROI engine; hotels without a row use the
+-- defaults in services/roi-engine.ts
+CREATE TABLE IF NOT EXISTS hotel_roi_settings (
+  hotel_id UUID PRIMARY KEY REFERENCES hotels(id) ON DELETE CASCADE,
+  displacement_rate DECIMAL(5,2) NOT NULL DEFAULT 60, -- % of AI-assisted direct revenue that would otherwise have been booked through an OTA
+  commission_overrides JSONB NOT NULL DEFAULT '{}', -- { "<channel slug>": <commission %> }, e.g. negotiated rates
+  minutes_per_session DECIMAL(6,2) NOT NULL DEFAULT 4, -- staff time an AI conversation replaces
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- One snapshot per hotel and period, so re-running a period replaces it
+CREATE UNIQUE INDEX IF NOT EXISTS roi_metrics_period_idx ON roi_metrics(hotel_id, period_type, period_start);
@@ -0,0 +1,15 @@
+-- AI Session Ingestion
+-- Created: 2026-10-19
+
+-- external_id: the caller's session id, so a retried batch updates instead of duplicating.
+-- confirmation_number: booking reference given to the guest; the session is linked to the
+-- booking (booking_id) as soon as a booking with that number (or PMS id) is stored.
+ALTER TABLE ai_sessions ADD COLUMN IF NOT EXISTS external_id VARCHAR(255);
+ALTER TABLE ai_sessions ADD COLUMN IF NOT EXISTS confirmation_number VARCHAR(100);
+ALTER TABLE ai_sessions ADD COLUMN IF NOT EXISTS booking_id UUID REFERENCES bookings(id) ON DELETE SET NULL;
+
+-- Create indexes
+CREATE UNIQUE INDEX IF NOT EXISTS ai_sessions_external_idx ON ai_sessions(hotel_id, external_id) WHERE external_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS ai_sessions_unlinked_idx ON ai_sessions(hotel_id, confirmation_number)
+  WHERE booking_id IS NULL AND confirmation_number IS NOT NULL;
+CREATE INDEX IF NOT EXISTS bookings_confirmation_idx ON bookings(hotel_id, confirmation_number) WHERE confirmation_number IS NOT NULL;
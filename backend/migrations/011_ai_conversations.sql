@@ -0,0 +1,20 @@
+-- AI Booking Assistant Conversations
+-- Created: 2026-10-19
+
+-- Transcript of a guest conversation; the ai_sessions row with the same id
+-- holds its provider, cumulative tokens and cost
+CREATE TABLE IF NOT EXISTS ai_conversations (
+  session_id UUID PRIMARY KEY REFERENCES ai_sessions(id) ON DELETE CASCADE,
+  hotel_id UUID NOT NULL REFERENCES hotels(id) ON DELETE CASCADE,
+  messages JSONB NOT NULL DEFAULT '[]', -- user / assistant / tool messages, including tool calls
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Local deterministic provider used by tests and demos (hidden from provider lists)
+INSERT INTO ai_providers (name, slug, model, cost_per_1k_in, cost_per_1k_out, is_active)
+VALUES ('Mock Assistant', 'mock', 'mock-1', 0, 0, false)
+ON CONFLICT (slug) DO NOTHING;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS ai_conversations_hotel_idx ON ai_conversations(hotel_id, updated_at DESC);
@@ -0,0 +1,40 @@
+-- AI Provider Experiments
+-- Created: 2026-10-19
+
+-- A/B test splitting a hotel's new guest sessions between AI providers by weight.
+-- When auto_promote is set, the winner becomes the hotel's default provider once every
+-- variant has min_sessions_per_variant sessions and it beats the others at confidence_level.
+CREATE TABLE IF NOT EXISTS ai_experiments (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hotel_id UUID NOT NULL REFERENCES hotels(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  status VARCHAR(20) NOT NULL DEFAULT 'running', -- running, completed, stopped
+  primary_metric VARCHAR(30) NOT NULL DEFAULT 'conversion_rate', -- conversion_rate, revenue_per_dollar
+  min_sessions_per_variant INTEGER NOT NULL DEFAULT 200,
+  confidence_level DECIMAL(4,3) NOT NULL DEFAULT 0.95,
+  auto_promote BOOLEAN NOT NULL DEFAULT true,
+  winner_provider_id UUID REFERENCES ai_providers(id),
+  started_at TIMESTAMPTZ DEFAULT NOW(),
+  ended_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+CREATE TABLE IF NOT EXISTS ai_experiment_variants (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  experiment_id UUID NOT NULL REFERENCES ai_experiments(id) ON DELETE CASCADE,
+  provider_id UUID NOT NULL REFERENCES ai_providers(id),
+  weight INTEGER NOT NULL CHECK (weight > 0), -- share of traffic = weight / sum of weights
+  position INTEGER NOT NULL, -- 0 is the control
+  UNIQUE (experiment_id, provider_id)
+);
+
+ALTER TABLE ai_sessions ADD COLUMN IF NOT EXISTS experiment_id UUID REFERENCES ai_experiments(id) ON DELETE SET NULL;
+
+-- Provider used for new sessions outside experiments (set by auto-promotion)
+ALTER TABLE hotels ADD COLUMN IF NOT EXISTS default_ai_provider_id UUID REFERENCES ai_providers(id);
+
+-- Create indexes
+-- One running experiment per hotel
+CREATE UNIQUE INDEX IF NOT EXISTS ai_experiments_running_idx ON ai_experiments(hotel_id) WHERE status = 'running';
+CREATE INDEX IF NOT EXISTS ai_sessions_experiment_idx ON ai_sessions(experiment_id, provider_id) WHERE experiment_id IS NOT NULL;
@@ -0,0 +1,16 @@
+-- Eywa Score Settings & Additional Rating Sources
+-- Created: 2026-10-19
+
+-- Per-hotel weight overrides (source slug -> 0..1); sources without an override use their default weight
+CREATE TABLE IF NOT EXISTS hotel_eywa_settings (
+  hotel_id UUID PRIMARY KEY REFERENCES hotels(id) ON DELETE CASCADE,
+  weights JSONB NOT NULL DEFAULT '{}',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Ratings are stored on each source's own scale (Booking.com and Expedia rate out of 10)
+ALTER TABLE hotel_ratings ALTER COLUMN rating TYPE DECIMAL(3,1);
+
+-- Contribution of every source to a computed score
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS source_breakdown JSONB;
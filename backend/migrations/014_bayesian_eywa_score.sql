@@ -0,0 +1,14 @@
+-- Bayesian Eywa Score
+-- Created: 2026-10-19
+
+-- Score published as the Eywa Score: weighted (per-source ratings) or bayesian (recency-weighted reviews shrunk toward the market)
+ALTER TABLE hotel_eywa_settings ADD COLUMN IF NOT EXISTS score_mode VARCHAR(20) NOT NULL DEFAULT 'weighted';
+
+-- Both modes are stored with every score so they can be compared; eywa_score holds the published one
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS score_mode VARCHAR(20) DEFAULT 'weighted';
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS weighted_score DECIMAL(4,2);
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS bayesian_score DECIMAL(4,2);
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS bayesian_lower DECIMAL(4,2); -- credible interval (95%)
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS bayesian_upper DECIMAL(4,2);
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS bayesian_prior DECIMAL(4,2); -- market average the score is shrunk toward
+ALTER TABLE hotel_eywa_scores ADD COLUMN IF NOT EXISTS effective_reviews DECIMAL(10,2); -- sum of recency weights
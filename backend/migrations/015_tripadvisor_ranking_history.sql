@@ -0,0 +1,5 @@
+-- TripAdvisor Ranking History
+-- Created: 2026-10-19
+
+-- Daily hotel_ratings rows keep the parsed city ranking ("#15 of 234 Hotels in Paris")
+ALTER TABLE hotel_ratings ADD COLUMN IF NOT EXISTS ranking_total INTEGER;
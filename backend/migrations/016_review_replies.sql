@@ -0,0 +1,30 @@
+-- Review Replies (AI drafts, approval and publishing)
+-- Created: 2026-10-19
+
+-- Reply state of each review:
+-- none -> draft -> pending_approval -> published (or approved when the source
+-- has no publisher and the reply is posted by hand); rejected and failed
+-- replies go back to draft when edited
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_status VARCHAR(20) NOT NULL DEFAULT 'none';
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_text TEXT;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_provider VARCHAR(50); -- ai_providers.slug of the AI draft, NULL when written by hand
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_drafted_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_review_note TEXT; -- reason of a rejection
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_external_id VARCHAR(255); -- id of the reply on the source
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_error TEXT; -- last publishing error
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_updated_at TIMESTAMPTZ;
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS reply_published_at TIMESTAMPTZ;
+
+-- Tone of the AI drafts, per hotel
+CREATE TABLE IF NOT EXISTS hotel_reply_settings (
+  hotel_id UUID PRIMARY KEY REFERENCES hotels(id) ON DELETE CASCADE,
+  tone VARCHAR(20) NOT NULL DEFAULT 'warm', -- warm, professional, concise
+  signature VARCHAR(255), -- e.g. "Marie, Guest Relations"
+  instructions TEXT, -- extra guidance for the model (facts to mention, words to avoid, ...)
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS hotel_reviews_reply_status_idx ON hotel_reviews(hotel_id, reply_status);
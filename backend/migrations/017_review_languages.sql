@@ -0,0 +1,11 @@
+-- Review Languages (detected on ingest)
+-- Created: 2026-10-19
+
+-- language now holds the language detected from the review text, falling back
+-- to the one the source reported; language_source keeps the reported one
+-- (Google reports the language of the text it displays, which may be a translation)
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS language_source VARCHAR(10);
+ALTER TABLE hotel_reviews ADD COLUMN IF NOT EXISTS language_confidence DECIMAL(3,2); -- NULL when not detected
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS hotel_reviews_language_idx ON hotel_reviews(hotel_id, language);
@@ -0,0 +1,41 @@
+-- Alert Rules (per-hotel thresholds, stored alerts)
+-- Created: 2026-10-19
+
+-- User-defined alert rules, evaluated hourly. params depend on the type:
+-- score_drop {points, days}, negative_review_keyword {keywords, maxRating},
+-- competitor_overtake {days}, sync_failing {hours}, occupancy_below_target {target, days}
+CREATE TABLE IF NOT EXISTS hotel_alert_rules (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  hotel_id UUID NOT NULL REFERENCES hotels(id) ON DELETE CASCADE,
+  name VARCHAR(255) NOT NULL,
+  type VARCHAR(50) NOT NULL,
+  params JSONB NOT NULL DEFAULT '{}',
+  severity VARCHAR(10) NOT NULL DEFAULT 'medium', -- low, medium, high
+  cooldown_minutes INTEGER NOT NULL DEFAULT 1440, -- minimum time between two alerts of the same condition
+  enabled BOOLEAN NOT NULL DEFAULT true,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  last_evaluated_at TIMESTAMPTZ,
+  last_fired_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Fired alerts are stored as hotel-wide notifications (user_id NULL).
+-- dedup_key identifies the condition (rule + what it fired on): while an alert
+-- is open (not acknowledged), repeats of its condition only bump occurrences
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS rule_id UUID REFERENCES hotel_alert_rules(id) ON DELETE SET NULL;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS severity VARCHAR(10); -- low, medium, high
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS dedup_key VARCHAR(255);
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS data JSONB;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS occurrences INTEGER NOT NULL DEFAULT 1;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS last_seen_at TIMESTAMPTZ;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS acknowledged_at TIMESTAMPTZ;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS acknowledged_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE notifications ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMPTZ;
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS hotel_alert_rules_hotel_idx ON hotel_alert_rules(hotel_id) WHERE enabled = true;
+CREATE INDEX IF NOT EXISTS notifications_hotel_idx ON notifications(hotel_id, created_at DESC);
+-- One open alert per condition
+CREATE UNIQUE INDEX IF NOT EXISTS notifications_open_dedup_idx ON notifications(hotel_id, dedup_key)
+  WHERE dedup_key IS NOT NULL AND acknowledged_at IS NULL;
@@ -0,0 +1,47 @@
+-- Notification Delivery (email, Telegram, webhooks)
+-- Created: 2026-10-19
+
+-- Channels each user receives notifications on. Without a row: email to the
+-- account address for medium and high severity, no quiet hours.
+-- During quiet hours (local time, may span midnight) deliveries wait for the
+-- end of the window, except high severity ones.
+CREATE TABLE IF NOT EXISTS user_notification_preferences (
+  user_id UUID PRIMARY KEY REFERENCES users(id) ON DELETE CASCADE,
+  email_enabled BOOLEAN NOT NULL DEFAULT true,
+  email VARCHAR(255), -- NULL: the account email
+  telegram_enabled BOOLEAN NOT NULL DEFAULT false,
+  telegram_chat_id VARCHAR(64),
+  webhook_enabled BOOLEAN NOT NULL DEFAULT false,
+  webhook_url TEXT, -- Slack-style incoming webhook or any JSON endpoint
+  webhook_secret VARCHAR(255), -- signs webhook bodies (X-Eywa-Signature)
+  min_severity VARCHAR(10) NOT NULL DEFAULT 'medium', -- low, medium, high
+  quiet_hours_start VARCHAR(5), -- HH:MM
+  quiet_hours_end VARCHAR(5), -- HH:MM
+  timezone VARCHAR(64) NOT NULL DEFAULT 'UTC',
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW()
+);
+
+-- Delivery log: one row per notification, user and channel.
+-- pending rows are (re)tried from next_attempt_at with exponential backoff;
+-- failed = gave up, skipped = channel not configured on the server
+CREATE TABLE IF NOT EXISTS notification_deliveries (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  notification_id UUID NOT NULL REFERENCES notifications(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE CASCADE,
+  channel VARCHAR(20) NOT NULL, -- email, telegram, webhook
+  recipient TEXT NOT NULL, -- email address, chat id or webhook URL
+  status VARCHAR(20) NOT NULL DEFAULT 'pending', -- pending, sent, failed, skipped
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMPTZ,
+  last_error TEXT,
+  external_id VARCHAR(255), -- Message-ID, Telegram message id, ...
+  sent_at TIMESTAMPTZ,
+  created_at TIMESTAMPTZ DEFAULT NOW(),
+  updated_at TIMESTAMPTZ DEFAULT NOW(),
+  UNIQUE (notification_id, user_id, channel)
+);
+
+-- Create indexes
+CREATE INDEX IF NOT EXISTS notification_deliveries_due_idx ON notification_deliveries(next_attempt_at) WHERE status = 'pending';
+CREATE INDEX IF NOT EXISTS notification_deliveries_notification_idx ON notification_deliveries(notification_id);
@@ -0,0 +1,257 @@
+/**
+ * Unit tests for AI provider experiments and their statistics
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import {
+  analyzeExperiment,
+  createExperiment,
+  getExperimentResults,
+  pickVariant,
+  runExperimentEvaluation,
+  routeSession,
+  Experiment,
+} from '../services/ai-experiments.js';
+import {
+  normalQuantile,
+  wilsonInterval,
+  twoProportionTest,
+  ratioInterval,
+  ratioDifferenceTest,
+  RatioSums,
+} from '../services/experiment-stats.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const VARIANT_ROWS = [
+  { experiment_id: 'exp-1', provider_id: 'p-gpt', slug: 'chatgpt', name: 'ChatGPT', weight: 1, position: 0 },
+  { experiment_id: 'exp-1', provider_id: 'p-claude', slug: 'claude', name: 'Claude', weight: 3, position: 1 },
+];
+
+function experiment(overrides: Partial<Experiment> = {}): Experiment {
+  return {
+    id: 'exp-1', hotelId: 'hotel-1', name: 'GPT vs Claude', status: 'running', primaryMetric: 'conversion_rate',
+    minSessionsPerVariant: 100, confidenceLevel: 0.95, autoPromote: true, winner: null,
+    variants: [
+      { providerId: 'p-gpt', provider: 'chatgpt', name: 'ChatGPT', weight: 1, position: 0 },
+      { providerId: 'p-claude', provider: 'claude', name: 'Claude', weight: 3, position: 1 },
+    ],
+    startedAt: new Date('2024-03-01'), endedAt: null,
+    ...overrides,
+  };
+}
+
+// n sessions, `conversions` of them worth `value`, each costing `cost`
+function sums(n: number, conversions: number, value = 100, cost = 0.05) {
+  return {
+    n, conversions,
+    sumY: conversions * value, sumY2: conversions * value * value,
+    sumX: n * cost, sumX2: n * cost * cost, sumXY: conversions * value * cost,
+  };
+}
+
+function mockDb(options: { experiment?: any; running?: any[]; sums?: any[]; providers?: any[] } = {}) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM ai_experiment_variants')) return { rows: VARIANT_ROWS };
+    if (sql.includes('FROM ai_experiments e')) {
+      return { rows: [{ id: 'exp-1', hotel_id: 'hotel-1', name: 'GPT vs Claude', status: 'running', primary_metric: 'conversion_rate',
+        min_sessions_per_variant: 100, confidence_level: '0.950', auto_promote: true, winner_slug: null, ...options.experiment }] };
+    }
+    if (sql.startsWith('UPDATE')) return { rows: [], rowCount: 1 };
+    if (sql.includes("status = 'running'")) return { rows: options.running || [] };
+    if (sql.includes('FROM ai_sessions')) return { rows: options.sums || [] };
+    if (sql.includes('FROM ai_providers WHERE slug')) return { rows: options.providers || [{ id: 'p-gpt', slug: 'chatgpt' }, { id: 'p-claude', slug: 'claude' }] };
+    if (sql.includes('INSERT INTO ai_experiments')) return { rows: [{ id: 'exp-1' }] };
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+describe('Experiment statistics', () => {
+  test('normal quantiles', () => {
+    expect(normalQuantile(0.975)).toBeCloseTo(1.96, 2);
+    expect(normalQuantile(0.5)).toBeCloseTo(0, 6);
+  });
+
+  test('Wilson interval', () => {
+    const interval = wilsonInterval(50, 100);
+    expect(interval.estimate).toBe(0.5);
+    expect(interval.lower).toBeCloseTo(0.4038, 3);
+    expect(interval.upper).toBeCloseTo(0.5962, 3);
+    expect(wilsonInterval(0, 0)).toEqual({ estimate: null, lower: null, upper: null });
+  });
+
+  test('two-proportion z-test', () => {
+    const test = twoProportionTest(60, 200, 40, 200);
+    expect(test.difference).toBeCloseTo(0.1, 10);
+    expect(test.zScore).toBeCloseTo(2.309, 2);
+    expect(test.pValue).toBeCloseTo(0.0209, 3);
+  });
+
+  test('revenue per dollar interval and difference', () => {
+    const a: RatioSums = { n: 4, sumY: 300, sumY2: 50000, sumX: 2, sumX2: 1.1, sumXY: 170 };
+    const interval = ratioInterval(a);
+    expect(interval.estimate).toBe(150);
+    expect(interval.lower!).toBeLessThan(150);
+    expect(interval.upper!).toBeGreaterThan(150);
+
+    expect(ratioDifferenceTest(a, { ...a, sumX: 0 })).toEqual({ difference: null, zScore: null, pValue: null });
+    expect(ratioDifferenceTest(a, a)).toMatchObject({ difference: 0 });
+    expect(ratioDifferenceTest(a, a).pValue).toBeCloseTo(1, 6);
+  });
+});
+
+describe('AI experiments', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+  });
+
+  test('pickVariant splits draws by weight', () => {
+    const variants = [{ id: 'a', weight: 1 }, { id: 'b', weight: 3 }];
+    expect(pickVariant(variants, 0).id).toBe('a');
+    expect(pickVariant(variants, 0.24).id).toBe('a');
+    expect(pickVariant(variants, 0.25).id).toBe('b');
+    expect(pickVariant(variants, 0.999).id).toBe('b');
+  });
+
+  test('routeSession follows the running experiment', async () => {
+    mockDb({ running: [{ id: 'exp-1' }] });
+    expect(await routeSession('hotel-1', () => 0.9)).toEqual({ provider: 'claude', experimentId: 'exp-1' });
+
+    mockDb({ running: [] });
+    expect(await routeSession('hotel-1')).toBeNull();
+  });
+
+  describe('analyzeExperiment', () => {
+    test('compares every variant with the control', () => {
+      const analysis = analyzeExperiment(experiment(), new Map([['p-gpt', sums(200, 40)], ['p-claude', sums(200, 60)]]));
+
+      expect(analysis.variants[0]).toMatchObject({ provider: 'chatgpt', isControl: true, vsControl: null, sessions: 200, revenue: 4000 });
+      expect(analysis.variants[1].conversionRate.estimate).toBe(0.3);
+      expect(analysis.variants[1].revenuePerDollar.estimate).toBe(600);
+      expect(analysis.variants[1].vsControl!.conversionRate).toMatchObject({ difference: 0.1, significant: true });
+      expect(analysis.leader).toBe('claude');
+      expect(analysis.readyToPromote).toBe(true);
+    });
+
+    test('waits for the minimum sample size', () => {
+      const analysis = analyzeExperiment(
+        experiment({ minSessionsPerVariant: 500 }),
+        new Map([['p-gpt', sums(200, 40)], ['p-claude', sums(200, 60)]])
+      );
+      expect(analysis.leader).toBe('claude');
+      expect(analysis.readyToPromote).toBe(false);
+    });
+
+    test('does not promote a difference that is not significant', () => {
+      const analysis = analyzeExperiment(experiment(), new Map([['p-gpt', sums(200, 40)], ['p-claude', sums(200, 44)]]));
+      expect(analysis.variants[1].vsControl!.conversionRate.significant).toBe(false);
+      expect(analysis.readyToPromote).toBe(false);
+    });
+
+    test('applies the Bonferroni correction with more variants', () => {
+      const threeWay = experiment({
+        variants: [
+          ...experiment().variants,
+          { providerId: 'p-gemini', provider: 'gemini', name: 'Gemini', weight: 1, position: 2 },
+        ],
+      });
+      // Claude vs ChatGPT: p ~ 0.036 beats alpha 0.05 but not 0.05 / 2
+      const analysis = analyzeExperiment(threeWay, new Map([
+        ['p-gpt', sums(200, 40)], ['p-claude', sums(200, 58)], ['p-gemini', sums(200, 20)],
+      ]));
+      expect(analysis.readyToPromote).toBe(false);
+    });
+
+    test('can decide on revenue per dollar', () => {
+      const analysis = analyzeExperiment(
+        experiment({ primaryMetric: 'revenue_per_dollar' }),
+        // Same conversions, but ChatGPT costs a fifth of Claude
+        new Map([['p-gpt', sums(200, 50, 100, 0.01)], ['p-claude', sums(200, 50, 100, 0.05)]])
+      );
+      expect(analysis.leader).toBe('chatgpt');
+    });
+  });
+
+  test('getExperimentResults does not change the experiment', async () => {
+    mockDb({
+      sums: [
+        { provider_id: 'p-gpt', n: '200', conversions: '40', sum_y: '4000', sum_y2: '400000', sum_x: '10', sum_x2: '0.5', sum_xy: '200' },
+        { provider_id: 'p-claude', n: '200', conversions: '60', sum_y: '6000', sum_y2: '600000', sum_x: '10', sum_x2: '0.5', sum_xy: '300' },
+      ],
+    });
+
+    const results = await getExperimentResults('hotel-1', 'exp-1');
+
+    expect(results).toMatchObject({ leader: 'claude', readyToPromote: true });
+    expect(results.experiment.status).toBe('running');
+    expect(mockQuery.mock.calls.some(([sql]) => sql.startsWith('UPDATE'))).toBe(false);
+  });
+
+  test('runExperimentEvaluation promotes the winner to the hotel default', async () => {
+    mockDb({
+      running: [{ id: 'exp-1', hotel_id: 'hotel-1' }],
+      sums: [
+        { provider_id: 'p-gpt', n: '200', conversions: '40', sum_y: '4000', sum_y2: '400000', sum_x: '10', sum_x2: '0.5', sum_xy: '200' },
+        { provider_id: 'p-claude', n: '200', conversions: '60', sum_y: '6000', sum_y2: '600000', sum_x: '10', sum_x2: '0.5', sum_xy: '300' },
+      ],
+    });
+
+    const result = await runExperimentEvaluation();
+
+    expect(result).toMatchObject({ experimentsTotal: 1, promoted: ['exp-1'], failed: 0 });
+    const promotion = mockQuery.mock.calls.find(([sql]) => sql.includes("SET status = 'completed'"))!;
+    expect(promotion[1]).toEqual(['exp-1', 'p-claude']);
+    const hotelDefault = mockQuery.mock.calls.find(([sql]) => sql.includes('UPDATE hotels SET default_ai_provider_id'))!;
+    expect(hotelDefault[1]).toEqual(['hotel-1', 'p-claude']);
+  });
+
+  test('evaluation without auto-promotion leaves the experiment running', async () => {
+    mockDb({
+      running: [{ id: 'exp-1', hotel_id: 'hotel-1' }],
+      experiment: { auto_promote: false },
+      sums: [
+        { provider_id: 'p-gpt', n: '200', conversions: '40', sum_y: '4000', sum_y2: '400000', sum_x: '10', sum_x2: '0.5', sum_xy: '200' },
+        { provider_id: 'p-claude', n: '200', conversions: '60', sum_y: '6000', sum_y2: '600000', sum_x: '10', sum_x2: '0.5', sum_xy: '300' },
+      ],
+    });
+
+    const result = await runExperimentEvaluation();
+
+    expect(result.promoted).toEqual([]);
+    expect(mockQuery.mock.calls.some(([sql]) => sql.includes('UPDATE hotels'))).toBe(false);
+  });
+
+  describe('createExperiment', () => {
+    test('stores variants in order, the first being the control', async () => {
+      await createExperiment('hotel-1', { name: 'GPT vs Claude', variants: [{ provider: 'chatgpt' }, { provider: 'claude', weight: 3 }] });
+
+      const variants = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO ai_experiment_variants')).map(([, p]) => p);
+      expect(variants).toEqual([['exp-1', 'p-gpt', 1, 0], ['exp-1', 'p-claude', 3, 1]]);
+    });
+
+    test('validates the definition', async () => {
+      const base = { name: 'Test', variants: [{ provider: 'chatgpt' }, { provider: 'claude' }] };
+      await expect(createExperiment('hotel-1', { ...base, variants: [{ provider: 'chatgpt' }] })).rejects.toThrow('At least two variants');
+      await expect(createExperiment('hotel-1', { ...base, variants: [{ provider: 'claude' }, { provider: 'claude' }] })).rejects.toThrow('one variant');
+      await expect(createExperiment('hotel-1', { ...base, variants: [{ provider: 'chatgpt', weight: 0 }, { provider: 'claude' }] })).rejects.toThrow('positive integer');
+      await expect(createExperiment('hotel-1', { ...base, confidenceLevel: 1.5 })).rejects.toThrow('confidenceLevel');
+      await expect(createExperiment('hotel-1', { ...base, primaryMetric: 'ctr' as any })).rejects.toThrow('primaryMetric');
+
+      mockDb({ providers: [{ id: 'p-gpt', slug: 'chatgpt' }] });
+      await expect(createExperiment('hotel-1', base)).rejects.toThrow('Unknown provider: claude');
+    });
+
+    test('allows one running experiment per hotel', async () => {
+      mockDb({ running: [{ id: 'exp-0' }] });
+      await expect(createExperiment('hotel-1', { name: 'Test', variants: [{ provider: 'chatgpt' }, { provider: 'claude' }] }))
+        .rejects.toMatchObject({ status: 409 });
+    });
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * Unit tests for AI session ingestion
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import {
+  validateSession,
+  sessionCost,
+  ingestSessions,
+  ingestSession,
+  linkConversions,
+  MAX_BATCH_SIZE,
+} from '../services/ai-sessions.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const PROVIDERS = [
+  { id: 'provider-gpt', slug: 'chatgpt', cost_per_1k_in: '0.010000', cost_per_1k_out: '0.030000' },
+  { id: 'provider-claude', slug: 'claude', cost_per_1k_in: '0.015000', cost_per_1k_out: '0.075000' },
+];
+
+const EXPERIMENT_ID = '6f1c1f0e-8a59-4c55-9a4e-0d5a3c1b2e01';
+
+function mockDb(options: { linked?: Array<{ session_id: string; booking_id: string }> } = {}) {
+  let inserted = 0;
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM ai_providers')) return { rows: PROVIDERS };
+    if (sql.includes('INSERT INTO ai_sessions')) {
+      inserted++;
+      return { rows: [{ id: `session-${inserted}`, booking_id: null, created: true }] };
+    }
+    if (sql.includes('WITH linked AS')) return { rows: options.linked || [] };
+    if (sql.includes('FROM ai_experiments')) return { rows: [{ id: EXPERIMENT_ID }] };
+    return { rows: [] };
+  });
+}
+
+function insertParams(): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO ai_sessions')).map(([, params]) => params);
+}
+
+describe('AI session ingestion', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+  });
+
+  describe('validateSession', () => {
+    test('normalizes a minimal session', () => {
+      expect(validateSession({ provider: ' ChatGPT ', sessionType: 'guest_support' })).toMatchObject({
+        provider: 'chatgpt',
+        tokensIn: 0,
+        tokensOut: 0,
+        guestRating: null,
+        converted: false,
+        confirmationNumber: null,
+      });
+    });
+
+    test('a confirmation number marks the session converted', () => {
+      expect(validateSession({ provider: 'claude', sessionType: 'booking_assist', confirmationNumber: 'ABC123' }).converted).toBe(true);
+    });
+
+    test.each([
+      [{ sessionType: 'upsell' }, 'provider is required'],
+      [{ provider: 'claude', sessionType: 'chat' }, 'sessionType must be one of'],
+      [{ provider: 'claude', sessionType: 'upsell', tokensIn: -1 }, 'tokensIn must be a non-negative integer'],
+      [{ provider: 'claude', sessionType: 'upsell', tokensOut: 1.5 }, 'tokensOut must be a non-negative integer'],
+      [{ provider: 'claude', sessionType: 'upsell', guestRating: 6 }, 'guestRating must be an integer between 1 and 5'],
+      [{ provider: 'claude', sessionType: 'upsell', conversionValue: '100' }, 'conversionValue must be a non-negative number'],
+      [{ provider: 'claude', sessionType: 'upsell', confirmationNumber: ' ' }, 'confirmationNumber must be a non-empty string'],
+      [{ provider: 'claude', sessionType: 'upsell', createdAt: 'yesterday' }, 'createdAt must be an ISO timestamp'],
+      [{ provider: 'claude', sessionType: 'upsell', createdAt: '2999-01-01T00:00:00Z' }, 'createdAt is in the future'],
+    ])('rejects %j', (input, message) => {
+      expect(() => validateSession(input)).toThrow(message);
+    });
+  });
+
+  test('sessionCost uses the per-1k token prices', () => {
+    const price = { id: 'p', slug: 'claude', costPer1kIn: 0.015, costPer1kOut: 0.075 };
+    expect(sessionCost(2000, 500, price)).toBe(0.0675);
+    expect(sessionCost(0, 0, price)).toBe(0);
+  });
+
+  describe('ingestSessions', () => {
+    test('prices each session with its provider and loads prices once', async () => {
+      const result = await ingestSessions('hotel-1', [
+        { provider: 'chatgpt', sessionType: 'guest_support', tokensIn: 1000, tokensOut: 1000, guestRating: 5 },
+        { provider: 'claude', sessionType: 'upsell', tokensIn: 2000, tokensOut: 500, externalId: 'conv-42' },
+      ]);
+
+      expect(result).toMatchObject({ received: 2, accepted: 2, rejected: 0 });
+      expect(result.sessions.map(s => s.cost)).toEqual([0.04, 0.0675]);
+      expect(mockQuery.mock.calls.filter(([sql]) => sql.includes('FROM ai_providers'))).toHaveLength(1);
+
+      const [first, second] = insertParams();
+      expect(first.slice(0, 6)).toEqual(['hotel-1', 'provider-gpt', 'guest_support', 1000, 1000, 0.04]);
+      expect(second[10]).toBe('conv-42');
+    });
+
+    test('tags sessions with the hotel experiment that routed them', async () => {
+      const result = await ingestSessions('hotel-1', [
+        { provider: 'claude', sessionType: 'upsell', experimentId: EXPERIMENT_ID },
+        { provider: 'claude', sessionType: 'upsell', experimentId: '0b9d3b1a-1111-4222-8333-444455556666' },
+        { provider: 'claude', sessionType: 'upsell', experimentId: 'exp-1' },
+      ]);
+
+      expect(insertParams()[0][11]).toBe(EXPERIMENT_ID);
+      expect(result.errors).toEqual([
+        { index: 1, error: 'Unknown experiment: 0b9d3b1a-1111-4222-8333-444455556666' },
+        { index: 2, error: 'experimentId must be a UUID' },
+      ]);
+    });
+
+    test('retried sessions update the stored row', async () => {
+      await ingestSessions('hotel-1', [{ provider: 'claude', sessionType: 'upsell', externalId: 'conv-42' }]);
+
+      const [sql] = mockQuery.mock.calls.find(([s]) => s.includes('INSERT INTO ai_sessions'))!;
+      expect(sql).toContain('ON CONFLICT (hotel_id, external_id) WHERE external_id IS NOT NULL DO UPDATE');
+    });
+
+    test('reports invalid sessions and unknown providers by index', async () => {
+      const result = await ingestSessions('hotel-1', [
+        { provider: 'gemini-ultra', sessionType: 'upsell' },
+        { provider: 'claude', sessionType: 'upsell' },
+        { provider: 'claude', sessionType: 'upsell', guestRating: 0 },
+      ]);
+
+      expect(result).toMatchObject({ received: 3, accepted: 1, rejected: 2 });
+      expect(result.errors).toEqual([
+        { index: 0, error: 'Unknown provider: gemini-ultra' },
+        { index: 2, error: 'guestRating must be an integer between 1 and 5' },
+      ]);
+    });
+
+    test('links conversions whose booking is already stored', async () => {
+      mockDb({ linked: [{ session_id: 'session-1', booking_id: 'booking-9' }] });
+
+      const result = await ingestSessions('hotel-1', [
+        { provider: 'claude', sessionType: 'booking_assist', confirmationNumber: 'RES-9' },
+      ]);
+
+      expect(result.sessions[0].bookingId).toBe('booking-9');
+      expect(insertParams()[0][6]).toBe(true);
+    });
+
+    test('does not try to link sessions without a confirmation number', async () => {
+      await ingestSessions('hotel-1', [{ provider: 'claude', sessionType: 'guest_support' }]);
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('WITH linked AS'))).toBe(false);
+    });
+
+    test('rejects empty and oversized batches', async () => {
+      await expect(ingestSessions('hotel-1', [])).rejects.toMatchObject({ status: 400 });
+      const batch = Array.from({ length: MAX_BATCH_SIZE + 1 }, () => ({ provider: 'claude', sessionType: 'upsell' }));
+      await expect(ingestSessions('hotel-1', batch)).rejects.toThrow(`At most ${MAX_BATCH_SIZE} sessions`);
+    });
+  });
+
+  test('ingestSession throws on an invalid session', async () => {
+    await expect(ingestSession('hotel-1', { provider: 'nope', sessionType: 'upsell' }))
+      .rejects.toMatchObject({ status: 400, message: 'Unknown provider: nope' });
+  });
+
+  test('linkConversions matches confirmation numbers and PMS ids and flags the booking', async () => {
+    mockDb({ linked: [{ session_id: 'session-1', booking_id: 'booking-9' }] });
+
+    const linked = await linkConversions('hotel-1', 'booking-9');
+
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('b.confirmation_number = s.confirmation_number OR b.pms_booking_id = s.confirmation_number');
+    expect(sql).toContain('ai_assisted = true');
+    expect(params).toEqual(['hotel-1', 'booking-9']);
+    expect(linked.get('session-1')).toBe('booking-9');
+  });
+});
@@ -0,0 +1,286 @@
+/**
+ * Unit tests for the alert rules engine (evaluation, dedup, cooldown, acknowledge, snooze)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+jest.mock('../services/notification-dispatcher.js', () => ({
+  dispatchNotification: jest.fn().mockResolvedValue({}),
+}));
+
+import * as alertRules from '../services/alert-rules.js';
+import { dispatchNotification } from '../services/notification-dispatcher.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+const mockDispatch = dispatchNotification as jest.Mock;
+
+const HOUR = 60 * 60 * 1000;
+
+function rule(overrides: Partial<alertRules.AlertRule> = {}): alertRules.AlertRule {
+  return {
+    id: 'rule-1',
+    hotelId: 'hotel-1',
+    name: 'Score watch',
+    type: 'score_drop',
+    params: { points: 0.3, days: 7 },
+    severity: 'high',
+    cooldownMinutes: 60,
+    enabled: true,
+    lastEvaluatedAt: null,
+    lastFiredAt: null,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+    ...overrides,
+  };
+}
+
+// Routes the engine's queries: `data` answers the rule's own query, `previous` is the last alert of the condition
+function mockDb(data: any[], previous: any = null) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.startsWith('UPDATE')) return { rows: [] };
+    if (sql.includes('WHERE hotel_id = $1 AND dedup_key = $2')) return { rows: previous ? [previous] : [] };
+    if (sql.startsWith('INSERT INTO notifications')) return { rows: [{ id: 'alert-1' }] };
+    return { rows: data };
+  });
+}
+
+function callsMatching(text: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(text));
+}
+
+describe('Alert rules', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('createRule', () => {
+    test('validates the rule and fills default params', async () => {
+      mockQuery.mockImplementation(async (_sql: string, params: any[]) => ({
+        rows: [{ id: 'rule-1', hotel_id: params[0], name: params[1], type: params[2], params: JSON.parse(params[3]),
+          severity: params[4], cooldown_minutes: params[5], enabled: params[6] }],
+      }));
+
+      const created = await alertRules.createRule('hotel-1', { name: ' Wifi complaints ', type: 'negative_review_keyword', params: { keywords: ['WiFi', 'Bruyant', 'wifi'] } }, 'user-1');
+
+      expect(created).toMatchObject({
+        name: 'Wifi complaints',
+        params: { keywords: ['wifi', 'bruyant'], maxRating: 3 },
+        severity: 'medium',
+        cooldownMinutes: 1440,
+        enabled: true,
+      });
+      expect(mockQuery.mock.calls[0][1][7]).toBe('user-1');
+    });
+
+    test('rejects invalid rules', async () => {
+      await expect(alertRules.createRule('hotel-1', { name: 'x', type: 'weather' as any }, null)).rejects.toMatchObject({ status: 400 });
+      await expect(alertRules.createRule('hotel-1', { name: 'x', type: 'occupancy_below_target' }, null)).rejects.toThrow('params.target');
+      await expect(alertRules.createRule('hotel-1', { name: 'x', type: 'sync_failing', params: { hours: 0 } }, null)).rejects.toThrow('params.hours');
+      await expect(alertRules.createRule('hotel-1', { name: 'x', type: 'score_drop', severity: 'urgent' as any }, null)).rejects.toThrow('severity');
+      await expect(alertRules.createRule('hotel-1', { name: '', type: 'score_drop' }, null)).rejects.toThrow('name');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('evaluateRule', () => {
+    test('fires a score drop over the rule window', async () => {
+      mockDb([{ current_score: '7.60', start_score: '8.10' }]);
+
+      const evaluation = await alertRules.evaluateRule(rule());
+
+      expect(evaluation).toEqual({ ruleId: 'rule-1', fired: ['alert-1'], deduplicated: 0, suppressed: 0 });
+      expect(callsMatching('FROM hotel_eywa_scores')[0][1]).toEqual(['hotel-1', 7]);
+      const [, params] = callsMatching('INSERT INTO notifications')[0];
+      expect(params.slice(0, 7)).toEqual(['hotel-1', 'reviews', 'Eywa Score dropped by 0.50 points',
+        'Eywa Score went from 8.10 to 7.60 over the last 7 days', 'rule-1', 'high', 'rule-1:score']);
+      expect(callsMatching('last_fired_at = NOW()')).toHaveLength(1);
+      expect(mockDispatch).toHaveBeenCalledWith('alert-1');
+    });
+
+    test('stays quiet under the threshold', async () => {
+      mockDb([{ current_score: '7.90', start_score: '8.10' }]);
+
+      expect((await alertRules.evaluateRule(rule())).fired).toEqual([]);
+      expect(callsMatching('INSERT INTO notifications')).toHaveLength(0);
+      expect(callsMatching('last_evaluated_at = NOW()')).toHaveLength(1);
+      expect(mockDispatch).not.toHaveBeenCalled();
+    });
+
+    test('a delivery failure does not fail the evaluation', async () => {
+      mockDb([{ current_score: '7.60', start_score: '8.10' }]);
+      mockDispatch.mockRejectedValueOnce(new Error('SMTP down'));
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      expect((await alertRules.evaluateRule(rule())).fired).toEqual(['alert-1']);
+      expect(callsMatching('last_fired_at = NOW()')).toHaveLength(1);
+      errorSpy.mockRestore();
+    });
+
+    test('matches review keywords as whole words, accents and case aside', async () => {
+      mockDb([
+        { id: 'review-1', source: 'google', author_name: 'Claire', rating: 2, text: 'Le WiFi ne marche pas, chambre bruyante.' },
+        { id: 'review-2', source: 'google', author_name: 'Tom', rating: 1, text: 'Wifistation was closed.' },
+      ]);
+
+      const evaluation = await alertRules.evaluateRule(rule({
+        type: 'negative_review_keyword', params: { keywords: ['wifi', 'bruyante'], maxRating: 2 },
+      }));
+
+      expect(evaluation.fired).toHaveLength(1);
+      const [, params] = callsMatching('INSERT INTO notifications')[0];
+      expect(params[2]).toBe('2-star review mentions "wifi", "bruyante"');
+      expect(params[6]).toBe('rule-1:review:review-1');
+    });
+
+    test('fires when a competitor passes the hotel', async () => {
+      mockDb([
+        { id: 'hotel-1', name: 'Hotel Lumen', current_score: '8.10', previous_score: '8.30' },
+        { id: 'hotel-2', name: 'Hotel Rivage', current_score: '8.40', previous_score: '8.00' },
+        { id: 'hotel-3', name: 'Grand Hotel', current_score: '9.00', previous_score: '9.10' }, // was already ahead
+      ]);
+
+      const evaluation = await alertRules.evaluateRule(rule({ type: 'competitor_overtake', params: { days: 7 } }));
+
+      expect(evaluation.fired).toHaveLength(1);
+      const [, params] = callsMatching('INSERT INTO notifications')[0];
+      expect(params[1]).toBe('competitors');
+      expect(params[2]).toBe('Hotel Rivage overtook your Eywa Score');
+      expect(params[6]).toBe('rule-1:competitor:hotel-2');
+    });
+
+    test('fires per failing sync and for occupancy under target', async () => {
+      mockDb([
+        { kind: 'reviews', name: 'tripadvisor', error: 'HTTP 503', last_success_at: null },
+        { kind: 'pms', name: 'mews', error: null, last_success_at: new Date() },
+      ]);
+      const sync = await alertRules.evaluateRule(rule({ type: 'sync_failing', params: { hours: 12 } }));
+      expect(sync.fired).toHaveLength(2);
+      expect(callsMatching('INSERT INTO notifications').map(([, params]) => params[2])).toEqual([
+        'Review sync (tripadvisor) failing for 12+ hours',
+        'PMS sync (mews) failing for 12+ hours',
+      ]);
+
+      jest.clearAllMocks();
+      mockDb([{ occupancy: '54.333', days: '7' }]);
+      const occupancy = await alertRules.evaluateRule(rule({ type: 'occupancy_below_target', params: { target: 70, days: 7 } }));
+      expect(occupancy.fired).toHaveLength(1);
+      expect(callsMatching('INSERT INTO notifications')[0][1][2]).toBe('Occupancy at 54.33%, below the 70% target');
+    });
+  });
+
+  describe('dedup and cooldown', () => {
+    const dropping = [{ current_score: '7.60', start_score: '8.10' }];
+
+    test('repeats of an open alert only bump its occurrences', async () => {
+      mockDb(dropping, { id: 'alert-0', created_at: new Date(Date.now() - 5 * HOUR), acknowledged_at: null });
+
+      const evaluation = await alertRules.evaluateRule(rule());
+
+      expect(evaluation).toMatchObject({ fired: [], deduplicated: 1 });
+      expect(callsMatching('occurrences = occurrences + 1')[0][1][0]).toBe('alert-0');
+      expect(callsMatching('INSERT INTO notifications')).toHaveLength(0);
+      expect(mockDispatch).not.toHaveBeenCalled();
+    });
+
+    test('an acknowledged condition fires again only after the cooldown', async () => {
+      mockDb(dropping, { id: 'alert-0', created_at: new Date(Date.now() - 5 * HOUR), acknowledged_at: new Date(Date.now() - 0.5 * HOUR) });
+      expect(await alertRules.evaluateRule(rule())).toMatchObject({ fired: [], suppressed: 1 });
+
+      mockDb(dropping, { id: 'alert-0', created_at: new Date(Date.now() - 5 * HOUR), acknowledged_at: new Date(Date.now() - 2 * HOUR) });
+      expect(await alertRules.evaluateRule(rule())).toMatchObject({ fired: ['alert-1'] });
+    });
+
+    test('a review fires once', async () => {
+      mockDb(
+        [{ id: 'review-1', source: 'google', author_name: 'Claire', rating: 1, text: 'Dirty room' }],
+        { id: 'alert-0', created_at: new Date(Date.now() - 48 * HOUR), acknowledged_at: new Date(Date.now() - 47 * HOUR) }
+      );
+
+      const evaluation = await alertRules.evaluateRule(rule({ type: 'negative_review_keyword', params: { keywords: ['dirty'] } }));
+      expect(evaluation).toMatchObject({ fired: [], suppressed: 1 });
+    });
+  });
+
+  test('runAlertRules keeps going when a rule fails', async () => {
+    mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+      if (sql.includes('FROM hotel_alert_rules WHERE enabled = true')) {
+        return {
+          rows: [
+            { id: 'rule-1', hotel_id: 'hotel-1', name: 'a', type: 'score_drop', params: {}, severity: 'high', cooldown_minutes: 60, enabled: true },
+            { id: 'rule-2', hotel_id: 'hotel-2', name: 'b', type: 'score_drop', params: {}, severity: 'high', cooldown_minutes: 60, enabled: true },
+          ],
+        };
+      }
+      if (sql.includes('FROM hotel_eywa_scores')) {
+        if (params[0] === 'hotel-1') throw new Error('connection reset');
+        return { rows: [{ current_score: '7.00', start_score: '8.00' }] };
+      }
+      if (sql.startsWith('INSERT INTO notifications')) return { rows: [{ id: 'alert-2' }] };
+      return { rows: [] };
+    });
+
+    const result = await alertRules.runAlertRules();
+
+    expect(result).toMatchObject({ rulesTotal: 2, fired: 1, failed: 1, errors: [{ ruleId: 'rule-1', error: 'connection reset' }] });
+  });
+
+  describe('acknowledge and snooze', () => {
+    const ALERT_ROW = {
+      id: 'alert-1', hotel_id: 'hotel-1', rule_id: 'rule-1', category: 'reviews', severity: 'high', title: 'Eywa Score dropped',
+      message: null, data: {}, occurrences: 3, created_at: new Date(), last_seen_at: new Date(),
+      acknowledged_at: null, acknowledged_by: null, snoozed_until: null,
+    };
+
+    function mockAlert(row: Record<string, any> | null) {
+      mockQuery.mockImplementation(async (sql: string, params: any[]) => {
+        if (sql.startsWith('UPDATE notifications')) {
+          return {
+            rows: [{
+              ...row,
+              ...(sql.includes('acknowledged_at = NOW()') ? { acknowledged_at: new Date(), acknowledged_by: params[1] } : {}),
+              ...(sql.includes('snoozed_until') ? { snoozed_until: new Date(Date.now() + params[1] * 60 * 1000) } : {}),
+            }],
+          };
+        }
+        return { rows: row ? [row] : [] };
+      });
+    }
+
+    test('acknowledges an open alert', async () => {
+      mockAlert(ALERT_ROW);
+
+      expect(await alertRules.acknowledgeAlert('hotel-1', 'alert-1', 'user-1')).toMatchObject({
+        status: 'acknowledged', acknowledgedBy: 'user-1', occurrences: 3,
+      });
+    });
+
+    test('snoozes an open alert', async () => {
+      mockAlert(ALERT_ROW);
+
+      const snoozed = await alertRules.snoozeAlert('hotel-1', 'alert-1', 120);
+      expect(snoozed.status).toBe('snoozed');
+      expect(callsMatching('make_interval(mins => $2)')[0][1]).toEqual(['alert-1', 120]);
+    });
+
+    test('rejects unknown, closed alerts and bad snoozes', async () => {
+      mockAlert(null);
+      await expect(alertRules.acknowledgeAlert('hotel-1', 'alert-9', 'user-1')).rejects.toMatchObject({ status: 404 });
+
+      mockAlert({ ...ALERT_ROW, acknowledged_at: new Date() });
+      await expect(alertRules.snoozeAlert('hotel-1', 'alert-1', 30)).rejects.toMatchObject({ status: 409 });
+      await expect(alertRules.snoozeAlert('hotel-1', 'alert-1', 0)).rejects.toMatchObject({ status: 400 });
+    });
+
+    test('lists alerts by status', async () => {
+      mockAlert(ALERT_ROW);
+
+      await alertRules.listAlerts('hotel-1', 'snoozed');
+      expect(mockQuery.mock.calls[0][0]).toContain('snoozed_until > NOW()');
+      await expect(alertRules.listAlerts('hotel-1', 'closed' as any)).rejects.toMatchObject({ status: 400 });
+    });
+  });
+});
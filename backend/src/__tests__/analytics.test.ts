@@ -6,6 +6,7 @@ import {
   calculateTrendFromScores,
   detectAlerts,
   calculateSentiment,
+  calculateSentimentBy,
   calculateMarketPosition,
   generateTimelineData,
   calculateReviewRate,
@@ -169,6 +170,16 @@ describe('detectAlerts', () => {
     const negativeAlerts = alerts.filter(a => a.type === 'negative_review');
     expect(negativeAlerts).toHaveLength(0);
   });
+
+  test('flags negative reviews without a reply', () => {
+    expect(detectAlerts(8.0, null, [], 1).some(a => a.type === 'unanswered_negative_reviews')).toBe(false);
+
+    const few = detectAlerts(8.0, null, [], 1, 2).find(a => a.type === 'unanswered_negative_reviews');
+    expect(few).toMatchObject({ severity: 'medium', data: { count: 2 } });
+
+    const many = detectAlerts(8.0, null, [], 1, ALERT_THRESHOLDS.UNANSWERED_NEGATIVE_HIGH);
+    expect(many.find(a => a.type === 'unanswered_negative_reviews')?.severity).toBe('high');
+  });
 });
 
 describe('calculateSentiment', () => {
@@ -211,6 +222,22 @@ describe('calculateSentiment', () => {
   });
 });
 
+describe('calculateSentimentBy', () => {
+  test('breaks sentiment down per group', () => {
+    const reviews = [
+      { rating: 5, language: 'tr' },
+      { rating: 2, language: 'tr' },
+      { rating: 4, language: 'fr' },
+      { rating: 3, language: null },
+    ];
+
+    const result = calculateSentimentBy(reviews, r => r.language || 'unknown');
+    expect(Object.keys(result).sort()).toEqual(['fr', 'tr', 'unknown']);
+    expect(result.tr).toEqual({ positive: 1, neutral: 0, negative: 1, total: 2, averageRating: 3.5 });
+    expect(result.unknown.neutral).toBe(1);
+  });
+});
+
 describe('calculateMarketPosition', () => {
   test('handles no competitors', () => {
     const result = calculateMarketPosition(8.0, []);
@@ -0,0 +1,207 @@
+/**
+ * Unit tests for ARI (availability, rates, restrictions) push
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import { ariDates, AriUpdate } from '../../../shared/pms-contract';
+import { ApaleoAdapter } from '../../../src/adapters/apaleo';
+import { ElektrawebPMSAdapter } from '../adapters/elektraweb-pms.js';
+import { HotelRunnerPMSAdapter } from '../adapters/hotelrunner-pms.js';
+import type { ElektrawebAdapter } from '../adapters/elektraweb.js';
+import type { HotelRunnerAdapter } from '../adapters/hotelrunner.js';
+import { PMSRouter } from '../services/pms-router.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const RATE_UPDATE: AriUpdate = {
+  roomTypeId: 'DBL',
+  ratePlanId: 'BAR',
+  startDate: '2024-03-01',
+  endDate: '2024-03-02',
+  rate: 120,
+  currency: 'EUR',
+  minStay: 2,
+  closedToArrival: true,
+};
+
+describe('ARI updates', () => {
+  describe('ariDates', () => {
+    test('expands an inclusive range', () => {
+      expect(ariDates({ startDate: '2024-02-28', endDate: '2024-03-01' })).toEqual([
+        '2024-02-28',
+        '2024-02-29',
+        '2024-03-01',
+      ]);
+    });
+
+    test('returns a single date for same-day ranges', () => {
+      expect(ariDates({ startDate: '2024-03-01', endDate: '2024-03-01' })).toEqual(['2024-03-01']);
+    });
+  });
+
+  describe('ElektrawebPMSAdapter', () => {
+    function fakeClient() {
+      return {
+        updateRates: jest.fn().mockResolvedValue(undefined),
+        updateAvailability: jest.fn().mockResolvedValue(undefined),
+        setStopSale: jest.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    test('pushes rates, availability and stop sale separately', async () => {
+      const client = fakeClient();
+      const adapter = new ElektrawebPMSAdapter(client as unknown as ElektrawebAdapter, 'key');
+
+      const results = await adapter.updateAri([
+        RATE_UPDATE,
+        { roomTypeId: 'SGL', startDate: '2024-03-01', endDate: '2024-03-01', available: 4, stopSell: true },
+      ]);
+
+      expect(client.updateRates).toHaveBeenCalledWith([
+        { roomCode: 'DBL', date: '2024-03-01', doubleRate: 120, currency: 'EUR', minStay: 2, closedToArrival: true },
+        { roomCode: 'DBL', date: '2024-03-02', doubleRate: 120, currency: 'EUR', minStay: 2, closedToArrival: true },
+      ]);
+      expect(client.updateAvailability).toHaveBeenCalledWith([{ roomCode: 'SGL', date: '2024-03-01', availability: 4 }]);
+      expect(client.setStopSale).toHaveBeenCalledWith('SGL', '2024-03-01', '2024-03-01', true);
+      expect(results.map(r => [r.roomTypeId, r.date, r.success])).toEqual([
+        ['DBL', '2024-03-01', true],
+        ['DBL', '2024-03-02', true],
+        ['SGL', '2024-03-01', true],
+      ]);
+    });
+
+    test('reports failed dates without stopping other updates', async () => {
+      const client = fakeClient();
+      client.updateRates.mockRejectedValueOnce(new Error('Rate locked'));
+      const adapter = new ElektrawebPMSAdapter(client as unknown as ElektrawebAdapter, 'key');
+
+      const results = await adapter.updateAri([
+        RATE_UPDATE,
+        { roomTypeId: 'SGL', startDate: '2024-03-01', endDate: '2024-03-01', available: 4 },
+      ]);
+
+      expect(results.filter(r => !r.success)).toEqual([
+        { date: '2024-03-01', roomTypeId: 'DBL', ratePlanId: 'BAR', success: false, error: 'Rate locked' },
+        { date: '2024-03-02', roomTypeId: 'DBL', ratePlanId: 'BAR', success: false, error: 'Rate locked' },
+      ]);
+      expect(results[2].success).toBe(true);
+    });
+  });
+
+  describe('HotelRunnerPMSAdapter', () => {
+    test('sends restrictions to rates and stop sell to inventory', async () => {
+      const client = {
+        updateRates: jest.fn().mockResolvedValue(undefined),
+        updateInventory: jest.fn().mockResolvedValue(undefined),
+      };
+      const adapter = new HotelRunnerPMSAdapter(client as unknown as HotelRunnerAdapter, 'prop-1', 'key');
+
+      const results = await adapter.updateAri([
+        { roomTypeId: 'rt-1', startDate: '2024-03-01', endDate: '2024-03-01', maxStay: 7, stopSell: true },
+      ]);
+
+      expect(client.updateRates).toHaveBeenCalledWith('prop-1', [{ roomTypeId: 'rt-1', date: '2024-03-01', maxStay: 7 }]);
+      expect(client.updateInventory).toHaveBeenCalledWith('prop-1', [{ roomTypeId: 'rt-1', date: '2024-03-01', stopSell: true }]);
+      expect(results).toEqual([{ date: '2024-03-01', roomTypeId: 'rt-1', ratePlanId: undefined, success: true, error: undefined }]);
+    });
+  });
+
+  describe('ApaleoAdapter', () => {
+    const apaleo = () => new ApaleoAdapter({
+      clientId: 'id',
+      clientSecret: 'secret',
+      baseUrl: 'https://fixture.test',
+      tokenUrl: 'https://fixture.test/connect/token',
+    });
+
+    test('puts nightly rates and restrictions on the rate plan', async () => {
+      const bodies: Record<string, any> = {};
+      const fetchSpy = jest.spyOn(global, 'fetch').mockImplementation((async (input: string, init?: RequestInit) => {
+        const path = new URL(input).pathname;
+        if (init?.body && typeof init.body === 'string' && init.body.startsWith('{')) {
+          bodies[`${init.method} ${path}`] = JSON.parse(init.body);
+        }
+        const body = path === '/connect/token' ? { access_token: 'token', expires_in: 3600 } : {};
+        return new Response(JSON.stringify(body), { status: 200 });
+      }) as typeof fetch);
+
+      const results = await apaleo().updateAri([{ ...RATE_UPDATE, stopSell: true }]);
+
+      const put = bodies['PUT /rateplan/v1/rate-plans/BAR/rates'];
+      expect(put.rates).toHaveLength(2);
+      expect(put.rates[0]).toEqual({
+        from: '2024-03-01',
+        to: '2024-03-01',
+        price: { amount: 120, currency: 'EUR' },
+        restrictions: { minLengthOfStay: 2, closed: true, closedOnArrival: true },
+      });
+      expect(results.every(r => r.success)).toBe(true);
+      fetchSpy.mockRestore();
+    });
+
+    test('rejects availability counts and missing rate plans per date', async () => {
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      const results = await apaleo().updateAri([
+        { roomTypeId: 'DBL', ratePlanId: 'BAR', startDate: '2024-03-01', endDate: '2024-03-01', available: 3 },
+        { roomTypeId: 'DBL', startDate: '2024-03-01', endDate: '2024-03-01', rate: 100 },
+      ]);
+
+      expect(results.map(r => r.error)).toEqual([
+        'Apaleo does not accept availability counts; availability follows units.',
+        'Apaleo ARI updates require ratePlanId.',
+      ]);
+      expect(fetchSpy).not.toHaveBeenCalled();
+      fetchSpy.mockRestore();
+    });
+  });
+
+  describe('PMSRouter.updateAri', () => {
+    const connectionRow = {
+      id: 'conn-uuid',
+      hotel_id: 'hotel-1',
+      pms_type: 'apaleo',
+      environment: 'production',
+      credentials: { client_id: 'id', client_secret: 'secret' },
+      is_active: true,
+      created_at: new Date('2024-03-01'),
+      sync_status: 'pending',
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    test('summarizes per-date results', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [connectionRow] });
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+      const ariSpy = jest.spyOn(ApaleoAdapter.prototype, 'updateAri').mockResolvedValue([
+        { date: '2024-03-01', roomTypeId: 'DBL', success: true },
+        { date: '2024-03-02', roomTypeId: 'DBL', success: false, error: 'Closed period' },
+      ]);
+
+      const result = await new PMSRouter().updateAri('hotel-1', [RATE_UPDATE]);
+
+      expect(ariSpy).toHaveBeenCalledWith([RATE_UPDATE]);
+      expect(result.succeeded).toBe(1);
+      expect(result.failed).toBe(1);
+      expect(result.results).toHaveLength(2);
+      ariSpy.mockRestore();
+    });
+
+    test('refuses adapters without ARI support', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...connectionRow, environment: 'stub' }] });
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await expect(new PMSRouter().updateAri('hotel-1', [RATE_UPDATE])).rejects.toThrow(
+        'Apaleo does not support ari'
+      );
+    });
+  });
+});
@@ -0,0 +1,120 @@
+/**
+ * Unit tests for on-box aspect sentiment of review text
+ */
+
+import {
+  extractAspects,
+  summarizeAspects,
+  compareAspects,
+  foldText,
+  AspectSummary,
+} from '../services/aspect-sentiment.js';
+import { registerAspectLexicon, ASPECT_LEXICONS } from '../services/aspect-lexicons.js';
+
+function polarities(text: string, language: string | null) {
+  return Object.fromEntries(extractAspects(text, language).map(m => [m.aspect, m.polarity]));
+}
+
+describe('foldText', () => {
+  test('lowercases, strips accents and punctuation', () => {
+    expect(foldText('Propreté impeccable !')).toBe('proprete impeccable');
+    expect(foldText('Kahvaltı çok güzeldi')).toBe('kahvalti cok guzeldi');
+    expect(foldText('Frühstück, Straße')).toBe('fruhstuck strasse');
+    expect(foldText('Wi-Fi')).toBe('wi fi');
+  });
+});
+
+describe('extractAspects', () => {
+  test('splits clauses on contrast words', () => {
+    expect(polarities('The room was spotless but the staff were rude.', 'en')).toEqual({
+      cleanliness: 'positive',
+      staff: 'negative',
+    });
+  });
+
+  test('handles negation', () => {
+    expect(polarities('The bathroom was not clean', 'en')).toEqual({ cleanliness: 'negative' });
+    expect(polarities('No noise at night', 'en')).toEqual({ noise: 'positive' });
+    expect(polarities('Oda temiz değil', 'tr')).toEqual({ cleanliness: 'negative' });
+  });
+
+  test('aspect words can carry their own polarity', () => {
+    expect(polarities('Very noisy street.', 'en')).toEqual({ noise: 'negative' });
+    expect(polarities('Great location, quiet room, fast wifi, good value for money.', 'en')).toEqual({
+      location: 'positive',
+      noise: 'positive',
+      wifi: 'positive',
+      value: 'positive',
+    });
+  });
+
+  test('uses the lexicon of the review language', () => {
+    expect(polarities('Petit-déjeuner délicieux mais chambre bruyante et trop chère.', 'fr')).toEqual({
+      breakfast: 'positive',
+      noise: 'negative',
+      value: 'negative',
+    });
+    expect(polarities('Das Personal war sehr freundlich, aber das Frühstück war enttäuschend.', 'de-DE')).toEqual({
+      staff: 'positive',
+      breakfast: 'negative',
+    });
+    expect(polarities('La ubicación es perfecta, el wifi no funciona bien.', 'es')).toEqual({
+      location: 'positive',
+      wifi: 'negative',
+    });
+    expect(polarities('Posizione ottima ma colazione scarsa.', 'it')).toEqual({
+      location: 'positive',
+      breakfast: 'negative',
+    });
+  });
+
+  test('mentions without polarity words are neutral', () => {
+    expect(polarities('We had breakfast in the garden.', 'en')).toEqual({ breakfast: 'neutral' });
+  });
+
+  test('reviews without a known language use every lexicon', () => {
+    expect(polarities('Personnel très sympathique.', null)).toEqual({ staff: 'positive' });
+    expect(extractAspects(null, 'en')).toEqual([]);
+  });
+
+  test('lexicons can be added for new languages', () => {
+    registerAspectLexicon('nl', {
+      ...ASPECT_LEXICONS.en,
+      aspects: { ...ASPECT_LEXICONS.en.aspects, staff: ['personeel'] },
+      positive: ['vriendelijk'],
+    });
+
+    expect(polarities('Het personeel was vriendelijk', 'nl')).toEqual({ staff: 'positive' });
+    delete ASPECT_LEXICONS.nl;
+  });
+});
+
+describe('summarizeAspects', () => {
+  test('counts mentions and scores every aspect', () => {
+    const summaries = summarizeAspects([
+      { text: 'Clean room and friendly staff.', language: 'en' },
+      { text: 'Dirty bathroom.', language: 'en' },
+      { text: 'The room was clean.', language: 'en' },
+    ]);
+
+    expect(summaries.find(s => s.aspect === 'cleanliness')).toEqual({
+      aspect: 'cleanliness', mentions: 3, positive: 2, negative: 1, neutral: 0, score: 0.33,
+    });
+    expect(summaries.find(s => s.aspect === 'wifi')).toMatchObject({ mentions: 0, score: null });
+    expect(summaries).toHaveLength(7);
+  });
+});
+
+describe('compareAspects', () => {
+  const summary = (score: number | null, mentions = 10): AspectSummary => ({
+    aspect: 'staff', mentions, positive: 0, negative: 0, neutral: 0, score,
+  });
+
+  test('adds the trend and the competitor gap', () => {
+    expect(compareAspects([summary(0.6)], [summary(0.2)], [summary(0.5, 40)])[0]).toMatchObject({
+      score: 0.6, previousScore: 0.2, delta: 0.4, trend: 'up', competitorScore: 0.5, competitorMentions: 40, vsCompetitors: 0.1,
+    });
+    expect(compareAspects([summary(0.6)], [summary(0.65)], [])[0]).toMatchObject({ trend: 'stable', competitorScore: null, vsCompetitors: null });
+    expect(compareAspects([summary(null, 0)], [summary(0.4)], [])[0]).toMatchObject({ delta: null, trend: 'stable' });
+  });
+});
@@ -0,0 +1,133 @@
+/**
+ * Unit tests for channel attribution (PMS source -> channel)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import {
+  resolveChannel,
+  upsertMapping,
+  getUnmappedSources,
+  reattributeBookings,
+  AttributionContext,
+  ChannelRow,
+  SourceMapping,
+} from '../services/channel-attribution.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const CHANNELS: ChannelRow[] = [
+  { id: 'ch-direct', name: 'Direct', slug: 'direct', default_commission: '0.00' },
+  { id: 'ch-booking', name: 'Booking.com', slug: 'booking', default_commission: '15.00' },
+  { id: 'ch-expedia', name: 'Expedia', slug: 'expedia', default_commission: '18.00' },
+  { id: 'ch-airbnb', name: 'Airbnb', slug: 'airbnb', default_commission: '14.00' },
+  { id: 'ch-hotels', name: 'Hotels.com', slug: 'hotels-com', default_commission: '18.00' },
+];
+
+const HOTEL_MAPPING: SourceMapping = {
+  id: 'map-1',
+  source: 'EXP',
+  sourceKey: 'exp',
+  channelId: 'ch-booking',
+  channelSlug: 'booking',
+  channelName: 'Booking.com',
+};
+
+function context(overrides: Partial<AttributionContext> = {}): AttributionContext {
+  return { channels: CHANNELS, mappings: [], ...overrides };
+}
+
+describe('Channel attribution', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+  });
+
+  describe('resolveChannel', () => {
+    test('matches channel slugs and names', () => {
+      expect(resolveChannel('Booking.com', context())).toEqual({ id: 'ch-booking', commissionRate: 15 });
+      expect(resolveChannel('hotels-com', context())).toEqual({ id: 'ch-hotels', commissionRate: 18 });
+    });
+
+    test('applies common aliases', () => {
+      expect(resolveChannel('BookingCom', context())?.id).toBe('ch-booking');
+      expect(resolveChannel('airbnb2', context())?.id).toBe('ch-airbnb');
+      expect(resolveChannel('Website', context())?.id).toBe('ch-direct');
+    });
+
+    test('applies PMS defaults only for that PMS', () => {
+      expect(resolveChannel('EXP', context({ pmsType: 'elektraweb' }))?.id).toBe('ch-expedia');
+      expect(resolveChannel('online_store', context({ pmsType: 'hotelrunner' }))?.id).toBe('ch-direct');
+      expect(resolveChannel('Distributor', context({ pmsType: 'mews' }))?.id).toBe('ch-direct');
+      expect(resolveChannel('Distributor', context({ pmsType: 'apaleo' }))).toBeUndefined();
+    });
+
+    test('hotel mappings override PMS defaults', () => {
+      expect(resolveChannel('exp', context({ pmsType: 'elektraweb', mappings: [HOTEL_MAPPING] }))?.id).toBe(
+        'ch-booking'
+      );
+    });
+
+    test('leaves unknown sources unattributed', () => {
+      expect(resolveChannel('Homelike', context())).toBeUndefined();
+      expect(resolveChannel('---', context())).toBeUndefined();
+      expect(resolveChannel(undefined, context())).toBeUndefined();
+    });
+  });
+
+  describe('upsertMapping', () => {
+    test('stores the normalized source key', async () => {
+      mockQuery
+        .mockResolvedValueOnce({ rows: [{ id: 'ch-expedia', name: 'Expedia', slug: 'expedia' }] })
+        .mockResolvedValueOnce({ rows: [{ id: 'map-2' }] });
+
+      const mapping = await upsertMapping('hotel-1', ' Expedia Collect ', 'expedia');
+
+      expect(mockQuery.mock.calls[1][0]).toContain('ON CONFLICT (hotel_id, source_key)');
+      expect(mockQuery.mock.calls[1][1]).toEqual(['hotel-1', 'Expedia Collect', 'expediacollect', 'ch-expedia']);
+      expect(mapping).toMatchObject({ id: 'map-2', sourceKey: 'expediacollect', channelSlug: 'expedia' });
+    });
+
+    test('rejects unknown channels and empty sources', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(upsertMapping('hotel-1', 'EXP', 'nope')).rejects.toMatchObject({ status: 400 });
+      await expect(upsertMapping('hotel-1', '--', 'expedia')).rejects.toThrow('source must contain');
+    });
+  });
+
+  test('getUnmappedSources reports sources without a channel', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [{ source_detail: 'AGY42', bookings: '7', revenue: '1260.50', last_seen: new Date('2024-03-01') }],
+    });
+
+    const sources = await getUnmappedSources('hotel-1');
+
+    expect(mockQuery.mock.calls[0][0]).toContain('channel_id IS NULL');
+    expect(sources).toEqual([{ source: 'AGY42', bookings: 7, revenue: 1260.5, lastSeen: new Date('2024-03-01') }]);
+  });
+
+  test('reattributeBookings updates bookings per resolved source', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('FROM channels')) return { rows: CHANNELS };
+      if (sql.includes('FROM channel_source_mappings')) {
+        return { rows: [{ id: 'map-1', source: 'AGY42', source_key: 'agy42', channel_id: 'ch-expedia' }] };
+      }
+      if (sql.includes('SELECT DISTINCT source_detail')) {
+        return { rows: [{ source_detail: 'AGY42' }, { source_detail: 'Homelike' }] };
+      }
+      return { rows: [], rowCount: 3 };
+    });
+
+    const result = await reattributeBookings('hotel-1', 'elektraweb');
+
+    const updates = mockQuery.mock.calls.filter(([sql]) => sql.startsWith('UPDATE bookings'));
+    expect(updates).toHaveLength(1);
+    expect(updates[0][1]).toEqual(['hotel-1', 'AGY42', 'ch-expedia', 18]);
+    expect(result).toEqual({ sources: 2, bookingsUpdated: 3 });
+  });
+});
@@ -0,0 +1,273 @@
+/**
+ * Unit tests for the guest booking assistant (conversation engine + mock LLM)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import { sendMessage, getConversation, quoteStay } from '../services/conversation-engine.js';
+import { createLlmProvider, registerLlmProvider, LlmRequest } from '../services/llm-providers.js';
+import { pmsRouter } from '../services/pms-router.js';
+import * as aiExperiments from '../services/ai-experiments.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const MOCK_PROVIDER = { provider_id: 'provider-mock', slug: 'mock', model: 'mock-1', cost_per_1k_in: '0', cost_per_1k_out: '0' };
+
+const ROOM_TYPES = [
+  { id: 'DBL', name: 'Double Room', capacity: 2 },
+  { id: 'FAM', name: 'Family Suite', capacity: 4 },
+];
+
+// DBL is free every night; FAM is sold out on the second night
+const AVAILABILITY = [
+  { date: '2024-07-01', roomTypeId: 'DBL', available: 3, rate: 120 },
+  { date: '2024-07-02', roomTypeId: 'DBL', available: 1, rate: 135.5 },
+  { date: '2024-07-01', roomTypeId: 'FAM', available: 2, rate: 200 },
+  { date: '2024-07-02', roomTypeId: 'FAM', available: 0, rate: 200 },
+];
+
+function mockDb(options: { provider?: any; conversation?: any; defaultProvider?: string } = {}) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM hotels h')) {
+      return { rows: [{ name: 'Hotel Lumen', timezone: 'Europe/Paris', currency: 'EUR', default_provider: options.defaultProvider || null }] };
+    }
+    if (sql.includes('FROM ai_providers WHERE slug')) return { rows: [options.provider || MOCK_PROVIDER] };
+    if (sql.includes('FROM ai_conversations c')) return { rows: options.conversation ? [options.conversation] : [] };
+    if (sql.includes('INSERT INTO ai_sessions')) return { rows: [{ id: 'session-1' }] };
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+function callsMatching(text: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(text));
+}
+
+describe('Conversation engine', () => {
+  let getAvailability: jest.SpyInstance;
+  let getRoomTypes: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+    getAvailability = jest.spyOn(pmsRouter, 'getAvailability').mockResolvedValue(AVAILABILITY as any);
+    getRoomTypes = jest.spyOn(pmsRouter, 'getRoomTypes').mockResolvedValue(ROOM_TYPES);
+  });
+
+  afterEach(() => {
+    getAvailability.mockRestore();
+    getRoomTypes.mockRestore();
+  });
+
+  describe('quoteStay', () => {
+    test('prices only room types available every night of the stay', async () => {
+      const quote = await quoteStay('hotel-1', { checkIn: '2024-07-01', checkOut: '2024-07-03' }, 'EUR');
+
+      expect(getAvailability).toHaveBeenCalledWith('hotel-1', { startDate: '2024-07-01', endDate: '2024-07-02', roomTypeId: undefined });
+      expect(quote).toMatchObject({ nights: 2, currency: 'EUR' });
+      expect(quote.quotes).toEqual([
+        { roomTypeId: 'DBL', roomTypeName: 'Double Room', capacity: 2, available: 1, nightlyRates: [120, 135.5], total: 255.5 },
+      ]);
+    });
+
+    test('filters on guest capacity', async () => {
+      const quote = await quoteStay('hotel-1', { checkIn: '2024-07-01', checkOut: '2024-07-02', guests: 3 }, 'EUR');
+      expect(quote.quotes.map(q => q.roomTypeId)).toEqual(['FAM']);
+    });
+
+    test('rejects invalid stays', async () => {
+      await expect(quoteStay('hotel-1', { checkIn: 'July 1st', checkOut: '2024-07-02' }, 'EUR')).rejects.toThrow('YYYY-MM-DD');
+      await expect(quoteStay('hotel-1', { checkIn: '2024-07-02', checkOut: '2024-07-02' }, 'EUR')).rejects.toThrow('after checkIn');
+      await expect(quoteStay('hotel-1', { checkIn: '2024-07-01', checkOut: '2024-09-01' }, 'EUR')).rejects.toThrow('limited to 30');
+    });
+  });
+
+  describe('sendMessage', () => {
+    test('answers with a quote from the PMS and logs the session', async () => {
+      const result = await sendMessage('hotel-1', { provider: 'mock', message: 'Do you have a room from 2024-07-01 to 2024-07-03?' });
+
+      expect(result.conversationId).toBe('session-1');
+      expect(result.toolCalls).toEqual(['get_availability']);
+      expect(result.quotes[0].quotes[0].total).toBe(255.5);
+      expect(result.reply).toContain('Double Room: 255.50 EUR total');
+      expect(result.usage.tokensIn).toBeGreaterThan(0);
+
+      const [, sessionParams] = callsMatching('INSERT INTO ai_sessions')[0];
+      expect(sessionParams.slice(0, 3)).toEqual(['hotel-1', 'provider-mock', 'booking_assist']);
+      expect(sessionParams.slice(3, 5)).toEqual([result.usage.tokensIn, result.usage.tokensOut]);
+      expect(sessionParams[6]).toBeNull();
+
+      const [, conversationParams] = callsMatching('INSERT INTO ai_conversations')[0];
+      const transcript = JSON.parse(conversationParams[2]);
+      expect(transcript.map((m: any) => m.role)).toEqual(['user', 'assistant', 'tool', 'assistant']);
+    });
+
+    test('routes new conversations through the running experiment', async () => {
+      const routeSession = jest.spyOn(aiExperiments, 'routeSession').mockResolvedValue({ provider: 'mock', experimentId: 'exp-1' });
+
+      await sendMessage('hotel-1', { message: 'Hello' });
+
+      expect(mockQuery.mock.calls.find(([sql]) => sql.includes('FROM ai_providers WHERE slug'))![1]).toEqual(['mock']);
+      expect(callsMatching('INSERT INTO ai_sessions')[0][1][6]).toBe('exp-1');
+      routeSession.mockRestore();
+    });
+
+    test('falls back to the hotel default provider outside experiments', async () => {
+      mockDb({ defaultProvider: 'chatgpt', provider: { ...MOCK_PROVIDER, slug: 'mock' } });
+      const routeSession = jest.spyOn(aiExperiments, 'routeSession').mockResolvedValue(null);
+
+      await sendMessage('hotel-1', { message: 'Hello' });
+
+      expect(mockQuery.mock.calls.find(([sql]) => sql.includes('FROM ai_providers WHERE slug'))![1]).toEqual(['chatgpt']);
+      routeSession.mockRestore();
+    });
+
+    test('costs tokens at the provider prices', async () => {
+      mockDb({ provider: { ...MOCK_PROVIDER, cost_per_1k_in: '1.000000', cost_per_1k_out: '2.000000' } });
+
+      const result = await sendMessage('hotel-1', { provider: 'mock', message: 'Hello' });
+
+      expect(result.usage.cost).toBeCloseTo(result.usage.tokensIn / 1000 + result.usage.tokensOut / 1000 * 2, 4);
+    });
+
+    test('asks for dates without calling the PMS', async () => {
+      const result = await sendMessage('hotel-1', { provider: 'mock', message: 'Hello, what does a night cost?' });
+
+      expect(result.reply).toContain('Which dates');
+      expect(getAvailability).not.toHaveBeenCalled();
+    });
+
+    test('continues a conversation and adds to its usage', async () => {
+      mockDb({
+        conversation: {
+          ...MOCK_PROVIDER,
+          session_type: 'booking_assist',
+          messages: [{ role: 'user', content: 'Hello' }, { role: 'assistant', content: 'Which dates?' }],
+        },
+      });
+
+      const result = await sendMessage('hotel-1', { conversationId: 'session-7', message: 'Which rooms do you have?' });
+
+      expect(result.toolCalls).toEqual(['get_room_types']);
+      expect(result.reply).toContain('Family Suite (up to 4 guests)');
+      expect(callsMatching('INSERT INTO ai_sessions')).toHaveLength(0);
+      const [sql, params] = callsMatching('UPDATE ai_sessions')[0];
+      expect(sql).toContain('tokens_in = tokens_in + $2');
+      expect(params[0]).toBe('session-7');
+      // Only the new turns are sent; they are appended to the stored transcript
+      const [conversationSql, conversationParams] = callsMatching('UPDATE ai_conversations')[0];
+      expect(conversationSql).toContain('messages = messages || $2::jsonb');
+      const appended = JSON.parse(conversationParams[1]);
+      expect(appended).toHaveLength(4);
+      expect(appended[0]).toEqual({ role: 'user', content: 'Which rooms do you have?' });
+    });
+
+    test('passes PMS failures to the model as tool errors', async () => {
+      getAvailability.mockRejectedValue(new Error('PMS unavailable'));
+
+      const result = await sendMessage('hotel-1', { provider: 'mock', message: '2024-07-01 to 2024-07-03 please' });
+
+      expect(result.quotes).toEqual([]);
+      expect(result.reply).toContain('PMS unavailable');
+    });
+
+    test('stops calling tools after the last round', async () => {
+      mockDb({ provider: { ...MOCK_PROVIDER, slug: 'looping' } });
+      const requests: LlmRequest[] = [];
+      registerLlmProvider('looping', {
+        build: () => ({
+          complete: async (request: LlmRequest) => {
+            requests.push(request);
+            return request.tools.length > 0
+              ? { content: '', toolCalls: [{ id: `c${requests.length}`, name: 'get_room_types', arguments: {} }], tokensIn: 10, tokensOut: 5 }
+              : { content: 'Here are our rooms.', toolCalls: [], tokensIn: 10, tokensOut: 5 };
+          },
+        }),
+      });
+
+      const result = await sendMessage('hotel-1', { provider: 'looping', message: 'Rooms?' });
+
+      expect(requests).toHaveLength(4);
+      expect(requests[3].tools).toEqual([]);
+      expect(result).toMatchObject({ reply: 'Here are our rooms.', usage: { tokensIn: 40, tokensOut: 20 } });
+    });
+
+    test('rejects empty messages, unknown conversations and unsupported providers', async () => {
+      await expect(sendMessage('hotel-1', { message: '  ' })).rejects.toMatchObject({ status: 400 });
+      await expect(sendMessage('hotel-1', { conversationId: 'nope', message: 'Hi' })).rejects.toMatchObject({ status: 404 });
+
+      mockDb({ provider: { ...MOCK_PROVIDER, slug: 'llama' } });
+      await expect(sendMessage('hotel-1', { provider: 'llama', message: 'Hi' })).rejects.toThrow('No LLM plug-in for provider: llama');
+    });
+  });
+
+  test('getConversation returns the transcript and usage', async () => {
+    mockDb({
+      conversation: {
+        ...MOCK_PROVIDER, session_type: 'guest_support', tokens_in: 120, tokens_out: '40', cost: '0.0030',
+        messages: [{ role: 'user', content: 'Hello' }],
+      },
+    });
+
+    const conversation = await getConversation('hotel-1', 'session-1');
+
+    expect(conversation).toMatchObject({ provider: 'mock', sessionType: 'guest_support', tokensIn: 120, tokensOut: 40, cost: 0.003 });
+    expect(mockQuery.mock.calls[0][1]).toEqual(['session-1', 'hotel-1']);
+  });
+});
+
+describe('LLM providers', () => {
+  const originalFetch = global.fetch;
+  const originalKey = process.env.ANTHROPIC_API_KEY;
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+    process.env.ANTHROPIC_API_KEY = originalKey;
+  });
+
+  test('hosted providers need their API key', () => {
+    delete process.env.ANTHROPIC_API_KEY;
+    expect(() => createLlmProvider('claude')).toThrow('ANTHROPIC_API_KEY not configured');
+  });
+
+  test('Anthropic plug-in maps tool calls and results', async () => {
+    process.env.ANTHROPIC_API_KEY = 'test-key';
+    const fetchMock = jest.fn().mockResolvedValue({
+      ok: true,
+      json: async () => ({
+        content: [{ type: 'text', text: 'Checking.' }, { type: 'tool_use', id: 'tu-2', name: 'get_rates', input: { roomTypeId: 'DBL' } }],
+        usage: { input_tokens: 300, output_tokens: 40 },
+      }),
+    });
+    global.fetch = fetchMock as any;
+
+    const response = await createLlmProvider('claude').complete({
+      model: 'claude-3-opus',
+      system: 'You are a booking assistant.',
+      tools: [{ name: 'get_rates', description: 'Rates', parameters: { type: 'object', properties: {} } }],
+      messages: [
+        { role: 'user', content: 'Rooms?' },
+        { role: 'assistant', content: '', toolCalls: [{ id: 'tu-1', name: 'get_room_types', arguments: {} }] },
+        { role: 'tool', toolCallId: 'tu-1', name: 'get_room_types', content: '{"roomTypes":[]}' },
+      ],
+    });
+
+    const [url, init] = fetchMock.mock.calls[0];
+    const body = JSON.parse(init.body);
+    expect(url).toBe('https://api.anthropic.com/v1/messages');
+    expect(init.headers['x-api-key']).toBe('test-key');
+    expect(body.tools[0]).toEqual({ name: 'get_rates', description: 'Rates', input_schema: { type: 'object', properties: {} } });
+    expect(body.messages[1].content).toEqual([{ type: 'tool_use', id: 'tu-1', name: 'get_room_types', input: {} }]);
+    expect(body.messages[2]).toEqual({ role: 'user', content: [{ type: 'tool_result', tool_use_id: 'tu-1', content: '{"roomTypes":[]}' }] });
+    expect(response).toEqual({
+      content: 'Checking.',
+      toolCalls: [{ id: 'tu-2', name: 'get_rates', arguments: { roomTypeId: 'DBL' } }],
+      tokensIn: 300,
+      tokensOut: 40,
+    });
+  });
+});
@@ -0,0 +1,201 @@
+/**
+ * Unit tests for Credential Vault Service
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import * as vault from '../services/credential-vault.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const KEY_1 = Buffer.alloc(32, 1).toString('base64');
+const KEY_2 = Buffer.alloc(32, 2).toString('base64');
+
+describe('Credential Vault Service', () => {
+  const originalEnv = { ...process.env };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    process.env.VAULT_MASTER_KEY = KEY_1;
+    process.env.VAULT_MASTER_KEY_ID = 'k1';
+    delete process.env.VAULT_PREVIOUS_KEYS;
+  });
+
+  afterAll(() => {
+    process.env = originalEnv;
+  });
+
+  describe('loadKeyring', () => {
+    test('throws when no master key is configured', () => {
+      delete process.env.VAULT_MASTER_KEY;
+      expect(() => vault.loadKeyring()).toThrow('VAULT_MASTER_KEY not configured');
+    });
+
+    test('rejects keys of the wrong size', () => {
+      process.env.VAULT_MASTER_KEY = Buffer.alloc(16).toString('base64');
+      expect(() => vault.loadKeyring()).toThrow("Vault key 'k1' must be 32 bytes");
+    });
+
+    test('loads previous keys for rotation', () => {
+      process.env.VAULT_MASTER_KEY = KEY_2;
+      process.env.VAULT_MASTER_KEY_ID = 'k2';
+      process.env.VAULT_PREVIOUS_KEYS = `k1:${KEY_1}`;
+
+      const keyring = vault.loadKeyring();
+
+      expect(keyring.activeKeyId).toBe('k2');
+      expect([...keyring.keys.keys()].sort()).toEqual(['k1', 'k2']);
+    });
+  });
+
+  describe('encrypt / decrypt', () => {
+    test('round-trips a secret', () => {
+      const envelope = vault.encrypt('super-secret-token');
+
+      expect(vault.isEncrypted(envelope)).toBe(true);
+      expect(envelope).not.toContain('super-secret-token');
+      expect(vault.getKeyId(envelope)).toBe('k1');
+      expect(vault.decrypt(envelope)).toBe('super-secret-token');
+    });
+
+    test('uses a fresh data key for every secret', () => {
+      expect(vault.encrypt('same')).not.toBe(vault.encrypt('same'));
+    });
+
+    test('fails on tampered ciphertext', () => {
+      const envelope = vault.encrypt('secret');
+      const parts = envelope.split(':');
+      parts[6] = Buffer.from('tampered').toString('base64');
+
+      expect(() => vault.decrypt(parts.join(':'))).toThrow();
+    });
+
+    test('fails when the wrapping key is unavailable', () => {
+      const envelope = vault.encrypt('secret');
+      process.env.VAULT_MASTER_KEY = KEY_2;
+      process.env.VAULT_MASTER_KEY_ID = 'k2';
+
+      expect(() => vault.decrypt(envelope)).toThrow("Vault key 'k1' is not available");
+    });
+
+    test('round-trips credential objects and passes legacy objects through', () => {
+      const credentials = { client_id: 'id', client_secret: 'secret' };
+
+      expect(vault.decryptCredentials(vault.encryptCredentials(credentials))).toEqual(credentials);
+      expect(vault.decryptCredentials(credentials)).toEqual(credentials);
+    });
+
+    test('revealSecret passes legacy plaintext through', () => {
+      expect(vault.revealSecret('plain-token')).toBe('plain-token');
+      expect(vault.revealSecret(vault.encrypt('token'))).toBe('token');
+      expect(vault.revealSecret(null)).toBeUndefined();
+    });
+  });
+
+  describe('rotation', () => {
+    test('reencrypt moves an envelope to the active key', () => {
+      const envelope = vault.encrypt('secret');
+      process.env.VAULT_MASTER_KEY = KEY_2;
+      process.env.VAULT_MASTER_KEY_ID = 'k2';
+      process.env.VAULT_PREVIOUS_KEYS = `k1:${KEY_1}`;
+
+      const rotated = vault.reencrypt(envelope);
+
+      expect(vault.getKeyId(rotated)).toBe('k2');
+      expect(vault.decrypt(rotated)).toBe('secret');
+      expect(vault.reencrypt(rotated)).toBe(rotated);
+    });
+
+    test('rotateStoredSecrets re-encrypts old envelopes and legacy plaintext', async () => {
+      const oldEnvelope = vault.encrypt(JSON.stringify({ api_key: 'key' }));
+      process.env.VAULT_MASTER_KEY = KEY_2;
+      process.env.VAULT_MASTER_KEY_ID = 'k2';
+      process.env.VAULT_PREVIOUS_KEYS = `k1:${KEY_1}`;
+      const currentEnvelope = vault.encrypt('current');
+
+      mockQuery.mockResolvedValueOnce({
+        rows: [
+          { id: 'c1', credentials: oldEnvelope, client_token: null, access_token: null, refresh_token: null },
+          { id: 'c2', credentials: null, client_token: 'plain', access_token: currentEnvelope, refresh_token: null },
+          { id: 'c3', credentials: null, client_token: null, access_token: currentEnvelope, refresh_token: null },
+        ],
+      });
+      mockQuery.mockResolvedValue({ rows: [] });
+
+      const result = await vault.rotateStoredSecrets();
+
+      expect(result).toEqual({ scanned: 3, rotated: 2, failed: 0 });
+
+      const [sql1, params1] = mockQuery.mock.calls[1];
+      expect(sql1).toContain('UPDATE pms_connections SET credentials = $2');
+      const storedCredentials = JSON.parse(params1[1]);
+      expect(vault.getKeyId(storedCredentials)).toBe('k2');
+      expect(vault.decryptCredentials(storedCredentials)).toEqual({ api_key: 'key' });
+
+      const [sql2, params2] = mockQuery.mock.calls[2];
+      expect(sql2).toContain('SET client_token = $2');
+      expect(vault.decrypt(params2[1])).toBe('plain');
+    });
+
+    test('rotateStoredSecrets counts rows it cannot decrypt', async () => {
+      const envelope = vault.encrypt('secret');
+      process.env.VAULT_MASTER_KEY = KEY_2;
+      process.env.VAULT_MASTER_KEY_ID = 'k2';
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ id: 'c1', credentials: null, client_token: envelope, access_token: null, refresh_token: null }],
+      });
+      const consoleSpy = jest.spyOn(console, 'error').mockImplementation();
+
+      const result = await vault.rotateStoredSecrets();
+
+      expect(result).toEqual({ scanned: 1, rotated: 0, failed: 1 });
+      expect(mockQuery).toHaveBeenCalledTimes(1);
+      consoleSpy.mockRestore();
+    });
+  });
+
+  describe('redaction', () => {
+    test('maskCredentials hides secrets but keeps identifiers', () => {
+      expect(vault.maskCredentials({
+        client_id: 'my-client',
+        client_secret: 'abcdefghijklmnop',
+        apiKey: 'short',
+      })).toEqual({
+        client_id: 'my-client',
+        client_secret: '••••mnop',
+        apiKey: '••••',
+      });
+    });
+
+    test('redactSecrets scrubs nested secret fields', () => {
+      const payload = {
+        ClientToken: 'ct',
+        AccessToken: 'at',
+        Client: 'EYWA AI',
+        Extent: { Reservations: true },
+        headers: [{ Authorization: 'Bearer xyz' }],
+        stored: vault.encrypt('x'),
+      };
+
+      expect(vault.redactSecrets(payload)).toEqual({
+        ClientToken: '[REDACTED]',
+        AccessToken: '[REDACTED]',
+        Client: 'EYWA AI',
+        Extent: { Reservations: true },
+        headers: [{ Authorization: '[REDACTED]' }],
+        stored: '[REDACTED]',
+      });
+      expect(payload.ClientToken).toBe('ct');
+    });
+
+    test('redactSecrets leaves primitives untouched', () => {
+      expect(vault.redactSecrets(undefined)).toBeUndefined();
+      expect(vault.redactSecrets('hello')).toBe('hello');
+    });
+  });
+});
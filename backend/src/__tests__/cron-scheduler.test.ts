@@ -27,6 +27,60 @@ jest.mock('../services/review-sync.js', () => ({
   getRecentSyncJobs: jest.fn().mockResolvedValue([]),
 }));
 
+// Mock pms-webhooks
+jest.mock('../services/pms-webhooks.js', () => ({
+  retryFailedEvents: jest.fn().mockResolvedValue({ received: 0, duplicates: 0, processed: 0, failed: 0 }),
+}));
+
+// Mock reservation-sync
+jest.mock('../services/reservation-sync.js', () => ({
+  runReservationSync: jest.fn().mockResolvedValue({
+    hotelsTotal: 0, hotelsSuccess: 0, hotelsFailed: 0, duration: 0, results: [],
+  }),
+}));
+
+// Mock daily-stats
+jest.mock('../services/daily-stats.js', () => ({
+  runDailyStatsJob: jest.fn().mockResolvedValue({
+    startDate: '2024-03-01', endDate: '2024-03-07', hotelsTotal: 0, hotelsSuccess: 0, hotelsFailed: 0, duration: 0, results: [],
+  }),
+}));
+
+// Mock monthly-reports
+jest.mock('../services/monthly-reports.js', () => ({
+  runMonthlyReportsJob: jest.fn().mockResolvedValue({
+    yearMonth: '2024-02', hotelsTotal: 0, hotelsSuccess: 0, hotelsFailed: 0, duration: 0, errors: [],
+  }),
+}));
+
+// Mock roi-engine
+jest.mock('../services/roi-engine.js', () => ({
+  runRoiSnapshotJob: jest.fn().mockResolvedValue({
+    hotelsTotal: 0, hotelsSuccess: 0, hotelsFailed: 0, snapshots: 0, duration: 0,
+  }),
+}));
+
+// Mock ai-experiments
+jest.mock('../services/ai-experiments.js', () => ({
+  runExperimentEvaluation: jest.fn().mockResolvedValue({
+    experimentsTotal: 0, promoted: [], failed: 0, duration: 0, errors: [],
+  }),
+}));
+
+// Mock alert-rules
+jest.mock('../services/alert-rules.js', () => ({
+  runAlertRules: jest.fn().mockResolvedValue({
+    rulesTotal: 0, fired: 0, failed: 0, duration: 0, errors: [],
+  }),
+}));
+
+// Mock notification-dispatcher
+jest.mock('../services/notification-dispatcher.js', () => ({
+  runDeliveryRetries: jest.fn().mockResolvedValue({
+    deliveriesTotal: 0, sent: 0, pending: 0, failed: 0, skipped: 0, duration: 0,
+  }),
+}));
+
 import * as cron from 'node-cron';
 import * as cronScheduler from '../services/cron-scheduler.js';
 import * as reviewSync from '../services/review-sync.js';
@@ -46,8 +100,9 @@ describe('Cron Scheduler Service', () => {
     test('initializes all scheduled tasks', () => {
       cronScheduler.initializeScheduler();
 
-      // Should schedule at least 2 tasks (daily sync + health check)
-      expect(mockSchedule).toHaveBeenCalledTimes(2);
+      // Daily sync + daily stats + ROI snapshots + monthly reports + reservation sync + webhook retry
+      // + AI experiments + alert rules + notification retries + health check
+      expect(mockSchedule).toHaveBeenCalledTimes(10);
 
       // Check daily sync schedule (3:00 AM UTC)
       expect(mockSchedule).toHaveBeenCalledWith(
@@ -55,6 +110,13 @@ describe('Cron Scheduler Service', () => {
         expect.any(Function),
         expect.objectContaining({ timezone: 'UTC' })
       );
+
+      // Daily stats materialization (1:00 AM UTC)
+      expect(mockSchedule).toHaveBeenCalledWith(
+        '0 1 * * *',
+        expect.any(Function),
+        expect.objectContaining({ timezone: 'UTC' })
+      );
     });
   });
 
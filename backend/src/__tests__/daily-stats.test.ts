@@ -0,0 +1,189 @@
+/**
+ * Unit tests for the daily_stats materialization
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import {
+  dateRange,
+  computeDailyStats,
+  materializeDailyStats,
+  runDailyStatsJob,
+  summarizeDailyStats,
+  DailyStats,
+} from '../services/daily-stats.js';
+import { pmsRouter, PMSConnection } from '../services/pms-router.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const CONNECTION: PMSConnection = {
+  id: 'conn-1',
+  hotelId: 'hotel-1',
+  pmsType: 'apaleo',
+  credentials: {},
+  environment: 'production',
+  isActive: true,
+  createdAt: new Date('2024-03-01'),
+};
+
+const STAYS = [
+  {
+    date: '2024-03-01', rooms_sold: '8', revenue: '960.00', direct_revenue: '240.00', ota_revenue: '600.00',
+    direct_bookings: '1', ota_bookings: '3',
+  },
+  {
+    date: '2024-03-03', rooms_sold: '10', revenue: '1500.00', direct_revenue: '1500.00', ota_revenue: '0',
+    direct_bookings: '2', ota_bookings: '0',
+  },
+];
+
+const SESSIONS = [{ date: '2024-03-01', interactions: '12', conversions: '2', cost: '0.4812' }];
+
+function mockDb(hotel: { rooms_count: number; timezone?: string } | null = { rooms_count: 10, timezone: 'Europe/Paris' }) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('FROM hotels WHERE id')) return { rows: hotel ? [hotel] : [] };
+    if (sql.includes('FROM generate_series')) return { rows: STAYS };
+    if (sql.includes('FROM ai_sessions')) return { rows: SESSIONS };
+    if (sql.includes('FROM hotels WHERE is_active')) return { rows: [{ id: 'hotel-1' }, { id: 'hotel-2' }] };
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+function statsWrites(): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO daily_stats')).map(([, params]) => params);
+}
+
+describe('Daily stats', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+  });
+
+  describe('dateRange', () => {
+    test('lists every date, across month ends', () => {
+      expect(dateRange('2024-02-28', '2024-03-01')).toEqual(['2024-02-28', '2024-02-29', '2024-03-01']);
+    });
+
+    test('rejects invalid and oversized ranges', () => {
+      expect(() => dateRange('2024-3-1', '2024-03-02')).toThrow('Invalid date');
+      expect(() => dateRange('2024-03-02', '2024-03-01')).toThrow('from must not be after to');
+      expect(() => dateRange('2023-01-01', '2024-12-31')).toThrow('limited to 366 days');
+    });
+  });
+
+  describe('computeDailyStats', () => {
+    test('derives occupancy, ADR and RevPAR from the room count', async () => {
+      const [first, empty, full] = await computeDailyStats('hotel-1', '2024-03-01', '2024-03-03');
+
+      expect(first).toEqual({
+        date: '2024-03-01',
+        roomsAvailable: 10,
+        roomsSold: 8,
+        occupancyRate: 80,
+        adr: 120,
+        revpar: 96,
+        totalRevenue: 960,
+        directBookings: 1,
+        otaBookings: 3,
+        directRevenue: 240,
+        otaRevenue: 600,
+        aiInteractions: 12,
+        aiConversions: 2,
+        aiCost: 0.4812,
+      });
+      // Nights without stays are still materialized
+      expect(empty).toMatchObject({ date: '2024-03-02', roomsSold: 0, occupancyRate: 0, adr: null, revpar: 0 });
+      expect(full).toMatchObject({ occupancyRate: 100, adr: 150, revpar: 150 });
+    });
+
+    test('buckets AI sessions by day in the hotel timezone', async () => {
+      await computeDailyStats('hotel-1', '2024-03-01', '2024-03-03');
+
+      const [, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('FROM ai_sessions'))!;
+      expect(params).toEqual(['hotel-1', '2024-03-01', '2024-03-03', 'Europe/Paris']);
+    });
+
+    test('uses PMS availability when the hotel has no room count', async () => {
+      mockDb({ rooms_count: 0 });
+      const getConnection = jest.spyOn(pmsRouter, 'getConnection').mockResolvedValue(CONNECTION);
+      const getAvailability = jest.spyOn(pmsRouter, 'getAvailability').mockResolvedValue([
+        { date: '2024-03-01', roomTypeId: 'DBL', available: 3, rate: 120 },
+        { date: '2024-03-01', roomTypeId: 'SGL', available: 1, rate: 90 },
+      ]);
+
+      const [first, second] = await computeDailyStats('hotel-1', '2024-03-01', '2024-03-02');
+
+      expect(first).toMatchObject({ roomsAvailable: 12, occupancyRate: 66.67, revpar: 80 });
+      // No PMS data for the date: inventory unknown
+      expect(second).toMatchObject({ roomsAvailable: null, occupancyRate: null, revpar: null });
+      getConnection.mockRestore();
+      getAvailability.mockRestore();
+    });
+
+    test('rejects unknown hotels', async () => {
+      mockDb(null);
+
+      await expect(computeDailyStats('missing', '2024-03-01', '2024-03-01')).rejects.toMatchObject({ status: 404 });
+    });
+  });
+
+  test('materializeDailyStats upserts one row per date', async () => {
+    await materializeDailyStats('hotel-1', '2024-03-01', '2024-03-03');
+
+    const writes = statsWrites();
+    expect(writes.map(params => params[1])).toEqual(['2024-03-01', '2024-03-02', '2024-03-03']);
+    expect(writes[0]).toEqual(['hotel-1', '2024-03-01', 10, 8, 80, 120, 96, 960, 1, 3, 240, 600, 12, 2, 0.4812]);
+    expect(mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO daily_stats'))![0]).toContain(
+      'ON CONFLICT (hotel_id, date) DO UPDATE'
+    );
+  });
+
+  describe('runDailyStatsJob', () => {
+    test('refreshes the week ending yesterday for every active hotel', async () => {
+      jest.useFakeTimers().setSystemTime(new Date('2024-03-10T01:00:00Z'));
+
+      const result = await runDailyStatsJob();
+
+      expect(result).toMatchObject({ startDate: '2024-03-03', endDate: '2024-03-09', hotelsTotal: 2, hotelsFailed: 0 });
+      expect(statsWrites()).toHaveLength(14);
+      jest.useRealTimers();
+    });
+
+    test('continues past failing hotels', async () => {
+      mockQuery.mockImplementation(async (sql: string, params: any[]) => {
+        if (sql.includes('FROM hotels WHERE id')) {
+          return { rows: params[0] === 'hotel-2' ? [] : [{ rooms_count: 10 }] };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+
+      const result = await runDailyStatsJob({ startDate: '2024-03-01', endDate: '2024-03-01', hotelIds: ['hotel-1', 'hotel-2'] });
+
+      expect(result.hotelsSuccess).toBe(1);
+      expect(result.results[1]).toEqual({ hotelId: 'hotel-2', days: 0, error: 'Hotel not found: hotel-2' });
+    });
+  });
+
+  test('summarizeDailyStats recomputes ratios from room counts', () => {
+    const day = (overrides: Partial<DailyStats>): DailyStats => ({
+      date: '2024-03-01', roomsAvailable: 10, roomsSold: 0, occupancyRate: 0, adr: null, revpar: 0, totalRevenue: 0,
+      directBookings: 0, otaBookings: 0, directRevenue: 0, otaRevenue: 0, aiInteractions: 0, aiConversions: 0, aiCost: 0,
+      ...overrides,
+    });
+
+    const summary = summarizeDailyStats([
+      day({ roomsSold: 9, totalRevenue: 900 }),
+      day({ roomsAvailable: 20, roomsSold: 5, totalRevenue: 750 }),
+    ]);
+
+    expect(summary).toMatchObject({ days: 2, roomsAvailable: 30, roomsSold: 14, totalRevenue: 1650 });
+    expect(summary.occupancyRate).toBe(46.67);
+    expect(summary.adr).toBe(117.86);
+    expect(summary.revpar).toBe(55);
+  });
+});
@@ -5,9 +5,15 @@
 import {
   calculateConfidence,
   calculateEywaScore,
+  calculateBayesianEywaScore,
   calculateTrend,
+  recencyWeight,
   formatEywaScore,
   getScoreColor,
+  getRatingSource,
+  listRatingSources,
+  normalizeRating,
+  registerRatingSource,
   type RatingSource,
 } from '../services/eywa-score.js';
 
@@ -98,6 +104,60 @@ describe('calculateEywaScore', () => {
   });
 });
 
+describe('Bayesian Eywa Score', () => {
+  const now = new Date('2024-06-01T00:00:00Z');
+  const prior = { mean: 4.0, variance: 1.0, strength: 10 };
+  const daysAgo = (days: number) => new Date(now.getTime() - days * 24 * 60 * 60 * 1000);
+
+  test('recency weight halves every half-life', () => {
+    expect(recencyWeight(now, now)).toBe(1);
+    expect(recencyWeight(daysAgo(365), now)).toBeCloseTo(0.5, 10);
+    expect(recencyWeight(daysAgo(730), now)).toBeCloseTo(0.25, 10);
+    expect(recencyWeight(null, now)).toBeCloseTo(0.5, 10);
+  });
+
+  test('without reviews the score is the market prior', () => {
+    const result = calculateBayesianEywaScore([], prior, { now });
+
+    expect(result.eywaScore).toBe(8.0);
+    expect(result.priorScore).toBe(8.0);
+    // 4.0 +/- 1.96 * sqrt(1 / 10)
+    expect(result.credibleInterval).toEqual({ lower: 6.76, upper: 9.24, level: 0.95 });
+  });
+
+  test('shrinks a few reviews toward the market', () => {
+    const one = calculateBayesianEywaScore([{ rating: 5, publishedAt: now }], prior, { now });
+    // (10 * 4 + 5) / 11 = 4.09
+    expect(one.eywaScore).toBe(8.18);
+
+    const many = calculateBayesianEywaScore(Array.from({ length: 10 }, () => ({ rating: 5, publishedAt: now })), prior, { now });
+    // (10 * 4 + 10 * 5) / 20 = 4.5
+    expect(many.eywaScore).toBe(9.0);
+    expect(many.credibleInterval).toEqual({ lower: 8.12, upper: 9.88, level: 0.95 });
+    expect(many.effectiveReviews).toBe(10);
+  });
+
+  test('old reviews count less than recent ones', () => {
+    const reviews = [
+      ...Array.from({ length: 10 }, () => ({ rating: 2, publishedAt: daysAgo(5 * 365) })),
+      ...Array.from({ length: 10 }, () => ({ rating: 5, publishedAt: daysAgo(7) })),
+    ];
+    const result = calculateBayesianEywaScore(reviews, prior, { now });
+
+    expect(result.eywaScore).toBeGreaterThan(8.8);
+    expect(result.reviewsUsed).toBe(20);
+    expect(result.effectiveReviews).toBeLessThan(10.5);
+  });
+
+  test('the interval narrows as reviews accumulate', () => {
+    const width = (n: number) => {
+      const { credibleInterval } = calculateBayesianEywaScore(Array.from({ length: n }, () => ({ rating: 4, publishedAt: now })), prior, { now });
+      return credibleInterval.upper - credibleInterval.lower;
+    };
+    expect(width(100)).toBeLessThan(width(10));
+  });
+});
+
 describe('calculateTrend', () => {
   test('returns stable for no previous score', () => {
     const result = calculateTrend(8.5, null);
@@ -156,3 +216,61 @@ describe('getScoreColor', () => {
     expect(getScoreColor(0)).toBe('red');
   });
 });
+
+describe('rating sources', () => {
+  test('registers the supported review platforms', () => {
+    expect(listRatingSources().map(s => s.slug)).toEqual(
+      expect.arrayContaining(['google', 'tripadvisor', 'booking', 'expedia', 'trustpilot', 'hostaway', 'guesty'])
+    );
+  });
+
+  test('normalizes 10-point ratings to the 5-point scale', () => {
+    expect(normalizeRating('booking', 8.6)).toBeCloseTo(4.3, 10);
+    expect(normalizeRating('google', 4.6)).toBe(4.6);
+    expect(normalizeRating('booking', 12)).toBe(5);
+    expect(normalizeRating('myspace', 4)).toBeNull();
+  });
+
+  test('a registered source can bring its own conversion', () => {
+    registerRatingSource({
+      slug: 'stars', name: 'Star ratings', scale: 3, defaultWeight: 0.5,
+      normalize: rating => 1 + (rating - 1) * 2,
+    });
+    expect(normalizeRating('stars', 3)).toBe(5);
+    expect(getRatingSource('stars')?.name).toBe('Star ratings');
+  });
+});
+
+describe('calculateEywaScore with several platforms', () => {
+  test('mixes 5-point and 10-point sources', () => {
+    const result = calculateEywaScore([
+      { source: 'google', rating: 4.5, reviewCount: 100 },
+      { source: 'booking', rating: 8.0, reviewCount: 100 },
+    ]);
+
+    // (4.5 + 4.0) / 2 * 2 = 8.5
+    expect(result.eywaScore).toBe(8.5);
+    expect(result.breakdown.find(b => b.source === 'booking')).toMatchObject({ rating: 8.0, normalizedRating: 4, weight: 0.5 });
+  });
+
+  test('uses the hotel weights and ignores unknown sources', () => {
+    const result = calculateEywaScore([
+      { source: 'google', rating: 5.0, reviewCount: 100 },
+      { source: 'expedia', rating: 6.0, reviewCount: 100 },
+      { source: 'myspace', rating: 1.0, reviewCount: 100 },
+    ], { google: 0.75, expedia: 0.25 });
+
+    // (5.0 * 0.75 + 3.0 * 0.25) * 2 = 9.0
+    expect(result.eywaScore).toBe(9.0);
+    expect(result.sourcesUsed).toEqual(['google', 'expedia']);
+    expect(result.googleWeight).toBe(0.75);
+  });
+
+  test('a weight of 0 excludes a source', () => {
+    const result = calculateEywaScore([
+      { source: 'google', rating: 4.0, reviewCount: 100 },
+      { source: 'trustpilot', rating: 1.5, reviewCount: 100 },
+    ], { trustpilot: 0 });
+    expect(result.eywaScore).toBe(8.0);
+  });
+});
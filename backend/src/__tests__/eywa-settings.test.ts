@@ -0,0 +1,121 @@
+/**
+ * Unit tests for per-hotel Eywa Score settings
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import {
+  getEywaSettings,
+  updateEywaSettings,
+  effectiveWeights,
+  recordSourceRating,
+  getMarketPrior,
+  computeHotelScores,
+} from '../services/eywa-settings.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+describe('Eywa Score settings', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  test('hotels without settings have no overrides', async () => {
+    expect(await getEywaSettings('hotel-1')).toEqual({ weights: {}, mode: 'weighted' });
+  });
+
+  test('effective weights fill in the source defaults', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ weights: { booking: '0.8' } }] });
+
+    const weights = effectiveWeights(await getEywaSettings('hotel-1'));
+
+    expect(weights).toMatchObject({ google: 0.5, tripadvisor: 0.5, booking: 0.8, trustpilot: 0.25 });
+  });
+
+  test('updateEywaSettings stores the overrides', async () => {
+    const settings = await updateEywaSettings('hotel-1', { weights: { booking: 0.3, trustpilot: 0 } });
+
+    expect(settings).toEqual({ weights: { booking: 0.3, trustpilot: 0 }, mode: 'weighted' });
+    const [sql, params] = mockQuery.mock.calls[1];
+    expect(sql).toContain('INSERT INTO hotel_eywa_settings');
+    expect(params).toEqual(['hotel-1', JSON.stringify({ booking: 0.3, trustpilot: 0 }), 'weighted']);
+  });
+
+  test('changing the mode keeps the stored weights', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ weights: { booking: 0.3 }, score_mode: 'weighted' }] });
+
+    expect(await updateEywaSettings('hotel-1', { mode: 'bayesian' })).toEqual({ weights: { booking: 0.3 }, mode: 'bayesian' });
+  });
+
+  test.each([
+    [{ weights: null }, 'weights must be an object'],
+    [{ weights: { myspace: 0.5 } }, 'Unknown rating source: myspace'],
+    [{ weights: { booking: 1.5 } }, 'Weight for booking must be between 0 and 1'],
+    [{ weights: { booking: '0.5' } }, 'Weight for booking must be between 0 and 1'],
+    [{ mode: 'median' }, 'mode must be one of: weighted, bayesian'],
+  ])('updateEywaSettings rejects %j', async (changes, message) => {
+    await expect(updateEywaSettings('hotel-1', changes as any)).rejects.toMatchObject({ status: 400, message: expect.stringContaining(message) });
+  });
+
+  describe('recordSourceRating', () => {
+    test('stores the rating on the source scale', async () => {
+      const recorded = await recordSourceRating('hotel-1', 'booking', { rating: 8.6, reviewCount: 1250 });
+
+      expect(recorded).toEqual({ source: 'booking', rating: 8.6, normalizedRating: 4.3, reviewCount: 1250 });
+      const [sql, params] = mockQuery.mock.calls[0];
+      expect(sql).toContain('INSERT INTO hotel_ratings');
+      expect(params).toEqual(['hotel-1', 'booking', 8.6, 1250]);
+    });
+
+    test('validates the source, its scale and the review count', async () => {
+      await expect(recordSourceRating('hotel-1', 'myspace', { rating: 4, reviewCount: 1 })).rejects.toThrow('Unknown rating source');
+      await expect(recordSourceRating('hotel-1', 'trustpilot', { rating: 8, reviewCount: 1 })).rejects.toThrow('between 0 and 5 for Trustpilot');
+      await expect(recordSourceRating('hotel-1', 'booking', { rating: 8, reviewCount: -1 })).rejects.toThrow('reviewCount');
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('Bayesian scoring', () => {
+    function mockScoring(options: { mode?: string; reviews?: any[]; market?: any } = {}) {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM hotel_eywa_settings')) return { rows: [{ weights: {}, score_mode: options.mode || 'weighted' }] };
+        if (sql.includes('VAR_SAMP')) return { rows: [options.market || { reviews: '0', mean: null, variance: null }] };
+        if (sql.includes('FROM hotel_reviews')) return { rows: options.reviews || [] };
+        return { rows: [] };
+      });
+    }
+
+    test('the market prior comes from competitor reviews once there are enough', async () => {
+      mockScoring({ market: { reviews: '120', mean: '4.2', variance: '0.8' } });
+      expect(await getMarketPrior('hotel-1')).toEqual({ mean: 4.2, variance: 0.8, strength: 10 });
+
+      mockScoring({ market: { reviews: '12', mean: '4.9', variance: '0.1' } });
+      expect(await getMarketPrior('hotel-1')).toEqual({ mean: 4.0, variance: 1.0, strength: 10 });
+    });
+
+    test('computes both modes and publishes the configured one', async () => {
+      const reviews = Array.from({ length: 10 }, () => ({ source: 'google', rating: 5, published_at: new Date() }));
+      mockScoring({ mode: 'bayesian', reviews });
+
+      const scores = await computeHotelScores('hotel-1', [{ source: 'google', rating: 4.0, reviewCount: 100 }]);
+
+      expect(scores.weighted.eywaScore).toBe(8.0);
+      expect(scores.bayesian!.eywaScore).toBeCloseTo(9.0, 1);
+      expect(scores).toMatchObject({ mode: 'bayesian', fallbackReason: null, eywaScore: scores.bayesian!.eywaScore });
+    });
+
+    test('falls back to the weighted score without reviews', async () => {
+      mockScoring({ mode: 'bayesian' });
+
+      const scores = await computeHotelScores('hotel-1', [{ source: 'google', rating: 4.0, reviewCount: 100 }]);
+
+      expect(scores).toMatchObject({ mode: 'weighted', fallbackReason: 'no_reviews', eywaScore: 8.0, bayesian: null });
+    });
+  });
+});
@@ -0,0 +1,66 @@
+/**
+ * Unit tests for offline language detection of review text
+ */
+
+import {
+  detectLanguage,
+  normalizeLanguageCode,
+  resolveReviewLanguage,
+} from '../services/language-detection.js';
+
+describe('detectLanguage', () => {
+  test('detects the languages our hotels receive reviews in', () => {
+    const samples: Record<string, string> = {
+      en: 'The staff were very friendly and the room was clean. We would stay again.',
+      fr: 'Très bel hôtel, le personnel est accueillant et la chambre était propre.',
+      de: 'Das Zimmer war sehr sauber und das Personal freundlich, wir kommen gerne wieder.',
+      es: 'La habitación estaba muy limpia y el personal fue muy amable con nosotros.',
+      it: 'Camera molto pulita, personale gentile e colazione ottima. Posizione perfetta.',
+      tr: 'Otel çok temiz, personel ilgili ve kahvaltı güzeldi. Tavsiye ederim.',
+    };
+
+    for (const [language, text] of Object.entries(samples)) {
+      expect(detectLanguage(text)).toMatchObject({ language });
+    }
+  });
+
+  test('uses letters unique to a language', () => {
+    expect(detectLanguage('Güzel yer, teşekkürler')?.language).toBe('tr');
+    expect(detectLanguage('¡Excelente ubicación!')?.language).toBe('es');
+  });
+
+  test('gives a confidence between 0 and 1', () => {
+    const detected = detectLanguage('The breakfast was great and the staff were friendly')!;
+    expect(detected.confidence).toBeGreaterThan(0.5);
+    expect(detected.confidence).toBeLessThanOrEqual(1);
+  });
+
+  test('returns null for short or ambiguous text', () => {
+    expect(detectLanguage(null)).toBeNull();
+    expect(detectLanguage('')).toBeNull();
+    expect(detectLanguage('Top!')).toBeNull();
+    expect(detectLanguage('5/5')).toBeNull();
+  });
+});
+
+describe('normalizeLanguageCode', () => {
+  test('keeps the base language', () => {
+    expect(normalizeLanguageCode('en-US')).toBe('en');
+    expect(normalizeLanguageCode('FR')).toBe('fr');
+    expect(normalizeLanguageCode('pt_BR')).toBe('pt');
+    expect(normalizeLanguageCode('')).toBeNull();
+    expect(normalizeLanguageCode(undefined)).toBeNull();
+    expect(normalizeLanguageCode('english')).toBeNull();
+  });
+});
+
+describe('resolveReviewLanguage', () => {
+  test('prefers the detected language over the reported one', () => {
+    expect(resolveReviewLanguage('Chambre très propre et personnel accueillant', 'en')).toMatchObject({ language: 'fr' });
+  });
+
+  test('falls back to the reported language', () => {
+    expect(resolveReviewLanguage('Super!', 'de-DE')).toEqual({ language: 'de', confidence: null });
+    expect(resolveReviewLanguage(null, null)).toEqual({ language: null, confidence: null });
+  });
+});
@@ -0,0 +1,254 @@
+/**
+ * Unit tests for monthly reports and their CSV / PDF export
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+jest.mock('../services/daily-stats.js', () => ({
+  ...jest.requireActual('../services/daily-stats.js'),
+  materializeDailyStats: jest.fn(),
+}));
+
+jest.mock('../services/roi-engine.js', () => ({
+  calculateRoi: jest.fn(),
+}));
+
+import {
+  monthRange,
+  previousMonth,
+  generateMonthlyReport,
+  getMonthlyReport,
+  getPortfolioReport,
+  generatePortfolioReport,
+  MonthlyReport,
+} from '../services/monthly-reports.js';
+import { monthlyReportCsv, portfolioReportCsv, monthlyReportPdf, portfolioReportPdf } from '../services/report-export.js';
+import { materializeDailyStats, DailyStats } from '../services/daily-stats.js';
+import { calculateRoi } from '../services/roi-engine.js';
+import { toWinAnsi } from '../services/pdf-writer.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+const mockMaterialize = materializeDailyStats as jest.Mock;
+const mockCalculateRoi = calculateRoi as jest.Mock;
+
+function day(overrides: Partial<DailyStats>): DailyStats {
+  return {
+    date: '2024-03-01', roomsAvailable: 20, roomsSold: 15, occupancyRate: 75, adr: 100, revpar: 75, totalRevenue: 1500,
+    directBookings: 1, otaBookings: 2, directRevenue: 500, otaRevenue: 1000, aiInteractions: 10, aiConversions: 1, aiCost: 2.5,
+    ...overrides,
+  };
+}
+
+function report(overrides: Partial<MonthlyReport> = {}): MonthlyReport {
+  return {
+    hotelId: 'hotel-1', hotelName: 'Hôtel du Lac', currency: 'EUR', yearMonth: '2024-03',
+    totalRevenue: 3000, directRevenue: 1000, otaRevenue: 2000, totalBookings: 6, directBookings: 2, otaBookings: 4,
+    avgOccupancy: 75, avgAdr: 100, avgRevpar: 75, aiSessions: 20, aiConversions: 2, aiTotalCost: 5, eywaFee: 99,
+    commissionSaved: 150, netProfitBoost: 46, roiPercentage: 44.23, generatedAt: new Date('2024-04-01T04:00:00Z'),
+    ...overrides,
+  };
+}
+
+function mockDb(options: { stored?: any[]; currencies?: Record<string, string> } = {}) {
+  mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.includes('FROM monthly_reports mr')) return { rows: (options.stored || []).filter(row => row.hotel_id === params[0]) };
+    if (sql.includes('FROM hotels WHERE id')) {
+      return { rows: [{ name: 'Hôtel du Lac', currency: options.currencies?.[params[0]] || 'EUR' }] };
+    }
+    if (sql.includes('FROM bookings')) return { rows: [{ total_bookings: '6' }] };
+    if (sql.includes('INSERT INTO monthly_reports')) return { rows: [{ generated_at: new Date('2024-04-01T04:00:00Z') }] };
+    if (sql.includes('FROM hotels WHERE is_active')) return { rows: [{ id: 'hotel-1' }, { id: 'hotel-2' }] };
+    return { rows: [] };
+  });
+}
+
+describe('Monthly reports', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+    mockMaterialize.mockResolvedValue([day({}), day({ date: '2024-03-02', roomsSold: 5, totalRevenue: 500, occupancyRate: 25 })]);
+    mockCalculateRoi.mockResolvedValue({ licenceCost: 99, commissionSaved: 150, netGain: 46, roiPercentage: 44.23 });
+  });
+
+  describe('monthRange', () => {
+    test('returns the first and last day of the month', () => {
+      expect(monthRange('2024-02')).toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+      expect(monthRange('2023-12')).toEqual({ startDate: '2023-12-01', endDate: '2023-12-31' });
+    });
+
+    test('rejects malformed and future months', () => {
+      expect(() => monthRange('2024-13')).toThrow('Invalid month');
+      expect(() => monthRange('2999-01')).toThrow('has not started');
+    });
+
+    test('previousMonth crosses year boundaries', () => {
+      expect(previousMonth(new Date('2024-01-15T00:00:00Z'))).toBe('2023-12');
+    });
+  });
+
+  describe('generateMonthlyReport', () => {
+    test('aggregates daily stats and takes savings from the ROI engine', async () => {
+      const result = await generateMonthlyReport('hotel-1', '2024-03');
+
+      expect(mockMaterialize).toHaveBeenCalledWith('hotel-1', '2024-03-01', '2024-03-31');
+      expect(mockCalculateRoi).toHaveBeenCalledWith('hotel-1', '2024-03-01', '2024-03-31');
+      expect(result).toMatchObject({
+        totalRevenue: 2000,
+        totalBookings: 6,
+        avgOccupancy: 50,
+        avgAdr: 100,
+        aiSessions: 20,
+        aiTotalCost: 5,
+        eywaFee: 99,
+        commissionSaved: 150,
+        netProfitBoost: 46,
+        roiPercentage: 44.23,
+      });
+
+      const [sql, params] = mockQuery.mock.calls.find(([s]) => s.includes('INSERT INTO monthly_reports'))!;
+      expect(sql).toContain('ON CONFLICT (hotel_id, year_month) DO UPDATE');
+      expect(params.slice(0, 2)).toEqual(['hotel-1', '2024-03']);
+      expect(params.slice(15)).toEqual([150, 46, 44.23]);
+    });
+
+    test('does not store the running month', async () => {
+      const thisMonth = new Date().toISOString().slice(0, 7);
+
+      const result = await generateMonthlyReport('hotel-1', thisMonth);
+
+      expect(result).toMatchObject({ yearMonth: thisMonth, totalRevenue: 2000 });
+      expect(mockQuery.mock.calls.some(([s]) => s.includes('INSERT INTO monthly_reports'))).toBe(false);
+    });
+  });
+
+  test('getMonthlyReport serves the stored report without regenerating', async () => {
+    mockDb({
+      stored: [{
+        hotel_id: 'hotel-1', hotel_name: 'Hôtel du Lac', currency: 'EUR', year_month: '2024-03',
+        total_revenue: '3000.00', avg_occupancy: null, roi_percentage: '12.50', generated_at: new Date('2024-04-01'),
+      }],
+    });
+
+    const result = await getMonthlyReport('hotel-1', '2024-03');
+
+    expect(result).toMatchObject({ totalRevenue: 3000, avgOccupancy: null, roiPercentage: 12.5 });
+    expect(mockMaterialize).not.toHaveBeenCalled();
+  });
+
+  test('getMonthlyReport returns null when nothing is stored, without generating', async () => {
+    const result = await getMonthlyReport('hotel-1', '2024-03');
+
+    expect(result).toBeNull();
+    expect(mockMaterialize).not.toHaveBeenCalled();
+    expect(mockQuery.mock.calls.some(([s]) => s.includes('INSERT INTO monthly_reports'))).toBe(false);
+  });
+
+  test('getMonthlyReport never serves the running month', async () => {
+    const thisMonth = new Date().toISOString().slice(0, 7);
+    mockDb({ stored: [{ hotel_id: 'hotel-1', year_month: thisMonth, total_revenue: '10.00' }] });
+
+    const result = await getMonthlyReport('hotel-1', thisMonth);
+
+    expect(result).toBeNull();
+    expect(mockMaterialize).not.toHaveBeenCalled();
+  });
+
+  test('getPortfolioReport lists hotels without a stored report', async () => {
+    mockDb({
+      stored: [{
+        hotel_id: 'hotel-1', hotel_name: 'Hôtel du Lac', currency: 'EUR', year_month: '2024-03',
+        total_revenue: '3000.00', generated_at: new Date('2024-04-01'),
+      }],
+    });
+
+    const portfolio = await getPortfolioReport('2024-03');
+
+    expect(portfolio.hotels.map(h => h.hotelId)).toEqual(['hotel-1']);
+    expect(portfolio.missingHotelIds).toEqual(['hotel-2']);
+    expect(portfolio.totals[0]).toMatchObject({ currency: 'EUR', hotelCount: 1, totalRevenue: 3000 });
+    expect(mockMaterialize).not.toHaveBeenCalled();
+  });
+
+  test('generatePortfolioReport totals every active hotel', async () => {
+    const portfolio = await generatePortfolioReport('2024-03');
+
+    expect(portfolio.hotels).toHaveLength(2);
+    expect(portfolio.totals).toHaveLength(1);
+    expect(portfolio.totals[0]).toMatchObject({
+      currency: 'EUR', hotelCount: 2, totalRevenue: 4000, eywaFee: 198, commissionSaved: 300, avgOccupancy: 50,
+    });
+    expect(portfolio.totals[0].roiPercentage).toBe(44.23);
+  });
+
+  test('generatePortfolioReport keeps amounts in different currencies apart', async () => {
+    mockDb({ currencies: { 'hotel-2': 'TRY' } });
+
+    const portfolio = await generatePortfolioReport('2024-03');
+
+    expect(portfolio.totals.map(t => [t.currency, t.hotelCount, t.totalRevenue])).toEqual([
+      ['EUR', 1, 2000],
+      ['TRY', 1, 2000],
+    ]);
+  });
+});
+
+describe('Report export', () => {
+  test('CSV has a header and quotes cells when needed', () => {
+    const csv = monthlyReportCsv([report({ hotelName: 'Sea, Sun & "Sand"' })]);
+    const [header, row] = csv.trim().split('\r\n');
+
+    expect(header.split(',')).toHaveLength(19);
+    expect(header.startsWith('hotel,year_month,currency,total_revenue')).toBe(true);
+    expect(row.startsWith('"Sea, Sun & ""Sand""",2024-03,EUR,3000,')).toBe(true);
+  });
+
+  test('portfolio CSV ends with a total row per currency', () => {
+    const csv = portfolioReportCsv({
+      yearMonth: '2024-03',
+      hotels: [report(), report({ hotelId: 'hotel-2', currency: 'TRY' })],
+      totals: [
+        { ...report(), hotelCount: 1 },
+        { ...report({ currency: 'TRY', totalRevenue: 6000 }), hotelCount: 1 },
+      ],
+      missingHotelIds: [],
+    });
+
+    const rows = csv.trim().split('\r\n');
+    expect(rows).toHaveLength(5);
+    expect(rows[3].startsWith('TOTAL,2024-03,EUR,3000,')).toBe(true);
+    expect(rows[4].startsWith('TOTAL,2024-03,TRY,6000,')).toBe(true);
+  });
+
+  test('PDF is well formed with a valid cross-reference table', () => {
+    const pdf = monthlyReportPdf(report());
+    const text = pdf.toString('latin1');
+
+    expect(text.startsWith('%PDF-1.4')).toBe(true);
+    expect(text.trimEnd().endsWith('%%EOF')).toBe(true);
+    expect(text).toContain('(H\xf4tel du Lac)');
+    expect(text).toContain('(March 2024)');
+
+    const startxref = Number(/startxref\n(\d+)/.exec(text)![1]);
+    expect(text.slice(startxref, startxref + 4)).toBe('xref');
+    const offsets = text.slice(startxref).match(/^\d{10} 00000 n $/gm)!.map(line => Number(line.slice(0, 10)));
+    offsets.forEach((offset, i) => expect(text.slice(offset).startsWith(`${i + 1} 0 obj`)).toBe(true));
+  });
+
+  test('portfolio PDF continues the hotel table on new pages', () => {
+    const hotels = Array.from({ length: 60 }, (_, i) => report({ hotelId: `hotel-${i}`, hotelName: `Hotel ${i}` }));
+    const text = portfolioReportPdf({ yearMonth: '2024-03', hotels, totals: [{ ...report(), hotelCount: 60 }], missingHotelIds: [] }).toString('latin1');
+
+    expect(text).toMatch(/\/Count [2-9]/);
+    expect(text).toContain('(Hotel 59)');
+  });
+
+  test('text outside WinAnsi is transliterated', () => {
+    expect(toWinAnsi('Işık Otel – Ağva')).toBe('Isik Otel ? Agva');
+    expect(toWinAnsi('€')).toBe('\x80');
+  });
+});
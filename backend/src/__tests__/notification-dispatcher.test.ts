@@ -0,0 +1,342 @@
+/**
+ * Unit tests for the notification dispatcher (preferences, quiet hours, retries, delivery log)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import * as dispatcher from '../services/notification-dispatcher.js';
+import {
+  NotificationTransport,
+  registerNotificationTransport,
+  TransportError,
+  unregisterNotificationTransport,
+  WebhookTransport,
+} from '../services/notification-transports.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+function callsMatching(text: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(text));
+}
+
+// In-memory transport recording what it was asked to send
+function fakeTransport(fail?: Error): NotificationTransport & { sent: any[] } {
+  const sent: any[] = [];
+  return {
+    sent,
+    send: jest.fn(async (recipient, message) => {
+      if (fail) throw fail;
+      sent.push({ recipient, message });
+      return { externalId: `ext-${sent.length}` };
+    }),
+  };
+}
+
+function user(id: string, preferences: Record<string, any> | null = null) {
+  return {
+    account_id: id,
+    account_email: `${id}@hotel.test`,
+    user_id: preferences ? id : null,
+    ...preferences,
+  };
+}
+
+const notification = { id: 'notification-1', hotel_id: 'hotel-1', user_id: null, severity: 'medium' };
+
+// Routes the dispatcher's queries; each insert creates delivery `delivery-N` from its params
+function mockDb(users: any[], options: { notification?: any; existing?: string[]; claimed?: any[] } = {}) {
+  const deliveries = new Map<string, any>((options.claimed || []).map(row => [row.id, row]));
+  mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('UPDATE') && sql.includes('SKIP LOCKED')) {
+      return { rows: (options.claimed || []).map(row => ({ id: row.id })) };
+    }
+    if (sql.startsWith('UPDATE')) return { rows: [], rowCount: 1 };
+    if (sql.includes('FROM notifications WHERE id = $1')) {
+      return { rows: [options.notification ?? notification] };
+    }
+    if (sql.includes('LEFT JOIN user_notification_preferences p ON p.user_id = u.id')) return { rows: users };
+    if (sql.includes('INSERT INTO notification_deliveries')) {
+      const [notificationId, userId, channel, recipient] = params;
+      if ((options.existing || []).includes(`${userId}:${channel}`)) return { rows: [] };
+      const id = `delivery-${deliveries.size + 1}`;
+      deliveries.set(id, {
+        id, notification_id: notificationId, user_id: userId, channel, recipient, attempts: 0,
+        hotel_id: 'hotel-1', hotel_name: 'Hotel Lumen', title: 'Eywa Score dropped', message: 'Down 0.5',
+        severity: 'medium', category: 'reviews', data: null, notification_created_at: new Date(), webhook_secret: null,
+      });
+      return { rows: [{ id }] };
+    }
+    if (sql.includes('WHERE d.id = ANY($1)')) {
+      return { rows: params[0].map((id: string) => deliveries.get(id)) };
+    }
+    return { rows: [] };
+  });
+}
+
+describe('Notification dispatcher', () => {
+  let email: ReturnType<typeof fakeTransport>;
+  let telegram: ReturnType<typeof fakeTransport>;
+  let webhook: ReturnType<typeof fakeTransport>;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    email = fakeTransport();
+    telegram = fakeTransport();
+    webhook = fakeTransport();
+    registerNotificationTransport('email', email);
+    registerNotificationTransport('telegram', telegram);
+    registerNotificationTransport('webhook', webhook);
+  });
+
+  afterAll(() => {
+    unregisterNotificationTransport('email');
+    unregisterNotificationTransport('telegram');
+    unregisterNotificationTransport('webhook');
+  });
+
+  describe('dispatchNotification', () => {
+    test('emails users without preferences and follows the channels of the others', async () => {
+      mockDb([
+        user('u1'),
+        user('u2', {
+          email_enabled: false, email: null, telegram_enabled: true, telegram_chat_id: '-1001',
+          webhook_enabled: true, webhook_url: 'https://hooks.slack.test/T1', webhook_secret: null,
+          min_severity: 'low', quiet_hours_start: null, quiet_hours_end: null, timezone: 'UTC',
+        }),
+      ]);
+
+      const result = await dispatcher.dispatchNotification('notification-1');
+
+      expect(result).toEqual({ notificationId: 'notification-1', deliveries: 3, sent: 3, pending: 0, failed: 0, skipped: 0 });
+      expect(email.sent.map(s => s.recipient.address)).toEqual(['u1@hotel.test']);
+      expect(telegram.sent[0].recipient.address).toBe('-1001');
+      expect(webhook.sent[0].recipient.address).toBe('https://hooks.slack.test/T1');
+      expect(email.sent[0].message).toMatchObject({ hotelName: 'Hotel Lumen', title: 'Eywa Score dropped' });
+      expect(callsMatching("status = 'sent'")).toHaveLength(3);
+      expect(callsMatching('FROM users u')[0][0]).toContain('u.hotel_id = $1');
+    });
+
+    test('sends to the preferred email address and only to the notified user', async () => {
+      mockDb([user('u1', {
+        email_enabled: true, email: 'night@hotel.test', telegram_enabled: false, webhook_enabled: false,
+        min_severity: 'medium', timezone: 'UTC',
+      })], { notification: { ...notification, user_id: 'u1' } });
+
+      await dispatcher.dispatchNotification('notification-1');
+
+      expect(email.sent[0].recipient.address).toBe('night@hotel.test');
+      expect(callsMatching('FROM users u')[0]).toEqual([expect.stringContaining('u.id = $1'), ['u1']]);
+    });
+
+    test('skips notifications under the user minimum severity', async () => {
+      mockDb([
+        user('u1', { email_enabled: true, min_severity: 'high', timezone: 'UTC' }),
+        user('u2'), // medium by default
+      ], { notification: { ...notification, severity: null } });
+
+      const result = await dispatcher.dispatchNotification('notification-1');
+
+      expect(result.deliveries).toBe(0);
+      expect(callsMatching('INSERT INTO notification_deliveries')).toHaveLength(0);
+    });
+
+    test('does not deliver twice', async () => {
+      mockDb([user('u1')], { existing: ['u1:email'] });
+
+      expect(await dispatcher.dispatchNotification('notification-1')).toMatchObject({ deliveries: 0, sent: 0 });
+      expect(email.send).not.toHaveBeenCalled();
+    });
+
+    test('holds deliveries during quiet hours, except high severity ones', async () => {
+      const quiet = {
+        email_enabled: true, min_severity: 'low', quiet_hours_start: '22:00', quiet_hours_end: '07:00', timezone: 'Europe/Istanbul',
+      };
+      const now = new Date('2026-10-19T21:30:00Z'); // 00:30 in Istanbul
+      mockDb([user('u1', quiet)]);
+
+      const result = await dispatcher.dispatchNotification('notification-1', now);
+
+      expect(result).toMatchObject({ deliveries: 1, sent: 0, pending: 1 });
+      expect(email.send).not.toHaveBeenCalled();
+      expect(callsMatching('INSERT INTO notification_deliveries')[0][1][4]).toEqual(new Date('2026-10-20T04:00:00Z'));
+
+      jest.clearAllMocks();
+      mockDb([user('u1', quiet)], { notification: { ...notification, severity: 'high' } });
+      expect(await dispatcher.dispatchNotification('notification-1', now)).toMatchObject({ sent: 1, pending: 0 });
+    });
+
+    test('schedules a retry with backoff on retryable failures', async () => {
+      registerNotificationTransport('email', fakeTransport(new TransportError('451 Try again later', true)));
+      mockDb([user('u1')]);
+
+      expect(await dispatcher.dispatchNotification('notification-1')).toMatchObject({ sent: 0, pending: 1 });
+      const [, params] = callsMatching('next_attempt_at = NOW() + make_interval(mins => $4)')[0];
+      expect(params).toEqual(['delivery-1', 1, '451 Try again later', 1]);
+    });
+
+    test('gives up at once on permanent failures', async () => {
+      registerNotificationTransport('email', fakeTransport(new TransportError('550 No such user', false)));
+      mockDb([user('u1')]);
+
+      expect(await dispatcher.dispatchNotification('notification-1')).toMatchObject({ failed: 1, pending: 0 });
+      expect(callsMatching("status = 'failed'")[0][1]).toEqual(['delivery-1', 1, '550 No such user']);
+    });
+
+    test('logs channels the server is not configured for as skipped', async () => {
+      unregisterNotificationTransport('email');
+      const smtpHost = process.env.SMTP_HOST;
+      delete process.env.SMTP_HOST;
+      mockDb([user('u1')]);
+
+      expect(await dispatcher.dispatchNotification('notification-1')).toMatchObject({ skipped: 1 });
+      expect(callsMatching("status = 'skipped'")[0][1]).toEqual(['delivery-1', 'email transport is not configured']);
+      if (smtpHost !== undefined) process.env.SMTP_HOST = smtpHost;
+    });
+  });
+
+  describe('runDeliveryRetries', () => {
+    const due = (attempts: number) => ({
+      id: 'delivery-9', notification_id: 'notification-1', user_id: 'u1', channel: 'webhook', recipient: 'https://hooks.test',
+      attempts, hotel_id: 'hotel-1', hotel_name: 'Hotel Lumen', title: 'Sync failing', message: null,
+      severity: 'high', category: 'sync', data: null, notification_created_at: new Date(), webhook_secret: 'shh',
+    });
+
+    test('attempts the claimed deliveries with the user secret', async () => {
+      mockDb([], { claimed: [due(2)] });
+
+      const result = await dispatcher.runDeliveryRetries();
+
+      expect(result).toMatchObject({ deliveriesTotal: 1, sent: 1 });
+      expect(webhook.sent[0].recipient).toEqual({ address: 'https://hooks.test', secret: 'shh' });
+      expect(callsMatching("status = 'sent'")[0][1]).toEqual(['delivery-9', 3, 'ext-1']);
+    });
+
+    test('marks a delivery failed after the last attempt', async () => {
+      registerNotificationTransport('webhook', fakeTransport(new TransportError('503', true)));
+      mockDb([], { claimed: [due(dispatcher.MAX_DELIVERY_ATTEMPTS - 1)] });
+
+      expect(await dispatcher.runDeliveryRetries()).toMatchObject({ failed: 1, pending: 0 });
+      expect(callsMatching("status = 'failed'")[0][1][1]).toBe(dispatcher.MAX_DELIVERY_ATTEMPTS);
+    });
+
+    test('backs off exponentially', () => {
+      expect([1, 2, 3, 4].map(dispatcher.retryDelayMinutes)).toEqual([1, 4, 16, 64]);
+    });
+  });
+
+  describe('quietHoursEnd', () => {
+    const window = { quietHoursStart: '22:00', quietHoursEnd: '07:00', timezone: 'UTC' };
+
+    test('handles windows spanning midnight', () => {
+      expect(dispatcher.quietHoursEnd(window, new Date('2026-10-19T23:15:40Z'))).toEqual(new Date('2026-10-20T07:00:00Z'));
+      expect(dispatcher.quietHoursEnd(window, new Date('2026-10-20T06:59:00Z'))).toEqual(new Date('2026-10-20T07:00:00Z'));
+      expect(dispatcher.quietHoursEnd(window, new Date('2026-10-20T07:00:00Z'))).toBeNull();
+      expect(dispatcher.quietHoursEnd(window, new Date('2026-10-19T12:00:00Z'))).toBeNull();
+    });
+
+    test('handles same-day windows and no window', () => {
+      const lunch = { quietHoursStart: '12:00', quietHoursEnd: '14:00', timezone: 'America/New_York' };
+      expect(dispatcher.quietHoursEnd(lunch, new Date('2026-10-19T17:00:00Z'))).toEqual(new Date('2026-10-19T18:00:00Z'));
+      expect(dispatcher.quietHoursEnd(lunch, new Date('2026-10-19T12:30:00Z'))).toBeNull();
+      expect(dispatcher.quietHoursEnd({ quietHoursStart: null, quietHoursEnd: null, timezone: 'UTC' })).toBeNull();
+    });
+  });
+
+  describe('preferences', () => {
+    test('defaults to email for users without preferences', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [user('u1')] });
+
+      expect(await dispatcher.getPreferences('u1')).toMatchObject({
+        userId: 'u1', accountEmail: 'u1@hotel.test', emailEnabled: true, telegramEnabled: false, minSeverity: 'medium',
+      });
+    });
+
+    test('saves valid preferences and keeps the webhook secret write-only', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [user('u1')] }).mockResolvedValueOnce({ rows: [] });
+
+      const preferences = await dispatcher.updatePreferences('u1', {
+        telegramEnabled: true, telegramChatId: '-1001', webhookEnabled: true, webhookUrl: 'https://hooks.slack.test/T1',
+        webhookSecret: 'shh', quietHoursStart: '22:00', quietHoursEnd: '07:00', timezone: 'Europe/Istanbul',
+      });
+
+      expect(preferences).toMatchObject({ telegramEnabled: true, hasWebhookSecret: true, timezone: 'Europe/Istanbul' });
+      expect(JSON.stringify(preferences)).not.toContain('shh');
+      const [sql, params] = callsMatching('INSERT INTO user_notification_preferences')[0];
+      expect(sql).toContain('webhook_secret = EXCLUDED.webhook_secret');
+      expect(params[7]).toBe('shh');
+    });
+
+    test('leaves the stored secret alone when not given', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [user('u1')] }).mockResolvedValueOnce({ rows: [] });
+
+      await dispatcher.updatePreferences('u1', { minSeverity: 'high' });
+
+      expect(callsMatching('INSERT INTO user_notification_preferences')[0][0])
+        .toContain('webhook_secret = user_notification_preferences.webhook_secret');
+    });
+
+    test('rejects invalid preferences', async () => {
+      mockQuery.mockResolvedValue({ rows: [user('u1')] });
+      registerNotificationTransport('webhook', new WebhookTransport({ resolve: async hostname => [hostname] }));
+
+      for (const changes of [
+        { email: 'not-an-email' },
+        { telegramEnabled: true },
+        { webhookUrl: 'ftp://hooks.test' },
+        { webhookUrl: 'http://169.254.169.254/latest/meta-data' },
+        { minSeverity: 'critical' },
+        { quietHoursStart: '22:00' },
+        { quietHoursStart: '25:00', quietHoursEnd: '07:00' },
+        { timezone: 'Mars/Olympus' },
+        { emailEnabled: 'yes' },
+      ] as any[]) {
+        await expect(dispatcher.updatePreferences('u1', changes)).rejects.toMatchObject({ status: 400 });
+      }
+      expect(callsMatching('INSERT INTO user_notification_preferences')).toHaveLength(0);
+    });
+  });
+
+  describe('sendTestNotification', () => {
+    test('sends on the enabled channels without logging', async () => {
+      registerNotificationTransport('telegram', fakeTransport(new TransportError('chat not found', false)));
+      mockQuery.mockResolvedValueOnce({
+        rows: [user('u1', { email_enabled: true, email: null, telegram_enabled: true, telegram_chat_id: '42', webhook_enabled: false, min_severity: 'low', timezone: 'UTC' })],
+      });
+
+      expect(await dispatcher.sendTestNotification('u1')).toEqual([
+        { channel: 'email', recipient: 'u1@hotel.test', status: 'sent' },
+        { channel: 'telegram', recipient: '42', status: 'failed', error: 'chat not found' },
+      ]);
+      expect(callsMatching('notification_deliveries')).toHaveLength(0);
+    });
+
+    test('rejects channels that are not enabled', async () => {
+      mockQuery.mockResolvedValueOnce({ rows: [user('u1')] });
+      await expect(dispatcher.sendTestNotification('u1', 'telegram')).rejects.toMatchObject({ status: 400 });
+      await expect(dispatcher.sendTestNotification('u1', 'pigeon' as any)).rejects.toMatchObject({ status: 400 });
+    });
+  });
+
+  test('listDeliveries filters the hotel log by status', async () => {
+    mockQuery.mockResolvedValueOnce({
+      rows: [{
+        id: 'delivery-1', notification_id: 'notification-1', title: 'Eywa Score dropped', user_id: 'u1', user_email: 'u1@hotel.test',
+        channel: 'email', recipient: 'u1@hotel.test', status: 'failed', attempts: 5, next_attempt_at: new Date(),
+        last_error: '451', external_id: null, sent_at: null, created_at: new Date(),
+      }],
+    });
+
+    const deliveries = await dispatcher.listDeliveries('hotel-1', { status: 'failed', limit: 20 });
+
+    expect(deliveries[0]).toMatchObject({ id: 'delivery-1', status: 'failed', attempts: 5, nextAttemptAt: null });
+    const [sql, params] = mockQuery.mock.calls[0];
+    expect(sql).toContain('d.status = $3');
+    expect(params).toEqual(['hotel-1', 20, 'failed']);
+    await expect(dispatcher.listDeliveries('hotel-1', { status: 'lost' as any })).rejects.toMatchObject({ status: 400 });
+  });
+});
@@ -0,0 +1,380 @@
+/**
+ * Unit tests for the notification transports, against local fakes:
+ * an in-process SMTP sink and HTTP servers standing in for Telegram and webhooks
+ */
+
+import crypto from 'crypto';
+import http from 'http';
+import net from 'net';
+import { AddressInfo } from 'net';
+import { buildMessage, sendMail, SmtpError } from '../services/smtp-client.js';
+import {
+  formatText,
+  getNotificationTransport,
+  isPublicAddress,
+  NotificationMessage,
+  registerNotificationTransport,
+  SmtpTransport,
+  smtpConfigFromEnv,
+  TelegramTransport,
+  TransportError,
+  unregisterNotificationTransport,
+  WebhookTransport,
+} from '../services/notification-transports.js';
+
+interface SinkOptions {
+  rejectRecipient?: string; // reply to RCPT TO, e.g. '550 No such user'
+}
+
+interface SmtpSink {
+  port: number;
+  commands: string[];
+  messages: Array<{ from: string; to: string[]; data: string }>;
+  close(): Promise<void>;
+}
+
+// Accepts mail like a relay would, recording the commands and messages it gets
+async function startSmtpSink(options: SinkOptions = {}): Promise<SmtpSink> {
+  const sink = { commands: [] as string[], messages: [] as SmtpSink['messages'] };
+  const sockets = new Set<net.Socket>();
+
+  const server = net.createServer(socket => {
+    sockets.add(socket);
+    socket.on('close', () => sockets.delete(socket));
+    socket.setEncoding('utf8');
+    let buffer = '';
+    let data: string | null = null;
+    let envelope = { from: '', to: [] as string[] };
+    const reply = (line: string) => socket.write(`${line}\r\n`);
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk;
+      while (true) {
+        if (data !== null) {
+          const end = buffer.indexOf('\r\n.\r\n');
+          if (end < 0) return;
+          data += buffer.slice(0, end);
+          buffer = buffer.slice(end + 5);
+          sink.messages.push({ ...envelope, data });
+          data = null;
+          reply('250 2.0.0 Queued');
+          continue;
+        }
+        const index = buffer.indexOf('\r\n');
+        if (index < 0) return;
+        const line = buffer.slice(0, index);
+        buffer = buffer.slice(index + 2);
+        sink.commands.push(line);
+
+        const verb = line.split(/[ :]/)[0].toUpperCase();
+        if (verb === 'EHLO') {
+          reply('250-sink.local');
+          reply('250-AUTH PLAIN');
+          reply('250 8BITMIME');
+        } else if (verb === 'AUTH') reply('235 2.7.0 Authenticated');
+        else if (verb === 'MAIL') {
+          envelope = { from: line.slice(10).replace(/[<>]/g, ''), to: [] };
+          reply('250 OK');
+        } else if (verb === 'RCPT') {
+          if (options.rejectRecipient) reply(options.rejectRecipient);
+          else {
+            envelope.to.push(line.slice(8).replace(/[<>]/g, ''));
+            reply('250 OK');
+          }
+        } else if (verb === 'DATA') {
+          data = '';
+          reply('354 End data with <CR><LF>.<CR><LF>');
+        } else if (verb === 'QUIT') {
+          reply('221 Bye');
+          socket.end();
+        } else reply('502 Command not implemented');
+      }
+    });
+    reply('220 sink.local ESMTP');
+  });
+
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    ...sink,
+    port: (server.address() as AddressInfo).port,
+    close: () => {
+      sockets.forEach(socket => socket.destroy());
+      return new Promise(resolve => server.close(() => resolve()));
+    },
+  };
+}
+
+interface HttpFake {
+  url: string;
+  requests: Array<{ path: string; headers: http.IncomingHttpHeaders; body: string }>;
+  close(): Promise<void>;
+}
+
+// Answers every request with `status` and `body`, recording what it got
+async function startHttpFake(status = 200, body: any = {}): Promise<HttpFake> {
+  const requests: HttpFake['requests'] = [];
+  const server = http.createServer((req, res) => {
+    let received = '';
+    req.on('data', chunk => (received += chunk));
+    req.on('end', () => {
+      requests.push({ path: req.url || '', headers: req.headers, body: received });
+      res.writeHead(status, { 'Content-Type': 'application/json', Connection: 'close' });
+      res.end(JSON.stringify(body));
+    });
+  });
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+  return {
+    url: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+    requests,
+    close: () => new Promise(resolve => {
+      server.closeAllConnections();
+      server.close(() => resolve());
+    }),
+  };
+}
+
+const message: NotificationMessage = {
+  notificationId: 'notification-1',
+  hotelId: 'hotel-1',
+  hotelName: 'Hotel Lumen',
+  title: 'Eywa Score dropped by 0.50 points',
+  message: 'Eywa Score went from 8.10 to 7.60 over the last 7 days',
+  severity: 'high',
+  category: 'reviews',
+  data: { drop: 0.5 },
+  createdAt: new Date('2026-10-19T08:00:00Z'),
+};
+
+function decodeBody(data: string): string {
+  const [, body] = data.split('\r\n\r\n');
+  return Buffer.from(body.replace(/\r\n/g, ''), 'base64').toString('utf8');
+}
+
+describe('Notification transports', () => {
+  describe('SMTP', () => {
+    let sink: SmtpSink | null = null;
+
+    afterEach(async () => {
+      await sink?.close();
+      sink = null;
+    });
+
+    test('delivers a message to the sink', async () => {
+      sink = await startSmtpSink();
+
+      const messageId = await sendMail(
+        // The sink has no STARTTLS
+        { host: '127.0.0.1', port: sink.port, secure: false, user: 'eywa', password: 'secret', requireTls: false, from: 'Eywa <alerts@eywa.test>' },
+        { to: 'Manager <manager@hotel.test>', subject: 'Réservations en hausse', text: 'Bonjour,\nTout va bien.' }
+      );
+
+      expect(messageId).toMatch(/^<.+@localhost>$/);
+      expect(sink.commands[0]).toBe('EHLO localhost');
+      const auth = sink.commands.find(command => command.startsWith('AUTH PLAIN'))!;
+      expect(Buffer.from(auth.slice(11), 'base64').toString()).toBe('\u0000eywa\u0000secret');
+      expect(sink.messages).toHaveLength(1);
+      const [mail] = sink.messages;
+      expect(mail.from).toBe('alerts@eywa.test');
+      expect(mail.to).toEqual(['manager@hotel.test']);
+      expect(mail.data).toContain(`Message-ID: ${messageId}`);
+      expect(mail.data).toContain(`Subject: =?UTF-8?B?${Buffer.from('Réservations en hausse').toString('base64')}?=`);
+      expect(decodeBody(mail.data)).toBe('Bonjour,\nTout va bien.');
+    });
+
+    test('refuses to authenticate without TLS by default', async () => {
+      sink = await startSmtpSink();
+
+      const error = await sendMail(
+        { host: '127.0.0.1', port: sink.port, secure: false, user: 'eywa', password: 'secret', from: 'alerts@eywa.test' },
+        { to: 'manager@hotel.test', subject: 'x', text: 'x' }
+      ).catch(e => e);
+
+      expect(error).toBeInstanceOf(SmtpError);
+      expect(error).toMatchObject({ transient: false, message: expect.stringContaining('STARTTLS') });
+      expect(sink.commands.some(command => command.startsWith('AUTH'))).toBe(false);
+      expect(sink.messages).toHaveLength(0);
+    });
+
+    test('reports permanent and transient rejections', async () => {
+      sink = await startSmtpSink({ rejectRecipient: '550 5.1.1 No such user' });
+      const config = { host: '127.0.0.1', port: sink.port, secure: false, from: 'alerts@eywa.test' };
+
+      const permanent = await sendMail(config, { to: 'nobody@hotel.test', subject: 'x', text: 'x' }).catch(error => error);
+      expect(permanent).toBeInstanceOf(SmtpError);
+      expect(permanent).toMatchObject({ code: 550, transient: false });
+      expect(permanent.message).toContain('RCPT rejected');
+      await sink.close();
+
+      sink = await startSmtpSink({ rejectRecipient: '451 4.3.0 Try again later' });
+      const transient = await sendMail({ ...config, port: sink.port }, { to: 'nobody@hotel.test', subject: 'x', text: 'x' }).catch(error => error);
+      expect(transient).toMatchObject({ code: 451, transient: true });
+      expect(sink.messages).toHaveLength(0);
+    });
+
+    test('treats an unreachable server as transient', async () => {
+      sink = await startSmtpSink();
+      const port = sink.port;
+      await sink.close();
+      sink = null;
+
+      await expect(sendMail({ host: '127.0.0.1', port, secure: false, from: 'alerts@eywa.test' }, { to: 'a@b.test', subject: 'x', text: 'x' }))
+        .rejects.toMatchObject({ transient: true });
+    });
+
+    test('the transport maps SMTP rejections to transport errors', async () => {
+      sink = await startSmtpSink({ rejectRecipient: '550 No such user' });
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: sink.port, secure: false, from: 'alerts@eywa.test' });
+
+      const error = await transport.send({ address: 'nobody@hotel.test' }, message).catch(e => e);
+      expect(error).toBeInstanceOf(TransportError);
+      expect(error.retryable).toBe(false);
+    });
+
+    test('the transport sends the formatted notification', async () => {
+      sink = await startSmtpSink();
+      const transport = new SmtpTransport({ host: '127.0.0.1', port: sink.port, secure: false, from: 'alerts@eywa.test' });
+
+      const result = await transport.send({ address: 'manager@hotel.test' }, message);
+
+      expect(result.externalId).toMatch(/^<.+>$/);
+      expect(sink.messages[0].data).toContain('Subject: [Hotel Lumen] Eywa Score dropped by 0.50 points');
+      expect(decodeBody(sink.messages[0].data)).toBe(formatText(message));
+    });
+
+    test('keeps long bodies in short lines', () => {
+      const built = buildMessage('a@b.test', { to: 'c@d.test', subject: 'x', text: 'x'.repeat(500) }, 'eywa.test');
+      expect(built.split('\r\n').every(line => line.length <= 998)).toBe(true);
+    });
+  });
+
+  describe('Telegram', () => {
+    let fake: HttpFake | null = null;
+
+    afterEach(async () => {
+      await fake?.close();
+      fake = null;
+    });
+
+    test('pushes the message through the bot API', async () => {
+      fake = await startHttpFake(200, { ok: true, result: { message_id: 42 } });
+
+      const result = await new TelegramTransport('123:abc', fake.url).send({ address: '-100200' }, message);
+
+      expect(result.externalId).toBe('42');
+      expect(fake.requests[0].path).toBe('/bot123:abc/sendMessage');
+      expect(JSON.parse(fake.requests[0].body)).toMatchObject({ chat_id: '-100200', text: formatText(message) });
+    });
+
+    test('retries rate limits but not unknown chats', async () => {
+      fake = await startHttpFake(429, { ok: false, description: 'Too Many Requests' });
+      await expect(new TelegramTransport('t', fake.url).send({ address: '1' }, message)).rejects.toMatchObject({ retryable: true });
+      await fake.close();
+
+      fake = await startHttpFake(400, { ok: false, description: 'Bad Request: chat not found' });
+      const error = await new TelegramTransport('t', fake.url).send({ address: '1' }, message).catch(e => e);
+      expect(error).toMatchObject({ retryable: false });
+      expect(error.message).toContain('chat not found');
+    });
+  });
+
+  describe('Webhook', () => {
+    let fake: HttpFake | null = null;
+    // The fakes listen on loopback
+    const local = () => new WebhookTransport({ allowPrivateAddresses: true });
+
+    afterEach(async () => {
+      await fake?.close();
+      fake = null;
+    });
+
+    test('posts Slack-style JSON signed with the secret', async () => {
+      fake = await startHttpFake(200);
+
+      await local().send({ address: `${fake.url}/hooks/eywa`, secret: 'shh' }, message);
+
+      const [request] = fake.requests;
+      const body = JSON.parse(request.body);
+      expect(request.path).toBe('/hooks/eywa');
+      expect(body.text).toBe(formatText(message));
+      expect(body.notification).toMatchObject({ id: 'notification-1', severity: 'high', data: { drop: 0.5 } });
+      const expected = crypto.createHmac('sha256', 'shh').update(`${request.headers['x-eywa-timestamp']}.${request.body}`).digest('hex');
+      expect(request.headers['x-eywa-signature']).toBe(`sha256=${expected}`);
+    });
+
+    test('does not sign without a secret', async () => {
+      fake = await startHttpFake(200);
+      await local().send({ address: fake.url }, message);
+      expect(fake.requests[0].headers['x-eywa-signature']).toBeUndefined();
+    });
+
+    test('retries server errors but not client errors', async () => {
+      fake = await startHttpFake(503);
+      await expect(local().send({ address: fake.url }, message)).rejects.toMatchObject({ retryable: true });
+      await fake.close();
+
+      fake = await startHttpFake(404);
+      await expect(local().send({ address: fake.url }, message)).rejects.toMatchObject({ retryable: false });
+    });
+
+    test('does not echo the response body', async () => {
+      fake = await startHttpFake(500, { secret: 'internal-token' });
+      const error = await local().send({ address: fake.url }, message).catch(e => e);
+      expect(error.message).toBe('Webhook error: 500');
+    });
+
+    test('refuses hosts resolving to private addresses', async () => {
+      fake = await startHttpFake(200);
+      await expect(new WebhookTransport().send({ address: fake.url }, message))
+        .rejects.toMatchObject({ retryable: false, message: expect.stringContaining('private') });
+
+      const rebound = new WebhookTransport({ resolve: async () => ['93.184.216.34', '169.254.169.254'] });
+      await expect(rebound.validateAddress('https://hooks.example.test/T1')).rejects.toThrow('private or reserved');
+      await expect(new WebhookTransport({ resolve: async () => ['93.184.216.34'] }).validateAddress('https://hooks.example.test/T1'))
+        .resolves.toBeUndefined();
+      expect(fake.requests).toHaveLength(0);
+    });
+
+    test('classifies addresses', () => {
+      for (const address of ['127.0.0.1', '10.1.2.3', '172.20.0.1', '192.168.1.1', '169.254.169.254', '100.64.0.1', '0.0.0.0', '::1', 'fd00::1', 'fe80::1', '::ffff:127.0.0.1']) {
+        expect(isPublicAddress(address)).toBe(false);
+      }
+      for (const address of ['93.184.216.34', '8.8.8.8', '2606:4700::1111', '::ffff:8.8.8.8']) {
+        expect(isPublicAddress(address)).toBe(true);
+      }
+    });
+  });
+
+  describe('registry', () => {
+    const env = { ...process.env };
+
+    afterEach(() => {
+      process.env = { ...env };
+      unregisterNotificationTransport('email');
+    });
+
+    test('builds transports from the environment', () => {
+      delete process.env.SMTP_HOST;
+      delete process.env.TELEGRAM_BOT_TOKEN;
+      expect(getNotificationTransport('email')).toBeNull();
+      expect(getNotificationTransport('telegram')).toBeNull();
+      expect(getNotificationTransport('webhook')).toBeInstanceOf(WebhookTransport);
+
+      process.env.SMTP_HOST = 'smtp.eywa.test';
+      process.env.TELEGRAM_BOT_TOKEN = '123:abc';
+      expect(getNotificationTransport('email')).toBeInstanceOf(SmtpTransport);
+      expect(getNotificationTransport('telegram')).toBeInstanceOf(TelegramTransport);
+    });
+
+    test('reads SMTP settings with port defaults', () => {
+      expect(smtpConfigFromEnv({ SMTP_HOST: 'smtp.eywa.test', SMTP_SECURE: 'true' })).toMatchObject({ port: 465, secure: true });
+      expect(smtpConfigFromEnv({ SMTP_HOST: 'smtp.eywa.test', SMTP_PORT: '2525', SMTP_USER: 'u' })).toMatchObject({ port: 2525, secure: false, user: 'u' });
+      expect(smtpConfigFromEnv({ SMTP_HOST: 'smtp.eywa.test', SMTP_REQUIRE_TLS: 'false' })!.requireTls).toBe(false);
+    });
+
+    test('registered transports take precedence', () => {
+      const fake = { send: jest.fn() };
+      registerNotificationTransport('email', fake);
+      expect(getNotificationTransport('email')).toBe(fake);
+    });
+  });
+});
@@ -0,0 +1,200 @@
+/**
+ * Conformance tests for the shared PMS adapter contract
+ *
+ * Every adapter in ADAPTER_REGISTRY is replayed against recorded API
+ * responses (fixtures/pms/<slug>.json) and must return data that satisfies
+ * shared/pms-contract.ts. Fixture format:
+ *   config     - constructor config (baseUrl points at https://fixture.test)
+ *   responses  - "<METHOD> <pathname>" -> recorded JSON body
+ *   expected   - mapped configuration and first reservation
+ */
+
+import fs from 'fs';
+import path from 'path';
+import * as adapters from '../../../src/adapters/index';
+import { ADAPTER_REGISTRY, AdapterSlug } from '../../../src/adapters/index';
+import {
+  IPMSAdapter,
+  PMS_ADAPTER_METHODS,
+  HotelConfiguration,
+  Reservation,
+  CORE_READS,
+  CAPABILITY_METHODS,
+  capabilitiesOf,
+  canCreateReservations,
+  canModifyReservations,
+  canCancelReservations,
+  canUpdateAri,
+  canLookupReservations,
+} from '../../../shared/pms-contract';
+
+interface AdapterFixture {
+  config: Record<string, unknown>;
+  responses: Record<string, unknown>;
+  expected: {
+    configuration: HotelConfiguration;
+    reservation: Reservation;
+  };
+}
+
+const FIXTURE_DIR = path.join(__dirname, 'fixtures', 'pms');
+const AVAILABILITY_PARAMS = { startDate: '2024-03-01', endDate: '2024-03-03' };
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}/;
+const CURRENCY_PATTERN = /^[A-Z]{3}$/;
+
+function loadFixture(slug: AdapterSlug): AdapterFixture {
+  return JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, `${slug}.json`), 'utf8'));
+}
+
+function buildAdapter(slug: AdapterSlug, fixture: AdapterFixture): IPMSAdapter {
+  const AdapterClass = (adapters as unknown as Record<string, new (config: unknown) => IPMSAdapter>)[
+    ADAPTER_REGISTRY[slug]
+  ];
+  return new AdapterClass(fixture.config);
+}
+
+// Replays recorded responses; unrecorded requests fail loudly
+function replay(fixture: AdapterFixture, unrecorded: string[]) {
+  return async (input: string | URL | Request, init?: RequestInit): Promise<Response> => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const key = `${(init?.method || 'GET').toUpperCase()} ${url.pathname}`;
+
+    if (!(key in fixture.responses)) {
+      unrecorded.push(key);
+      return new Response(JSON.stringify({ message: `No fixture for ${key}` }), { status: 404 });
+    }
+
+    return new Response(JSON.stringify(fixture.responses[key]), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  };
+}
+
+function expectNonEmptyString(value: unknown) {
+  expect(typeof value).toBe('string');
+  expect((value as string).length).toBeGreaterThan(0);
+}
+
+function expectAmount(value: unknown) {
+  expect(typeof value).toBe('number');
+  expect(Number.isFinite(value)).toBe(true);
+  expect(value as number).toBeGreaterThanOrEqual(0);
+}
+
+describe.each(Object.keys(ADAPTER_REGISTRY) as AdapterSlug[])('%s adapter conformance', (slug) => {
+  const fixture = loadFixture(slug);
+  let adapter: IPMSAdapter;
+  let unrecorded: string[];
+  let fetchSpy: jest.SpyInstance;
+
+  beforeEach(() => {
+    unrecorded = [];
+    fetchSpy = jest.spyOn(global, 'fetch').mockImplementation(replay(fixture, unrecorded) as typeof fetch);
+    adapter = buildAdapter(slug, fixture);
+  });
+
+  afterEach(() => {
+    fetchSpy.mockRestore();
+    expect(unrecorded).toEqual([]);
+  });
+
+  test('implements every contract method', () => {
+    expect(adapter.name).toBe(adapters.ADAPTER_MARKET_INFO[slug].name);
+    for (const method of PMS_ADAPTER_METHODS) {
+      expect(typeof adapter[method]).toBe('function');
+    }
+  });
+
+  test('declares a capability manifest matching its methods', () => {
+    const manifest = capabilitiesOf(adapter);
+
+    expect(manifest).toBeDefined();
+    expect(manifest!.reads).toEqual(expect.arrayContaining(CORE_READS));
+    for (const capability of [...manifest!.reads, ...manifest!.writes]) {
+      expect(typeof (adapter as unknown as Record<string, unknown>)[CAPABILITY_METHODS[capability]]).toBe('function');
+    }
+    expect(manifest!.writes.includes('createReservation')).toBe(canCreateReservations(adapter));
+    expect(manifest!.writes.includes('modifyReservation')).toBe(canModifyReservations(adapter));
+    expect(manifest!.writes.includes('cancelReservation')).toBe(canCancelReservations(adapter));
+    expect(manifest!.writes.includes('ari')).toBe(canUpdateAri(adapter));
+    expect(manifest!.reads.includes('reservationLookup')).toBe(canLookupReservations(adapter));
+  });
+
+  test('authenticate resolves to a token', async () => {
+    expectNonEmptyString(await adapter.authenticate());
+  });
+
+  test('getConfiguration maps the property', async () => {
+    const config = await adapter.getConfiguration();
+
+    expect(config).toEqual(fixture.expected.configuration);
+    expectNonEmptyString(config.id);
+    expectNonEmptyString(config.name);
+    expectNonEmptyString(config.timezone);
+    expect(config.currency).toMatch(CURRENCY_PATTERN);
+  });
+
+  test('getAvailability returns dated inventory', async () => {
+    const availability = await adapter.getAvailability(AVAILABILITY_PARAMS);
+
+    expect(availability.length).toBeGreaterThan(0);
+    for (const day of availability) {
+      expect(day.date).toMatch(DATE_PATTERN);
+      expectNonEmptyString(day.roomTypeId);
+      expect(Number.isInteger(day.available)).toBe(true);
+      expectAmount(day.rate);
+    }
+  });
+
+  test('getReservations maps reservations', async () => {
+    const reservations = await adapter.getReservations(AVAILABILITY_PARAMS);
+
+    expect(reservations.length).toBeGreaterThan(0);
+    expect(reservations[0]).toEqual(fixture.expected.reservation);
+    for (const reservation of reservations) {
+      expectNonEmptyString(reservation.id);
+      expectNonEmptyString(reservation.guestName);
+      expectNonEmptyString(reservation.status);
+      expect(reservation.checkIn).toMatch(DATE_PATTERN);
+      expect(reservation.checkOut).toMatch(DATE_PATTERN);
+      expectAmount(reservation.totalAmount);
+      expect(reservation.currency).toMatch(CURRENCY_PATTERN);
+    }
+  });
+
+  test('getReservations works without parameters', async () => {
+    expect(Array.isArray(await adapter.getReservations())).toBe(true);
+  });
+
+  test('getRoomTypes returns bookable room types', async () => {
+    const roomTypes = await adapter.getRoomTypes();
+
+    expect(roomTypes.length).toBeGreaterThan(0);
+    for (const roomType of roomTypes) {
+      expectNonEmptyString(roomType.id);
+      expectNonEmptyString(roomType.name);
+      expect(roomType.capacity).toBeGreaterThan(0);
+    }
+  });
+
+  test('getRates returns well-formed rates', async () => {
+    const rates = await adapter.getRates();
+
+    expect(Array.isArray(rates)).toBe(true);
+    for (const rate of rates) {
+      expectNonEmptyString(rate.id);
+      expectNonEmptyString(rate.name);
+      expect(typeof rate.roomTypeId).toBe('string');
+      expectAmount(rate.price);
+      expect(rate.currency).toMatch(CURRENCY_PATTERN);
+    }
+  });
+});
+
+describe('fixture coverage', () => {
+  test('every registered adapter has a recorded fixture', () => {
+    const fixtures = fs.readdirSync(FIXTURE_DIR).map(file => path.basename(file, '.json')).sort();
+    expect(fixtures).toEqual(Object.keys(ADAPTER_REGISTRY).sort());
+  });
+});
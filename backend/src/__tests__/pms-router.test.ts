@@ -0,0 +1,339 @@
+/**
+ * Unit tests for PMS Router adapter factory and connection persistence
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+// The Turkish clients depend on axios; the router only needs constructible clients
+jest.mock('../adapters/elektraweb.js', () => ({
+  ElektrawebAdapter: jest.fn().mockImplementation(() => ({})),
+}));
+jest.mock('../adapters/hotelrunner.js', () => ({
+  HotelRunnerAdapter: jest.fn().mockImplementation(() => ({})),
+}));
+
+import {
+  createAdapter,
+  validateCredentials,
+  PMSRouter,
+  PMS_LIST,
+  ADAPTER_SPECS,
+  PMSType,
+  UnsupportedCapabilityError,
+} from '../services/pms-router.js';
+import { CORE_READS, capabilitiesOf } from '../../../shared/pms-contract';
+import { query } from '../utils/db.js';
+import * as vault from '../services/credential-vault.js';
+
+const mockQuery = query as jest.Mock;
+
+process.env.VAULT_MASTER_KEY = Buffer.alloc(32, 7).toString('base64');
+
+// Minimal valid credentials for every PMS
+const VALID_CREDENTIALS: Record<PMSType, Record<string, string>> = {
+  mews: { client_token: 'ct', access_token: 'at' },
+  cloudbeds: { access_token: 'at' },
+  apaleo: { client_id: 'id', client_secret: 'secret' },
+  opera: { client_id: 'id', client_secret: 'secret', enterprise_id: 'ent', hotel_id: 'h1' },
+  protel: { api_key: 'key', hotel_code: 'H1' },
+  guestline: { api_key: 'key', site_id: 'S1' },
+  roomraccoon: { api_key: 'key', property_id: 'p1' },
+  clockpms: { api_key: 'key', property_id: 'p1' },
+  hotelogix: { api_key: 'key', hotel_code: 'H1' },
+  ezee: { api_key: 'key', hotel_code: 'H1' },
+  littlehotelier: { api_key: 'key', property_id: 'p1' },
+  stayntouch: { client_id: 'id', client_secret: 'secret', hotel_id: 'h1' },
+  webrezpro: { api_key: 'key', property_code: 'P1' },
+  inforhms: { client_id: 'id', client_secret: 'secret', tenant_id: 't1', hotel_id: 'h1' },
+  hostaway: { client_id: 'id', client_secret: 'secret' },
+  beds24: { api_key: 'key' },
+  guesty: { client_id: 'id', client_secret: 'secret' },
+  elektraweb: { api_key: 'key', hotel_code: 'H1' },
+  hotelrunner: { api_key: 'key', property_id: 'p1' },
+};
+
+const EXPECTED_NAMES: Record<PMSType, string> = {
+  mews: 'Mews',
+  cloudbeds: 'Cloudbeds',
+  apaleo: 'Apaleo',
+  opera: 'Opera Cloud',
+  protel: 'Protel',
+  guestline: 'Guestline',
+  roomraccoon: 'RoomRaccoon',
+  clockpms: 'Clock PMS',
+  hotelogix: 'Hotelogix',
+  ezee: 'eZee',
+  littlehotelier: 'Little Hotelier',
+  stayntouch: 'StayNTouch',
+  webrezpro: 'WebRezPro',
+  inforhms: 'Infor HMS',
+  hostaway: 'Hostaway',
+  beds24: 'Beds24',
+  guesty: 'Guesty',
+  elektraweb: 'Elektraweb',
+  hotelrunner: 'HotelRunner',
+};
+
+describe('PMS Router', () => {
+  describe('ADAPTER_SPECS', () => {
+    test('declares a spec for every PMS in PMS_LIST', () => {
+      for (const pms of PMS_LIST) {
+        expect(ADAPTER_SPECS[pms.type]).toBeDefined();
+      }
+    });
+  });
+
+  describe('PMS_LIST', () => {
+    test('publishes the capability manifest of every adapter', () => {
+      for (const pms of PMS_LIST) {
+        expect(pms.capabilities.reads).toEqual(expect.arrayContaining(CORE_READS));
+        const adapter = createAdapter(pms.type, VALID_CREDENTIALS[pms.type], 'production');
+        expect(capabilitiesOf(adapter)).toBe(pms.capabilities);
+      }
+    });
+
+    test('lists reservation writes for Apaleo, Mews, Opera and Elektraweb', () => {
+      const writers = PMS_LIST.filter(p => p.capabilities.writes.includes('createReservation')).map(p => p.type);
+      expect(writers.sort()).toEqual(['apaleo', 'elektraweb', 'mews', 'opera']);
+    });
+  });
+
+  describe('validateCredentials', () => {
+    test('returns no missing keys for valid credentials', () => {
+      for (const [pmsType, credentials] of Object.entries(VALID_CREDENTIALS)) {
+        expect(validateCredentials(pmsType as PMSType, credentials)).toEqual([]);
+      }
+    });
+
+    test('lists missing required keys', () => {
+      expect(validateCredentials('opera', { client_id: 'id' })).toEqual([
+        'client_secret',
+        'enterprise_id',
+        'hotel_id',
+      ]);
+    });
+
+    test('accepts camelCase keys', () => {
+      expect(validateCredentials('mews', { clientToken: 'ct', accessToken: 'at' })).toEqual([]);
+    });
+
+    test('treats empty values as missing', () => {
+      expect(validateCredentials('beds24', { api_key: '' })).toEqual(['api_key']);
+    });
+
+    test('requires one complete alternative group', () => {
+      expect(validateCredentials('cloudbeds', { username: 'u' })).toEqual([
+        'access_token | api_key | username+password',
+      ]);
+      expect(validateCredentials('cloudbeds', { username: 'u', password: 'p' })).toEqual([]);
+    });
+  });
+
+  describe('createAdapter', () => {
+    test('builds the real adapter for every PMS', () => {
+      for (const [pmsType, credentials] of Object.entries(VALID_CREDENTIALS)) {
+        const adapter = createAdapter(pmsType as PMSType, credentials, 'production');
+        expect(adapter.name).toBe(EXPECTED_NAMES[pmsType as PMSType]);
+        expect(typeof adapter.authenticate).toBe('function');
+        expect(typeof adapter.getReservations).toBe('function');
+      }
+    });
+
+    test('throws when credentials are missing', () => {
+      expect(() => createAdapter('apaleo', { client_id: 'id' })).toThrow(
+        'Missing Apaleo credentials: client_secret'
+      );
+    });
+
+    test('throws for unsupported PMS types', () => {
+      expect(() => createAdapter('unknown' as PMSType, {})).toThrow('Unsupported PMS type: unknown');
+    });
+
+    test('returns the stub adapter only in stub mode', async () => {
+      const adapter = createAdapter('mews', { hotelId: 'demo' }, 'stub');
+
+      expect(adapter.name).toBe('Mews');
+      const config = await adapter.getConfiguration();
+      expect(config.id).toBe('demo');
+      expect(config.name).toBe('Mews Hotel (Stub)');
+    });
+
+    test('does not fall back to demo credentials', () => {
+      expect(() => createAdapter('mews', {}, 'sandbox')).toThrow(/client_token, access_token/);
+    });
+  });
+
+  describe('PMSRouter', () => {
+    const connectionRow = {
+      id: 'conn-uuid',
+      hotel_id: 'hotel-1',
+      pms_type: 'apaleo',
+      environment: 'stub',
+      credentials: { propertyId: 'MUC' },
+      is_active: true,
+      created_at: new Date('2024-03-01'),
+      last_sync_at: null,
+      sync_status: 'pending',
+      sync_error: null,
+    };
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+    });
+
+    test('testConnection reports missing credentials without calling the PMS', async () => {
+      const router = new PMSRouter();
+      const fetchSpy = jest.spyOn(global, 'fetch');
+
+      const result = await router.testConnection('guesty', { client_id: 'id' });
+
+      expect(result.success).toBe(false);
+      expect(result.message).toBe('Missing Guesty credentials: client_secret');
+      expect(fetchSpy).not.toHaveBeenCalled();
+      fetchSpy.mockRestore();
+    });
+
+    test('registerConnection deactivates the previous connection and persists the new one', async () => {
+      const router = new PMSRouter();
+      mockQuery
+        .mockResolvedValueOnce({ rows: [], rowCount: 1 })
+        .mockResolvedValueOnce({ rows: [connectionRow] });
+
+      const connection = await router.registerConnection({
+        hotelId: 'hotel-1',
+        pmsType: 'apaleo',
+        credentials: { propertyId: 'MUC' },
+        environment: 'stub',
+        isActive: true,
+      });
+
+      expect(connection.id).toBe('conn-uuid');
+      expect(mockQuery.mock.calls[0][0]).toContain('SET is_active = false');
+      expect(mockQuery.mock.calls[1][0]).toContain('INSERT INTO pms_connections');
+      const params = mockQuery.mock.calls[1][1];
+      expect(params.slice(0, 3)).toEqual(['hotel-1', 'apaleo', 'stub']);
+      expect(params[3]).not.toContain('MUC');
+      expect(vault.decryptCredentials(JSON.parse(params[3]))).toEqual({ propertyId: 'MUC' });
+      // Webhook deliveries are matched on the plaintext property id
+      expect(params[5]).toBe('MUC');
+    });
+
+    test('decrypts stored credentials when loading a connection', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...connectionRow, credentials: vault.encryptCredentials({ propertyId: 'BER' }) }],
+      });
+
+      const connection = await router.getConnection('hotel-1');
+
+      expect(connection?.credentials).toEqual({ propertyId: 'BER' });
+    });
+
+    test('loads connections lazily and caches the adapter', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({ rows: [connectionRow] });
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      const rooms = await router.getRoomTypes('hotel-1');
+      await router.getRates('hotel-1');
+
+      expect(rooms[0].id).toBe('room_1');
+      const selects = mockQuery.mock.calls.filter(([sql]) => sql.includes('SELECT * FROM pms_connections'));
+      expect(selects).toHaveLength(1);
+    });
+
+    test('marks the connection synced after a successful call', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({ rows: [connectionRow] });
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+
+      await router.getConfiguration('hotel-1');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain("sync_status = 'synced'");
+      expect(params).toEqual(['conn-uuid']);
+      expect((await router.getConnection('hotel-1'))?.syncStatus).toBe('synced');
+    });
+
+    test('records the error when an adapter call fails', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({
+        rows: [{ ...connectionRow, pms_type: 'beds24', environment: 'production', credentials: { api_key: 'key' } }],
+      });
+      mockQuery.mockResolvedValue({ rows: [], rowCount: 1 });
+      const fetchSpy = jest.spyOn(global, 'fetch').mockRejectedValue(new Error('ECONNREFUSED'));
+
+      await expect(router.getConfiguration('hotel-1')).rejects.toThrow('ECONNREFUSED');
+
+      const [sql, params] = mockQuery.mock.calls[1];
+      expect(sql).toContain("sync_status = 'error'");
+      expect(params).toEqual(['conn-uuid', 'ECONNREFUSED']);
+      fetchSpy.mockRestore();
+    });
+
+    test('falls back to token columns for dashboard-created connections', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({
+        rows: [{
+          ...connectionRow,
+          pms_type: 'mews',
+          environment: 'sandbox',
+          credentials: null,
+          client_token: 'ct',
+          access_token: vault.encrypt('at'),
+        }],
+      });
+
+      const connection = await router.getConnection('hotel-1');
+
+      expect(connection?.credentials).toEqual({ client_token: 'ct', access_token: 'at' });
+    });
+
+    test('throws when the hotel has no connection', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({ rows: [] });
+
+      await expect(router.getRoomTypes('hotel-2')).rejects.toThrow(
+        'No PMS connection found for hotel: hotel-2'
+      );
+    });
+
+    test('getCapabilities returns the manifest of the connected adapter', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({ rows: [{ ...connectionRow, environment: 'production', credentials: { client_id: 'id', client_secret: 'secret' } }] });
+
+      const capabilities = await router.getCapabilities('hotel-1');
+
+      expect(capabilities.writes).toContain('ari');
+      expect(capabilities.ratePlanDepth).toBe('rate_plans_restrictions');
+    });
+
+    test('raises a typed error for unsupported capabilities without flagging the connection', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({ rows: [connectionRow] });
+
+      const error = await router.updateAri('hotel-1', [
+        { roomTypeId: 'room_1', startDate: '2024-03-01', endDate: '2024-03-01', rate: 100 },
+      ]).catch(e => e);
+
+      expect(error).toBeInstanceOf(UnsupportedCapabilityError);
+      expect(error.status).toBe(501);
+      expect(error.capability).toBe('ari');
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes("sync_status = 'error'"))).toBe(false);
+    });
+
+    test('removeConnection soft-deletes the active row', async () => {
+      const router = new PMSRouter();
+      mockQuery.mockResolvedValueOnce({ rows: [], rowCount: 1 });
+
+      const removed = await router.removeConnection('hotel-1');
+
+      expect(removed).toBe(true);
+      expect(mockQuery.mock.calls[0][0]).toContain('SET is_active = false');
+    });
+  });
+});
@@ -0,0 +1,284 @@
+/**
+ * Unit tests for inbound PMS webhooks (verification, inbox dedup, booking updates)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import crypto from 'crypto';
+import { receiveWebhook, retryFailedEvents, WebhookRequest } from '../services/pms-webhooks.js';
+import { bookingStatus, roomNights } from '../services/booking-store.js';
+import { pmsRouter, PMSConnection, Reservation } from '../services/pms-router.js';
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+
+const mockQuery = query as jest.Mock;
+
+const RESERVATION: Reservation = {
+  id: 'RES-1',
+  guestName: 'Ada Lovelace',
+  roomTypeId: 'DBL',
+  checkIn: '2024-03-01T14:00:00Z',
+  checkOut: '2024-03-04T10:00:00Z',
+  status: 'Confirmed',
+  totalAmount: 450,
+  currency: 'EUR',
+};
+
+function connection(pmsType: PMSConnection['pmsType'], webhookSecret: string): PMSConnection {
+  return {
+    id: 'conn-1',
+    hotelId: 'hotel-1',
+    pmsType,
+    credentials: { webhook_secret: webhookSecret },
+    environment: 'production',
+    isActive: true,
+    createdAt: new Date('2024-03-01'),
+  };
+}
+
+function request(body: unknown, extra: Partial<WebhookRequest> = {}): WebhookRequest {
+  return { headers: {}, query: {}, body, rawBody: Buffer.from(JSON.stringify(body)), ...extra };
+}
+
+// Inbox inserts succeed unless the event id was already stored
+function mockInbox(seenEventIds: string[] = []) {
+  mockQuery.mockImplementation(async (sql: string, params: any[]) => {
+    if (sql.includes('INSERT INTO pms_webhook_events')) {
+      return seenEventIds.includes(params[1]) ? { rows: [] } : { rows: [{ id: `inbox-${params[1]}` }] };
+    }
+    if (sql.includes('INSERT INTO bookings')) {
+      return { rows: [{ id: 'booking-1', created: true }] };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+function callsMatching(text: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(text));
+}
+
+describe('PMS webhooks', () => {
+  let findConnection: jest.SpyInstance;
+  let getReservation: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockInbox();
+    findConnection = jest.spyOn(pmsRouter, 'findWebhookConnection').mockResolvedValue(connection('apaleo', 'tok'));
+    getReservation = jest.spyOn(pmsRouter, 'getReservation').mockResolvedValue(RESERVATION);
+  });
+
+  afterEach(() => {
+    findConnection.mockRestore();
+    getReservation.mockRestore();
+  });
+
+  describe('Apaleo', () => {
+    const event = {
+      id: 'evt-1',
+      topic: 'Reservation',
+      type: 'changed',
+      propertyId: 'MUC',
+      data: { entityId: 'RES-1' },
+      timestamp: 1709300000,
+    };
+
+    test('stores the event and upserts the booking', async () => {
+      const result = await receiveWebhook('apaleo', request(event, { query: { token: 'tok' } }));
+
+      expect(result).toEqual({ received: 1, duplicates: 0, processed: 1, failed: 0 });
+      expect(findConnection).toHaveBeenCalledWith('apaleo', 'MUC');
+      expect(getReservation).toHaveBeenCalledWith('hotel-1', 'RES-1');
+
+      const [inbox] = callsMatching('INSERT INTO pms_webhook_events');
+      expect(inbox[1].slice(0, 5)).toEqual(['apaleo', 'evt-1@1709300000', 'hotel-1', 'reservation.updated', 'RES-1']);
+
+      const [booking] = callsMatching('INSERT INTO bookings');
+      expect(booking[0]).toContain('ON CONFLICT (hotel_id, pms_booking_id)');
+      expect(booking[1]).toEqual([
+        'hotel-1', 'RES-1', 'Ada Lovelace', '2024-03-01', '2024-03-04', 3, 'DBL', 450, 'confirmed', null, null, null, null,
+      ]);
+      expect(callsMatching("SET status = 'processed'")[0][1]).toEqual(['inbox-evt-1@1709300000']);
+    });
+
+    test('rejects a wrong URL token before storing anything', async () => {
+      await expect(receiveWebhook('apaleo', request(event, { query: { token: 'nope' } }))).rejects.toMatchObject({
+        status: 401,
+      });
+      expect(mockQuery).not.toHaveBeenCalled();
+    });
+
+    test('rejects deliveries for unknown accounts', async () => {
+      findConnection.mockResolvedValueOnce(undefined);
+
+      await expect(receiveWebhook('apaleo', request(event, { query: { token: 'tok' } }))).rejects.toBeInstanceOf(
+        ServiceError
+      );
+    });
+
+    test('drops redelivered events', async () => {
+      mockInbox(['evt-1@1709300000']);
+
+      const result = await receiveWebhook('apaleo', request(event, { query: { token: 'tok' } }));
+
+      expect(result).toEqual({ received: 1, duplicates: 1, processed: 0, failed: 0 });
+      expect(getReservation).not.toHaveBeenCalled();
+    });
+
+    test('cancels without re-reading the reservation', async () => {
+      await receiveWebhook('apaleo', request({ ...event, type: 'canceled' }, { query: { token: 'tok' } }));
+
+      expect(getReservation).not.toHaveBeenCalled();
+      expect(callsMatching("SET booking_status = 'cancelled'")[0][1]).toEqual(['hotel-1', 'RES-1']);
+    });
+
+    test('keeps failed events in the inbox for retry', async () => {
+      getReservation.mockRejectedValueOnce(new Error('Apaleo API error (503)'));
+
+      const result = await receiveWebhook('apaleo', request(event, { query: { token: 'tok' } }));
+
+      expect(result.failed).toBe(1);
+      expect(callsMatching("SET status = 'failed'")[0][1]).toEqual(['inbox-evt-1@1709300000', 'Apaleo API error (503)']);
+    });
+  });
+
+  describe('Guesty', () => {
+    const secret = `whsec_${Buffer.from('guesty-secret').toString('base64')}`;
+    const body = { event: 'reservation.updated', reservation: { _id: 'RES-1', accountId: 'acc-1', status: 'canceled' } };
+
+    function signed(timestamp: number, signingSecret = secret): WebhookRequest {
+      const raw = JSON.stringify(body);
+      const key = Buffer.from(signingSecret.replace(/^whsec_/, ''), 'base64');
+      const signature = crypto.createHmac('sha256', key).update(`msg_1.${timestamp}.${raw}`).digest('base64');
+      return request(body, {
+        headers: { 'svix-id': 'msg_1', 'svix-timestamp': String(timestamp), 'svix-signature': `v1,${signature}` },
+      });
+    }
+
+    beforeEach(() => {
+      findConnection.mockResolvedValue(connection('guesty', secret));
+    });
+
+    test('verifies the Svix signature and maps cancelled updates', async () => {
+      const result = await receiveWebhook('guesty', signed(Math.floor(Date.now() / 1000)));
+
+      expect(result.processed).toBe(1);
+      expect(findConnection).toHaveBeenCalledWith('guesty', 'acc-1');
+      const [inbox] = callsMatching('INSERT INTO pms_webhook_events');
+      expect(inbox[1].slice(0, 4)).toEqual(['guesty', 'msg_1', 'hotel-1', 'reservation.cancelled']);
+    });
+
+    test('rejects stale or forged signatures', async () => {
+      const stale = Math.floor(Date.now() / 1000) - 3600;
+      const forged = `whsec_${Buffer.from('other').toString('base64')}`;
+
+      await expect(receiveWebhook('guesty', signed(stale))).rejects.toMatchObject({ status: 401 });
+      await expect(receiveWebhook('guesty', signed(Math.floor(Date.now() / 1000), forged))).rejects.toMatchObject({
+        status: 401,
+      });
+    });
+  });
+
+  test('Hostaway deliveries use basic auth', async () => {
+    findConnection.mockResolvedValue(connection('hostaway', 'eywa:pa55'));
+    const body = { event: 'reservation.created', accountId: 42, data: { id: 9001, status: 'new' } };
+
+    const result = await receiveWebhook('hostaway', request(body, {
+      headers: { authorization: `Basic ${Buffer.from('eywa:pa55').toString('base64')}` },
+    }));
+
+    expect(result.processed).toBe(1);
+    expect(findConnection).toHaveBeenCalledWith('hostaway', '42');
+    expect(getReservation).toHaveBeenCalledWith('hotel-1', '9001');
+  });
+
+  test('Mews batches get one inbox row per event', async () => {
+    findConnection.mockResolvedValue(connection('mews', 'tok'));
+    const body = {
+      EnterpriseId: 'ent-1',
+      Events: [
+        { Discriminator: 'ServiceOrderUpdated', Value: { Id: 'RES-1' } },
+        { Discriminator: 'MessageAdded', Value: { Id: 'msg-1' } },
+        { Discriminator: 'ServiceOrderUpdated', Value: { Id: 'RES-2' } },
+      ],
+    };
+
+    const result = await receiveWebhook('mews', request(body, { query: { token: 'tok' } }));
+
+    expect(result.received).toBe(2);
+    const eventIds = callsMatching('INSERT INTO pms_webhook_events').map(([, params]) => params[1]);
+    expect(new Set(eventIds).size).toBe(2);
+    expect(getReservation.mock.calls.map(([, id]) => id)).toEqual(['RES-1', 'RES-2']);
+  });
+
+  test('Mews redeliveries are dropped', async () => {
+    findConnection.mockResolvedValue(connection('mews', 'tok'));
+    const body = { EnterpriseId: 'ent-1', Events: [{ Discriminator: 'ServiceOrderUpdated', Value: { Id: 'RES-1' } }] };
+
+    await receiveWebhook('mews', request(body, { query: { token: 'tok' } }));
+    const [[, [, eventId]]] = callsMatching('INSERT INTO pms_webhook_events');
+    mockInbox([eventId]);
+    const result = await receiveWebhook('mews', request(body, { query: { token: 'tok' } }));
+
+    expect(eventId).toMatch(/^ServiceOrderUpdated:RES-1@sha256:[0-9a-f]{64}$/);
+    expect(callsMatching('INSERT INTO pms_webhook_events')[1][1][1]).toBe(eventId);
+    expect(result).toEqual({ received: 1, duplicates: 1, processed: 0, failed: 0 });
+    expect(getReservation).toHaveBeenCalledTimes(1);
+  });
+
+  test('Cloudbeds events are keyed by reservation and event time', async () => {
+    findConnection.mockResolvedValue(connection('cloudbeds', 'tok'));
+    const cancelled = { event: 'reservation/deleted', propertyID: 'p-1', reservationID: 'R-7', timestamp: 1709300000 };
+
+    await receiveWebhook('cloudbeds', request(cancelled, { query: { token: 'tok' } }));
+    await receiveWebhook('cloudbeds', request({ ...cancelled, timestamp: 1709400000 }, { query: { token: 'tok' } }));
+
+    expect(callsMatching('INSERT INTO pms_webhook_events').map(([, params]) => params[1])).toEqual([
+      'reservation/deleted:R-7@1709300000',
+      'reservation/deleted:R-7@1709400000',
+    ]);
+  });
+
+  test('retryFailedEvents re-applies stored events', async () => {
+    mockQuery.mockImplementation(async (sql: string) => {
+      if (sql.includes('SELECT * FROM pms_webhook_events')) {
+        return {
+          rows: [{
+            id: 'inbox-1',
+            pms_type: 'apaleo',
+            event_id: 'evt-1',
+            hotel_id: 'hotel-1',
+            event_type: 'reservation.created',
+            reservation_id: 'RES-1',
+            payload: {},
+          }],
+        };
+      }
+      if (sql.includes('INSERT INTO bookings')) return { rows: [{ id: 'booking-1', created: false }] };
+      return { rows: [], rowCount: 1 };
+    });
+
+    const result = await retryFailedEvents();
+
+    expect(result).toEqual({ received: 1, duplicates: 0, processed: 1, failed: 0 });
+    expect(getReservation).toHaveBeenCalledWith('hotel-1', 'RES-1');
+  });
+
+  describe('booking mapping', () => {
+    test('maps PMS statuses to booking statuses', () => {
+      expect(bookingStatus('Canceled')).toBe('cancelled');
+      expect(bookingStatus('no_show')).toBe('no_show');
+      expect(bookingStatus('checked_out')).toBe('completed');
+      expect(bookingStatus('Started')).toBe('confirmed');
+    });
+
+    test('counts nights on calendar dates', () => {
+      expect(roomNights('2024-03-01T14:00:00Z', '2024-03-04T10:00:00Z')).toBe(3);
+      expect(roomNights('2024-03-01', '2024-03-01')).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,179 @@
+/**
+ * Unit tests for the incremental reservation sync into bookings
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import { syncHotelReservations, runReservationSync } from '../services/reservation-sync.js';
+import type { ChannelRow } from '../services/channel-attribution.js';
+import { pmsRouter, PMSConnection, Reservation } from '../services/pms-router.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const CHANNELS: ChannelRow[] = [
+  { id: 'ch-direct', name: 'Direct', slug: 'direct', default_commission: '0.00' },
+  { id: 'ch-booking', name: 'Booking.com', slug: 'booking', default_commission: '15.00' },
+  { id: 'ch-hotels', name: 'Hotels.com', slug: 'hotels-com', default_commission: '18.00' },
+];
+
+const CONNECTION: PMSConnection = {
+  id: 'conn-1',
+  hotelId: 'hotel-1',
+  pmsType: 'apaleo',
+  credentials: {},
+  environment: 'production',
+  isActive: true,
+  createdAt: new Date('2024-03-01'),
+};
+
+function reservation(overrides: Partial<Reservation> = {}): Reservation {
+  return {
+    id: 'RES-1',
+    guestName: 'Ada Lovelace',
+    roomTypeId: 'DBL',
+    checkIn: '2024-03-01',
+    checkOut: '2024-03-03',
+    status: 'confirmed',
+    totalAmount: 200,
+    currency: 'EUR',
+    source: 'BookingCom',
+    confirmationNumber: 'BK-1001',
+    ...overrides,
+  };
+}
+
+// Booking inserts report created unless the PMS id is already stored
+function mockDb(existing: string[] = []) {
+  mockQuery.mockImplementation(async (sql: string, params: any[]) => {
+    if (sql.includes('FROM channels')) return { rows: CHANNELS };
+    if (sql.includes('INSERT INTO bookings')) {
+      return { rows: [{ id: `booking-${params[1]}`, created: !existing.includes(params[1]) }] };
+    }
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+function bookingWrites(): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO bookings')).map(([, params]) => params);
+}
+
+describe('Reservation sync', () => {
+  let getConnection: jest.SpyInstance;
+  let getReservations: jest.SpyInstance;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+    getConnection = jest.spyOn(pmsRouter, 'getConnection').mockResolvedValue({ ...CONNECTION });
+    getReservations = jest.spyOn(pmsRouter, 'getReservations').mockResolvedValue([reservation()]);
+  });
+
+  afterEach(() => {
+    getConnection.mockRestore();
+    getReservations.mockRestore();
+  });
+
+  describe('syncHotelReservations', () => {
+    test('first sync reads the stay window and stores the watermark', async () => {
+      const result = await syncHotelReservations('hotel-1');
+
+      const params = getReservations.mock.calls[0][1];
+      expect(params.modifiedSince).toBeUndefined();
+      expect(params.startDate).toMatch(/^\d{4}-\d{2}-\d{2}$/);
+      expect(params.endDate > params.startDate).toBe(true);
+
+      expect(result).toEqual({ hotelId: 'hotel-1', fetched: 1, created: 1, updated: 0, skipped: 0 });
+      const watermark = mockQuery.mock.calls.find(([sql]) => sql.includes('reservations_synced_at'));
+      expect(watermark![1][0]).toBe('conn-1');
+      expect(watermark![1][1]).toBeInstanceOf(Date);
+    });
+
+    test('later syncs ask for reservations modified since the watermark', async () => {
+      getConnection.mockResolvedValue({ ...CONNECTION, reservationsSyncedAt: new Date('2024-03-10T12:00:00Z') });
+
+      await syncHotelReservations('hotel-1');
+
+      // Five minutes of overlap absorbs PMS clock skew
+      expect(getReservations.mock.calls[0][1].modifiedSince).toBe('2024-03-10T11:55:00.000Z');
+    });
+
+    test('writes channel, commission, room nights and the confirmation number', async () => {
+      await syncHotelReservations('hotel-1');
+
+      const [params] = bookingWrites();
+      expect(params.slice(0, 9)).toEqual([
+        'hotel-1', 'RES-1', 'Ada Lovelace', '2024-03-01', '2024-03-03', 2, 'DBL', 200, 'confirmed',
+      ]);
+      // commission rate, channel, raw source, confirmation number
+      expect(params.slice(9)).toEqual([15, 'ch-booking', 'BookingCom', 'BK-1001']);
+      expect(mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO bookings'))![0]).toContain(
+        'confirmation_number = COALESCE(EXCLUDED.confirmation_number, bookings.confirmation_number)'
+      );
+    });
+
+    test('updates date changes and cancellations in place', async () => {
+      mockDb(['RES-1']);
+      getReservations.mockResolvedValue([
+        reservation({ checkIn: '2024-03-05', checkOut: '2024-03-08' }),
+        reservation({ id: 'RES-2', status: 'Canceled' }),
+      ]);
+
+      const result = await syncHotelReservations('hotel-1');
+
+      expect(result).toMatchObject({ created: 1, updated: 1 });
+      const [moved, cancelled] = bookingWrites();
+      expect(moved.slice(1, 6)).toEqual(['RES-1', 'Ada Lovelace', '2024-03-05', '2024-03-08', 3]);
+      expect(cancelled[8]).toBe('cancelled');
+      expect(mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO bookings'))![0]).toContain(
+        'ON CONFLICT (hotel_id, pms_booking_id)'
+      );
+    });
+
+    test('links AI sessions to newly stored bookings only', async () => {
+      mockDb(['RES-1']);
+      getReservations.mockResolvedValue([reservation(), reservation({ id: 'RES-2' })]);
+
+      await syncHotelReservations('hotel-1');
+
+      const links = mockQuery.mock.calls.filter(([sql]) => sql.includes('UPDATE ai_sessions'));
+      expect(links.map(([, params]) => params)).toEqual([['hotel-1', 'booking-RES-2']]);
+    });
+
+    test('skips reservations without an id or stay dates', async () => {
+      getReservations.mockResolvedValue([reservation({ id: '' }), reservation({ checkOut: '' })]);
+
+      const result = await syncHotelReservations('hotel-1');
+
+      expect(result.skipped).toBe(2);
+      expect(bookingWrites()).toHaveLength(0);
+    });
+
+    test('keeps the watermark when the PMS call fails', async () => {
+      getReservations.mockRejectedValue(new Error('PMS unavailable'));
+
+      await expect(syncHotelReservations('hotel-1')).rejects.toThrow('PMS unavailable');
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('reservations_synced_at'))).toBe(false);
+    });
+  });
+
+  test('runReservationSync continues past failing hotels', async () => {
+    const listConnections = jest.spyOn(pmsRouter, 'listConnections').mockResolvedValue([
+      CONNECTION,
+      { ...CONNECTION, id: 'conn-2', hotelId: 'hotel-2' },
+    ]);
+    getReservations.mockRejectedValueOnce(new Error('Token expired')).mockResolvedValueOnce([reservation()]);
+
+    const result = await runReservationSync();
+
+    expect(result.hotelsTotal).toBe(2);
+    expect(result.hotelsFailed).toBe(1);
+    expect(result.results[0].error).toBe('Token expired');
+    expect(result.results[1].created).toBe(1);
+    listConnections.mockRestore();
+  });
+});
@@ -0,0 +1,394 @@
+/**
+ * Unit tests for reservation write capabilities (adapters + router idempotency)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import { ApaleoAdapter } from '../../../src/adapters/apaleo';
+import { MewsAdapter } from '../../../src/adapters/mews';
+import { OperaAdapter } from '../../../src/adapters/opera';
+import { ElektrawebPMSAdapter } from '../adapters/elektraweb-pms.js';
+import type { ElektrawebAdapter } from '../adapters/elektraweb.js';
+import { PMSRouter, IdempotencyConflictError, UnsupportedCapabilityError } from '../services/pms-router.js';
+import { query } from '../utils/db.js';
+import type { CreateReservationInput } from '../../../shared/pms-contract';
+
+const mockQuery = query as jest.Mock;
+
+const BASE_URL = 'https://fixture.test';
+
+const BOOKING: CreateReservationInput = {
+  roomTypeId: 'DBL',
+  ratePlanId: 'BAR',
+  checkIn: '2024-03-01',
+  checkOut: '2024-03-03',
+  adults: 2,
+  guest: { firstName: 'Ada', lastName: 'Lovelace', email: 'ada@example.com' },
+  totalAmount: 300,
+  currency: 'EUR',
+};
+
+interface RecordedRequest {
+  method: string;
+  path: string;
+  headers: Record<string, string>;
+  body: any;
+}
+
+// Answers requests from a "<METHOD> <pathname>" map and records them
+function mockFetch(responses: Record<string, unknown>): { requests: RecordedRequest[]; spy: jest.SpyInstance } {
+  const requests: RecordedRequest[] = [];
+  const spy = jest.spyOn(global, 'fetch').mockImplementation((async (input: string, init?: RequestInit) => {
+    const url = new URL(input);
+    const method = (init?.method || 'GET').toUpperCase();
+    const key = `${method} ${url.pathname}`;
+    requests.push({
+      method,
+      path: url.pathname,
+      headers: (init?.headers || {}) as Record<string, string>,
+      body: typeof init?.body === 'string' && init.body.startsWith('{') ? JSON.parse(init.body) : init?.body,
+    });
+
+    if (!(key in responses)) {
+      return new Response(JSON.stringify({ message: `No mock for ${key}` }), { status: 404 });
+    }
+    return new Response(JSON.stringify(responses[key]), { status: 200 });
+  }) as typeof fetch);
+  return { requests, spy };
+}
+
+describe('Reservation writes', () => {
+  let spy: jest.SpyInstance | undefined;
+
+  afterEach(() => {
+    spy?.mockRestore();
+    spy = undefined;
+  });
+
+  describe('ApaleoAdapter', () => {
+    const apaleo = () => new ApaleoAdapter({
+      clientId: 'id',
+      clientSecret: 'secret',
+      baseUrl: BASE_URL,
+      tokenUrl: `${BASE_URL}/connect/token`,
+      propertyId: 'MUC',
+    });
+    const token = { access_token: 'token', token_type: 'Bearer', expires_in: 3600 };
+
+    test('creates a booking with the idempotency key', async () => {
+      const mock = mockFetch({
+        'POST /connect/token': token,
+        'POST /booking/v1/bookings': { id: 'BOOK-1', reservationIds: [{ id: 'BOOK-1-1' }] },
+      });
+      spy = mock.spy;
+
+      const reservation = await apaleo().createReservation(BOOKING, { idempotencyKey: 'key-1' });
+
+      const booking = mock.requests.find(r => r.path === '/booking/v1/bookings')!;
+      expect(booking.headers['Idempotency-Key']).toBe('key-1');
+      expect(booking.body.reservations[0]).toMatchObject({
+        arrival: '2024-03-01',
+        departure: '2024-03-03',
+        adults: 2,
+        primaryGuest: { firstName: 'Ada', lastName: 'Lovelace' },
+      });
+      expect(booking.body.reservations[0].timeSlices).toEqual([{ ratePlanId: 'BAR' }, { ratePlanId: 'BAR' }]);
+      expect(reservation.id).toBe('BOOK-1-1');
+      expect(reservation.guestName).toBe('Ada Lovelace');
+    });
+
+    test('rejects children without ages', async () => {
+      await expect(
+        apaleo().createReservation({ ...BOOKING, children: 1 }, { idempotencyKey: 'key-2' })
+      ).rejects.toThrow('Apaleo reservations require childrenAges for every child.');
+    });
+
+    test('cancels through the reservation actions API', async () => {
+      const mock = mockFetch({
+        'POST /connect/token': token,
+        'PUT /booking/v1/reservation-actions/BOOK-1-1/cancel': {},
+      });
+      spy = mock.spy;
+
+      await apaleo().cancelReservation('BOOK-1-1', { idempotencyKey: 'key-3' });
+
+      const cancel = mock.requests.find(r => r.path.endsWith('/cancel'))!;
+      expect(cancel.method).toBe('PUT');
+      expect(cancel.headers['Idempotency-Key']).toBe('key-3');
+    });
+  });
+
+  describe('MewsAdapter', () => {
+    test('adds a customer and a reservation identified by the key', async () => {
+      const mock = mockFetch({
+        'POST /services/getAll': { Services: [{ Id: 'svc-1', Data: { Discriminator: 'Bookable' } }] },
+        'POST /customers/add': { Id: 'cust-1' },
+        'POST /reservations/add': {
+          Reservations: [{
+            Identifier: 'key-1',
+            Reservation: { Id: 'res-1', RequestedCategoryId: 'DBL', StartUtc: '2024-03-01', EndUtc: '2024-03-03', State: 'Confirmed' },
+          }],
+        },
+      });
+      spy = mock.spy;
+
+      const reservation = await new MewsAdapter({ baseUrl: BASE_URL }).createReservation(BOOKING, { idempotencyKey: 'key-1' });
+
+      const add = mock.requests.find(r => r.path === '/reservations/add')!;
+      expect(add.body.ServiceId).toBe('svc-1');
+      expect(add.body.Reservations[0]).toMatchObject({
+        Identifier: 'key-1',
+        CustomerId: 'cust-1',
+        RequestedCategoryId: 'DBL',
+        RateId: 'BAR',
+        AdultCount: 2,
+      });
+      expect(reservation).toMatchObject({ id: 'res-1', guestName: 'Ada Lovelace', status: 'Confirmed' });
+    });
+
+    test('wraps updated fields in Value objects', async () => {
+      const mock = mockFetch({
+        'POST /reservations/update': { Reservations: [{ Id: 'res-1', StartUtc: '2024-03-02', EndUtc: '2024-03-03', State: 'Confirmed' }] },
+      });
+      spy = mock.spy;
+
+      await new MewsAdapter({ baseUrl: BASE_URL, serviceId: 'svc-1' })
+        .modifyReservation('res-1', { checkIn: '2024-03-02' }, { idempotencyKey: 'key-2' });
+
+      const update = mock.requests[0].body.ReservationUpdates[0];
+      expect(update.ReservationId).toBe('res-1');
+      expect(update.StartUtc).toEqual({ Value: '2024-03-02' });
+      expect(update.EndUtc).toBeUndefined();
+    });
+  });
+
+  describe('OperaAdapter', () => {
+    test('posts a cancellation with the idempotency key', async () => {
+      const mock = mockFetch({
+        'POST /oauth/token': { access_token: 'token', token_type: 'Bearer', expires_in: 3600 },
+        'POST /rsv/v1/hotels/H1/reservations/R1/cancellations': {},
+      });
+      spy = mock.spy;
+
+      const opera = new OperaAdapter({
+        clientId: 'id',
+        clientSecret: 'secret',
+        enterpriseId: 'ENT',
+        hotelId: 'H1',
+        baseUrl: BASE_URL,
+        authUrl: `${BASE_URL}/oauth/token`,
+      });
+      await opera.cancelReservation('R1', { idempotencyKey: 'key-1', reason: 'Guest request' });
+
+      const cancel = mock.requests.find(r => r.path.endsWith('/cancellations'))!;
+      expect(cancel.headers['Idempotency-Key']).toBe('key-1');
+      expect(cancel.body.reason).toEqual({ description: 'Guest request' });
+    });
+  });
+
+  describe('ElektrawebPMSAdapter', () => {
+    const stored = {
+      id: 'EW-1',
+      reservationNo: 'R-100',
+      guestName: 'Ada',
+      guestSurname: 'Lovelace',
+      checkIn: '2024-03-01',
+      checkOut: '2024-03-03',
+      roomCode: 'DBL',
+      totalAmount: 9000,
+      currency: 'TRY',
+      status: 'confirmed',
+    };
+
+    function fakeClient() {
+      return {
+        createReservation: jest.fn().mockResolvedValue(stored),
+        updateReservation: jest.fn().mockResolvedValue(undefined),
+        getReservation: jest.fn().mockResolvedValue({ ...stored, checkOut: '2024-03-04' }),
+        cancelReservation: jest.fn().mockResolvedValue(undefined),
+      };
+    }
+
+    test('maps a created reservation and forwards the key', async () => {
+      const client = fakeClient();
+      const adapter = new ElektrawebPMSAdapter(client as unknown as ElektrawebAdapter, 'key');
+
+      const reservation = await adapter.createReservation(BOOKING, { idempotencyKey: 'key-1' });
+
+      expect(client.createReservation).toHaveBeenCalledWith(
+        expect.objectContaining({ guestName: 'Ada', guestSurname: 'Lovelace', roomCode: 'DBL', adults: 2 }),
+        { idempotencyKey: 'key-1' }
+      );
+      expect(reservation).toEqual({
+        id: 'EW-1',
+        guestName: 'Ada Lovelace',
+        roomTypeId: 'DBL',
+        checkIn: '2024-03-01',
+        checkOut: '2024-03-03',
+        status: 'confirmed',
+        totalAmount: 9000,
+        currency: 'TRY',
+      });
+    });
+
+    test('sends only changed fields and returns the updated reservation', async () => {
+      const client = fakeClient();
+      const adapter = new ElektrawebPMSAdapter(client as unknown as ElektrawebAdapter, 'key');
+
+      const reservation = await adapter.modifyReservation('EW-1', { checkOut: '2024-03-04' }, { idempotencyKey: 'key-2' });
+
+      expect(client.updateReservation).toHaveBeenCalledWith('EW-1', { checkOut: '2024-03-04' }, { idempotencyKey: 'key-2' });
+      expect(reservation.checkOut).toBe('2024-03-04');
+    });
+  });
+
+  describe('PMSRouter idempotency', () => {
+    const apaleoRow = {
+      id: 'conn-uuid',
+      hotel_id: 'hotel-1',
+      pms_type: 'apaleo',
+      environment: 'production',
+      credentials: { client_id: 'id', client_secret: 'secret' },
+      is_active: true,
+      created_at: new Date('2024-03-01'),
+      sync_status: 'pending',
+    };
+
+    let router: PMSRouter;
+    let createSpy: jest.SpyInstance;
+
+    beforeEach(() => {
+      jest.clearAllMocks();
+      router = new PMSRouter();
+      createSpy = jest.spyOn(ApaleoAdapter.prototype, 'createReservation').mockResolvedValue({
+        id: 'BOOK-1-1',
+        guestName: 'Ada Lovelace',
+        roomTypeId: 'DBL',
+        checkIn: '2024-03-01',
+        checkOut: '2024-03-03',
+        status: 'Confirmed',
+        totalAmount: 300,
+        currency: 'EUR',
+      });
+    });
+
+    afterEach(() => {
+      createSpy.mockRestore();
+    });
+
+    // Route query() calls by statement
+    function respond(handlers: { claim: boolean; existing?: Record<string, unknown> }) {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('INSERT INTO pms_idempotency_keys')) {
+          return { rows: handlers.claim ? [{ id: 'idem-1' }] : [] };
+        }
+        if (sql.includes('FROM pms_idempotency_keys')) {
+          return { rows: handlers.existing ? [handlers.existing] : [] };
+        }
+        if (sql.includes('SELECT * FROM pms_connections')) {
+          return { rows: [apaleoRow] };
+        }
+        return { rows: [], rowCount: 1 };
+      });
+    }
+
+    function storedHash(): string {
+      const insert = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO pms_idempotency_keys'));
+      return insert![1][3];
+    }
+
+    test('runs the write once and stores the result', async () => {
+      respond({ claim: true });
+
+      const reservation = await router.createReservation('hotel-1', BOOKING, 'key-1');
+
+      expect(reservation.id).toBe('BOOK-1-1');
+      expect(createSpy).toHaveBeenCalledWith(BOOKING, { idempotencyKey: 'key-1' });
+      const complete = mockQuery.mock.calls.find(([sql]) => sql.includes("status = 'completed'"));
+      expect(complete![1]).toEqual(['hotel-1', 'key-1', JSON.stringify(reservation)]);
+    });
+
+    test('replays the stored response for a retried request', async () => {
+      respond({ claim: true });
+      const first = await router.createReservation('hotel-1', BOOKING, 'key-1');
+      const hash = storedHash();
+
+      createSpy.mockClear();
+      respond({ claim: false, existing: { request_hash: hash, status: 'completed', response: first } });
+
+      await expect(router.createReservation('hotel-1', BOOKING, 'key-1')).resolves.toEqual(first);
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+
+    test('rejects a key reused with a different payload', async () => {
+      respond({ claim: false, existing: { request_hash: 'other', status: 'completed', response: {} } });
+
+      await expect(router.createReservation('hotel-1', BOOKING, 'key-1')).rejects.toThrow(IdempotencyConflictError);
+      expect(createSpy).not.toHaveBeenCalled();
+    });
+
+    test('rejects a key whose first request is still in progress', async () => {
+      respond({ claim: true });
+      await router.createReservation('hotel-1', BOOKING, 'key-1');
+      const hash = storedHash();
+
+      respond({ claim: false, existing: { request_hash: hash, status: 'pending', response: null } });
+
+      await expect(router.createReservation('hotel-1', BOOKING, 'key-1')).rejects.toThrow('still in progress');
+    });
+
+    test('releases the key when the PMS write fails', async () => {
+      respond({ claim: true });
+      createSpy.mockRejectedValueOnce(new Error('Apaleo unavailable'));
+
+      await expect(router.createReservation('hotel-1', BOOKING, 'key-1')).rejects.toThrow('Apaleo unavailable');
+
+      const release = mockQuery.mock.calls.find(([sql]) => sql.includes('DELETE FROM pms_idempotency_keys'));
+      expect(release![1]).toEqual(['hotel-1', 'key-1']);
+    });
+
+    test('keeps the key when storing the result fails after the write', async () => {
+      respond({ claim: true });
+      const respondDefault = mockQuery.getMockImplementation()!;
+      mockQuery.mockImplementation(async (sql: string, params?: unknown[]) => {
+        if (sql.includes("status = 'completed'")) throw new Error('connection lost');
+        return respondDefault(sql, params);
+      });
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+      const reservation = await router.createReservation('hotel-1', BOOKING, 'key-1');
+
+      expect(reservation.id).toBe('BOOK-1-1');
+      expect(mockQuery.mock.calls.some(([sql]) => sql.includes('DELETE FROM pms_idempotency_keys'))).toBe(false);
+      errorSpy.mockRestore();
+    });
+
+    test('lets a retry take over a stale pending claim of the same request', async () => {
+      respond({ claim: true });
+
+      await router.createReservation('hotel-1', BOOKING, 'key-1');
+
+      const [sql, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO pms_idempotency_keys'))!;
+      expect(sql).toContain("WHERE pms_idempotency_keys.status = 'pending'");
+      expect(sql).toContain('request_hash = EXCLUDED.request_hash');
+      expect(params[4]).toBe(30);
+    });
+
+    test('refuses writes on adapters without the capability', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('SELECT * FROM pms_connections')) {
+          return { rows: [{ ...apaleoRow, environment: 'stub' }] };
+        }
+        return { rows: sql.includes('INSERT INTO pms_idempotency_keys') ? [{ id: 'idem-1' }] : [], rowCount: 1 };
+      });
+
+      await expect(router.cancelReservation('hotel-1', 'res_stub_1', 'key-1')).rejects.toThrow(
+        new UnsupportedCapabilityError('Apaleo', 'cancelReservation')
+      );
+    });
+  });
+});
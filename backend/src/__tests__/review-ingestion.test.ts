@@ -0,0 +1,151 @@
+/**
+ * Unit tests for the review ingestion pipeline
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+jest.mock('../services/google-places.js', () => ({
+  getPlaceDetails: jest.fn(),
+  isGooglePlacesConfigured: jest.fn().mockReturnValue(true),
+}));
+
+import * as reviewIngestion from '../services/review-ingestion.js';
+import { query } from '../utils/db.js';
+import * as googlePlaces from '../services/google-places.js';
+
+const mockQuery = query as jest.Mock;
+const mockGetPlaceDetails = googlePlaces.getPlaceDetails as jest.Mock;
+
+const GOOGLE_REVIEW = {
+  author_name: 'John Doe',
+  author_url: 'https://example.com',
+  profile_photo_url: 'https://example.com/photo.jpg',
+  rating: 5,
+  text: 'Great hotel!',
+  language: 'en',
+  relative_time_description: 'a week ago',
+  time: 1709251200,
+};
+
+function queriesMatching(fragment: string) {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(fragment));
+}
+
+describe('Review ingestion', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [] });
+  });
+
+  test('normalizes reviews of both sources', () => {
+    expect(reviewIngestion.normalizeGoogleReview(GOOGLE_REVIEW)).toEqual({
+      externalReviewId: 'google_1709251200',
+      authorName: 'John Doe',
+      authorUrl: 'https://example.com',
+      profilePhotoUrl: 'https://example.com/photo.jpg',
+      rating: 5,
+      text: 'Great hotel!',
+      language: 'en',
+      relativeTime: 'a week ago',
+      publishedAt: new Date(1709251200 * 1000),
+    });
+
+    const tripAdvisorReview = reviewIngestion.normalizeTripAdvisorReview({
+      id: '941522017', title: 'Lovely', text: 'Lovely stay', rating: 4, published_date: '2024-03-01T10:00:00Z',
+      lang: 'en', user: { username: 'traveller' }, url: 'https://tripadvisor.com/r/941522017',
+    });
+    expect(tripAdvisorReview).toMatchObject({
+      externalReviewId: 'ta_941522017',
+      authorName: 'traveller',
+      profilePhotoUrl: '',
+      relativeTime: '',
+      publishedAt: new Date('2024-03-01T10:00:00Z'),
+    });
+  });
+
+  test('ingestSource upserts reviews by external id and snapshots the rating', async () => {
+    mockGetPlaceDetails.mockResolvedValueOnce({
+      place_id: 'ChIJ123', name: 'Test Hotel', formatted_address: '123 Test St',
+      rating: 4.5, user_ratings_total: 100, reviews: [GOOGLE_REVIEW], url: 'https://maps.google.com',
+    });
+
+    const ingested = await reviewIngestion.ingestSource('hotel-1', 'google', 'ChIJ123');
+
+    expect(ingested).toEqual({ source: 'google', rating: { rating: 4.5, reviewCount: 100, ranking: null }, reviewsStored: 1 });
+    const [reviewSql, reviewParams] = queriesMatching('INSERT INTO hotel_reviews')[0];
+    expect(reviewSql).toContain('ON CONFLICT (hotel_id, source, external_review_id)');
+    expect(reviewParams.slice(0, 3)).toEqual(['hotel-1', 'google', 'google_1709251200']);
+    expect(queriesMatching('INSERT INTO hotel_ratings')[0][1]).toEqual(['hotel-1', 'google', 4.5, 100, null, null, null]);
+  });
+
+  test('upsertReviews stores the detected language and keeps the reported one', async () => {
+    await reviewIngestion.upsertReviews('hotel-1', 'google', [
+      { ...reviewIngestion.normalizeGoogleReview(GOOGLE_REVIEW), text: 'Très bel hôtel, la chambre était propre et le personnel accueillant.' },
+      reviewIngestion.normalizeGoogleReview(GOOGLE_REVIEW),
+    ]);
+
+    const [translated, short] = queriesMatching('INSERT INTO hotel_reviews').map(([, params]) => params);
+    expect(translated[8]).toBe('fr');
+    expect(translated.slice(11)).toEqual(['en', expect.any(Number)]);
+    // Too short to detect: the reported language is used
+    expect(short[8]).toBe('en');
+    expect(short.slice(11)).toEqual(['en', null]);
+  });
+
+  test('ingestSource fails on unknown places and sources', async () => {
+    mockGetPlaceDetails.mockResolvedValueOnce(null);
+
+    await expect(reviewIngestion.ingestSource('hotel-1', 'google', 'ChIJ404')).rejects.toThrow('Place not found: ChIJ404');
+    await expect(reviewIngestion.ingestSource('hotel-1', 'myspace', 'x')).rejects.toThrow('No review fetcher for source: myspace');
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+
+  test('stores the ranking of a snapshot', async () => {
+    await reviewIngestion.storeRatingSnapshot('hotel-1', 'tripadvisor', {
+      rating: 4.5, reviewCount: 1520, ranking: { position: 15, total: 1834, context: 'of 1,834 hotels in Paris' },
+    });
+
+    expect(mockQuery.mock.calls[0][1]).toEqual(['hotel-1', 'tripadvisor', 4.5, 1520, 15, 1834, 'of 1,834 hotels in Paris']);
+  });
+
+  test('registered fetchers plug new sources into the pipeline', async () => {
+    expect(reviewIngestion.hasReviewFetcher('trustpilot')).toBe(false);
+    reviewIngestion.registerReviewFetcher('trustpilot', async () => ({
+      rating: { rating: 4.2, reviewCount: 80, ranking: null },
+      reviews: [],
+    }));
+
+    const ingested = await reviewIngestion.ingestSource('hotel-1', 'trustpilot', 'hotel.example.com');
+
+    expect(reviewIngestion.hasReviewFetcher('trustpilot')).toBe(true);
+    expect(ingested.reviewsStored).toBe(0);
+    expect(queriesMatching('INSERT INTO hotel_ratings')[0][1]).toEqual(['hotel-1', 'trustpilot', 4.2, 80, null, null, null]);
+  });
+
+  describe('computeAndStoreEywaScore', () => {
+    test('stores the score with its trend', async () => {
+      mockQuery.mockImplementation(async (sql: string) => {
+        if (sql.includes('FROM hotel_ratings')) return { rows: [{ source: 'google', rating: '4.0', review_count: 100 }] };
+        if (sql.includes('SELECT eywa_score')) return { rows: [{ eywa_score: '7.5' }] };
+        return { rows: [] };
+      });
+
+      const scores = await reviewIngestion.computeAndStoreEywaScore('hotel-1');
+
+      expect(scores).toMatchObject({ mode: 'weighted', eywaScore: 8.0 });
+      const [, params] = queriesMatching('INSERT INTO hotel_eywa_scores')[0];
+      expect(params).toHaveLength(18);
+      expect(params.slice(0, 2)).toEqual(['hotel-1', 8.0]);
+      expect(params[8]).toBe('up');
+    });
+
+    test('does nothing without ratings', async () => {
+      expect(await reviewIngestion.computeAndStoreEywaScore('hotel-1')).toBeNull();
+      expect(queriesMatching('INSERT INTO hotel_eywa_scores')).toHaveLength(0);
+    });
+  });
+});
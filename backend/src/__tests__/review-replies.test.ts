@@ -0,0 +1,206 @@
+/**
+ * Unit tests for the review reply workflow (drafts, approval, publishing)
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import * as reviewReplies from '../services/review-replies.js';
+import { registerLlmProvider, LlmRequest } from '../services/llm-providers.js';
+import { InMemoryReplyPublisher, registerReplyPublisher, unregisterReplyPublisher } from '../services/reply-publishers.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const REVIEW = {
+  id: 'review-1', source: 'google', author_name: 'Claire', rating: 2, text: 'Noisy room, slow breakfast.',
+  language: 'fr', published_at: new Date('2024-03-01'), reply_status: 'none', reply_text: null,
+};
+
+// Fake LLM recording its requests
+const llmRequests: LlmRequest[] = [];
+let llmReply = 'Chère Claire, merci pour votre retour.';
+registerLlmProvider('reply-fake', {
+  build: () => ({
+    complete: async (request: LlmRequest) => {
+      llmRequests.push(request);
+      return { content: llmReply, toolCalls: [], tokensIn: 100, tokensOut: 20 };
+    },
+  }),
+});
+
+// Applies the UPDATE assignments the service sends, so returned rows follow the workflow
+function mockDb(review: Record<string, any> = {}, settings: any = null) {
+  const row: Record<string, any> = { ...REVIEW, ...review };
+  mockQuery.mockImplementation(async (sql: string, params: any[] = []) => {
+    if (sql.startsWith('UPDATE hotel_reviews')) {
+      // Approval claim: only rows still awaiting approval (or the approver's own draft) match
+      if (sql.includes('reply_status = ANY($3)') && !params[2].includes(row.reply_status)
+          && !(row.reply_status === 'draft' && row.reply_drafted_by === params[1])) {
+        return { rows: [] };
+      }
+      const status = sql.match(/reply_status = '(\w+)'/);
+      if (status) row.reply_status = status[1];
+      if (sql.includes('reply_text = $2')) row.reply_text = params[1];
+      if (sql.includes('reply_error = $3')) row.reply_error = params[2];
+      if (sql.includes('reply_external_id = $3')) row.reply_external_id = params[2];
+      return { rows: [{ ...row }] };
+    }
+    if (sql.includes('FROM hotel_reviews WHERE id')) return { rows: [{ ...row }] };
+    if (sql.includes('FROM hotel_reply_settings')) return { rows: settings ? [settings] : [] };
+    if (sql.includes('FROM hotels h')) return { rows: [{ name: 'Hotel Lumen', default_provider: 'reply-fake' }] };
+    if (sql.includes('FROM ai_providers')) return { rows: [{ slug: 'reply-fake', model: 'fake-1' }] };
+    if (sql.includes('LEFT JOIN hotel_review_sources')) return { rows: [{ external_review_id: 'google_1709251200', external_id: 'ChIJ123' }] };
+    return { rows: [] };
+  });
+  return row;
+}
+
+function callsMatching(text: string): any[][] {
+  return mockQuery.mock.calls.filter(([sql]) => sql.includes(text));
+}
+
+describe('Review replies', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    llmRequests.length = 0;
+    llmReply = 'Chère Claire, merci pour votre retour.';
+  });
+
+  afterEach(() => {
+    unregisterReplyPublisher('google');
+  });
+
+  test('the prompt follows the hotel tone settings', () => {
+    const prompt = reviewReplies.buildReplyPrompt(
+      'Hotel Lumen',
+      { tone: 'concise', signature: 'Marie, Guest Relations', instructions: 'Mention the new soundproof windows.' },
+      { rating: 1, language: 'fr' }
+    );
+
+    expect(prompt).toContain('two or three sentences');
+    expect(prompt).toContain('apologise');
+    expect(prompt).toContain('(fr)');
+    expect(prompt).toContain('soundproof windows');
+    expect(prompt).toContain('Sign the reply as: Marie, Guest Relations');
+  });
+
+  test('drafts a reply with the hotel provider', async () => {
+    mockDb({}, { tone: 'professional', signature: null, instructions: null });
+
+    const reply = await reviewReplies.draftReply('hotel-1', 'review-1', 'user-1');
+
+    expect(reply).toMatchObject({ status: 'draft', replyText: 'Chère Claire, merci pour votre retour.' });
+    expect(llmRequests[0].model).toBe('fake-1');
+    expect(llmRequests[0].tools).toEqual([]);
+    expect(llmRequests[0].system).toContain('courteous and professional');
+    expect(llmRequests[0].messages[0].role === 'user' && llmRequests[0].messages[0].content).toContain('Noisy room');
+    expect(callsMatching('UPDATE hotel_reviews')[0][1]).toEqual(['review-1', 'Chère Claire, merci pour votre retour.', 'reply-fake', 'user-1']);
+  });
+
+  test('rejects empty drafts and published reviews', async () => {
+    mockDb();
+    llmReply = '  ';
+    await expect(reviewReplies.draftReply('hotel-1', 'review-1', 'user-1')).rejects.toMatchObject({ status: 502 });
+
+    mockDb({ reply_status: 'published', reply_text: 'Thanks!' });
+    await expect(reviewReplies.draftReply('hotel-1', 'review-1', 'user-1')).rejects.toMatchObject({ status: 409 });
+    await expect(reviewReplies.saveReply('hotel-1', 'review-1', 'user-1', 'Edited')).rejects.toMatchObject({ status: 409 });
+  });
+
+  test('submit, reject and resubmit', async () => {
+    mockDb({ reply_status: 'draft', reply_text: 'Thanks' });
+
+    expect((await reviewReplies.submitReply('hotel-1', 'review-1')).status).toBe('pending_approval');
+    expect((await reviewReplies.rejectReply('hotel-1', 'review-1', 'manager-1', 'Too short')).status).toBe('rejected');
+    expect(callsMatching("reply_status = 'rejected'")[0][1]).toEqual(['review-1', 'manager-1', 'Too short']);
+    await expect(reviewReplies.rejectReply('hotel-1', 'review-1', 'manager-1')).rejects.toMatchObject({ status: 409 });
+    expect((await reviewReplies.submitReply('hotel-1', 'review-1')).status).toBe('pending_approval');
+  });
+
+  test('approved replies wait for manual posting when the source has no publisher', async () => {
+    mockDb({ reply_status: 'pending_approval', reply_text: 'Thanks' });
+
+    const reply = await reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1');
+
+    expect(reply.status).toBe('approved');
+  });
+
+  test('approval publishes through the source publisher', async () => {
+    const publisher = new InMemoryReplyPublisher();
+    registerReplyPublisher('google', publisher);
+    mockDb({ reply_status: 'pending_approval', reply_text: 'Thanks for your feedback' });
+
+    const reply = await reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1');
+
+    expect(reply).toMatchObject({ status: 'published', externalReplyId: 'reply-1' });
+    expect(publisher.published).toEqual([{
+      hotelId: 'hotel-1', source: 'google', sourceExternalId: 'ChIJ123',
+      externalReviewId: 'google_1709251200', text: 'Thanks for your feedback',
+    }]);
+  });
+
+  test('failed publications are kept for a retry', async () => {
+    const publisher = new InMemoryReplyPublisher();
+    registerReplyPublisher('google', publisher);
+    const row = mockDb({ reply_status: 'pending_approval', reply_text: 'Thanks' });
+
+    publisher.failNext('Quota exceeded');
+    await expect(reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1')).rejects.toMatchObject({ status: 502 });
+    expect(row).toMatchObject({ reply_status: 'failed', reply_error: 'Quota exceeded' });
+
+    expect((await reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1')).status).toBe('published');
+  });
+
+  test('only one of two concurrent approvals publishes', async () => {
+    const publisher = new InMemoryReplyPublisher();
+    registerReplyPublisher('google', publisher);
+    mockDb({ reply_status: 'pending_approval', reply_text: 'Thanks' });
+
+    const results = await Promise.allSettled([
+      reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1'),
+      reviewReplies.approveReply('hotel-1', 'review-1', 'admin-1'),
+    ]);
+
+    expect(results.map(r => r.status).sort()).toEqual(['fulfilled', 'rejected']);
+    expect(results.find(r => r.status === 'rejected')).toMatchObject({ reason: { status: 409 } });
+    expect(publisher.published).toHaveLength(1);
+  });
+
+  test('drafts can be approved straight away by their author only', async () => {
+    mockDb({ reply_status: 'draft', reply_text: 'Thanks', reply_drafted_by: 'user-1' });
+    await expect(reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1')).rejects.toMatchObject({ status: 403 });
+    expect(callsMatching('UPDATE hotel_reviews')).toHaveLength(0);
+
+    mockDb({ reply_status: 'draft', reply_text: 'Thanks', reply_drafted_by: 'manager-1' });
+    expect((await reviewReplies.approveReply('hotel-1', 'review-1', 'manager-1')).status).toBe('approved');
+  });
+
+  test('the queue depends on the role', async () => {
+    mockDb();
+
+    await reviewReplies.getReplyQueue('hotel-1', 'manager');
+    await reviewReplies.getReplyQueue('hotel-1', 'viewer');
+
+    const queues = callsMatching('reply_status = ANY').map(([, params]) => params[1]);
+    expect(queues).toEqual([['pending_approval', 'failed'], ['draft', 'rejected']]);
+  });
+
+  test('validates the reply settings', async () => {
+    mockDb();
+    await expect(reviewReplies.updateReplySettings('hotel-1', { tone: 'sarcastic' as any })).rejects.toMatchObject({ status: 400 });
+    await expect(reviewReplies.saveReply('hotel-1', 'review-1', 'user-1', '')).rejects.toMatchObject({ status: 400 });
+
+    expect(await reviewReplies.updateReplySettings('hotel-1', { tone: 'concise' })).toEqual({ tone: 'concise', signature: null, instructions: null });
+  });
+
+  test('counts negative reviews without an approved or published reply', async () => {
+    mockQuery.mockResolvedValueOnce({ rows: [{ count: '3' }] });
+
+    expect(await reviewReplies.countUnansweredNegativeReviews('hotel-1')).toBe(3);
+    expect(mockQuery.mock.calls[0][1]).toEqual(['hotel-1', 2]);
+  });
+});
@@ -2,6 +2,12 @@
  * Unit tests for Review Sync Service
  */
 
+import fs from 'fs';
+import path from 'path';
+
+// TripAdvisor reads its key when loaded
+process.env.TRIPADVISOR_API_KEY = 'fixture-key';
+
 // Mock dependencies
 jest.mock('../utils/db.js', () => ({
   query: jest.fn(),
@@ -20,6 +26,29 @@ import * as googlePlaces from '../services/google-places.js';
 const mockQuery = query as jest.Mock;
 const mockGetPlaceDetails = googlePlaces.getPlaceDetails as jest.Mock;
 
+// Recorded TripAdvisor Content API responses, keyed "<METHOD> <pathname>"
+const TRIPADVISOR_FIXTURE: { responses: Record<string, unknown> } = JSON.parse(
+  fs.readFileSync(path.join(__dirname, 'fixtures', 'tripadvisor', 'location-123456.json'), 'utf8')
+);
+
+function replayTripAdvisor(overrides: Record<string, { status: number; headers?: Record<string, string> }> = {}) {
+  return jest.spyOn(global, 'fetch').mockImplementation((async (input: string | URL | Request) => {
+    const url = new URL(typeof input === 'string' || input instanceof URL ? input : input.url);
+    const key = `GET ${url.pathname}`;
+
+    if (overrides[key]) {
+      return new Response('{}', overrides[key]);
+    }
+    if (!(key in TRIPADVISOR_FIXTURE.responses)) {
+      return new Response(JSON.stringify({ message: `No fixture for ${key}` }), { status: 404 });
+    }
+    return new Response(JSON.stringify(TRIPADVISOR_FIXTURE.responses[key]), {
+      status: 200,
+      headers: { 'Content-Type': 'application/json' },
+    });
+  }) as typeof fetch);
+}
+
 describe('Review Sync Service', () => {
   beforeEach(() => {
     jest.clearAllMocks();
@@ -103,18 +132,71 @@ describe('Review Sync Service', () => {
       expect(result.errors[0].errorMessage).toBe('API Error');
     });
 
-    test('skips TripAdvisor sync (not implemented)', async () => {
-      mockQuery.mockResolvedValue({ rows: [] });
+    describe('TripAdvisor', () => {
+      let fetchSpy: jest.SpyInstance;
 
-      const consoleSpy = jest.spyOn(console, 'log').mockImplementation();
+      afterEach(() => {
+        fetchSpy.mockRestore();
+      });
 
-      const result = await reviewSync.syncHotelReviews(
-        'hotel-1',
-        [{ source: 'tripadvisor', externalId: '12345' }]
-      );
+      test('stores the rating, ranking and reviews', async () => {
+        fetchSpy = replayTripAdvisor();
+        mockQuery.mockResolvedValue({ rows: [] });
 
-      expect(result.errors).toHaveLength(0);
-      consoleSpy.mockRestore();
+        const result = await reviewSync.syncHotelReviews(
+          'hotel-1',
+          [{ source: 'tripadvisor', externalId: '123456' }]
+        );
+
+        expect(result).toEqual({ success: true, synced: ['tripadvisor'], errors: [] });
+
+        const rating = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO hotel_ratings'))!;
+        expect(rating[1]).toEqual(['hotel-1', 'tripadvisor', 4.5, 1247, 15, 1834, 'of 1834 hotels in Paris']);
+
+        const reviews = mockQuery.mock.calls.filter(([sql]) => sql.includes('INSERT INTO hotel_reviews')).map(([, params]) => params);
+        expect(reviews).toHaveLength(2);
+        expect(reviews[0].slice(0, 4)).toEqual(['hotel-1', 'tripadvisor', 'ta_941522017', 'TravellerJohn']);
+        expect(reviews[0][7]).toContain('Tuileries');
+        expect(reviews[1]).toEqual(expect.arrayContaining(['ta_940118233', 'Claire_P', 2, 'fr']));
+        expect(reviews[1][10]).toEqual(new Date('2024-02-03T18:40:02Z'));
+
+        const status = mockQuery.mock.calls.find(([sql]) => sql.includes("last_sync_status = 'success'"))!;
+        expect(status[1]).toEqual(['hotel-1', 'tripadvisor']);
+      });
+
+      test('fails an unknown location', async () => {
+        fetchSpy = replayTripAdvisor();
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        const result = await reviewSync.syncHotelReviews(
+          'hotel-1',
+          [{ source: 'tripadvisor', externalId: '999' }]
+        );
+
+        expect(result.success).toBe(false);
+        expect(result.errors[0].errorMessage).toBe('Location not found: 999');
+        expect(mockQuery.mock.calls.some(([sql]) => sql.includes('sync_error_count = COALESCE(sync_error_count, 0) + 1'))).toBe(true);
+      });
+
+      test('reschedules after the Retry-After delay when rate limited', async () => {
+        fetchSpy = replayTripAdvisor({
+          'GET /api/v1/location/123456/details': { status: 429, headers: { 'Retry-After': '120' } },
+        });
+        mockQuery.mockResolvedValue({ rows: [] });
+
+        const result = await reviewSync.syncHotelReviews(
+          'hotel-1',
+          [{ source: 'tripadvisor', externalId: '123456' }],
+          'job-1'
+        );
+
+        expect(result.errors[0]).toMatchObject({ source: 'tripadvisor', errorType: 'TripAdvisorRateLimitError' });
+        const update = mockQuery.mock.calls.find(([sql]) => sql.includes("last_sync_status = 'rate_limited'"))!;
+        expect(update[1]).toEqual(['hotel-1', 'tripadvisor', expect.stringContaining('retry after 120s'), 120]);
+        // A rate limit does not count against the source
+        expect(mockQuery.mock.calls.some(([sql]) => sql.includes('sync_error_count = COALESCE'))).toBe(false);
+        expect(mockQuery.mock.calls.some(([sql]) => sql.includes('INSERT INTO review_sync_errors'))).toBe(true);
+      });
     });
 
     test('handles missing place gracefully', async () => {
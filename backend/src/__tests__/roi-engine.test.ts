@@ -0,0 +1,154 @@
+/**
+ * Unit tests for the ROI engine
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import {
+  blendCommission,
+  calculateRoi,
+  periodBounds,
+  snapshotRoi,
+  updateRoiSettings,
+} from '../services/roi-engine.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const OTA_ROWS = [
+  { slug: 'booking', name: 'Booking.com', default_commission: '15.00', revenue: '3000.00', commission: '540.00' },
+  { slug: 'expedia', name: 'Expedia', default_commission: '18.00', revenue: '1000.00', commission: '200.00' },
+  { slug: 'agoda', name: 'Agoda', default_commission: '15.00', revenue: '0', commission: '0' },
+];
+
+function mockDb(options: { settings?: any; channels?: any[] } = {}) {
+  mockQuery.mockImplementation(async (sql: string) => {
+    if (sql.includes('LEFT JOIN licences')) return { rows: [{ timezone: 'Europe/Istanbul', monthly_fee: '310.00' }] };
+    if (sql.includes('FROM hotel_roi_settings')) return { rows: options.settings ? [options.settings] : [] };
+    if (sql.includes('FROM channels c')) return { rows: options.channels || OTA_ROWS };
+    if (sql.includes('b.ai_assisted = true')) return { rows: [{ bookings: '4', revenue: '2000.00' }] };
+    if (sql.includes('FROM ai_sessions')) return { rows: [{ sessions: '90', cost: '12.3456' }] };
+    if (sql.includes('SELECT slug FROM channels')) return { rows: [{ slug: 'booking' }] };
+    if (sql.includes('INSERT INTO roi_metrics')) return { rows: [{ calculated_at: new Date('2024-03-11T01:30:00Z') }] };
+    return { rows: [], rowCount: 1 };
+  });
+}
+
+describe('ROI engine', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockDb();
+  });
+
+  describe('blendCommission', () => {
+    test('uses overrides, then paid commission, then channel defaults', () => {
+      const { channels } = blendCommission(OTA_ROWS, { expedia: 12 });
+
+      expect(channels.map(c => [c.slug, c.rate, c.source])).toEqual([
+        ['booking', 18, 'bookings'],
+        ['expedia', 12, 'override'],
+        ['agoda', 15, 'default'],
+      ]);
+      expect(channels[0].revenueShare).toBe(75);
+    });
+
+    test('weights channels by OTA revenue', () => {
+      // 75% at 18% + 25% at 20%
+      expect(blendCommission(OTA_ROWS, {}).rate).toBe(18.5);
+    });
+
+    test('weights channels equally without OTA revenue', () => {
+      const rows = OTA_ROWS.map(row => ({ ...row, revenue: '0', commission: '0' }));
+      expect(blendCommission(rows, {}).rate).toBe(16);
+      expect(blendCommission([], {}).rate).toBe(0);
+    });
+  });
+
+  describe('calculateRoi', () => {
+    test('applies displacement and the blended commission', async () => {
+      const roi = await calculateRoi('hotel-1', '2024-03-01', '2024-03-31');
+
+      expect(roi).toMatchObject({
+        aiDirectBookings: 4,
+        aiDirectRevenue: 2000,
+        displacementRate: 60,
+        revenueGained: 1200,
+        commissionRate: 18.5,
+        commissionSaved: 222,
+        // A full calendar month costs exactly one licence fee
+        licenceCost: 310,
+        aiCost: 12.3456,
+        eywaCost: 322.35,
+        netGain: -100.35,
+        roiPercentage: -31.13,
+        aiSessions: 90,
+        timeSavedHours: 6,
+      });
+    });
+
+    test('prorates the licence per day and uses hotel settings', async () => {
+      mockDb({ settings: { displacement_rate: '100.00', commission_overrides: { booking: 20, expedia: 20 }, minutes_per_session: '10' } });
+
+      const roi = await calculateRoi('hotel-1', '2024-03-25', '2024-04-05');
+
+      // 7 days of March (310/31) + 5 days of April (310/30)
+      expect(roi.licenceCost).toBe(121.67);
+      expect(roi.revenueGained).toBe(2000);
+      expect(roi.commissionRate).toBe(20);
+      expect(roi.timeSavedHours).toBe(15);
+    });
+
+    test('counts AI usage by day in the hotel timezone', async () => {
+      await calculateRoi('hotel-1', '2024-03-01', '2024-03-31');
+
+      const [, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('FROM ai_sessions'))!;
+      expect(params).toEqual(['hotel-1', '2024-03-01', '2024-03-31', 'Europe/Istanbul']);
+    });
+  });
+
+  describe('periodBounds', () => {
+    test('weeks run Monday to Sunday', () => {
+      expect(periodBounds('weekly', '2024-03-10')).toEqual({ startDate: '2024-03-04', endDate: '2024-03-10' });
+      expect(periodBounds('weekly', '2024-03-11')).toEqual({ startDate: '2024-03-11', endDate: '2024-03-17' });
+    });
+
+    test('months and quarters', () => {
+      expect(periodBounds('monthly', '2024-02-10')).toEqual({ startDate: '2024-02-01', endDate: '2024-02-29' });
+      expect(periodBounds('quarterly', '2024-11-30')).toEqual({ startDate: '2024-10-01', endDate: '2024-12-31' });
+    });
+
+    test('rejects unknown period types', () => {
+      expect(() => periodBounds('daily' as any, '2024-03-10')).toThrow('period must be one of');
+    });
+  });
+
+  test('snapshotRoi upserts the elapsed part of the period', async () => {
+    const snapshot = await snapshotRoi('hotel-1', 'monthly', '2024-03-10');
+
+    const [sql, params] = mockQuery.mock.calls.find(([s]) => s.includes('INSERT INTO roi_metrics'))!;
+    expect(sql).toContain('ON CONFLICT (hotel_id, period_type, period_start) DO UPDATE');
+    expect(params.slice(0, 4)).toEqual(['hotel-1', 'monthly', '2024-03-01', '2024-03-10']);
+    expect(JSON.parse(params[9])).toMatchObject({ displacement_rate: 60, commission_rate: 18.5 });
+    expect(snapshot).toMatchObject({ periodType: 'monthly', startDate: '2024-03-01', endDate: '2024-03-10' });
+  });
+
+  describe('updateRoiSettings', () => {
+    test('keeps omitted fields and stores overrides', async () => {
+      const settings = await updateRoiSettings('hotel-1', { commissionOverrides: { booking: 17 } });
+
+      expect(settings).toEqual({ displacementRate: 60, commissionOverrides: { booking: 17 }, minutesPerSession: 4 });
+      const [, params] = mockQuery.mock.calls.find(([sql]) => sql.includes('INSERT INTO hotel_roi_settings'))!;
+      expect(params).toEqual(['hotel-1', 60, '{"booking":17}', 4]);
+    });
+
+    test('rejects out-of-range values and unknown channels', async () => {
+      await expect(updateRoiSettings('hotel-1', { displacementRate: 120 })).rejects.toMatchObject({ status: 400 });
+      await expect(updateRoiSettings('hotel-1', { commissionOverrides: { booking: -1 } })).rejects.toThrow('between 0 and 100');
+      await expect(updateRoiSettings('hotel-1', { commissionOverrides: { nope: 10 } })).rejects.toThrow('Unknown channel: nope');
+    });
+  });
+});
@@ -0,0 +1,65 @@
+/**
+ * Role guards of the API routes: writes that change hotel settings or rewrite
+ * stored data are refused to viewers
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+import express from 'express';
+import http from 'http';
+import jwt from 'jsonwebtoken';
+import { AddressInfo } from 'net';
+import router from '../routes/index.js';
+import { query } from '../utils/db.js';
+
+const mockQuery = query as jest.Mock;
+
+const GUARDED_ROUTES: Array<[string, string]> = [
+  ['PUT', '/api/channels/mappings'],
+  ['DELETE', '/api/channels/mappings/mapping-1'],
+  ['POST', '/api/channels/reattribute'],
+  ['POST', '/api/hotel/stats/daily/backfill'],
+  ['POST', '/api/reports/monthly/2024-03/generate'],
+];
+
+function token(role: string): string {
+  return jwt.sign({ id: 'user-1', email: 'user@hotel.test', hotel_id: 'hotel-1', role }, process.env.JWT_SECRET || 'secret');
+}
+
+describe('Route guards', () => {
+  let server: http.Server;
+  let baseUrl: string;
+
+  beforeAll(async () => {
+    const app = express();
+    app.use(express.json());
+    app.use('/api', router);
+    server = http.createServer(app);
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+  });
+
+  afterAll(async () => {
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    mockQuery.mockResolvedValue({ rows: [], rowCount: 0 });
+  });
+
+  test.each(GUARDED_ROUTES)('%s %s is refused to viewers', async (method, path) => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      headers: { Authorization: `Bearer ${token('viewer')}`, 'Content-Type': 'application/json' },
+      body: JSON.stringify({}),
+    });
+
+    expect(response.status).toBe(403);
+    expect(mockQuery).not.toHaveBeenCalled();
+  });
+});
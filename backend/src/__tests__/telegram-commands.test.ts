@@ -0,0 +1,60 @@
+/**
+ * Unit tests for the Telegram PMS commands
+ */
+
+// Mock dependencies
+jest.mock('../utils/db.js', () => ({
+  query: jest.fn(),
+  pool: { query: jest.fn() },
+}));
+
+jest.mock('../services/pms-router.js', () => ({
+  ...jest.requireActual('../services/pms-router.js'),
+  pmsRouter: {
+    testConnection: jest.fn(),
+    registerConnection: jest.fn(),
+  },
+}));
+
+import { executeCommand, parseCommand } from '../services/telegram-commands.js';
+import { pmsRouter } from '../services/pms-router.js';
+
+const testConnection = pmsRouter.testConnection as jest.Mock;
+const registerConnection = pmsRouter.registerConnection as jest.Mock;
+
+describe('Telegram commands', () => {
+  beforeEach(() => {
+    jest.clearAllMocks();
+    testConnection.mockResolvedValue({ success: true, data: { name: 'Grand Opera', timezone: 'Europe/Paris', currency: 'EUR' } });
+    registerConnection.mockResolvedValue(undefined);
+  });
+
+  test('connects Opera with its PMS hotel_id kept as a credential', async () => {
+    const { command, args } = parseCommand(
+      '/eywa connect opera eywa_hotel=hotel-1 hotel_id=OPERA-HTL client_id=cid client_secret=secret enterprise_id=ent environment=production'
+    )!;
+
+    const reply = await executeCommand(command, args);
+
+    expect(reply).toContain('Connected to');
+    const credentials = { hotel_id: 'OPERA-HTL', client_id: 'cid', client_secret: 'secret', enterprise_id: 'ent' };
+    expect(testConnection).toHaveBeenCalledWith('opera', credentials, 'production');
+    expect(registerConnection).toHaveBeenCalledWith({
+      hotelId: 'hotel-1', pmsType: 'opera', credentials, environment: 'production', isActive: true,
+    });
+  });
+
+  test('requires the Eywa hotel', async () => {
+    const reply = await executeCommand('connect', ['opera', 'hotel_id=OPERA-HTL', 'client_id=cid']);
+
+    expect(reply).toContain('Missing `eywa_hotel=<hotel_id>`');
+    expect(testConnection).not.toHaveBeenCalled();
+  });
+
+  test('reports missing PMS credentials', async () => {
+    const reply = await executeCommand('connect', ['opera', 'eywa_hotel=hotel-1', 'client_id=cid', 'client_secret=secret', 'enterprise_id=ent']);
+
+    expect(reply).toContain('hotel_id');
+    expect(registerConnection).not.toHaveBeenCalled();
+  });
+});
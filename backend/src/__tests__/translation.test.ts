@@ -0,0 +1,47 @@
+/**
+ * Unit tests for review translation providers
+ */
+
+import {
+  NoopTranslationProvider,
+  TranslationProvider,
+  registerTranslationProvider,
+  getTranslationProvider,
+  translateReview,
+} from '../services/translation.js';
+
+describe('Review translation', () => {
+  const originalProvider = process.env.TRANSLATION_PROVIDER;
+
+  afterEach(() => {
+    if (originalProvider === undefined) delete process.env.TRANSLATION_PROVIDER;
+    else process.env.TRANSLATION_PROVIDER = originalProvider;
+  });
+
+  test('the default provider returns the text untouched', async () => {
+    delete process.env.TRANSLATION_PROVIDER;
+
+    expect(getTranslationProvider()).toBeInstanceOf(NoopTranslationProvider);
+    expect(await translateReview('Chambre propre', 'fr', 'en')).toEqual({
+      text: 'Chambre propre', from: 'fr', to: 'en', translated: false, provider: 'none',
+    });
+  });
+
+  test('uses the provider named by TRANSLATION_PROVIDER', async () => {
+    const fake: TranslationProvider = {
+      translate: jest.fn(async (text, from, to) => ({ text: `[${to}] ${text}`, from, to, translated: true, provider: 'fake' })),
+    };
+    registerTranslationProvider('fake', fake);
+    process.env.TRANSLATION_PROVIDER = 'fake';
+
+    expect(await translateReview('Chambre propre', 'fr', 'en')).toMatchObject({ text: '[en] Chambre propre', translated: true });
+    // Reviews already in the target language are not sent
+    expect(await translateReview('Clean room', 'en', 'en')).toMatchObject({ translated: false });
+    expect(fake.translate).toHaveBeenCalledTimes(1);
+  });
+
+  test('falls back to the no-op provider for unknown names', () => {
+    process.env.TRANSLATION_PROVIDER = 'deepl';
+    expect(getTranslationProvider()).toBeInstanceOf(NoopTranslationProvider);
+  });
+});
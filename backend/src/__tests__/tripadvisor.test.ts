@@ -38,6 +38,13 @@ describe('parseRankingString', () => {
     expect(result.context).toBe('of 50 Hotels in Bangkok');
   });
 
+  test('parses totals with thousands separators', () => {
+    const result = parseRankingString('#15 of 1,834 hotels in Paris');
+    expect(result.position).toBe(15);
+    expect(result.total).toBe(1834);
+    expect(result.context).toBe('of 1834 hotels in Paris');
+  });
+
   test('handles unrecognized format', () => {
     const result = parseRankingString('Top Rated Hotel');
     expect(result.position).toBe(0);
@@ -407,6 +414,36 @@ describe('TripAdvisor API mocked tests', () => {
       expect(result.reviews[0].title).toBe('Great!');
     });
   });
+
+  describe('rate limiting', () => {
+    test('raises a rate limit error with the Retry-After delay', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: { get: (name: string) => (name === 'Retry-After' ? '30' : null) },
+        text: () => Promise.resolve('Too Many Requests'),
+      });
+
+      const { getLocationDetails, TripAdvisorRateLimitError } = require('../services/tripadvisor.js');
+      const error = await getLocationDetails('123456').catch((err: Error) => err);
+
+      expect(error).toBeInstanceOf(TripAdvisorRateLimitError);
+      expect(error.retryAfterSeconds).toBe(30);
+    });
+
+    test('defaults the delay when Retry-After is missing', async () => {
+      mockFetch.mockResolvedValueOnce({
+        ok: false,
+        status: 429,
+        headers: { get: () => null },
+        text: () => Promise.resolve('Too Many Requests'),
+      });
+
+      const { getLocationReviews } = require('../services/tripadvisor.js');
+
+      await expect(getLocationReviews('123456')).rejects.toMatchObject({ retryAfterSeconds: 60 });
+    });
+  });
 });
 
 describe('Integration with Eywa Score', () => {
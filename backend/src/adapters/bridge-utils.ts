@@ -0,0 +1,4 @@
+// Helpers shared by the PMS contract bridges (Elektraweb, HotelRunner)
+
+// Turkish channel APIs require a date window for reservation queries
+export const DEFAULT_RESERVATION_WINDOW_DAYS = 30;
@@ -0,0 +1,243 @@
+// Elektraweb PMS bridge
+// Exposes the Elektraweb client through the shared PMS adapter contract so
+// Turkish hotels can be routed by the PMS router like any other PMS.
+
+import { ariDates, ariResults, hasAriRateFields, CORE_READS } from '../../../shared/pms-contract';
+import type {
+  IPMSAdapter,
+  IAriUpdater,
+  IReservationCreator,
+  IReservationModifier,
+  IReservationCanceller,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  CreateReservationInput,
+  ModifyReservationInput,
+  WriteOptions,
+  CancelReservationOptions,
+  AriUpdate,
+  AriDateResult,
+  PMSCapabilities,
+} from '../../../shared/pms-contract';
+import type { ElektrawebAdapter, ElektrawebRate, ElektrawebReservation } from './elektraweb';
+import { dateOffset } from '../utils/dates';
+import { withoutUndefined } from '../utils/objects';
+import { DEFAULT_RESERVATION_WINDOW_DAYS } from './bridge-utils';
+
+export class ElektrawebPMSAdapter
+  implements IPMSAdapter, IReservationCreator, IReservationModifier, IReservationCanceller, IAriUpdater
+{
+  name = 'Elektraweb';
+
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'invoices'],
+    writes: ['createReservation', 'modifyReservation', 'cancelReservation', 'ari', 'checkIn', 'checkOut'],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'room_rates'
+  };
+
+  constructor(
+    private readonly client: ElektrawebAdapter,
+    private readonly apiKey: string
+  ) {}
+
+  // Elektraweb authenticates every request with the API key; verify it against /hotel
+  async authenticate(): Promise<string> {
+    await this.client.getHotelInfo();
+    return this.apiKey;
+  }
+
+  async getConfiguration(): Promise<HotelConfiguration> {
+    const hotel = await this.client.getHotelInfo();
+    const address = [hotel.address, hotel.district, hotel.city].filter(Boolean).join(', ');
+
+    return {
+      id: hotel.code,
+      name: hotel.name || hotel.nameTr || hotel.code,
+      timezone: 'Europe/Istanbul',
+      currency: hotel.currency || 'TRY',
+      address: address || undefined
+    };
+  }
+
+  async getAvailability(params: AvailabilityParams): Promise<Availability[]> {
+    const rates = await this.client.getAvailability(
+      params.startDate,
+      params.endDate,
+      params.roomTypeId ? [params.roomTypeId] : undefined
+    );
+
+    return rates.map(rate => ({
+      date: rate.date,
+      roomTypeId: rate.roomCode,
+      available: rate.stopSale ? 0 : rate.availability,
+      rate: rate.doubleRate || rate.singleRate || 0
+    }));
+  }
+
+  async getReservations(params: ReservationParams = {}): Promise<Reservation[]> {
+    const reservations = await this.client.getReservations(
+      params.startDate || dateOffset(-DEFAULT_RESERVATION_WINDOW_DAYS),
+      params.endDate || dateOffset(DEFAULT_RESERVATION_WINDOW_DAYS),
+      params.status
+    );
+
+    return reservations.map(reservation => this.mapReservation(reservation));
+  }
+
+  async getRoomTypes(): Promise<RoomType[]> {
+    const rooms = await this.client.getRooms();
+
+    return rooms.map(room => ({
+      id: room.code,
+      name: room.nameEn || room.name,
+      capacity: room.maxOccupancy || room.maxAdults || 2,
+      description: room.descriptionEn || room.description || undefined
+    }));
+  }
+
+  // Elektraweb has no rate plan catalogue; expose each room's base rate
+  async getRates(): Promise<Rate[]> {
+    const [rooms, hotel] = await Promise.all([this.client.getRooms(), this.client.getHotelInfo()]);
+
+    return rooms.map(room => ({
+      id: `base_${room.code}`,
+      name: `${room.nameEn || room.name} - Base Rate`,
+      roomTypeId: room.code,
+      price: room.baseRate || 0,
+      currency: hotel.currency || 'TRY'
+    }));
+  }
+
+  // Write capabilities
+
+  async createReservation(input: CreateReservationInput, options: WriteOptions): Promise<Reservation> {
+    const created = await this.client.createReservation(
+      {
+        guestName: input.guest.firstName,
+        guestSurname: input.guest.lastName,
+        guestEmail: input.guest.email,
+        guestPhone: input.guest.phone,
+        checkIn: input.checkIn,
+        checkOut: input.checkOut,
+        roomCode: input.roomTypeId,
+        roomCount: 1,
+        adults: input.adults,
+        children: input.children ?? 0,
+        childrenAges: input.childrenAges ?? [],
+        totalAmount: input.totalAmount,
+        currency: input.currency,
+        notes: input.notes,
+        source: 'eywa'
+      },
+      { idempotencyKey: options.idempotencyKey }
+    );
+
+    return this.mapReservation(created);
+  }
+
+  async modifyReservation(
+    reservationId: string,
+    changes: ModifyReservationInput,
+    options: WriteOptions
+  ): Promise<Reservation> {
+    const updates = withoutUndefined<ElektrawebReservation>({
+      checkIn: changes.checkIn,
+      checkOut: changes.checkOut,
+      roomCode: changes.roomTypeId,
+      adults: changes.adults,
+      children: changes.children,
+      childrenAges: changes.childrenAges,
+      notes: changes.notes,
+      guestName: changes.guest?.firstName,
+      guestSurname: changes.guest?.lastName,
+      guestEmail: changes.guest?.email,
+      guestPhone: changes.guest?.phone
+    });
+
+    await this.client.updateReservation(reservationId, updates, { idempotencyKey: options.idempotencyKey });
+    return this.mapReservation(await this.client.getReservation(reservationId));
+  }
+
+  async cancelReservation(reservationId: string, options: CancelReservationOptions): Promise<void> {
+    await this.client.cancelReservation(reservationId, options.reason, { idempotencyKey: options.idempotencyKey });
+  }
+
+  // Front desk and e-Fatura (Elektraweb-specific)
+
+  async checkIn(reservationId: string, roomNumber?: string): Promise<void> {
+    await this.client.checkIn(reservationId, roomNumber);
+  }
+
+  async checkOut(reservationId: string): Promise<void> {
+    await this.client.checkOut(reservationId);
+  }
+
+  async getInvoices(startDate: string, endDate: string): Promise<any[]> {
+    return this.client.getInvoices(startDate, endDate);
+  }
+
+  // ARI push - rates/restrictions, availability and stop sale are separate
+  // Elektraweb calls; an update's dates fail together if any call fails
+
+  async updateAri(updates: AriUpdate[]): Promise<AriDateResult[]> {
+    const results: AriDateResult[] = [];
+
+    for (const update of updates) {
+      try {
+        const dates = ariDates(update);
+
+        if (hasAriRateFields(update)) {
+          await this.client.updateRates(dates.map(date => withoutUndefined<ElektrawebRate>({
+            roomCode: update.roomTypeId,
+            date,
+            doubleRate: update.rate,
+            currency: update.currency,
+            minStay: update.minStay,
+            maxStay: update.maxStay,
+            closedToArrival: update.closedToArrival,
+            closedToDeparture: update.closedToDeparture
+          })));
+        }
+
+        if (update.available !== undefined) {
+          await this.client.updateAvailability(dates.map(date => ({
+            roomCode: update.roomTypeId,
+            date,
+            availability: update.available
+          })));
+        }
+
+        if (update.stopSell !== undefined) {
+          await this.client.setStopSale(update.roomTypeId, update.startDate, update.endDate, update.stopSell);
+        }
+
+        results.push(...ariResults(update));
+      } catch (error: any) {
+        results.push(...ariResults(update, error.message || 'Elektraweb ARI update failed'));
+      }
+    }
+
+    return results;
+  }
+
+  private mapReservation(reservation: ElektrawebReservation): Reservation {
+    return {
+      id: reservation.id || reservation.reservationNo,
+      guestName: [reservation.guestName, reservation.guestSurname].filter(Boolean).join(' ') || 'Guest',
+      roomTypeId: reservation.roomCode,
+      checkIn: reservation.checkIn,
+      checkOut: reservation.checkOut,
+      status: reservation.status || 'confirmed',
+      totalAmount: reservation.totalAmount ?? 0,
+      currency: reservation.currency || 'TRY',
+      source: reservation.agencyCode || reservation.source || undefined
+    };
+  }
+}
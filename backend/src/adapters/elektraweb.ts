@@ -6,7 +6,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 
-interface ElektrawebConfig {
+export interface ElektrawebConfig {
   apiKey: string;
   apiUrl?: string;
   hotelCode: string;
@@ -118,6 +118,10 @@ export interface ElektrawebGuest {
   notes: string;
 }
 
+export interface ElektrawebWriteOptions {
+  idempotencyKey?: string;
+}
+
 export class ElektrawebAdapter {
   private client: AxiosInstance;
   private config: ElektrawebConfig;
@@ -187,7 +191,7 @@ export class ElektrawebAdapter {
     return response.data.rates || response.data;
   }
 
-  async updateRates(rates: ElektrawebRate[]): Promise<void> {
+  async updateRates(rates: Partial<ElektrawebRate>[]): Promise<void> {
     await this.client.put('/rates', { rates });
   }
 
@@ -229,18 +233,30 @@ export class ElektrawebAdapter {
     return response.data;
   }
 
-  async createReservation(reservation: Partial<ElektrawebReservation>): Promise<ElektrawebReservation> {
-    const response = await this.client.post('/reservations', reservation);
+  async createReservation(
+    reservation: Partial<ElektrawebReservation>,
+    options: ElektrawebWriteOptions = {}
+  ): Promise<ElektrawebReservation> {
+    const response = await this.client.post('/reservations', reservation, {
+      headers: this.writeHeaders(options)
+    });
     return response.data;
   }
 
-  async updateReservation(reservationId: string, updates: Partial<ElektrawebReservation>): Promise<void> {
-    await this.client.put(`/reservations/${reservationId}`, updates);
+  async updateReservation(
+    reservationId: string,
+    updates: Partial<ElektrawebReservation>,
+    options: ElektrawebWriteOptions = {}
+  ): Promise<void> {
+    await this.client.put(`/reservations/${reservationId}`, updates, {
+      headers: this.writeHeaders(options)
+    });
   }
 
-  async cancelReservation(reservationId: string, reason?: string): Promise<void> {
+  async cancelReservation(reservationId: string, reason?: string, options: ElektrawebWriteOptions = {}): Promise<void> {
     await this.client.delete(`/reservations/${reservationId}`, {
-      data: { reason }
+      data: { reason },
+      headers: this.writeHeaders(options)
     });
   }
 
@@ -305,6 +321,10 @@ export class ElektrawebAdapter {
     return response.data;
   }
 
+  private writeHeaders(options: ElektrawebWriteOptions): Record<string, string> {
+    return options.idempotencyKey ? { 'Idempotency-Key': options.idempotencyKey } : {};
+  }
+
   // Health check
   async healthCheck(): Promise<boolean> {
     try {
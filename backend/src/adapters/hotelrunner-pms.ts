@@ -0,0 +1,170 @@
+// HotelRunner PMS bridge
+// Exposes one HotelRunner property through the shared PMS adapter contract so
+// the PMS router can read bookings and push ARI through the channel manager.
+
+import { ariDates, ariResults, hasAriRateFields, CORE_READS } from '../../../shared/pms-contract';
+import type {
+  IPMSAdapter,
+  IAriUpdater,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  AriUpdate,
+  AriDateResult,
+  PMSCapabilities,
+} from '../../../shared/pms-contract';
+import type { HotelRunnerAdapter, HotelRunnerRate } from './hotelrunner';
+import { dateOffset } from '../utils/dates';
+import { withoutUndefined } from '../utils/objects';
+import { DEFAULT_RESERVATION_WINDOW_DAYS } from './bridge-utils';
+
+export class HotelRunnerPMSAdapter implements IPMSAdapter, IAriUpdater {
+  name = 'HotelRunner';
+
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'channels'],
+    writes: ['ari'],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'room_rates'
+  };
+
+  constructor(
+    private readonly client: HotelRunnerAdapter,
+    private readonly propertyId: string,
+    private readonly apiKey: string
+  ) {}
+
+  // HotelRunner uses a static bearer key; verify it can read the property
+  async authenticate(): Promise<string> {
+    await this.client.getProperty(this.propertyId);
+    return this.apiKey;
+  }
+
+  async getConfiguration(): Promise<HotelConfiguration> {
+    const property = await this.client.getProperty(this.propertyId);
+    const address = [property.address, property.city, property.country].filter(Boolean).join(', ');
+
+    return {
+      id: property.id,
+      name: property.name,
+      timezone: property.timezone || 'Europe/Istanbul',
+      currency: property.currency || 'TRY',
+      address: address || undefined
+    };
+  }
+
+  async getAvailability(params: AvailabilityParams): Promise<Availability[]> {
+    const rates = await this.client.getAvailability(
+      this.propertyId,
+      params.startDate,
+      params.endDate,
+      params.roomTypeId ? [params.roomTypeId] : undefined
+    );
+
+    return rates.map(rate => ({
+      date: rate.date,
+      roomTypeId: rate.roomTypeId,
+      available: rate.availability,
+      rate: rate.rate || 0
+    }));
+  }
+
+  async getReservations(params: ReservationParams = {}): Promise<Reservation[]> {
+    const bookings = await this.client.getBookings(
+      this.propertyId,
+      params.startDate || dateOffset(-DEFAULT_RESERVATION_WINDOW_DAYS),
+      params.endDate || dateOffset(DEFAULT_RESERVATION_WINDOW_DAYS),
+      params.status
+    );
+
+    return bookings.map(booking => ({
+      id: booking.id || booking.confirmationNumber,
+      confirmationNumber: booking.confirmationNumber || undefined,
+      guestName: booking.guestName || 'Guest',
+      roomTypeId: booking.roomTypeId,
+      checkIn: booking.checkIn,
+      checkOut: booking.checkOut,
+      status: booking.status || 'confirmed',
+      totalAmount: booking.totalAmount ?? 0,
+      currency: booking.currency || 'TRY',
+      source: booking.source || undefined
+    }));
+  }
+
+  async getRoomTypes(): Promise<RoomType[]> {
+    const roomTypes = await this.client.getRoomTypes(this.propertyId);
+
+    return roomTypes.map(roomType => ({
+      id: roomType.id,
+      name: roomType.nameEn || roomType.name,
+      capacity: roomType.maxOccupancy || roomType.maxAdults || 2
+    }));
+  }
+
+  // HotelRunner prices per room type; expose each room type's base rate
+  async getRates(): Promise<Rate[]> {
+    const [roomTypes, property] = await Promise.all([
+      this.client.getRoomTypes(this.propertyId),
+      this.client.getProperty(this.propertyId)
+    ]);
+
+    return roomTypes.map(roomType => ({
+      id: `base_${roomType.id}`,
+      name: `${roomType.nameEn || roomType.name} - Base Rate`,
+      roomTypeId: roomType.id,
+      price: roomType.baseRate || 0,
+      currency: property.currency || 'TRY'
+    }));
+  }
+
+  // OTA channels connected to the property (HotelRunner-specific)
+  async getChannels(): Promise<any[]> {
+    return this.client.getConnectedChannels(this.propertyId);
+  }
+
+  // ARI push - rates/restrictions go to /rates, availability and stop sell
+  // to /inventory; an update's dates fail together if either call fails
+
+  async updateAri(updates: AriUpdate[]): Promise<AriDateResult[]> {
+    const results: AriDateResult[] = [];
+
+    for (const update of updates) {
+      try {
+        const dates = ariDates(update);
+
+        if (hasAriRateFields(update)) {
+          await this.client.updateRates(this.propertyId, dates.map(date => withoutUndefined<HotelRunnerRate>({
+            roomTypeId: update.roomTypeId,
+            date,
+            rate: update.rate,
+            currency: update.currency,
+            minStay: update.minStay,
+            maxStay: update.maxStay,
+            closedToArrival: update.closedToArrival,
+            closedToDeparture: update.closedToDeparture
+          })));
+        }
+
+        if (update.available !== undefined || update.stopSell !== undefined) {
+          await this.client.updateInventory(this.propertyId, dates.map(date => withoutUndefined({
+            roomTypeId: update.roomTypeId,
+            date,
+            availability: update.available,
+            stopSell: update.stopSell
+          })));
+        }
+
+        results.push(...ariResults(update));
+      } catch (error: any) {
+        results.push(...ariResults(update, error.message || 'HotelRunner ARI update failed'));
+      }
+    }
+
+    return results;
+  }
+}
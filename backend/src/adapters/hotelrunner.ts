@@ -5,7 +5,7 @@
 
 import axios, { AxiosInstance } from 'axios';
 
-interface HotelRunnerConfig {
+export interface HotelRunnerConfig {
   apiKey: string;
   apiUrl?: string;
 }
@@ -134,7 +134,7 @@ export class HotelRunnerAdapter {
     return response.data.rates || response.data;
   }
 
-  async updateRates(propertyId: string, rates: HotelRunnerRate[]): Promise<void> {
+  async updateRates(propertyId: string, rates: Partial<HotelRunnerRate>[]): Promise<void> {
     await this.client.put(`/properties/${propertyId}/rates`, { rates });
   }
 
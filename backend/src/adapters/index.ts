@@ -15,9 +15,15 @@ export type {
   ElektrawebRoom, 
   ElektrawebRate, 
   ElektrawebReservation,
-  ElektrawebGuest 
+  ElektrawebGuest,
+  ElektrawebConfig,
+  ElektrawebWriteOptions
 } from './elektraweb';
 
+// Shared PMS contract bridges (used by the PMS router)
+export { ElektrawebPMSAdapter } from './elektraweb-pms';
+export { HotelRunnerPMSAdapter } from './hotelrunner-pms';
+
 // Adapter factory for Turkish market
 export type TurkishPMSType = 'hotelrunner' | 'elektraweb';
 
@@ -8,9 +8,13 @@ import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import { query } from '../utils/db.js';
 import * as reviewSync from '../services/review-sync.js';
+import * as reviewIngestion from '../services/review-ingestion.js';
 import * as hotelMatching from '../services/hotel-matching.js';
 import * as cronScheduler from '../services/cron-scheduler.js';
 import * as googlePlaces from '../services/google-places.js';
+import * as vault from '../services/credential-vault.js';
+import * as dailyStats from '../services/daily-stats.js';
+import { ServiceError } from '../utils/errors.js';
 
 /**
  * POST /api/admin/sync/trigger
@@ -250,44 +254,8 @@ export const autoLinkHotel = async (req: AuthRequest, res: Response) => {
     );
     
     // Fetch initial ratings and reviews
-    const details = await googlePlaces.getPlaceDetails(bestMatch.placeId);
-    if (details) {
-      // Store rating
-      await query(
-        `INSERT INTO hotel_ratings (hotel_id, source, rating, review_count, fetched_at)
-         VALUES ($1, 'google', $2, $3, NOW())
-         ON CONFLICT (hotel_id, source, DATE(fetched_at))
-         DO UPDATE SET rating = $2, review_count = $3, fetched_at = NOW()`,
-        [hotelId, details.rating, details.user_ratings_total]
-      );
-      
-      // Store reviews
-      for (const review of details.reviews) {
-        const publishedAt = review.time ? new Date(review.time * 1000) : null;
-        await query(
-          `INSERT INTO hotel_reviews (
-             hotel_id, source, external_review_id, author_name, author_url,
-             profile_photo_url, rating, text, language, relative_time_description, published_at
-           ) VALUES ($1, 'google', $2, $3, $4, $5, $6, $7, $8, $9, $10)
-           ON CONFLICT (hotel_id, source, external_review_id) 
-           DO UPDATE SET 
-             author_name = $3, rating = $6, text = $7, 
-             relative_time_description = $9, fetched_at = NOW()`,
-          [
-            hotelId,
-            `google_${review.time}`,
-            review.author_name,
-            review.author_url,
-            review.profile_photo_url,
-            review.rating,
-            review.text,
-            review.language,
-            review.relative_time_description,
-            publishedAt,
-          ]
-        );
-      }
-    }
+    const ingested = await reviewIngestion.ingestSource(hotelId, 'google', bestMatch.placeId);
+    await reviewIngestion.computeAndStoreEywaScore(hotelId);
     
     res.json({
       hotelId,
@@ -299,8 +267,8 @@ export const autoLinkHotel = async (req: AuthRequest, res: Response) => {
         placeId: bestMatch.placeId,
         name: bestMatch.name,
         address: bestMatch.formattedAddress,
-        rating: details?.rating || bestMatch.rating,
-        reviewCount: details?.user_ratings_total || bestMatch.reviewCount,
+        rating: ingested.rating.rating || bestMatch.rating,
+        reviewCount: ingested.rating.reviewCount || bestMatch.reviewCount,
         confidence: bestMatch.confidence,
         confidenceFormatted: hotelMatching.formatConfidence(bestMatch.confidence),
         isVerified: bestMatch.confidence >= 0.85,
@@ -465,3 +433,59 @@ export const getHotelSyncStatus = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ error: err.message });
   }
 };
+
+/**
+ * POST /api/admin/vault/rotate
+ * Re-encrypt stored PMS/OTA secrets with the active vault master key
+ */
+export const rotateVaultKeys = async (_req: AuthRequest, res: Response) => {
+  try {
+    const result = await vault.rotateStoredSecrets();
+
+    res.json({
+      message: 'Vault rotation completed',
+      activeKeyId: vault.loadKeyring().activeKeyId,
+      stats: result,
+    });
+  } catch (err: any) {
+    console.error('Error rotating vault keys:', err);
+    res.status(500).json({ error: err.message });
+  }
+};
+
+/**
+ * POST /api/admin/stats/daily/backfill
+ * Materialize daily_stats for a date range (all active hotels, or hotelIds)
+ */
+export const backfillDailyStats = async (req: AuthRequest, res: Response) => {
+  try {
+    const { from, to, hotelIds } = req.body;
+
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to are required' });
+    }
+
+    if (hotelIds !== undefined && !Array.isArray(hotelIds)) {
+      return res.status(400).json({ error: 'hotelIds must be an array' });
+    }
+
+    const result = await dailyStats.runDailyStatsJob({ startDate: from, endDate: to, hotelIds });
+
+    res.json({
+      message: 'Daily stats backfill completed',
+      from: result.startDate,
+      to: result.endDate,
+      stats: {
+        total: result.hotelsTotal,
+        success: result.hotelsSuccess,
+        failed: result.hotelsFailed,
+        duration: `${result.duration}ms`,
+      },
+      errors: result.hotelsFailed > 0 ? result.results.filter(r => r.error).slice(0, 10) : undefined,
+    });
+  } catch (err: any) {
+    console.error('Error backfilling daily stats:', err);
+    const status = err instanceof ServiceError ? err.status : 500;
+    res.status(status).json({ error: err.message });
+  }
+};
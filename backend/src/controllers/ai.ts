@@ -1,6 +1,11 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import { query } from '../utils/db.js';
+import * as roiEngine from '../services/roi-engine.js';
+import * as aiSessions from '../services/ai-sessions.js';
+import * as aiExperiments from '../services/ai-experiments.js';
+import { dateOffset } from '../utils/dates.js';
+import { ServiceError } from '../utils/errors.js';
 
 export const getProviders = async (_req: AuthRequest, res: Response) => {
   try {
@@ -82,62 +87,98 @@ export const getAISessions = async (req: AuthRequest, res: Response) => {
   }
 };
 
-export const getROIMetrics = async (req: AuthRequest, res: Response) => {
-  try {
-    const hotelId = req.user?.hotel_id;
+function sendSessionError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
 
-    // Get licence cost
-    const licenceResult = await query(
-      'SELECT monthly_fee FROM licences WHERE hotel_id = $1',
-      [hotelId]
-    );
-    const monthlyFee = licenceResult.rows[0]?.monthly_fee || 0;
-
-    // Get AI costs
-    const aiResult = await query(
-      `SELECT COALESCE(SUM(cost), 0) as ai_cost
-       FROM ai_sessions 
-       WHERE hotel_id = $1 AND created_at > NOW() - INTERVAL '30 days'`,
-      [hotelId]
-    );
-    const aiCost = parseFloat(aiResult.rows[0].ai_cost);
+// Record one AI session (cost is computed from the provider prices)
+export const ingestSession = async (req: AuthRequest, res: Response) => {
+  try {
+    const session = await aiSessions.ingestSession(req.user?.hotel_id as string, req.body);
+    res.status(session.created ? 201 : 200).json(session);
+  } catch (err: any) {
+    sendSessionError(res, err);
+  }
+};
 
-    // Get direct bookings revenue (that would have been OTA)
-    const directResult = await query(
-      `SELECT 
-        COUNT(*) as direct_bookings,
-        COALESCE(SUM(total_revenue), 0) as direct_revenue
-       FROM bookings b
-       JOIN channels c ON b.channel_id = c.id
-       WHERE b.hotel_id = $1 
-         AND c.slug = 'direct'
-         AND b.ai_assisted = true
-         AND b.created_at > NOW() - INTERVAL '30 days'`,
-      [hotelId]
-    );
+// Record up to MAX_BATCH_SIZE sessions; invalid ones are reported by index
+export const ingestSessionBatch = async (req: AuthRequest, res: Response) => {
+  try {
+    const result = await aiSessions.ingestSessions(req.user?.hotel_id as string, req.body?.sessions);
+    res.status(result.accepted > 0 ? 200 : 400).json(result);
+  } catch (err: any) {
+    sendSessionError(res, err);
+  }
+};
 
-    const directRevenue = parseFloat(directResult.rows[0].direct_revenue);
-    const avgOTACommission = 0.15; // 15% average
-    const commissionSaved = directRevenue * avgOTACommission;
-    const totalEywaCost = monthlyFee + aiCost;
-    const netGain = commissionSaved - totalEywaCost;
-    const roi = totalEywaCost > 0 ? (netGain / totalEywaCost * 100) : 0;
+export const getROIMetrics = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.user?.hotel_id as string;
+    const roi = await roiEngine.calculateRoi(hotelId, dateOffset(-30), dateOffset(-1));
 
     res.json({
       period: 'last_30_days',
       eywa_cost: {
-        licence: monthlyFee,
-        ai: aiCost,
-        total: totalEywaCost
+        licence: roi.licenceCost,
+        ai: roi.aiCost,
+        total: roi.eywaCost
       },
-      direct_bookings: parseInt(directResult.rows[0].direct_bookings),
-      direct_revenue: directRevenue,
-      commission_saved: commissionSaved,
-      net_gain: netGain,
-      roi_percentage: roi.toFixed(2)
+      direct_bookings: roi.aiDirectBookings,
+      direct_revenue: roi.aiDirectRevenue,
+      displacement_rate: roi.displacementRate,
+      revenue_gained: roi.revenueGained,
+      commission_rate: roi.commissionRate,
+      commission_saved: roi.commissionSaved,
+      channels: roi.channels,
+      time_saved_hours: roi.timeSavedHours,
+      net_gain: roi.netGain,
+      roi_percentage: roi.roiPercentage.toFixed(2)
     });
   } catch (err: any) {
-    res.status(500).json({ error: err.message });
+    sendRoiError(res, err);
+  }
+};
+
+function sendRoiError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
+
+// Stored weekly / monthly / quarterly ROI snapshots
+export const getROIHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const period = String(req.query.period || 'monthly') as roiEngine.RoiPeriodType;
+    const limit = Math.min(Math.max(Number(req.query.limit) || 12, 1), 104);
+
+    const snapshots = await roiEngine.listRoiSnapshots(req.user?.hotel_id as string, period, limit);
+    res.json({ period, snapshots });
+  } catch (err: any) {
+    sendRoiError(res, err);
+  }
+};
+
+export const getROISettings = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await roiEngine.getRoiSettings(req.user?.hotel_id as string));
+  } catch (err: any) {
+    sendRoiError(res, err);
+  }
+};
+
+export const updateROISettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const { displacementRate, commissionOverrides, minutesPerSession } = req.body;
+    const changes: Partial<roiEngine.RoiSettings> = {};
+
+    if (displacementRate !== undefined) changes.displacementRate = displacementRate;
+    if (commissionOverrides !== undefined) changes.commissionOverrides = commissionOverrides;
+    if (minutesPerSession !== undefined) changes.minutesPerSession = minutesPerSession;
+
+    const settings = await roiEngine.updateRoiSettings(req.user?.hotel_id as string, changes);
+    res.json(settings);
+  } catch (err: any) {
+    sendRoiError(res, err);
   }
 };
 
@@ -169,3 +210,54 @@ export const compareProviders = async (req: AuthRequest, res: Response) => {
     res.status(500).json({ error: err.message });
   }
 };
+
+function sendExperimentError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
+
+export const listExperiments = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await aiExperiments.listExperiments(req.user?.hotel_id as string));
+  } catch (err: any) {
+    sendExperimentError(res, err);
+  }
+};
+
+// { name, variants: [{ provider, weight }], primaryMetric?, minSessionsPerVariant?, confidenceLevel?, autoPromote? }
+export const createExperiment = async (req: AuthRequest, res: Response) => {
+  try {
+    const experiment = await aiExperiments.createExperiment(req.user?.hotel_id as string, req.body || {});
+    res.status(201).json(experiment);
+  } catch (err: any) {
+    sendExperimentError(res, err);
+  }
+};
+
+// Confidence intervals and significance per variant (read-only: winners are
+// promoted only by the experiments cron job; stopping never promotes)
+export const getExperimentResults = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await aiExperiments.getExperimentResults(req.user?.hotel_id as string, req.params.id));
+  } catch (err: any) {
+    sendExperimentError(res, err);
+  }
+};
+
+export const stopExperiment = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await aiExperiments.stopExperiment(req.user?.hotel_id as string, req.params.id));
+  } catch (err: any) {
+    sendExperimentError(res, err);
+  }
+};
+
+// Provider for a new guest session handled outside the built-in assistant
+export const assignExperimentProvider = async (req: AuthRequest, res: Response) => {
+  try {
+    const route = await aiExperiments.routeSession(req.user?.hotel_id as string);
+    res.json(route || { provider: null, experimentId: null });
+  } catch (err: any) {
+    sendExperimentError(res, err);
+  }
+};
@@ -0,0 +1,179 @@
+/**
+ * Alerts Controller
+ *
+ * Per-hotel alert rules and the alerts they fired (stored in notifications).
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import * as alertRules from '../services/alert-rules.js';
+import { ServiceError } from '../utils/errors.js';
+
+function sendAlertError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  if (status === 500) console.error('Alert rules error:', err);
+  res.status(status).json({ error: err.message });
+}
+
+/**
+ * GET /api/hotels/:id/alert-rules
+ * Returns the hotel's alert rules and the available rule types
+ */
+export const listRules = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json({
+      hotelId,
+      types: alertRules.ALERT_RULE_TYPES,
+      severities: alertRules.ALERT_SEVERITIES,
+      rules: await alertRules.listRules(hotelId),
+    });
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+/**
+ * POST /api/hotels/:id/alert-rules
+ * { name, type, params?, severity?, cooldownMinutes?, enabled? }
+ */
+export const createRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.status(201).json(await alertRules.createRule(hotelId, req.body || {}, req.user.id));
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+/**
+ * PUT /api/hotels/:id/alert-rules/:ruleId
+ * Same fields as creation, all optional (params are replaced as a whole)
+ */
+export const updateRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await alertRules.updateRule(hotelId, req.params.ruleId, req.body || {}));
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+// DELETE /api/hotels/:id/alert-rules/:ruleId
+export const deleteRule = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    await alertRules.deleteRule(hotelId, req.params.ruleId);
+    res.status(204).send();
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+/**
+ * POST /api/hotels/:id/alert-rules/evaluate
+ * Evaluates the hotel's enabled rules now (they also run every hour)
+ */
+export const evaluateRules = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const evaluations = await alertRules.evaluateHotelRules(hotelId);
+    res.json({
+      hotelId,
+      evaluations,
+      fired: evaluations.reduce((sum, evaluation) => sum + evaluation.fired.length, 0),
+    });
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+/**
+ * GET /api/hotels/:id/alerts
+ * Alerts fired by the hotel's rules (?status=open|snoozed|acknowledged|all, default open; ?limit=, max 200)
+ */
+export const listAlerts = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const status = (req.query.status as alertRules.AlertStatus | 'all') || 'open';
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const alerts = await alertRules.listAlerts(hotelId, status, limit);
+    res.json({ hotelId, status, alerts, total: alerts.length });
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+/**
+ * POST /api/hotels/:id/alerts/:alertId/acknowledge
+ * Closes an alert; its condition can fire again after the rule's cooldown
+ */
+export const acknowledgeAlert = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await alertRules.acknowledgeAlert(hotelId, req.params.alertId, req.user.id));
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
+
+/**
+ * POST /api/hotels/:id/alerts/:alertId/snooze
+ * { minutes } - hides an open alert until then
+ */
+export const snoozeAlert = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await alertRules.snoozeAlert(hotelId, req.params.alertId, req.body?.minutes));
+  } catch (err: any) {
+    sendAlertError(res, err);
+  }
+};
@@ -2,7 +2,7 @@
  * Analytics Controller
  * 
  * Provides endpoints for:
- * - Dashboard widgets (summary, timeline, sentiment)
+ * - Dashboard widgets (summary, timeline, sentiment, review aspects)
  * - Trend tracking
  * - Competitor analysis
  * - Market positioning
@@ -13,6 +13,8 @@ import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import { query } from '../utils/db.js';
 import * as analytics from '../services/analytics.js';
+import * as reviewReplies from '../services/review-replies.js';
+import * as aspectSentiment from '../services/aspect-sentiment.js';
 
 /**
  * GET /api/hotels/:id/analytics/summary
@@ -198,7 +200,7 @@ export const getReviewSentiment = async (req: AuthRequest, res: Response) => {
 
     // Get reviews with ratings
     const reviewsResult = await query(
-      `SELECT rating, source, published_at
+      `SELECT rating, source, language, published_at
        FROM hotel_reviews 
        WHERE hotel_id = $1 
        AND published_at >= NOW() - INTERVAL '${periodDays} days'`,
@@ -208,22 +210,15 @@ export const getReviewSentiment = async (req: AuthRequest, res: Response) => {
     const reviews = reviewsResult.rows.map(r => ({
       rating: r.rating,
       source: r.source,
+      language: r.language as string | null,
       publishedAt: r.published_at,
     }));
 
     const sentiment = analytics.calculateSentiment(reviews);
 
-    // Breakdown by source
-    const bySource: Record<string, analytics.SentimentBreakdown> = {};
-    const sourceGroups = reviews.reduce((acc, r) => {
-      if (!acc[r.source]) acc[r.source] = [];
-      acc[r.source].push(r);
-      return acc;
-    }, {} as Record<string, typeof reviews>);
-
-    for (const [source, sourceReviews] of Object.entries(sourceGroups)) {
-      bySource[source] = analytics.calculateSentiment(sourceReviews);
-    }
+    // Breakdown by source and by review language (detected on ingest)
+    const bySource = analytics.calculateSentimentBy(reviews, r => r.source);
+    const byLanguage = analytics.calculateSentimentBy(reviews, r => r.language || 'unknown');
 
     // Rating distribution
     const ratingDistribution = [1, 2, 3, 4, 5].map(rating => ({
@@ -239,6 +234,7 @@ export const getReviewSentiment = async (req: AuthRequest, res: Response) => {
       period,
       overall: sentiment,
       bySource,
+      byLanguage,
       ratingDistribution,
     });
   } catch (err: any) {
@@ -247,6 +243,71 @@ export const getReviewSentiment = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * GET /api/hotels/:id/analytics/aspects
+ * Returns per-aspect sentiment of review text (cleanliness, staff, location, ...)
+ * with its trend against the previous period and the gap to competitors
+ */
+export const getAspects = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const period = (req.query.period as analytics.TrendPeriod) || '30d';
+    if (!['7d', '30d', '90d'].includes(period)) {
+      return res.status(400).json({ error: 'period must be one of: 7d, 30d, 90d' });
+    }
+    const periodDays = parseInt(period);
+
+    // Current and previous period of the hotel's reviews
+    const reviewsResult = await query(
+      `SELECT text, language, published_at >= NOW() - make_interval(days => $2) AS is_current
+       FROM hotel_reviews
+       WHERE hotel_id = $1
+       AND text IS NOT NULL
+       AND published_at >= NOW() - make_interval(days => $2 * 2)`,
+      [hotelId, periodDays]
+    );
+
+    // Current period of the other hotels in the same city
+    const competitorsResult = await query(
+      `SELECT r.hotel_id, r.text, r.language
+       FROM hotels h
+       JOIN hotels c ON c.city = h.city AND c.country = h.country AND c.id != h.id
+       JOIN hotel_reviews r ON r.hotel_id = c.id
+       WHERE h.id = $1
+       AND r.text IS NOT NULL
+       AND r.published_at >= NOW() - make_interval(days => $2)`,
+      [hotelId, periodDays]
+    );
+
+    const current = reviewsResult.rows.filter(r => r.is_current);
+    const previous = reviewsResult.rows.filter(r => !r.is_current);
+
+    const aspects = aspectSentiment.compareAspects(
+      aspectSentiment.summarizeAspects(current),
+      aspectSentiment.summarizeAspects(previous),
+      aspectSentiment.summarizeAspects(competitorsResult.rows)
+    );
+
+    res.json({
+      hotelId,
+      period,
+      reviewsAnalyzed: current.length,
+      competitorCount: new Set(competitorsResult.rows.map(r => r.hotel_id)).size,
+      competitorReviewsAnalyzed: competitorsResult.rows.length,
+      aspects,
+    });
+  } catch (err: any) {
+    console.error('Error fetching aspects:', err);
+    res.status(500).json({ error: err.message });
+  }
+};
+
 /**
  * GET /api/hotels/:id/analytics/alerts
  * Returns detected alerts for a hotel
@@ -292,6 +353,8 @@ export const getAlerts = async (req: AuthRequest, res: Response) => {
 
     const normalReviewRate = parseInt(reviewRateResult.rows[0].count) / 29; // reviews per day
 
+    const unansweredNegativeReviews = await reviewReplies.countUnansweredNegativeReviews(hotelId);
+
     const currentScore = scoresResult.rows[0] ? parseFloat(scoresResult.rows[0].eywa_score) : 0;
     const previousScore = scoresResult.rows[1] ? parseFloat(scoresResult.rows[1].eywa_score) : null;
 
@@ -304,7 +367,8 @@ export const getAlerts = async (req: AuthRequest, res: Response) => {
       currentScore,
       previousScore,
       recentReviews,
-      normalReviewRate
+      normalReviewRate,
+      unansweredNegativeReviews
     );
 
     res.json({
@@ -312,6 +376,7 @@ export const getAlerts = async (req: AuthRequest, res: Response) => {
       alerts,
       alertCount: alerts.length,
       highPriority: alerts.filter(a => a.severity === 'high').length,
+      unansweredNegativeReviews,
     });
   } catch (err: any) {
     console.error('Error fetching alerts:', err);
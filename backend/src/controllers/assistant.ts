@@ -0,0 +1,37 @@
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import * as conversationEngine from '../services/conversation-engine.js';
+import { ServiceError } from '../utils/errors.js';
+
+function sendError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
+
+/**
+ * POST /api/ai/assistant/messages
+ * { message, conversationId? } (a new conversation also accepts provider and sessionType)
+ */
+export const sendMessage = async (req: AuthRequest, res: Response) => {
+  try {
+    const { message, conversationId, provider, sessionType } = req.body || {};
+    const reply = await conversationEngine.sendMessage(req.user?.hotel_id as string, {
+      message,
+      conversationId,
+      provider,
+      sessionType
+    });
+    res.status(conversationId ? 200 : 201).json(reply);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+// GET /api/ai/assistant/conversations/:id
+export const getConversation = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await conversationEngine.getConversation(req.user?.hotel_id as string, req.params.id));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
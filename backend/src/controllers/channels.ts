@@ -0,0 +1,87 @@
+/**
+ * Channels Controller
+ *
+ * Booking channel attribution: per-hotel PMS source mappings and re-running
+ * attribution over stored bookings.
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import { pmsRouter } from '../services/pms-router.js';
+import * as attribution from '../services/channel-attribution.js';
+import { ServiceError } from '../utils/errors.js';
+
+function sendError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
+
+export const listSourceMappings = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.user?.hotel_id as string;
+    const connection = await pmsRouter.getConnection(hotelId);
+
+    res.json({
+      pms_type: connection?.pmsType || null,
+      // Built-in defaults for the hotel's PMS, overridden by the hotel's mappings
+      defaults: connection ? attribution.PMS_SOURCE_DEFAULTS[connection.pmsType] || {} : {},
+      mappings: await attribution.listMappings(hotelId)
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const upsertSourceMapping = async (req: AuthRequest, res: Response) => {
+  try {
+    const { source, channel } = req.body;
+
+    if (!source || !channel) {
+      return res.status(400).json({ error: 'source and channel are required' });
+    }
+
+    const mapping = await attribution.upsertMapping(req.user?.hotel_id as string, String(source), String(channel));
+    res.json(mapping);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const deleteSourceMapping = async (req: AuthRequest, res: Response) => {
+  try {
+    const deleted = await attribution.deleteMapping(req.user?.hotel_id as string, req.params.id);
+
+    if (!deleted) {
+      return res.status(404).json({ error: 'Mapping not found' });
+    }
+
+    res.json({ deleted: true });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+export const getUnmappedSources = async (req: AuthRequest, res: Response) => {
+  try {
+    const sources = await attribution.getUnmappedSources(req.user?.hotel_id as string);
+    res.json({
+      sources,
+      total_bookings: sources.reduce((sum, s) => sum + s.bookings, 0)
+    });
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+// Re-run attribution over stored bookings after mappings changed
+export const reattributeBookings = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.user?.hotel_id as string;
+    const connection = await pmsRouter.getConnection(hotelId);
+    const result = await attribution.reattributeBookings(hotelId, connection?.pmsType);
+
+    res.json(result);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
@@ -1,6 +1,9 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import { query } from '../utils/db.js';
+import * as dailyStats from '../services/daily-stats.js';
+import { dateOffset } from '../utils/dates.js';
+import { ServiceError } from '../utils/errors.js';
 
 export const getHotel = async (req: AuthRequest, res: Response) => {
   try {
@@ -52,7 +55,7 @@ export const getHotelStats = async (req: AuthRequest, res: Response) => {
     const hotelId = req.user?.hotel_id;
 
     // Get various stats
-    const [bookings, revenue, aiSessions, channels] = await Promise.all([
+    const [bookings, revenue, aiSessions, channels, performance] = await Promise.all([
       query(
         `SELECT COUNT(*) as total, 
                 SUM(CASE WHEN channel_id IN (SELECT id FROM channels WHERE slug = 'direct') THEN 1 ELSE 0 END) as direct,
@@ -80,7 +83,9 @@ export const getHotelStats = async (req: AuthRequest, res: Response) => {
          LEFT JOIN bookings b ON c.id = b.channel_id AND b.hotel_id = $1 AND b.created_at > NOW() - INTERVAL '30 days'
          GROUP BY c.id ORDER BY revenue DESC`,
         [hotelId]
-      )
+      ),
+      // Materialized nightly by the daily stats job
+      dailyStats.getDailyStats(hotelId as string, dateOffset(-30), dateOffset(-1))
     ]);
 
     res.json({
@@ -88,9 +93,49 @@ export const getHotelStats = async (req: AuthRequest, res: Response) => {
       bookings: bookings.rows[0],
       revenue: revenue.rows[0],
       ai: aiSessions.rows[0],
-      channels: channels.rows
+      channels: channels.rows,
+      performance: dailyStats.summarizeDailyStats(performance)
     });
   } catch (err: any) {
     res.status(500).json({ error: err.message });
   }
 };
+
+function sendStatsError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
+
+// Daily occupancy, ADR, RevPAR, channel split and AI usage (default: last 30 days)
+export const getDailyStats = async (req: AuthRequest, res: Response) => {
+  try {
+    const from = (req.query.from as string) || dateOffset(-30);
+    const to = (req.query.to as string) || dateOffset(-1);
+    const days = await dailyStats.getDailyStats(req.user?.hotel_id as string, from, to);
+
+    res.json({
+      from,
+      to,
+      days,
+      summary: dailyStats.summarizeDailyStats(days)
+    });
+  } catch (err: any) {
+    sendStatsError(res, err);
+  }
+};
+
+// Recompute a date range for the hotel (e.g. after importing history)
+export const backfillDailyStats = async (req: AuthRequest, res: Response) => {
+  try {
+    const { from, to } = req.body;
+
+    if (!from || !to) {
+      return res.status(400).json({ error: 'from and to are required' });
+    }
+
+    const days = await dailyStats.materializeDailyStats(req.user?.hotel_id as string, String(from), String(to));
+    res.json({ from, to, days: days.length });
+  } catch (err: any) {
+    sendStatsError(res, err);
+  }
+};
@@ -0,0 +1,76 @@
+/**
+ * Notifications Controller
+ *
+ * The current user's delivery preferences and the hotel's delivery log.
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import * as notificationDispatcher from '../services/notification-dispatcher.js';
+import { ServiceError } from '../utils/errors.js';
+
+function sendNotificationError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  if (status === 500) console.error('Notifications error:', err);
+  res.status(status).json({ error: err.message });
+}
+
+/**
+ * GET /api/notifications/preferences
+ * Channels, minimum severity and quiet hours of the current user
+ */
+export const getPreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await notificationDispatcher.getPreferences(req.user!.id));
+  } catch (err: any) {
+    sendNotificationError(res, err);
+  }
+};
+
+/**
+ * PUT /api/notifications/preferences
+ * { emailEnabled?, email?, telegramEnabled?, telegramChatId?, webhookEnabled?, webhookUrl?,
+ *   webhookSecret?, minSeverity?, quietHoursStart?, quietHoursEnd?, timezone? }
+ */
+export const updatePreferences = async (req: AuthRequest, res: Response) => {
+  try {
+    res.json(await notificationDispatcher.updatePreferences(req.user!.id, req.body || {}));
+  } catch (err: any) {
+    sendNotificationError(res, err);
+  }
+};
+
+/**
+ * POST /api/notifications/test
+ * { channel? } - sends a test message on the user's enabled channels (or that one)
+ */
+export const sendTest = async (req: AuthRequest, res: Response) => {
+  try {
+    const results = await notificationDispatcher.sendTestNotification(req.user!.id, req.body?.channel);
+    res.json({ results });
+  } catch (err: any) {
+    sendNotificationError(res, err);
+  }
+};
+
+/**
+ * GET /api/hotels/:id/notification-deliveries
+ * Delivery log of the hotel's notifications (?status=pending|sent|failed|skipped; ?limit=, max 200)
+ */
+export const listDeliveries = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const status = req.query.status as notificationDispatcher.DeliveryStatus | undefined;
+    const limit = Math.min(parseInt(req.query.limit as string) || 50, 200);
+    const deliveries = await notificationDispatcher.listDeliveries(hotelId, { status, limit });
+    res.json({ hotelId, deliveries, total: deliveries.length });
+  } catch (err: any) {
+    sendNotificationError(res, err);
+  }
+};
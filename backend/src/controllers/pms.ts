@@ -1,6 +1,8 @@
 import { Response } from 'express';
 import { AuthRequest } from '../middleware/auth.js';
 import { query } from '../utils/db.js';
+import { pmsRouter } from '../services/pms-router.js';
+import * as vault from '../services/credential-vault.js';
 
 // Supported PMS types and their endpoints
 const PMS_ENDPOINTS: Record<string, any> = {
@@ -97,13 +99,23 @@ export const connectPMS = async (req: AuthRequest, res: Response) => {
     const result = await query(
       `INSERT INTO pms_connections (hotel_id, pms_type, environment, endpoint_url, client_token, access_token, sync_status)
        VALUES ($1, $2, $3, $4, $5, $6, 'pending')
-       RETURNING *`,
-      [hotelId, pms_type, environment, endpoint_url, client_token, access_token]
+       RETURNING id, hotel_id, pms_type, environment, endpoint_url, sync_status, is_active, created_at`,
+      [
+        hotelId,
+        pms_type,
+        environment,
+        endpoint_url,
+        client_token ? vault.encrypt(client_token) : null,
+        access_token ? vault.encrypt(access_token) : null
+      ]
     );
 
     // Update hotel pms_type
     await query('UPDATE hotels SET pms_type = $1 WHERE id = $2', [pms_type, hotelId]);
 
+    // Make the PMS gateway pick up the new connection
+    if (hotelId) pmsRouter.evict(hotelId);
+
     res.status(201).json(result.rows[0]);
   } catch (err: any) {
     res.status(500).json({ error: err.message });
@@ -127,6 +139,8 @@ export const testEndpoint = async (req: AuthRequest, res: Response) => {
 
     const conn = connResult.rows[0];
     const url = conn.endpoint_url + endpoint;
+    const clientToken = vault.revealSecret(conn.client_token);
+    const accessToken = vault.revealSecret(conn.access_token);
 
     const startTime = Date.now();
 
@@ -141,15 +155,15 @@ export const testEndpoint = async (req: AuthRequest, res: Response) => {
     // Add auth based on PMS type
     if (conn.pms_type === 'mews') {
       fetchOptions.body = JSON.stringify({
-        ClientToken: conn.client_token,
-        AccessToken: conn.access_token,
+        ClientToken: clientToken,
+        AccessToken: accessToken,
         Client: 'EYWA AI',
         ...body
       });
     } else {
       fetchOptions.headers = {
         ...fetchOptions.headers,
-        'Authorization': `Bearer ${conn.access_token}`
+        'Authorization': `Bearer ${accessToken}`
       };
       if (body) fetchOptions.body = JSON.stringify(body);
     }
@@ -158,11 +172,11 @@ export const testEndpoint = async (req: AuthRequest, res: Response) => {
     const latency = Date.now() - startTime;
     const responseData = await response.json();
 
-    // Log the API call
+    // Log the API call (secrets redacted)
     await query(
       `INSERT INTO api_logs (hotel_id, user_id, endpoint, method, request_body, response_code, response_body, latency_ms)
        VALUES ($1, $2, $3, $4, $5, $6, $7, $8)`,
-      [hotelId, req.user?.id, endpoint, method, body, response.status, responseData, latency]
+      [hotelId, req.user?.id, endpoint, method, vault.redactSecrets(body), response.status, vault.redactSecrets(responseData), latency]
     );
 
     res.json({
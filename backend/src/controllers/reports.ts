@@ -0,0 +1,117 @@
+/**
+ * Reports Controller
+ *
+ * Monthly owner reports per hotel or across the portfolio, as JSON, CSV or PDF.
+ */
+
+import { Response } from 'express';
+import { AuthRequest } from '../middleware/auth.js';
+import * as monthlyReports from '../services/monthly-reports.js';
+import * as reportExport from '../services/report-export.js';
+import type { MonthlyReport, PortfolioReport } from '../services/monthly-reports.js';
+import { ServiceError } from '../utils/errors.js';
+
+const FORMATS = ['json', 'csv', 'pdf'];
+
+function sendError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  res.status(status).json({ error: err.message });
+}
+
+function sendFile(res: Response, body: string | Buffer, contentType: string, filename: string) {
+  res.setHeader('Content-Type', contentType);
+  res.setHeader('Content-Disposition', `attachment; filename="${filename}"`);
+  res.send(body);
+}
+
+function sendReport(res: Response, format: string, report: MonthlyReport) {
+  if (format === 'csv') {
+    return sendFile(res, reportExport.monthlyReportCsv([report]), 'text/csv; charset=utf-8', `eywa-report-${report.yearMonth}.csv`);
+  }
+  if (format === 'pdf') {
+    return sendFile(res, reportExport.monthlyReportPdf(report), 'application/pdf', `eywa-report-${report.yearMonth}.pdf`);
+  }
+  res.json(report);
+}
+
+function sendPortfolio(res: Response, format: string, portfolio: PortfolioReport) {
+  const { yearMonth } = portfolio;
+  if (format === 'csv') {
+    return sendFile(res, reportExport.portfolioReportCsv(portfolio), 'text/csv; charset=utf-8', `eywa-portfolio-${yearMonth}.csv`);
+  }
+  if (format === 'pdf') {
+    return sendFile(res, reportExport.portfolioReportPdf(portfolio), 'application/pdf', `eywa-portfolio-${yearMonth}.pdf`);
+  }
+  res.json(portfolio);
+}
+
+// ?format and ?scope of a request, or null once an error response was sent
+function reportOptions(req: AuthRequest, res: Response): { format: string; scope: string; hotelIds?: string[] } | null {
+  const format = String(req.query.format || 'json');
+  const scope = String(req.query.scope || 'hotel');
+
+  if (!FORMATS.includes(format)) {
+    res.status(400).json({ error: `format must be one of: ${FORMATS.join(', ')}` });
+    return null;
+  }
+  if (scope !== 'hotel' && scope !== 'portfolio') {
+    res.status(400).json({ error: 'scope must be hotel or portfolio' });
+    return null;
+  }
+  if (scope === 'portfolio' && req.user?.role !== 'admin') {
+    res.status(403).json({ error: 'Insufficient permissions' });
+    return null;
+  }
+
+  const hotelIds = req.query.hotel_ids ? String(req.query.hotel_ids).split(',').filter(Boolean) : undefined;
+  return { format, scope, hotelIds };
+}
+
+/**
+ * GET /api/reports/monthly/:yearMonth
+ * Stored report (read-only; 404 until it is generated).
+ * ?format=json|csv|pdf (default json), ?scope=hotel|portfolio (portfolio: admin only,
+ * every active hotel or ?hotel_ids=a,b)
+ */
+export const getMonthlyReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { yearMonth } = req.params;
+    const options = reportOptions(req, res);
+    if (!options) return;
+
+    if (options.scope === 'portfolio') {
+      const portfolio = await monthlyReports.getPortfolioReport(yearMonth, options.hotelIds);
+      if (portfolio.hotels.length === 0) {
+        return res.status(404).json({ error: `No report has been generated for ${yearMonth}` });
+      }
+      return sendPortfolio(res, options.format, portfolio);
+    }
+
+    const report = await monthlyReports.getMonthlyReport(req.user?.hotel_id as string, yearMonth);
+    if (!report) {
+      return res.status(404).json({ error: `The report for ${yearMonth} has not been generated` });
+    }
+    sendReport(res, options.format, report);
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
+
+/**
+ * POST /api/reports/monthly/:yearMonth/generate
+ * Compute the report now (stored once the month has ended); same options as GET
+ */
+export const generateMonthlyReport = async (req: AuthRequest, res: Response) => {
+  try {
+    const { yearMonth } = req.params;
+    const options = reportOptions(req, res);
+    if (!options) return;
+
+    if (options.scope === 'portfolio') {
+      return sendPortfolio(res, options.format, await monthlyReports.generatePortfolioReport(yearMonth, options.hotelIds));
+    }
+    sendReport(res, options.format, await monthlyReports.generateMonthlyReport(req.user?.hotel_id as string, yearMonth));
+  } catch (err: any) {
+    sendError(res, err);
+  }
+};
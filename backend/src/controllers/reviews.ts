@@ -10,6 +10,13 @@ import { query } from '../utils/db.js';
 import * as googlePlaces from '../services/google-places.js';
 import * as tripAdvisor from '../services/tripadvisor.js';
 import * as eywaScore from '../services/eywa-score.js';
+import * as eywaSettings from '../services/eywa-settings.js';
+import * as reviewIngestion from '../services/review-ingestion.js';
+import * as reviewSync from '../services/review-sync.js';
+import * as reviewReplies from '../services/review-replies.js';
+import * as reviewTranslation from '../services/translation.js';
+import { normalizeLanguageCode } from '../services/language-detection.js';
+import { ServiceError } from '../utils/errors.js';
 
 /**
  * GET /api/hotels/:id/ratings
@@ -47,6 +54,8 @@ export const getRatings = async (req: AuthRequest, res: Response) => {
     for (const rating of ratingsResult.rows) {
       sources[rating.source] = {
         rating: parseFloat(rating.rating),
+        scale: eywaScore.getRatingSource(rating.source)?.scale ?? null,
+        normalizedRating: eywaScore.normalizeRating(rating.source, parseFloat(rating.rating)),
         reviewCount: rating.review_count,
         ranking: rating.ranking,
         rankingContext: rating.ranking_context,
@@ -62,6 +71,15 @@ export const getRatings = async (req: AuthRequest, res: Response) => {
       trend: eywaData?.trend || null,
       trendDelta: eywaData?.trend_delta ? parseFloat(eywaData.trend_delta) : null,
       computedAt: eywaData?.computed_at || null,
+      scoreMode: eywaData?.score_mode || null,
+      weightedScore: eywaData?.weighted_score ? parseFloat(eywaData.weighted_score) : null,
+      bayesian: eywaData?.bayesian_score ? {
+        score: parseFloat(eywaData.bayesian_score),
+        credibleInterval: { lower: parseFloat(eywaData.bayesian_lower), upper: parseFloat(eywaData.bayesian_upper) },
+        priorScore: parseFloat(eywaData.bayesian_prior),
+        effectiveReviews: parseFloat(eywaData.effective_reviews),
+      } : null,
+      breakdown: eywaData?.source_breakdown || [],
       sources,
     });
   } catch (err: any) {
@@ -72,7 +90,9 @@ export const getRatings = async (req: AuthRequest, res: Response) => {
 
 /**
  * GET /api/hotels/:id/reviews
- * Returns reviews for a hotel
+ * Returns reviews for a hotel, with the review count per language.
+ * ?language=fr,tr filters on the detected language; ?translateTo=en adds a
+ * translation of each review through the configured translation provider.
  */
 export const getReviews = async (req: AuthRequest, res: Response) => {
   try {
@@ -86,42 +106,62 @@ export const getReviews = async (req: AuthRequest, res: Response) => {
     // Parse query params
     const source = req.query.source as string || 'all';
     const limit = Math.min(parseInt(req.query.limit as string) || 10, 50);
-    const language = req.query.language as string;
+    const languages = ((req.query.language as string) || '')
+      .split(',')
+      .map(normalizeLanguageCode)
+      .filter((code): code is string => code !== null);
+    const replyStatus = req.query.replyStatus as string;
+    const translateTo = req.query.translateTo ? normalizeLanguageCode(req.query.translateTo as string) : null;
+
+    if (req.query.translateTo && !translateTo) {
+      return res.status(400).json({ error: 'translateTo must be a language code' });
+    }
 
-    // Build query
-    let sql = `SELECT * FROM hotel_reviews WHERE hotel_id = $1`;
+    // Build filters (shared by the list and the count)
+    let where = `WHERE hotel_id = $1`;
     const params: any[] = [hotelId];
     let paramIndex = 2;
 
     if (source !== 'all') {
-      sql += ` AND source = $${paramIndex}`;
+      where += ` AND source = $${paramIndex}`;
       params.push(source);
       paramIndex++;
     }
 
-    if (language) {
-      sql += ` AND language = $${paramIndex}`;
-      params.push(language);
+    // Counts per language ignore the language filter itself
+    const languagesResult = await query(
+      `SELECT language, COUNT(*) AS count FROM hotel_reviews ${where}
+       GROUP BY language ORDER BY count DESC`,
+      [...params]
+    );
+
+    if (languages.length > 0) {
+      where += ` AND language = ANY($${paramIndex})`;
+      params.push(languages);
       paramIndex++;
     }
 
-    sql += ` ORDER BY published_at DESC NULLS LAST, fetched_at DESC LIMIT $${paramIndex}`;
-    params.push(limit);
+    if (replyStatus) {
+      where += ` AND reply_status = $${paramIndex}`;
+      params.push(replyStatus);
+      paramIndex++;
+    }
 
-    const reviewsResult = await query(sql, params);
+    const reviewsResult = await query(
+      `SELECT * FROM hotel_reviews ${where}
+       ORDER BY published_at DESC NULLS LAST, fetched_at DESC LIMIT $${paramIndex}`,
+      [...params, limit]
+    );
 
     // Get total count
-    let countSql = `SELECT COUNT(*) FROM hotel_reviews WHERE hotel_id = $1`;
-    const countParams: any[] = [hotelId];
-    if (source !== 'all') {
-      countSql += ` AND source = $2`;
-      countParams.push(source);
-    }
-    const countResult = await query(countSql, countParams);
+    const countResult = await query(`SELECT COUNT(*) FROM hotel_reviews ${where}`, params);
 
-    res.json({
-      hotelId,
-      reviews: reviewsResult.rows.map(r => ({
+    const reviews = await Promise.all(reviewsResult.rows.map(async r => {
+      const translation = translateTo && r.text
+        ? await reviewTranslation.translateReview(r.text, r.language, translateTo)
+        : null;
+
+      return {
         id: r.id,
         source: r.source,
         author: r.author_name,
@@ -130,11 +170,31 @@ export const getReviews = async (req: AuthRequest, res: Response) => {
         rating: r.rating,
         text: r.text,
         language: r.language,
+        languageConfidence: r.language_confidence !== null && r.language_confidence !== undefined
+          ? parseFloat(r.language_confidence)
+          : null,
+        translation: translation?.translated
+          ? { text: translation.text, language: translation.to, provider: translation.provider }
+          : null,
         relativeTime: r.relative_time_description,
         publishedAt: r.published_at,
         fetchedAt: r.fetched_at,
-      })),
+        reply: {
+          status: r.reply_status,
+          text: r.reply_text,
+          publishedAt: r.reply_published_at,
+        },
+      };
+    }));
+
+    res.json({
+      hotelId,
+      reviews,
       total: parseInt(countResult.rows[0].count),
+      languages: languagesResult.rows.map(r => ({
+        language: r.language,
+        count: parseInt(r.count),
+      })),
     });
   } catch (err: any) {
     console.error('Error fetching reviews:', err);
@@ -182,13 +242,7 @@ export const linkReviewSources = async (req: AuthRequest, res: Response) => {
           );
 
           // Fetch initial ratings and reviews
-          const details = await googlePlaces.getPlaceDetails(google.placeId);
-          if (details) {
-            // Store rating
-            await storeGoogleRating(hotelId, details);
-            // Store reviews
-            await storeGoogleReviews(hotelId, details);
-          }
+          await reviewIngestion.ingestSource(hotelId, 'google', google.placeId);
 
           linked.google = {
             placeId: google.placeId,
@@ -225,13 +279,7 @@ export const linkReviewSources = async (req: AuthRequest, res: Response) => {
             );
 
             // Fetch initial ratings and reviews
-            const { details, reviews } = await tripAdvisor.getFullLocationData(tripadvisor.locationId);
-            if (details) {
-              // Store rating
-              await storeTripAdvisorRating(hotelId, details);
-              // Store reviews
-              await storeTripAdvisorReviews(hotelId, reviews);
-            }
+            await reviewIngestion.ingestSource(hotelId, 'tripadvisor', tripadvisor.locationId);
 
             linked.tripadvisor = {
               locationId: tripadvisor.locationId,
@@ -249,7 +297,7 @@ export const linkReviewSources = async (req: AuthRequest, res: Response) => {
 
     // Recompute Eywa Score if we linked at least one source
     if (Object.keys(linked).length > 0) {
-      await computeAndStoreEywaScore(hotelId);
+      await reviewIngestion.computeAndStoreEywaScore(hotelId);
     }
 
     res.json({
@@ -278,42 +326,20 @@ export const refreshRatings = async (req: AuthRequest, res: Response) => {
 
     // Get linked sources
     const sourcesResult = await query(
-      'SELECT * FROM hotel_review_sources WHERE hotel_id = $1',
+      'SELECT source, external_id FROM hotel_review_sources WHERE hotel_id = $1',
       [hotelId]
     );
 
-    const refreshed: string[] = [];
-    const errors: Record<string, string> = {};
-
-    for (const source of sourcesResult.rows) {
-      try {
-        if (source.source === 'google') {
-          const details = await googlePlaces.getPlaceDetails(source.external_id);
-          if (details) {
-            await storeGoogleRating(hotelId, details);
-            await storeGoogleReviews(hotelId, details);
-            refreshed.push('google');
-          }
-        } else if (source.source === 'tripadvisor') {
-          if (!tripAdvisor.isTripAdvisorConfigured()) {
-            errors.tripadvisor = 'TripAdvisor API not configured';
-          } else {
-            const { details, reviews } = await tripAdvisor.getFullLocationData(source.external_id);
-            if (details) {
-              await storeTripAdvisorRating(hotelId, details);
-              await storeTripAdvisorReviews(hotelId, reviews);
-              refreshed.push('tripadvisor');
-            }
-          }
-        }
-      } catch (err: any) {
-        errors[source.source] = err.message;
-      }
-    }
+    // Same pipeline as the scheduled sync (also records each source's sync status)
+    const result = await reviewSync.syncHotelReviews(
+      hotelId,
+      sourcesResult.rows.map(row => ({ source: row.source, externalId: row.external_id }))
+    );
 
-    // Recompute Eywa Score
-    if (refreshed.length > 0) {
-      await computeAndStoreEywaScore(hotelId);
+    const refreshed = result.synced;
+    const errors: Record<string, string> = {};
+    for (const error of result.errors) {
+      errors[error.source] = error.errorMessage;
     }
 
     res.json({
@@ -431,6 +457,141 @@ export const searchPlaces = async (req: AuthRequest, res: Response) => {
   }
 };
 
+/**
+ * GET /api/hotels/:id/ranking-history
+ * Returns the daily TripAdvisor city ranking (?days=90)
+ */
+export const getRankingHistory = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const days = Math.min(parseInt(req.query.days as string) || 90, 365);
+
+    const result = await query(
+      `SELECT DATE(fetched_at) AS date, ranking, ranking_total, ranking_context, rating
+       FROM hotel_ratings
+       WHERE hotel_id = $1 AND source = 'tripadvisor' AND ranking IS NOT NULL
+         AND fetched_at >= NOW() - make_interval(days => $2)
+       ORDER BY fetched_at ASC`,
+      [hotelId, days]
+    );
+
+    res.json({
+      hotelId,
+      source: 'tripadvisor',
+      days,
+      history: result.rows.map(r => ({
+        date: r.date,
+        position: r.ranking,
+        total: r.ranking_total,
+        context: r.ranking_context,
+        rating: r.rating ? parseFloat(r.rating) : null,
+      })),
+    });
+  } catch (err: any) {
+    console.error('Error fetching ranking history:', err);
+    res.status(500).json({ error: err.message });
+  }
+};
+
+function sendSettingsError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  if (status === 500) console.error('Eywa settings error:', err);
+  res.status(status).json({ error: err.message });
+}
+
+/**
+ * GET /api/hotels/:id/eywa-settings
+ * Returns the hotel's scoring mode, source weights and the rating sources that can contribute
+ */
+export const getEywaSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const settings = await eywaSettings.getEywaSettings(hotelId);
+    res.json({
+      hotelId,
+      mode: settings.mode,
+      modes: eywaScore.EYWA_SCORE_MODES,
+      weights: eywaSettings.effectiveWeights(settings),
+      overrides: settings.weights,
+      sources: eywaScore.listRatingSources().map(s => ({
+        source: s.slug,
+        name: s.name,
+        scale: s.scale,
+        defaultWeight: s.defaultWeight,
+      })),
+    });
+  } catch (err: any) {
+    sendSettingsError(res, err);
+  }
+};
+
+/**
+ * PUT /api/hotels/:id/eywa-settings
+ * Sets the scoring mode ({ mode: 'bayesian' }) and / or replaces the weight overrides
+ * ({ weights: { booking: 0.3, ... } }), then recomputes the score
+ */
+export const updateEywaSettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const { weights, mode } = req.body || {};
+    const changes: Partial<eywaSettings.EywaSettings> = {};
+    if (weights !== undefined) changes.weights = weights;
+    if (mode !== undefined) changes.mode = mode;
+
+    const settings = await eywaSettings.updateEywaSettings(hotelId, changes);
+    await reviewIngestion.computeAndStoreEywaScore(hotelId);
+
+    res.json({
+      hotelId,
+      mode: settings.mode,
+      weights: eywaSettings.effectiveWeights(settings),
+      overrides: settings.weights,
+    });
+  } catch (err: any) {
+    sendSettingsError(res, err);
+  }
+};
+
+/**
+ * PUT /api/hotels/:id/ratings/:source
+ * Records today's rating of a source without an API connection (Booking.com, Expedia, ...)
+ */
+export const recordSourceRating = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const recorded = await eywaSettings.recordSourceRating(hotelId, req.params.source, req.body || {});
+    await reviewIngestion.computeAndStoreEywaScore(hotelId);
+
+    res.json({ hotelId, ...recorded });
+  } catch (err: any) {
+    sendSettingsError(res, err);
+  }
+};
+
 /**
  * GET /api/hotels/:id/competitors
  * Returns nearby competitor hotels with their ratings
@@ -550,145 +711,168 @@ export const getCompetitors = async (req: AuthRequest, res: Response) => {
   }
 };
 
-// --- Helper Functions ---
-
-async function storeGoogleRating(hotelId: string, details: googlePlaces.GooglePlaceDetails) {
-  await query(
-    `INSERT INTO hotel_ratings (hotel_id, source, rating, review_count, fetched_at)
-     VALUES ($1, 'google', $2, $3, NOW())
-     ON CONFLICT (hotel_id, source, DATE(fetched_at))
-     DO UPDATE SET rating = $2, review_count = $3, fetched_at = NOW()`,
-    [hotelId, details.rating, details.user_ratings_total]
-  );
+function sendReplyError(res: Response, err: any) {
+  const status = err instanceof ServiceError ? err.status : 500;
+  if (status === 500) console.error('Review reply error:', err);
+  res.status(status).json({ error: err.message });
 }
 
-async function storeGoogleReviews(hotelId: string, details: googlePlaces.GooglePlaceDetails) {
-  for (const review of details.reviews) {
-    const publishedAt = review.time ? new Date(review.time * 1000) : null;
-    
-    await query(
-      `INSERT INTO hotel_reviews (
-         hotel_id, source, external_review_id, author_name, author_url,
-         profile_photo_url, rating, text, language, relative_time_description, published_at
-       ) VALUES ($1, 'google', $2, $3, $4, $5, $6, $7, $8, $9, $10)
-       ON CONFLICT (hotel_id, source, external_review_id) 
-       DO UPDATE SET 
-         author_name = $3, rating = $6, text = $7, 
-         relative_time_description = $9, fetched_at = NOW()`,
-      [
-        hotelId,
-        `google_${review.time}`, // Use timestamp as external ID
-        review.author_name,
-        review.author_url,
-        review.profile_photo_url,
-        review.rating,
-        review.text,
-        review.language,
-        review.relative_time_description,
-        publishedAt,
-      ]
-    );
+/**
+ * GET /api/hotels/:id/reply-settings
+ * Returns the tone, signature and instructions used for AI reply drafts
+ */
+export const getReplySettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json({
+      hotelId,
+      tones: reviewReplies.REPLY_TONES,
+      ...await reviewReplies.getReplySettings(hotelId),
+    });
+  } catch (err: any) {
+    sendReplyError(res, err);
   }
-}
+};
 
-async function storeTripAdvisorRating(hotelId: string, details: tripAdvisor.TripAdvisorDetails) {
-  const rankingInfo = tripAdvisor.parseRankingString(details.ranking);
-  
-  await query(
-    `INSERT INTO hotel_ratings (hotel_id, source, rating, review_count, ranking, ranking_context, fetched_at)
-     VALUES ($1, 'tripadvisor', $2, $3, $4, $5, NOW())
-     ON CONFLICT (hotel_id, source, DATE(fetched_at))
-     DO UPDATE SET rating = $2, review_count = $3, ranking = $4, ranking_context = $5, fetched_at = NOW()`,
-    [hotelId, details.rating, details.num_reviews, rankingInfo.position, rankingInfo.context]
-  );
-}
+/**
+ * PUT /api/hotels/:id/reply-settings
+ * { tone?, signature?, instructions? }
+ */
+export const updateReplySettings = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
 
-async function storeTripAdvisorReviews(hotelId: string, reviews: tripAdvisor.TripAdvisorReview[]) {
-  for (const review of reviews) {
-    const publishedAt = review.published_date ? new Date(review.published_date) : null;
-    
-    await query(
-      `INSERT INTO hotel_reviews (
-         hotel_id, source, external_review_id, author_name, author_url,
-         profile_photo_url, rating, text, language, relative_time_description, published_at
-       ) VALUES ($1, 'tripadvisor', $2, $3, $4, $5, $6, $7, $8, $9, $10)
-       ON CONFLICT (hotel_id, source, external_review_id) 
-       DO UPDATE SET 
-         author_name = $3, rating = $6, text = $7, 
-         relative_time_description = $9, fetched_at = NOW()`,
-      [
-        hotelId,
-        `ta_${review.id}`, // Use TripAdvisor review ID
-        review.user.username,
-        review.url,
-        review.user.avatar?.small?.url || '',
-        review.rating,
-        review.text,
-        review.lang,
-        review.travel_date || '',
-        publishedAt,
-      ]
-    );
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const { tone, signature, instructions } = req.body || {};
+    const changes: Partial<reviewReplies.ReplySettings> = {};
+    if (tone !== undefined) changes.tone = tone;
+    if (signature !== undefined) changes.signature = signature;
+    if (instructions !== undefined) changes.instructions = instructions;
+
+    res.json({ hotelId, ...await reviewReplies.updateReplySettings(hotelId, changes) });
+  } catch (err: any) {
+    sendReplyError(res, err);
   }
-}
+};
 
-async function computeAndStoreEywaScore(hotelId: string) {
-  // Get latest ratings from each source
-  const ratingsResult = await query(
-    `SELECT DISTINCT ON (source) source, rating, review_count
-     FROM hotel_ratings
-     WHERE hotel_id = $1
-     ORDER BY source, fetched_at DESC`,
-    [hotelId]
-  );
-
-  if (ratingsResult.rows.length === 0) {
-    return;
+/**
+ * GET /api/hotels/:id/review-replies/queue
+ * Replies waiting on the user's role (approvals for managers and admins, drafts for the others)
+ */
+export const getReplyQueue = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    const replies = await reviewReplies.getReplyQueue(hotelId, req.user.role);
+    res.json({ hotelId, role: req.user.role, replies, total: replies.length });
+  } catch (err: any) {
+    sendReplyError(res, err);
   }
+};
 
-  // Build sources array
-  const sources: eywaScore.RatingSource[] = ratingsResult.rows.map(r => ({
-    source: r.source as 'google' | 'tripadvisor',
-    rating: parseFloat(r.rating),
-    reviewCount: r.review_count,
-  }));
-
-  // Calculate score
-  const scoreResult = eywaScore.calculateEywaScore(sources);
-
-  // Get previous score for trend calculation
-  const previousResult = await query(
-    `SELECT eywa_score FROM hotel_eywa_scores 
-     WHERE hotel_id = $1 
-     ORDER BY computed_at DESC 
-     LIMIT 1`,
-    [hotelId]
-  );
-  
-  const previousScore = previousResult.rows[0]?.eywa_score 
-    ? parseFloat(previousResult.rows[0].eywa_score) 
-    : null;
-
-  const trendResult = eywaScore.calculateTrend(scoreResult.eywaScore, previousScore);
-
-  // Store the new score
-  await query(
-    `INSERT INTO hotel_eywa_scores (
-       hotel_id, eywa_score, google_rating, google_weight, google_confidence,
-       tripadvisor_rating, tripadvisor_weight, tripadvisor_confidence,
-       trend, trend_delta, computed_at
-     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
-    [
-      hotelId,
-      scoreResult.eywaScore,
-      scoreResult.googleRating,
-      scoreResult.googleWeight,
-      scoreResult.googleConfidence,
-      scoreResult.tripadvisorRating,
-      scoreResult.tripadvisorWeight,
-      scoreResult.tripadvisorConfidence,
-      trendResult.trend,
-      trendResult.delta,
-    ]
-  );
-}
+/**
+ * POST /api/hotels/:id/reviews/:reviewId/reply/draft
+ * { provider? } - AI draft in the hotel's tone
+ */
+export const draftReply = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await reviewReplies.draftReply(hotelId, req.params.reviewId, req.user.id, req.body?.provider));
+  } catch (err: any) {
+    sendReplyError(res, err);
+  }
+};
+
+/**
+ * PUT /api/hotels/:id/reviews/:reviewId/reply
+ * { text } - write or edit the reply by hand
+ */
+export const saveReply = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await reviewReplies.saveReply(hotelId, req.params.reviewId, req.user.id, req.body?.text));
+  } catch (err: any) {
+    sendReplyError(res, err);
+  }
+};
+
+// POST /api/hotels/:id/reviews/:reviewId/reply/submit
+export const submitReply = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await reviewReplies.submitReply(hotelId, req.params.reviewId));
+  } catch (err: any) {
+    sendReplyError(res, err);
+  }
+};
+
+/**
+ * POST /api/hotels/:id/reviews/:reviewId/reply/approve
+ * Approves the reply and publishes it when its source has a publisher
+ */
+export const approveReply = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await reviewReplies.approveReply(hotelId, req.params.reviewId, req.user.id));
+  } catch (err: any) {
+    sendReplyError(res, err);
+  }
+};
+
+/**
+ * POST /api/hotels/:id/reviews/:reviewId/reply/reject
+ * { note? }
+ */
+export const rejectReply = async (req: AuthRequest, res: Response) => {
+  try {
+    const hotelId = req.params.id;
+
+    // Verify the hotel belongs to the authenticated user
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+
+    res.json(await reviewReplies.rejectReply(hotelId, req.params.reviewId, req.user.id, req.body?.note));
+  } catch (err: any) {
+    sendReplyError(res, err);
+  }
+};
@@ -21,7 +21,12 @@ app.use(cors({
   ],
   credentials: true
 }));
-app.use(express.json());
+// Keep the raw body for PMS webhook signature verification
+app.use(express.json({
+  verify: (req, _res, buf) => {
+    (req as express.Request & { rawBody?: Buffer }).rawBody = buf;
+  }
+}));
 
 // Request logging
 app.use((req, _res, next) => {
@@ -5,11 +5,16 @@ import { authenticate, requireRole } from '../middleware/auth.js';
 import * as auth from '../controllers/auth.js';
 import * as hotels from '../controllers/hotels.js';
 import * as bookings from '../controllers/bookings.js';
+import * as channels from '../controllers/channels.js';
 import * as pms from '../controllers/pms.js';
 import * as ai from '../controllers/ai.js';
+import * as assistant from '../controllers/assistant.js';
 import * as reviews from '../controllers/reviews.js';
 import * as analytics from '../controllers/analytics.js';
+import * as reports from '../controllers/reports.js';
 import * as admin from '../controllers/admin.js';
+import * as alerts from '../controllers/alerts.js';
+import * as notifications from '../controllers/notifications.js';
 
 // PMS Gateway
 import pmsGateway from './pms';
@@ -28,6 +33,8 @@ router.get('/auth/me', authenticate, auth.me);
 router.get('/hotel', authenticate, hotels.getHotel);
 router.patch('/hotel', authenticate, hotels.updateHotel);
 router.get('/hotel/stats', authenticate, hotels.getHotelStats);
+router.get('/hotel/stats/daily', authenticate, hotels.getDailyStats);
+router.post('/hotel/stats/daily/backfill', authenticate, requireRole('admin', 'manager'), hotels.backfillDailyStats);
 
 // Bookings routes
 router.get('/bookings', authenticate, bookings.listBookings);
@@ -35,6 +42,13 @@ router.get('/bookings/stats', authenticate, bookings.getBookingStats);
 router.get('/bookings/:id', authenticate, bookings.getBooking);
 router.get('/channels', authenticate, bookings.getChannels);
 
+// Channel attribution (PMS source -> channel)
+router.get('/channels/mappings', authenticate, channels.listSourceMappings);
+router.put('/channels/mappings', authenticate, requireRole('admin', 'manager'), channels.upsertSourceMapping);
+router.delete('/channels/mappings/:id', authenticate, requireRole('admin', 'manager'), channels.deleteSourceMapping);
+router.get('/channels/unmapped', authenticate, channels.getUnmappedSources);
+router.post('/channels/reattribute', authenticate, requireRole('admin', 'manager'), channels.reattributeBookings);
+
 // PMS routes
 router.get('/pms/types', authenticate, pms.getPMSTypes);
 router.get('/pms/connection', authenticate, pms.getConnection);
@@ -46,9 +60,25 @@ router.get('/pms/logs', authenticate, pms.getApiLogs);
 router.get('/ai/providers', authenticate, ai.getProviders);
 router.get('/ai/stats', authenticate, ai.getAIStats);
 router.get('/ai/sessions', authenticate, ai.getAISessions);
+router.post('/ai/sessions', authenticate, ai.ingestSession);
+router.post('/ai/sessions/batch', authenticate, ai.ingestSessionBatch);
 router.get('/ai/roi', authenticate, ai.getROIMetrics);
+router.get('/ai/roi/history', authenticate, ai.getROIHistory);
+router.get('/ai/roi/settings', authenticate, ai.getROISettings);
+router.put('/ai/roi/settings', authenticate, requireRole('admin', 'manager'), ai.updateROISettings);
 router.get('/ai/compare', authenticate, ai.compareProviders);
 
+// AI provider A/B experiments
+router.get('/ai/experiments', authenticate, ai.listExperiments);
+router.post('/ai/experiments', authenticate, requireRole('admin', 'manager'), ai.createExperiment);
+router.post('/ai/experiments/assign', authenticate, ai.assignExperimentProvider);
+router.get('/ai/experiments/:id/results', authenticate, ai.getExperimentResults);
+router.post('/ai/experiments/:id/stop', authenticate, requireRole('admin', 'manager'), ai.stopExperiment);
+
+// Guest booking assistant
+router.post('/ai/assistant/messages', authenticate, assistant.sendMessage);
+router.get('/ai/assistant/conversations/:id', authenticate, assistant.getConversation);
+
 // Reviews & Ratings routes
 router.get('/hotels/:id/ratings', authenticate, reviews.getRatings);
 router.get('/hotels/:id/reviews', authenticate, reviews.getReviews);
@@ -57,15 +87,50 @@ router.post('/hotels/:id/refresh-ratings', authenticate, reviews.refreshRatings)
 router.get('/hotels/:id/review-sources', authenticate, reviews.getReviewSources);
 router.post('/hotels/:id/search-places', authenticate, reviews.searchPlaces);
 router.get('/hotels/:id/competitors', authenticate, reviews.getCompetitors);
+router.get('/hotels/:id/ranking-history', authenticate, reviews.getRankingHistory);
+router.put('/hotels/:id/ratings/:source', authenticate, requireRole('admin', 'manager'), reviews.recordSourceRating);
+router.get('/hotels/:id/eywa-settings', authenticate, reviews.getEywaSettings);
+router.put('/hotels/:id/eywa-settings', authenticate, requireRole('admin', 'manager'), reviews.updateEywaSettings);
+
+// Review replies (AI drafts, approval queue, publishing)
+router.get('/hotels/:id/reply-settings', authenticate, reviews.getReplySettings);
+router.put('/hotels/:id/reply-settings', authenticate, requireRole('admin', 'manager'), reviews.updateReplySettings);
+router.get('/hotels/:id/review-replies/queue', authenticate, reviews.getReplyQueue);
+router.post('/hotels/:id/reviews/:reviewId/reply/draft', authenticate, reviews.draftReply);
+router.put('/hotels/:id/reviews/:reviewId/reply', authenticate, reviews.saveReply);
+router.post('/hotels/:id/reviews/:reviewId/reply/submit', authenticate, reviews.submitReply);
+router.post('/hotels/:id/reviews/:reviewId/reply/approve', authenticate, requireRole('admin', 'manager'), reviews.approveReply);
+router.post('/hotels/:id/reviews/:reviewId/reply/reject', authenticate, requireRole('admin', 'manager'), reviews.rejectReply);
 
 // Analytics routes
 router.get('/hotels/:id/analytics/summary', authenticate, analytics.getSummary);
 router.get('/hotels/:id/analytics/timeline', authenticate, analytics.getTimeline);
 router.get('/hotels/:id/analytics/review-sentiment', authenticate, analytics.getReviewSentiment);
+router.get('/hotels/:id/analytics/aspects', authenticate, analytics.getAspects);
 router.get('/hotels/:id/analytics/alerts', authenticate, analytics.getAlerts);
 router.get('/hotels/:id/competitors', authenticate, analytics.getCompetitors);
 router.get('/hotels/:id/market-position', authenticate, analytics.getMarketPosition);
 
+// Alert rules and the alerts they fired
+router.get('/hotels/:id/alert-rules', authenticate, alerts.listRules);
+router.post('/hotels/:id/alert-rules', authenticate, requireRole('admin', 'manager'), alerts.createRule);
+router.post('/hotels/:id/alert-rules/evaluate', authenticate, requireRole('admin', 'manager'), alerts.evaluateRules);
+router.put('/hotels/:id/alert-rules/:ruleId', authenticate, requireRole('admin', 'manager'), alerts.updateRule);
+router.delete('/hotels/:id/alert-rules/:ruleId', authenticate, requireRole('admin', 'manager'), alerts.deleteRule);
+router.get('/hotels/:id/alerts', authenticate, alerts.listAlerts);
+router.post('/hotels/:id/alerts/:alertId/acknowledge', authenticate, alerts.acknowledgeAlert);
+router.post('/hotels/:id/alerts/:alertId/snooze', authenticate, alerts.snoozeAlert);
+
+// Notification delivery (email, Telegram, webhooks)
+router.get('/notifications/preferences', authenticate, notifications.getPreferences);
+router.put('/notifications/preferences', authenticate, notifications.updatePreferences);
+router.post('/notifications/test', authenticate, notifications.sendTest);
+router.get('/hotels/:id/notification-deliveries', authenticate, requireRole('admin', 'manager'), notifications.listDeliveries);
+
+// Monthly owner reports (JSON, CSV or PDF)
+router.get('/reports/monthly/:yearMonth', authenticate, reports.getMonthlyReport);
+router.post('/reports/monthly/:yearMonth/generate', authenticate, requireRole('admin', 'manager'), reports.generateMonthlyReport);
+
 // Portfolio routes (aggregated stats)
 router.get('/portfolio/stats', authenticate, analytics.getPortfolioStats);
 router.get('/portfolio/trends', authenticate, analytics.getPortfolioTrends);
@@ -82,8 +147,10 @@ router.get('/admin/sync/jobs/:id/errors', authenticate, requireRole('admin'), ad
 router.get('/admin/sync/pending', authenticate, requireRole('admin'), admin.getPendingSyncHotels);
 router.get('/admin/scheduler/status', authenticate, requireRole('admin'), admin.getSchedulerStatus);
 router.post('/admin/hotels/auto-link-batch', authenticate, requireRole('admin'), admin.autoLinkHotelsBatch);
+router.post('/admin/vault/rotate', authenticate, requireRole('admin'), admin.rotateVaultKeys);
+router.post('/admin/stats/daily/backfill', authenticate, requireRole('admin'), admin.backfillDailyStats);
 
-// PMS Gateway routes (public for testing)
+// PMS Gateway routes (authenticated per route; only inbound PMS webhooks are public)
 router.use(pmsGateway);
 
 export default router;
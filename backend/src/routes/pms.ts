@@ -1,12 +1,57 @@
 // Eywa AI - PMS Gateway Routes
-import { Router, Request, Response } from 'express';
-import { pmsRouter, PMSType, PMS_LIST, createAdapter } from '../services/pms-router';
+import { Router, Request, Response, NextFunction } from 'express';
+import { authenticate, requireRole, AuthRequest } from '../middleware/auth.js';
+import {
+  pmsRouter,
+  PMSType,
+  PMSEnvironment,
+  PMS_LIST,
+  ReservationParams,
+  CreateReservationInput,
+  ModifyReservationInput,
+  IdempotencyConflictError,
+  UnsupportedCapabilityError,
+  AriUpdate,
+} from '../services/pms-router';
 import { parseCommand, executeCommand } from '../services/telegram-commands';
+import { maskCredentials } from '../services/credential-vault.js';
+import { receiveWebhook, supportsWebhooks } from '../services/pms-webhooks.js';
+import { syncHotelReservations } from '../services/reservation-sync.js';
+import { ServiceError } from '../utils/errors.js';
 
 const router = Router();
 
+// Typed router errors carry their own HTTP status; anything else is a 500
+function sendError(res: Response, error: any) {
+  if (error instanceof UnsupportedCapabilityError) {
+    return res.status(error.status).json({
+      success: false,
+      error: error.message,
+      code: 'unsupported_capability',
+      capability: error.capability
+    });
+  }
+  const status = error instanceof IdempotencyConflictError ? error.status : 500;
+  res.status(status).json({ success: false, error: error.message });
+}
+
+// Hotel-scoped routes: the hotel must be the authenticated user's
+function requireHotelAccess(req: AuthRequest, res: Response, next: NextFunction) {
+  if (req.user?.hotel_id !== req.params.hotelId) {
+    return res.status(403).json({ error: 'Access denied to this hotel' });
+  }
+  next();
+}
+
+// Environments a client may connect to ('stub' is only registered internally)
+const CLIENT_ENVIRONMENTS: PMSEnvironment[] = ['sandbox', 'production'];
+
+function isClientEnvironment(value: unknown): value is PMSEnvironment {
+  return CLIENT_ENVIRONMENTS.includes(value as PMSEnvironment);
+}
+
 // List all supported PMS
-router.get('/pms/list', (req: Request, res: Response) => {
+router.get('/pms/list', authenticate, (req: Request, res: Response) => {
   res.json({
     success: true,
     count: PMS_LIST.length,
@@ -16,9 +61,9 @@ router.get('/pms/list', (req: Request, res: Response) => {
 });
 
 // Test PMS connection
-router.post('/pms/test', async (req: Request, res: Response) => {
+router.post('/pms/test', authenticate, requireRole('admin', 'manager'), async (req: Request, res: Response) => {
   try {
-    const { pmsType, credentials } = req.body;
+    const { pmsType, credentials, environment = 'sandbox' } = req.body;
     
     if (!pmsType || !credentials) {
       return res.status(400).json({ 
@@ -26,8 +71,11 @@ router.post('/pms/test', async (req: Request, res: Response) => {
         error: 'Missing pmsType or credentials' 
       });
     }
+    if (!isClientEnvironment(environment)) {
+      return res.status(400).json({ success: false, error: 'environment must be sandbox or production' });
+    }
 
-    const result = await pmsRouter.testConnection(pmsType as PMSType, credentials);
+    const result = await pmsRouter.testConnection(pmsType as PMSType, credentials, environment);
     res.json(result);
   } catch (error: any) {
     res.status(500).json({ 
@@ -38,7 +86,7 @@ router.post('/pms/test', async (req: Request, res: Response) => {
 });
 
 // Connect a PMS
-router.post('/pms/connect', async (req: Request, res: Response) => {
+router.post('/pms/connect', authenticate, requireRole('admin', 'manager'), async (req: AuthRequest, res: Response) => {
   try {
     const { hotelId, pmsType, credentials, environment = 'sandbox' } = req.body;
     
@@ -48,28 +96,33 @@ router.post('/pms/connect', async (req: Request, res: Response) => {
         error: 'Missing hotelId, pmsType, or credentials' 
       });
     }
+    if (req.user?.hotel_id !== hotelId) {
+      return res.status(403).json({ error: 'Access denied to this hotel' });
+    }
+    if (!isClientEnvironment(environment)) {
+      return res.status(400).json({ success: false, error: 'environment must be sandbox or production' });
+    }
 
     // Test connection first
-    const testResult = await pmsRouter.testConnection(pmsType as PMSType, credentials);
+    const testResult = await pmsRouter.testConnection(pmsType as PMSType, credentials, environment);
     
     if (!testResult.success) {
       return res.status(400).json(testResult);
     }
 
     // Register connection
-    pmsRouter.registerConnection({
-      id: `conn_${Date.now()}`,
+    const connection = await pmsRouter.registerConnection({
       hotelId,
       pmsType: pmsType as PMSType,
       credentials,
       environment,
-      isActive: true,
-      createdAt: new Date()
+      isActive: true
     });
 
     res.json({
       success: true,
       message: `Connected ${hotelId} to ${pmsType}`,
+      connectionId: connection.id,
       hotel: testResult.data
     });
   } catch (error: any) {
@@ -80,35 +133,87 @@ router.post('/pms/connect', async (req: Request, res: Response) => {
   }
 });
 
-// Get connection status
-router.get('/pms/status', (req: Request, res: Response) => {
-  const connections = pmsRouter.listConnections();
-  res.json({
-    success: true,
-    count: connections.length,
-    connections: connections.map(c => ({
-      hotelId: c.hotelId,
-      pmsType: c.pmsType,
-      environment: c.environment,
-      isActive: c.isActive,
-      createdAt: c.createdAt,
-      lastSyncAt: c.lastSyncAt
-    }))
-  });
+// Get the connection status of the authenticated user's hotel
+router.get('/pms/status', authenticate, async (req: AuthRequest, res: Response) => {
+  try {
+    const connection = await pmsRouter.getConnection(req.user!.hotel_id);
+    const connections = connection ? [connection] : [];
+    res.json({
+      success: true,
+      count: connections.length,
+      connections: connections.map(c => ({
+        hotelId: c.hotelId,
+        pmsType: c.pmsType,
+        environment: c.environment,
+        isActive: c.isActive,
+        createdAt: c.createdAt,
+        lastSyncAt: c.lastSyncAt,
+        credentials: maskCredentials(c.credentials),
+        syncStatus: c.syncStatus,
+        syncError: c.syncError
+      }))
+    });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Disconnect a hotel's PMS
+router.delete('/pms/:hotelId/connection', authenticate, requireRole('admin', 'manager'), requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const removed = await pmsRouter.removeConnection(req.params.hotelId);
+    if (!removed) {
+      return res.status(404).json({ success: false, error: 'No active PMS connection' });
+    }
+    res.json({ success: true, message: `Disconnected ${req.params.hotelId}` });
+  } catch (error: any) {
+    res.status(500).json({ success: false, error: error.message });
+  }
+});
+
+// Inbound PMS webhooks - authenticated by the PMS signature/secret, not a session
+router.post('/pms/webhooks/:pmsType', async (req: Request, res: Response) => {
+  const { pmsType } = req.params;
+  if (!supportsWebhooks(pmsType)) {
+    return res.status(404).json({ success: false, error: `Webhooks are not supported for ${pmsType}` });
+  }
+
+  try {
+    const result = await receiveWebhook(pmsType, {
+      headers: req.headers,
+      query: req.query,
+      body: req.body || {},
+      rawBody: (req as Request & { rawBody?: Buffer }).rawBody || Buffer.alloc(0)
+    });
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    const status = error instanceof ServiceError ? error.status : 500;
+    res.status(status).json({ success: false, error: error.message });
+  }
+});
+
+// Get the capability manifest of the hotel's PMS adapter
+router.get('/pms/:hotelId/capabilities', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const capabilities = await pmsRouter.getCapabilities(req.params.hotelId);
+    res.json({ success: true, data: capabilities });
+  } catch (error: any) {
+    sendError(res, error);
+  }
 });
 
 // Get hotel configuration
-router.get('/pms/:hotelId/config', async (req: Request, res: Response) => {
+router.get('/pms/:hotelId/config', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
   try {
     const config = await pmsRouter.getConfiguration(req.params.hotelId);
     res.json({ success: true, data: config });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
 // Get availability
-router.get('/pms/:hotelId/availability', async (req: Request, res: Response) => {
+router.get('/pms/:hotelId/availability', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
   try {
     const { startDate, endDate, roomTypeId } = req.query;
     
@@ -127,49 +232,232 @@ router.get('/pms/:hotelId/availability', async (req: Request, res: Response) =>
 
     res.json({ success: true, count: availability.length, data: availability });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
 // Get reservations
-router.get('/pms/:hotelId/reservations', async (req: Request, res: Response) => {
+router.get('/pms/:hotelId/reservations', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
   try {
     const { startDate, endDate, status } = req.query;
 
     const reservations = await pmsRouter.getReservations(req.params.hotelId, {
       startDate: startDate as string,
       endDate: endDate as string,
-      status: status as string
+      status: status as ReservationParams['status']
     });
 
     res.json({ success: true, count: reservations.length, data: reservations });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    sendError(res, error);
+  }
+});
+
+// Pull reservations changed since the last sync into bookings
+router.post('/pms/:hotelId/reservations/sync', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const result = await syncHotelReservations(req.params.hotelId);
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// === Reservation writes ===
+// Writes require an Idempotency-Key header; retries with the same key replay the first result.
+
+const DATE_ONLY = /^\d{4}-\d{2}-\d{2}$/;
+
+function requireIdempotencyKey(req: Request, res: Response): string | undefined {
+  const key = req.header('Idempotency-Key');
+  if (!key || key.length > 255) {
+    res.status(400).json({ success: false, error: 'Missing or invalid Idempotency-Key header' });
+    return undefined;
+  }
+  return key;
+}
+
+// Returns an error message for invalid stay fields (shared by create and modify)
+function validateStay(body: ModifyReservationInput): string | undefined {
+  for (const field of ['checkIn', 'checkOut'] as const) {
+    if (body[field] !== undefined && !DATE_ONLY.test(String(body[field]))) {
+      return `${field} must be YYYY-MM-DD`;
+    }
+  }
+  if (body.checkIn && body.checkOut && body.checkIn >= body.checkOut) {
+    return 'checkOut must be after checkIn';
+  }
+  if (body.adults !== undefined && (!Number.isInteger(body.adults) || body.adults < 1)) {
+    return 'adults must be a positive integer';
+  }
+  if (body.children !== undefined && (!Number.isInteger(body.children) || body.children < 0)) {
+    return 'children must be a non-negative integer';
+  }
+  if (body.childrenAges !== undefined && body.children !== undefined && body.childrenAges.length !== body.children) {
+    return 'childrenAges must list an age for every child';
+  }
+  return undefined;
+}
+
+// Create a reservation
+router.post('/pms/:hotelId/reservations', authenticate, requireRole('admin', 'manager'), requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const idempotencyKey = requireIdempotencyKey(req, res);
+    if (!idempotencyKey) return;
+
+    const input = req.body as CreateReservationInput;
+    if (!input.roomTypeId || !input.checkIn || !input.checkOut || input.adults === undefined) {
+      return res.status(400).json({
+        success: false,
+        error: 'Missing roomTypeId, checkIn, checkOut or adults'
+      });
+    }
+    if (!input.guest?.firstName || !input.guest?.lastName) {
+      return res.status(400).json({ success: false, error: 'Missing guest.firstName or guest.lastName' });
+    }
+
+    const invalid = validateStay(input);
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+
+    const reservation = await pmsRouter.createReservation(req.params.hotelId, input, idempotencyKey);
+    res.status(201).json({ success: true, data: reservation });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// Modify a reservation
+router.patch('/pms/:hotelId/reservations/:reservationId', authenticate, requireRole('admin', 'manager'), requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const idempotencyKey = requireIdempotencyKey(req, res);
+    if (!idempotencyKey) return;
+
+    const changes = req.body as ModifyReservationInput;
+    if (!changes || Object.keys(changes).length === 0) {
+      return res.status(400).json({ success: false, error: 'No changes provided' });
+    }
+
+    const invalid = validateStay(changes);
+    if (invalid) {
+      return res.status(400).json({ success: false, error: invalid });
+    }
+
+    const reservation = await pmsRouter.modifyReservation(
+      req.params.hotelId,
+      req.params.reservationId,
+      changes,
+      idempotencyKey
+    );
+    res.json({ success: true, data: reservation });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// Cancel a reservation
+router.delete('/pms/:hotelId/reservations/:reservationId', authenticate, requireRole('admin', 'manager'), requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const idempotencyKey = requireIdempotencyKey(req, res);
+    if (!idempotencyKey) return;
+
+    const result = await pmsRouter.cancelReservation(
+      req.params.hotelId,
+      req.params.reservationId,
+      idempotencyKey,
+      req.body?.reason
+    );
+    res.json({ success: true, data: result });
+  } catch (error: any) {
+    sendError(res, error);
+  }
+});
+
+// === ARI push ===
+
+// Longest date range accepted in a single update
+const MAX_ARI_RANGE_DAYS = 366;
+const ARI_VALUE_FIELDS = [
+  'available', 'rate', 'minStay', 'maxStay', 'closedToArrival', 'closedToDeparture', 'stopSell'
+] as const;
+
+// Returns an error message for an invalid ARI update
+function validateAriUpdate(update: AriUpdate, index: number): string | undefined {
+  const label = `updates[${index}]`;
+
+  if (!update || !update.roomTypeId) {
+    return `${label}: missing roomTypeId`;
+  }
+  if (!DATE_ONLY.test(String(update.startDate)) || !DATE_ONLY.test(String(update.endDate))) {
+    return `${label}: startDate and endDate must be YYYY-MM-DD`;
+  }
+  const days = (Date.parse(update.endDate) - Date.parse(update.startDate)) / 86_400_000;
+  if (days < 0) {
+    return `${label}: endDate must not be before startDate`;
+  }
+  if (days >= MAX_ARI_RANGE_DAYS) {
+    return `${label}: date range exceeds ${MAX_ARI_RANGE_DAYS} days`;
+  }
+  if (!ARI_VALUE_FIELDS.some(field => update[field] !== undefined)) {
+    return `${label}: nothing to update`;
+  }
+  for (const field of ['available', 'minStay', 'maxStay'] as const) {
+    if (update[field] !== undefined && (!Number.isInteger(update[field]) || update[field]! < 0)) {
+      return `${label}: ${field} must be a non-negative integer`;
+    }
+  }
+  if (update.rate !== undefined && (typeof update.rate !== 'number' || update.rate < 0)) {
+    return `${label}: rate must be a non-negative number`;
+  }
+  return undefined;
+}
+
+// Push availability, rates and restrictions; 207 when some dates failed
+router.put('/pms/:hotelId/ari', authenticate, requireRole('admin', 'manager'), requireHotelAccess, async (req: Request, res: Response) => {
+  try {
+    const { updates } = req.body;
+
+    if (!Array.isArray(updates) || updates.length === 0) {
+      return res.status(400).json({ success: false, error: 'Missing updates' });
+    }
+
+    for (let i = 0; i < updates.length; i++) {
+      const invalid = validateAriUpdate(updates[i], i);
+      if (invalid) {
+        return res.status(400).json({ success: false, error: invalid });
+      }
+    }
+
+    const result = await pmsRouter.updateAri(req.params.hotelId, updates);
+    res.status(result.failed > 0 ? 207 : 200).json({ success: result.failed === 0, data: result });
+  } catch (error: any) {
+    sendError(res, error);
   }
 });
 
 // Get room types
-router.get('/pms/:hotelId/rooms', async (req: Request, res: Response) => {
+router.get('/pms/:hotelId/rooms', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
   try {
     const roomTypes = await pmsRouter.getRoomTypes(req.params.hotelId);
     res.json({ success: true, count: roomTypes.length, data: roomTypes });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
 // Get rates
-router.get('/pms/:hotelId/rates', async (req: Request, res: Response) => {
+router.get('/pms/:hotelId/rates', authenticate, requireHotelAccess, async (req: Request, res: Response) => {
   try {
     const rates = await pmsRouter.getRates(req.params.hotelId);
     res.json({ success: true, count: rates.length, data: rates });
   } catch (error: any) {
-    res.status(500).json({ success: false, error: error.message });
+    sendError(res, error);
   }
 });
 
-// Telegram webhook / command handler
-router.post('/pms/telegram', async (req: Request, res: Response) => {
+// Telegram command handler (commands reach every hotel's connection: admins only)
+router.post('/pms/telegram', authenticate, requireRole('admin'), async (req: Request, res: Response) => {
   try {
     const { message } = req.body;
     
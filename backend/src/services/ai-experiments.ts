@@ -0,0 +1,460 @@
+/**
+ * AI Provider Experiments
+ *
+ * A/B tests between AI providers, one running experiment per hotel:
+ * - new guest sessions are routed to a variant at random, by weight, and
+ *   tagged with ai_sessions.experiment_id
+ * - results compare every variant with the control (first variant) on
+ *   conversion rate and revenue per dollar of AI cost (experiment-stats.ts)
+ * - with auto_promote, once every variant has min_sessions_per_variant sessions
+ *   and the leader beats each other variant at the confidence level
+ *   (Bonferroni-corrected), the experiment completes and the winner becomes
+ *   the hotel's default provider (hotels.default_ai_provider_id); this is done
+ *   by the scheduled evaluation only, reading results never changes anything
+ */
+
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+import { round } from '../utils/numbers.js';
+import * as stats from './experiment-stats.js';
+
+export type ExperimentStatus = 'running' | 'completed' | 'stopped';
+export type ExperimentMetric = 'conversion_rate' | 'revenue_per_dollar';
+
+export const EXPERIMENT_METRICS: ExperimentMetric[] = ['conversion_rate', 'revenue_per_dollar'];
+
+export interface ExperimentVariant {
+  providerId: string;
+  provider: string; // ai_providers.slug
+  name: string;
+  weight: number;
+  position: number;
+}
+
+export interface Experiment {
+  id: string;
+  hotelId: string;
+  name: string;
+  status: ExperimentStatus;
+  primaryMetric: ExperimentMetric;
+  minSessionsPerVariant: number;
+  confidenceLevel: number;
+  autoPromote: boolean;
+  winner: string | null;
+  variants: ExperimentVariant[];
+  startedAt: Date;
+  endedAt: Date | null;
+}
+
+export interface NewExperiment {
+  name: string;
+  variants: Array<{ provider: string; weight?: number }>;
+  primaryMetric?: ExperimentMetric;
+  minSessionsPerVariant?: number;
+  confidenceLevel?: number;
+  autoPromote?: boolean;
+}
+
+export interface Comparison extends stats.TestResult {
+  significant: boolean;
+}
+
+export interface VariantResult {
+  provider: string;
+  name: string;
+  weight: number;
+  isControl: boolean;
+  sessions: number;
+  conversions: number;
+  revenue: number;
+  cost: number;
+  conversionRate: stats.Interval;
+  revenuePerDollar: stats.Interval;
+  // null for the control
+  vsControl: { conversionRate: Comparison; revenuePerDollar: Comparison } | null;
+}
+
+export interface ExperimentResults {
+  experiment: Experiment;
+  variants: VariantResult[];
+  leader: string | null; // best variant on the primary metric
+  readyToPromote: boolean;
+}
+
+export interface ExperimentJobResult {
+  experimentsTotal: number;
+  promoted: string[]; // experiment ids
+  failed: number;
+  duration: number; // ms
+  errors: Array<{ experimentId: string; error: string }>;
+}
+
+const DEFAULT_MIN_SESSIONS = 200;
+const DEFAULT_CONFIDENCE = 0.95;
+
+interface VariantSums extends stats.RatioSums {
+  conversions: number;
+}
+
+// 4 decimals; null stays null (no estimate without sessions)
+function roundStat(value: number | null, decimals = 4): number | null {
+  return value === null ? null : round(value, decimals);
+}
+
+function roundInterval(interval: stats.Interval): stats.Interval {
+  return { estimate: roundStat(interval.estimate), lower: roundStat(interval.lower), upper: roundStat(interval.upper) };
+}
+
+function toExperiment(row: any, variants: ExperimentVariant[]): Experiment {
+  return {
+    id: row.id,
+    hotelId: row.hotel_id,
+    name: row.name,
+    status: row.status,
+    primaryMetric: row.primary_metric,
+    minSessionsPerVariant: Number(row.min_sessions_per_variant),
+    confidenceLevel: Number(row.confidence_level),
+    autoPromote: row.auto_promote,
+    winner: row.winner_slug || null,
+    variants,
+    startedAt: row.started_at,
+    endedAt: row.ended_at || null
+  };
+}
+
+async function loadVariants(experimentIds: string[]): Promise<Map<string, ExperimentVariant[]>> {
+  const byExperiment = new Map<string, ExperimentVariant[]>();
+  if (experimentIds.length === 0) return byExperiment;
+
+  const result = await query(
+    `SELECT v.experiment_id, v.provider_id, v.weight, v.position, ap.slug, ap.name
+     FROM ai_experiment_variants v
+     JOIN ai_providers ap ON ap.id = v.provider_id
+     WHERE v.experiment_id = ANY($1)
+     ORDER BY v.position`,
+    [experimentIds]
+  );
+  for (const row of result.rows) {
+    const variants = byExperiment.get(row.experiment_id) || [];
+    variants.push({
+      providerId: row.provider_id,
+      provider: row.slug,
+      name: row.name,
+      weight: Number(row.weight),
+      position: Number(row.position)
+    });
+    byExperiment.set(row.experiment_id, variants);
+  }
+  return byExperiment;
+}
+
+const EXPERIMENT_SELECT = `
+  SELECT e.*, ap.slug AS winner_slug
+  FROM ai_experiments e
+  LEFT JOIN ai_providers ap ON ap.id = e.winner_provider_id`;
+
+export async function listExperiments(hotelId: string): Promise<Experiment[]> {
+  const result = await query(`${EXPERIMENT_SELECT} WHERE e.hotel_id = $1 ORDER BY e.started_at DESC`, [hotelId]);
+  const variants = await loadVariants(result.rows.map(row => row.id));
+  return result.rows.map(row => toExperiment(row, variants.get(row.id) || []));
+}
+
+export async function getExperiment(hotelId: string, experimentId: string): Promise<Experiment> {
+  const result = await query(`${EXPERIMENT_SELECT} WHERE e.id = $1 AND e.hotel_id = $2`, [experimentId, hotelId]);
+  if (result.rows.length === 0) {
+    throw new ServiceError(`Experiment not found: ${experimentId}`, 404);
+  }
+  const variants = await loadVariants([experimentId]);
+  return toExperiment(result.rows[0], variants.get(experimentId) || []);
+}
+
+/**
+ * Start an experiment (409 while another one is running for the hotel)
+ */
+export async function createExperiment(hotelId: string, input: NewExperiment): Promise<Experiment> {
+  const name = typeof input.name === 'string' ? input.name.trim() : '';
+  if (!name) {
+    throw new ServiceError('name is required', 400);
+  }
+  if (!Array.isArray(input.variants) || input.variants.length < 2) {
+    throw new ServiceError('At least two variants are required', 400);
+  }
+
+  const variants = input.variants.map(variant => ({
+    provider: typeof variant?.provider === 'string' ? variant.provider.trim().toLowerCase() : '',
+    weight: variant?.weight ?? 1
+  }));
+  for (const variant of variants) {
+    if (!variant.provider) {
+      throw new ServiceError('Every variant needs a provider', 400);
+    }
+    if (!Number.isInteger(variant.weight) || variant.weight <= 0) {
+      throw new ServiceError('weight must be a positive integer', 400);
+    }
+  }
+  const slugs = variants.map(variant => variant.provider);
+  if (new Set(slugs).size !== slugs.length) {
+    throw new ServiceError('Each provider can only appear in one variant', 400);
+  }
+
+  const primaryMetric = input.primaryMetric ?? 'conversion_rate';
+  if (!EXPERIMENT_METRICS.includes(primaryMetric)) {
+    throw new ServiceError(`primaryMetric must be one of: ${EXPERIMENT_METRICS.join(', ')}`, 400);
+  }
+  const minSessions = input.minSessionsPerVariant ?? DEFAULT_MIN_SESSIONS;
+  if (!Number.isInteger(minSessions) || minSessions < 1) {
+    throw new ServiceError('minSessionsPerVariant must be a positive integer', 400);
+  }
+  const confidence = input.confidenceLevel ?? DEFAULT_CONFIDENCE;
+  if (typeof confidence !== 'number' || !(confidence >= 0.8 && confidence <= 0.999)) {
+    throw new ServiceError('confidenceLevel must be between 0.8 and 0.999', 400);
+  }
+
+  const providers = await query('SELECT id, slug FROM ai_providers WHERE slug = ANY($1)', [slugs]);
+  const providerIds = new Map<string, string>(providers.rows.map(row => [row.slug, row.id]));
+  const unknown = slugs.find(slug => !providerIds.has(slug));
+  if (unknown) {
+    throw new ServiceError(`Unknown provider: ${unknown}`, 400);
+  }
+
+  const running = await query("SELECT id FROM ai_experiments WHERE hotel_id = $1 AND status = 'running'", [hotelId]);
+  if (running.rows.length > 0) {
+    throw new ServiceError('Stop the running experiment before starting a new one', 409);
+  }
+
+  const created = await query(
+    `INSERT INTO ai_experiments (hotel_id, name, primary_metric, min_sessions_per_variant, confidence_level, auto_promote)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     RETURNING id`,
+    [hotelId, name, primaryMetric, minSessions, confidence, input.autoPromote ?? true]
+  );
+  const experimentId = created.rows[0].id;
+
+  for (const [position, variant] of variants.entries()) {
+    await query(
+      'INSERT INTO ai_experiment_variants (experiment_id, provider_id, weight, position) VALUES ($1, $2, $3, $4)',
+      [experimentId, providerIds.get(variant.provider), variant.weight, position]
+    );
+  }
+
+  return getExperiment(hotelId, experimentId);
+}
+
+export async function stopExperiment(hotelId: string, experimentId: string): Promise<Experiment> {
+  const experiment = await getExperiment(hotelId, experimentId);
+  if (experiment.status !== 'running') {
+    throw new ServiceError(`Experiment is already ${experiment.status}`, 409);
+  }
+
+  await query(
+    "UPDATE ai_experiments SET status = 'stopped', ended_at = NOW(), updated_at = NOW() WHERE id = $1",
+    [experimentId]
+  );
+  return getExperiment(hotelId, experimentId);
+}
+
+/**
+ * Variant for a random draw in [0, 1), proportional to weight
+ */
+export function pickVariant<T extends { weight: number }>(variants: T[], draw: number): T {
+  const total = variants.reduce((sum, variant) => sum + variant.weight, 0);
+  let threshold = draw * total;
+  for (const variant of variants) {
+    threshold -= variant.weight;
+    if (threshold < 0) return variant;
+  }
+  return variants[variants.length - 1];
+}
+
+/**
+ * Provider for a new guest session of the hotel's running experiment
+ * (null when no experiment is running)
+ */
+export async function routeSession(
+  hotelId: string,
+  random: () => number = Math.random
+): Promise<{ provider: string; experimentId: string } | null> {
+  const running = await query(
+    "SELECT id FROM ai_experiments WHERE hotel_id = $1 AND status = 'running' LIMIT 1",
+    [hotelId]
+  );
+  if (running.rows.length === 0) return null;
+
+  const experimentId = running.rows[0].id;
+  const variants = (await loadVariants([experimentId])).get(experimentId) || [];
+  if (variants.length === 0) return null;
+
+  return { provider: pickVariant(variants, random()).provider, experimentId };
+}
+
+function compare(test: stats.TestResult, alpha: number): Comparison {
+  return {
+    difference: roundStat(test.difference),
+    zScore: roundStat(test.zScore, 3),
+    pValue: roundStat(test.pValue),
+    significant: test.pValue !== null && test.pValue < alpha
+  };
+}
+
+function metricTest(metric: ExperimentMetric, a: VariantSums, b: VariantSums): stats.TestResult {
+  return metric === 'conversion_rate'
+    ? stats.twoProportionTest(a.conversions, a.n, b.conversions, b.n)
+    : stats.ratioDifferenceTest(a, b);
+}
+
+function metricEstimate(metric: ExperimentMetric, sums: VariantSums): number | null {
+  if (metric === 'conversion_rate') return sums.n > 0 ? sums.conversions / sums.n : null;
+  return sums.sumX > 0 ? sums.sumY / sums.sumX : null;
+}
+
+/**
+ * Intervals, comparisons with the control and the leader, from per-variant sums
+ */
+export function analyzeExperiment(
+  experiment: Experiment,
+  sums: Map<string, VariantSums>
+): Omit<ExperimentResults, 'experiment'> {
+  const confidence = experiment.confidenceLevel;
+  const alpha = 1 - confidence;
+  const empty: VariantSums = { n: 0, conversions: 0, sumY: 0, sumY2: 0, sumX: 0, sumX2: 0, sumXY: 0 };
+  const control = sums.get(experiment.variants[0]?.providerId) || empty;
+
+  const variants: VariantResult[] = experiment.variants.map((variant, i) => {
+    const data = sums.get(variant.providerId) || empty;
+    return {
+      provider: variant.provider,
+      name: variant.name,
+      weight: variant.weight,
+      isControl: i === 0,
+      sessions: data.n,
+      conversions: data.conversions,
+      revenue: round(data.sumY),
+      cost: round(data.sumX, 4),
+      conversionRate: roundInterval(stats.wilsonInterval(data.conversions, data.n, confidence)),
+      revenuePerDollar: roundInterval(stats.ratioInterval(data, confidence)),
+      vsControl: i === 0 ? null : {
+        conversionRate: compare(stats.twoProportionTest(data.conversions, data.n, control.conversions, control.n), alpha),
+        revenuePerDollar: compare(stats.ratioDifferenceTest(data, control), alpha)
+      }
+    };
+  });
+
+  const metric = experiment.primaryMetric;
+  let leader: ExperimentVariant | null = null;
+  let best = -Infinity;
+  for (const variant of experiment.variants) {
+    const estimate = metricEstimate(metric, sums.get(variant.providerId) || empty);
+    if (estimate !== null && estimate > best) {
+      best = estimate;
+      leader = variant;
+    }
+  }
+
+  let readyToPromote = false;
+  if (leader && experiment.variants.every(v => (sums.get(v.providerId)?.n || 0) >= experiment.minSessionsPerVariant)) {
+    // Bonferroni: the leader is compared with every other variant
+    const correctedAlpha = alpha / (experiment.variants.length - 1);
+    const leaderSums = sums.get(leader.providerId)!;
+    readyToPromote = experiment.variants
+      .filter(v => v.providerId !== leader!.providerId)
+      .every(other => {
+        const test = metricTest(metric, leaderSums, sums.get(other.providerId)!);
+        return test.pValue !== null && test.pValue < correctedAlpha && (test.difference || 0) > 0;
+      });
+  }
+
+  return { variants, leader: leader?.provider || null, readyToPromote };
+}
+
+async function loadSums(experimentId: string): Promise<Map<string, VariantSums>> {
+  // Revenue of a session is its conversion value when it converted, else 0
+  const result = await query(
+    `WITH sessions AS (
+       SELECT provider_id, converted,
+              CASE WHEN converted THEN COALESCE(conversion_value, 0) ELSE 0 END AS revenue,
+              COALESCE(cost, 0) AS cost
+       FROM ai_sessions
+       WHERE experiment_id = $1
+     )
+     SELECT provider_id,
+            COUNT(*) AS n,
+            COUNT(*) FILTER (WHERE converted) AS conversions,
+            SUM(revenue) AS sum_y, SUM(revenue * revenue) AS sum_y2,
+            SUM(cost) AS sum_x, SUM(cost * cost) AS sum_x2,
+            SUM(revenue * cost) AS sum_xy
+     FROM sessions
+     GROUP BY provider_id`,
+    [experimentId]
+  );
+
+  return new Map(result.rows.map(row => [row.provider_id, {
+    n: Number(row.n) || 0,
+    conversions: Number(row.conversions) || 0,
+    sumY: Number(row.sum_y) || 0,
+    sumY2: Number(row.sum_y2) || 0,
+    sumX: Number(row.sum_x) || 0,
+    sumX2: Number(row.sum_x2) || 0,
+    sumXY: Number(row.sum_xy) || 0
+  }]));
+}
+
+async function promote(experiment: Experiment, winner: string): Promise<boolean> {
+  const variant = experiment.variants.find(v => v.provider === winner)!;
+  const result = await query(
+    `UPDATE ai_experiments SET status = 'completed', winner_provider_id = $2, ended_at = NOW(), updated_at = NOW()
+     WHERE id = $1 AND status = 'running'`,
+    [experiment.id, variant.providerId]
+  );
+  if ((result.rowCount ?? 0) === 0) return false;
+
+  await query('UPDATE hotels SET default_ai_provider_id = $2, updated_at = NOW() WHERE id = $1', [experiment.hotelId, variant.providerId]);
+  experiment.status = 'completed';
+  experiment.winner = winner;
+  experiment.endedAt = new Date();
+  return true;
+}
+
+/**
+ * Results of an experiment (read-only; see runExperimentEvaluation for promotion)
+ */
+export async function getExperimentResults(hotelId: string, experimentId: string): Promise<ExperimentResults> {
+  const experiment = await getExperiment(hotelId, experimentId);
+  return { experiment, ...analyzeExperiment(experiment, await loadSums(experimentId)) };
+}
+
+// Completes a running auto-promote experiment whose leader has won; true when promoted
+async function evaluateExperiment(hotelId: string, experimentId: string): Promise<boolean> {
+  const { experiment, leader, readyToPromote } = await getExperimentResults(hotelId, experimentId);
+  if (experiment.status !== 'running' || !experiment.autoPromote || !readyToPromote || !leader) {
+    return false;
+  }
+  return promote(experiment, leader);
+}
+
+/**
+ * Evaluate every running experiment (auto-promotion); one failing does not stop the others
+ */
+export async function runExperimentEvaluation(): Promise<ExperimentJobResult> {
+  const startTime = Date.now();
+  const running = await query(
+    "SELECT id, hotel_id FROM ai_experiments WHERE status = 'running' AND auto_promote = true ORDER BY started_at"
+  );
+  const promoted: string[] = [];
+  const errors: ExperimentJobResult['errors'] = [];
+
+  for (const row of running.rows) {
+    try {
+      if (await evaluateExperiment(row.hotel_id, row.id)) promoted.push(row.id);
+    } catch (error: any) {
+      errors.push({ experimentId: row.id, error: error.message || 'Unknown error' });
+    }
+  }
+
+  return {
+    experimentsTotal: running.rows.length,
+    promoted,
+    failed: errors.length,
+    duration: Date.now() - startTime,
+    errors
+  };
+}
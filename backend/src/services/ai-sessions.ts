@@ -0,0 +1,285 @@
+/**
+ * AI Session Ingestion
+ *
+ * Records the AI conversations reported by the booking assistants into
+ * ai_sessions (read by the AI stats, sessions and provider comparison views):
+ * - cost is computed from the provider price table (ai_providers.cost_per_1k_in/out)
+ * - a session carrying a booking confirmation number is a conversion; it is linked
+ *   to the booking (and the booking flagged ai_assisted) once that booking is stored,
+ *   whichever of the two arrives first
+ */
+
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+
+export type AiSessionType = 'booking_assist' | 'guest_support' | 'upsell';
+
+export const AI_SESSION_TYPES: AiSessionType[] = ['booking_assist', 'guest_support', 'upsell'];
+
+// Sessions accepted in one batch request
+export const MAX_BATCH_SIZE = 500;
+
+export interface AiSessionInput {
+  provider: string; // ai_providers.slug
+  sessionType: AiSessionType;
+  tokensIn?: number;
+  tokensOut?: number;
+  guestRating?: number | null; // 1-5
+  converted?: boolean; // defaults to true when a confirmation number is given
+  conversionValue?: number | null; // defaults to the linked booking's revenue
+  confirmationNumber?: string | null;
+  externalId?: string | null; // caller's session id, makes retries idempotent
+  experimentId?: string | null; // experiment that routed the session (POST /ai/experiments/assign)
+  createdAt?: string; // ISO timestamp, defaults to now
+}
+
+export interface ProviderPrice {
+  id: string;
+  slug: string;
+  costPer1kIn: number;
+  costPer1kOut: number;
+}
+
+export interface IngestedSession {
+  id: string;
+  created: boolean;
+  provider: string;
+  cost: number;
+  bookingId: string | null;
+}
+
+export interface BatchIngestResult {
+  received: number;
+  accepted: number;
+  rejected: number;
+  sessions: IngestedSession[];
+  errors: Array<{ index: number; error: string }>;
+}
+
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i;
+
+function isCount(value: unknown): value is number {
+  return typeof value === 'number' && Number.isInteger(value) && value >= 0;
+}
+
+/**
+ * Check one session payload (throws a 400 ServiceError)
+ */
+export function validateSession(input: any): AiSessionInput {
+  if (!input || typeof input !== 'object') {
+    throw new ServiceError('Session must be an object', 400);
+  }
+  if (typeof input.provider !== 'string' || !input.provider.trim()) {
+    throw new ServiceError('provider is required', 400);
+  }
+  if (!AI_SESSION_TYPES.includes(input.sessionType)) {
+    throw new ServiceError(`sessionType must be one of: ${AI_SESSION_TYPES.join(', ')}`, 400);
+  }
+  for (const field of ['tokensIn', 'tokensOut']) {
+    if (input[field] !== undefined && !isCount(input[field])) {
+      throw new ServiceError(`${field} must be a non-negative integer`, 400);
+    }
+  }
+  if (input.guestRating !== undefined && input.guestRating !== null
+      && !(Number.isInteger(input.guestRating) && input.guestRating >= 1 && input.guestRating <= 5)) {
+    throw new ServiceError('guestRating must be an integer between 1 and 5', 400);
+  }
+  if (input.converted !== undefined && typeof input.converted !== 'boolean') {
+    throw new ServiceError('converted must be a boolean', 400);
+  }
+  if (input.conversionValue !== undefined && input.conversionValue !== null
+      && !(typeof input.conversionValue === 'number' && Number.isFinite(input.conversionValue) && input.conversionValue >= 0)) {
+    throw new ServiceError('conversionValue must be a non-negative number', 400);
+  }
+  for (const field of ['confirmationNumber', 'externalId']) {
+    if (input[field] !== undefined && input[field] !== null && (typeof input[field] !== 'string' || !input[field].trim())) {
+      throw new ServiceError(`${field} must be a non-empty string`, 400);
+    }
+  }
+  if (input.experimentId !== undefined && input.experimentId !== null
+      && !(typeof input.experimentId === 'string' && UUID_PATTERN.test(input.experimentId))) {
+    throw new ServiceError('experimentId must be a UUID', 400);
+  }
+  if (input.createdAt !== undefined) {
+    const createdAt = Date.parse(input.createdAt);
+    if (typeof input.createdAt !== 'string' || Number.isNaN(createdAt)) {
+      throw new ServiceError('createdAt must be an ISO timestamp', 400);
+    }
+    if (createdAt > Date.now() + 5 * 60 * 1000) {
+      throw new ServiceError('createdAt is in the future', 400);
+    }
+  }
+
+  return {
+    provider: input.provider.trim().toLowerCase(),
+    sessionType: input.sessionType,
+    tokensIn: input.tokensIn ?? 0,
+    tokensOut: input.tokensOut ?? 0,
+    guestRating: input.guestRating ?? null,
+    converted: input.converted ?? Boolean(input.confirmationNumber),
+    conversionValue: input.conversionValue ?? null,
+    confirmationNumber: input.confirmationNumber?.trim() || null,
+    externalId: input.externalId?.trim() || null,
+    experimentId: input.experimentId || null,
+    createdAt: input.createdAt
+  };
+}
+
+/**
+ * Provider cost of a session (rounded like ai_sessions.cost)
+ */
+export function sessionCost(tokensIn: number, tokensOut: number, price: ProviderPrice): number {
+  const cost = tokensIn / 1000 * price.costPer1kIn + tokensOut / 1000 * price.costPer1kOut;
+  return Math.round(cost * 10000) / 10000;
+}
+
+async function loadPrices(slugs: string[]): Promise<Map<string, ProviderPrice>> {
+  const result = await query(
+    'SELECT id, slug, cost_per_1k_in, cost_per_1k_out FROM ai_providers WHERE slug = ANY($1)',
+    [slugs]
+  );
+  return new Map(result.rows.map(row => [row.slug, {
+    id: row.id,
+    slug: row.slug,
+    costPer1kIn: Number(row.cost_per_1k_in) || 0,
+    costPer1kOut: Number(row.cost_per_1k_out) || 0
+  }]));
+}
+
+async function storeSession(hotelId: string, session: AiSessionInput, price: ProviderPrice): Promise<IngestedSession> {
+  const cost = sessionCost(session.tokensIn || 0, session.tokensOut || 0, price);
+
+  const result = await query(
+    `INSERT INTO ai_sessions (
+       hotel_id, provider_id, session_type, tokens_in, tokens_out, cost,
+       converted, conversion_value, guest_rating, confirmation_number, external_id, experiment_id, created_at
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, COALESCE($13::timestamptz, NOW()))
+     ON CONFLICT (hotel_id, external_id) WHERE external_id IS NOT NULL DO UPDATE SET
+       provider_id = EXCLUDED.provider_id,
+       session_type = EXCLUDED.session_type,
+       tokens_in = EXCLUDED.tokens_in,
+       tokens_out = EXCLUDED.tokens_out,
+       cost = EXCLUDED.cost,
+       converted = EXCLUDED.converted OR ai_sessions.booking_id IS NOT NULL,
+       conversion_value = COALESCE(EXCLUDED.conversion_value, ai_sessions.conversion_value),
+       guest_rating = EXCLUDED.guest_rating,
+       confirmation_number = EXCLUDED.confirmation_number,
+       experiment_id = EXCLUDED.experiment_id
+     RETURNING id, booking_id, (xmax = 0) AS created`,
+    [
+      hotelId, price.id, session.sessionType, session.tokensIn, session.tokensOut, cost,
+      session.converted, session.conversionValue, session.guestRating,
+      session.confirmationNumber, session.externalId, session.experimentId, session.createdAt || null
+    ]
+  );
+
+  const row = result.rows[0];
+  return { id: row.id, created: row.created, provider: price.slug, cost, bookingId: row.booking_id };
+}
+
+/**
+ * Link unlinked sessions to bookings by confirmation number (or PMS booking id)
+ * and flag those bookings as AI-assisted. Returns linked session id -> booking id.
+ */
+export async function linkConversions(hotelId: string, bookingId?: string): Promise<Map<string, string>> {
+  const result = await query(
+    `WITH linked AS (
+       UPDATE ai_sessions s SET
+         booking_id = b.id,
+         converted = true,
+         conversion_value = COALESCE(s.conversion_value, b.total_revenue)
+       FROM bookings b
+       WHERE s.hotel_id = $1
+         AND s.booking_id IS NULL
+         AND s.confirmation_number IS NOT NULL
+         AND b.hotel_id = s.hotel_id
+         AND (b.confirmation_number = s.confirmation_number OR b.pms_booking_id = s.confirmation_number)
+         AND b.booking_status NOT IN ('cancelled', 'no_show')
+         AND ($2::uuid IS NULL OR b.id = $2)
+       RETURNING s.id AS session_id, b.id AS booking_id
+     ),
+     flagged AS (
+       UPDATE bookings b SET
+         ai_assisted = true,
+         ai_session_id = COALESCE(b.ai_session_id, linked.session_id),
+         updated_at = NOW()
+       FROM linked
+       WHERE b.id = linked.booking_id
+     )
+     SELECT session_id, booking_id FROM linked`,
+    [hotelId, bookingId || null]
+  );
+
+  return new Map(result.rows.map(row => [row.session_id, row.booking_id]));
+}
+
+/**
+ * Validate, price and store sessions. Invalid sessions are reported by index
+ * and do not stop the others.
+ */
+export async function ingestSessions(hotelId: string, inputs: any[]): Promise<BatchIngestResult> {
+  if (!Array.isArray(inputs) || inputs.length === 0) {
+    throw new ServiceError('sessions must be a non-empty array', 400);
+  }
+  if (inputs.length > MAX_BATCH_SIZE) {
+    throw new ServiceError(`At most ${MAX_BATCH_SIZE} sessions per batch`, 400);
+  }
+
+  const errors: BatchIngestResult['errors'] = [];
+  const valid: Array<{ index: number; session: AiSessionInput }> = [];
+  inputs.forEach((input, index) => {
+    try {
+      valid.push({ index, session: validateSession(input) });
+    } catch (error: any) {
+      errors.push({ index, error: error.message });
+    }
+  });
+
+  const prices = valid.length > 0
+    ? await loadPrices([...new Set(valid.map(({ session }) => session.provider))])
+    : new Map<string, ProviderPrice>();
+
+  const experimentIds = [...new Set(valid.map(({ session }) => session.experimentId).filter(Boolean))];
+  const experiments = experimentIds.length > 0
+    ? new Set((await query(
+      'SELECT id FROM ai_experiments WHERE hotel_id = $1 AND id = ANY($2)',
+      [hotelId, experimentIds]
+    )).rows.map(row => row.id))
+    : new Set<string>();
+
+  const sessions: IngestedSession[] = [];
+  for (const { index, session } of valid) {
+    const price = prices.get(session.provider);
+    if (!price) {
+      errors.push({ index, error: `Unknown provider: ${session.provider}` });
+      continue;
+    }
+    if (session.experimentId && !experiments.has(session.experimentId)) {
+      errors.push({ index, error: `Unknown experiment: ${session.experimentId}` });
+      continue;
+    }
+    sessions.push(await storeSession(hotelId, session, price));
+  }
+
+  if (sessions.some(session => !session.bookingId) && valid.some(({ session }) => session.confirmationNumber)) {
+    const linked = await linkConversions(hotelId);
+    for (const session of sessions) {
+      session.bookingId = linked.get(session.id) || session.bookingId;
+    }
+  }
+
+  errors.sort((a, b) => a.index - b.index);
+  return { received: inputs.length, accepted: sessions.length, rejected: errors.length, sessions, errors };
+}
+
+/**
+ * Store a single session (throws a 400 ServiceError when it is invalid)
+ */
+export async function ingestSession(hotelId: string, input: any): Promise<IngestedSession> {
+  const result = await ingestSessions(hotelId, [input]);
+  if (result.errors.length > 0) {
+    throw new ServiceError(result.errors[0].error, 400);
+  }
+  return result.sessions[0];
+}
@@ -0,0 +1,641 @@
+/**
+ * Alert Rules Engine
+ *
+ * Per-hotel alert rules, evaluated every hour (and on demand):
+ * - score_drop: the Eywa Score lost `points` or more over the last `days`
+ * - negative_review_keyword: a review rated `maxRating` or less mentions one of `keywords`
+ * - competitor_overtake: a hotel of the same city passed our Eywa Score over the last `days`
+ * - sync_failing: a review source or the PMS has not synced for `hours`
+ * - occupancy_below_target: average occupancy of the last `days` under `target` %
+ *
+ * Fired alerts are stored as hotel-wide notifications. Each one carries a dedup
+ * key (rule + what it fired on, e.g. the competitor): while an alert is open,
+ * the same condition only bumps its occurrences; once acknowledged, it fires
+ * again after the rule's cooldown. Snoozed alerts are hidden until the snooze ends.
+ * New alerts are delivered to the hotel's users (notification-dispatcher.ts).
+ */
+
+import { query } from '../utils/db.js';
+import { round } from '../utils/numbers.js';
+import { ServiceError } from '../utils/errors.js';
+import { ALERT_THRESHOLDS } from './analytics.js';
+import { foldText } from './aspect-sentiment.js';
+import { dispatchNotification } from './notification-dispatcher.js';
+
+export type AlertRuleType =
+  | 'score_drop'
+  | 'negative_review_keyword'
+  | 'competitor_overtake'
+  | 'sync_failing'
+  | 'occupancy_below_target';
+export type AlertSeverity = 'low' | 'medium' | 'high';
+export type AlertStatus = 'open' | 'snoozed' | 'acknowledged';
+
+export interface AlertRule {
+  id: string;
+  hotelId: string;
+  name: string;
+  type: AlertRuleType;
+  params: Record<string, any>;
+  severity: AlertSeverity;
+  cooldownMinutes: number;
+  enabled: boolean;
+  lastEvaluatedAt: Date | null;
+  lastFiredAt: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface AlertRuleInput {
+  name?: string;
+  type?: AlertRuleType;
+  params?: Record<string, any>;
+  severity?: AlertSeverity;
+  cooldownMinutes?: number;
+  enabled?: boolean;
+}
+
+// A condition found by a rule evaluation
+export interface AlertFinding {
+  key: string; // what the rule fired on, unique within the rule
+  title: string;
+  message: string;
+  data: Record<string, any>;
+  once?: boolean; // never fire twice for this key (e.g. one review)
+}
+
+export interface StoredAlert {
+  id: string;
+  hotelId: string;
+  ruleId: string | null;
+  category: string | null;
+  severity: AlertSeverity | null;
+  title: string;
+  message: string | null;
+  data: Record<string, any> | null;
+  status: AlertStatus;
+  occurrences: number;
+  createdAt: Date;
+  lastSeenAt: Date | null;
+  acknowledgedAt: Date | null;
+  acknowledgedBy: string | null;
+  snoozedUntil: Date | null;
+}
+
+export interface RuleEvaluation {
+  ruleId: string;
+  fired: string[]; // ids of the new alerts
+  deduplicated: number; // folded into an open alert
+  suppressed: number; // in cooldown
+}
+
+export interface AlertRulesJobResult {
+  rulesTotal: number;
+  fired: number;
+  failed: number;
+  duration: number; // ms
+  errors: Array<{ ruleId: string; error: string }>;
+}
+
+interface RuleTypeSpec {
+  category: string; // notifications.category of its alerts
+  params(input: Record<string, any>): Record<string, any>; // validated params with defaults
+  evaluate(hotelId: string, params: Record<string, any>): Promise<AlertFinding[]>;
+}
+
+export const ALERT_SEVERITIES: AlertSeverity[] = ['low', 'medium', 'high'];
+export const ALERT_STATUSES: AlertStatus[] = ['open', 'snoozed', 'acknowledged'];
+
+const DEFAULT_COOLDOWN_MINUTES = 24 * 60;
+const MAX_COOLDOWN_MINUTES = 30 * 24 * 60;
+const MAX_SNOOZE_MINUTES = 7 * 24 * 60;
+// Reviews the keyword rule looks at (by publication date)
+const KEYWORD_LOOKBACK_DAYS = 7;
+
+function intParam(input: Record<string, any>, name: string, fallback: number, max: number): number {
+  const value = input[name] ?? fallback;
+  if (!Number.isInteger(value) || value < 1 || value > max) {
+    throw new ServiceError(`params.${name} must be an integer between 1 and ${max}`, 400);
+  }
+  return value;
+}
+
+function numberParam(input: Record<string, any>, name: string, fallback: number | null, max: number): number {
+  const value = input[name] ?? fallback;
+  if (typeof value !== 'number' || !(value > 0 && value <= max)) {
+    throw new ServiceError(`params.${name} must be a number above 0 and at most ${max}`, 400);
+  }
+  return value;
+}
+
+async function evaluateScoreDrop(hotelId: string, params: Record<string, any>): Promise<AlertFinding[]> {
+  const result = await query(
+    `SELECT
+       (SELECT eywa_score FROM hotel_eywa_scores WHERE hotel_id = $1
+        ORDER BY computed_at DESC LIMIT 1) AS current_score,
+       (SELECT eywa_score FROM hotel_eywa_scores WHERE hotel_id = $1
+        AND computed_at >= NOW() - make_interval(days => $2)
+        ORDER BY computed_at ASC LIMIT 1) AS start_score`,
+    [hotelId, params.days]
+  );
+  const row = result.rows[0];
+  if (!row?.current_score || !row?.start_score) return [];
+
+  const currentScore = parseFloat(row.current_score);
+  const startScore = parseFloat(row.start_score);
+  const drop = round(startScore - currentScore);
+  if (drop < params.points) return [];
+
+  return [{
+    key: 'score',
+    title: `Eywa Score dropped by ${drop.toFixed(2)} points`,
+    message: `Eywa Score went from ${startScore.toFixed(2)} to ${currentScore.toFixed(2)} over the last ${params.days} days`,
+    data: { startScore, currentScore, drop, days: params.days },
+  }];
+}
+
+async function evaluateNegativeReviewKeyword(hotelId: string, params: Record<string, any>): Promise<AlertFinding[]> {
+  const result = await query(
+    `SELECT id, source, author_name, rating, text, published_at
+     FROM hotel_reviews
+     WHERE hotel_id = $1 AND rating <= $2 AND text IS NOT NULL
+     AND published_at >= NOW() - make_interval(days => $3)
+     ORDER BY published_at DESC`,
+    [hotelId, params.maxRating, KEYWORD_LOOKBACK_DAYS]
+  );
+
+  const findings: AlertFinding[] = [];
+  for (const review of result.rows) {
+    const text = ` ${foldText(review.text)} `;
+    const matched = (params.keywords as string[]).filter(keyword => text.includes(` ${keyword} `));
+    if (matched.length === 0) continue;
+
+    findings.push({
+      key: `review:${review.id}`,
+      title: `${review.rating}-star review mentions ${matched.map(keyword => `"${keyword}"`).join(', ')}`,
+      message: review.text.length > 280 ? `${review.text.slice(0, 277)}...` : review.text,
+      data: { reviewId: review.id, source: review.source, author: review.author_name, rating: review.rating, keywords: matched },
+      once: true,
+    });
+  }
+  return findings;
+}
+
+async function evaluateCompetitorOvertake(hotelId: string, params: Record<string, any>): Promise<AlertFinding[]> {
+  // Latest score and score as of `days` ago of the hotel and the others of its city
+  const result = await query(
+    `SELECT h.id, h.name,
+       (SELECT eywa_score FROM hotel_eywa_scores WHERE hotel_id = h.id
+        ORDER BY computed_at DESC LIMIT 1) AS current_score,
+       (SELECT eywa_score FROM hotel_eywa_scores WHERE hotel_id = h.id
+        AND computed_at <= NOW() - make_interval(days => $2)
+        ORDER BY computed_at DESC LIMIT 1) AS previous_score
+     FROM hotels h
+     JOIN hotels me ON me.id = $1
+     WHERE h.city = me.city AND h.country = me.country`,
+    [hotelId, params.days]
+  );
+
+  const scores = result.rows.map(row => ({
+    id: row.id,
+    name: row.name,
+    current: row.current_score !== null ? parseFloat(row.current_score) : null,
+    previous: row.previous_score !== null ? parseFloat(row.previous_score) : null,
+  }));
+  const own = scores.find(hotel => hotel.id === hotelId);
+  if (!own || own.current === null || own.previous === null) return [];
+
+  return scores
+    .filter(hotel => hotel.id !== hotelId && hotel.current !== null && hotel.previous !== null)
+    .filter(hotel => hotel.previous! <= own.previous! && hotel.current! > own.current!)
+    .map(hotel => ({
+      key: `competitor:${hotel.id}`,
+      title: `${hotel.name} overtook your Eywa Score`,
+      message: `${hotel.name} is at ${hotel.current!.toFixed(2)}, you are at ${own.current!.toFixed(2)} (${params.days} days ago: ${hotel.previous!.toFixed(2)} vs ${own.previous!.toFixed(2)})`,
+      data: {
+        competitorId: hotel.id,
+        competitorName: hotel.name,
+        competitorScore: hotel.current,
+        score: own.current,
+        previousCompetitorScore: hotel.previous,
+        previousScore: own.previous,
+      },
+    }));
+}
+
+async function evaluateSyncFailing(hotelId: string, params: Record<string, any>): Promise<AlertFinding[]> {
+  // Review sources: last run failed and no rating snapshot (stored on success) for `hours`.
+  // PMS: no successful reservation sync for `hours` (the sync runs every 30 minutes).
+  const result = await query(
+    `SELECT 'reviews' AS kind, hrs.source AS name, hrs.sync_error_message AS error, MAX(hr.fetched_at) AS last_success_at
+     FROM hotel_review_sources hrs
+     LEFT JOIN hotel_ratings hr ON hr.hotel_id = hrs.hotel_id AND hr.source = hrs.source
+     WHERE hrs.hotel_id = $1 AND hrs.last_sync_status = 'failed'
+     GROUP BY hrs.source, hrs.sync_error_message
+     HAVING COALESCE(MAX(hr.fetched_at), '1970-01-01') < NOW() - make_interval(hours => $2)
+     UNION ALL
+     SELECT 'pms' AS kind, pms_type AS name, sync_error AS error, reservations_synced_at AS last_success_at
+     FROM pms_connections
+     WHERE hotel_id = $1 AND is_active = true
+     AND COALESCE(reservations_synced_at, created_at) < NOW() - make_interval(hours => $2)`,
+    [hotelId, params.hours]
+  );
+
+  return result.rows.map(row => ({
+    key: `${row.kind}:${row.name}`,
+    title: row.kind === 'pms'
+      ? `PMS sync (${row.name}) failing for ${params.hours}+ hours`
+      : `Review sync (${row.name}) failing for ${params.hours}+ hours`,
+    message: row.error || 'No successful sync',
+    data: { kind: row.kind, name: row.name, error: row.error, lastSuccessAt: row.last_success_at },
+  }));
+}
+
+async function evaluateOccupancyBelowTarget(hotelId: string, params: Record<string, any>): Promise<AlertFinding[]> {
+  const result = await query(
+    `SELECT AVG(occupancy_rate) AS occupancy, COUNT(*) AS days
+     FROM daily_stats
+     WHERE hotel_id = $1 AND occupancy_rate IS NOT NULL
+     AND date >= CURRENT_DATE - $2::int AND date < CURRENT_DATE`,
+    [hotelId, params.days]
+  );
+  const row = result.rows[0];
+  if (!row || parseInt(row.days) === 0 || row.occupancy === null) return [];
+
+  const occupancy = round(parseFloat(row.occupancy));
+  if (occupancy >= params.target) return [];
+
+  return [{
+    key: 'occupancy',
+    title: `Occupancy at ${occupancy}%, below the ${params.target}% target`,
+    message: `Average occupancy of the last ${params.days} days is ${occupancy}% (target ${params.target}%)`,
+    data: { occupancy, target: params.target, days: params.days },
+  }];
+}
+
+const RULE_TYPES: Record<AlertRuleType, RuleTypeSpec> = {
+  score_drop: {
+    category: 'reviews',
+    params: input => ({
+      points: numberParam(input, 'points', Math.abs(ALERT_THRESHOLDS.SCORE_DROP_MEDIUM), 10),
+      days: intParam(input, 'days', 7, 90),
+    }),
+    evaluate: evaluateScoreDrop,
+  },
+  negative_review_keyword: {
+    category: 'reviews',
+    params: input => {
+      const keywords = Array.isArray(input.keywords)
+        ? input.keywords.filter((k: unknown) => typeof k === 'string').map((k: string) => foldText(k)).filter(Boolean)
+        : [];
+      if (keywords.length === 0) {
+        throw new ServiceError('params.keywords must be a non-empty list of words', 400);
+      }
+      return { keywords: [...new Set(keywords)], maxRating: intParam(input, 'maxRating', 3, 5) };
+    },
+    evaluate: evaluateNegativeReviewKeyword,
+  },
+  competitor_overtake: {
+    category: 'competitors',
+    params: input => ({ days: intParam(input, 'days', 7, 90) }),
+    evaluate: evaluateCompetitorOvertake,
+  },
+  sync_failing: {
+    category: 'sync',
+    params: input => ({ hours: intParam(input, 'hours', 24, 720) }),
+    evaluate: evaluateSyncFailing,
+  },
+  occupancy_below_target: {
+    category: 'booking',
+    params: input => ({
+      target: numberParam(input, 'target', null, 100),
+      days: intParam(input, 'days', 7, 90),
+    }),
+    evaluate: evaluateOccupancyBelowTarget,
+  },
+};
+
+export const ALERT_RULE_TYPES = Object.keys(RULE_TYPES) as AlertRuleType[];
+
+const RULE_COLUMNS = `id, hotel_id, name, type, params, severity, cooldown_minutes, enabled,
+  last_evaluated_at, last_fired_at, created_at, updated_at`;
+
+const ALERT_COLUMNS = `id, hotel_id, rule_id, category, severity, title, message, data, occurrences,
+  created_at, last_seen_at, acknowledged_at, acknowledged_by, snoozed_until`;
+
+function toRule(row: any): AlertRule {
+  return {
+    id: row.id,
+    hotelId: row.hotel_id,
+    name: row.name,
+    type: row.type,
+    params: row.params || {},
+    severity: row.severity,
+    cooldownMinutes: row.cooldown_minutes,
+    enabled: row.enabled,
+    lastEvaluatedAt: row.last_evaluated_at,
+    lastFiredAt: row.last_fired_at,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at,
+  };
+}
+
+function toAlert(row: any): StoredAlert {
+  const snoozed = row.snoozed_until !== null && new Date(row.snoozed_until) > new Date();
+  return {
+    id: row.id,
+    hotelId: row.hotel_id,
+    ruleId: row.rule_id,
+    category: row.category,
+    severity: row.severity,
+    title: row.title,
+    message: row.message,
+    data: row.data,
+    status: row.acknowledged_at ? 'acknowledged' : snoozed ? 'snoozed' : 'open',
+    occurrences: row.occurrences,
+    createdAt: row.created_at,
+    lastSeenAt: row.last_seen_at,
+    acknowledgedAt: row.acknowledged_at,
+    acknowledgedBy: row.acknowledged_by,
+    snoozedUntil: row.snoozed_until,
+  };
+}
+
+function validateRule(rule: Required<AlertRuleInput>): Required<AlertRuleInput> {
+  const name = typeof rule.name === 'string' ? rule.name.trim() : '';
+  if (!name || name.length > 255) {
+    throw new ServiceError('name is required (at most 255 characters)', 400);
+  }
+  if (!ALERT_RULE_TYPES.includes(rule.type)) {
+    throw new ServiceError(`type must be one of: ${ALERT_RULE_TYPES.join(', ')}`, 400);
+  }
+  if (!ALERT_SEVERITIES.includes(rule.severity)) {
+    throw new ServiceError(`severity must be one of: ${ALERT_SEVERITIES.join(', ')}`, 400);
+  }
+  if (!Number.isInteger(rule.cooldownMinutes) || rule.cooldownMinutes < 0 || rule.cooldownMinutes > MAX_COOLDOWN_MINUTES) {
+    throw new ServiceError(`cooldownMinutes must be an integer between 0 and ${MAX_COOLDOWN_MINUTES}`, 400);
+  }
+  if (typeof rule.enabled !== 'boolean') {
+    throw new ServiceError('enabled must be a boolean', 400);
+  }
+  const params = rule.params && typeof rule.params === 'object' && !Array.isArray(rule.params) ? rule.params : {};
+
+  return { ...rule, name, params: RULE_TYPES[rule.type].params(params) };
+}
+
+export async function listRules(hotelId: string): Promise<AlertRule[]> {
+  const result = await query(
+    `SELECT ${RULE_COLUMNS} FROM hotel_alert_rules WHERE hotel_id = $1 ORDER BY created_at`,
+    [hotelId]
+  );
+  return result.rows.map(toRule);
+}
+
+export async function getRule(hotelId: string, ruleId: string): Promise<AlertRule> {
+  const result = await query(
+    `SELECT ${RULE_COLUMNS} FROM hotel_alert_rules WHERE id = $1 AND hotel_id = $2`,
+    [ruleId, hotelId]
+  );
+  if (result.rows.length === 0) {
+    throw new ServiceError(`Alert rule not found: ${ruleId}`, 404);
+  }
+  return toRule(result.rows[0]);
+}
+
+export async function createRule(hotelId: string, input: AlertRuleInput, userId: string | null): Promise<AlertRule> {
+  const rule = validateRule({
+    name: input.name as string,
+    type: input.type as AlertRuleType,
+    params: input.params ?? {},
+    severity: input.severity ?? 'medium',
+    cooldownMinutes: input.cooldownMinutes ?? DEFAULT_COOLDOWN_MINUTES,
+    enabled: input.enabled ?? true,
+  });
+
+  const result = await query(
+    `INSERT INTO hotel_alert_rules (hotel_id, name, type, params, severity, cooldown_minutes, enabled, created_by)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+     RETURNING ${RULE_COLUMNS}`,
+    [hotelId, rule.name, rule.type, JSON.stringify(rule.params), rule.severity, rule.cooldownMinutes, rule.enabled, userId]
+  );
+  return toRule(result.rows[0]);
+}
+
+/**
+ * Change a rule; params are replaced as a whole (defaults fill what is left out)
+ */
+export async function updateRule(hotelId: string, ruleId: string, changes: AlertRuleInput): Promise<AlertRule> {
+  const current = await getRule(hotelId, ruleId);
+  const typeChanged = changes.type !== undefined && changes.type !== current.type;
+  const rule = validateRule({
+    name: changes.name ?? current.name,
+    type: changes.type ?? current.type,
+    // a new type does not share the params of the old one
+    params: changes.params ?? (typeChanged ? {} : current.params),
+    severity: changes.severity ?? current.severity,
+    cooldownMinutes: changes.cooldownMinutes ?? current.cooldownMinutes,
+    enabled: changes.enabled ?? current.enabled,
+  });
+
+  const result = await query(
+    `UPDATE hotel_alert_rules
+     SET name = $2, type = $3, params = $4, severity = $5, cooldown_minutes = $6, enabled = $7, updated_at = NOW()
+     WHERE id = $1
+     RETURNING ${RULE_COLUMNS}`,
+    [ruleId, rule.name, rule.type, JSON.stringify(rule.params), rule.severity, rule.cooldownMinutes, rule.enabled]
+  );
+  return toRule(result.rows[0]);
+}
+
+/**
+ * Delete a rule (its alerts are kept, without their rule)
+ */
+export async function deleteRule(hotelId: string, ruleId: string): Promise<void> {
+  const result = await query('DELETE FROM hotel_alert_rules WHERE id = $1 AND hotel_id = $2', [ruleId, hotelId]);
+  if (result.rowCount === 0) {
+    throw new ServiceError(`Alert rule not found: ${ruleId}`, 404);
+  }
+}
+
+// Store a finding: fold it into its open alert, drop it in cooldown, else fire a new alert
+async function storeFinding(
+  rule: AlertRule,
+  finding: AlertFinding
+): Promise<{ outcome: 'fired' | 'deduplicated' | 'suppressed'; alertId: string | null }> {
+  const dedupKey = `${rule.id}:${finding.key}`;
+  const previous = await query(
+    `SELECT id, created_at, acknowledged_at FROM notifications
+     WHERE hotel_id = $1 AND dedup_key = $2
+     ORDER BY created_at DESC LIMIT 1`,
+    [rule.hotelId, dedupKey]
+  );
+  const last = previous.rows[0];
+
+  if (last && !last.acknowledged_at) {
+    await query(
+      `UPDATE notifications SET occurrences = occurrences + 1, last_seen_at = NOW(), data = $2 WHERE id = $1`,
+      [last.id, JSON.stringify(finding.data)]
+    );
+    return { outcome: 'deduplicated', alertId: last.id };
+  }
+  if (last) {
+    // cooldown from the later of firing and acknowledgment
+    const since = Math.max(new Date(last.created_at).getTime(), new Date(last.acknowledged_at).getTime());
+    if (finding.once || Date.now() - since < rule.cooldownMinutes * 60 * 1000) {
+      return { outcome: 'suppressed', alertId: null };
+    }
+  }
+
+  const inserted = await query(
+    `INSERT INTO notifications (hotel_id, type, category, title, message, rule_id, severity, dedup_key, data, last_seen_at)
+     VALUES ($1, 'alert', $2, $3, $4, $5, $6, $7, $8, NOW())
+     ON CONFLICT (hotel_id, dedup_key) WHERE dedup_key IS NOT NULL AND acknowledged_at IS NULL DO NOTHING
+     RETURNING id`,
+    [rule.hotelId, RULE_TYPES[rule.type].category, finding.title, finding.message, rule.id, rule.severity, dedupKey, JSON.stringify(finding.data)]
+  );
+  // another evaluation stored it first
+  if (inserted.rows.length === 0) {
+    return { outcome: 'deduplicated', alertId: null };
+  }
+  return { outcome: 'fired', alertId: inserted.rows[0].id };
+}
+
+/**
+ * Evaluate one rule and store what it finds
+ */
+export async function evaluateRule(rule: AlertRule): Promise<RuleEvaluation> {
+  const spec = RULE_TYPES[rule.type];
+  if (!spec) {
+    throw new ServiceError(`Unknown alert rule type: ${rule.type}`, 400);
+  }
+
+  const findings = await spec.evaluate(rule.hotelId, spec.params(rule.params));
+  const evaluation: RuleEvaluation = { ruleId: rule.id, fired: [], deduplicated: 0, suppressed: 0 };
+  for (const finding of findings) {
+    const { outcome, alertId } = await storeFinding(rule, finding);
+    if (outcome === 'fired') evaluation.fired.push(alertId!);
+    else evaluation[outcome]++;
+  }
+
+  // a delivery problem must not fail the evaluation; retries are logged by the dispatcher
+  for (const alertId of evaluation.fired) {
+    await dispatchNotification(alertId).catch(error => console.error(`Alert ${alertId} dispatch failed:`, error));
+  }
+
+  await query(
+    `UPDATE hotel_alert_rules
+     SET last_evaluated_at = NOW()${evaluation.fired.length > 0 ? ', last_fired_at = NOW()' : ''}
+     WHERE id = $1`,
+    [rule.id]
+  );
+  return evaluation;
+}
+
+/**
+ * Evaluate the enabled rules of a hotel now
+ */
+export async function evaluateHotelRules(hotelId: string): Promise<RuleEvaluation[]> {
+  const rules = (await listRules(hotelId)).filter(rule => rule.enabled);
+  const evaluations: RuleEvaluation[] = [];
+  for (const rule of rules) {
+    evaluations.push(await evaluateRule(rule));
+  }
+  return evaluations;
+}
+
+/**
+ * Evaluate every enabled rule (hourly job); one failing does not stop the others
+ */
+export async function runAlertRules(): Promise<AlertRulesJobResult> {
+  const startTime = Date.now();
+  const result = await query(
+    `SELECT ${RULE_COLUMNS} FROM hotel_alert_rules WHERE enabled = true ORDER BY hotel_id, created_at`
+  );
+  let fired = 0;
+  const errors: AlertRulesJobResult['errors'] = [];
+
+  for (const row of result.rows) {
+    try {
+      fired += (await evaluateRule(toRule(row))).fired.length;
+    } catch (error: any) {
+      errors.push({ ruleId: row.id, error: error.message || 'Unknown error' });
+    }
+  }
+
+  return {
+    rulesTotal: result.rows.length,
+    fired,
+    failed: errors.length,
+    duration: Date.now() - startTime,
+    errors,
+  };
+}
+
+/**
+ * Stored alerts of a hotel, newest first (default: open ones)
+ */
+export async function listAlerts(hotelId: string, status: AlertStatus | 'all' = 'open', limit = 50): Promise<StoredAlert[]> {
+  if (status !== 'all' && !ALERT_STATUSES.includes(status)) {
+    throw new ServiceError(`status must be one of: all, ${ALERT_STATUSES.join(', ')}`, 400);
+  }
+  const conditions: Record<AlertStatus | 'all', string> = {
+    all: '',
+    open: 'AND acknowledged_at IS NULL AND (snoozed_until IS NULL OR snoozed_until <= NOW())',
+    snoozed: 'AND acknowledged_at IS NULL AND snoozed_until > NOW()',
+    acknowledged: 'AND acknowledged_at IS NOT NULL',
+  };
+
+  const result = await query(
+    `SELECT ${ALERT_COLUMNS} FROM notifications
+     WHERE hotel_id = $1 AND type = 'alert' ${conditions[status]}
+     ORDER BY created_at DESC LIMIT $2`,
+    [hotelId, limit]
+  );
+  return result.rows.map(toAlert);
+}
+
+async function loadOpenAlert(hotelId: string, alertId: string): Promise<StoredAlert> {
+  const result = await query(
+    `SELECT ${ALERT_COLUMNS} FROM notifications WHERE id = $1 AND hotel_id = $2 AND type = 'alert'`,
+    [alertId, hotelId]
+  );
+  if (result.rows.length === 0) {
+    throw new ServiceError(`Alert not found: ${alertId}`, 404);
+  }
+  const alert = toAlert(result.rows[0]);
+  if (alert.status === 'acknowledged') {
+    throw new ServiceError('Alert is already acknowledged', 409);
+  }
+  return alert;
+}
+
+/**
+ * Close an alert; the same condition fires again after the rule's cooldown
+ */
+export async function acknowledgeAlert(hotelId: string, alertId: string, userId: string | null): Promise<StoredAlert> {
+  await loadOpenAlert(hotelId, alertId);
+  const result = await query(
+    `UPDATE notifications SET acknowledged_at = NOW(), acknowledged_by = $2, read_at = COALESCE(read_at, NOW())
+     WHERE id = $1
+     RETURNING ${ALERT_COLUMNS}`,
+    [alertId, userId]
+  );
+  return toAlert(result.rows[0]);
+}
+
+/**
+ * Hide an alert for some minutes (repeats of its condition keep folding into it)
+ */
+export async function snoozeAlert(hotelId: string, alertId: string, minutes: number): Promise<StoredAlert> {
+  if (!Number.isInteger(minutes) || minutes < 1 || minutes > MAX_SNOOZE_MINUTES) {
+    throw new ServiceError(`minutes must be an integer between 1 and ${MAX_SNOOZE_MINUTES}`, 400);
+  }
+  await loadOpenAlert(hotelId, alertId);
+  const result = await query(
+    `UPDATE notifications SET snoozed_until = NOW() + make_interval(mins => $2)
+     WHERE id = $1
+     RETURNING ${ALERT_COLUMNS}`,
+    [alertId, minutes]
+  );
+  return toAlert(result.rows[0]);
+}
@@ -21,7 +21,7 @@ export interface TrendData {
 }
 
 export interface Alert {
-  type: 'score_drop' | 'score_rise' | 'review_spike' | 'negative_review';
+  type: 'score_drop' | 'score_rise' | 'review_spike' | 'negative_review' | 'unanswered_negative_reviews';
   severity: 'low' | 'medium' | 'high';
   message: string;
   data: Record<string, any>;
@@ -52,6 +52,7 @@ export const ALERT_THRESHOLDS = {
   SCORE_RISE_HIGH: 0.5,      // Score rises by 0.5+ points
   REVIEW_SPIKE_FACTOR: 2,    // 2x normal review rate
   NEGATIVE_REVIEW_RATING: 2, // Rating of 2 or below
+  UNANSWERED_NEGATIVE_HIGH: 5, // 5+ negative reviews without a reply
 };
 
 /**
@@ -111,7 +112,8 @@ export function detectAlerts(
   currentScore: number,
   previousScore: number | null,
   recentReviews: Array<{ rating: number; publishedAt: Date }>,
-  normalReviewRate: number // reviews per day
+  normalReviewRate: number, // reviews per day
+  unansweredNegativeReviews: number = 0
 ): Alert[] {
   const alerts: Alert[] = [];
   const now = new Date();
@@ -180,6 +182,17 @@ export function detectAlerts(
       detectedAt: now,
     });
   }
+
+  // Check for negative reviews still waiting for a reply
+  if (unansweredNegativeReviews > 0) {
+    alerts.push({
+      type: 'unanswered_negative_reviews',
+      severity: unansweredNegativeReviews >= ALERT_THRESHOLDS.UNANSWERED_NEGATIVE_HIGH ? 'high' : 'medium',
+      message: `${unansweredNegativeReviews} negative review${unansweredNegativeReviews === 1 ? '' : 's'} without a reply`,
+      data: { count: unansweredNegativeReviews },
+      detectedAt: now,
+    });
+  }
   
   return alerts;
 }
@@ -221,6 +234,27 @@ export function calculateSentiment(
   };
 }
 
+/**
+ * Sentiment breakdown per group of reviews (source, language, ...)
+ */
+export function calculateSentimentBy<T extends { rating: number }>(
+  reviews: T[],
+  groupOf: (review: T) => string
+): Record<string, SentimentBreakdown> {
+  const groups: Record<string, T[]> = {};
+  for (const review of reviews) {
+    const group = groupOf(review);
+    if (!groups[group]) groups[group] = [];
+    groups[group].push(review);
+  }
+
+  const breakdown: Record<string, SentimentBreakdown> = {};
+  for (const [group, groupReviews] of Object.entries(groups)) {
+    breakdown[group] = calculateSentiment(groupReviews);
+  }
+  return breakdown;
+}
+
 /**
  * Calculate market position based on competitor scores
  */
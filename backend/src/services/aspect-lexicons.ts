@@ -0,0 +1,181 @@
+/**
+ * Aspect Sentiment Lexicons
+ *
+ * Per-language word lists used by aspect-sentiment.ts. Terms are written
+ * lowercase without accents (text is folded the same way before matching);
+ * a trailing * matches any ending ("clean*" -> clean, cleanliness, cleaned)
+ * and multi-word terms match consecutive words.
+ *
+ * Words such as "noisy" or "quiet" are both an aspect term and a polarity
+ * word, so a bare "very noisy" is a negative noise mention.
+ */
+
+export type Aspect = 'cleanliness' | 'staff' | 'location' | 'breakfast' | 'noise' | 'value' | 'wifi';
+
+export const ASPECTS: Aspect[] = ['cleanliness', 'staff', 'location', 'breakfast', 'noise', 'value', 'wifi'];
+
+export interface AspectLexicon {
+  aspects: Record<Aspect, string[]>;
+  positive: string[];
+  negative: string[];
+  negators: string[]; // flip the polarity of the next few words ("not clean")
+  negatorsFollow?: boolean; // negators come after the word they negate
+  contrast: string[]; // split a sentence into clauses ("clean but noisy")
+}
+
+const WIFI_TERMS = ['wifi', 'wi fi', 'wlan', 'internet'];
+
+const en: AspectLexicon = {
+  aspects: {
+    cleanliness: ['clean*', 'unclean', 'dirty', 'dirt', 'dust*', 'spotless', 'stain*', 'hygien*', 'filthy', 'mould*', 'mold*', 'smell*'],
+    staff: ['staff', 'reception*', 'front desk', 'employee*', 'manager*', 'concierge', 'service', 'host*', 'personnel', 'team'],
+    location: ['location', 'located', 'neighbo*', 'area', 'walking distance', 'close to', 'far from', 'metro', 'subway', 'station', 'beach'],
+    breakfast: ['breakfast*', 'buffet', 'coffee', 'brunch'],
+    noise: ['nois*', 'loud', 'quiet', 'soundproof*', 'thin walls', 'traffic', 'peaceful', 'silent'],
+    value: ['value', 'price*', 'pric*', 'expensive', 'cheap', 'overpriced', 'money', 'worth', 'cost*', 'affordable'],
+    wifi: WIFI_TERMS,
+  },
+  positive: [
+    'good', 'great', 'excellent', 'amazing', 'perfect', 'lovely', 'nice', 'friendly', 'helpful', 'wonderful', 'fantastic',
+    'spotless', 'clean*', 'quiet', 'peaceful', 'silent', 'convenient', 'central', 'delicious', 'tasty', 'fresh', 'fast', 'reliable',
+    'affordable', 'worth', 'reasonable', 'welcoming', 'attentive', 'polite', 'superb', 'best', 'comfortable', 'ideal', 'recommend*',
+    'works', 'worked',
+  ],
+  negative: [
+    'bad', 'poor', 'terrible', 'awful', 'horrible', 'dirty', 'filthy', 'rude', 'unfriendly', 'unhelpful', 'nois*', 'loud',
+    'slow', 'expensive', 'overpriced', 'cold', 'stale', 'broken', 'disappointing', 'disappointed', 'worst', 'stain*', 'smell*',
+    'mould*', 'mold*', 'far', 'unreliable', 'weak', 'dust*', 'thin walls', 'mediocre', 'lacking', 'nothing special', 'unsafe',
+    'unclean', 'problem*', 'issue*',
+  ],
+  negators: ['not', 'no', 'never', 'nothing', 'hardly', 'wasn t', 'wasnt', 'isn t', 'isnt', 'didn t', 'didnt', 'without'],
+  contrast: ['but', 'however', 'although', 'though', 'except', 'whereas'],
+};
+
+const fr: AspectLexicon = {
+  aspects: {
+    cleanliness: ['propre*', 'sale*', 'salete', 'poussiere*', 'hygien*', 'menage', 'tache*', 'odeur*', 'moisi*', 'impeccable'],
+    staff: ['personnel', 'accueil', 'reception*', 'equipe', 'employe*', 'service', 'receptionniste*', 'concierge', 'hote', 'hotesse*'],
+    location: ['emplacement', 'situation', 'situe*', 'quartier', 'localisation', 'proche', 'loin', 'metro', 'gare', 'plage', 'centre ville'],
+    breakfast: ['petit dejeuner*', 'petit dej', 'buffet', 'cafe', 'croissant*', 'brunch'],
+    noise: ['bruit*', 'bruyant*', 'calme', 'insonoris*', 'silencieu*', 'tranquill*', 'circulation'],
+    value: ['prix', 'rapport qualite prix', 'qualite prix', 'tarif*', 'cher', 'chere*', 'chers', 'argent', 'cout*', 'abordable'],
+    wifi: WIFI_TERMS,
+  },
+  positive: [
+    'bon*', 'bien', 'excellent*', 'parfait*', 'super', 'agreable*', 'sympa*', 'souriant*', 'serviable*', 'chaleureu*',
+    'propre*', 'impeccable', 'calme', 'silencieu*', 'tranquill*', 'pratique', 'ideal*', 'delicieu*', 'copieu*', 'frais',
+    'rapide', 'abordable', 'raisonnable', 'genial*', 'top', 'merveilleu*', 'aimable*', 'attentionne*', 'recommande*',
+    'fonctionne*',
+  ],
+  negative: [
+    'mauvais*', 'sale*', 'salete', 'horrible*', 'decevant*', 'decu*', 'desagreable*', 'impoli*', 'bruit*', 'bruyant*',
+    'lent*', 'cher', 'chere*', 'chers', 'trop cher', 'froid*', 'casse*', 'nul*', 'odeur*', 'moisi*', 'tache*', 'loin', 'mediocre*',
+    'insuffisant*', 'pire', 'catastroph*', 'poussiere*', 'faible', 'inexistant*',
+  ],
+  negators: ['pas', 'jamais', 'aucun*', 'rien', 'sans', 'ni', 'guere'],
+  contrast: ['mais', 'cependant', 'pourtant', 'toutefois', 'sauf', 'par contre', 'neanmoins'],
+};
+
+const de: AspectLexicon = {
+  aspects: {
+    cleanliness: ['sauber*', 'schmutz*', 'dreck*', 'staub*', 'hygien*', 'reinlich*', 'flecken', 'geruch', 'schimmel*'],
+    staff: ['personal', 'mitarbeiter*', 'rezeption*', 'empfang', 'service', 'team', 'gastgeber*', 'bedienung'],
+    location: ['lage', 'gelegen', 'standort', 'viertel', 'nahe', 'entfernt', 'bahnhof', 'u bahn', 'strand', 'zentral*', 'innenstadt'],
+    breakfast: ['fruhstuck*', 'buffet', 'kaffee'],
+    noise: ['larm*', 'laut*', 'ruhig*', 'gerausch*', 'hellhorig*', 'verkehr', 'leise'],
+    value: ['preis*', 'preis leistung*', 'teuer*', 'gunstig*', 'geld', 'kosten', 'wert'],
+    wifi: WIFI_TERMS,
+  },
+  positive: [
+    'gut*', 'toll*', 'super', 'perfekt*', 'ausgezeichnet*', 'hervorragend*', 'freundlich*', 'hilfsbereit*', 'wunderschon', 'sauber*',
+    'ruhig*', 'leise', 'zentral*', 'lecker*', 'frisch*', 'schnell*', 'gunstig*', 'angemessen*', 'empfehlenswert', 'wunderbar*',
+    'sehr gut', 'klasse', 'top', 'aufmerksam*', 'zuverlassig*', 'funktioniert*',
+  ],
+  negative: [
+    'schlecht*', 'schmutzig*', 'dreckig*', 'unfreundlich*', 'laut*', 'larm*', 'hellhorig*', 'langsam*', 'teuer*', 'uberteuert*',
+    'kalt*', 'kaputt*', 'enttausch*', 'schrecklich*', 'furchtbar*', 'schimmel*', 'geruch', 'weit', 'mangelhaft*', 'katastroph*',
+    'unzuverlassig*', 'schwach*', 'staubig*',
+  ],
+  negators: ['nicht', 'kein*', 'nie', 'niemals', 'nichts', 'ohne', 'kaum'],
+  contrast: ['aber', 'jedoch', 'allerdings', 'obwohl', 'ausser', 'sondern'],
+};
+
+const es: AspectLexicon = {
+  aspects: {
+    cleanliness: ['limpi*', 'sucio*', 'sucia*', 'suciedad', 'polvo', 'higien*', 'manchas', 'olor*', 'moho'],
+    staff: ['personal', 'recepcion*', 'empleado*', 'servicio', 'equipo', 'atencion', 'anfitrion*', 'trato'],
+    location: ['ubicacion', 'ubicado*', 'situado*', 'localizacion', 'barrio', 'zona', 'cerca', 'lejos', 'metro', 'estacion', 'playa', 'centro'],
+    breakfast: ['desayuno*', 'buffet', 'cafe'],
+    noise: ['ruido*', 'tranquil*', 'silencio*', 'insonoriz*', 'trafico'],
+    value: ['precio*', 'calidad precio', 'caro', 'cara', 'caros', 'caras', 'barato*', 'dinero', 'coste', 'costo', 'economico*', 'tarifa*'],
+    wifi: WIFI_TERMS,
+  },
+  positive: [
+    'buen*', 'excelente*', 'perfect*', 'genial*', 'estupend*', 'amable*', 'atent*', 'simpatic*', 'limpi*', 'impecable*',
+    'tranquil*', 'silencios*', 'comod*', 'delicios*', 'rico', 'rica', 'fresc*', 'rapid*', 'economic*', 'barato*', 'recomend*',
+    'maravillos*', 'ideal', 'fantastic*', 'bien', 'funciona*',
+  ],
+  negative: [
+    'mal', 'mala*', 'malo*', 'sucio*', 'sucia*', 'terrible*', 'horrible*', 'pesim*', 'grosero*', 'antipatic*', 'ruido*',
+    'lent*', 'caro', 'cara', 'caros', 'caras', 'frio*', 'fria*', 'roto*', 'decepcion*', 'olor*', 'moho', 'lejos', 'mediocre*',
+    'peor', 'escaso*',
+  ],
+  negators: ['no', 'nunca', 'nada', 'sin', 'ningun*', 'tampoco', 'ni'],
+  contrast: ['pero', 'sin embargo', 'aunque', 'excepto', 'salvo'],
+};
+
+const it: AspectLexicon = {
+  aspects: {
+    cleanliness: ['pulit*', 'pulizia', 'sporc*', 'polvere', 'igiene', 'macchi*', 'odore*', 'muffa'],
+    staff: ['personale', 'staff', 'reception', 'receptionist', 'accoglienza', 'dipendent*', 'servizio', 'gestor*', 'proprietari*'],
+    location: ['posizione', 'posto', 'situato', 'zona', 'quartiere', 'vicin*', 'lontan*', 'metro', 'stazione', 'spiaggia', 'centro'],
+    breakfast: ['colazion*', 'buffet', 'caffe', 'cornett*', 'brioche'],
+    noise: ['rumor*', 'silenzios*', 'tranquill*', 'insonorizz*', 'traffico'],
+    value: ['prezz*', 'qualita prezzo', 'caro', 'cara', 'cari', 'care', 'economic*', 'soldi', 'costo', 'tariff*'],
+    wifi: WIFI_TERMS,
+  },
+  positive: [
+    'buon*', 'ottim*', 'eccellent*', 'perfett*', 'bell*', 'gentil*', 'disponibil*', 'cordial*', 'simpatic*', 'pulit*',
+    'silenzios*', 'tranquill*', 'comod*', 'delizios*', 'abbondant*', 'fresc*', 'veloce', 'economic*', 'consiglio',
+    'consigliat*', 'fantastic*', 'meraviglios*', 'accogliente', 'bene', 'funziona*',
+  ],
+  negative: [
+    'cattiv*', 'pessim*', 'sporc*', 'scortes*', 'maleducat*', 'rumor*', 'lent*', 'caro', 'cara', 'cari', 'care', 'fredd*',
+    'rott*', 'deludent*', 'delus*', 'odore*', 'muffa', 'lontan*', 'mediocr*', 'scars*', 'terribil*', 'orribil*', 'peggior*',
+  ],
+  negators: ['non', 'mai', 'niente', 'nulla', 'senza', 'nessun*', 'ne'],
+  contrast: ['ma', 'pero', 'tuttavia', 'anche se', 'eccetto', 'tranne'],
+};
+
+const tr: AspectLexicon = {
+  aspects: {
+    cleanliness: ['temiz*', 'kirli*', 'kir', 'toz*', 'hijyen*', 'leke*', 'koku*', 'kuf*'],
+    staff: ['personel*', 'calisan*', 'resepsiyon*', 'hizmet*', 'ekip*', 'yonetim*', 'servis*'],
+    location: ['konum*', 'lokasyon*', 'merkez*', 'yakin*', 'uzak*', 'metro*', 'plaj*', 'sahil*', 'semt*', 'bolge*'],
+    breakfast: ['kahvalti*', 'acik bufe', 'bufe*', 'kahve*'],
+    noise: ['gurultu*', 'sessiz*', 'sakin*', 'ses*', 'trafik*'],
+    value: ['fiyat*', 'ucret*', 'pahali*', 'ucuz*', 'para*', 'fiyat performans*', 'deger*'],
+    wifi: WIFI_TERMS,
+  },
+  positive: [
+    'iyi*', 'guzel*', 'harika*', 'mukemmel*', 'super', 'temiz*', 'yardimsever*', 'guler yuzlu', 'ilgili*', 'nazik*', 'sessiz*',
+    'sakin*', 'lezzetli*', 'taze*', 'hizli*', 'ucuz*', 'uygun*', 'tavsiye*', 'basarili*', 'memnun*', 'rahat*',
+  ],
+  negative: [
+    'kotu*', 'kirli*', 'berbat*', 'kaba*', 'ilgisiz*', 'gurultu*', 'yavas*', 'pahali*', 'soguk*', 'bozuk*', 'hayal kirikligi*',
+    'koku*', 'kuf*', 'uzak*', 'yetersiz*', 'rezalet*', 'vasat*', 'leke*', 'calismiyor*',
+  ],
+  negators: ['degil*', 'yok*', 'hic', 'asla'],
+  negatorsFollow: true, // "temiz degil" (not clean)
+  contrast: ['ama', 'fakat', 'ancak', 'lakin', 'ragmen', 'disinda'],
+};
+
+// ISO 639-1 language -> lexicon
+export const ASPECT_LEXICONS: Record<string, AspectLexicon> = { en, fr, de, es, it, tr };
+
+/**
+ * Plug a lexicon in for a language (replaces any existing one)
+ */
+export function registerAspectLexicon(language: string, lexicon: AspectLexicon): void {
+  ASPECT_LEXICONS[language] = lexicon;
+}
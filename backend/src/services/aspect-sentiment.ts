@@ -0,0 +1,255 @@
+/**
+ * Aspect Sentiment Service
+ *
+ * On-box aspect-based sentiment of review text (no network calls): finds
+ * mentions of cleanliness, staff, location, breakfast, noise, value and wifi
+ * with the lexicon of the review's language (aspect-lexicons.ts) and gives
+ * each mention a polarity from the polarity words of its clause:
+ * - sentences are split into clauses on punctuation and contrast words,
+ *   so "clean room but rude staff" tags cleanliness + and staff -
+ * - a negator shortly before a polarity word (after it in Turkish) flips it
+ *
+ * Reviews without a known language are matched against every lexicon.
+ */
+
+import { Aspect, AspectLexicon, ASPECTS, ASPECT_LEXICONS } from './aspect-lexicons.js';
+
+export type AspectPolarity = 'positive' | 'negative' | 'neutral';
+
+export interface AspectMention {
+  aspect: Aspect;
+  polarity: AspectPolarity;
+  term: string; // lexicon term that matched
+}
+
+export interface AspectReview {
+  text: string | null;
+  language: string | null;
+}
+
+export interface AspectSummary {
+  aspect: Aspect;
+  mentions: number;
+  positive: number;
+  negative: number;
+  neutral: number;
+  score: number | null; // (positive - negative) / mentions, -1 to 1; null without mentions
+}
+
+export interface AspectComparison extends AspectSummary {
+  previousScore: number | null;
+  delta: number | null;
+  trend: 'up' | 'down' | 'stable';
+  competitorScore: number | null;
+  competitorMentions: number;
+  vsCompetitors: number | null; // score - competitorScore
+}
+
+interface CompiledTerm {
+  term: string;
+  words: string[];
+  prefix: boolean; // last word may have any ending
+}
+
+interface CompiledLexicon {
+  aspects: Array<{ aspect: Aspect; terms: CompiledTerm[] }>;
+  positive: CompiledTerm[];
+  negative: CompiledTerm[];
+  negators: CompiledTerm[];
+  contrast: CompiledTerm[];
+  negatorsFollow: boolean;
+}
+
+// Words between a negator and the polarity word it flips
+const NEGATION_WINDOW = 3;
+// Score change (on -1..1) needed for an aspect trend
+const TREND_THRESHOLD = 0.1;
+
+const compiledLexicons = new WeakMap<AspectLexicon, CompiledLexicon>();
+
+/**
+ * Lowercase, strip accents and keep letters and digits only ("Propreté !" -> "proprete")
+ */
+export function foldText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/ı/g, 'i')
+    .replace(/ß/g, 'ss')
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function compileTerms(terms: string[]): CompiledTerm[] {
+  return terms.map(term => {
+    const prefix = term.endsWith('*');
+    return { term, words: (prefix ? term.slice(0, -1) : term).split(' '), prefix };
+  });
+}
+
+function compile(lexicon: AspectLexicon): CompiledLexicon {
+  let compiled = compiledLexicons.get(lexicon);
+  if (!compiled) {
+    compiled = {
+      aspects: ASPECTS.map(aspect => ({ aspect, terms: compileTerms(lexicon.aspects[aspect] || []) })),
+      positive: compileTerms(lexicon.positive),
+      negative: compileTerms(lexicon.negative),
+      negators: compileTerms(lexicon.negators),
+      contrast: compileTerms(lexicon.contrast),
+      negatorsFollow: lexicon.negatorsFollow === true,
+    };
+    compiledLexicons.set(lexicon, compiled);
+  }
+  return compiled;
+}
+
+// Number of tokens the term matches at position i (0 when it does not)
+function matchAt(tokens: string[], i: number, term: CompiledTerm): number {
+  if (i + term.words.length > tokens.length) return 0;
+  for (let w = 0; w < term.words.length; w++) {
+    const token = tokens[i + w];
+    const last = w === term.words.length - 1;
+    if ((last && term.prefix) ? !token.startsWith(term.words[w]) : token !== term.words[w]) {
+      return 0;
+    }
+  }
+  return term.words.length;
+}
+
+function findTerms(tokens: string[], terms: CompiledTerm[]): Array<{ start: number; end: number; term: string }> {
+  const found: Array<{ start: number; end: number; term: string }> = [];
+  for (let i = 0; i < tokens.length; i++) {
+    for (const term of terms) {
+      const length = matchAt(tokens, i, term);
+      if (length > 0) found.push({ start: i, end: i + length, term: term.term });
+    }
+  }
+  return found;
+}
+
+// Token lists of the clauses of a text (split on punctuation, then on contrast words)
+function splitClauses(text: string, lexicon: CompiledLexicon): string[][] {
+  const clauses: string[][] = [];
+  for (const sentence of text.split(/[.!?;:,\n]+/)) {
+    const tokens = foldText(sentence).split(' ').filter(Boolean);
+    let clause: string[] = [];
+    for (let i = 0; i < tokens.length; i++) {
+      const length = Math.max(0, ...lexicon.contrast.map(term => matchAt(tokens, i, term)));
+      if (length > 0) {
+        if (clause.length > 0) clauses.push(clause);
+        clause = [];
+        i += length - 1;
+      } else {
+        clause.push(tokens[i]);
+      }
+    }
+    if (clause.length > 0) clauses.push(clause);
+  }
+  return clauses;
+}
+
+function clausePolarity(tokens: string[], lexicon: CompiledLexicon): AspectPolarity {
+  const negators = findTerms(tokens, lexicon.negators);
+  const isNegated = (start: number, end: number) => negators.some(negator => lexicon.negatorsFollow
+    ? negator.start >= end && negator.start - end < NEGATION_WINDOW
+    : negator.end <= start && start - negator.end < NEGATION_WINDOW);
+
+  let score = 0;
+  for (const [terms, sign] of [[lexicon.positive, 1], [lexicon.negative, -1]] as const) {
+    for (const match of findTerms(tokens, terms)) {
+      score += isNegated(match.start, match.end) ? -sign : sign;
+    }
+  }
+  return score > 0 ? 'positive' : score < 0 ? 'negative' : 'neutral';
+}
+
+function lexiconsFor(language: string | null): AspectLexicon[] {
+  const base = (language || '').toLowerCase().split(/[-_]/)[0];
+  return ASPECT_LEXICONS[base] ? [ASPECT_LEXICONS[base]] : Object.values(ASPECT_LEXICONS);
+}
+
+/**
+ * Aspect mentions of a review text (at most one per aspect and clause)
+ */
+export function extractAspects(text: string | null, language: string | null): AspectMention[] {
+  if (!text) return [];
+
+  // clause:aspect -> mention; with several lexicons, one that finds a polarity wins over a neutral one
+  const mentions = new Map<string, AspectMention>();
+  for (const lexicon of lexiconsFor(language).map(compile)) {
+    splitClauses(text, lexicon).forEach((tokens, clauseIndex) => {
+      let polarity: AspectPolarity | null = null;
+      for (const { aspect, terms } of lexicon.aspects) {
+        const key = `${clauseIndex}:${aspect}`;
+        if (mentions.has(key) && mentions.get(key)!.polarity !== 'neutral') continue;
+
+        const match = findTerms(tokens, terms)[0];
+        if (!match) continue;
+
+        polarity = polarity || clausePolarity(tokens, lexicon);
+        if (!mentions.has(key) || polarity !== 'neutral') {
+          mentions.set(key, { aspect, polarity, term: match.term });
+        }
+      }
+    });
+  }
+  return [...mentions.values()];
+}
+
+/**
+ * Mention counts and score of every aspect over a set of reviews
+ */
+export function summarizeAspects(reviews: AspectReview[]): AspectSummary[] {
+  const summaries = new Map<Aspect, AspectSummary>(ASPECTS.map(aspect => [
+    aspect,
+    { aspect, mentions: 0, positive: 0, negative: 0, neutral: 0, score: null },
+  ]));
+
+  for (const review of reviews) {
+    for (const mention of extractAspects(review.text, review.language)) {
+      const summary = summaries.get(mention.aspect)!;
+      summary.mentions++;
+      summary[mention.polarity]++;
+    }
+  }
+
+  for (const summary of summaries.values()) {
+    if (summary.mentions > 0) {
+      summary.score = Math.round(((summary.positive - summary.negative) / summary.mentions) * 100) / 100;
+    }
+  }
+  return [...summaries.values()];
+}
+
+/**
+ * Aspects of the current period with their trend against the previous period
+ * and their gap to the competitors
+ */
+export function compareAspects(
+  current: AspectSummary[],
+  previous: AspectSummary[],
+  competitors: AspectSummary[]
+): AspectComparison[] {
+  return current.map(summary => {
+    const before = previous.find(p => p.aspect === summary.aspect);
+    const market = competitors.find(c => c.aspect === summary.aspect);
+    const previousScore = before?.score ?? null;
+    const competitorScore = market?.score ?? null;
+    const delta = summary.score !== null && previousScore !== null
+      ? Math.round((summary.score - previousScore) * 100) / 100
+      : null;
+
+    return {
+      ...summary,
+      previousScore,
+      delta,
+      trend: delta === null ? 'stable' : delta > TREND_THRESHOLD ? 'up' : delta < -TREND_THRESHOLD ? 'down' : 'stable',
+      competitorScore,
+      competitorMentions: market?.mentions ?? 0,
+      vsCompetitors: summary.score !== null && competitorScore !== null
+        ? Math.round((summary.score - competitorScore) * 100) / 100
+        : null,
+    };
+  });
+}
@@ -0,0 +1,121 @@
+/**
+ * Booking Store
+ *
+ * Writes PMS reservations into the bookings table. Rows are keyed by
+ * (hotel_id, pms_booking_id), so replaying the same reservation updates the
+ * existing booking instead of inserting a duplicate.
+ */
+
+import { query } from '../utils/db.js';
+import type { Reservation } from './pms-router.js';
+
+export type BookingStatus = 'confirmed' | 'cancelled' | 'no_show' | 'completed';
+
+// Channel a reservation was attributed to
+export interface BookingChannel {
+  id: string;
+  commissionRate: number; // percentage
+}
+
+export interface StoredBooking {
+  id: string;
+  created: boolean;
+}
+
+const CANCELLED_STATUSES = new Set(['cancelled', 'canceled', 'declined', 'expired', 'deleted', 'voided']);
+const NO_SHOW_STATUSES = new Set(['no_show', 'noshow', 'no-show']);
+const COMPLETED_STATUSES = new Set(['checked_out', 'checkedout', 'checked-out', 'completed', 'processed', 'departed']);
+
+/**
+ * Map a PMS reservation status (each PMS has its own vocabulary) to booking_status
+ */
+export function bookingStatus(pmsStatus: string | undefined): BookingStatus {
+  const status = (pmsStatus || '').trim().toLowerCase();
+  if (CANCELLED_STATUSES.has(status)) return 'cancelled';
+  if (NO_SHOW_STATUSES.has(status)) return 'no_show';
+  if (COMPLETED_STATUSES.has(status)) return 'completed';
+  return 'confirmed';
+}
+
+/**
+ * Nights between check-in and check-out (PMS dates may carry a time part)
+ */
+export function roomNights(checkIn: string, checkOut: string): number {
+  const start = Date.parse(`${checkIn.slice(0, 10)}T00:00:00Z`);
+  const end = Date.parse(`${checkOut.slice(0, 10)}T00:00:00Z`);
+  const nights = Math.round((end - start) / 86_400_000);
+  return Number.isFinite(nights) && nights > 0 ? nights : 1;
+}
+
+/**
+ * Insert or update the booking for a PMS reservation. Without a channel the
+ * booking keeps its current channel and commission rate; net revenue is
+ * always recomputed from the (possibly changed) total. The PMS confirmation
+ * number is stored so AI sessions can be linked to the booking.
+ */
+export async function upsertBooking(
+  hotelId: string,
+  reservation: Reservation,
+  channel?: BookingChannel
+): Promise<StoredBooking> {
+  const result = await query(
+    `INSERT INTO bookings (
+       hotel_id, pms_booking_id, guest_name, check_in, check_out, room_nights, room_type,
+       total_revenue, commission_rate, commission_paid, net_revenue, booking_status,
+       channel_id, source_detail, confirmation_number
+     )
+     VALUES (
+       $1, $2, $3, $4, $5, $6, $7,
+       $8, COALESCE($10::numeric, 0), ROUND($8 * COALESCE($10::numeric, 0) / 100, 2),
+       $8 - ROUND($8 * COALESCE($10::numeric, 0) / 100, 2), $9,
+       $11, $12, $13
+     )
+     ON CONFLICT (hotel_id, pms_booking_id) WHERE pms_booking_id IS NOT NULL DO UPDATE SET
+       guest_name = EXCLUDED.guest_name,
+       check_in = EXCLUDED.check_in,
+       check_out = EXCLUDED.check_out,
+       room_nights = EXCLUDED.room_nights,
+       room_type = EXCLUDED.room_type,
+       total_revenue = EXCLUDED.total_revenue,
+       channel_id = COALESCE(EXCLUDED.channel_id, bookings.channel_id),
+       commission_rate = COALESCE($10::numeric, bookings.commission_rate, 0),
+       commission_paid = ROUND(EXCLUDED.total_revenue * COALESCE($10::numeric, bookings.commission_rate, 0) / 100, 2),
+       net_revenue = EXCLUDED.total_revenue
+         - ROUND(EXCLUDED.total_revenue * COALESCE($10::numeric, bookings.commission_rate, 0) / 100, 2),
+       booking_status = EXCLUDED.booking_status,
+       source_detail = COALESCE(EXCLUDED.source_detail, bookings.source_detail),
+       confirmation_number = COALESCE(EXCLUDED.confirmation_number, bookings.confirmation_number),
+       updated_at = NOW()
+     RETURNING id, (xmax = 0) AS created`,
+    [
+      hotelId,
+      reservation.id,
+      reservation.guestName,
+      reservation.checkIn.slice(0, 10),
+      reservation.checkOut.slice(0, 10),
+      roomNights(reservation.checkIn, reservation.checkOut),
+      reservation.roomTypeId || null,
+      reservation.totalAmount,
+      bookingStatus(reservation.status),
+      channel ? channel.commissionRate : null,
+      channel?.id || null,
+      reservation.source || null,
+      reservation.confirmationNumber || null
+    ]
+  );
+
+  return { id: result.rows[0].id, created: result.rows[0].created };
+}
+
+/**
+ * Mark a booking cancelled without re-reading it from the PMS
+ * (returns false when the reservation was never stored)
+ */
+export async function cancelBooking(hotelId: string, pmsBookingId: string): Promise<boolean> {
+  const result = await query(
+    `UPDATE bookings SET booking_status = 'cancelled', updated_at = NOW()
+     WHERE hotel_id = $1 AND pms_booking_id = $2`,
+    [hotelId, pmsBookingId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
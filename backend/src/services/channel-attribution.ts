@@ -0,0 +1,245 @@
+/**
+ * Channel Attribution Service
+ *
+ * Resolves the raw source reported by a PMS (channel code, agency code,
+ * source name) to a channels row. Resolution order:
+ * 1. Per-hotel mapping (channel_source_mappings, editable by the hotel)
+ * 2. PMS-specific defaults (e.g. Mews "Distributor" is the booking engine)
+ * 3. Common aliases shared by every PMS ("bookingcom", "airbnb2", ...)
+ * 4. Channel slug or name ("Booking.com", "expedia")
+ */
+
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+import type { PMSType } from './pms-router.js';
+import type { BookingChannel } from './booking-store.js';
+
+export interface ChannelRow {
+  id: string;
+  name: string;
+  slug: string;
+  default_commission: string | number;
+}
+
+export interface SourceMapping {
+  id: string;
+  source: string;
+  sourceKey: string;
+  channelId: string;
+  channelSlug: string;
+  channelName: string;
+}
+
+export interface AttributionContext {
+  pmsType?: PMSType;
+  channels: ChannelRow[];
+  mappings: SourceMapping[];
+}
+
+export interface UnmappedSource {
+  source: string;
+  bookings: number;
+  revenue: number;
+  lastSeen: Date;
+}
+
+export interface ReattributionResult {
+  sources: number;
+  bookingsUpdated: number;
+}
+
+// Normalized source -> channel slug, for sources every PMS reports the same way
+const COMMON_SOURCE_ALIASES: Record<string, string> = {
+  bookingcom: 'booking',
+  expediacom: 'expedia',
+  hotelscom: 'hotels-com',
+  airbnbofficial: 'airbnb',
+  airbnb2: 'airbnb',
+  website: 'direct',
+  bookingengine: 'direct',
+  walkin: 'direct',
+  phone: 'direct',
+  email: 'direct',
+  google: 'google-hotels',
+  googlehotelads: 'google-hotels'
+};
+
+// Normalized source -> channel slug, per PMS vocabulary
+export const PMS_SOURCE_DEFAULTS: Partial<Record<PMSType, Record<string, string>>> = {
+  mews: { distributor: 'direct', commander: 'direct', navigator: 'direct' },
+  apaleo: { ibe: 'direct' },
+  cloudbeds: { websitebookingengine: 'direct', mybookingengine: 'direct' },
+  guesty: { manual: 'direct', owner: 'direct' },
+  hostaway: { direct: 'direct', partner: 'direct' },
+  // Elektraweb agency codes
+  elektraweb: { bkg: 'booking', bcom: 'booking', exp: 'expedia', agd: 'agoda', web: 'direct', wlk: 'direct', fo: 'direct' },
+  // HotelRunner channel codes; online_store is HotelRunner's own booking engine
+  hotelrunner: { onlinestore: 'direct', bookingcom: 'booking', expedia: 'expedia', agoda: 'agoda', airbnb: 'airbnb' }
+};
+
+export function normalizeSource(value: string): string {
+  return value.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+function toBookingChannel(channel: ChannelRow): BookingChannel {
+  return { id: channel.id, commissionRate: Number(channel.default_commission) || 0 };
+}
+
+/**
+ * Channel for a raw PMS source, or undefined when nothing matches
+ */
+export function resolveChannel(source: string | undefined, context: AttributionContext): BookingChannel | undefined {
+  if (!source) return undefined;
+  const key = normalizeSource(source);
+  if (!key) return undefined;
+
+  const mapping = context.mappings.find(m => m.sourceKey === key);
+  const slug = (context.pmsType && PMS_SOURCE_DEFAULTS[context.pmsType]?.[key]) || COMMON_SOURCE_ALIASES[key];
+
+  const channel = mapping
+    ? context.channels.find(c => c.id === mapping.channelId)
+    : slug
+      ? context.channels.find(c => c.slug === slug)
+      : context.channels.find(c => normalizeSource(c.slug) === key || normalizeSource(c.name) === key);
+
+  return channel ? toBookingChannel(channel) : undefined;
+}
+
+/**
+ * Active channels
+ */
+export async function loadChannels(): Promise<ChannelRow[]> {
+  const result = await query(
+    'SELECT id, name, slug, default_commission FROM channels WHERE is_active = true'
+  );
+  return result.rows;
+}
+
+/**
+ * Hotel's source mappings
+ */
+export async function listMappings(hotelId: string): Promise<SourceMapping[]> {
+  const result = await query(
+    `SELECT m.id, m.source, m.source_key, m.channel_id, c.slug AS channel_slug, c.name AS channel_name
+     FROM channel_source_mappings m
+     JOIN channels c ON c.id = m.channel_id
+     WHERE m.hotel_id = $1
+     ORDER BY m.source`,
+    [hotelId]
+  );
+
+  return result.rows.map(row => ({
+    id: row.id,
+    source: row.source,
+    sourceKey: row.source_key,
+    channelId: row.channel_id,
+    channelSlug: row.channel_slug,
+    channelName: row.channel_name
+  }));
+}
+
+/**
+ * Everything needed to attribute a hotel's reservations
+ */
+export async function loadAttributionContext(hotelId: string, pmsType?: PMSType): Promise<AttributionContext> {
+  const [channels, mappings] = await Promise.all([loadChannels(), listMappings(hotelId)]);
+  return { pmsType, channels, mappings };
+}
+
+/**
+ * Create or replace the hotel's mapping for a source
+ */
+export async function upsertMapping(hotelId: string, source: string, channelSlug: string): Promise<SourceMapping> {
+  const sourceKey = normalizeSource(source || '');
+  if (!sourceKey) {
+    throw new ServiceError('source must contain letters or digits', 400);
+  }
+
+  const channel = await query('SELECT id, name, slug FROM channels WHERE slug = $1', [channelSlug]);
+  if (channel.rows.length === 0) {
+    throw new ServiceError(`Unknown channel: ${channelSlug}`, 400);
+  }
+
+  const result = await query(
+    `INSERT INTO channel_source_mappings (hotel_id, source, source_key, channel_id)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (hotel_id, source_key) DO UPDATE SET
+       source = EXCLUDED.source,
+       channel_id = EXCLUDED.channel_id,
+       updated_at = NOW()
+     RETURNING id`,
+    [hotelId, source.trim(), sourceKey, channel.rows[0].id]
+  );
+
+  return {
+    id: result.rows[0].id,
+    source: source.trim(),
+    sourceKey,
+    channelId: channel.rows[0].id,
+    channelSlug: channel.rows[0].slug,
+    channelName: channel.rows[0].name
+  };
+}
+
+export async function deleteMapping(hotelId: string, mappingId: string): Promise<boolean> {
+  const result = await query(
+    'DELETE FROM channel_source_mappings WHERE id = $1 AND hotel_id = $2',
+    [mappingId, hotelId]
+  );
+  return (result.rowCount ?? 0) > 0;
+}
+
+/**
+ * PMS sources of bookings that have no channel, most frequent first
+ */
+export async function getUnmappedSources(hotelId: string): Promise<UnmappedSource[]> {
+  const result = await query(
+    `SELECT source_detail, COUNT(*) AS bookings, COALESCE(SUM(total_revenue), 0) AS revenue,
+            MAX(updated_at) AS last_seen
+     FROM bookings
+     WHERE hotel_id = $1 AND channel_id IS NULL AND source_detail IS NOT NULL
+     GROUP BY source_detail
+     ORDER BY COUNT(*) DESC, source_detail`,
+    [hotelId]
+  );
+
+  return result.rows.map(row => ({
+    source: row.source_detail,
+    bookings: parseInt(row.bookings),
+    revenue: parseFloat(row.revenue),
+    lastSeen: row.last_seen
+  }));
+}
+
+/**
+ * Re-run attribution over the hotel's stored bookings (e.g. after editing
+ * mappings). Bookings whose source no longer resolves keep their channel.
+ */
+export async function reattributeBookings(hotelId: string, pmsType?: PMSType): Promise<ReattributionResult> {
+  const context = await loadAttributionContext(hotelId, pmsType);
+  const sources = await query(
+    'SELECT DISTINCT source_detail FROM bookings WHERE hotel_id = $1 AND source_detail IS NOT NULL',
+    [hotelId]
+  );
+
+  let bookingsUpdated = 0;
+  for (const { source_detail: source } of sources.rows) {
+    const channel = resolveChannel(source, context);
+    if (!channel) continue;
+
+    const result = await query(
+      `UPDATE bookings SET
+         channel_id = $3,
+         commission_rate = $4,
+         commission_paid = ROUND(total_revenue * $4 / 100, 2),
+         net_revenue = total_revenue - ROUND(total_revenue * $4 / 100, 2),
+         updated_at = NOW()
+       WHERE hotel_id = $1 AND source_detail = $2
+         AND (channel_id IS DISTINCT FROM $3 OR commission_rate IS DISTINCT FROM $4)`,
+      [hotelId, source, channel.id, channel.commissionRate]
+    );
+    bookingsUpdated += result.rowCount ?? 0;
+  }
+
+  return { sources: sources.rows.length, bookingsUpdated };
+}
@@ -0,0 +1,416 @@
+/**
+ * Conversation Engine
+ *
+ * The guest-facing booking assistant. Each guest message runs a tool loop
+ * against the conversation's LLM plug-in (llm-providers.ts):
+ * - the model may call get_room_types, get_availability and get_rates, which
+ *   read the hotel's PMS through pmsRouter
+ * - get_availability returns a price quote per room type for the whole stay,
+ *   so prices always come from the PMS and never from the model
+ *
+ * A conversation is an ai_sessions row (provider, cumulative tokens and cost)
+ * plus its transcript in ai_conversations; the session id is the conversation id.
+ * New conversations without an explicit provider follow the hotel's running
+ * experiment (ai-experiments.ts), else its default provider.
+ */
+
+import { query } from '../utils/db.js';
+import { round } from '../utils/numbers.js';
+import { ServiceError } from '../utils/errors.js';
+import { pmsRouter } from './pms-router.js';
+import { sessionCost, AiSessionType, AI_SESSION_TYPES } from './ai-sessions.js';
+import * as aiExperiments from './ai-experiments.js';
+import { createLlmProvider, LlmMessage, LlmToolCall, LlmToolDefinition } from './llm-providers.js';
+
+export interface StayQuote {
+  roomTypeId: string;
+  roomTypeName: string;
+  capacity: number | null;
+  available: number; // rooms left on the busiest night
+  nightlyRates: number[];
+  total: number;
+}
+
+export interface AvailabilityQuote {
+  checkIn: string;
+  checkOut: string;
+  nights: number;
+  currency: string;
+  quotes: StayQuote[];
+}
+
+export interface GuestMessageInput {
+  message: string;
+  conversationId?: string; // omit to start a conversation
+  provider?: string; // ai_providers.slug, new conversations only (bypasses experiments)
+  sessionType?: AiSessionType;
+}
+
+export interface AssistantReply {
+  conversationId: string;
+  provider: string;
+  reply: string;
+  quotes: AvailabilityQuote[];
+  toolCalls: string[];
+  usage: { tokensIn: number; tokensOut: number; cost: number }; // this turn only
+}
+
+export interface Conversation {
+  conversationId: string;
+  provider: string;
+  sessionType: string;
+  messages: LlmMessage[];
+  tokensIn: number;
+  tokensOut: number;
+  cost: number;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+const DEFAULT_PROVIDER = process.env.ASSISTANT_PROVIDER || 'claude-sonnet';
+// Model calls per guest message; the last one gets no tools, so it has to answer
+const MAX_TOOL_ROUNDS = 4;
+// Transcript messages sent back to the model
+const MAX_HISTORY_MESSAGES = 40;
+const MAX_MESSAGE_LENGTH = 2000;
+const MAX_STAY_NIGHTS = 30;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+export const ASSISTANT_TOOLS: LlmToolDefinition[] = [
+  {
+    name: 'get_room_types',
+    description: 'List the hotel room types with their maximum number of guests.',
+    parameters: { type: 'object', properties: {} }
+  },
+  {
+    name: 'get_availability',
+    description: 'Rooms left and the total price of a stay for each room type that is available every night.',
+    parameters: {
+      type: 'object',
+      properties: {
+        checkIn: { type: 'string', description: 'Arrival date, YYYY-MM-DD' },
+        checkOut: { type: 'string', description: 'Departure date, YYYY-MM-DD' },
+        guests: { type: 'integer', description: 'Number of guests per room' },
+        roomTypeId: { type: 'string', description: 'Only this room type' }
+      },
+      required: ['checkIn', 'checkOut']
+    }
+  },
+  {
+    name: 'get_rates',
+    description: 'Rate plans with their base nightly price.',
+    parameters: {
+      type: 'object',
+      properties: {
+        roomTypeId: { type: 'string', description: 'Only rates of this room type' }
+      }
+    }
+  }
+];
+
+interface ProviderRow {
+  id: string;
+  slug: string;
+  model: string;
+  costPer1kIn: number;
+  costPer1kOut: number;
+}
+
+interface HotelContext {
+  name: string;
+  timezone: string;
+  currency: string;
+}
+
+function addDays(date: string, days: number): string {
+  const value = new Date(`${date}T00:00:00Z`);
+  value.setUTCDate(value.getUTCDate() + days);
+  return value.toISOString().slice(0, 10);
+}
+
+function todayIn(timezone: string): string {
+  try {
+    return new Intl.DateTimeFormat('en-CA', { timeZone: timezone }).format(new Date());
+  } catch {
+    return new Date().toISOString().slice(0, 10);
+  }
+}
+
+function systemPrompt(hotel: HotelContext): string {
+  return [
+    `You are the booking assistant of ${hotel.name}. Today is ${todayIn(hotel.timezone)}.`,
+    'Answer guest questions about rooms, availability and prices, briefly and in the guest\'s language.',
+    'Use the tools for availability and prices and never invent either.',
+    `Quote prices in ${hotel.currency} as the total for the stay. Tool dates are YYYY-MM-DD.`,
+    'If the guest has not given dates, ask for them.'
+  ].join('\n');
+}
+
+/**
+ * Price a stay from the PMS availability calendar (nights are check-in .. check-out - 1)
+ */
+export async function quoteStay(
+  hotelId: string,
+  args: { checkIn?: string; checkOut?: string; guests?: number; roomTypeId?: string },
+  currency: string
+): Promise<AvailabilityQuote> {
+  const { checkIn, checkOut } = args;
+  if (!checkIn || !checkOut || !DATE_PATTERN.test(checkIn) || !DATE_PATTERN.test(checkOut)) {
+    throw new ServiceError('checkIn and checkOut must be YYYY-MM-DD dates', 400);
+  }
+
+  const nights = Math.round((Date.parse(checkOut) - Date.parse(checkIn)) / 86_400_000);
+  if (!(nights > 0)) {
+    throw new ServiceError('checkOut must be after checkIn', 400);
+  }
+  if (nights > MAX_STAY_NIGHTS) {
+    throw new ServiceError(`Stays are limited to ${MAX_STAY_NIGHTS} nights`, 400);
+  }
+
+  const stayNights = Array.from({ length: nights }, (_, i) => addDays(checkIn, i));
+  const [availability, roomTypes] = await Promise.all([
+    pmsRouter.getAvailability(hotelId, { startDate: checkIn, endDate: stayNights[nights - 1], roomTypeId: args.roomTypeId }),
+    pmsRouter.getRoomTypes(hotelId)
+  ]);
+
+  // roomTypeId -> date -> availability
+  const calendar = new Map<string, Map<string, { available: number; rate: number }>>();
+  for (const entry of availability) {
+    if (args.roomTypeId && entry.roomTypeId !== args.roomTypeId) continue;
+    const days = calendar.get(entry.roomTypeId) || new Map();
+    days.set(entry.date.slice(0, 10), { available: Number(entry.available) || 0, rate: Number(entry.rate) || 0 });
+    calendar.set(entry.roomTypeId, days);
+  }
+
+  const quotes: StayQuote[] = [];
+  for (const [roomTypeId, days] of calendar) {
+    const roomType = roomTypes.find(type => type.id === roomTypeId);
+    if (args.guests && roomType && roomType.capacity < args.guests) continue;
+
+    const stay = stayNights.map(date => days.get(date));
+    if (stay.some(day => !day || day.available <= 0)) continue;
+
+    const nightlyRates = stay.map(day => day!.rate);
+    quotes.push({
+      roomTypeId,
+      roomTypeName: roomType?.name || roomTypeId,
+      capacity: roomType?.capacity ?? null,
+      available: Math.min(...stay.map(day => day!.available)),
+      nightlyRates,
+      total: round(nightlyRates.reduce((sum, rate) => sum + rate, 0))
+    });
+  }
+
+  quotes.sort((a, b) => a.total - b.total);
+  return { checkIn, checkOut, nights, currency, quotes };
+}
+
+/**
+ * Run one tool call; failures are returned to the model as { error }
+ */
+async function runTool(hotelId: string, call: LlmToolCall, hotel: HotelContext): Promise<any> {
+  try {
+    switch (call.name) {
+      case 'get_room_types': {
+        const roomTypes = await pmsRouter.getRoomTypes(hotelId);
+        return { roomTypes: roomTypes.map(({ id, name, capacity, description }) => ({ id, name, capacity, description })) };
+      }
+      case 'get_availability':
+        return await quoteStay(hotelId, call.arguments, hotel.currency);
+      case 'get_rates': {
+        const rates = await pmsRouter.getRates(hotelId);
+        const roomTypeId = call.arguments.roomTypeId;
+        return { rates: roomTypeId ? rates.filter(rate => rate.roomTypeId === roomTypeId) : rates };
+      }
+      default:
+        return { error: `Unknown tool: ${call.name}` };
+    }
+  } catch (error: any) {
+    return { error: error.message || 'Tool failed' };
+  }
+}
+
+// Latest messages, starting on a guest message so no tool result loses its call
+function recentHistory(messages: LlmMessage[]): LlmMessage[] {
+  if (messages.length <= MAX_HISTORY_MESSAGES) return messages;
+  const recent = messages.slice(-MAX_HISTORY_MESSAGES);
+  const start = recent.findIndex(message => message.role === 'user');
+  return start >= 0 ? recent.slice(start) : recent;
+}
+
+function toProvider(row: any): ProviderRow {
+  return {
+    id: row.provider_id,
+    slug: row.slug,
+    model: row.model,
+    costPer1kIn: Number(row.cost_per_1k_in) || 0,
+    costPer1kOut: Number(row.cost_per_1k_out) || 0
+  };
+}
+
+async function loadProvider(slug: string): Promise<ProviderRow> {
+  const result = await query(
+    'SELECT id AS provider_id, slug, model, cost_per_1k_in, cost_per_1k_out FROM ai_providers WHERE slug = $1',
+    [slug]
+  );
+  if (result.rows.length === 0) {
+    throw new ServiceError(`Unknown provider: ${slug}`, 400);
+  }
+  return toProvider(result.rows[0]);
+}
+
+async function loadConversationRow(hotelId: string, conversationId: string): Promise<any> {
+  const result = await query(
+    `SELECT c.messages, c.created_at, c.updated_at, s.session_type, s.tokens_in, s.tokens_out, s.cost,
+            ap.id AS provider_id, ap.slug, ap.model, ap.cost_per_1k_in, ap.cost_per_1k_out
+     FROM ai_conversations c
+     JOIN ai_sessions s ON s.id = c.session_id
+     JOIN ai_providers ap ON ap.id = s.provider_id
+     WHERE c.session_id = $1 AND c.hotel_id = $2`,
+    [conversationId, hotelId]
+  );
+  if (result.rows.length === 0) {
+    throw new ServiceError(`Conversation not found: ${conversationId}`, 404);
+  }
+  return result.rows[0];
+}
+
+/**
+ * Answer a guest message, starting a conversation when no id is given
+ */
+export async function sendMessage(hotelId: string, input: GuestMessageInput): Promise<AssistantReply> {
+  const text = typeof input.message === 'string' ? input.message.trim() : '';
+  if (!text) {
+    throw new ServiceError('message is required', 400);
+  }
+  if (text.length > MAX_MESSAGE_LENGTH) {
+    throw new ServiceError(`message is limited to ${MAX_MESSAGE_LENGTH} characters`, 400);
+  }
+  const sessionType = input.sessionType || 'booking_assist';
+  if (!AI_SESSION_TYPES.includes(sessionType)) {
+    throw new ServiceError(`sessionType must be one of: ${AI_SESSION_TYPES.join(', ')}`, 400);
+  }
+
+  const hotelResult = await query(
+    `SELECT h.name, h.timezone, h.currency, ap.slug AS default_provider
+     FROM hotels h
+     LEFT JOIN ai_providers ap ON ap.id = h.default_ai_provider_id
+     WHERE h.id = $1`,
+    [hotelId]
+  );
+  if (hotelResult.rows.length === 0) {
+    throw new ServiceError(`Hotel not found: ${hotelId}`, 404);
+  }
+  const hotel: HotelContext = {
+    name: hotelResult.rows[0].name,
+    timezone: hotelResult.rows[0].timezone || 'UTC',
+    currency: hotelResult.rows[0].currency || 'EUR'
+  };
+
+  let provider: ProviderRow;
+  let history: LlmMessage[] = [];
+  let experimentId: string | null = null;
+  if (input.conversationId) {
+    const row = await loadConversationRow(hotelId, input.conversationId);
+    provider = toProvider(row);
+    history = row.messages || [];
+  } else if (input.provider) {
+    provider = await loadProvider(input.provider);
+  } else {
+    const route = await aiExperiments.routeSession(hotelId);
+    experimentId = route?.experimentId || null;
+    provider = await loadProvider(route?.provider || hotelResult.rows[0].default_provider || DEFAULT_PROVIDER);
+  }
+
+  const llm = createLlmProvider(provider.slug);
+  const system = systemPrompt(hotel);
+  const added: LlmMessage[] = [{ role: 'user', content: text }];
+  const quotes: AvailabilityQuote[] = [];
+  const toolCalls: string[] = [];
+  let tokensIn = 0;
+  let tokensOut = 0;
+  let reply = '';
+
+  for (let step = 1; step <= MAX_TOOL_ROUNDS; step++) {
+    const response = await llm.complete({
+      model: provider.model,
+      system,
+      messages: recentHistory([...history, ...added]),
+      tools: step < MAX_TOOL_ROUNDS ? ASSISTANT_TOOLS : []
+    });
+    tokensIn += response.tokensIn;
+    tokensOut += response.tokensOut;
+
+    if (response.toolCalls.length === 0) {
+      reply = response.content;
+      break;
+    }
+
+    added.push({ role: 'assistant', content: response.content, toolCalls: response.toolCalls });
+    for (const call of response.toolCalls) {
+      toolCalls.push(call.name);
+      const result = await runTool(hotelId, call, hotel);
+      if (call.name === 'get_availability' && !result.error) {
+        quotes.push(result);
+      }
+      added.push({ role: 'tool', toolCallId: call.id, name: call.name, content: JSON.stringify(result) });
+    }
+  }
+  added.push({ role: 'assistant', content: reply });
+
+  const cost = sessionCost(tokensIn, tokensOut, provider);
+  let conversationId = input.conversationId;
+
+  if (conversationId) {
+    await query(
+      `UPDATE ai_sessions SET tokens_in = tokens_in + $2, tokens_out = tokens_out + $3, cost = cost + $4
+       WHERE id = $1`,
+      [conversationId, tokensIn, tokensOut, cost]
+    );
+    // Append only: a concurrent message on the same conversation keeps its turns
+    await query(
+      'UPDATE ai_conversations SET messages = messages || $2::jsonb, updated_at = NOW() WHERE session_id = $1',
+      [conversationId, JSON.stringify(added)]
+    );
+  } else {
+    const session = await query(
+      `INSERT INTO ai_sessions (hotel_id, provider_id, session_type, tokens_in, tokens_out, cost, experiment_id)
+       VALUES ($1, $2, $3, $4, $5, $6, $7)
+       RETURNING id`,
+      [hotelId, provider.id, sessionType, tokensIn, tokensOut, cost, experimentId]
+    );
+    conversationId = session.rows[0].id as string;
+    await query(
+      'INSERT INTO ai_conversations (session_id, hotel_id, messages) VALUES ($1, $2, $3)',
+      [conversationId, hotelId, JSON.stringify(added)]
+    );
+  }
+
+  return {
+    conversationId,
+    provider: provider.slug,
+    reply,
+    quotes,
+    toolCalls,
+    usage: { tokensIn, tokensOut, cost }
+  };
+}
+
+/**
+ * Transcript of a conversation with its cumulative usage
+ */
+export async function getConversation(hotelId: string, conversationId: string): Promise<Conversation> {
+  const row = await loadConversationRow(hotelId, conversationId);
+  return {
+    conversationId,
+    provider: row.slug,
+    sessionType: row.session_type,
+    messages: row.messages || [],
+    tokensIn: Number(row.tokens_in) || 0,
+    tokensOut: Number(row.tokens_out) || 0,
+    cost: Number(row.cost) || 0,
+    createdAt: row.created_at,
+    updatedAt: row.updated_at
+  };
+}
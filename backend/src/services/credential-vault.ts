@@ -0,0 +1,294 @@
+/**
+ * Credential Vault Service
+ *
+ * Envelope-encrypts PMS and OTA secrets before they are stored.
+ * Each secret gets its own random data key (AES-256-GCM); the data key
+ * is wrapped with the active master key from the environment.
+ *
+ * Envelope format (safe for TEXT and JSONB string columns):
+ *   vault:v1:<keyId>:<wrappedKey>:<iv>:<tag>:<ciphertext>   (base64 parts)
+ *
+ * Environment:
+ * - VAULT_MASTER_KEY: base64 encoded 32-byte key (active)
+ * - VAULT_MASTER_KEY_ID: id of the active key (default 'k1')
+ * - VAULT_PREVIOUS_KEYS: "keyId:base64,keyId:base64" kept for decryption during rotation
+ */
+
+import crypto from 'crypto';
+import { query } from '../utils/db.js';
+
+const ENVELOPE_PREFIX = 'vault:v1:';
+const ALGORITHM = 'aes-256-gcm';
+const KEY_BYTES = 32;
+const IV_BYTES = 12;
+const REDACTED = '[REDACTED]';
+
+// Credential keys that are identifiers rather than secrets
+const NON_SECRET_KEYS = new Set([
+  'client_id', 'property_id', 'prop_id', 'hotel_id', 'hotel_code', 'site_id',
+  'property_code', 'enterprise_id', 'tenant_id', 'account_id', 'base_url',
+  'scope', 'environment', 'username', 'service_id',
+]);
+
+// Key names that always hold secrets when found in logged payloads
+const SECRET_KEY_PATTERN = /(token|secret|password|passwd|api_?key|apikey|prop_?key|authorization|credential)/i;
+
+export interface VaultKeyring {
+  activeKeyId: string;
+  keys: Map<string, Buffer>;
+}
+
+export interface RotationResult {
+  scanned: number;
+  rotated: number;
+  failed: number;
+}
+
+// Columns holding vault envelopes, re-encrypted on rotation
+const ENCRYPTED_COLUMNS: Record<string, string[]> = {
+  pms_connections: ['credentials', 'client_token', 'access_token', 'refresh_token'],
+};
+
+function parseKey(keyId: string, encoded: string): Buffer {
+  const key = Buffer.from(encoded, 'base64');
+  if (key.length !== KEY_BYTES) {
+    throw new Error(`Vault key '${keyId}' must be ${KEY_BYTES} bytes (base64 encoded)`);
+  }
+  return key;
+}
+
+/**
+ * Load master keys from the environment (read on each call, so a rotated
+ * key is picked up without reloading the module)
+ */
+export function loadKeyring(): VaultKeyring {
+  const activeKey = process.env.VAULT_MASTER_KEY;
+  if (!activeKey) {
+    throw new Error('VAULT_MASTER_KEY not configured');
+  }
+
+  const activeKeyId = process.env.VAULT_MASTER_KEY_ID || 'k1';
+  const keys = new Map<string, Buffer>();
+
+  for (const entry of (process.env.VAULT_PREVIOUS_KEYS || '').split(',')) {
+    const [keyId, encoded] = entry.trim().split(':');
+    if (keyId && encoded) {
+      keys.set(keyId, parseKey(keyId, encoded));
+    }
+  }
+  keys.set(activeKeyId, parseKey(activeKeyId, activeKey));
+
+  return { activeKeyId, keys };
+}
+
+/**
+ * Generate a new base64 master key (for VAULT_MASTER_KEY)
+ */
+export function generateMasterKey(): string {
+  return crypto.randomBytes(KEY_BYTES).toString('base64');
+}
+
+function seal(key: Buffer, plaintext: Buffer): { iv: Buffer; tag: Buffer; ciphertext: Buffer } {
+  const iv = crypto.randomBytes(IV_BYTES);
+  const cipher = crypto.createCipheriv(ALGORITHM, key, iv);
+  const ciphertext = Buffer.concat([cipher.update(plaintext), cipher.final()]);
+  return { iv, tag: cipher.getAuthTag(), ciphertext };
+}
+
+function open(key: Buffer, iv: Buffer, tag: Buffer, ciphertext: Buffer): Buffer {
+  const decipher = crypto.createDecipheriv(ALGORITHM, key, iv);
+  decipher.setAuthTag(tag);
+  return Buffer.concat([decipher.update(ciphertext), decipher.final()]);
+}
+
+/**
+ * Check whether a stored value is a vault envelope
+ */
+export function isEncrypted(value: unknown): value is string {
+  return typeof value === 'string' && value.startsWith(ENVELOPE_PREFIX);
+}
+
+/**
+ * Key id used to wrap an envelope
+ */
+export function getKeyId(envelope: string): string {
+  return envelope.slice(ENVELOPE_PREFIX.length).split(':')[0];
+}
+
+/**
+ * Encrypt a secret with a fresh data key wrapped by the active master key
+ */
+export function encrypt(plaintext: string, keyring: VaultKeyring = loadKeyring()): string {
+  const masterKey = keyring.keys.get(keyring.activeKeyId)!;
+  const dataKey = crypto.randomBytes(KEY_BYTES);
+
+  const wrapped = seal(masterKey, dataKey);
+  const sealed = seal(dataKey, Buffer.from(plaintext, 'utf8'));
+
+  const wrappedKey = Buffer.concat([wrapped.iv, wrapped.tag, wrapped.ciphertext]);
+
+  return ENVELOPE_PREFIX + [
+    keyring.activeKeyId,
+    wrappedKey.toString('base64'),
+    sealed.iv.toString('base64'),
+    sealed.tag.toString('base64'),
+    sealed.ciphertext.toString('base64'),
+  ].join(':');
+}
+
+/**
+ * Decrypt a vault envelope
+ */
+export function decrypt(envelope: string, keyring: VaultKeyring = loadKeyring()): string {
+  if (!isEncrypted(envelope)) {
+    throw new Error('Value is not a vault envelope');
+  }
+
+  const [keyId, wrappedKey, iv, tag, ciphertext] = envelope.slice(ENVELOPE_PREFIX.length).split(':');
+  const masterKey = keyring.keys.get(keyId);
+  if (!masterKey) {
+    throw new Error(`Vault key '${keyId}' is not available`);
+  }
+
+  const wrapped = Buffer.from(wrappedKey, 'base64');
+  const dataKey = open(
+    masterKey,
+    wrapped.subarray(0, IV_BYTES),
+    wrapped.subarray(IV_BYTES, IV_BYTES + 16),
+    wrapped.subarray(IV_BYTES + 16)
+  );
+
+  return open(
+    dataKey,
+    Buffer.from(iv, 'base64'),
+    Buffer.from(tag, 'base64'),
+    Buffer.from(ciphertext, 'base64')
+  ).toString('utf8');
+}
+
+/**
+ * Encrypt a credentials object as a single envelope
+ */
+export function encryptCredentials(credentials: Record<string, string>): string {
+  return encrypt(JSON.stringify(credentials));
+}
+
+/**
+ * Decrypt a credentials envelope. Plain objects (rows written before the
+ * vault existed) are returned unchanged.
+ */
+export function decryptCredentials(stored: unknown): Record<string, string> {
+  if (isEncrypted(stored)) {
+    return JSON.parse(decrypt(stored));
+  }
+  return (stored as Record<string, string>) || {};
+}
+
+/**
+ * Decrypt a single secret column, passing legacy plaintext through
+ */
+export function revealSecret(stored: string | null | undefined): string | undefined {
+  if (!stored) return undefined;
+  return isEncrypted(stored) ? decrypt(stored) : stored;
+}
+
+/**
+ * Re-encrypt an envelope with the active master key (no-op when current)
+ */
+export function reencrypt(envelope: string, keyring: VaultKeyring = loadKeyring()): string {
+  if (getKeyId(envelope) === keyring.activeKeyId) {
+    return envelope;
+  }
+  return encrypt(decrypt(envelope, keyring), keyring);
+}
+
+/**
+ * Re-encrypt every stored secret still wrapped by a previous key, and
+ * encrypt legacy plaintext values
+ */
+export async function rotateStoredSecrets(): Promise<RotationResult> {
+  const keyring = loadKeyring();
+  const result: RotationResult = { scanned: 0, rotated: 0, failed: 0 };
+
+  for (const [table, columns] of Object.entries(ENCRYPTED_COLUMNS)) {
+    const rows = await query(`SELECT id, ${columns.join(', ')} FROM ${table}`);
+
+    for (const row of rows.rows) {
+      result.scanned++;
+      const updates: Record<string, string> = {};
+
+      try {
+        for (const column of columns) {
+          const value = row[column];
+          if (value === null || value === undefined) continue;
+
+          if (isEncrypted(value)) {
+            const rotated = reencrypt(value, keyring);
+            if (rotated !== value) updates[column] = rotated;
+          } else {
+            const plaintext = typeof value === 'string' ? value : JSON.stringify(value);
+            updates[column] = encrypt(plaintext, keyring);
+          }
+        }
+      } catch (error: any) {
+        console.error(`Vault rotation failed for ${table} ${row.id}:`, error.message);
+        result.failed++;
+        continue;
+      }
+
+      const changed = Object.keys(updates);
+      if (changed.length === 0) continue;
+
+      // JSONB columns receive the envelope as a JSON string
+      const assignments = changed.map((column, i) => `${column} = $${i + 2}`);
+      await query(
+        `UPDATE ${table} SET ${assignments.join(', ')}, updated_at = NOW() WHERE id = $1`,
+        [row.id, ...changed.map(column => column === 'credentials' ? JSON.stringify(updates[column]) : updates[column])]
+      );
+      result.rotated++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Mask a secret for display, keeping the last 4 characters of long values
+ */
+export function maskSecret(value: string): string {
+  if (!value) return value;
+  return value.length >= 12 ? `••••${value.slice(-4)}` : '••••';
+}
+
+/**
+ * Mask secret credential values, leaving identifiers readable
+ */
+export function maskCredentials(credentials: Record<string, string>): Record<string, string> {
+  const masked: Record<string, string> = {};
+  for (const [key, value] of Object.entries(credentials || {})) {
+    const normalized = key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase();
+    masked[key] = NON_SECRET_KEYS.has(normalized) ? value : maskSecret(String(value));
+  }
+  return masked;
+}
+
+/**
+ * Deep-copy a payload with secret-looking fields replaced (for api_logs)
+ */
+export function redactSecrets<T>(payload: T): T {
+  if (Array.isArray(payload)) {
+    return payload.map(item => redactSecrets(item)) as unknown as T;
+  }
+
+  if (payload && typeof payload === 'object') {
+    const redacted: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(payload as Record<string, unknown>)) {
+      redacted[key] = SECRET_KEY_PATTERN.test(key) && value !== null && typeof value !== 'object'
+        ? REDACTED
+        : redactSecrets(value);
+    }
+    return redacted as T;
+  }
+
+  return isEncrypted(payload) ? (REDACTED as unknown as T) : payload;
+}
@@ -5,10 +5,26 @@
  * 
  * Default schedule:
  * - Daily sync at 3:00 AM UTC
+ * - Daily stats materialization at 1:00 AM UTC
+ * - ROI snapshots at 1:30 AM UTC
+ * - Monthly reports on the 1st at 4:00 AM UTC
+ * - PMS reservation sync every 30 minutes
+ * - PMS webhook retry every 15 minutes
+ * - AI provider experiment evaluation every hour at :20
+ * - Alert rules evaluation every hour at :40
+ * - Notification delivery retries every 5 minutes
  */
 
 import cron from 'node-cron';
 import * as reviewSync from './review-sync.js';
+import * as pmsWebhooks from './pms-webhooks.js';
+import * as reservationSync from './reservation-sync.js';
+import * as dailyStats from './daily-stats.js';
+import * as monthlyReports from './monthly-reports.js';
+import * as roiEngine from './roi-engine.js';
+import * as aiExperiments from './ai-experiments.js';
+import * as alertRules from './alert-rules.js';
+import * as notificationDispatcher from './notification-dispatcher.js';
 
 // Store scheduled tasks for management
 const scheduledTasks: Map<string, cron.ScheduledTask> = new Map();
@@ -40,6 +56,112 @@ export function initializeScheduler(): void {
     }
   );
   
+  // Nightly daily_stats materialization (re-runs the last week)
+  scheduleTask(
+    'daily-stats',
+    '0 1 * * *', // 1:00 AM every day
+    async () => {
+      const result = await dailyStats.runDailyStatsJob();
+      console.log(`✅ Daily stats ${result.startDate}..${result.endDate}: ${result.hotelsSuccess}/${result.hotelsTotal} hotels in ${result.duration}ms`);
+      if (result.hotelsFailed > 0) {
+        console.warn(`⚠️ ${result.hotelsFailed} hotels failed daily stats`);
+      }
+    }
+  );
+  
+  // Weekly, monthly and quarterly ROI snapshots up to yesterday
+  scheduleTask(
+    'roi-snapshots',
+    '30 1 * * *', // 1:30 AM every day
+    async () => {
+      const result = await roiEngine.runRoiSnapshotJob();
+      console.log(`✅ ROI snapshots: ${result.snapshots} for ${result.hotelsSuccess}/${result.hotelsTotal} hotels in ${result.duration}ms`);
+    }
+  );
+  
+  // Previous month's reports, once its daily stats are final
+  scheduleTask(
+    'monthly-reports',
+    '0 4 1 * *', // 4:00 AM on the 1st of every month
+    async () => {
+      const result = await monthlyReports.runMonthlyReportsJob();
+      console.log(`✅ Monthly reports ${result.yearMonth}: ${result.hotelsSuccess}/${result.hotelsTotal} hotels in ${result.duration}ms`);
+      if (result.hotelsFailed > 0) {
+        console.warn(`⚠️ ${result.hotelsFailed} hotels failed monthly reports`);
+      }
+    }
+  );
+  
+  // Incremental reservation sync from every connected PMS into bookings
+  scheduleTask(
+    'reservation-sync',
+    '*/30 * * * *', // Every 30 minutes
+    async () => {
+      const result = await reservationSync.runReservationSync();
+      console.log(`✅ Reservation sync: ${result.hotelsSuccess}/${result.hotelsTotal} hotels in ${result.duration}ms`);
+      if (result.hotelsFailed > 0) {
+        console.warn(`⚠️ ${result.hotelsFailed} hotels failed reservation sync`);
+      }
+    }
+  );
+  
+  // Re-apply PMS webhook events that failed (PMS unreachable, etc.)
+  scheduleTask(
+    'pms-webhook-retry',
+    '*/15 * * * *', // Every 15 minutes
+    async () => {
+      const result = await pmsWebhooks.retryFailedEvents();
+      if (result.received > 0) {
+        console.log(`🔁 PMS webhook retry: ${result.processed}/${result.received} events applied`);
+      }
+    }
+  );
+  
+  // Auto-promote the winners of AI provider experiments
+  scheduleTask(
+    'ai-experiments',
+    '20 * * * *', // Every hour at :20
+    async () => {
+      const result = await aiExperiments.runExperimentEvaluation();
+      if (result.promoted.length > 0) {
+        console.log(`🏆 AI experiments: ${result.promoted.length}/${result.experimentsTotal} winners promoted`);
+      }
+      if (result.failed > 0) {
+        console.warn(`⚠️ ${result.failed} AI experiments failed evaluation`);
+      }
+    }
+  );
+  
+  // Per-hotel alert rules (fired alerts are stored as notifications)
+  scheduleTask(
+    'alert-rules',
+    '40 * * * *', // Every hour at :40
+    async () => {
+      const result = await alertRules.runAlertRules();
+      if (result.fired > 0) {
+        console.log(`🔔 Alert rules: ${result.fired} alerts fired by ${result.rulesTotal} rules in ${result.duration}ms`);
+      }
+      if (result.failed > 0) {
+        console.warn(`⚠️ ${result.failed} alert rules failed evaluation`);
+      }
+    }
+  );
+  
+  // Notification deliveries due again (backoff, end of quiet hours)
+  scheduleTask(
+    'notification-retries',
+    '*/5 * * * *', // Every 5 minutes
+    async () => {
+      const result = await notificationDispatcher.runDeliveryRetries();
+      if (result.deliveriesTotal > 0) {
+        console.log(`📨 Notification retries: ${result.sent}/${result.deliveriesTotal} delivered, ${result.pending} rescheduled`);
+      }
+      if (result.failed > 0) {
+        console.warn(`⚠️ ${result.failed} notification deliveries failed for good`);
+      }
+    }
+  );
+  
   // Hourly health check (optional - for monitoring)
   scheduleTask(
     'sync-health-check',
@@ -0,0 +1,339 @@
+/**
+ * Daily Stats Service
+ *
+ * Materializes daily_stats (one row per hotel and night) from:
+ * - bookings: rooms sold and room revenue per night of stay (cancelled and
+ *   no-show bookings excluded), arrivals split into direct and OTA
+ * - room inventory: hotels.rooms_count, or rooms sold + unsold rooms from PMS
+ *   availability when the hotel has not set a room count
+ * - ai_sessions: interactions, conversions and cost per day in the hotel's
+ *   timezone
+ *
+ * Rows are upserted on (hotel_id, date), so any range can be re-run
+ * (late PMS changes, backfills) without duplicating days.
+ */
+
+import { query } from '../utils/db.js';
+import { round } from '../utils/numbers.js';
+import { ServiceError } from '../utils/errors.js';
+import { pmsRouter } from './pms-router.js';
+import { dateOffset } from '../utils/dates.js';
+
+export interface DailyStats {
+  date: string; // YYYY-MM-DD
+  roomsAvailable: number | null; // null when the inventory is unknown
+  roomsSold: number;
+  occupancyRate: number | null; // percentage
+  adr: number | null;
+  revpar: number | null;
+  totalRevenue: number;
+  directBookings: number; // arrivals
+  otaBookings: number;
+  directRevenue: number;
+  otaRevenue: number;
+  aiInteractions: number;
+  aiConversions: number;
+  aiCost: number;
+}
+
+export type DailyStatsSummary = Omit<DailyStats, 'date'> & { days: number };
+
+export interface HotelDailyStatsResult {
+  hotelId: string;
+  days: number;
+  error?: string;
+}
+
+export interface DailyStatsJobResult {
+  startDate: string;
+  endDate: string;
+  hotelsTotal: number;
+  hotelsSuccess: number;
+  hotelsFailed: number;
+  duration: number; // ms
+  results: HotelDailyStatsResult[];
+}
+
+// Longest range materialized or read in one call
+export const MAX_RANGE_DAYS = 366;
+// Nightly run recomputes the last week so late modifications and
+// cancellations are reflected
+const NIGHTLY_REFRESH_DAYS = 7;
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+
+/**
+ * Validate a YYYY-MM-DD range and list its dates
+ */
+export function dateRange(startDate: string, endDate: string): string[] {
+  for (const value of [startDate, endDate]) {
+    if (!DATE_PATTERN.test(value || '') || Number.isNaN(Date.parse(`${value}T00:00:00Z`))) {
+      throw new ServiceError(`Invalid date: ${value} (expected YYYY-MM-DD)`, 400);
+    }
+  }
+  if (startDate > endDate) {
+    throw new ServiceError('from must not be after to', 400);
+  }
+
+  const dates: string[] = [];
+  const start = new Date(`${startDate}T00:00:00Z`);
+  for (let date = startDate; date <= endDate; date = dateOffset(dates.length, start)) {
+    if (dates.length >= MAX_RANGE_DAYS) {
+      throw new ServiceError(`Date range is limited to ${MAX_RANGE_DAYS} days`, 400);
+    }
+    dates.push(date);
+  }
+  return dates;
+}
+
+// Unsold rooms per date from the PMS; empty when there is no connection or
+// the PMS call fails (inventory then stays unknown)
+async function loadUnsoldRooms(hotelId: string, startDate: string, endDate: string): Promise<Map<string, number>> {
+  const unsold = new Map<string, number>();
+  if (!await pmsRouter.getConnection(hotelId)) return unsold;
+
+  try {
+    const availability = await pmsRouter.getAvailability(hotelId, { startDate, endDate });
+    for (const entry of availability) {
+      const date = entry.date.slice(0, 10);
+      unsold.set(date, (unsold.get(date) || 0) + Math.max(Number(entry.available) || 0, 0));
+    }
+  } catch (error: any) {
+    console.warn(`⚠️ Daily stats: no PMS availability for hotel ${hotelId}: ${error.message}`);
+  }
+  return unsold;
+}
+
+/**
+ * Compute (without storing) the stats of every date in the range
+ */
+export async function computeDailyStats(hotelId: string, startDate: string, endDate: string): Promise<DailyStats[]> {
+  const dates = dateRange(startDate, endDate);
+
+  const hotel = await query('SELECT rooms_count, timezone FROM hotels WHERE id = $1', [hotelId]);
+  if (hotel.rows.length === 0) {
+    throw new ServiceError(`Hotel not found: ${hotelId}`, 404);
+  }
+  const roomsCount = Number(hotel.rows[0].rooms_count) || 0;
+  const timezone = hotel.rows[0].timezone || 'UTC';
+
+  const [stays, sessions, unsold] = await Promise.all([
+    // Each booking contributes one room and an equal share of its revenue
+    // to every night between check-in and check-out
+    query(
+      `SELECT to_char(d, 'YYYY-MM-DD') AS date,
+              COUNT(b.id) AS rooms_sold,
+              COALESCE(SUM(b.total_revenue / GREATEST(b.check_out - b.check_in, 1)), 0) AS revenue,
+              COALESCE(SUM(b.total_revenue / GREATEST(b.check_out - b.check_in, 1))
+                FILTER (WHERE c.channel_type = 'direct'), 0) AS direct_revenue,
+              COALESCE(SUM(b.total_revenue / GREATEST(b.check_out - b.check_in, 1))
+                FILTER (WHERE c.channel_type <> 'direct'), 0) AS ota_revenue,
+              COUNT(b.id) FILTER (WHERE b.check_in = d::date AND c.channel_type = 'direct') AS direct_bookings,
+              COUNT(b.id) FILTER (WHERE b.check_in = d::date AND c.channel_type <> 'direct') AS ota_bookings
+       FROM generate_series($2::date, $3::date, INTERVAL '1 day') AS d
+       JOIN bookings b ON b.hotel_id = $1
+         AND b.check_in <= d::date AND b.check_out > d::date
+         AND b.booking_status NOT IN ('cancelled', 'no_show')
+       LEFT JOIN channels c ON c.id = b.channel_id
+       GROUP BY d`,
+      [hotelId, startDate, endDate]
+    ),
+    query(
+      `SELECT to_char(created_at AT TIME ZONE $4, 'YYYY-MM-DD') AS date,
+              COUNT(*) AS interactions,
+              COUNT(*) FILTER (WHERE converted) AS conversions,
+              COALESCE(SUM(cost), 0) AS cost
+       FROM ai_sessions
+       WHERE hotel_id = $1
+         AND created_at >= ($2::date::timestamp AT TIME ZONE $4)
+         AND created_at < (($3::date + 1)::timestamp AT TIME ZONE $4)
+       GROUP BY 1`,
+      [hotelId, startDate, endDate, timezone]
+    ),
+    roomsCount > 0 ? Promise.resolve(new Map<string, number>()) : loadUnsoldRooms(hotelId, startDate, endDate)
+  ]);
+
+  const staysByDate = new Map(stays.rows.map(row => [row.date, row]));
+  const sessionsByDate = new Map(sessions.rows.map(row => [row.date, row]));
+
+  return dates.map(date => {
+    const stay = staysByDate.get(date);
+    const session = sessionsByDate.get(date);
+
+    const roomsSold = parseInt(stay?.rooms_sold || '0');
+    const revenue = parseFloat(stay?.revenue || '0');
+    const roomsAvailable = roomsCount > 0
+      ? Math.max(roomsCount, roomsSold)
+      : unsold.has(date) ? roomsSold + unsold.get(date)! : null;
+
+    return {
+      date,
+      roomsAvailable,
+      roomsSold,
+      occupancyRate: roomsAvailable ? round((roomsSold / roomsAvailable) * 100) : null,
+      adr: roomsSold > 0 ? round(revenue / roomsSold) : null,
+      revpar: roomsAvailable ? round(revenue / roomsAvailable) : null,
+      totalRevenue: round(revenue),
+      directBookings: parseInt(stay?.direct_bookings || '0'),
+      otaBookings: parseInt(stay?.ota_bookings || '0'),
+      directRevenue: round(parseFloat(stay?.direct_revenue || '0')),
+      otaRevenue: round(parseFloat(stay?.ota_revenue || '0')),
+      aiInteractions: parseInt(session?.interactions || '0'),
+      aiConversions: parseInt(session?.conversions || '0'),
+      aiCost: round(parseFloat(session?.cost || '0'), 4)
+    };
+  });
+}
+
+/**
+ * Compute and upsert the hotel's stats for a date range
+ */
+export async function materializeDailyStats(
+  hotelId: string,
+  startDate: string,
+  endDate: string
+): Promise<DailyStats[]> {
+  const days = await computeDailyStats(hotelId, startDate, endDate);
+
+  for (const day of days) {
+    await query(
+      `INSERT INTO daily_stats (
+         hotel_id, date, rooms_available, rooms_sold, occupancy_rate, adr, revpar, total_revenue,
+         direct_bookings, ota_bookings, direct_revenue, ota_revenue,
+         ai_interactions, ai_conversions, ai_cost
+       )
+       VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15)
+       ON CONFLICT (hotel_id, date) DO UPDATE SET
+         rooms_available = EXCLUDED.rooms_available,
+         rooms_sold = EXCLUDED.rooms_sold,
+         occupancy_rate = EXCLUDED.occupancy_rate,
+         adr = EXCLUDED.adr,
+         revpar = EXCLUDED.revpar,
+         total_revenue = EXCLUDED.total_revenue,
+         direct_bookings = EXCLUDED.direct_bookings,
+         ota_bookings = EXCLUDED.ota_bookings,
+         direct_revenue = EXCLUDED.direct_revenue,
+         ota_revenue = EXCLUDED.ota_revenue,
+         ai_interactions = EXCLUDED.ai_interactions,
+         ai_conversions = EXCLUDED.ai_conversions,
+         ai_cost = EXCLUDED.ai_cost,
+         updated_at = NOW()`,
+      [
+        hotelId, day.date, day.roomsAvailable, day.roomsSold, day.occupancyRate, day.adr, day.revpar,
+        day.totalRevenue, day.directBookings, day.otaBookings, day.directRevenue, day.otaRevenue,
+        day.aiInteractions, day.aiConversions, day.aiCost
+      ]
+    );
+  }
+
+  return days;
+}
+
+/**
+ * Materialize a range for many hotels (default: every active hotel, the
+ * nightly refresh window ending yesterday). One hotel failing does not stop
+ * the others.
+ */
+export async function runDailyStatsJob(options: {
+  startDate?: string;
+  endDate?: string;
+  hotelIds?: string[];
+} = {}): Promise<DailyStatsJobResult> {
+  const startTime = Date.now();
+  const endDate = options.endDate || dateOffset(-1);
+  const startDate = options.startDate || dateOffset(1 - NIGHTLY_REFRESH_DAYS, new Date(`${endDate}T00:00:00Z`));
+  // Fail fast on a bad range instead of once per hotel
+  dateRange(startDate, endDate);
+
+  const hotelIds = options.hotelIds?.length
+    ? options.hotelIds
+    : (await query('SELECT id FROM hotels WHERE is_active = true ORDER BY created_at')).rows.map(row => row.id);
+
+  const results: HotelDailyStatsResult[] = [];
+  for (const hotelId of hotelIds) {
+    try {
+      const days = await materializeDailyStats(hotelId, startDate, endDate);
+      results.push({ hotelId, days: days.length });
+    } catch (error: any) {
+      results.push({ hotelId, days: 0, error: error.message || 'Unknown error' });
+    }
+  }
+
+  const hotelsFailed = results.filter(r => r.error).length;
+  return {
+    startDate,
+    endDate,
+    hotelsTotal: results.length,
+    hotelsSuccess: results.length - hotelsFailed,
+    hotelsFailed,
+    duration: Date.now() - startTime,
+    results
+  };
+}
+
+/**
+ * Stored stats for a date range (dates never materialized are omitted)
+ */
+export async function getDailyStats(hotelId: string, startDate: string, endDate: string): Promise<DailyStats[]> {
+  dateRange(startDate, endDate);
+
+  const result = await query(
+    `SELECT to_char(date, 'YYYY-MM-DD') AS date, rooms_available, rooms_sold, occupancy_rate, adr, revpar,
+            total_revenue, direct_bookings, ota_bookings, direct_revenue, ota_revenue,
+            ai_interactions, ai_conversions, ai_cost
+     FROM daily_stats
+     WHERE hotel_id = $1 AND date BETWEEN $2 AND $3
+     ORDER BY date`,
+    [hotelId, startDate, endDate]
+  );
+
+  const toNumber = (value: any) => (value === null || value === undefined ? null : Number(value));
+  return result.rows.map(row => ({
+    date: row.date,
+    roomsAvailable: toNumber(row.rooms_available),
+    roomsSold: Number(row.rooms_sold) || 0,
+    occupancyRate: toNumber(row.occupancy_rate),
+    adr: toNumber(row.adr),
+    revpar: toNumber(row.revpar),
+    totalRevenue: Number(row.total_revenue) || 0,
+    directBookings: Number(row.direct_bookings) || 0,
+    otaBookings: Number(row.ota_bookings) || 0,
+    directRevenue: Number(row.direct_revenue) || 0,
+    otaRevenue: Number(row.ota_revenue) || 0,
+    aiInteractions: Number(row.ai_interactions) || 0,
+    aiConversions: Number(row.ai_conversions) || 0,
+    aiCost: Number(row.ai_cost) || 0
+  }));
+}
+
+/**
+ * Totals over several days; occupancy, ADR and RevPAR are recomputed from
+ * room counts rather than averaged
+ */
+export function summarizeDailyStats(days: DailyStats[]): DailyStatsSummary {
+  const sum = (pick: (day: DailyStats) => number | null) => days.reduce((total, day) => total + (pick(day) || 0), 0);
+
+  const roomsSold = sum(d => d.roomsSold);
+  const totalRevenue = sum(d => d.totalRevenue);
+  const withInventory = days.filter(d => d.roomsAvailable !== null);
+  const roomsAvailable = withInventory.length > 0 ? withInventory.reduce((t, d) => t + d.roomsAvailable!, 0) : null;
+  const soldWithInventory = withInventory.reduce((t, d) => t + d.roomsSold, 0);
+  const revenueWithInventory = withInventory.reduce((t, d) => t + d.totalRevenue, 0);
+
+  return {
+    days: days.length,
+    roomsAvailable,
+    roomsSold,
+    occupancyRate: roomsAvailable ? round((soldWithInventory / roomsAvailable) * 100) : null,
+    adr: roomsSold > 0 ? round(totalRevenue / roomsSold) : null,
+    revpar: roomsAvailable ? round(revenueWithInventory / roomsAvailable) : null,
+    totalRevenue: round(totalRevenue),
+    directBookings: sum(d => d.directBookings),
+    otaBookings: sum(d => d.otaBookings),
+    directRevenue: round(sum(d => d.directRevenue)),
+    otaRevenue: round(sum(d => d.otaRevenue)),
+    aiInteractions: sum(d => d.aiInteractions),
+    aiConversions: sum(d => d.aiConversions),
+    aiCost: round(sum(d => d.aiCost), 4)
+  };
+}
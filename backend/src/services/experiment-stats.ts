@@ -0,0 +1,150 @@
+/**
+ * Experiment Statistics
+ *
+ * Normal-approximation statistics for provider A/B experiments:
+ * - conversion rate: Wilson score interval, two-proportion z-test (pooled)
+ * - revenue per dollar (a ratio of per-session means): delta-method interval
+ *   and z-test on the difference of two ratios
+ */
+
+export interface Interval {
+  estimate: number | null;
+  lower: number | null;
+  upper: number | null;
+}
+
+export interface TestResult {
+  difference: number | null; // a - b
+  zScore: number | null;
+  pValue: number | null; // two-sided
+}
+
+// Per-variant sums needed for the revenue / cost ratio
+export interface RatioSums {
+  n: number;
+  sumY: number; // revenue
+  sumY2: number;
+  sumX: number; // cost
+  sumX2: number;
+  sumXY: number;
+}
+
+const EMPTY_INTERVAL: Interval = { estimate: null, lower: null, upper: null };
+const EMPTY_TEST: TestResult = { difference: null, zScore: null, pValue: null };
+
+/**
+ * Standard normal CDF (erf approximation, absolute error < 1.5e-7)
+ */
+export function normalCdf(z: number): number {
+  const x = Math.abs(z) / Math.SQRT2;
+  const t = 1 / (1 + 0.3275911 * x);
+  const poly = t * (0.254829592 + t * (-0.284496736 + t * (1.421413741 + t * (-1.453152027 + t * 1.061405429))));
+  const erf = 1 - poly * Math.exp(-x * x);
+  return z >= 0 ? (1 + erf) / 2 : (1 - erf) / 2;
+}
+
+/**
+ * z such that normalCdf(z) = p (bisection, for confidence levels)
+ */
+export function normalQuantile(p: number): number {
+  if (!(p > 0 && p < 1)) {
+    throw new Error('p must be between 0 and 1');
+  }
+  let low = -10;
+  let high = 10;
+  for (let i = 0; i < 100; i++) {
+    const mid = (low + high) / 2;
+    if (normalCdf(mid) < p) {
+      low = mid;
+    } else {
+      high = mid;
+    }
+  }
+  return (low + high) / 2;
+}
+
+// Two-sided z for a confidence level (0.95 -> 1.96)
+export function zForConfidence(confidence: number): number {
+  return normalQuantile(1 - (1 - confidence) / 2);
+}
+
+function twoSidedP(z: number): number {
+  return 2 * (1 - normalCdf(Math.abs(z)));
+}
+
+/**
+ * Wilson score interval of a proportion
+ */
+export function wilsonInterval(successes: number, n: number, confidence = 0.95): Interval {
+  if (n <= 0) return EMPTY_INTERVAL;
+
+  const z = zForConfidence(confidence);
+  const p = successes / n;
+  const denominator = 1 + z * z / n;
+  const center = (p + z * z / (2 * n)) / denominator;
+  const margin = z * Math.sqrt(p * (1 - p) / n + z * z / (4 * n * n)) / denominator;
+  return { estimate: p, lower: Math.max(0, center - margin), upper: Math.min(1, center + margin) };
+}
+
+/**
+ * Pooled two-proportion z-test of a vs b
+ */
+export function twoProportionTest(successesA: number, nA: number, successesB: number, nB: number): TestResult {
+  if (nA <= 0 || nB <= 0) return EMPTY_TEST;
+
+  const pA = successesA / nA;
+  const pB = successesB / nB;
+  const pooled = (successesA + successesB) / (nA + nB);
+  const se = Math.sqrt(pooled * (1 - pooled) * (1 / nA + 1 / nB));
+  if (se === 0) {
+    return { difference: pA - pB, zScore: null, pValue: pA === pB ? 1 : 0 };
+  }
+
+  const z = (pA - pB) / se;
+  return { difference: pA - pB, zScore: z, pValue: twoSidedP(z) };
+}
+
+/**
+ * sum(Y) / sum(X) with its delta-method variance (null without cost)
+ */
+export function ratioEstimate(sums: RatioSums): { ratio: number; variance: number } | null {
+  const { n, sumY, sumY2, sumX, sumX2, sumXY } = sums;
+  if (n < 2 || sumX <= 0) return null;
+
+  const meanX = sumX / n;
+  const meanY = sumY / n;
+  const ratio = sumY / sumX;
+  const varY = (sumY2 - n * meanY * meanY) / (n - 1);
+  const varX = (sumX2 - n * meanX * meanX) / (n - 1);
+  const covXY = (sumXY - n * meanX * meanY) / (n - 1);
+  const variance = Math.max(0, (varY - 2 * ratio * covXY + ratio * ratio * varX) / (n * meanX * meanX));
+  return { ratio, variance };
+}
+
+export function ratioInterval(sums: RatioSums, confidence = 0.95): Interval {
+  const estimate = ratioEstimate(sums);
+  if (!estimate) {
+    return sums.sumX > 0 ? { estimate: sums.sumY / sums.sumX, lower: null, upper: null } : EMPTY_INTERVAL;
+  }
+
+  const margin = zForConfidence(confidence) * Math.sqrt(estimate.variance);
+  return { estimate: estimate.ratio, lower: estimate.ratio - margin, upper: estimate.ratio + margin };
+}
+
+/**
+ * z-test of the difference between two independent ratios
+ */
+export function ratioDifferenceTest(a: RatioSums, b: RatioSums): TestResult {
+  const ratioA = ratioEstimate(a);
+  const ratioB = ratioEstimate(b);
+  if (!ratioA || !ratioB) return EMPTY_TEST;
+
+  const difference = ratioA.ratio - ratioB.ratio;
+  const se = Math.sqrt(ratioA.variance + ratioB.variance);
+  if (se === 0) {
+    return { difference, zScore: null, pValue: difference === 0 ? 1 : 0 };
+  }
+
+  const z = difference / se;
+  return { difference, zScore: z, pValue: twoSidedP(z) };
+}
@@ -5,18 +5,50 @@
  * 
  * Formula:
  * eywaScore = (
- *   (google_rating * google_weight * google_confidence) +
- *   (tripadvisor_rating * tripadvisor_weight * ta_confidence)
- * ) / total_weight * 2  // Scale to 0-10
+ *   sum(normalized_rating * weight * confidence)
+ * ) / sum(weight * confidence) * 2  // Scale to 0-10
  * 
- * Where confidence = min(1.0, review_count / 100)
+ * Where confidence = min(1.0, review_count / 100) and normalized_rating is the
+ * source rating brought to the 5-point scale (Booking.com 8.6/10 -> 4.3).
+ * Weights come from the hotel settings, falling back to each source's default.
+ *
+ * Bayesian mode (alternative, chosen per hotel):
+ * posterior = (k * market_mean + sum(w_i * rating_i)) / (k + sum(w_i))
+ *
+ * over individual reviews, where w_i = 0.5 ^ (age_days / half_life) decays old
+ * reviews and k pseudo-reviews at the market (competitor set) average shrink
+ * hotels with few reviews toward their market. Reported with a credible interval.
  */
 
+import { zForConfidence } from './experiment-stats.js';
+
 export interface RatingSource {
-  source: 'google' | 'tripadvisor';
-  rating: number; // 1.0 to 5.0
+  source: string; // slug of a registered rating source
+  rating: number; // on the source's own scale
+  reviewCount: number;
+  weight?: number; // Overrides the hotel / default weight
+}
+
+/**
+ * A review platform that can contribute to the Eywa Score
+ */
+export interface RatingSourceDefinition {
+  slug: string;
+  name: string;
+  scale: number; // best possible rating (5 or 10)
+  defaultWeight: number;
+  normalize?: (rating: number) => number; // custom conversion to the 5-point scale
+}
+
+export type EywaWeights = Record<string, number>;
+
+export interface SourceContribution {
+  source: string;
+  rating: number; // as reported by the source
+  normalizedRating: number; // 5-point scale
+  weight: number;
+  confidence: number;
   reviewCount: number;
-  weight?: number; // Default 0.5
 }
 
 export interface EywaScoreResult {
@@ -28,6 +60,37 @@ export interface EywaScoreResult {
   tripadvisorWeight: number;
   tripadvisorConfidence: number;
   sourcesUsed: string[];
+  breakdown: SourceContribution[];
+}
+
+export type EywaScoreMode = 'weighted' | 'bayesian';
+
+export const EYWA_SCORE_MODES: EywaScoreMode[] = ['weighted', 'bayesian'];
+
+export interface DatedRating {
+  rating: number; // 5-point scale
+  publishedAt: Date | null;
+}
+
+// Review-level rating distribution of the market, on the 5-point scale
+export interface MarketPrior {
+  mean: number;
+  variance: number;
+  strength: number; // weight of the prior, in reviews
+}
+
+export interface BayesianOptions {
+  now?: Date;
+  halfLifeDays?: number;
+  credibleLevel?: number;
+}
+
+export interface BayesianScoreResult {
+  eywaScore: number; // 0.00 to 10.00 (posterior mean)
+  credibleInterval: { lower: number; upper: number; level: number }; // 0-10
+  priorScore: number; // market average, 0-10
+  effectiveReviews: number; // sum of recency weights
+  reviewsUsed: number;
 }
 
 export interface TrendResult {
@@ -35,15 +98,69 @@ export interface TrendResult {
   delta: number;
 }
 
-// Default weights (can be configured per hotel)
-const DEFAULT_WEIGHTS = {
-  google: 0.50,
-  tripadvisor: 0.50,
+const RATING_SOURCES: Record<string, RatingSourceDefinition> = {
+  google: { slug: 'google', name: 'Google', scale: 5, defaultWeight: 0.50 },
+  tripadvisor: { slug: 'tripadvisor', name: 'TripAdvisor', scale: 5, defaultWeight: 0.50 },
+  booking: { slug: 'booking', name: 'Booking.com', scale: 10, defaultWeight: 0.50 },
+  expedia: { slug: 'expedia', name: 'Expedia', scale: 10, defaultWeight: 0.50 },
+  trustpilot: { slug: 'trustpilot', name: 'Trustpilot', scale: 5, defaultWeight: 0.25 },
+  hostaway: { slug: 'hostaway', name: 'Hostaway guest reviews', scale: 10, defaultWeight: 0.25 },
+  guesty: { slug: 'guesty', name: 'Guesty guest reviews', scale: 5, defaultWeight: 0.25 },
 };
 
 // Review count threshold for full confidence
 const CONFIDENCE_THRESHOLD = 100;
 
+// Used when the market has too few reviews to estimate a prior
+export const DEFAULT_MARKET_PRIOR: MarketPrior = { mean: 4.0, variance: 1.0, strength: 10 };
+
+// A review loses half its weight every year
+export const RECENCY_HALF_LIFE_DAYS = 365;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Register (or replace) a rating source
+ */
+export function registerRatingSource(definition: RatingSourceDefinition): void {
+  RATING_SOURCES[definition.slug] = definition;
+}
+
+export function getRatingSource(slug: string): RatingSourceDefinition | null {
+  return Object.prototype.hasOwnProperty.call(RATING_SOURCES, slug) ? RATING_SOURCES[slug] : null;
+}
+
+export function listRatingSources(): RatingSourceDefinition[] {
+  return Object.values(RATING_SOURCES);
+}
+
+/**
+ * Default weight of every registered source
+ */
+export function defaultWeights(): EywaWeights {
+  const weights: EywaWeights = {};
+  for (const definition of listRatingSources()) {
+    weights[definition.slug] = definition.defaultWeight;
+  }
+  return weights;
+}
+
+/**
+ * Bring a rating on the source's own scale to the 5-point scale
+ */
+export function normalizeSourceRating(definition: RatingSourceDefinition, rating: number): number {
+  const normalized = definition.normalize ? definition.normalize(rating) : rating * 5 / definition.scale;
+  return Math.min(5, Math.max(0, normalized));
+}
+
+/**
+ * Bring a source rating to the 5-point scale (null for an unknown source)
+ */
+export function normalizeRating(source: string, rating: number): number | null {
+  const definition = getRatingSource(source);
+  return definition ? normalizeSourceRating(definition, rating) : null;
+}
+
 /**
  * Calculate confidence based on review count
  * More reviews = higher confidence (max 1.0 at 100+ reviews)
@@ -54,17 +171,19 @@ export function calculateConfidence(reviewCount: number): number {
 
 /**
  * Calculate the Eywa Score from multiple rating sources
+ * (unregistered sources are ignored, a weight of 0 excludes a source)
  */
-export function calculateEywaScore(sources: RatingSource[]): EywaScoreResult {
+export function calculateEywaScore(sources: RatingSource[], weights: EywaWeights = {}): EywaScoreResult {
   const result: EywaScoreResult = {
     eywaScore: 0,
     googleRating: null,
-    googleWeight: DEFAULT_WEIGHTS.google,
+    googleWeight: weights.google ?? RATING_SOURCES.google.defaultWeight,
     googleConfidence: 0,
     tripadvisorRating: null,
-    tripadvisorWeight: DEFAULT_WEIGHTS.tripadvisor,
+    tripadvisorWeight: weights.tripadvisor ?? RATING_SOURCES.tripadvisor.defaultWeight,
     tripadvisorConfidence: 0,
     sourcesUsed: [],
+    breakdown: [],
   };
 
   if (sources.length === 0) {
@@ -75,14 +194,25 @@ export function calculateEywaScore(sources: RatingSource[]): EywaScoreResult {
   let totalWeight = 0;
 
   for (const source of sources) {
-    const weight = source.weight ?? DEFAULT_WEIGHTS[source.source] ?? 0.5;
+    const normalizedRating = normalizeRating(source.source, source.rating);
+    if (normalizedRating === null) continue;
+
+    const weight = source.weight ?? weights[source.source] ?? RATING_SOURCES[source.source].defaultWeight;
     const confidence = calculateConfidence(source.reviewCount);
-    const contribution = source.rating * weight * confidence;
+    const contribution = normalizedRating * weight * confidence;
 
     weightedSum += contribution;
     totalWeight += weight * confidence;
 
     result.sourcesUsed.push(source.source);
+    result.breakdown.push({
+      source: source.source,
+      rating: source.rating,
+      normalizedRating: Math.round(normalizedRating * 100) / 100,
+      weight,
+      confidence,
+      reviewCount: source.reviewCount,
+    });
 
     if (source.source === 'google') {
       result.googleRating = source.rating;
@@ -103,6 +233,50 @@ export function calculateEywaScore(sources: RatingSource[]): EywaScoreResult {
   return result;
 }
 
+/**
+ * Weight of a review of a given date (undated reviews count as one half-life old)
+ */
+export function recencyWeight(publishedAt: Date | null, now: Date = new Date(), halfLifeDays = RECENCY_HALF_LIFE_DAYS): number {
+  const ageDays = publishedAt ? Math.max(0, (now.getTime() - publishedAt.getTime()) / DAY_MS) : halfLifeDays;
+  return Math.pow(0.5, ageDays / halfLifeDays);
+}
+
+/**
+ * Bayesian Eywa Score: recency-weighted reviews shrunk toward the market prior.
+ * Normal model with the market's review variance as per-review noise, so the
+ * posterior variance is variance / (strength + sum of weights).
+ */
+export function calculateBayesianEywaScore(
+  reviews: DatedRating[],
+  prior: MarketPrior = DEFAULT_MARKET_PRIOR,
+  options: BayesianOptions = {}
+): BayesianScoreResult {
+  const now = options.now ?? new Date();
+  const halfLifeDays = options.halfLifeDays ?? RECENCY_HALF_LIFE_DAYS;
+  const level = options.credibleLevel ?? 0.95;
+
+  let weightSum = 0;
+  let weightedRatings = 0;
+  for (const review of reviews) {
+    const weight = recencyWeight(review.publishedAt, now, halfLifeDays);
+    weightSum += weight;
+    weightedRatings += weight * review.rating;
+  }
+
+  const precision = prior.strength + weightSum;
+  const mean = (prior.strength * prior.mean + weightedRatings) / precision;
+  const margin = zForConfidence(level) * Math.sqrt(prior.variance / precision);
+  const toScore = (rating: number) => Math.round(Math.min(5, Math.max(1, rating)) * 2 * 100) / 100;
+
+  return {
+    eywaScore: toScore(mean),
+    credibleInterval: { lower: toScore(mean - margin), upper: toScore(mean + margin), level },
+    priorScore: toScore(prior.mean),
+    effectiveReviews: Math.round(weightSum * 100) / 100,
+    reviewsUsed: reviews.length,
+  };
+}
+
 /**
  * Calculate trend by comparing with previous score
  */
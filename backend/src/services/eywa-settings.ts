@@ -0,0 +1,179 @@
+/**
+ * Eywa Score Settings Service
+ *
+ * Per-hotel Eywa Score configuration (source weights, scoring mode), ratings
+ * recorded for sources the platform does not fetch itself (Booking.com,
+ * Expedia, ...) and computation of both score modes for a hotel.
+ */
+
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+import * as eywaScore from './eywa-score.js';
+
+export interface EywaSettings {
+  weights: eywaScore.EywaWeights; // per-source overrides of the default weights
+  mode: eywaScore.EywaScoreMode; // which score is published as the Eywa Score
+}
+
+export interface HotelScores {
+  mode: eywaScore.EywaScoreMode; // mode of eywaScore
+  fallbackReason: 'no_reviews' | null; // why the configured bayesian mode published the weighted score
+  eywaScore: number;
+  weighted: eywaScore.EywaScoreResult;
+  bayesian: eywaScore.BayesianScoreResult | null;
+}
+
+export interface SourceRatingInput {
+  rating?: unknown;
+  reviewCount?: unknown;
+}
+
+// Market reviews needed to use them as the Bayesian prior
+const MIN_PRIOR_REVIEWS = 30;
+
+/**
+ * Stored settings of a hotel (no overrides when never configured)
+ */
+export async function getEywaSettings(hotelId: string): Promise<EywaSettings> {
+  const result = await query('SELECT weights, score_mode FROM hotel_eywa_settings WHERE hotel_id = $1', [hotelId]);
+  const weights: eywaScore.EywaWeights = {};
+  for (const [source, value] of Object.entries(result.rows[0]?.weights || {})) {
+    weights[source] = Number(value);
+  }
+  return { weights, mode: result.rows[0]?.score_mode || 'weighted' };
+}
+
+/**
+ * Weights used for a hotel's score: defaults of every registered source with the hotel overrides
+ */
+export function effectiveWeights(settings: EywaSettings): eywaScore.EywaWeights {
+  return { ...eywaScore.defaultWeights(), ...settings.weights };
+}
+
+/**
+ * Update the scoring mode and / or replace the weight overrides of a hotel (0 excludes a source)
+ */
+export async function updateEywaSettings(hotelId: string, changes: Partial<EywaSettings>): Promise<EywaSettings> {
+  const settings = { ...await getEywaSettings(hotelId), ...changes };
+
+  if (typeof settings.weights !== 'object' || settings.weights === null || Array.isArray(settings.weights)) {
+    throw new ServiceError('weights must be an object of source -> weight', 400);
+  }
+
+  const weights: eywaScore.EywaWeights = {};
+  for (const [source, value] of Object.entries(settings.weights)) {
+    if (!eywaScore.getRatingSource(source)) {
+      throw new ServiceError(`Unknown rating source: ${source}`, 400);
+    }
+    const weight = Number(value);
+    if (typeof value !== 'number' || !Number.isFinite(weight) || weight < 0 || weight > 1) {
+      throw new ServiceError(`Weight for ${source} must be between 0 and 1`, 400);
+    }
+    weights[source] = weight;
+  }
+
+  if (!eywaScore.EYWA_SCORE_MODES.includes(settings.mode)) {
+    throw new ServiceError(`mode must be one of: ${eywaScore.EYWA_SCORE_MODES.join(', ')}`, 400);
+  }
+
+  await query(
+    `INSERT INTO hotel_eywa_settings (hotel_id, weights, score_mode)
+     VALUES ($1, $2, $3)
+     ON CONFLICT (hotel_id) DO UPDATE SET
+       weights = EXCLUDED.weights,
+       score_mode = EXCLUDED.score_mode,
+       updated_at = NOW()`,
+    [hotelId, JSON.stringify(weights), settings.mode]
+  );
+
+  return { weights, mode: settings.mode };
+}
+
+/**
+ * Record today's rating of a source on its own scale (e.g. Booking.com 8.7 / 10)
+ */
+export async function recordSourceRating(hotelId: string, source: string, input: SourceRatingInput): Promise<{
+  source: string;
+  rating: number;
+  normalizedRating: number;
+  reviewCount: number;
+}> {
+  const definition = eywaScore.getRatingSource(source);
+  if (!definition) {
+    throw new ServiceError(`Unknown rating source: ${source}`, 400);
+  }
+
+  const { rating, reviewCount } = input;
+  if (typeof rating !== 'number' || !Number.isFinite(rating) || rating < 0 || rating > definition.scale) {
+    throw new ServiceError(`rating must be between 0 and ${definition.scale} for ${definition.name}`, 400);
+  }
+  if (typeof reviewCount !== 'number' || !Number.isInteger(reviewCount) || reviewCount < 0) {
+    throw new ServiceError('reviewCount must be a non-negative integer', 400);
+  }
+
+  await query(
+    `INSERT INTO hotel_ratings (hotel_id, source, rating, review_count, fetched_at)
+     VALUES ($1, $2, $3, $4, NOW())
+     ON CONFLICT (hotel_id, source, DATE(fetched_at))
+     DO UPDATE SET rating = $3, review_count = $4, fetched_at = NOW()`,
+    [hotelId, source, rating, reviewCount]
+  );
+
+  return { source, rating, normalizedRating: eywaScore.normalizeSourceRating(definition, rating), reviewCount };
+}
+
+/**
+ * Prior of the Bayesian score: review ratings of the other hotels in the same city
+ */
+export async function getMarketPrior(hotelId: string): Promise<eywaScore.MarketPrior> {
+  const result = await query(
+    `SELECT COUNT(r.rating) AS reviews, AVG(r.rating) AS mean, VAR_SAMP(r.rating) AS variance
+     FROM hotels h
+     JOIN hotels c ON c.city = h.city AND c.country = h.country AND c.id != h.id
+     JOIN hotel_reviews r ON r.hotel_id = c.id
+     WHERE h.id = $1`,
+    [hotelId]
+  );
+
+  const row = result.rows[0];
+  if (!row || parseInt(row.reviews) < MIN_PRIOR_REVIEWS || !(parseFloat(row.variance) > 0)) {
+    return eywaScore.DEFAULT_MARKET_PRIOR;
+  }
+  return {
+    mean: parseFloat(row.mean),
+    variance: parseFloat(row.variance),
+    strength: eywaScore.DEFAULT_MARKET_PRIOR.strength,
+  };
+}
+
+/**
+ * Both score modes for a hotel; eywaScore is the one its settings publish
+ */
+export async function computeHotelScores(hotelId: string, sources: eywaScore.RatingSource[]): Promise<HotelScores> {
+  const settings = await getEywaSettings(hotelId);
+  const weighted = eywaScore.calculateEywaScore(sources, effectiveWeights(settings));
+
+  const reviewsResult = await query(
+    'SELECT source, rating, published_at FROM hotel_reviews WHERE hotel_id = $1 AND rating IS NOT NULL',
+    [hotelId]
+  );
+  let bayesian: eywaScore.BayesianScoreResult | null = null;
+  if (reviewsResult.rows.length > 0) {
+    const reviews: eywaScore.DatedRating[] = reviewsResult.rows.map(r => ({
+      rating: eywaScore.normalizeRating(r.source, r.rating) ?? r.rating,
+      publishedAt: r.published_at ? new Date(r.published_at) : null,
+    }));
+    bayesian = eywaScore.calculateBayesianEywaScore(reviews, await getMarketPrior(hotelId));
+  }
+
+  if (settings.mode === 'bayesian' && bayesian) {
+    return { mode: 'bayesian', fallbackReason: null, eywaScore: bayesian.eywaScore, weighted, bayesian };
+  }
+  return {
+    mode: 'weighted',
+    fallbackReason: settings.mode === 'bayesian' ? 'no_reviews' : null,
+    eywaScore: weighted.eywaScore,
+    weighted,
+    bayesian,
+  };
+}
@@ -0,0 +1,119 @@
+/**
+ * Language Detection Service
+ *
+ * Offline detection of the language of review text, for the languages our
+ * hotels receive reviews in (English, French, German, Spanish, Italian,
+ * Turkish). Each language scores its common words found in the text plus the
+ * letters only it uses (ğ ı ş for Turkish, ß for German, ñ ¿ ¡ for Spanish, ...);
+ * the best score wins when it is clear enough.
+ *
+ * Sources report a language too, but Google reports the language of the text
+ * it displays, which may be a translation, so the detected one is preferred.
+ */
+
+import { foldText } from './aspect-sentiment.js';
+
+export interface DetectedLanguage {
+  language: string; // ISO 639-1
+  confidence: number; // share of the winning score, 0 to 1
+}
+
+interface LanguageProfile {
+  words: Set<string>; // folded (lowercase, no accents)
+  letters: string; // letters no other supported language uses
+}
+
+// Common words found in hotel reviews, folded
+const LANGUAGE_PROFILES: Record<string, LanguageProfile> = {
+  en: {
+    words: new Set(['the', 'and', 'was', 'were', 'is', 'are', 'very', 'we', 'our', 'with', 'for', 'this', 'that', 'not', 'but',
+      'it', 'of', 'to', 'had', 'would', 'again', 'they', 'you', 'my', 'at', 'there', 'from', 'nice', 'stay', 'room', 'staff',
+      'great', 'good', 'breakfast', 'friendly', 'clean', 'definitely', 'recommend']),
+    letters: '',
+  },
+  fr: {
+    words: new Set(['le', 'la', 'les', 'et', 'est', 'tres', 'nous', 'avec', 'pour', 'dans', 'une', 'des', 'du', 'pas', 'mais',
+      'chambre', 'tout', 'sur', 'qui', 'que', 'au', 'aux', 'etait', 'sont', 'petit', 'bien', 'ce', 'cet', 'cette', 'accueil',
+      'sejour', 'je', 'vous', 'il', 'avons', 'personnel', 'dejeuner', 'propre']),
+    letters: 'êâîôûœ',
+  },
+  de: {
+    words: new Set(['der', 'die', 'das', 'und', 'ist', 'war', 'sehr', 'wir', 'mit', 'fur', 'nicht', 'ein', 'eine', 'zimmer',
+      'auch', 'aber', 'es', 'auf', 'im', 'zu', 'den', 'dem', 'sind', 'waren', 'gut', 'uns', 'ich', 'fruhstuck', 'freundlich',
+      'sauber', 'haben', 'hatten', 'wieder', 'gerne', 'lage', 'personal']),
+    letters: 'ßä',
+  },
+  es: {
+    words: new Set(['el', 'la', 'los', 'las', 'y', 'es', 'muy', 'con', 'para', 'en', 'una', 'un', 'del', 'habitacion', 'pero',
+      'no', 'fue', 'estaba', 'todo', 'que', 'por', 'nos', 'desayuno', 'buena', 'bueno', 'lo', 'se', 'al', 'limpio',
+      'ubicacion', 'estancia', 'amable', 'volveremos', 'personal']),
+    letters: 'ñ¿¡',
+  },
+  it: {
+    words: new Set(['il', 'la', 'le', 'e', 'molto', 'con', 'per', 'una', 'un', 'della', 'del', 'camera', 'ma', 'non', 'era',
+      'tutto', 'che', 'personale', 'colazione', 'gli', 'di', 'da', 'sono', 'siamo', 'ottimo', 'ottima', 'bella', 'pulita',
+      'posizione', 'soggiorno', 'gentile', 'anche', 'struttura']),
+    letters: 'ìò',
+  },
+  tr: {
+    words: new Set(['ve', 'bir', 'cok', 'bu', 'otel', 'oda', 'icin', 'ama', 'da', 'de', 'ile', 'gibi', 'personel', 'kahvalti',
+      'guzel', 'iyi', 'temiz', 'biz', 'olarak', 'daha', 'en', 'kadar', 'her', 'sey', 'yok', 'var', 'tesekkurler', 'kaldik',
+      'otelin', 'odalar', 'ilgili', 'tavsiye', 'ederim']),
+    letters: 'ğış',
+  },
+};
+
+export const SUPPORTED_LANGUAGES = Object.keys(LANGUAGE_PROFILES);
+
+// Score needed to trust a detection (about two common words)
+const MIN_SCORE = 2;
+// Share of the total score the winner needs
+const MIN_CONFIDENCE = 0.4;
+// Weight of a text containing letters unique to a language
+const LETTER_WEIGHT = 2;
+
+/**
+ * "en-US" -> "en", "FR" -> "fr"; null when empty or not a language code
+ */
+export function normalizeLanguageCode(code: string | null | undefined): string | null {
+  const base = (code || '').trim().toLowerCase().split(/[-_]/)[0];
+  return /^[a-z]{2,3}$/.test(base) ? base : null;
+}
+
+/**
+ * Language of a text, null when it is too short or ambiguous
+ */
+export function detectLanguage(text: string | null | undefined): DetectedLanguage | null {
+  if (!text) return null;
+
+  const tokens = foldText(text).split(' ').filter(Boolean);
+  const lower = text.toLowerCase();
+  const scores: Array<[string, number]> = Object.entries(LANGUAGE_PROFILES).map(([language, profile]) => {
+    const hits = tokens.filter(token => profile.words.has(token)).length;
+    const hasLetters = [...profile.letters].some(letter => lower.includes(letter));
+    return [language, hits + (hasLetters ? LETTER_WEIGHT : 0)];
+  });
+
+  scores.sort((a, b) => b[1] - a[1]);
+  const [language, best] = scores[0];
+  const total = scores.reduce((sum, [, score]) => sum + score, 0);
+  if (best < MIN_SCORE || best === scores[1][1]) {
+    return null;
+  }
+
+  const confidence = Math.round((best / total) * 100) / 100;
+  return confidence >= MIN_CONFIDENCE ? { language, confidence } : null;
+}
+
+/**
+ * Language stored for a review: the detected one, else the one its source reported
+ */
+export function resolveReviewLanguage(text: string | null, reported: string | null): {
+  language: string | null;
+  confidence: number | null;
+} {
+  const detected = detectLanguage(text);
+  return detected
+    ? { language: detected.language, confidence: detected.confidence }
+    : { language: normalizeLanguageCode(reported), confidence: null };
+}
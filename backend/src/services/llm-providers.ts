@@ -0,0 +1,353 @@
+/**
+ * LLM Provider Plug-ins
+ *
+ * One plug-in per ai_providers.slug, all speaking the same request/response
+ * shape (messages + tool definitions in, text + tool calls + token counts out):
+ * - chatgpt: OpenAI Chat Completions
+ * - claude, claude-sonnet: Anthropic Messages
+ * - gemini: Google Generative Language
+ * - mock: local and deterministic, for tests and demos (no API key, no network)
+ *
+ * The model comes from ai_providers.model; API keys from the environment.
+ */
+
+import dotenv from 'dotenv';
+import { ServiceError } from '../utils/errors.js';
+
+dotenv.config();
+
+export interface LlmToolDefinition {
+  name: string;
+  description: string;
+  parameters: Record<string, any>; // JSON schema of the arguments object
+}
+
+export interface LlmToolCall {
+  id: string;
+  name: string;
+  arguments: Record<string, any>;
+}
+
+export type LlmMessage =
+  | { role: 'user'; content: string }
+  | { role: 'assistant'; content: string; toolCalls?: LlmToolCall[] }
+  | { role: 'tool'; toolCallId: string; name: string; content: string }; // content is JSON
+
+export interface LlmRequest {
+  model: string;
+  system: string;
+  messages: LlmMessage[];
+  tools: LlmToolDefinition[];
+  maxTokens?: number;
+}
+
+export interface LlmResponse {
+  content: string;
+  toolCalls: LlmToolCall[];
+  tokensIn: number;
+  tokensOut: number;
+}
+
+export interface LlmProvider {
+  complete(request: LlmRequest): Promise<LlmResponse>;
+}
+
+const DEFAULT_MAX_TOKENS = 1024;
+
+async function postJson(label: string, url: string, headers: Record<string, string>, body: unknown): Promise<any> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', ...headers },
+    body: JSON.stringify(body)
+  });
+
+  if (!response.ok) {
+    const text = await response.text().catch(() => '');
+    throw new ServiceError(`${label} API error: ${response.status} ${text.slice(0, 200)}`.trim(), 502);
+  }
+  return response.json();
+}
+
+function parseArguments(raw: unknown): Record<string, any> {
+  if (raw && typeof raw === 'object') return raw as Record<string, any>;
+  try {
+    const parsed = JSON.parse(String(raw || '{}'));
+    return parsed && typeof parsed === 'object' ? parsed : {};
+  } catch {
+    return {};
+  }
+}
+
+// Consecutive tool results, grouped so they can be sent back as one message
+function groupToolResults(messages: LlmMessage[]): Array<LlmMessage | Extract<LlmMessage, { role: 'tool' }>[]> {
+  const grouped: Array<LlmMessage | Extract<LlmMessage, { role: 'tool' }>[]> = [];
+  for (const message of messages) {
+    const last = grouped[grouped.length - 1];
+    if (message.role === 'tool') {
+      if (Array.isArray(last)) {
+        last.push(message);
+      } else {
+        grouped.push([message]);
+      }
+    } else {
+      grouped.push(message);
+    }
+  }
+  return grouped;
+}
+
+export class OpenAiProvider implements LlmProvider {
+  constructor(private apiKey: string, private baseUrl = 'https://api.openai.com/v1') {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const messages: any[] = [{ role: 'system', content: request.system }];
+    for (const message of request.messages) {
+      if (message.role === 'tool') {
+        messages.push({ role: 'tool', tool_call_id: message.toolCallId, content: message.content });
+      } else if (message.role === 'assistant' && message.toolCalls?.length) {
+        messages.push({
+          role: 'assistant',
+          content: message.content || null,
+          tool_calls: message.toolCalls.map(call => ({
+            id: call.id,
+            type: 'function',
+            function: { name: call.name, arguments: JSON.stringify(call.arguments) }
+          }))
+        });
+      } else {
+        messages.push({ role: message.role, content: message.content });
+      }
+    }
+
+    const data = await postJson('OpenAI', `${this.baseUrl}/chat/completions`, { Authorization: `Bearer ${this.apiKey}` }, {
+      model: request.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      messages,
+      ...(request.tools.length > 0 && {
+        tools: request.tools.map(tool => ({ type: 'function', function: tool }))
+      })
+    });
+
+    const reply = data.choices?.[0]?.message || {};
+    return {
+      content: reply.content || '',
+      toolCalls: (reply.tool_calls || []).map((call: any) => ({
+        id: call.id,
+        name: call.function?.name,
+        arguments: parseArguments(call.function?.arguments)
+      })),
+      tokensIn: data.usage?.prompt_tokens || 0,
+      tokensOut: data.usage?.completion_tokens || 0
+    };
+  }
+}
+
+export class AnthropicProvider implements LlmProvider {
+  constructor(private apiKey: string, private baseUrl = 'https://api.anthropic.com/v1') {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const messages = groupToolResults(request.messages).map(entry => {
+      if (Array.isArray(entry)) {
+        return {
+          role: 'user',
+          content: entry.map(result => ({ type: 'tool_result', tool_use_id: result.toolCallId, content: result.content }))
+        };
+      }
+      if (entry.role === 'assistant' && entry.toolCalls?.length) {
+        return {
+          role: 'assistant',
+          content: [
+            ...(entry.content ? [{ type: 'text', text: entry.content }] : []),
+            ...entry.toolCalls.map(call => ({ type: 'tool_use', id: call.id, name: call.name, input: call.arguments }))
+          ]
+        };
+      }
+      return { role: entry.role, content: (entry as { content: string }).content };
+    });
+
+    const data = await postJson('Anthropic', `${this.baseUrl}/messages`, {
+      'x-api-key': this.apiKey,
+      'anthropic-version': '2023-06-01'
+    }, {
+      model: request.model,
+      max_tokens: request.maxTokens || DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages,
+      ...(request.tools.length > 0 && {
+        tools: request.tools.map(tool => ({ name: tool.name, description: tool.description, input_schema: tool.parameters }))
+      })
+    });
+
+    const blocks: any[] = data.content || [];
+    return {
+      content: blocks.filter(block => block.type === 'text').map(block => block.text).join(''),
+      toolCalls: blocks.filter(block => block.type === 'tool_use').map(block => ({
+        id: block.id,
+        name: block.name,
+        arguments: parseArguments(block.input)
+      })),
+      tokensIn: data.usage?.input_tokens || 0,
+      tokensOut: data.usage?.output_tokens || 0
+    };
+  }
+}
+
+export class GeminiProvider implements LlmProvider {
+  constructor(private apiKey: string, private baseUrl = 'https://generativelanguage.googleapis.com/v1beta') {}
+
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const contents = groupToolResults(request.messages).map(entry => {
+      if (Array.isArray(entry)) {
+        return {
+          role: 'user',
+          parts: entry.map(result => ({ functionResponse: { name: result.name, response: parseArguments(result.content) } }))
+        };
+      }
+      if (entry.role === 'assistant') {
+        return {
+          role: 'model',
+          parts: [
+            ...(entry.content ? [{ text: entry.content }] : []),
+            ...(entry.toolCalls || []).map(call => ({ functionCall: { name: call.name, args: call.arguments } }))
+          ]
+        };
+      }
+      return { role: 'user', parts: [{ text: (entry as { content: string }).content }] };
+    });
+
+    const url = `${this.baseUrl}/models/${encodeURIComponent(request.model)}:generateContent?key=${encodeURIComponent(this.apiKey)}`;
+    const data = await postJson('Gemini', url, {}, {
+      systemInstruction: { parts: [{ text: request.system }] },
+      contents,
+      generationConfig: { maxOutputTokens: request.maxTokens || DEFAULT_MAX_TOKENS },
+      ...(request.tools.length > 0 && { tools: [{ functionDeclarations: request.tools }] })
+    });
+
+    const parts: any[] = data.candidates?.[0]?.content?.parts || [];
+    return {
+      content: parts.filter(part => typeof part.text === 'string').map(part => part.text).join(''),
+      // Gemini function calls carry no id
+      toolCalls: parts.filter(part => part.functionCall).map((part, i) => ({
+        id: `${part.functionCall.name}-${i}`,
+        name: part.functionCall.name,
+        arguments: parseArguments(part.functionCall.args)
+      })),
+      tokensIn: data.usageMetadata?.promptTokenCount || 0,
+      tokensOut: data.usageMetadata?.candidatesTokenCount || 0
+    };
+  }
+}
+
+const ISO_DATE_PATTERN = /\b(\d{4}-\d{2}-\d{2})\b/g;
+
+// Rough token count (~4 characters per token) for the mock provider
+function estimateTokens(text: string): number {
+  return Math.ceil(text.length / 4);
+}
+
+/**
+ * Deterministic provider: asks for availability when the guest gives dates,
+ * for room types when they ask about rooms, and answers from the tool results.
+ */
+export class MockLlmProvider implements LlmProvider {
+  async complete(request: LlmRequest): Promise<LlmResponse> {
+    const last = request.messages[request.messages.length - 1];
+    const toolNames = new Set(request.tools.map(tool => tool.name));
+    let content = '';
+    let toolCalls: LlmToolCall[] = [];
+
+    if (last?.role === 'tool') {
+      content = this.answerFromTools(request.messages);
+    } else if (last?.role === 'user') {
+      const dates = last.content.match(ISO_DATE_PATTERN) || [];
+      if (dates.length > 0 && toolNames.has('get_availability')) {
+        const checkIn = dates[0];
+        const checkOut = dates[1] || new Date(Date.parse(`${checkIn}T00:00:00Z`) + 86_400_000).toISOString().slice(0, 10);
+        toolCalls = [{ id: 'call-availability', name: 'get_availability', arguments: { checkIn, checkOut } }];
+      } else if (/\brooms?\b/i.test(last.content) && toolNames.has('get_room_types')) {
+        toolCalls = [{ id: 'call-room-types', name: 'get_room_types', arguments: {} }];
+      } else {
+        content = 'I can check availability and prices for you. Which dates would you like (YYYY-MM-DD)?';
+      }
+    }
+
+    const prompt = request.system + JSON.stringify(request.messages) + JSON.stringify(request.tools);
+    return {
+      content,
+      toolCalls,
+      tokensIn: estimateTokens(prompt),
+      tokensOut: estimateTokens(content + JSON.stringify(toolCalls))
+    };
+  }
+
+  private answerFromTools(messages: LlmMessage[]): string {
+    const results: Array<{ name: string; data: any }> = [];
+    for (let i = messages.length - 1; i >= 0 && messages[i].role === 'tool'; i--) {
+      const message = messages[i] as Extract<LlmMessage, { role: 'tool' }>;
+      results.unshift({ name: message.name, data: parseArguments(message.content) });
+    }
+
+    const lines: string[] = [];
+    for (const { name, data } of results) {
+      if (data.error) {
+        lines.push(`Sorry, I could not check that: ${data.error}`);
+      } else if (name === 'get_availability') {
+        if (!data.quotes?.length) {
+          lines.push(`Sorry, we have no rooms available from ${data.checkIn} to ${data.checkOut}.`);
+        } else {
+          lines.push(`From ${data.checkIn} to ${data.checkOut} (${data.nights} night${data.nights === 1 ? '' : 's'}):`);
+          for (const quote of data.quotes) {
+            lines.push(`- ${quote.roomTypeName}: ${quote.total.toFixed(2)} ${data.currency} total`);
+          }
+        }
+      } else if (name === 'get_room_types') {
+        lines.push(`Our rooms: ${(data.roomTypes || []).map((room: any) => `${room.name} (up to ${room.capacity} guests)`).join(', ')}.`);
+      } else if (name === 'get_rates') {
+        lines.push(`Our rates: ${(data.rates || []).map((rate: any) => `${rate.name} from ${rate.price} ${rate.currency}`).join(', ')}.`);
+      }
+    }
+    return lines.join('\n');
+  }
+}
+
+interface LlmProviderSpec {
+  // Environment variable holding the API key (none for local providers)
+  apiKeyEnv?: string;
+  build(apiKey: string): LlmProvider;
+}
+
+// ai_providers.slug -> plug-in
+const LLM_PROVIDERS: Record<string, LlmProviderSpec> = {
+  chatgpt: { apiKeyEnv: 'OPENAI_API_KEY', build: key => new OpenAiProvider(key) },
+  claude: { apiKeyEnv: 'ANTHROPIC_API_KEY', build: key => new AnthropicProvider(key) },
+  'claude-sonnet': { apiKeyEnv: 'ANTHROPIC_API_KEY', build: key => new AnthropicProvider(key) },
+  gemini: { apiKeyEnv: 'GEMINI_API_KEY', build: key => new GeminiProvider(key) },
+  mock: { build: () => new MockLlmProvider() }
+};
+
+/**
+ * Plug a provider in for an ai_providers slug (replaces any existing one)
+ */
+export function registerLlmProvider(slug: string, spec: LlmProviderSpec): void {
+  LLM_PROVIDERS[slug] = spec;
+}
+
+export function hasLlmProvider(slug: string): boolean {
+  return Object.prototype.hasOwnProperty.call(LLM_PROVIDERS, slug);
+}
+
+/**
+ * Build the plug-in of a provider slug (400 when there is none, 503 when its key is not configured)
+ */
+export function createLlmProvider(slug: string): LlmProvider {
+  if (!hasLlmProvider(slug)) {
+    throw new ServiceError(`No LLM plug-in for provider: ${slug}`, 400);
+  }
+
+  const spec = LLM_PROVIDERS[slug];
+  const apiKey = spec.apiKeyEnv ? process.env[spec.apiKeyEnv] : '';
+  if (spec.apiKeyEnv && !apiKey) {
+    throw new ServiceError(`${spec.apiKeyEnv} not configured`, 503);
+  }
+  return spec.build(apiKey || '');
+}
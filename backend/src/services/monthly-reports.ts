@@ -0,0 +1,351 @@
+/**
+ * Monthly Reports Service
+ *
+ * Fills monthly_reports (one row per hotel and month) from:
+ * - daily_stats: revenue, direct/OTA split, occupancy, ADR, RevPAR and AI usage
+ *   (the month is re-materialized first so late bookings are included)
+ * - bookings: arrivals
+ * - the ROI engine: commission saved, EYWA fee and ROI (roi-engine.ts)
+ *
+ * Reading never computes anything: reports are generated by the monthly job or
+ * on demand (generateMonthlyReport), and stored once their month has ended.
+ *
+ * Rendering to PDF / CSV lives in report-export.ts.
+ */
+
+import { query } from '../utils/db.js';
+import { round } from '../utils/numbers.js';
+import { ServiceError } from '../utils/errors.js';
+import * as dailyStats from './daily-stats.js';
+import * as roiEngine from './roi-engine.js';
+import { dateOffset } from '../utils/dates.js';
+
+export interface MonthlyReport {
+  hotelId: string;
+  hotelName: string;
+  currency: string;
+  yearMonth: string; // YYYY-MM
+  totalRevenue: number;
+  directRevenue: number;
+  otaRevenue: number;
+  totalBookings: number;
+  directBookings: number;
+  otaBookings: number;
+  avgOccupancy: number | null;
+  avgAdr: number | null;
+  avgRevpar: number | null;
+  aiSessions: number;
+  aiConversions: number;
+  aiTotalCost: number;
+  eywaFee: number;
+  commissionSaved: number; // vs the same direct revenue booked through OTAs
+  netProfitBoost: number;
+  roiPercentage: number;
+  generatedAt: Date;
+}
+
+// Sums over the hotels of one currency; occupancy, ADR and RevPAR are hotel averages
+export interface PortfolioTotals extends Omit<MonthlyReport, 'hotelId' | 'hotelName' | 'yearMonth' | 'generatedAt'> {
+  hotelCount: number;
+}
+
+export interface PortfolioReport {
+  yearMonth: string;
+  hotels: MonthlyReport[];
+  totals: PortfolioTotals[]; // one entry per currency, amounts are never converted
+  missingHotelIds: string[]; // hotels without a stored report for the month
+}
+
+export interface MonthlyReportsJobResult {
+  yearMonth: string;
+  hotelsTotal: number;
+  hotelsSuccess: number;
+  hotelsFailed: number;
+  duration: number; // ms
+  errors: Array<{ hotelId: string; error: string }>;
+}
+
+const YEAR_MONTH_PATTERN = /^(\d{4})-(0[1-9]|1[0-2])$/;
+
+/**
+ * First and last date of a YYYY-MM month (rejects months that have not started)
+ */
+export function monthRange(yearMonth: string): { startDate: string; endDate: string } {
+  const match = YEAR_MONTH_PATTERN.exec(yearMonth || '');
+  if (!match) {
+    throw new ServiceError(`Invalid month: ${yearMonth} (expected YYYY-MM)`, 400);
+  }
+
+  const startDate = `${yearMonth}-01`;
+  if (startDate > dateOffset(0)) {
+    throw new ServiceError(`Month ${yearMonth} has not started yet`, 400);
+  }
+
+  const lastDay = new Date(Date.UTC(Number(match[1]), Number(match[2]), 0)).getUTCDate();
+  return { startDate, endDate: `${yearMonth}-${String(lastDay).padStart(2, '0')}` };
+}
+
+/**
+ * Whether the month's last day is behind us (its figures can no longer change)
+ */
+export function isMonthComplete(yearMonth: string): boolean {
+  return monthRange(yearMonth).endDate < dateOffset(0);
+}
+
+/**
+ * Month before the given date, as YYYY-MM
+ */
+export function previousMonth(from: Date = new Date()): string {
+  const date = new Date(Date.UTC(from.getUTCFullYear(), from.getUTCMonth() - 1, 1));
+  return date.toISOString().slice(0, 7);
+}
+
+function toReport(row: any): MonthlyReport {
+  const toNumber = (value: any) => (value === null || value === undefined ? null : Number(value));
+  return {
+    hotelId: row.hotel_id,
+    hotelName: row.hotel_name,
+    currency: row.currency || 'EUR',
+    yearMonth: row.year_month,
+    totalRevenue: Number(row.total_revenue) || 0,
+    directRevenue: Number(row.direct_revenue) || 0,
+    otaRevenue: Number(row.ota_revenue) || 0,
+    totalBookings: Number(row.total_bookings) || 0,
+    directBookings: Number(row.direct_bookings) || 0,
+    otaBookings: Number(row.ota_bookings) || 0,
+    avgOccupancy: toNumber(row.avg_occupancy),
+    avgAdr: toNumber(row.avg_adr),
+    avgRevpar: toNumber(row.avg_revpar),
+    aiSessions: Number(row.ai_sessions) || 0,
+    aiConversions: Number(row.ai_conversions) || 0,
+    aiTotalCost: Number(row.ai_total_cost) || 0,
+    eywaFee: Number(row.eywa_fee) || 0,
+    commissionSaved: Number(row.commission_saved) || 0,
+    netProfitBoost: Number(row.net_profit_boost) || 0,
+    roiPercentage: Number(row.roi_percentage) || 0,
+    generatedAt: row.generated_at
+  };
+}
+
+/**
+ * Compute the hotel's report for a month (stored only when the month has ended)
+ */
+export async function generateMonthlyReport(hotelId: string, yearMonth: string): Promise<MonthlyReport> {
+  const { startDate, endDate } = monthRange(yearMonth);
+
+  const hotel = await query(
+    'SELECT name, currency FROM hotels WHERE id = $1',
+    [hotelId]
+  );
+  if (hotel.rows.length === 0) {
+    throw new ServiceError(`Hotel not found: ${hotelId}`, 404);
+  }
+
+  const days = await dailyStats.materializeDailyStats(hotelId, startDate, endDate);
+  const month = dailyStats.summarizeDailyStats(days);
+
+  const arrivals = await query(
+    `SELECT COUNT(*) AS total_bookings
+     FROM bookings
+     WHERE hotel_id = $1 AND check_in BETWEEN $2 AND $3
+       AND booking_status NOT IN ('cancelled', 'no_show')`,
+    [hotelId, startDate, endDate]
+  );
+  const totalBookings = parseInt(arrivals.rows[0].total_bookings);
+
+  const roi = await roiEngine.calculateRoi(hotelId, startDate, endDate);
+  const { commissionSaved, netGain: netProfitBoost, roiPercentage } = roi;
+  const eywaFee = roi.licenceCost;
+
+  const report: MonthlyReport = {
+    hotelId,
+    hotelName: hotel.rows[0].name,
+    currency: hotel.rows[0].currency || 'EUR',
+    yearMonth,
+    totalRevenue: month.totalRevenue,
+    directRevenue: month.directRevenue,
+    otaRevenue: month.otaRevenue,
+    totalBookings,
+    directBookings: month.directBookings,
+    otaBookings: month.otaBookings,
+    avgOccupancy: month.occupancyRate,
+    avgAdr: month.adr,
+    avgRevpar: month.revpar,
+    aiSessions: month.aiInteractions,
+    aiConversions: month.aiConversions,
+    aiTotalCost: round(month.aiCost),
+    eywaFee,
+    commissionSaved,
+    netProfitBoost,
+    roiPercentage,
+    generatedAt: new Date()
+  };
+  if (!isMonthComplete(yearMonth)) {
+    return report;
+  }
+
+  const result = await query(
+    `INSERT INTO monthly_reports (
+       hotel_id, year_month, total_revenue, direct_revenue, ota_revenue,
+       total_bookings, direct_bookings, ota_bookings, avg_occupancy, avg_adr, avg_revpar,
+       ai_sessions, ai_conversions, ai_total_cost, eywa_fee, commission_saved, net_profit_boost, roi_percentage
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18)
+     ON CONFLICT (hotel_id, year_month) DO UPDATE SET
+       total_revenue = EXCLUDED.total_revenue,
+       direct_revenue = EXCLUDED.direct_revenue,
+       ota_revenue = EXCLUDED.ota_revenue,
+       total_bookings = EXCLUDED.total_bookings,
+       direct_bookings = EXCLUDED.direct_bookings,
+       ota_bookings = EXCLUDED.ota_bookings,
+       avg_occupancy = EXCLUDED.avg_occupancy,
+       avg_adr = EXCLUDED.avg_adr,
+       avg_revpar = EXCLUDED.avg_revpar,
+       ai_sessions = EXCLUDED.ai_sessions,
+       ai_conversions = EXCLUDED.ai_conversions,
+       ai_total_cost = EXCLUDED.ai_total_cost,
+       eywa_fee = EXCLUDED.eywa_fee,
+       commission_saved = EXCLUDED.commission_saved,
+       net_profit_boost = EXCLUDED.net_profit_boost,
+       roi_percentage = EXCLUDED.roi_percentage,
+       generated_at = NOW()
+     RETURNING generated_at`,
+    [
+      hotelId, yearMonth, month.totalRevenue, month.directRevenue, month.otaRevenue,
+      totalBookings, month.directBookings, month.otaBookings,
+      month.occupancyRate, month.adr, month.revpar,
+      month.aiInteractions, month.aiConversions, round(month.aiCost), eywaFee,
+      commissionSaved, netProfitBoost, roiPercentage
+    ]
+  );
+
+  return { ...report, generatedAt: result.rows[0].generated_at };
+}
+
+/**
+ * Stored report, null when it has not been generated (the running month is never stored)
+ */
+export async function getMonthlyReport(hotelId: string, yearMonth: string): Promise<MonthlyReport | null> {
+  if (!isMonthComplete(yearMonth)) {
+    return null;
+  }
+
+  const stored = await query(
+    `SELECT mr.*, h.name AS hotel_name, h.currency
+     FROM monthly_reports mr
+     JOIN hotels h ON h.id = mr.hotel_id
+     WHERE mr.hotel_id = $1 AND mr.year_month = $2`,
+    [hotelId, yearMonth]
+  );
+  return stored.rows.length > 0 ? toReport(stored.rows[0]) : null;
+}
+
+async function portfolioHotelIds(hotelIds?: string[]): Promise<string[]> {
+  return hotelIds?.length
+    ? hotelIds
+    : (await query('SELECT id FROM hotels WHERE is_active = true ORDER BY name')).rows.map(row => row.id);
+}
+
+/**
+ * Stored reports of several hotels with portfolio totals per currency
+ * (default: every active hotel)
+ */
+export async function getPortfolioReport(yearMonth: string, hotelIds?: string[]): Promise<PortfolioReport> {
+  monthRange(yearMonth);
+
+  const hotels: MonthlyReport[] = [];
+  const missingHotelIds: string[] = [];
+  for (const hotelId of await portfolioHotelIds(hotelIds)) {
+    const report = await getMonthlyReport(hotelId, yearMonth);
+    if (report) hotels.push(report);
+    else missingHotelIds.push(hotelId);
+  }
+
+  return { yearMonth, hotels, totals: portfolioTotals(hotels), missingHotelIds };
+}
+
+/**
+ * Generate the reports of several hotels (default: every active hotel) and total them
+ */
+export async function generatePortfolioReport(yearMonth: string, hotelIds?: string[]): Promise<PortfolioReport> {
+  monthRange(yearMonth);
+
+  const hotels: MonthlyReport[] = [];
+  for (const hotelId of await portfolioHotelIds(hotelIds)) {
+    hotels.push(await generateMonthlyReport(hotelId, yearMonth));
+  }
+
+  return { yearMonth, hotels, totals: portfolioTotals(hotels), missingHotelIds: [] };
+}
+
+function portfolioTotals(hotels: MonthlyReport[]): PortfolioTotals[] {
+  const byCurrency = new Map<string, MonthlyReport[]>();
+  for (const report of hotels) {
+    byCurrency.set(report.currency, [...(byCurrency.get(report.currency) || []), report]);
+  }
+
+  return [...byCurrency.keys()].sort().map(currency => currencyTotals(currency, byCurrency.get(currency)!));
+}
+
+function currencyTotals(currency: string, hotels: MonthlyReport[]): PortfolioTotals {
+  const sum = (pick: (report: MonthlyReport) => number) => round(hotels.reduce((total, r) => total + pick(r), 0));
+  const average = (pick: (report: MonthlyReport) => number | null) => {
+    const values = hotels.map(pick).filter((value): value is number => value !== null);
+    return values.length > 0 ? round(values.reduce((a, b) => a + b, 0) / values.length) : null;
+  };
+
+  const eywaFee = sum(r => r.eywaFee);
+  const aiTotalCost = sum(r => r.aiTotalCost);
+  const netProfitBoost = sum(r => r.netProfitBoost);
+  const eywaCost = eywaFee + aiTotalCost;
+
+  return {
+    currency,
+    hotelCount: hotels.length,
+    totalRevenue: sum(r => r.totalRevenue),
+    directRevenue: sum(r => r.directRevenue),
+    otaRevenue: sum(r => r.otaRevenue),
+    totalBookings: sum(r => r.totalBookings),
+    directBookings: sum(r => r.directBookings),
+    otaBookings: sum(r => r.otaBookings),
+    avgOccupancy: average(r => r.avgOccupancy),
+    avgAdr: average(r => r.avgAdr),
+    avgRevpar: average(r => r.avgRevpar),
+    aiSessions: sum(r => r.aiSessions),
+    aiConversions: sum(r => r.aiConversions),
+    aiTotalCost,
+    eywaFee,
+    commissionSaved: sum(r => r.commissionSaved),
+    netProfitBoost,
+    roiPercentage: eywaCost > 0 ? round(netProfitBoost / eywaCost * 100) : 0
+  };
+}
+
+/**
+ * Generate the month's reports for every active hotel (default: last month).
+ * One hotel failing does not stop the others.
+ */
+export async function runMonthlyReportsJob(yearMonth: string = previousMonth()): Promise<MonthlyReportsJobResult> {
+  const startTime = Date.now();
+  monthRange(yearMonth);
+
+  const hotels = await query('SELECT id FROM hotels WHERE is_active = true ORDER BY created_at');
+  const errors: MonthlyReportsJobResult['errors'] = [];
+
+  for (const { id: hotelId } of hotels.rows) {
+    try {
+      await generateMonthlyReport(hotelId, yearMonth);
+    } catch (error: any) {
+      errors.push({ hotelId, error: error.message || 'Unknown error' });
+    }
+  }
+
+  return {
+    yearMonth,
+    hotelsTotal: hotels.rows.length,
+    hotelsSuccess: hotels.rows.length - errors.length,
+    hotelsFailed: errors.length,
+    duration: Date.now() - startTime,
+    errors
+  };
+}
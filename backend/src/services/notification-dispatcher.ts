@@ -0,0 +1,591 @@
+/**
+ * Notification Dispatcher
+ *
+ * Delivers notifications to users over email, Telegram and webhooks
+ * (notification-transports.ts), following each user's preferences:
+ * - enabled channels and their addresses (email only, to the account address,
+ *   when the user has no preferences)
+ * - minimum severity (notifications without one count as low)
+ * - quiet hours in the user's timezone: deliveries wait for the end of the
+ *   window, except high severity ones
+ *
+ * Every delivery is logged in notification_deliveries. Failed retryable
+ * deliveries are tried again with exponential backoff (1, 4, 16, 64 minutes)
+ * by the retry job, and given up after MAX_DELIVERY_ATTEMPTS. Channels the
+ * server is not configured for (no SMTP_HOST, no TELEGRAM_BOT_TOKEN) are logged
+ * as skipped.
+ */
+
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+import type { AlertSeverity } from './alert-rules.js';
+import {
+  getNotificationTransport,
+  NotificationChannel,
+  NotificationMessage,
+  NotificationRecipient,
+  NOTIFICATION_CHANNELS,
+  TransportError,
+} from './notification-transports.js';
+
+export type DeliveryStatus = 'pending' | 'sent' | 'failed' | 'skipped';
+
+export interface NotificationPreferences {
+  userId: string;
+  accountEmail: string;
+  emailEnabled: boolean;
+  email: string | null; // null: the account email
+  telegramEnabled: boolean;
+  telegramChatId: string | null;
+  webhookEnabled: boolean;
+  webhookUrl: string | null;
+  hasWebhookSecret: boolean; // the secret itself is never returned
+  minSeverity: AlertSeverity;
+  quietHoursStart: string | null; // HH:MM
+  quietHoursEnd: string | null; // HH:MM
+  timezone: string;
+}
+
+export interface NotificationPreferencesInput {
+  emailEnabled?: boolean;
+  email?: string | null;
+  telegramEnabled?: boolean;
+  telegramChatId?: string | null;
+  webhookEnabled?: boolean;
+  webhookUrl?: string | null;
+  webhookSecret?: string | null; // null or '' clears it
+  minSeverity?: AlertSeverity;
+  quietHoursStart?: string | null;
+  quietHoursEnd?: string | null;
+  timezone?: string;
+}
+
+export interface Delivery {
+  id: string;
+  notificationId: string;
+  title: string;
+  userId: string | null;
+  userEmail: string | null;
+  channel: NotificationChannel;
+  recipient: string;
+  status: DeliveryStatus;
+  attempts: number;
+  nextAttemptAt: Date | null;
+  lastError: string | null;
+  externalId: string | null;
+  sentAt: Date | null;
+  createdAt: Date;
+}
+
+export interface DispatchResult {
+  notificationId: string;
+  deliveries: number; // new deliveries (one per user and channel)
+  sent: number;
+  pending: number; // retrying or waiting for the end of quiet hours
+  failed: number;
+  skipped: number;
+}
+
+export interface DeliveryJobResult {
+  deliveriesTotal: number;
+  sent: number;
+  pending: number;
+  failed: number;
+  skipped: number;
+  duration: number; // ms
+}
+
+export interface TestDeliveryResult {
+  channel: NotificationChannel;
+  recipient: string;
+  status: 'sent' | 'failed' | 'skipped';
+  error?: string;
+}
+
+export const MAX_DELIVERY_ATTEMPTS = 5;
+export const DELIVERY_STATUSES: DeliveryStatus[] = ['pending', 'sent', 'failed', 'skipped'];
+
+const RETRY_BASE_MINUTES = 1;
+const RETRY_FACTOR = 4;
+// deliveries being attempted are pushed this far ahead, so a concurrent retry job leaves them alone
+const LEASE_MINUTES = 10;
+const RETRY_BATCH_SIZE = 100;
+
+const SEVERITY_RANK: Record<AlertSeverity, number> = { low: 0, medium: 1, high: 2 };
+const SEVERITIES = Object.keys(SEVERITY_RANK) as AlertSeverity[];
+
+const DEFAULT_PREFERENCES = {
+  emailEnabled: true,
+  email: null,
+  telegramEnabled: false,
+  telegramChatId: null,
+  webhookEnabled: false,
+  webhookUrl: null,
+  hasWebhookSecret: false,
+  minSeverity: 'medium' as AlertSeverity,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC',
+};
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+const TELEGRAM_CHAT_PATTERN = /^(-?\d{1,20}|@\w{5,32})$/;
+
+const DELIVERY_SELECT = `SELECT d.id, d.notification_id, d.user_id, d.channel, d.recipient, d.status, d.attempts,
+    d.next_attempt_at, d.last_error, d.external_id, d.sent_at, d.created_at,
+    n.hotel_id, n.title, n.message, n.severity, n.category, n.data, n.created_at AS notification_created_at,
+    h.name AS hotel_name, p.webhook_secret
+  FROM notification_deliveries d
+  JOIN notifications n ON n.id = d.notification_id
+  LEFT JOIN hotels h ON h.id = n.hotel_id
+  LEFT JOIN user_notification_preferences p ON p.user_id = d.user_id`;
+
+/**
+ * Minutes to wait before the next attempt, after `attempts` failed ones
+ */
+export function retryDelayMinutes(attempts: number): number {
+  return RETRY_BASE_MINUTES * Math.pow(RETRY_FACTOR, Math.max(attempts - 1, 0));
+}
+
+function parseTime(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + minutes;
+}
+
+// Minutes since local midnight in a timezone
+function localMinutes(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-GB', { timeZone, hour: '2-digit', minute: '2-digit', hourCycle: 'h23' })
+    .formatToParts(date);
+  const part = (type: string) => parseInt(parts.find(p => p.type === type)?.value || '0');
+  return part('hour') * 60 + part('minute');
+}
+
+function isValidTimezone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-GB', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * End of the quiet hours `now` falls in, null outside of them.
+ * The window may span midnight (22:00 - 07:00).
+ */
+export function quietHoursEnd(
+  preferences: Pick<NotificationPreferences, 'quietHoursStart' | 'quietHoursEnd' | 'timezone'>,
+  now = new Date()
+): Date | null {
+  if (!preferences.quietHoursStart || !preferences.quietHoursEnd) return null;
+  const start = parseTime(preferences.quietHoursStart);
+  const end = parseTime(preferences.quietHoursEnd);
+  if (start === end) return null;
+
+  const current = localMinutes(now, preferences.timezone);
+  const quiet = start < end ? current >= start && current < end : current >= start || current < end;
+  if (!quiet) return null;
+
+  const minutesLeft = (end - current + 24 * 60) % (24 * 60);
+  const startOfMinute = now.getTime() - (now.getTime() % 60000);
+  return new Date(startOfMinute + minutesLeft * 60000);
+}
+
+function toPreferences(row: any): NotificationPreferences {
+  // no preferences row: every p.* column is null
+  if (row.user_id === null || row.user_id === undefined) {
+    return { userId: row.account_id, accountEmail: row.account_email, ...DEFAULT_PREFERENCES };
+  }
+  return {
+    userId: row.account_id,
+    accountEmail: row.account_email,
+    emailEnabled: row.email_enabled,
+    email: row.email,
+    telegramEnabled: row.telegram_enabled,
+    telegramChatId: row.telegram_chat_id,
+    webhookEnabled: row.webhook_enabled,
+    webhookUrl: row.webhook_url,
+    hasWebhookSecret: !!row.webhook_secret,
+    minSeverity: row.min_severity,
+    quietHoursStart: row.quiet_hours_start,
+    quietHoursEnd: row.quiet_hours_end,
+    timezone: row.timezone,
+  };
+}
+
+function toDelivery(row: any): Delivery {
+  return {
+    id: row.id,
+    notificationId: row.notification_id,
+    title: row.title,
+    userId: row.user_id,
+    userEmail: row.user_email ?? null,
+    channel: row.channel,
+    recipient: row.recipient,
+    status: row.status,
+    attempts: row.attempts,
+    nextAttemptAt: row.status === 'pending' ? row.next_attempt_at : null,
+    lastError: row.last_error,
+    externalId: row.external_id,
+    sentAt: row.sent_at,
+    createdAt: row.created_at,
+  };
+}
+
+function toMessage(row: any): NotificationMessage {
+  return {
+    notificationId: row.notification_id,
+    hotelId: row.hotel_id,
+    hotelName: row.hotel_name,
+    title: row.title,
+    message: row.message,
+    severity: row.severity,
+    category: row.category,
+    data: row.data,
+    createdAt: row.notification_created_at,
+  };
+}
+
+// Enabled channels of a user and where they go
+function channelsOf(preferences: NotificationPreferences): Array<{ channel: NotificationChannel; address: string }> {
+  const channels: Array<{ channel: NotificationChannel; address: string }> = [];
+  if (preferences.emailEnabled) {
+    channels.push({ channel: 'email', address: preferences.email || preferences.accountEmail });
+  }
+  if (preferences.telegramEnabled && preferences.telegramChatId) {
+    channels.push({ channel: 'telegram', address: preferences.telegramChatId });
+  }
+  if (preferences.webhookEnabled && preferences.webhookUrl) {
+    channels.push({ channel: 'webhook', address: preferences.webhookUrl });
+  }
+  return channels;
+}
+
+const PREFERENCES_SELECT = `SELECT u.id AS account_id, u.email AS account_email, p.*
+  FROM users u
+  LEFT JOIN user_notification_preferences p ON p.user_id = u.id`;
+
+export async function getPreferences(userId: string): Promise<NotificationPreferences> {
+  const result = await query(`${PREFERENCES_SELECT} WHERE u.id = $1`, [userId]);
+  if (result.rows.length === 0) {
+    throw new ServiceError(`User not found: ${userId}`, 404);
+  }
+  return toPreferences(result.rows[0]);
+}
+
+function optionalString(value: any, field: string): string | null {
+  if (value === null || value === '') return null;
+  if (typeof value !== 'string') {
+    throw new ServiceError(`${field} must be a string or null`, 400);
+  }
+  return value.trim() || null;
+}
+
+/**
+ * Change a user's preferences; fields left out keep their value
+ */
+export async function updatePreferences(userId: string, changes: NotificationPreferencesInput): Promise<NotificationPreferences> {
+  const current = await getPreferences(userId);
+  const merged = { ...current };
+
+  for (const field of ['emailEnabled', 'telegramEnabled', 'webhookEnabled'] as const) {
+    if (changes[field] === undefined) continue;
+    if (typeof changes[field] !== 'boolean') {
+      throw new ServiceError(`${field} must be a boolean`, 400);
+    }
+    merged[field] = changes[field]!;
+  }
+  for (const field of ['email', 'telegramChatId', 'webhookUrl', 'quietHoursStart', 'quietHoursEnd'] as const) {
+    if (changes[field] !== undefined) merged[field] = optionalString(changes[field], field);
+  }
+  if (changes.minSeverity !== undefined) merged.minSeverity = changes.minSeverity;
+  if (changes.timezone !== undefined) merged.timezone = changes.timezone;
+
+  if (merged.email !== null && (!EMAIL_PATTERN.test(merged.email) || merged.email.length > 255)) {
+    throw new ServiceError('email must be a valid email address', 400);
+  }
+  if (merged.telegramChatId !== null && !TELEGRAM_CHAT_PATTERN.test(merged.telegramChatId)) {
+    throw new ServiceError('telegramChatId must be a numeric chat id or an @channel name', 400);
+  }
+  if (merged.webhookUrl !== null) {
+    let url: URL | null = null;
+    try {
+      url = new URL(merged.webhookUrl);
+    } catch {
+      // reported below
+    }
+    if (!url || !['http:', 'https:'].includes(url.protocol)) {
+      throw new ServiceError('webhookUrl must be an http(s) URL', 400);
+    }
+    // A new URL must resolve to a public address (see WebhookTransport)
+    if (changes.webhookUrl !== undefined) {
+      try {
+        await getNotificationTransport('webhook')?.validateAddress?.(merged.webhookUrl);
+      } catch (error: any) {
+        throw new ServiceError(`webhookUrl is not allowed: ${error.message}`, 400);
+      }
+    }
+  }
+  if (merged.telegramEnabled && !merged.telegramChatId) {
+    throw new ServiceError('telegramChatId is required to enable Telegram notifications', 400);
+  }
+  if (merged.webhookEnabled && !merged.webhookUrl) {
+    throw new ServiceError('webhookUrl is required to enable webhook notifications', 400);
+  }
+  if (!SEVERITIES.includes(merged.minSeverity)) {
+    throw new ServiceError(`minSeverity must be one of: ${SEVERITIES.join(', ')}`, 400);
+  }
+  if ((merged.quietHoursStart === null) !== (merged.quietHoursEnd === null)) {
+    throw new ServiceError('quietHoursStart and quietHoursEnd must be set together', 400);
+  }
+  for (const time of [merged.quietHoursStart, merged.quietHoursEnd]) {
+    if (time !== null && !TIME_PATTERN.test(time)) {
+      throw new ServiceError('quiet hours must be HH:MM times', 400);
+    }
+  }
+  if (typeof merged.timezone !== 'string' || !isValidTimezone(merged.timezone)) {
+    throw new ServiceError(`Unknown timezone: ${merged.timezone}`, 400);
+  }
+
+  let secret: string | null | undefined;
+  if (changes.webhookSecret !== undefined) {
+    secret = optionalString(changes.webhookSecret, 'webhookSecret');
+    if (secret !== null && secret.length > 255) {
+      throw new ServiceError('webhookSecret must be at most 255 characters', 400);
+    }
+  }
+
+  await query(
+    `INSERT INTO user_notification_preferences (user_id, email_enabled, email, telegram_enabled, telegram_chat_id,
+       webhook_enabled, webhook_url, webhook_secret, min_severity, quiet_hours_start, quiet_hours_end, timezone)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12)
+     ON CONFLICT (user_id) DO UPDATE SET
+       email_enabled = EXCLUDED.email_enabled, email = EXCLUDED.email,
+       telegram_enabled = EXCLUDED.telegram_enabled, telegram_chat_id = EXCLUDED.telegram_chat_id,
+       webhook_enabled = EXCLUDED.webhook_enabled, webhook_url = EXCLUDED.webhook_url,
+       webhook_secret = ${secret === undefined ? 'user_notification_preferences.webhook_secret' : 'EXCLUDED.webhook_secret'},
+       min_severity = EXCLUDED.min_severity, quiet_hours_start = EXCLUDED.quiet_hours_start,
+       quiet_hours_end = EXCLUDED.quiet_hours_end, timezone = EXCLUDED.timezone, updated_at = NOW()`,
+    [
+      userId, merged.emailEnabled, merged.email, merged.telegramEnabled, merged.telegramChatId,
+      merged.webhookEnabled, merged.webhookUrl, secret ?? null, merged.minSeverity,
+      merged.quietHoursStart, merged.quietHoursEnd, merged.timezone,
+    ]
+  );
+
+  return {
+    ...merged,
+    hasWebhookSecret: secret === undefined ? current.hasWebhookSecret : secret !== null,
+  };
+}
+
+// Attempt one delivery (a DELIVERY_SELECT row) and record the outcome
+async function attemptDelivery(row: any): Promise<DeliveryStatus> {
+  const transport = getNotificationTransport(row.channel);
+  if (!transport) {
+    await query(
+      `UPDATE notification_deliveries SET status = 'skipped', last_error = $2, updated_at = NOW() WHERE id = $1`,
+      [row.id, `${row.channel} transport is not configured`]
+    );
+    return 'skipped';
+  }
+
+  const attempts = row.attempts + 1;
+  try {
+    const recipient: NotificationRecipient = { address: row.recipient, secret: row.webhook_secret };
+    const { externalId } = await transport.send(recipient, toMessage(row));
+    await query(
+      `UPDATE notification_deliveries
+       SET status = 'sent', attempts = $2, external_id = $3, last_error = NULL, sent_at = NOW(), updated_at = NOW()
+       WHERE id = $1`,
+      [row.id, attempts, externalId]
+    );
+    return 'sent';
+  } catch (error: any) {
+    const retryable = !(error instanceof TransportError) || error.retryable;
+    if (retryable && attempts < MAX_DELIVERY_ATTEMPTS) {
+      await query(
+        `UPDATE notification_deliveries
+         SET attempts = $2, last_error = $3, next_attempt_at = NOW() + make_interval(mins => $4), updated_at = NOW()
+         WHERE id = $1`,
+        [row.id, attempts, error.message, retryDelayMinutes(attempts)]
+      );
+      return 'pending';
+    }
+    await query(
+      `UPDATE notification_deliveries SET status = 'failed', attempts = $2, last_error = $3, updated_at = NOW() WHERE id = $1`,
+      [row.id, attempts, error.message]
+    );
+    return 'failed';
+  }
+}
+
+async function attemptDeliveries(ids: string[]): Promise<Record<DeliveryStatus, number>> {
+  const counts: Record<DeliveryStatus, number> = { pending: 0, sent: 0, failed: 0, skipped: 0 };
+  if (ids.length === 0) return counts;
+
+  const result = await query(`${DELIVERY_SELECT} WHERE d.id = ANY($1) ORDER BY d.created_at`, [ids]);
+  for (const row of result.rows) {
+    counts[await attemptDelivery(row)]++;
+  }
+  return counts;
+}
+
+/**
+ * Deliver a notification to its user (or every active user of its hotel),
+ * on the channels each of them enabled. Safe to call twice: a user gets
+ * one delivery per channel.
+ */
+export async function dispatchNotification(notificationId: string, now = new Date()): Promise<DispatchResult> {
+  const notificationResult = await query(
+    'SELECT id, hotel_id, user_id, severity FROM notifications WHERE id = $1',
+    [notificationId]
+  );
+  const notification = notificationResult.rows[0];
+  if (!notification) {
+    throw new ServiceError(`Notification not found: ${notificationId}`, 404);
+  }
+
+  const usersResult = notification.user_id
+    ? await query(`${PREFERENCES_SELECT} WHERE u.id = $1 AND u.is_active = true`, [notification.user_id])
+    : await query(`${PREFERENCES_SELECT} WHERE u.hotel_id = $1 AND u.is_active = true`, [notification.hotel_id]);
+
+  const severity: AlertSeverity = notification.severity || 'low';
+  const due: string[] = [];
+  let postponed = 0;
+
+  for (const row of usersResult.rows) {
+    const preferences = toPreferences(row);
+    if (SEVERITY_RANK[severity] < SEVERITY_RANK[preferences.minSeverity]) continue;
+    const resumeAt = severity === 'high' ? null : quietHoursEnd(preferences, now);
+
+    for (const { channel, address } of channelsOf(preferences)) {
+      const inserted = await query(
+        `INSERT INTO notification_deliveries (notification_id, user_id, channel, recipient, next_attempt_at)
+         VALUES ($1, $2, $3, $4, COALESCE($5::timestamptz, NOW() + make_interval(mins => $6)))
+         ON CONFLICT (notification_id, user_id, channel) DO NOTHING
+         RETURNING id`,
+        [notificationId, preferences.userId, channel, address, resumeAt, LEASE_MINUTES]
+      );
+      if (inserted.rows.length === 0) continue;
+      if (resumeAt) postponed++;
+      else due.push(inserted.rows[0].id);
+    }
+  }
+
+  const counts = await attemptDeliveries(due);
+  return {
+    notificationId,
+    deliveries: due.length + postponed,
+    sent: counts.sent,
+    pending: counts.pending + postponed,
+    failed: counts.failed,
+    skipped: counts.skipped,
+  };
+}
+
+/**
+ * Attempt the pending deliveries that are due (retries and the end of quiet hours)
+ */
+export async function runDeliveryRetries(): Promise<DeliveryJobResult> {
+  const startTime = Date.now();
+  const claimed = await query(
+    `UPDATE notification_deliveries
+     SET next_attempt_at = NOW() + make_interval(mins => $2), updated_at = NOW()
+     WHERE id IN (
+       SELECT id FROM notification_deliveries
+       WHERE status = 'pending' AND next_attempt_at <= NOW()
+       ORDER BY next_attempt_at
+       LIMIT $1
+       FOR UPDATE SKIP LOCKED
+     )
+     RETURNING id`,
+    [RETRY_BATCH_SIZE, LEASE_MINUTES]
+  );
+
+  const counts = await attemptDeliveries(claimed.rows.map((row: any) => row.id));
+  return {
+    deliveriesTotal: claimed.rows.length,
+    ...counts,
+    duration: Date.now() - startTime,
+  };
+}
+
+/**
+ * Send a test message on the user's enabled channels (or one of them), without logging it
+ */
+export async function sendTestNotification(userId: string, channel?: NotificationChannel): Promise<TestDeliveryResult[]> {
+  if (channel !== undefined && !NOTIFICATION_CHANNELS.includes(channel)) {
+    throw new ServiceError(`channel must be one of: ${NOTIFICATION_CHANNELS.join(', ')}`, 400);
+  }
+
+  const preferences = await getPreferences(userId);
+  const targets = channelsOf(preferences).filter(target => !channel || target.channel === channel);
+  if (targets.length === 0) {
+    throw new ServiceError(channel ? `The ${channel} channel is not enabled` : 'No notification channel is enabled', 400);
+  }
+
+  const secretResult = preferences.hasWebhookSecret
+    ? await query('SELECT webhook_secret FROM user_notification_preferences WHERE user_id = $1', [userId])
+    : null;
+  const message: NotificationMessage = {
+    notificationId: null,
+    hotelId: null,
+    hotelName: null,
+    title: 'Test notification',
+    message: 'Notifications from Eywa reach you on this channel.',
+    severity: null,
+    category: 'system',
+    data: null,
+    createdAt: new Date(),
+  };
+
+  const results: TestDeliveryResult[] = [];
+  for (const target of targets) {
+    const transport = getNotificationTransport(target.channel);
+    if (!transport) {
+      results.push({ channel: target.channel, recipient: target.address, status: 'skipped', error: `${target.channel} transport is not configured` });
+      continue;
+    }
+    try {
+      await transport.send({ address: target.address, secret: secretResult?.rows[0]?.webhook_secret }, message);
+      results.push({ channel: target.channel, recipient: target.address, status: 'sent' });
+    } catch (error: any) {
+      results.push({ channel: target.channel, recipient: target.address, status: 'failed', error: error.message });
+    }
+  }
+  return results;
+}
+
+/**
+ * Delivery log of a hotel's notifications, newest first
+ */
+export async function listDeliveries(
+  hotelId: string,
+  options: { status?: DeliveryStatus; limit?: number } = {}
+): Promise<Delivery[]> {
+  if (options.status !== undefined && !DELIVERY_STATUSES.includes(options.status)) {
+    throw new ServiceError(`status must be one of: ${DELIVERY_STATUSES.join(', ')}`, 400);
+  }
+
+  const params: any[] = [hotelId, options.limit ?? 50];
+  let where = 'n.hotel_id = $1';
+  if (options.status) {
+    params.push(options.status);
+    where += ` AND d.status = $${params.length}`;
+  }
+
+  const result = await query(
+    `SELECT d.id, d.notification_id, n.title, d.user_id, u.email AS user_email, d.channel, d.recipient, d.status,
+       d.attempts, d.next_attempt_at, d.last_error, d.external_id, d.sent_at, d.created_at
+     FROM notification_deliveries d
+     JOIN notifications n ON n.id = d.notification_id
+     LEFT JOIN users u ON u.id = d.user_id
+     WHERE ${where}
+     ORDER BY d.created_at DESC
+     LIMIT $2`,
+    params
+  );
+  return result.rows.map(toDelivery);
+}
@@ -0,0 +1,329 @@
+/**
+ * Notification Transports
+ *
+ * One transport per delivery channel:
+ * - email: SMTP submission (smtp-client.ts), configured with SMTP_*
+ * - telegram: Bot API sendMessage, with TELEGRAM_BOT_TOKEN
+ * - webhook: JSON POST with a Slack-compatible `text` field, signed with the
+ *   recipient's secret (X-Eywa-Signature: sha256=HMAC(timestamp.body)). The
+ *   host is resolved first and the request goes to the resolved address, which
+ *   must be public (no private, loopback or link-local targets); redirects are
+ *   not followed and the response body is never read back to the caller
+ *
+ * Transports built from the environment can be replaced with
+ * registerNotificationTransport (tests plug local fakes in this way).
+ */
+
+import crypto from 'crypto';
+import dns from 'dns';
+import http from 'http';
+import https from 'https';
+import net from 'net';
+import { sendMail, SmtpConfig, SmtpError } from './smtp-client.js';
+
+export type NotificationChannel = 'email' | 'telegram' | 'webhook';
+
+export const NOTIFICATION_CHANNELS: NotificationChannel[] = ['email', 'telegram', 'webhook'];
+
+export interface NotificationMessage {
+  notificationId: string | null;
+  hotelId: string | null;
+  hotelName: string | null;
+  title: string;
+  message: string | null;
+  severity: 'low' | 'medium' | 'high' | null;
+  category: string | null;
+  data: Record<string, any> | null;
+  createdAt: Date;
+}
+
+export interface NotificationRecipient {
+  address: string; // email address, Telegram chat id or webhook URL
+  secret?: string | null; // webhook signing secret
+}
+
+export interface TransportResult {
+  externalId: string | null; // id of the message on the channel, when it has one
+}
+
+export interface NotificationTransport {
+  send(recipient: NotificationRecipient, message: NotificationMessage): Promise<TransportResult>;
+  // Rejects addresses the transport refuses to deliver to (checked when they are saved)
+  validateAddress?(address: string): Promise<void>;
+}
+
+// Hostname -> the addresses it resolves to
+export type HostResolver = (hostname: string) => Promise<string[]>;
+
+/**
+ * Delivery failure; retryable ones (network errors, rate limits, 5xx) are tried again later
+ */
+export class TransportError extends Error {
+  constructor(message: string, public readonly retryable: boolean) {
+    super(message);
+    this.name = 'TransportError';
+  }
+}
+
+const TELEGRAM_API_URL = 'https://api.telegram.org';
+const HTTP_TIMEOUT_MS = 10000;
+
+/**
+ * Subject line of a notification ("[Hotel Lumen] Eywa Score dropped by 0.50 points")
+ */
+export function formatSubject(message: NotificationMessage): string {
+  return message.hotelName ? `[${message.hotelName}] ${message.title}` : message.title;
+}
+
+/**
+ * Plain-text body shared by the channels
+ */
+export function formatText(message: NotificationMessage): string {
+  const lines = [`${message.severity ? `${message.severity.toUpperCase()} - ` : ''}${formatSubject(message)}`];
+  if (message.message) lines.push('', message.message);
+  return lines.join('\n');
+}
+
+function isRetryableStatus(status: number): boolean {
+  return status === 408 || status === 429 || status >= 500;
+}
+
+// Targets a webhook may not reach: private, loopback, link-local, shared,
+// benchmarking, multicast and reserved ranges
+const BLOCKED_ADDRESSES = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16], ['172.16.0.0', 12],
+  ['192.0.0.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15], ['224.0.0.0', 4], ['240.0.0.0', 4],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+for (const [network, prefix] of [
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8],
+] as const) {
+  BLOCKED_ADDRESSES.addSubnet(network, prefix, 'ipv6');
+}
+
+/**
+ * Whether an IP address is reachable from the internet (IPv4-mapped IPv6
+ * addresses are judged by their IPv4 part)
+ */
+export function isPublicAddress(address: string): boolean {
+  const mapped = /^::ffff:(\d+\.\d+\.\d+\.\d+)$/i.exec(address);
+  const ip = mapped ? mapped[1] : address;
+  const family = net.isIP(ip);
+  if (family === 0) return false;
+  return !BLOCKED_ADDRESSES.check(ip, family === 4 ? 'ipv4' : 'ipv6');
+}
+
+const resolveHost: HostResolver = async hostname =>
+  (await dns.promises.lookup(hostname, { all: true, verbatim: true })).map(entry => entry.address);
+
+export class SmtpTransport implements NotificationTransport {
+  constructor(private readonly config: SmtpConfig) {}
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<TransportResult> {
+    try {
+      const messageId = await sendMail(this.config, {
+        to: recipient.address,
+        subject: formatSubject(message),
+        text: formatText(message),
+      });
+      return { externalId: messageId };
+    } catch (error: any) {
+      throw new TransportError(error.message, error instanceof SmtpError ? error.transient : true);
+    }
+  }
+}
+
+export class TelegramTransport implements NotificationTransport {
+  constructor(private readonly token: string, private readonly apiUrl = TELEGRAM_API_URL) {}
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<TransportResult> {
+    let response: Response;
+    try {
+      response = await fetch(`${this.apiUrl}/bot${this.token}/sendMessage`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chat_id: recipient.address, text: formatText(message), disable_web_page_preview: true }),
+        signal: AbortSignal.timeout(HTTP_TIMEOUT_MS),
+      });
+    } catch (error: any) {
+      throw new TransportError(`Telegram API unreachable: ${error.message}`, true);
+    }
+
+    const body: any = await response.json().catch(() => ({}));
+    if (!response.ok || body.ok === false) {
+      throw new TransportError(`Telegram API error: ${response.status} ${body.description || ''}`.trim(), isRetryableStatus(response.status));
+    }
+    return { externalId: body.result?.message_id !== undefined ? String(body.result.message_id) : null };
+  }
+}
+
+export interface WebhookTransportOptions {
+  resolve?: HostResolver;
+  allowPrivateAddresses?: boolean; // local development and tests only
+}
+
+export class WebhookTransport implements NotificationTransport {
+  private readonly resolve: HostResolver;
+  private readonly allowPrivateAddresses: boolean;
+
+  constructor(options: WebhookTransportOptions = {}) {
+    this.resolve = options.resolve || resolveHost;
+    this.allowPrivateAddresses = options.allowPrivateAddresses ?? false;
+  }
+
+  async validateAddress(address: string): Promise<void> {
+    await this.target(address);
+  }
+
+  async send(recipient: NotificationRecipient, message: NotificationMessage): Promise<TransportResult> {
+    const { url, address } = await this.target(recipient.address);
+    const body = JSON.stringify({
+      text: formatText(message), // shown by Slack, Mattermost, Discord (/slack), ...
+      notification: {
+        id: message.notificationId,
+        hotelId: message.hotelId,
+        hotelName: message.hotelName,
+        title: message.title,
+        message: message.message,
+        severity: message.severity,
+        category: message.category,
+        data: message.data,
+        createdAt: message.createdAt,
+      },
+    });
+    const headers: Record<string, string> = {
+      'Content-Type': 'application/json',
+      'User-Agent': 'Eywa-Notifications/1.0',
+    };
+    if (recipient.secret) {
+      const timestamp = Math.floor(Date.now() / 1000).toString();
+      const signature = crypto.createHmac('sha256', recipient.secret).update(`${timestamp}.${body}`).digest('hex');
+      headers['X-Eywa-Timestamp'] = timestamp;
+      headers['X-Eywa-Signature'] = `sha256=${signature}`;
+    }
+
+    let status: number;
+    try {
+      status = await postTo(url, address, headers, body);
+    } catch (error: any) {
+      throw new TransportError(`Webhook unreachable: ${error.message}`, true);
+    }
+
+    if (status < 200 || status >= 300) {
+      throw new TransportError(`Webhook error: ${status}`, isRetryableStatus(status));
+    }
+    return { externalId: null };
+  }
+
+  // Parsed URL and the public address to connect to (the first one the host resolves to)
+  private async target(address: string): Promise<{ url: URL; address: string }> {
+    let url: URL;
+    try {
+      url = new URL(address);
+    } catch {
+      throw new TransportError('Webhook URL is invalid', false);
+    }
+    if (!['http:', 'https:'].includes(url.protocol)) {
+      throw new TransportError('Webhook URL must be http(s)', false);
+    }
+
+    const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+    let addresses: string[];
+    try {
+      addresses = await this.resolve(hostname);
+    } catch (error: any) {
+      throw new TransportError(`Webhook host ${hostname} does not resolve: ${error.code || error.message}`, true);
+    }
+    if (addresses.length === 0) {
+      throw new TransportError(`Webhook host ${hostname} does not resolve`, true);
+    }
+    // Every address is checked: the HTTP client must not be able to pick a private one
+    if (!this.allowPrivateAddresses && !addresses.every(isPublicAddress)) {
+      throw new TransportError(`Webhook host ${hostname} resolves to a private or reserved address`, false);
+    }
+    return { url, address: addresses[0] };
+  }
+}
+
+// POSTs to an already resolved address (keeping the URL's host for the Host
+// header and TLS), without following redirects; resolves with the status code
+function postTo(url: URL, address: string, headers: Record<string, string>, body: string): Promise<number> {
+  const secure = url.protocol === 'https:';
+  const hostname = url.hostname.replace(/^\[(.*)\]$/, '$1');
+  return new Promise((resolve, reject) => {
+    const request = (secure ? https : http).request(
+      {
+        host: address,
+        port: url.port || (secure ? 443 : 80),
+        path: `${url.pathname}${url.search}`,
+        method: 'POST',
+        headers: { ...headers, Host: url.host, 'Content-Length': String(Buffer.byteLength(body)) },
+        servername: secure && net.isIP(hostname) === 0 ? hostname : undefined,
+        timeout: HTTP_TIMEOUT_MS,
+      },
+      response => {
+        response.resume(); // the body is discarded
+        response.on('end', () => resolve(response.statusCode || 0));
+        response.on('error', reject);
+      }
+    );
+    request.on('timeout', () => request.destroy(new Error(`no response within ${HTTP_TIMEOUT_MS} ms`)));
+    request.on('error', reject);
+    request.end(body);
+  });
+}
+
+/**
+ * SMTP settings from SMTP_HOST, SMTP_PORT, SMTP_SECURE, SMTP_USER, SMTP_PASSWORD,
+ * SMTP_REQUIRE_TLS and SMTP_FROM; null when SMTP_HOST is not set
+ */
+export function smtpConfigFromEnv(env: NodeJS.ProcessEnv = process.env): SmtpConfig | null {
+  if (!env.SMTP_HOST) return null;
+  const secure = env.SMTP_SECURE === 'true';
+  return {
+    host: env.SMTP_HOST,
+    port: parseInt(env.SMTP_PORT || '') || (secure ? 465 : 587),
+    secure,
+    user: env.SMTP_USER || undefined,
+    password: env.SMTP_PASSWORD || undefined,
+    requireTls: env.SMTP_REQUIRE_TLS ? env.SMTP_REQUIRE_TLS === 'true' : undefined,
+    from: env.SMTP_FROM || 'Eywa <notifications@eywa.local>',
+  };
+}
+
+// channel -> transport replacing the one built from the environment
+const NOTIFICATION_TRANSPORTS: Partial<Record<NotificationChannel, NotificationTransport>> = {};
+
+/**
+ * Plug a transport in for a channel (replaces any existing one)
+ */
+export function registerNotificationTransport(channel: NotificationChannel, transport: NotificationTransport): void {
+  NOTIFICATION_TRANSPORTS[channel] = transport;
+}
+
+export function unregisterNotificationTransport(channel: NotificationChannel): void {
+  delete NOTIFICATION_TRANSPORTS[channel];
+}
+
+/**
+ * Transport of a channel, null when the server is not configured for it
+ */
+export function getNotificationTransport(channel: NotificationChannel): NotificationTransport | null {
+  const registered = NOTIFICATION_TRANSPORTS[channel];
+  if (registered) return registered;
+
+  switch (channel) {
+    case 'email': {
+      const config = smtpConfigFromEnv();
+      return config ? new SmtpTransport(config) : null;
+    }
+    case 'telegram':
+      return process.env.TELEGRAM_BOT_TOKEN ? new TelegramTransport(process.env.TELEGRAM_BOT_TOKEN) : null;
+    case 'webhook':
+      return new WebhookTransport();
+    default:
+      return null;
+  }
+}
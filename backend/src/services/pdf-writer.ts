@@ -0,0 +1,156 @@
+/**
+ * PDF Writer
+ *
+ * Minimal PDF 1.4 generator for reports: A4 pages with text in the built-in
+ * Helvetica fonts, filled rectangles and lines. Runs entirely in-process (no
+ * rendering service, no native dependency).
+ *
+ * Coordinates are in points from the top-left corner of the page; they are
+ * flipped to PDF's bottom-left origin when the page is written.
+ */
+
+export const PAGE_WIDTH = 595; // A4
+export const PAGE_HEIGHT = 842;
+
+export type RGB = [number, number, number]; // 0-255
+
+export interface TextOptions {
+  size?: number;
+  bold?: boolean;
+  color?: RGB;
+  align?: 'left' | 'right' | 'center';
+}
+
+// Helvetica advance widths (1/1000 em) for characters common in reports;
+// other characters use the average lowercase width
+const HELVETICA_WIDTHS: Record<string, number> = {
+  ' ': 278, '.': 278, ',': 278, ':': 278, '-': 333, '%': 889, '/': 278, '(': 333, ')': 333,
+  '0': 556, '1': 556, '2': 556, '3': 556, '4': 556, '5': 556, '6': 556, '7': 556, '8': 556, '9': 556,
+  'I': 278, 'i': 222, 'l': 222, 'j': 222, 'f': 278, 't': 278, 'r': 333, 'm': 833, 'w': 722,
+  'M': 833, 'W': 944
+};
+const DEFAULT_WIDTH = 556;
+const BOLD_FACTOR = 1.05;
+
+/**
+ * Map text to WinAnsi (the built-in fonts' encoding): accents outside
+ * Latin-1 are stripped ("ş" -> "s"), anything else becomes "?"
+ */
+export function toWinAnsi(text: string): string {
+  let out = '';
+  for (const char of text) {
+    if (char === '€') {
+      out += '\x80';
+    } else if (char.charCodeAt(0) <= 0xff) {
+      out += char;
+    } else if (char === 'ı') {
+      out += 'i';
+    } else {
+      const base = char.normalize('NFD').replace(/[\u0300-\u036f]/g, '');
+      out += base.length === 1 && base.charCodeAt(0) <= 0xff ? base : '?';
+    }
+  }
+  return out;
+}
+
+function escapeText(text: string): string {
+  return toWinAnsi(text).replace(/[\\()]/g, match => `\\${match}`).replace(/[\r\n]+/g, ' ');
+}
+
+function colorOperands(color: RGB): string {
+  return color.map(c => (c / 255).toFixed(3)).join(' ');
+}
+
+/**
+ * Approximate rendered width of a string in points
+ */
+export function textWidth(text: string, size: number, bold = false): number {
+  let units = 0;
+  for (const char of text) {
+    units += HELVETICA_WIDTHS[char] ?? DEFAULT_WIDTH;
+  }
+  return (units / 1000) * size * (bold ? BOLD_FACTOR : 1);
+}
+
+export class PdfDocument {
+  private pages: string[][] = [];
+
+  constructor(private readonly title = 'Report') {
+    this.addPage();
+  }
+
+  get pageCount(): number {
+    return this.pages.length;
+  }
+
+  addPage(): void {
+    this.pages.push([]);
+  }
+
+  private get current(): string[] {
+    return this.pages[this.pages.length - 1];
+  }
+
+  text(x: number, y: number, value: string, options: TextOptions = {}): void {
+    const size = options.size ?? 10;
+    const width = textWidth(value, size, options.bold);
+    const left = options.align === 'right' ? x - width : options.align === 'center' ? x - width / 2 : x;
+
+    this.current.push(
+      `BT /${options.bold ? 'F2' : 'F1'} ${size} Tf ${colorOperands(options.color ?? [0, 0, 0])} rg ` +
+      `${left.toFixed(2)} ${(PAGE_HEIGHT - y).toFixed(2)} Td (${escapeText(value)}) Tj ET`
+    );
+  }
+
+  rect(x: number, y: number, width: number, height: number, fill: RGB): void {
+    this.current.push(
+      `${colorOperands(fill)} rg ${x.toFixed(2)} ${(PAGE_HEIGHT - y - height).toFixed(2)} ` +
+      `${width.toFixed(2)} ${height.toFixed(2)} re f`
+    );
+  }
+
+  line(x1: number, y1: number, x2: number, y2: number, color: RGB = [200, 200, 200], width = 0.5): void {
+    this.current.push(
+      `${colorOperands(color)} RG ${width} w ${x1.toFixed(2)} ${(PAGE_HEIGHT - y1).toFixed(2)} m ` +
+      `${x2.toFixed(2)} ${(PAGE_HEIGHT - y2).toFixed(2)} l S`
+    );
+  }
+
+  /**
+   * Serialize the document (objects, cross-reference table, trailer)
+   */
+  toBuffer(): Buffer {
+    // 1: catalog, 2: page tree, 3-4: fonts, 5: info, then a page + content stream per page
+    const objects: string[] = [];
+    const pageIds = this.pages.map((_, i) => 6 + i * 2);
+
+    objects.push('<< /Type /Catalog /Pages 2 0 R >>');
+    objects.push(`<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`);
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>');
+    objects.push('<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica-Bold /Encoding /WinAnsiEncoding >>');
+    objects.push(`<< /Title (${escapeText(this.title)}) /Producer (EYWA) >>`);
+
+    this.pages.forEach((operations, i) => {
+      const stream = operations.join('\n');
+      objects.push(
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${PAGE_WIDTH} ${PAGE_HEIGHT}] ` +
+        `/Resources << /Font << /F1 3 0 R /F2 4 0 R >> >> /Contents ${pageIds[i] + 1} 0 R >>`
+      );
+      objects.push(`<< /Length ${Buffer.byteLength(stream, 'latin1')} >>\nstream\n${stream}\nendstream`);
+    });
+
+    let body = '%PDF-1.4\n';
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+      offsets.push(Buffer.byteLength(body, 'latin1'));
+      body += `${i + 1} 0 obj\n${object}\nendobj\n`;
+    });
+
+    const xrefOffset = Buffer.byteLength(body, 'latin1');
+    body += `xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`;
+    body += offsets.map(offset => `${String(offset).padStart(10, '0')} 00000 n \n`).join('');
+    body += `trailer\n<< /Size ${objects.length + 1} /Root 1 0 R /Info 5 0 R >>\nstartxref\n${xrefOffset}\n%%EOF\n`;
+
+    return Buffer.from(body, 'latin1');
+  }
+}
@@ -1,72 +1,118 @@
 // Eywa AI - PMS Router Service
 // Routes requests to the correct PMS adapter based on hotel config
 
-// Types inline to avoid complex imports
-export interface HotelConfiguration {
-  id: string;
-  name: string;
-  timezone: string;
-  currency: string;
-  address?: string;
-}
+import {
+  MewsAdapter,
+  CloudbedsAdapter,
+  ApaleoAdapter,
+  OperaAdapter,
+  ProtelAdapter,
+  GuestlineAdapter,
+  RoomRaccoonAdapter,
+  ClockPMSAdapter,
+  HotelogixAdapter,
+  EzeeAdapter,
+  LittleHotelierAdapter,
+  StayNTouchAdapter,
+  WebRezProAdapter,
+  InforHMSAdapter,
+  HostawayAdapter,
+  Beds24Adapter,
+  GuestyAdapter,
+} from '../../../src/adapters/index';
+import { ElektrawebPMSAdapter } from '../adapters/elektraweb-pms';
+import { HotelRunnerPMSAdapter } from '../adapters/hotelrunner-pms';
+import type { ElektrawebAdapter } from '../adapters/elektraweb';
+import type { HotelRunnerAdapter } from '../adapters/hotelrunner';
+import {
+  canCreateReservations,
+  canModifyReservations,
+  canCancelReservations,
+  canUpdateAri,
+  canLookupReservations,
+  capabilitiesOf,
+  CORE_READS,
+} from '../../../shared/pms-contract';
+import type {
+  IPMSAdapter,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  CreateReservationInput,
+  ModifyReservationInput,
+  AriUpdate,
+  AriDateResult,
+  PMSCapabilities,
+  PMSCapability,
+} from '../../../shared/pms-contract';
+import crypto from 'crypto';
+import { query } from '../utils/db.js';
+import * as vault from './credential-vault.js';
 
-export interface Availability {
-  date: string;
-  roomTypeId: string;
-  available: number;
-  rate: number;
-}
-
-export interface AvailabilityParams {
-  startDate: string;
-  endDate: string;
-  roomTypeId?: string;
-}
+// Adapter contract shared with the frontend adapters
+export type {
+  IPMSAdapter,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  CreateReservationInput,
+  ModifyReservationInput,
+  AriUpdate,
+  AriDateResult,
+  PMSCapabilities,
+  PMSCapability,
+};
 
-export interface Reservation {
-  id: string;
-  guestName: string;
-  roomTypeId: string;
-  checkIn: string;
-  checkOut: string;
-  status: string;
-  totalAmount: number;
-  currency: string;
-}
+// Raised when the hotel's PMS adapter does not declare a capability
+export class UnsupportedCapabilityError extends Error {
+  readonly status = 501;
+  readonly pmsName: string;
+  readonly capability: PMSCapability;
 
-export interface ReservationParams {
-  startDate?: string;
-  endDate?: string;
-  status?: string;
+  constructor(pmsName: string, capability: PMSCapability) {
+    super(`${pmsName} does not support ${capability}`);
+    this.name = 'UnsupportedCapabilityError';
+    this.pmsName = pmsName;
+    this.capability = capability;
+  }
 }
 
-export interface RoomType {
-  id: string;
-  name: string;
-  capacity: number;
-  description?: string;
+// Outcome of an ARI push, one result per room type / rate plan / date
+export interface AriPushResult {
+  results: AriDateResult[];
+  succeeded: number;
+  failed: number;
 }
 
-export interface Rate {
-  id: string;
-  name: string;
-  roomTypeId: string;
-  price: number;
-  currency: string;
-}
+// Raised when an Idempotency-Key is reused for a different request, or while
+// the first request with that key is still in flight
+export class IdempotencyConflictError extends Error {
+  readonly status = 409;
 
-export interface IPMSAdapter {
-  name: string;
-  authenticate(forceRefresh?: boolean): Promise<string>;
-  getConfiguration(): Promise<HotelConfiguration>;
-  getAvailability(params: AvailabilityParams): Promise<Availability[]>;
-  getReservations(params?: ReservationParams): Promise<Reservation[]>;
-  getRoomTypes(): Promise<RoomType[]>;
-  getRates(): Promise<Rate[]>;
+  constructor(message: string) {
+    super(message);
+    this.name = 'IdempotencyConflictError';
+  }
 }
 
-// Stub adapters for now - will connect to real ones when credentials are provided
+// Stub adapter - only used when a connection is explicitly registered with environment 'stub'
 class StubAdapter implements IPMSAdapter {
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   name: string;
   private config: Record<string, string>;
   
@@ -130,55 +176,326 @@ class StubAdapter implements IPMSAdapter {
   }
 }
 
-// PMS Connection stored in DB
+// PMS Connection stored in pms_connections
 export interface PMSConnection {
   id: string;
   hotelId: string;
   pmsType: PMSType;
   credentials: Record<string, string>;
-  environment: 'sandbox' | 'production';
+  environment: PMSEnvironment;
   isActive: boolean;
   createdAt: Date;
   lastSyncAt?: Date;
+  syncStatus?: 'pending' | 'syncing' | 'synced' | 'error';
+  syncError?: string;
+  reservationsSyncedAt?: Date;
 }
 
+export type NewPMSConnection = Omit<
+  PMSConnection,
+  'id' | 'createdAt' | 'lastSyncAt' | 'syncStatus' | 'syncError' | 'reservationsSyncedAt'
+>;
+
 export type PMSType = 
   | 'mews' | 'cloudbeds' | 'apaleo' | 'opera' 
   | 'protel' | 'guestline' | 'roomraccoon' | 'clockpms'
   | 'hotelogix' | 'ezee' | 'littlehotelier'
   | 'stayntouch' | 'webrezpro' | 'inforhms'
-  | 'hostaway' | 'beds24' | 'guesty';
+  | 'hostaway' | 'beds24' | 'guesty'
+  | 'elektraweb' | 'hotelrunner';
+
+export type PMSEnvironment = 'sandbox' | 'production' | 'stub';
+
+// === Adapter factory ===
+
+// Credentials are accepted as snake_case (Telegram `key=value`) or camelCase (JSON bodies)
+function normalizeCredentials(credentials: Record<string, string>): Record<string, string> {
+  const normalized: Record<string, string> = {};
+  for (const [key, value] of Object.entries(credentials)) {
+    if (value === undefined || value === null || value === '') continue;
+    normalized[key.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toLowerCase()] = String(value);
+  }
+  return normalized;
+}
+
+interface AdapterSpec {
+  // Every key is required
+  required: string[];
+  // At least one group must be fully present (e.g. token OR username/password)
+  oneOf?: string[][];
+  // Credential key holding the PMS-side account that webhook payloads name
+  webhookAccount?: string;
+  build(creds: Record<string, string>, environment: 'sandbox' | 'production'): IPMSAdapter;
+}
+
+// Declares required credential keys and how to build each PMS adapter
+export const ADAPTER_SPECS: Record<PMSType, AdapterSpec> = {
+  mews: {
+    required: ['client_token', 'access_token'],
+    webhookAccount: 'enterprise_id',
+    build: (c, env) => new MewsAdapter({
+      baseUrl: c.base_url || (env === 'production' ? 'https://api.mews.com/api/connector/v1' : undefined),
+      clientToken: c.client_token,
+      accessToken: c.access_token,
+      serviceId: c.service_id
+    })
+  },
+  cloudbeds: {
+    required: [],
+    oneOf: [['access_token'], ['api_key'], ['username', 'password']],
+    webhookAccount: 'property_id',
+    build: c => new CloudbedsAdapter({
+      baseUrl: c.base_url,
+      accessToken: c.access_token,
+      apiKey: c.api_key,
+      username: c.username,
+      password: c.password,
+      propertyId: c.property_id
+    })
+  },
+  apaleo: {
+    required: ['client_id', 'client_secret'],
+    webhookAccount: 'property_id',
+    build: c => new ApaleoAdapter({
+      clientId: c.client_id,
+      clientSecret: c.client_secret,
+      baseUrl: c.base_url,
+      scope: c.scope,
+      propertyId: c.property_id
+    })
+  },
+  opera: {
+    required: ['client_id', 'client_secret', 'enterprise_id', 'hotel_id'],
+    build: (c, env) => new OperaAdapter({
+      clientId: c.client_id,
+      clientSecret: c.client_secret,
+      enterpriseId: c.enterprise_id,
+      hotelId: c.hotel_id,
+      environment: env,
+      baseUrl: c.base_url
+    })
+  },
+  protel: {
+    required: ['api_key', 'hotel_code'],
+    build: (c, env) => new ProtelAdapter({ apiKey: c.api_key, hotelCode: c.hotel_code, baseUrl: c.base_url, environment: env })
+  },
+  guestline: {
+    required: ['api_key', 'site_id'],
+    build: (c, env) => new GuestlineAdapter({ apiKey: c.api_key, siteId: c.site_id, baseUrl: c.base_url, environment: env })
+  },
+  roomraccoon: {
+    required: ['api_key', 'property_id'],
+    build: c => new RoomRaccoonAdapter({ apiKey: c.api_key, propertyId: c.property_id, baseUrl: c.base_url })
+  },
+  clockpms: {
+    required: ['api_key', 'property_id'],
+    build: c => new ClockPMSAdapter({ apiKey: c.api_key, propertyId: c.property_id, baseUrl: c.base_url })
+  },
+  hotelogix: {
+    required: ['api_key', 'hotel_code'],
+    build: c => new HotelogixAdapter({ apiKey: c.api_key, hotelCode: c.hotel_code, baseUrl: c.base_url })
+  },
+  ezee: {
+    required: ['api_key', 'hotel_code'],
+    build: c => new EzeeAdapter({ apiKey: c.api_key, hotelCode: c.hotel_code, baseUrl: c.base_url })
+  },
+  littlehotelier: {
+    required: ['api_key', 'property_id'],
+    build: c => new LittleHotelierAdapter({ apiKey: c.api_key, propertyId: c.property_id, baseUrl: c.base_url })
+  },
+  stayntouch: {
+    required: ['client_id', 'client_secret', 'hotel_id'],
+    build: c => new StayNTouchAdapter({
+      clientId: c.client_id,
+      clientSecret: c.client_secret,
+      hotelId: c.hotel_id,
+      baseUrl: c.base_url
+    })
+  },
+  webrezpro: {
+    required: ['api_key', 'property_code'],
+    build: c => new WebRezProAdapter({ apiKey: c.api_key, propertyCode: c.property_code, baseUrl: c.base_url })
+  },
+  inforhms: {
+    required: ['client_id', 'client_secret', 'tenant_id', 'hotel_id'],
+    build: c => new InforHMSAdapter({
+      clientId: c.client_id,
+      clientSecret: c.client_secret,
+      tenantId: c.tenant_id,
+      hotelId: c.hotel_id,
+      baseUrl: c.base_url
+    })
+  },
+  hostaway: {
+    required: ['client_id', 'client_secret'],
+    webhookAccount: 'account_id',
+    build: c => new HostawayAdapter({
+      clientId: c.client_id,
+      clientSecret: c.client_secret,
+      baseUrl: c.base_url,
+      accountId: c.account_id ? Number(c.account_id) : undefined
+    })
+  },
+  beds24: {
+    required: ['api_key'],
+    build: c => new Beds24Adapter({
+      apiKey: c.api_key,
+      propKey: c.prop_key,
+      baseUrl: c.base_url,
+      propId: c.prop_id ? Number(c.prop_id) : undefined
+    })
+  },
+  guesty: {
+    required: ['client_id', 'client_secret'],
+    webhookAccount: 'account_id',
+    build: c => new GuestyAdapter({
+      clientId: c.client_id,
+      clientSecret: c.client_secret,
+      accountId: c.account_id,
+      baseUrl: c.base_url
+    })
+  },
+  elektraweb: {
+    required: ['api_key', 'hotel_code'],
+    // Lazy require keeps the axios-based client out of the router's import graph
+    build: c => {
+      const { ElektrawebAdapter: Client } = require('../adapters/elektraweb') as {
+        ElektrawebAdapter: new (config: { apiKey: string; hotelCode: string; apiUrl?: string }) => ElektrawebAdapter;
+      };
+      return new ElektrawebPMSAdapter(
+        new Client({ apiKey: c.api_key, hotelCode: c.hotel_code, apiUrl: c.base_url }),
+        c.api_key
+      );
+    }
+  },
+  hotelrunner: {
+    required: ['api_key', 'property_id'],
+    build: c => {
+      const { HotelRunnerAdapter: Client } = require('../adapters/hotelrunner') as {
+        HotelRunnerAdapter: new (config: { apiKey: string; apiUrl?: string }) => HotelRunnerAdapter;
+      };
+      return new HotelRunnerPMSAdapter(
+        new Client({ apiKey: c.api_key, apiUrl: c.base_url }),
+        c.property_id,
+        c.api_key
+      );
+    }
+  },
+};
+
+// Returns the credential keys missing for a PMS (empty when valid)
+export function validateCredentials(pmsType: PMSType, credentials: Record<string, string>): string[] {
+  const spec = ADAPTER_SPECS[pmsType];
+  if (!spec) {
+    throw new Error(`Unsupported PMS type: ${pmsType}`);
+  }
+
+  const creds = normalizeCredentials(credentials);
+  const missing = spec.required.filter(key => !creds[key]);
+
+  if (spec.oneOf && !spec.oneOf.some(group => group.every(key => creds[key]))) {
+    missing.push(spec.oneOf.map(group => group.join('+')).join(' | '));
+  }
+
+  return missing;
+}
 
-// Adapter factory - uses StubAdapter for testing, will integrate real adapters with credentials
-export function createAdapter(pmsType: PMSType, credentials: Record<string, string>): IPMSAdapter {
+// Adapter factory - builds the real adapter for a PMS from stored credentials.
+// The stub adapter is only returned for connections explicitly marked 'stub'.
+export function createAdapter(
+  pmsType: PMSType,
+  credentials: Record<string, string>,
+  environment: PMSEnvironment = 'sandbox'
+): IPMSAdapter {
   const pmsInfo = PMS_LIST.find(p => p.type === pmsType);
-  const name = pmsInfo?.name || pmsType;
-  
-  // For now, return stub adapter - real adapters will be integrated when credentials are available
-  // TODO: Import and use real adapters from ../../../src/adapters/
-  return new StubAdapter(name, credentials);
+  if (!pmsInfo) {
+    throw new Error(`Unsupported PMS type: ${pmsType}`);
+  }
+
+  if (environment === 'stub') {
+    return new StubAdapter(pmsInfo.name, credentials);
+  }
+
+  const missing = validateCredentials(pmsType, credentials);
+  if (missing.length > 0) {
+    throw new Error(`Missing ${pmsInfo.name} credentials: ${missing.join(', ')}`);
+  }
+
+  return ADAPTER_SPECS[pmsType].build(normalizeCredentials(credentials), environment);
+}
+
+// Maps a pms_connections row. Rows created by the dashboard controller only
+// carry client_token/access_token/refresh_token, so fall back to those.
+function mapConnectionRow(row: any): PMSConnection {
+  const legacyCredentials: Record<string, string> = {};
+  for (const key of ['client_token', 'access_token', 'refresh_token']) {
+    const secret = vault.revealSecret(row[key]);
+    if (secret) legacyCredentials[key] = secret;
+  }
+
+  return {
+    id: row.id,
+    hotelId: row.hotel_id,
+    pmsType: row.pms_type as PMSType,
+    credentials: row.credentials ? vault.decryptCredentials(row.credentials) : legacyCredentials,
+    environment: row.environment as PMSEnvironment,
+    isActive: row.is_active,
+    createdAt: row.created_at,
+    lastSyncAt: row.last_sync_at || undefined,
+    syncStatus: row.sync_status,
+    syncError: row.sync_error || undefined,
+    reservationsSyncedAt: row.reservations_synced_at || undefined
+  };
 }
 
+// A pending Idempotency-Key claim older than this is taken over by a retry
+// (its request died before recording an outcome)
+const IDEMPOTENCY_LEASE_MINUTES = 30;
+
 // PMS Router - main service class
+// Connections are persisted in pms_connections and loaded lazily into the caches.
 export class PMSRouter {
   private connections: Map<string, PMSConnection> = new Map();
   private adapterCache: Map<string, IPMSAdapter> = new Map();
 
-  // Register a hotel's PMS connection
-  registerConnection(connection: PMSConnection): void {
-    this.connections.set(connection.hotelId, connection);
+  // Register a hotel's PMS connection (replaces any active one)
+  async registerConnection(connection: NewPMSConnection): Promise<PMSConnection> {
+    await query(
+      'UPDATE pms_connections SET is_active = false, updated_at = NOW() WHERE hotel_id = $1 AND is_active = true',
+      [connection.hotelId]
+    );
+
+    const accountKey = ADAPTER_SPECS[connection.pmsType]?.webhookAccount;
+    const result = await query(
+      `INSERT INTO pms_connections (hotel_id, pms_type, environment, credentials, is_active, sync_status, webhook_account)
+       VALUES ($1, $2, $3, $4, $5, 'pending', $6)
+       RETURNING *`,
+      [
+        connection.hotelId,
+        connection.pmsType,
+        connection.environment,
+        // Stored as a vault envelope (JSON string), never as plaintext
+        JSON.stringify(vault.encryptCredentials(connection.credentials)),
+        connection.isActive,
+        accountKey ? normalizeCredentials(connection.credentials)[accountKey] || null : null
+      ]
+    );
+
+    const stored = mapConnectionRow(result.rows[0]);
+    this.connections.set(stored.hotelId, stored);
     // Clear cached adapter if exists
-    this.adapterCache.delete(connection.hotelId);
+    this.adapterCache.delete(stored.hotelId);
+    return stored;
   }
 
   // Get adapter for a hotel
-  getAdapter(hotelId: string): IPMSAdapter {
+  async getAdapter(hotelId: string): Promise<IPMSAdapter> {
     // Check cache first
     const cached = this.adapterCache.get(hotelId);
     if (cached) return cached;
 
     // Get connection
-    const connection = this.connections.get(hotelId);
+    const connection = await this.getConnection(hotelId);
     if (!connection) {
       throw new Error(`No PMS connection found for hotel: ${hotelId}`);
     }
@@ -188,58 +505,287 @@ export class PMSRouter {
     }
 
     // Create and cache adapter
-    const adapter = createAdapter(connection.pmsType, connection.credentials);
+    const adapter = createAdapter(connection.pmsType, connection.credentials, connection.environment);
     this.adapterCache.set(hotelId, adapter);
     return adapter;
   }
 
-  // Get connection info
-  getConnection(hotelId: string): PMSConnection | undefined {
-    return this.connections.get(hotelId);
+  // Get connection info (active connection only)
+  async getConnection(hotelId: string): Promise<PMSConnection | undefined> {
+    const cached = this.connections.get(hotelId);
+    if (cached) return cached;
+
+    const result = await query(
+      `SELECT * FROM pms_connections
+       WHERE hotel_id = $1 AND is_active = true
+       ORDER BY created_at DESC LIMIT 1`,
+      [hotelId]
+    );
+
+    if (result.rows.length === 0) return undefined;
+
+    const connection = mapConnectionRow(result.rows[0]);
+    this.connections.set(hotelId, connection);
+    return connection;
+  }
+
+  // Active connection a webhook delivery belongs to, matched on the PMS-side account
+  async findWebhookConnection(pmsType: PMSType, account: string): Promise<PMSConnection | undefined> {
+    const result = await query(
+      `SELECT * FROM pms_connections
+       WHERE pms_type = $1 AND webhook_account = $2 AND is_active = true
+       ORDER BY created_at DESC LIMIT 1`,
+      [pmsType, account]
+    );
+
+    return result.rows.length > 0 ? mapConnectionRow(result.rows[0]) : undefined;
+  }
+
+  // List all active connections
+  async listConnections(): Promise<PMSConnection[]> {
+    const result = await query(
+      `SELECT * FROM pms_connections
+       WHERE is_active = true
+       ORDER BY created_at DESC`
+    );
+    return result.rows.map(mapConnectionRow);
   }
 
-  // List all connections
-  listConnections(): PMSConnection[] {
-    return Array.from(this.connections.values());
+  // Remove connection (soft delete)
+  async removeConnection(hotelId: string): Promise<boolean> {
+    this.evict(hotelId);
+    const result = await query(
+      'UPDATE pms_connections SET is_active = false, updated_at = NOW() WHERE hotel_id = $1 AND is_active = true',
+      [hotelId]
+    );
+    return (result.rowCount ?? 0) > 0;
   }
 
-  // Remove connection
-  removeConnection(hotelId: string): boolean {
+  // Drop cached connection/adapter (e.g. after the row was changed elsewhere)
+  evict(hotelId: string): void {
+    this.connections.delete(hotelId);
     this.adapterCache.delete(hotelId);
-    return this.connections.delete(hotelId);
+  }
+
+  // Run an adapter call and record the outcome on the connection row
+  private async track<T>(hotelId: string, call: (adapter: IPMSAdapter) => Promise<T>): Promise<T> {
+    const adapter = await this.getAdapter(hotelId);
+    const connection = this.connections.get(hotelId);
+
+    try {
+      const result = await call(adapter);
+      if (connection) {
+        await query(
+          `UPDATE pms_connections
+           SET last_sync_at = NOW(), sync_status = 'synced', sync_error = NULL, updated_at = NOW()
+           WHERE id = $1`,
+          [connection.id]
+        );
+        connection.lastSyncAt = new Date();
+        connection.syncStatus = 'synced';
+        connection.syncError = undefined;
+      }
+      return result;
+    } catch (error: any) {
+      // A missing capability is a caller error, not a PMS sync failure
+      if (connection && !(error instanceof UnsupportedCapabilityError)) {
+        await query(
+          `UPDATE pms_connections
+           SET sync_status = 'error', sync_error = $2, updated_at = NOW()
+           WHERE id = $1`,
+          [connection.id, error.message || 'Unknown error']
+        );
+        connection.syncStatus = 'error';
+        connection.syncError = error.message;
+      }
+      throw error;
+    }
   }
 
   // === Unified API methods ===
 
   async getConfiguration(hotelId: string): Promise<HotelConfiguration> {
-    const adapter = this.getAdapter(hotelId);
-    return adapter.getConfiguration();
+    return this.track(hotelId, adapter => adapter.getConfiguration());
   }
 
   async getAvailability(hotelId: string, params: AvailabilityParams): Promise<Availability[]> {
-    const adapter = this.getAdapter(hotelId);
-    return adapter.getAvailability(params);
+    return this.track(hotelId, adapter => adapter.getAvailability(params));
   }
 
   async getReservations(hotelId: string, params?: ReservationParams): Promise<Reservation[]> {
-    const adapter = this.getAdapter(hotelId);
-    return adapter.getReservations(params);
+    return this.track(hotelId, adapter => adapter.getReservations(params));
+  }
+
+  // Single reservation (optional capability, used by webhook events)
+  async getReservation(hotelId: string, reservationId: string): Promise<Reservation> {
+    return this.track(hotelId, adapter => {
+      if (!canLookupReservations(adapter)) {
+        throw new UnsupportedCapabilityError(adapter.name, 'reservationLookup');
+      }
+      return adapter.getReservation(reservationId);
+    });
   }
 
   async getRoomTypes(hotelId: string): Promise<RoomType[]> {
-    const adapter = this.getAdapter(hotelId);
-    return adapter.getRoomTypes();
+    return this.track(hotelId, adapter => adapter.getRoomTypes());
   }
 
   async getRates(hotelId: string): Promise<Rate[]> {
-    const adapter = this.getAdapter(hotelId);
-    return adapter.getRates();
+    return this.track(hotelId, adapter => adapter.getRates());
+  }
+
+  // Capability manifest of the hotel's adapter
+  async getCapabilities(hotelId: string): Promise<PMSCapabilities> {
+    const adapter = await this.getAdapter(hotelId);
+    const capabilities = capabilitiesOf(adapter);
+    if (!capabilities) {
+      throw new Error(`${adapter.name} does not declare its capabilities`);
+    }
+    return capabilities;
+  }
+
+  // === Reservation writes (optional capabilities) ===
+  // Every write carries an Idempotency-Key; completed results are stored in
+  // pms_idempotency_keys so retries never create a second booking.
+
+  async createReservation(
+    hotelId: string,
+    input: CreateReservationInput,
+    idempotencyKey: string
+  ): Promise<Reservation> {
+    return this.idempotent(hotelId, idempotencyKey, 'create_reservation', input, () =>
+      this.track(hotelId, adapter => {
+        if (!canCreateReservations(adapter)) {
+          throw new UnsupportedCapabilityError(adapter.name, 'createReservation');
+        }
+        return adapter.createReservation(input, { idempotencyKey });
+      })
+    );
+  }
+
+  async modifyReservation(
+    hotelId: string,
+    reservationId: string,
+    changes: ModifyReservationInput,
+    idempotencyKey: string
+  ): Promise<Reservation> {
+    return this.idempotent(hotelId, idempotencyKey, 'modify_reservation', { reservationId, changes }, () =>
+      this.track(hotelId, adapter => {
+        if (!canModifyReservations(adapter)) {
+          throw new UnsupportedCapabilityError(adapter.name, 'modifyReservation');
+        }
+        return adapter.modifyReservation(reservationId, changes, { idempotencyKey });
+      })
+    );
+  }
+
+  async cancelReservation(
+    hotelId: string,
+    reservationId: string,
+    idempotencyKey: string,
+    reason?: string
+  ): Promise<{ id: string; status: 'cancelled' }> {
+    return this.idempotent(hotelId, idempotencyKey, 'cancel_reservation', { reservationId, reason }, () =>
+      this.track(hotelId, async adapter => {
+        if (!canCancelReservations(adapter)) {
+          throw new UnsupportedCapabilityError(adapter.name, 'cancelReservation');
+        }
+        await adapter.cancelReservation(reservationId, { idempotencyKey, reason });
+        return { id: reservationId, status: 'cancelled' as const };
+      })
+    );
+  }
+
+  // Claim the key, run the write once and store its result for replays.
+  // A failed write releases the key so the client can retry with it; once the
+  // write went through the key is never released, even if storing the result fails.
+  private async idempotent<T>(
+    hotelId: string,
+    idempotencyKey: string,
+    operation: string,
+    payload: unknown,
+    write: () => Promise<T>
+  ): Promise<T> {
+    const requestHash = crypto
+      .createHash('sha256')
+      .update(JSON.stringify({ operation, payload }))
+      .digest('hex');
+
+    const claimed = await query(
+      `INSERT INTO pms_idempotency_keys (hotel_id, idempotency_key, operation, request_hash, status)
+       VALUES ($1, $2, $3, $4, 'pending')
+       ON CONFLICT (hotel_id, idempotency_key) DO UPDATE SET created_at = NOW()
+       WHERE pms_idempotency_keys.status = 'pending'
+         AND pms_idempotency_keys.request_hash = EXCLUDED.request_hash
+         AND pms_idempotency_keys.created_at < NOW() - make_interval(mins => $5)
+       RETURNING id`,
+      [hotelId, idempotencyKey, operation, requestHash, IDEMPOTENCY_LEASE_MINUTES]
+    );
+
+    if (claimed.rows.length === 0) {
+      const existing = await query(
+        `SELECT request_hash, status, response FROM pms_idempotency_keys
+         WHERE hotel_id = $1 AND idempotency_key = $2`,
+        [hotelId, idempotencyKey]
+      );
+      const row = existing.rows[0];
+
+      if (row && row.request_hash !== requestHash) {
+        throw new IdempotencyConflictError(`Idempotency-Key ${idempotencyKey} was already used for a different request`);
+      }
+      if (row && row.status === 'completed') {
+        return row.response as T;
+      }
+      throw new IdempotencyConflictError(`A request with Idempotency-Key ${idempotencyKey} is still in progress`);
+    }
+
+    let result: T;
+    try {
+      result = await write();
+    } catch (error) {
+      await query(
+        'DELETE FROM pms_idempotency_keys WHERE hotel_id = $1 AND idempotency_key = $2',
+        [hotelId, idempotencyKey]
+      );
+      throw error;
+    }
+
+    try {
+      await query(
+        `UPDATE pms_idempotency_keys
+         SET status = 'completed', response = $3, completed_at = NOW()
+         WHERE hotel_id = $1 AND idempotency_key = $2`,
+        [hotelId, idempotencyKey, JSON.stringify(result)]
+      );
+    } catch (error) {
+      // The PMS has the write: keep the claim so a retry cannot write it twice
+      console.error(`Failed to record Idempotency-Key ${idempotencyKey} result:`, error);
+    }
+    return result;
+  }
+
+  // === ARI push (optional capability) ===
+
+  async updateAri(hotelId: string, updates: AriUpdate[]): Promise<AriPushResult> {
+    const results = await this.track(hotelId, adapter => {
+      if (!canUpdateAri(adapter)) {
+        throw new UnsupportedCapabilityError(adapter.name, 'ari');
+      }
+      return adapter.updateAri(updates);
+    });
+
+    const failed = results.filter(result => !result.success).length;
+    return { results, succeeded: results.length - failed, failed };
   }
 
   // Test connection
-  async testConnection(pmsType: PMSType, credentials: Record<string, string>): Promise<{ success: boolean; message: string; data?: HotelConfiguration }> {
+  async testConnection(
+    pmsType: PMSType,
+    credentials: Record<string, string>,
+    environment: PMSEnvironment = 'sandbox'
+  ): Promise<{ success: boolean; message: string; data?: HotelConfiguration }> {
     try {
-      const adapter = createAdapter(pmsType, credentials);
+      const adapter = createAdapter(pmsType, credentials, environment);
       await adapter.authenticate();
       const config = await adapter.getConfiguration();
       return {
@@ -259,23 +805,25 @@ export class PMSRouter {
 // Singleton instance
 export const pmsRouter = new PMSRouter();
 
-// Available PMS list with info
+// Available PMS list with info and capability manifests
 export const PMS_LIST = [
-  { type: 'mews', name: 'Mews', authType: 'token', region: 'Global' },
-  { type: 'cloudbeds', name: 'Cloudbeds', authType: 'oauth2', region: 'Americas' },
-  { type: 'apaleo', name: 'Apaleo', authType: 'oauth2', region: 'Europe' },
-  { type: 'opera', name: 'Opera Cloud', authType: 'oauth2', region: 'Global' },
-  { type: 'protel', name: 'Protel', authType: 'apikey', region: 'Europe' },
-  { type: 'guestline', name: 'Guestline', authType: 'apikey', region: 'UK' },
-  { type: 'roomraccoon', name: 'RoomRaccoon', authType: 'apikey', region: 'Europe' },
-  { type: 'clockpms', name: 'Clock PMS', authType: 'apikey', region: 'Eastern Europe' },
-  { type: 'hotelogix', name: 'Hotelogix', authType: 'apikey', region: 'Asia' },
-  { type: 'ezee', name: 'eZee', authType: 'apikey', region: 'Asia' },
-  { type: 'littlehotelier', name: 'Little Hotelier', authType: 'apikey', region: 'APAC' },
-  { type: 'stayntouch', name: 'StayNTouch', authType: 'oauth2', region: 'US' },
-  { type: 'webrezpro', name: 'WebRezPro', authType: 'apikey', region: 'US' },
-  { type: 'inforhms', name: 'Infor HMS', authType: 'oauth2', region: 'Global' },
-  { type: 'hostaway', name: 'Hostaway', authType: 'oauth2', region: 'Global' },
-  { type: 'beds24', name: 'Beds24', authType: 'apikey', region: 'Global' },
-  { type: 'guesty', name: 'Guesty', authType: 'oauth2', region: 'Global' },
+  { type: 'mews', name: 'Mews', authType: 'token', region: 'Global', capabilities: MewsAdapter.capabilities },
+  { type: 'cloudbeds', name: 'Cloudbeds', authType: 'oauth2', region: 'Americas', capabilities: CloudbedsAdapter.capabilities },
+  { type: 'apaleo', name: 'Apaleo', authType: 'oauth2', region: 'Europe', capabilities: ApaleoAdapter.capabilities },
+  { type: 'opera', name: 'Opera Cloud', authType: 'oauth2', region: 'Global', capabilities: OperaAdapter.capabilities },
+  { type: 'protel', name: 'Protel', authType: 'apikey', region: 'Europe', capabilities: ProtelAdapter.capabilities },
+  { type: 'guestline', name: 'Guestline', authType: 'apikey', region: 'UK', capabilities: GuestlineAdapter.capabilities },
+  { type: 'roomraccoon', name: 'RoomRaccoon', authType: 'apikey', region: 'Europe', capabilities: RoomRaccoonAdapter.capabilities },
+  { type: 'clockpms', name: 'Clock PMS', authType: 'apikey', region: 'Eastern Europe', capabilities: ClockPMSAdapter.capabilities },
+  { type: 'hotelogix', name: 'Hotelogix', authType: 'apikey', region: 'Asia', capabilities: HotelogixAdapter.capabilities },
+  { type: 'ezee', name: 'eZee', authType: 'apikey', region: 'Asia', capabilities: EzeeAdapter.capabilities },
+  { type: 'littlehotelier', name: 'Little Hotelier', authType: 'apikey', region: 'APAC', capabilities: LittleHotelierAdapter.capabilities },
+  { type: 'stayntouch', name: 'StayNTouch', authType: 'oauth2', region: 'US', capabilities: StayNTouchAdapter.capabilities },
+  { type: 'webrezpro', name: 'WebRezPro', authType: 'apikey', region: 'US', capabilities: WebRezProAdapter.capabilities },
+  { type: 'inforhms', name: 'Infor HMS', authType: 'oauth2', region: 'Global', capabilities: InforHMSAdapter.capabilities },
+  { type: 'hostaway', name: 'Hostaway', authType: 'oauth2', region: 'Global', capabilities: HostawayAdapter.capabilities },
+  { type: 'beds24', name: 'Beds24', authType: 'apikey', region: 'Global', capabilities: Beds24Adapter.capabilities },
+  { type: 'guesty', name: 'Guesty', authType: 'oauth2', region: 'Global', capabilities: GuestyAdapter.capabilities },
+  { type: 'elektraweb', name: 'Elektraweb', authType: 'apikey', region: 'Turkey', capabilities: ElektrawebPMSAdapter.capabilities },
+  { type: 'hotelrunner', name: 'HotelRunner', authType: 'apikey', region: 'Turkey', capabilities: HotelRunnerPMSAdapter.capabilities },
 ] as const;
@@ -0,0 +1,385 @@
+/**
+ * PMS Webhook Ingestion
+ *
+ * Receives reservation and rate events pushed by Mews, Apaleo, Cloudbeds,
+ * Guesty and Hostaway:
+ * - Verifies each delivery with the connection's webhook_secret credential
+ * - Normalizes payloads into PMSEvent
+ * - Stores events in the pms_webhook_events inbox (redeliveries of an event
+ *   the PMS identifies by id or time are dropped)
+ * - Applies reservation events to the bookings table one reservation at a time
+ */
+
+import crypto from 'crypto';
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+import { pmsRouter, PMSType } from './pms-router.js';
+import * as bookingStore from './booking-store.js';
+import { ingestReservation } from './reservation-sync.js';
+
+export type PMSEventType =
+  | 'reservation.created'
+  | 'reservation.updated'
+  | 'reservation.cancelled'
+  | 'rates.updated';
+
+export interface PMSEvent {
+  pmsType: PMSType;
+  eventId: string; // dedup key, unique per PMS
+  type: PMSEventType;
+  account: string; // PMS-side property/enterprise/account id
+  reservationId?: string;
+  occurredAt?: string;
+  payload: unknown;
+}
+
+export interface WebhookRequest {
+  headers: Record<string, string | string[] | undefined>;
+  query: Record<string, unknown>;
+  body: any;
+  rawBody: Buffer;
+}
+
+export interface WebhookResult {
+  received: number;
+  duplicates: number;
+  processed: number;
+  failed: number;
+}
+
+interface WebhookReceiver {
+  // PMS-side account named by the payload (matched to pms_connections.webhook_account)
+  account(request: WebhookRequest): string | undefined;
+  verify(request: WebhookRequest, secret: string): boolean;
+  normalize(request: WebhookRequest, account: string): PMSEvent[];
+}
+
+// Svix (Guesty) rejects deliveries signed more than 5 minutes ago
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+const MAX_ATTEMPTS = 5;
+
+function header(request: WebhookRequest, name: string): string | undefined {
+  const value = request.headers[name.toLowerCase()];
+  return Array.isArray(value) ? value[0] : value;
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && crypto.timingSafeEqual(left, right);
+}
+
+// Mews, Apaleo and Cloudbeds do not sign deliveries; the secret is a token in
+// the registered webhook URL (?token=...)
+function verifyUrlToken(request: WebhookRequest, secret: string): boolean {
+  const token = request.query.token;
+  return typeof token === 'string' && safeEqual(token, secret);
+}
+
+// Dedup key of an event: the PMS event/delivery id and the event time it reports,
+// else a hash of the subject and the content the PMS sent, so a redelivery of
+// the same content gets the same key and is dropped by the inbox
+function eventKey(id: string | undefined, occurredAt: string | undefined, subject: string, content: unknown): string {
+  if (id) return occurredAt ? `${id}@${occurredAt}` : id;
+  if (occurredAt) return `${subject}@${occurredAt}`;
+  const hash = crypto.createHash('sha256').update(`${subject}\n${JSON.stringify(content)}`).digest('hex');
+  return `${subject}@sha256:${hash}`;
+}
+
+function optionalString(value: unknown): string | undefined {
+  return value === undefined || value === null || value === '' ? undefined : String(value);
+}
+
+const MEWS_RESERVATION_EVENTS = new Set(['ServiceOrderUpdated', 'ReservationUpdated']);
+
+const APALEO_RESERVATION_TYPES: Record<string, PMSEventType> = {
+  created: 'reservation.created',
+  changed: 'reservation.updated',
+  amended: 'reservation.updated',
+  'checked-in': 'reservation.updated',
+  'checked-out': 'reservation.updated',
+  'set-to-no-show': 'reservation.updated',
+  canceled: 'reservation.cancelled',
+  deleted: 'reservation.cancelled'
+};
+
+const CLOUDBEDS_EVENTS: Record<string, PMSEventType> = {
+  'reservation/created': 'reservation.created',
+  'reservation/status_changed': 'reservation.updated',
+  'reservation/dates_changed': 'reservation.updated',
+  'reservation/accommodation_changed': 'reservation.updated',
+  'reservation/deleted': 'reservation.cancelled'
+};
+
+const GUESTY_EVENTS: Record<string, PMSEventType> = {
+  'reservation.new': 'reservation.created',
+  'reservation.updated': 'reservation.updated',
+  'listing.calendar.updated': 'rates.updated'
+};
+
+const HOSTAWAY_EVENTS: Record<string, PMSEventType> = {
+  'reservation.created': 'reservation.created',
+  'reservation.updated': 'reservation.updated',
+  'calendar.updated': 'rates.updated'
+};
+
+// Per-PMS payload formats and verification schemes
+export const WEBHOOK_RECEIVERS: Partial<Record<PMSType, WebhookReceiver>> = {
+  // { EnterpriseId, Events: [{ Discriminator, Value: { Id } }] }
+  mews: {
+    account: request => optionalString(request.body?.EnterpriseId),
+    verify: verifyUrlToken,
+    normalize: (request, account) =>
+      // Mews events carry no id or time: keyed by the batch they came in
+      (request.body.Events || []).flatMap((event: any): PMSEvent[] =>
+        MEWS_RESERVATION_EVENTS.has(event.Discriminator) && event.Value?.Id
+          ? [{
+              pmsType: 'mews',
+              eventId: eventKey(undefined, undefined, `${event.Discriminator}:${event.Value.Id}`, request.body.Events),
+              type: 'reservation.updated',
+              account,
+              reservationId: String(event.Value.Id),
+              payload: event
+            }]
+          : []
+      )
+  },
+
+  // { id, topic, type, propertyId, data: { entityId }, timestamp }
+  apaleo: {
+    account: request => optionalString(request.body?.propertyId),
+    verify: verifyUrlToken,
+    normalize: (request, account) => {
+      const { id, topic, type, data, timestamp } = request.body;
+      const eventType = topic === 'Reservation'
+        ? APALEO_RESERVATION_TYPES[type]
+        : topic === 'RatePlan' ? 'rates.updated' : undefined;
+      if (!eventType) return [];
+
+      return [{
+        pmsType: 'apaleo',
+        eventId: eventKey(optionalString(id), optionalString(timestamp), `${topic}:${type}:${data?.entityId}`, request.body),
+        type: eventType,
+        account,
+        reservationId: topic === 'Reservation' ? optionalString(data?.entityId) : undefined,
+        occurredAt: optionalString(timestamp),
+        payload: request.body
+      }];
+    }
+  },
+
+  // { event: 'reservation/created', propertyID, reservationID, timestamp }
+  cloudbeds: {
+    account: request => optionalString(request.body?.propertyID ?? request.body?.propertyId),
+    verify: verifyUrlToken,
+    normalize: (request, account) => {
+      const eventType = CLOUDBEDS_EVENTS[request.body.event];
+      if (!eventType) return [];
+      const reservationId = optionalString(request.body.reservationID ?? request.body.reservationId);
+
+      return [{
+        pmsType: 'cloudbeds',
+        eventId: eventKey(undefined, optionalString(request.body.timestamp), `${request.body.event}:${reservationId}`, request.body),
+        type: eventType,
+        account,
+        reservationId,
+        occurredAt: request.body.timestamp ? new Date(Number(request.body.timestamp) * 1000).toISOString() : undefined,
+        payload: request.body
+      }];
+    }
+  },
+
+  // Svix-signed: { event, reservation: { _id, accountId } }
+  guesty: {
+    account: request => optionalString(request.body?.reservation?.accountId ?? request.body?.accountId),
+    verify: (request, secret) => {
+      const id = header(request, 'svix-id');
+      const timestamp = header(request, 'svix-timestamp');
+      const signatures = header(request, 'svix-signature');
+      if (!id || !timestamp || !signatures) return false;
+      if (Math.abs(Date.now() / 1000 - Number(timestamp)) > SIGNATURE_TOLERANCE_SECONDS) return false;
+
+      const key = Buffer.from(secret.replace(/^whsec_/, ''), 'base64');
+      const expected = crypto
+        .createHmac('sha256', key)
+        .update(`${id}.${timestamp}.${request.rawBody.toString('utf8')}`)
+        .digest('base64');
+
+      return signatures.split(' ').some(entry => {
+        const [version, signature] = entry.split(',');
+        return version === 'v1' && signature !== undefined && safeEqual(signature, expected);
+      });
+    },
+    normalize: (request, account) => {
+      const eventType = GUESTY_EVENTS[request.body.event];
+      if (!eventType) return [];
+      const reservation = request.body.reservation;
+
+      return [{
+        pmsType: 'guesty',
+        // svix-id names the message across retries; svix-timestamp changes with every attempt
+        eventId: eventKey(header(request, 'svix-id'), undefined, `${request.body.event}:${reservation?._id ?? reservation?.id}`, request.body),
+        type: eventType === 'reservation.updated' && /^cancel/i.test(reservation?.status || '')
+          ? 'reservation.cancelled'
+          : eventType,
+        account,
+        reservationId: optionalString(reservation?._id ?? reservation?.id),
+        payload: request.body
+      }];
+    }
+  },
+
+  // Basic auth (secret is "login:password"): { event, accountId, data: { id, status } }
+  hostaway: {
+    account: request => optionalString(request.body?.accountId ?? request.body?.data?.accountId),
+    verify: (request, secret) => {
+      const authorization = header(request, 'authorization');
+      return !!authorization && safeEqual(authorization, `Basic ${Buffer.from(secret).toString('base64')}`);
+    },
+    normalize: (request, account) => {
+      const eventType = HOSTAWAY_EVENTS[request.body.event];
+      if (!eventType) return [];
+      const data = request.body.data;
+
+      return [{
+        pmsType: 'hostaway',
+        eventId: eventKey(undefined, optionalString(data?.updatedOn ?? data?.latestActivityOn), `${request.body.event}:${data?.id}`, request.body),
+        type: eventType === 'reservation.updated' && /^cancel/i.test(data?.status || '')
+          ? 'reservation.cancelled'
+          : eventType,
+        account,
+        reservationId: eventType === 'rates.updated' ? undefined : optionalString(data?.id),
+        payload: request.body
+      }];
+    }
+  }
+};
+
+export function supportsWebhooks(pmsType: string): pmsType is PMSType {
+  return pmsType in WEBHOOK_RECEIVERS;
+}
+
+/**
+ * Verify, normalize, store and apply one webhook delivery
+ */
+export async function receiveWebhook(pmsType: PMSType, request: WebhookRequest): Promise<WebhookResult> {
+  const receiver = WEBHOOK_RECEIVERS[pmsType];
+  if (!receiver) {
+    throw new ServiceError(`Webhooks are not supported for ${pmsType}`, 404);
+  }
+
+  const account = receiver.account(request);
+  if (!account) {
+    throw new ServiceError('Webhook payload does not identify the PMS account', 400);
+  }
+
+  const connection = await pmsRouter.findWebhookConnection(pmsType, account);
+  const secret = connection?.credentials.webhook_secret;
+  // Unknown accounts and bad signatures get the same answer
+  if (!connection || !secret || !receiver.verify(request, secret)) {
+    throw new ServiceError('Invalid webhook signature', 401);
+  }
+
+  const events = receiver.normalize(request, account);
+  const result: WebhookResult = { received: events.length, duplicates: 0, processed: 0, failed: 0 };
+
+  for (const event of events) {
+    const inboxId = await storeEvent(connection.hotelId, event);
+    if (!inboxId) {
+      result.duplicates++;
+      continue;
+    }
+
+    if (await processEvent(inboxId, connection.hotelId, event)) {
+      result.processed++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
+
+/**
+ * Insert an event into the inbox; returns undefined when it was already received
+ */
+async function storeEvent(hotelId: string, event: PMSEvent): Promise<string | undefined> {
+  const result = await query(
+    `INSERT INTO pms_webhook_events (pms_type, event_id, hotel_id, event_type, reservation_id, payload)
+     VALUES ($1, $2, $3, $4, $5, $6)
+     ON CONFLICT (pms_type, event_id) DO NOTHING
+     RETURNING id`,
+    [event.pmsType, event.eventId, hotelId, event.type, event.reservationId || null, JSON.stringify(event.payload)]
+  );
+  return result.rows[0]?.id;
+}
+
+/**
+ * Apply an event to bookings and record the outcome on its inbox row
+ */
+async function processEvent(inboxId: string, hotelId: string, event: PMSEvent): Promise<boolean> {
+  try {
+    await applyEvent(hotelId, event);
+    await query(
+      `UPDATE pms_webhook_events
+       SET status = 'processed', attempts = attempts + 1, error = NULL, processed_at = NOW()
+       WHERE id = $1`,
+      [inboxId]
+    );
+    return true;
+  } catch (error: any) {
+    await query(
+      `UPDATE pms_webhook_events
+       SET status = 'failed', attempts = attempts + 1, error = $2
+       WHERE id = $1`,
+      [inboxId, error.message || 'Unknown error']
+    );
+    return false;
+  }
+}
+
+async function applyEvent(hotelId: string, event: PMSEvent): Promise<void> {
+  if (!event.reservationId) return; // rate events are recorded only
+
+  if (event.type === 'reservation.cancelled') {
+    await bookingStore.cancelBooking(hotelId, event.reservationId);
+    return;
+  }
+
+  const reservation = await pmsRouter.getReservation(hotelId, event.reservationId);
+  await ingestReservation(hotelId, event.pmsType, reservation);
+}
+
+/**
+ * Re-apply inbox events that failed (e.g. the PMS was unreachable)
+ */
+export async function retryFailedEvents(limit = 100): Promise<WebhookResult> {
+  const pending = await query(
+    `SELECT * FROM pms_webhook_events
+     WHERE status = 'failed' AND attempts < $1
+     ORDER BY received_at ASC
+     LIMIT $2`,
+    [MAX_ATTEMPTS, limit]
+  );
+
+  const result: WebhookResult = { received: pending.rows.length, duplicates: 0, processed: 0, failed: 0 };
+
+  for (const row of pending.rows) {
+    const event: PMSEvent = {
+      pmsType: row.pms_type,
+      eventId: row.event_id,
+      type: row.event_type,
+      account: '',
+      reservationId: row.reservation_id || undefined,
+      payload: row.payload
+    };
+
+    if (await processEvent(row.id, row.hotel_id, event)) {
+      result.processed++;
+    } else {
+      result.failed++;
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,71 @@
+/**
+ * Review Reply Publishers
+ *
+ * One adapter per review source, posting an approved reply as the hotel's
+ * public answer on that source. Sources without a publisher (neither the
+ * Google Places nor the TripAdvisor Content API accepts replies) keep their
+ * approved replies for posting by hand.
+ *
+ * InMemoryReplyPublisher is a local fake for tests and demos (no network).
+ */
+
+import { ServiceError } from '../utils/errors.js';
+
+export interface ReplyPublishRequest {
+  hotelId: string;
+  source: string;
+  sourceExternalId: string | null; // hotel_review_sources.external_id (place / location id)
+  externalReviewId: string; // hotel_reviews.external_review_id
+  text: string;
+}
+
+export interface ReplyPublishResult {
+  externalReplyId: string | null; // id of the reply on the source, when it has one
+}
+
+export interface ReplyPublisher {
+  publishReply(request: ReplyPublishRequest): Promise<ReplyPublishResult>;
+}
+
+/**
+ * Keeps published replies in memory; failNext makes the next publish fail like a source outage
+ */
+export class InMemoryReplyPublisher implements ReplyPublisher {
+  readonly published: ReplyPublishRequest[] = [];
+  private failure: string | null = null;
+
+  failNext(message: string): void {
+    this.failure = message;
+  }
+
+  async publishReply(request: ReplyPublishRequest): Promise<ReplyPublishResult> {
+    if (this.failure) {
+      const message = this.failure;
+      this.failure = null;
+      throw new ServiceError(message, 502);
+    }
+    this.published.push(request);
+    return { externalReplyId: `reply-${this.published.length}` };
+  }
+}
+
+// hotel_reviews.source -> publisher
+const REPLY_PUBLISHERS: Record<string, ReplyPublisher> = {};
+
+/**
+ * Plug a publisher in for a review source (replaces any existing one)
+ */
+export function registerReplyPublisher(source: string, publisher: ReplyPublisher): void {
+  REPLY_PUBLISHERS[source] = publisher;
+}
+
+export function unregisterReplyPublisher(source: string): void {
+  delete REPLY_PUBLISHERS[source];
+}
+
+/**
+ * Publisher of a source, null when its replies are posted by hand
+ */
+export function getReplyPublisher(source: string): ReplyPublisher | null {
+  return Object.prototype.hasOwnProperty.call(REPLY_PUBLISHERS, source) ? REPLY_PUBLISHERS[source] : null;
+}
@@ -0,0 +1,281 @@
+/**
+ * Report Export
+ *
+ * Renders monthly reports (see monthly-reports.ts) as CSV and as branded PDF
+ * owner reports, per hotel and per portfolio. Everything is rendered
+ * in-process with pdf-writer.ts.
+ */
+
+import { PdfDocument, PAGE_WIDTH, RGB } from './pdf-writer.js';
+import type { MonthlyReport, PortfolioReport } from './monthly-reports.js';
+
+// EYWA brand
+const BRAND_DARK: RGB = [10, 10, 26];
+const BRAND_ACCENT: RGB = [20, 241, 149];
+const TEXT_MUTED: RGB = [110, 110, 125];
+const CARD_FILL: RGB = [243, 244, 248];
+const WHITE: RGB = [255, 255, 255];
+
+const MARGIN = 40;
+const CONTENT_WIDTH = PAGE_WIDTH - MARGIN * 2;
+const PAGE_BOTTOM = 780;
+
+const CSV_COLUMNS: Array<[string, (report: MonthlyReport) => string | number | null]> = [
+  ['hotel', r => r.hotelName],
+  ['year_month', r => r.yearMonth],
+  ['currency', r => r.currency],
+  ['total_revenue', r => r.totalRevenue],
+  ['direct_revenue', r => r.directRevenue],
+  ['ota_revenue', r => r.otaRevenue],
+  ['total_bookings', r => r.totalBookings],
+  ['direct_bookings', r => r.directBookings],
+  ['ota_bookings', r => r.otaBookings],
+  ['avg_occupancy', r => r.avgOccupancy],
+  ['avg_adr', r => r.avgAdr],
+  ['avg_revpar', r => r.avgRevpar],
+  ['ai_sessions', r => r.aiSessions],
+  ['ai_conversions', r => r.aiConversions],
+  ['ai_total_cost', r => r.aiTotalCost],
+  ['eywa_fee', r => r.eywaFee],
+  ['commission_saved', r => r.commissionSaved],
+  ['net_profit_boost', r => r.netProfitBoost],
+  ['roi_percentage', r => r.roiPercentage]
+];
+
+function csvCell(value: string | number | null): string {
+  if (value === null || value === undefined) return '';
+  const text = String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+function csvRow(cells: Array<string | number | null>): string {
+  return cells.map(csvCell).join(',');
+}
+
+/**
+ * One row per hotel report
+ */
+export function monthlyReportCsv(reports: MonthlyReport[]): string {
+  const lines = [csvRow(CSV_COLUMNS.map(([name]) => name))];
+  for (const report of reports) {
+    lines.push(csvRow(CSV_COLUMNS.map(([, pick]) => pick(report))));
+  }
+  return lines.join('\r\n') + '\r\n';
+}
+
+/**
+ * Hotel rows followed by one TOTAL row per currency
+ */
+export function portfolioReportCsv(portfolio: PortfolioReport): string {
+  const totals: MonthlyReport[] = portfolio.totals.map(({ hotelCount, ...total }) => ({
+    ...total,
+    hotelId: '',
+    hotelName: 'TOTAL',
+    yearMonth: portfolio.yearMonth,
+    generatedAt: new Date()
+  }));
+  return monthlyReportCsv([...portfolio.hotels, ...totals]);
+}
+
+function formatNumber(value: number, decimals = 2): string {
+  return value.toLocaleString('en-US', { minimumFractionDigits: decimals, maximumFractionDigits: decimals });
+}
+
+function formatMoney(value: number | null, currency: string): string {
+  if (value === null) return 'n/a';
+  return currency ? `${currency} ${formatNumber(value)}` : formatNumber(value);
+}
+
+function formatPercent(value: number | null): string {
+  return value === null ? 'n/a' : `${formatNumber(value, 1)}%`;
+}
+
+function share(part: number, total: number): number | null {
+  return total > 0 ? (part / total) * 100 : null;
+}
+
+function monthLabel(yearMonth: string): string {
+  const [year, month] = yearMonth.split('-').map(Number);
+  return new Date(Date.UTC(year, month - 1, 1)).toLocaleString('en-US', {
+    month: 'long',
+    year: 'numeric',
+    timeZone: 'UTC'
+  });
+}
+
+function drawHeader(pdf: PdfDocument, subtitle: string, yearMonth: string): void {
+  pdf.rect(0, 0, PAGE_WIDTH, 80, BRAND_DARK);
+  pdf.rect(0, 80, PAGE_WIDTH, 3, BRAND_ACCENT);
+  pdf.text(MARGIN, 42, 'EYWA', { size: 22, bold: true, color: BRAND_ACCENT });
+  pdf.text(MARGIN, 60, subtitle, { size: 10, color: WHITE });
+  pdf.text(PAGE_WIDTH - MARGIN, 48, monthLabel(yearMonth), { size: 14, bold: true, color: WHITE, align: 'right' });
+}
+
+function drawFooter(pdf: PdfDocument, generatedAt: Date): void {
+  pdf.line(MARGIN, 805, PAGE_WIDTH - MARGIN, 805);
+  pdf.text(MARGIN, 820, 'Generated by EYWA - eywa-ai.com', { size: 8, color: TEXT_MUTED });
+  pdf.text(PAGE_WIDTH - MARGIN, 820, new Date(generatedAt).toISOString().slice(0, 10), {
+    size: 8,
+    color: TEXT_MUTED,
+    align: 'right'
+  });
+}
+
+function drawKpiCards(pdf: PdfDocument, y: number, cards: Array<[string, string]>): number {
+  const gap = 10;
+  const width = (CONTENT_WIDTH - gap * (cards.length - 1)) / cards.length;
+  cards.forEach(([label, value], i) => {
+    const x = MARGIN + i * (width + gap);
+    pdf.rect(x, y, width, 56, CARD_FILL);
+    pdf.text(x + 10, y + 20, label, { size: 8, color: TEXT_MUTED });
+    pdf.text(x + 10, y + 42, value, { size: 13, bold: true, color: BRAND_DARK });
+  });
+  return y + 56;
+}
+
+function drawSectionTitle(pdf: PdfDocument, y: number, title: string): number {
+  pdf.text(MARGIN, y, title, { size: 12, bold: true, color: BRAND_DARK });
+  pdf.line(MARGIN, y + 6, PAGE_WIDTH - MARGIN, y + 6, BRAND_ACCENT, 1);
+  return y + 24;
+}
+
+// Columns: x position of the left edge (labels) or right edge (numbers)
+function drawTableRow(
+  pdf: PdfDocument,
+  y: number,
+  cells: string[],
+  columns: number[],
+  options: { bold?: boolean; color?: RGB } = {}
+): number {
+  cells.forEach((cell, i) => {
+    pdf.text(columns[i], y, cell, { size: 9, bold: options.bold, color: options.color, align: i === 0 ? 'left' : 'right' });
+  });
+  pdf.line(MARGIN, y + 6, PAGE_WIDTH - MARGIN, y + 6, [230, 230, 235]);
+  return y + 20;
+}
+
+/**
+ * Owner report for one hotel
+ */
+export function monthlyReportPdf(report: MonthlyReport): Buffer {
+  const pdf = new PdfDocument(`${report.hotelName} - ${report.yearMonth}`);
+  const money = (value: number | null) => formatMoney(value, report.currency);
+
+  drawHeader(pdf, 'Monthly owner report', report.yearMonth);
+  pdf.text(MARGIN, 122, report.hotelName, { size: 18, bold: true, color: BRAND_DARK });
+
+  let y = drawKpiCards(pdf, 142, [
+    ['Revenue', money(report.totalRevenue)],
+    ['Occupancy', formatPercent(report.avgOccupancy)],
+    ['ADR', money(report.avgAdr)],
+    ['RevPAR', money(report.avgRevpar)]
+  ]);
+
+  y = drawSectionTitle(pdf, y + 36, 'Channel mix');
+  const channelColumns = [MARGIN, 330, 440, PAGE_WIDTH - MARGIN];
+  y = drawTableRow(pdf, y, ['Channel', 'Arrivals', 'Revenue', 'Share'], channelColumns, { bold: true, color: TEXT_MUTED });
+  y = drawTableRow(pdf, y, [
+    'Direct', String(report.directBookings), money(report.directRevenue),
+    formatPercent(share(report.directRevenue, report.totalRevenue))
+  ], channelColumns);
+  y = drawTableRow(pdf, y, [
+    'OTA', String(report.otaBookings), money(report.otaRevenue),
+    formatPercent(share(report.otaRevenue, report.totalRevenue))
+  ], channelColumns);
+  y = drawTableRow(pdf, y, ['Total', String(report.totalBookings), money(report.totalRevenue), ''], channelColumns, {
+    bold: true
+  });
+
+  y = drawSectionTitle(pdf, y + 24, 'EYWA AI impact');
+  const impactColumns = [MARGIN, PAGE_WIDTH - MARGIN];
+  const impact: Array<[string, string]> = [
+    ['AI conversations', String(report.aiSessions)],
+    ['Bookings from AI conversations', String(report.aiConversions)],
+    ['Conversion rate', formatPercent(share(report.aiConversions, report.aiSessions))],
+    ['OTA commission saved', money(report.commissionSaved)],
+    ['AI usage cost', money(report.aiTotalCost)],
+    ['EYWA licence', money(report.eywaFee)]
+  ];
+  for (const row of impact) {
+    y = drawTableRow(pdf, y, row, impactColumns);
+  }
+  y = drawTableRow(pdf, y, ['Net profit boost', money(report.netProfitBoost)], impactColumns, { bold: true });
+  drawTableRow(pdf, y, ['Return on investment', formatPercent(report.roiPercentage)], impactColumns, {
+    bold: true,
+    color: report.roiPercentage >= 0 ? [12, 140, 90] : [190, 40, 40]
+  });
+
+  drawFooter(pdf, report.generatedAt);
+  return pdf.toBuffer();
+}
+
+/**
+ * Portfolio report: totals (one row of cards per currency), then one table
+ * row per hotel (continued on further pages when needed)
+ */
+export function portfolioReportPdf(portfolio: PortfolioReport): Buffer {
+  const pdf = new PdfDocument(`Portfolio - ${portfolio.yearMonth}`);
+  const { totals } = portfolio;
+  const generatedAt = new Date();
+
+  drawHeader(pdf, 'Monthly portfolio report', portfolio.yearMonth);
+  pdf.text(MARGIN, 122, `Portfolio - ${portfolio.hotels.length} hotels`, { size: 18, bold: true, color: BRAND_DARK });
+
+  let y = 132;
+  for (const total of totals) {
+    const suffix = totals.length > 1 ? ` (${total.hotelCount} ${total.currency} hotels)` : '';
+    y = drawKpiCards(pdf, y + 10, [
+      [`Revenue${suffix}`, formatMoney(total.totalRevenue, total.currency)],
+      ['Avg. occupancy', formatPercent(total.avgOccupancy)],
+      ['Commission saved', formatMoney(total.commissionSaved, total.currency)],
+      ['ROI', formatPercent(total.roiPercentage)]
+    ]);
+  }
+
+  const columns = [MARGIN, 285, 335, 395, 455, 505, PAGE_WIDTH - MARGIN];
+  const header = ['Hotel', 'Revenue', 'Occ.', 'ADR', 'RevPAR', 'Direct', 'ROI'];
+
+  y = drawSectionTitle(pdf, y + 36, 'Hotels');
+  y = drawTableRow(pdf, y, header, columns, { bold: true, color: TEXT_MUTED });
+
+  for (const report of portfolio.hotels) {
+    if (y > PAGE_BOTTOM) {
+      drawFooter(pdf, generatedAt);
+      pdf.addPage();
+      drawHeader(pdf, 'Monthly portfolio report (continued)', portfolio.yearMonth);
+      y = drawTableRow(pdf, 120, header, columns, { bold: true, color: TEXT_MUTED });
+    }
+
+    const name = report.hotelName.length > 38 ? `${report.hotelName.slice(0, 37)}...` : report.hotelName;
+    y = drawTableRow(pdf, y, [
+      name,
+      formatNumber(report.totalRevenue, 0),
+      formatPercent(report.avgOccupancy),
+      report.avgAdr === null ? 'n/a' : formatNumber(report.avgAdr, 0),
+      report.avgRevpar === null ? 'n/a' : formatNumber(report.avgRevpar, 0),
+      formatPercent(share(report.directRevenue, report.totalRevenue)),
+      formatPercent(report.roiPercentage)
+    ], columns);
+  }
+
+  for (const total of totals) {
+    if (y > PAGE_BOTTOM) {
+      drawFooter(pdf, generatedAt);
+      pdf.addPage();
+      drawHeader(pdf, 'Monthly portfolio report (continued)', portfolio.yearMonth);
+      y = 120;
+    }
+    y = drawTableRow(pdf, y, [
+      `Total ${total.currency}`,
+      formatNumber(total.totalRevenue, 0),
+      formatPercent(total.avgOccupancy),
+      total.avgAdr === null ? 'n/a' : formatNumber(total.avgAdr, 0),
+      total.avgRevpar === null ? 'n/a' : formatNumber(total.avgRevpar, 0),
+      formatPercent(share(total.directRevenue, total.totalRevenue)),
+      formatPercent(total.roiPercentage)
+    ], columns, { bold: true });
+  }
+
+  drawFooter(pdf, generatedAt);
+  return pdf.toBuffer();
+}
@@ -0,0 +1,143 @@
+/**
+ * Reservation Sync Service
+ *
+ * Pulls changed reservations from every connected PMS into the bookings table:
+ * - Asks for reservations modified since the connection's watermark
+ *   (pms_connections.reservations_synced_at)
+ * - Attributes each reservation to a channel and its commission
+ *   (see channel-attribution.ts)
+ * - Upserts on (hotel_id, pms_booking_id) so date changes and cancellations
+ *   update the existing booking
+ * - Links AI sessions that reported the new booking's number (see ai-sessions.ts)
+ */
+
+import { query } from '../utils/db.js';
+import { pmsRouter, PMSType, Reservation } from './pms-router.js';
+import * as bookingStore from './booking-store.js';
+import * as aiSessions from './ai-sessions.js';
+import { AttributionContext, loadAttributionContext, resolveChannel } from './channel-attribution.js';
+import { dateOffset } from '../utils/dates.js';
+
+export interface HotelReservationSyncResult {
+  hotelId: string;
+  fetched: number;
+  created: number;
+  updated: number;
+  skipped: number;
+  error?: string;
+}
+
+export interface ReservationSyncJobResult {
+  hotelsTotal: number;
+  hotelsSuccess: number;
+  hotelsFailed: number;
+  duration: number; // ms
+  results: HotelReservationSyncResult[];
+}
+
+// Stay window for adapters that cannot filter on modification time
+const SYNC_LOOKBACK_DAYS = 30;
+const SYNC_LOOKAHEAD_DAYS = 365;
+// Re-read a little before the watermark to absorb PMS clock skew
+const WATERMARK_OVERLAP_MS = 5 * 60 * 1000;
+
+/**
+ * Attribute and store one reservation (shared by the sync job and webhooks)
+ */
+export async function ingestReservation(
+  hotelId: string,
+  pmsType: PMSType,
+  reservation: Reservation,
+  context?: AttributionContext
+): Promise<bookingStore.StoredBooking> {
+  const channel = resolveChannel(reservation.source, context || await loadAttributionContext(hotelId, pmsType));
+  const stored = await bookingStore.upsertBooking(hotelId, reservation, channel);
+  if (stored.created) {
+    await aiSessions.linkConversions(hotelId, stored.id);
+  }
+  return stored;
+}
+
+/**
+ * Sync one hotel's reservations changed since its last successful sync
+ */
+export async function syncHotelReservations(hotelId: string): Promise<HotelReservationSyncResult> {
+  const connection = await pmsRouter.getConnection(hotelId);
+  if (!connection) {
+    throw new Error(`No PMS connection found for hotel: ${hotelId}`);
+  }
+
+  const startedAt = new Date();
+  const watermark = connection.reservationsSyncedAt ? new Date(connection.reservationsSyncedAt) : undefined;
+
+  const reservations = await pmsRouter.getReservations(hotelId, {
+    startDate: dateOffset(-SYNC_LOOKBACK_DAYS, startedAt),
+    endDate: dateOffset(SYNC_LOOKAHEAD_DAYS, startedAt),
+    modifiedSince: watermark ? new Date(watermark.getTime() - WATERMARK_OVERLAP_MS).toISOString() : undefined
+  });
+
+  const context = await loadAttributionContext(hotelId, connection.pmsType);
+  const result: HotelReservationSyncResult = {
+    hotelId,
+    fetched: reservations.length,
+    created: 0,
+    updated: 0,
+    skipped: 0
+  };
+
+  for (const reservation of reservations) {
+    // Without an id or stay dates the booking cannot be keyed or counted
+    if (!reservation.id || !reservation.checkIn || !reservation.checkOut) {
+      result.skipped++;
+      continue;
+    }
+
+    const stored = await ingestReservation(hotelId, connection.pmsType, reservation, context);
+    if (stored.created) {
+      result.created++;
+    } else {
+      result.updated++;
+    }
+  }
+
+  await query(
+    'UPDATE pms_connections SET reservations_synced_at = $2, updated_at = NOW() WHERE id = $1',
+    [connection.id, startedAt]
+  );
+  connection.reservationsSyncedAt = startedAt;
+
+  return result;
+}
+
+/**
+ * Sync every active connection; one hotel failing does not stop the others
+ */
+export async function runReservationSync(): Promise<ReservationSyncJobResult> {
+  const startTime = Date.now();
+  const connections = await pmsRouter.listConnections();
+  const results: HotelReservationSyncResult[] = [];
+
+  for (const connection of connections) {
+    try {
+      results.push(await syncHotelReservations(connection.hotelId));
+    } catch (error: any) {
+      results.push({
+        hotelId: connection.hotelId,
+        fetched: 0,
+        created: 0,
+        updated: 0,
+        skipped: 0,
+        error: error.message || 'Unknown error'
+      });
+    }
+  }
+
+  const hotelsFailed = results.filter(r => r.error).length;
+  return {
+    hotelsTotal: results.length,
+    hotelsSuccess: results.length - hotelsFailed,
+    hotelsFailed,
+    duration: Date.now() - startTime,
+    results
+  };
+}
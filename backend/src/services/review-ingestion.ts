@@ -0,0 +1,275 @@
+/**
+ * Review Ingestion Pipeline
+ *
+ * Single path for getting a review source's data into the database, used by
+ * the scheduled sync, manual refreshes and source linking alike:
+ *   fetch -> normalize -> upsert reviews by external ID -> snapshot the rating
+ *   -> recompute the Eywa Score
+ *
+ * Each source has a fetcher returning normalized data; new sources plug in
+ * with registerReviewFetcher.
+ */
+
+import { query } from '../utils/db.js';
+import * as googlePlaces from './google-places.js';
+import * as tripAdvisor from './tripadvisor.js';
+import * as eywaScore from './eywa-score.js';
+import * as eywaSettings from './eywa-settings.js';
+import { resolveReviewLanguage } from './language-detection.js';
+
+export interface NormalizedReview {
+  externalReviewId: string; // unique per hotel and source
+  authorName: string | null;
+  authorUrl: string | null;
+  profilePhotoUrl: string | null;
+  rating: number;
+  text: string | null;
+  language: string | null;
+  relativeTime: string | null;
+  publishedAt: Date | null;
+}
+
+export interface RatingSnapshot {
+  rating: number; // on the source's own scale
+  reviewCount: number;
+  ranking: { position: number; total: number; context: string } | null;
+}
+
+export interface SourceData {
+  rating: RatingSnapshot;
+  reviews: NormalizedReview[];
+}
+
+export type ReviewFetcher = (externalId: string) => Promise<SourceData>;
+
+export interface IngestedSource {
+  source: string;
+  rating: RatingSnapshot;
+  reviewsStored: number;
+}
+
+export function normalizeGoogleReview(review: googlePlaces.GoogleReview): NormalizedReview {
+  return {
+    externalReviewId: `google_${review.time}`, // Google has no review id; the timestamp is stable
+    authorName: review.author_name,
+    authorUrl: review.author_url,
+    profilePhotoUrl: review.profile_photo_url,
+    rating: review.rating,
+    text: review.text,
+    language: review.language,
+    relativeTime: review.relative_time_description,
+    publishedAt: review.time ? new Date(review.time * 1000) : null,
+  };
+}
+
+export function normalizeTripAdvisorReview(review: tripAdvisor.TripAdvisorReview): NormalizedReview {
+  return {
+    externalReviewId: `ta_${review.id}`,
+    authorName: review.user.username,
+    authorUrl: review.url,
+    profilePhotoUrl: review.user.avatar?.small?.url || '',
+    rating: review.rating,
+    text: review.text,
+    language: review.lang,
+    relativeTime: review.travel_date || '',
+    publishedAt: review.published_date ? new Date(review.published_date) : null,
+  };
+}
+
+async function fetchGoogle(placeId: string): Promise<SourceData> {
+  const details = await googlePlaces.getPlaceDetails(placeId);
+  if (!details) {
+    throw new Error(`Place not found: ${placeId}`);
+  }
+
+  return {
+    rating: { rating: details.rating, reviewCount: details.user_ratings_total, ranking: null },
+    reviews: details.reviews.map(normalizeGoogleReview),
+  };
+}
+
+async function fetchTripAdvisor(locationId: string): Promise<SourceData> {
+  if (!tripAdvisor.isTripAdvisorConfigured()) {
+    throw new Error('TripAdvisor API not configured');
+  }
+
+  const { details, reviews } = await tripAdvisor.getFullLocationData(locationId);
+  if (!details) {
+    throw new Error(`Location not found: ${locationId}`);
+  }
+
+  const ranking = tripAdvisor.parseRankingString(details.ranking);
+  return {
+    rating: {
+      rating: details.rating,
+      reviewCount: details.num_reviews,
+      ranking: ranking.position > 0 ? ranking : null,
+    },
+    reviews: reviews.map(normalizeTripAdvisorReview),
+  };
+}
+
+const REVIEW_FETCHERS: Record<string, ReviewFetcher> = {
+  google: fetchGoogle,
+  tripadvisor: fetchTripAdvisor,
+};
+
+/**
+ * Register (or replace) the fetcher of a review source
+ */
+export function registerReviewFetcher(source: string, fetcher: ReviewFetcher): void {
+  REVIEW_FETCHERS[source] = fetcher;
+}
+
+export function hasReviewFetcher(source: string): boolean {
+  return Object.prototype.hasOwnProperty.call(REVIEW_FETCHERS, source);
+}
+
+/**
+ * Store today's rating of a source (one row per day, so ratings and rankings keep a history)
+ */
+export async function storeRatingSnapshot(hotelId: string, source: string, snapshot: RatingSnapshot): Promise<void> {
+  await query(
+    `INSERT INTO hotel_ratings (hotel_id, source, rating, review_count, ranking, ranking_total, ranking_context, fetched_at)
+     VALUES ($1, $2, $3, $4, $5, $6, $7, NOW())
+     ON CONFLICT (hotel_id, source, DATE(fetched_at))
+     DO UPDATE SET rating = $3, review_count = $4, ranking = $5, ranking_total = $6, ranking_context = $7, fetched_at = NOW()`,
+    [
+      hotelId,
+      source,
+      snapshot.rating,
+      snapshot.reviewCount,
+      snapshot.ranking?.position ?? null,
+      snapshot.ranking?.total ?? null,
+      snapshot.ranking?.context ?? null,
+    ]
+  );
+}
+
+/**
+ * Insert new reviews and refresh known ones (matched on the source's review id).
+ * The stored language is detected from the text, the reported one is kept aside.
+ */
+export async function upsertReviews(hotelId: string, source: string, reviews: NormalizedReview[]): Promise<number> {
+  for (const review of reviews) {
+    const detected = resolveReviewLanguage(review.text, review.language);
+    await query(
+      `INSERT INTO hotel_reviews (
+         hotel_id, source, external_review_id, author_name, author_url,
+         profile_photo_url, rating, text, language, relative_time_description, published_at,
+         language_source, language_confidence
+       ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13)
+       ON CONFLICT (hotel_id, source, external_review_id)
+       DO UPDATE SET
+         author_name = $4, rating = $7, text = $8, language = $9,
+         relative_time_description = $10, language_source = $12,
+         language_confidence = $13, fetched_at = NOW()`,
+      [
+        hotelId,
+        source,
+        review.externalReviewId,
+        review.authorName,
+        review.authorUrl,
+        review.profilePhotoUrl,
+        review.rating,
+        review.text,
+        detected.language,
+        review.relativeTime,
+        review.publishedAt,
+        review.language,
+        detected.confidence,
+      ]
+    );
+  }
+  return reviews.length;
+}
+
+/**
+ * Fetch one linked source and store its reviews and rating (the score is recomputed separately)
+ */
+export async function ingestSource(hotelId: string, source: string, externalId: string): Promise<IngestedSource> {
+  if (!hasReviewFetcher(source)) {
+    throw new Error(`No review fetcher for source: ${source}`);
+  }
+
+  const data = await REVIEW_FETCHERS[source](externalId);
+  const reviewsStored = await upsertReviews(hotelId, source, data.reviews);
+  await storeRatingSnapshot(hotelId, source, data.rating);
+
+  return { source, rating: data.rating, reviewsStored };
+}
+
+/**
+ * Compute both score modes from the latest rating of each source and store the result with its trend
+ */
+export async function computeAndStoreEywaScore(hotelId: string): Promise<eywaSettings.HotelScores | null> {
+  // Get latest ratings from each source
+  const ratingsResult = await query(
+    `SELECT DISTINCT ON (source) source, rating, review_count
+     FROM hotel_ratings
+     WHERE hotel_id = $1
+     ORDER BY source, fetched_at DESC`,
+    [hotelId]
+  );
+
+  if (ratingsResult.rows.length === 0) {
+    return null;
+  }
+
+  const sources: eywaScore.RatingSource[] = ratingsResult.rows.map(r => ({
+    source: r.source,
+    rating: parseFloat(r.rating),
+    reviewCount: r.review_count,
+  }));
+
+  // Calculate both score modes with the hotel's settings
+  const scores = await eywaSettings.computeHotelScores(hotelId, sources);
+  const scoreResult = scores.weighted;
+
+  // Get previous score for trend calculation
+  const previousResult = await query(
+    `SELECT eywa_score FROM hotel_eywa_scores
+     WHERE hotel_id = $1
+     ORDER BY computed_at DESC
+     LIMIT 1`,
+    [hotelId]
+  );
+
+  const previousScore = previousResult.rows[0]?.eywa_score
+    ? parseFloat(previousResult.rows[0].eywa_score)
+    : null;
+
+  const trendResult = eywaScore.calculateTrend(scores.eywaScore, previousScore);
+
+  // Store the new score
+  await query(
+    `INSERT INTO hotel_eywa_scores (
+       hotel_id, eywa_score, google_rating, google_weight, google_confidence,
+       tripadvisor_rating, tripadvisor_weight, tripadvisor_confidence,
+       trend, trend_delta, source_breakdown, score_mode, weighted_score,
+       bayesian_score, bayesian_lower, bayesian_upper, bayesian_prior, effective_reviews, computed_at
+     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, $11, $12, $13, $14, $15, $16, $17, $18, NOW())`,
+    [
+      hotelId,
+      scores.eywaScore,
+      scoreResult.googleRating,
+      scoreResult.googleWeight,
+      scoreResult.googleConfidence,
+      scoreResult.tripadvisorRating,
+      scoreResult.tripadvisorWeight,
+      scoreResult.tripadvisorConfidence,
+      trendResult.trend,
+      trendResult.delta,
+      JSON.stringify(scoreResult.breakdown),
+      scores.mode,
+      scoreResult.eywaScore,
+      scores.bayesian?.eywaScore ?? null,
+      scores.bayesian?.credibleInterval.lower ?? null,
+      scores.bayesian?.credibleInterval.upper ?? null,
+      scores.bayesian?.priorScore ?? null,
+      scores.bayesian?.effectiveReviews ?? null,
+    ]
+  );
+
+  return scores;
+}
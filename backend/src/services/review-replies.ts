@@ -0,0 +1,362 @@
+/**
+ * Review Replies Service
+ *
+ * Answering guest reviews:
+ * - drafts are written by the hotel's LLM plug-in (llm-providers.ts) in the
+ *   tone set in hotel_reply_settings, or by hand
+ * - drafts are submitted for approval; managers and admins approve (or reject)
+ *   them, and can approve their own drafts straight away
+ * - approved replies go out through the source's publisher (reply-publishers.ts);
+ *   sources without one keep the reply as approved, to be posted by hand
+ *
+ * The reply state lives on hotel_reviews (reply_* columns).
+ */
+
+import { query } from '../utils/db.js';
+import { ServiceError } from '../utils/errors.js';
+import { createLlmProvider } from './llm-providers.js';
+import { ALERT_THRESHOLDS } from './analytics.js';
+import * as replyPublishers from './reply-publishers.js';
+
+export type ReplyTone = 'warm' | 'professional' | 'concise';
+export type ReplyStatus = 'none' | 'draft' | 'pending_approval' | 'approved' | 'published' | 'rejected' | 'failed';
+
+export interface ReplySettings {
+  tone: ReplyTone;
+  signature: string | null;
+  instructions: string | null;
+}
+
+export interface ReviewReply {
+  reviewId: string;
+  source: string;
+  author: string | null;
+  rating: number | null;
+  reviewText: string | null;
+  language: string | null;
+  reviewPublishedAt: Date | null;
+  status: ReplyStatus;
+  replyText: string | null;
+  provider: string | null; // ai_providers.slug of the AI draft
+  draftedBy: string | null;
+  reviewedBy: string | null;
+  reviewNote: string | null;
+  externalReplyId: string | null;
+  error: string | null;
+  updatedAt: Date | null;
+  publishedAt: Date | null;
+}
+
+export const REPLY_TONES: ReplyTone[] = ['warm', 'professional', 'concise'];
+// Roles that approve replies (and see the approval queue)
+export const APPROVER_ROLES = ['admin', 'manager'];
+
+const DEFAULT_SETTINGS: ReplySettings = { tone: 'warm', signature: null, instructions: null };
+const DEFAULT_PROVIDER = process.env.REVIEW_REPLY_PROVIDER || 'claude-sonnet';
+const MAX_REPLY_LENGTH = 4000;
+const MAX_INSTRUCTIONS_LENGTH = 2000;
+const DRAFT_MAX_TOKENS = 600;
+
+const TONE_GUIDANCE: Record<ReplyTone, string> = {
+  warm: 'Be warm and personal, like a host who remembers the guest.',
+  professional: 'Be courteous and professional, without familiarity.',
+  concise: 'Be brief: two or three sentences at most.',
+};
+
+// Statuses a reply can be edited in (published replies are final)
+const EDITABLE_STATUSES: ReplyStatus[] = ['none', 'draft', 'pending_approval', 'approved', 'rejected', 'failed'];
+
+const REPLY_COLUMNS = `id, source, author_name, rating, text, language, published_at,
+  reply_status, reply_text, reply_provider, reply_drafted_by, reply_reviewed_by, reply_review_note,
+  reply_external_id, reply_error, reply_updated_at, reply_published_at`;
+
+function toReply(row: any): ReviewReply {
+  return {
+    reviewId: row.id,
+    source: row.source,
+    author: row.author_name,
+    rating: row.rating,
+    reviewText: row.text,
+    language: row.language,
+    reviewPublishedAt: row.published_at,
+    status: row.reply_status || 'none',
+    replyText: row.reply_text,
+    provider: row.reply_provider,
+    draftedBy: row.reply_drafted_by,
+    reviewedBy: row.reply_reviewed_by,
+    reviewNote: row.reply_review_note,
+    externalReplyId: row.reply_external_id,
+    error: row.reply_error,
+    updatedAt: row.reply_updated_at,
+    publishedAt: row.reply_published_at,
+  };
+}
+
+async function loadReview(hotelId: string, reviewId: string): Promise<any> {
+  const result = await query(
+    `SELECT ${REPLY_COLUMNS} FROM hotel_reviews WHERE id = $1 AND hotel_id = $2`,
+    [reviewId, hotelId]
+  );
+  if (result.rows.length === 0) {
+    throw new ServiceError(`Review not found: ${reviewId}`, 404);
+  }
+  return result.rows[0];
+}
+
+async function updateReply(reviewId: string, assignments: string, params: any[]): Promise<ReviewReply> {
+  const result = await query(
+    `UPDATE hotel_reviews SET ${assignments}, reply_updated_at = NOW()
+     WHERE id = $1
+     RETURNING ${REPLY_COLUMNS}`,
+    [reviewId, ...params]
+  );
+  return toReply(result.rows[0]);
+}
+
+function requireStatus(row: any, allowed: ReplyStatus[], action: string): void {
+  const status: ReplyStatus = row.reply_status || 'none';
+  if (!allowed.includes(status)) {
+    throw new ServiceError(`Cannot ${action} a reply in status ${status}`, 409);
+  }
+}
+
+/**
+ * Tone settings of a hotel (defaults when never configured)
+ */
+export async function getReplySettings(hotelId: string): Promise<ReplySettings> {
+  const result = await query(
+    'SELECT tone, signature, instructions FROM hotel_reply_settings WHERE hotel_id = $1',
+    [hotelId]
+  );
+  const row = result.rows[0];
+  return row
+    ? { tone: row.tone, signature: row.signature, instructions: row.instructions }
+    : { ...DEFAULT_SETTINGS };
+}
+
+export async function updateReplySettings(hotelId: string, changes: Partial<ReplySettings>): Promise<ReplySettings> {
+  const settings = { ...await getReplySettings(hotelId), ...changes };
+
+  if (!REPLY_TONES.includes(settings.tone)) {
+    throw new ServiceError(`tone must be one of: ${REPLY_TONES.join(', ')}`, 400);
+  }
+  if (settings.signature !== null && (typeof settings.signature !== 'string' || settings.signature.length > 255)) {
+    throw new ServiceError('signature must be a string of at most 255 characters', 400);
+  }
+  if (settings.instructions !== null && (typeof settings.instructions !== 'string' || settings.instructions.length > MAX_INSTRUCTIONS_LENGTH)) {
+    throw new ServiceError(`instructions must be a string of at most ${MAX_INSTRUCTIONS_LENGTH} characters`, 400);
+  }
+
+  await query(
+    `INSERT INTO hotel_reply_settings (hotel_id, tone, signature, instructions)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (hotel_id) DO UPDATE SET
+       tone = EXCLUDED.tone,
+       signature = EXCLUDED.signature,
+       instructions = EXCLUDED.instructions,
+       updated_at = NOW()`,
+    [hotelId, settings.tone, settings.signature || null, settings.instructions || null]
+  );
+
+  return settings;
+}
+
+/**
+ * System prompt of a reply draft
+ */
+export function buildReplyPrompt(hotelName: string, settings: ReplySettings, review: { rating: number | null; language: string | null }): string {
+  const lines = [
+    `You write the public reply of ${hotelName} to a guest review.`,
+    TONE_GUIDANCE[settings.tone],
+    'Thank the guest, answer the specific points they raise, and never invent facts, offers or compensation.',
+  ];
+  if (review.rating !== null && review.rating <= ALERT_THRESHOLDS.NEGATIVE_REVIEW_RATING) {
+    lines.push('The review is negative: apologise for what went wrong without being defensive and invite the guest to get in touch.');
+  }
+  if (review.language) {
+    lines.push(`Reply in the language of the review (${review.language}).`);
+  }
+  if (settings.instructions) {
+    lines.push(settings.instructions);
+  }
+  lines.push(settings.signature ? `Sign the reply as: ${settings.signature}` : 'Do not sign the reply.');
+  lines.push('Answer with the reply text only.');
+  return lines.join('\n');
+}
+
+/**
+ * Have the LLM draft a reply (provider: explicit, else the hotel default, else REVIEW_REPLY_PROVIDER)
+ */
+export async function draftReply(hotelId: string, reviewId: string, userId: string, provider?: string): Promise<ReviewReply> {
+  const review = await loadReview(hotelId, reviewId);
+  requireStatus(review, EDITABLE_STATUSES, 'draft');
+
+  const hotelResult = await query(
+    `SELECT h.name, ap.slug AS default_provider
+     FROM hotels h
+     LEFT JOIN ai_providers ap ON ap.id = h.default_ai_provider_id
+     WHERE h.id = $1`,
+    [hotelId]
+  );
+  const slug = provider || hotelResult.rows[0]?.default_provider || DEFAULT_PROVIDER;
+
+  const providerResult = await query('SELECT slug, model FROM ai_providers WHERE slug = $1', [slug]);
+  if (providerResult.rows.length === 0) {
+    throw new ServiceError(`Unknown provider: ${slug}`, 400);
+  }
+
+  const settings = await getReplySettings(hotelId);
+  const response = await createLlmProvider(slug).complete({
+    model: providerResult.rows[0].model,
+    system: buildReplyPrompt(hotelResult.rows[0]?.name || 'the hotel', settings, review),
+    messages: [{
+      role: 'user',
+      content: `Review by ${review.author_name || 'a guest'} (${review.rating ?? '?'}/5):\n${review.text || '(no text, rating only)'}`,
+    }],
+    tools: [],
+    maxTokens: DRAFT_MAX_TOKENS,
+  });
+
+  const text = response.content.trim();
+  if (!text) {
+    throw new ServiceError(`${slug} returned an empty draft`, 502);
+  }
+
+  return updateReply(
+    reviewId,
+    `reply_status = 'draft', reply_text = $2, reply_provider = $3, reply_drafted_by = $4,
+     reply_reviewed_by = NULL, reply_review_note = NULL, reply_error = NULL`,
+    [text.slice(0, MAX_REPLY_LENGTH), slug, userId]
+  );
+}
+
+/**
+ * Write or edit a reply by hand (back to draft, so it needs approval again)
+ */
+export async function saveReply(hotelId: string, reviewId: string, userId: string, text: unknown): Promise<ReviewReply> {
+  const reply = typeof text === 'string' ? text.trim() : '';
+  if (!reply) {
+    throw new ServiceError('text is required', 400);
+  }
+  if (reply.length > MAX_REPLY_LENGTH) {
+    throw new ServiceError(`text is limited to ${MAX_REPLY_LENGTH} characters`, 400);
+  }
+
+  const review = await loadReview(hotelId, reviewId);
+  requireStatus(review, EDITABLE_STATUSES, 'edit');
+
+  return updateReply(
+    reviewId,
+    `reply_status = 'draft', reply_text = $2, reply_drafted_by = $3,
+     reply_reviewed_by = NULL, reply_review_note = NULL, reply_error = NULL`,
+    [reply, userId]
+  );
+}
+
+export async function submitReply(hotelId: string, reviewId: string): Promise<ReviewReply> {
+  const review = await loadReview(hotelId, reviewId);
+  requireStatus(review, ['draft', 'rejected'], 'submit');
+
+  return updateReply(reviewId, `reply_status = 'pending_approval', reply_review_note = NULL`, []);
+}
+
+export async function rejectReply(hotelId: string, reviewId: string, userId: string, note?: unknown): Promise<ReviewReply> {
+  const review = await loadReview(hotelId, reviewId);
+  requireStatus(review, ['pending_approval'], 'reject');
+
+  return updateReply(
+    reviewId,
+    `reply_status = 'rejected', reply_reviewed_by = $2, reply_review_note = $3`,
+    [userId, typeof note === 'string' && note.trim() ? note.trim() : null]
+  );
+}
+
+/**
+ * Approve a reply and publish it on its source (retries failed publications).
+ * Drafts can only be approved by the user who drafted them.
+ */
+export async function approveReply(hotelId: string, reviewId: string, userId: string): Promise<ReviewReply> {
+  const review = await loadReview(hotelId, reviewId);
+  requireStatus(review, ['draft', 'pending_approval', 'failed'], 'approve');
+  if (review.reply_status === 'draft' && review.reply_drafted_by !== userId) {
+    throw new ServiceError('Only your own drafts can be approved without submitting them', 403);
+  }
+
+  // Claim the reply before publishing: of two concurrent approvals only one gets the row
+  const claim = await query(
+    `UPDATE hotel_reviews SET reply_status = 'approved', reply_reviewed_by = $2, reply_error = NULL, reply_updated_at = NOW()
+     WHERE id = $1
+       AND (reply_status = ANY($3) OR (reply_status = 'draft' AND reply_drafted_by = $2))
+     RETURNING ${REPLY_COLUMNS}`,
+    [reviewId, userId, ['pending_approval', 'failed']]
+  );
+  if (claim.rows.length === 0) {
+    throw new ServiceError('The reply changed or is already being approved', 409);
+  }
+  const claimed = claim.rows[0];
+
+  const publisher = replyPublishers.getReplyPublisher(review.source);
+  if (!publisher) {
+    return toReply(claimed);
+  }
+
+  const externalResult = await query(
+    `SELECT r.external_review_id, s.external_id
+     FROM hotel_reviews r
+     LEFT JOIN hotel_review_sources s ON s.hotel_id = r.hotel_id AND s.source = r.source
+     WHERE r.id = $1`,
+    [reviewId]
+  );
+
+  let published: replyPublishers.ReplyPublishResult;
+  try {
+    published = await publisher.publishReply({
+      hotelId,
+      source: review.source,
+      sourceExternalId: externalResult.rows[0]?.external_id || null,
+      externalReviewId: externalResult.rows[0]?.external_review_id,
+      text: claimed.reply_text,
+    });
+  } catch (err: any) {
+    await updateReply(reviewId, `reply_status = 'failed', reply_reviewed_by = $2, reply_error = $3`, [userId, err.message]);
+    throw new ServiceError(`Publishing to ${review.source} failed: ${err.message}`, 502);
+  }
+
+  return updateReply(
+    reviewId,
+    `reply_status = 'published', reply_reviewed_by = $2, reply_external_id = $3,
+     reply_error = NULL, reply_published_at = NOW()`,
+    [userId, published.externalReplyId]
+  );
+}
+
+/**
+ * Replies waiting on a role: approvals (and failed publications) for approvers,
+ * drafts and rejected replies for everyone else
+ */
+export async function getReplyQueue(hotelId: string, role: string): Promise<ReviewReply[]> {
+  const statuses: ReplyStatus[] = APPROVER_ROLES.includes(role)
+    ? ['pending_approval', 'failed']
+    : ['draft', 'rejected'];
+
+  const result = await query(
+    `SELECT ${REPLY_COLUMNS} FROM hotel_reviews
+     WHERE hotel_id = $1 AND reply_status = ANY($2)
+     ORDER BY reply_updated_at ASC`,
+    [hotelId, statuses]
+  );
+  return result.rows.map(toReply);
+}
+
+/**
+ * Negative reviews without an approved or published reply
+ */
+export async function countUnansweredNegativeReviews(hotelId: string): Promise<number> {
+  const result = await query(
+    `SELECT COUNT(*) AS count FROM hotel_reviews
+     WHERE hotel_id = $1 AND rating <= $2
+       AND reply_status NOT IN ('approved', 'published')`,
+    [hotelId, ALERT_THRESHOLDS.NEGATIVE_REVIEW_RATING]
+  );
+  return parseInt(result.rows[0]?.count) || 0;
+}
@@ -2,12 +2,13 @@
  * Review Sync Service
  * 
  * Handles scheduled and manual syncing of hotel reviews and ratings
- * from external sources (Google Places, TripAdvisor).
+ * from external sources (Google Places, TripAdvisor) through the review
+ * ingestion pipeline, and keeps track of each source's sync status.
  */
 
 import { query, pool } from '../utils/db.js';
-import * as googlePlaces from './google-places.js';
-import * as eywaScore from './eywa-score.js';
+import * as tripAdvisor from './tripadvisor.js';
+import * as reviewIngestion from './review-ingestion.js';
 
 export interface SyncJobResult {
   jobId: string;
@@ -76,31 +77,30 @@ export async function syncHotelReviews(
   hotelId: string,
   sources: Array<{ source: string; externalId: string }>,
   jobId?: string
-): Promise<{ success: boolean; errors: SyncError[] }> {
+): Promise<{ success: boolean; synced: string[]; errors: SyncError[] }> {
   const errors: SyncError[] = [];
-  let anySuccess = false;
+  const synced: string[] = [];
   
   for (const { source, externalId } of sources) {
+    if (!reviewIngestion.hasReviewFetcher(source)) {
+      continue;
+    }
+
     try {
-      if (source === 'google') {
-        await syncGoogleReviews(hotelId, externalId);
-        anySuccess = true;
-        
-        // Update sync status
-        await query(
-          `UPDATE hotel_review_sources 
-           SET last_sync_at = NOW(),
-               last_sync_status = 'success',
-               sync_error_message = NULL,
-               sync_error_count = 0,
-               next_sync_at = NOW() + INTERVAL '${DEFAULT_SYNC_INTERVAL_HOURS} hours'
-           WHERE hotel_id = $1 AND source = $2`,
-          [hotelId, source]
-        );
-      } else if (source === 'tripadvisor') {
-        // TODO: Implement TripAdvisor sync
-        console.log(`TripAdvisor sync not yet implemented for hotel ${hotelId}`);
-      }
+      await reviewIngestion.ingestSource(hotelId, source, externalId);
+      synced.push(source);
+
+      // Update sync status
+      await query(
+        `UPDATE hotel_review_sources 
+         SET last_sync_at = NOW(),
+             last_sync_status = 'success',
+             sync_error_message = NULL,
+             sync_error_count = 0,
+             next_sync_at = NOW() + INTERVAL '${DEFAULT_SYNC_INTERVAL_HOURS} hours'
+         WHERE hotel_id = $1 AND source = $2`,
+        [hotelId, source]
+      );
     } catch (error: any) {
       const syncError: SyncError = {
         hotelId,
@@ -110,17 +110,29 @@ export async function syncHotelReviews(
       };
       errors.push(syncError);
       
-      // Update sync status with error
-      await query(
-        `UPDATE hotel_review_sources 
-         SET last_sync_at = NOW(),
-             last_sync_status = 'failed',
-             sync_error_message = $3,
-             sync_error_count = COALESCE(sync_error_count, 0) + 1,
-             next_sync_at = NOW() + INTERVAL '${DEFAULT_SYNC_INTERVAL_HOURS * 2} hours'
-         WHERE hotel_id = $1 AND source = $2`,
-        [hotelId, source, syncError.errorMessage]
-      );
+      if (error instanceof tripAdvisor.TripAdvisorRateLimitError) {
+        // Not the source's fault: retry once the quota allows, without backing off
+        await query(
+          `UPDATE hotel_review_sources 
+           SET last_sync_status = 'rate_limited',
+               sync_error_message = $3,
+               next_sync_at = NOW() + make_interval(secs => $4)
+           WHERE hotel_id = $1 AND source = $2`,
+          [hotelId, source, syncError.errorMessage, error.retryAfterSeconds]
+        );
+      } else {
+        // Update sync status with error
+        await query(
+          `UPDATE hotel_review_sources 
+           SET last_sync_at = NOW(),
+               last_sync_status = 'failed',
+               sync_error_message = $3,
+               sync_error_count = COALESCE(sync_error_count, 0) + 1,
+               next_sync_at = NOW() + INTERVAL '${DEFAULT_SYNC_INTERVAL_HOURS * 2} hours'
+           WHERE hotel_id = $1 AND source = $2`,
+          [hotelId, source, syncError.errorMessage]
+        );
+      }
       
       // Log error to sync_errors table
       if (jobId) {
@@ -134,133 +146,21 @@ export async function syncHotelReviews(
   }
   
   // Recompute Eywa Score if any source synced successfully
-  if (anySuccess) {
+  if (synced.length > 0) {
     try {
-      await computeAndStoreEywaScore(hotelId);
+      await reviewIngestion.computeAndStoreEywaScore(hotelId);
     } catch (error: any) {
       console.error(`Error computing Eywa score for hotel ${hotelId}:`, error);
     }
   }
   
   return {
-    success: anySuccess && errors.length === 0,
+    success: synced.length > 0 && errors.length === 0,
+    synced,
     errors,
   };
 }
 
-/**
- * Sync Google Places reviews and ratings
- */
-async function syncGoogleReviews(hotelId: string, placeId: string): Promise<void> {
-  const details = await googlePlaces.getPlaceDetails(placeId);
-  
-  if (!details) {
-    throw new Error(`Place not found: ${placeId}`);
-  }
-  
-  // Store rating
-  await query(
-    `INSERT INTO hotel_ratings (hotel_id, source, rating, review_count, fetched_at)
-     VALUES ($1, 'google', $2, $3, NOW())
-     ON CONFLICT (hotel_id, source, DATE(fetched_at))
-     DO UPDATE SET rating = $2, review_count = $3, fetched_at = NOW()`,
-    [hotelId, details.rating, details.user_ratings_total]
-  );
-  
-  // Store reviews (delta sync - only new reviews)
-  for (const review of details.reviews) {
-    const publishedAt = review.time ? new Date(review.time * 1000) : null;
-    const externalReviewId = `google_${review.time}`;
-    
-    await query(
-      `INSERT INTO hotel_reviews (
-         hotel_id, source, external_review_id, author_name, author_url,
-         profile_photo_url, rating, text, language, relative_time_description, published_at
-       ) VALUES ($1, 'google', $2, $3, $4, $5, $6, $7, $8, $9, $10)
-       ON CONFLICT (hotel_id, source, external_review_id) 
-       DO UPDATE SET 
-         author_name = $3, rating = $6, text = $7, 
-         relative_time_description = $9, fetched_at = NOW()`,
-      [
-        hotelId,
-        externalReviewId,
-        review.author_name,
-        review.author_url,
-        review.profile_photo_url,
-        review.rating,
-        review.text,
-        review.language,
-        review.relative_time_description,
-        publishedAt,
-      ]
-    );
-  }
-}
-
-/**
- * Compute and store Eywa score for a hotel
- */
-async function computeAndStoreEywaScore(hotelId: string): Promise<void> {
-  // Get latest ratings from each source
-  const ratingsResult = await query(
-    `SELECT DISTINCT ON (source) source, rating, review_count
-     FROM hotel_ratings
-     WHERE hotel_id = $1
-     ORDER BY source, fetched_at DESC`,
-    [hotelId]
-  );
-
-  if (ratingsResult.rows.length === 0) {
-    return;
-  }
-
-  // Build sources array
-  const sources: eywaScore.RatingSource[] = ratingsResult.rows.map(r => ({
-    source: r.source as 'google' | 'tripadvisor',
-    rating: parseFloat(r.rating),
-    reviewCount: r.review_count,
-  }));
-
-  // Calculate score
-  const scoreResult = eywaScore.calculateEywaScore(sources);
-
-  // Get previous score for trend calculation
-  const previousResult = await query(
-    `SELECT eywa_score FROM hotel_eywa_scores 
-     WHERE hotel_id = $1 
-     ORDER BY computed_at DESC 
-     LIMIT 1`,
-    [hotelId]
-  );
-  
-  const previousScore = previousResult.rows[0]?.eywa_score 
-    ? parseFloat(previousResult.rows[0].eywa_score) 
-    : null;
-
-  const trendResult = eywaScore.calculateTrend(scoreResult.eywaScore, previousScore);
-
-  // Store the new score
-  await query(
-    `INSERT INTO hotel_eywa_scores (
-       hotel_id, eywa_score, google_rating, google_weight, google_confidence,
-       tripadvisor_rating, tripadvisor_weight, tripadvisor_confidence,
-       trend, trend_delta, computed_at
-     ) VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10, NOW())`,
-    [
-      hotelId,
-      scoreResult.eywaScore,
-      scoreResult.googleRating,
-      scoreResult.googleWeight,
-      scoreResult.googleConfidence,
-      scoreResult.tripadvisorRating,
-      scoreResult.tripadvisorWeight,
-      scoreResult.tripadvisorConfidence,
-      trendResult.trend,
-      trendResult.delta,
-    ]
-  );
-}
-
 /**
  * Run a full sync job for all hotels due for sync
  */
@@ -0,0 +1,429 @@
+/**
+ * ROI Engine
+ *
+ * Values what EYWA's AI brings a hotel over a period:
+ * - Revenue gained: AI-assisted direct bookings × displacement rate (the share
+ *   that would otherwise have been booked through an OTA)
+ * - Commission saved: revenue gained × the hotel's blended OTA commission,
+ *   weighted by its OTA revenue mix. Each channel's rate is, in order: the
+ *   hotel's override, the commission actually paid on its bookings
+ *   (bookings.commission_rate), channels.default_commission
+ * - EYWA cost: licence fee prorated per day + AI usage cost
+ *
+ * Assumptions are per hotel (hotel_roi_settings). Weekly, monthly and
+ * quarterly snapshots are upserted into roi_metrics.
+ */
+
+import { query } from '../utils/db.js';
+import { round } from '../utils/numbers.js';
+import { ServiceError } from '../utils/errors.js';
+import { dateOffset } from '../utils/dates.js';
+import { dateRange } from './daily-stats.js';
+
+export type RoiPeriodType = 'weekly' | 'monthly' | 'quarterly';
+
+export const ROI_PERIOD_TYPES: RoiPeriodType[] = ['weekly', 'monthly', 'quarterly'];
+
+export interface RoiSettings {
+  displacementRate: number; // percentage
+  commissionOverrides: Record<string, number>; // channel slug -> percentage
+  minutesPerSession: number;
+}
+
+export interface ChannelCommission {
+  slug: string;
+  name: string;
+  rate: number; // percentage
+  source: 'override' | 'bookings' | 'default';
+  revenueShare: number | null; // share of the period's OTA revenue, percentage
+}
+
+export interface RoiResult {
+  startDate: string;
+  endDate: string;
+  aiDirectBookings: number;
+  aiDirectRevenue: number;
+  displacementRate: number;
+  revenueGained: number;
+  commissionRate: number; // blended, percentage
+  commissionSaved: number;
+  licenceCost: number;
+  aiCost: number;
+  eywaCost: number;
+  netGain: number;
+  roiPercentage: number;
+  aiSessions: number;
+  timeSavedHours: number;
+  channels: ChannelCommission[];
+}
+
+export interface RoiSnapshot extends RoiResult {
+  periodType: RoiPeriodType;
+  calculatedAt: Date;
+}
+
+export interface RoiSnapshotJobResult {
+  hotelsTotal: number;
+  hotelsSuccess: number;
+  hotelsFailed: number;
+  snapshots: number;
+  duration: number; // ms
+}
+
+export const DEFAULT_ROI_SETTINGS: RoiSettings = {
+  displacementRate: 60,
+  commissionOverrides: {},
+  minutesPerSession: 4
+};
+
+function daysInMonth(date: string): number {
+  const [year, month] = date.split('-').map(Number);
+  return new Date(Date.UTC(year, month, 0)).getUTCDate();
+}
+
+/**
+ * Hotel's assumptions (defaults when it has not set any)
+ */
+export async function getRoiSettings(hotelId: string): Promise<RoiSettings> {
+  const result = await query(
+    'SELECT displacement_rate, commission_overrides, minutes_per_session FROM hotel_roi_settings WHERE hotel_id = $1',
+    [hotelId]
+  );
+  if (result.rows.length === 0) {
+    return { ...DEFAULT_ROI_SETTINGS, commissionOverrides: {} };
+  }
+
+  const row = result.rows[0];
+  return {
+    displacementRate: Number(row.displacement_rate),
+    commissionOverrides: row.commission_overrides || {},
+    minutesPerSession: Number(row.minutes_per_session)
+  };
+}
+
+/**
+ * Validate and store the hotel's assumptions (omitted fields keep their value)
+ */
+export async function updateRoiSettings(hotelId: string, changes: Partial<RoiSettings>): Promise<RoiSettings> {
+  const settings = { ...await getRoiSettings(hotelId), ...changes };
+
+  const displacement = Number(settings.displacementRate);
+  if (!Number.isFinite(displacement) || displacement < 0 || displacement > 100) {
+    throw new ServiceError('displacementRate must be between 0 and 100', 400);
+  }
+
+  const minutes = Number(settings.minutesPerSession);
+  if (!Number.isFinite(minutes) || minutes < 0) {
+    throw new ServiceError('minutesPerSession must be a positive number', 400);
+  }
+
+  const overrides: Record<string, number> = {};
+  if (typeof settings.commissionOverrides !== 'object' || settings.commissionOverrides === null || Array.isArray(settings.commissionOverrides)) {
+    throw new ServiceError('commissionOverrides must be an object of channel slug -> percentage', 400);
+  }
+  for (const [slug, value] of Object.entries(settings.commissionOverrides)) {
+    const rate = Number(value);
+    if (!Number.isFinite(rate) || rate < 0 || rate > 100) {
+      throw new ServiceError(`Commission override for ${slug} must be between 0 and 100`, 400);
+    }
+    overrides[slug] = rate;
+  }
+
+  const known = Object.keys(overrides).length > 0
+    ? (await query('SELECT slug FROM channels WHERE slug = ANY($1)', [Object.keys(overrides)])).rows.map(r => r.slug)
+    : [];
+  const missing = Object.keys(overrides).filter(slug => !known.includes(slug));
+  if (missing.length > 0) {
+    throw new ServiceError(`Unknown channel: ${missing.join(', ')}`, 400);
+  }
+
+  await query(
+    `INSERT INTO hotel_roi_settings (hotel_id, displacement_rate, commission_overrides, minutes_per_session)
+     VALUES ($1, $2, $3, $4)
+     ON CONFLICT (hotel_id) DO UPDATE SET
+       displacement_rate = EXCLUDED.displacement_rate,
+       commission_overrides = EXCLUDED.commission_overrides,
+       minutes_per_session = EXCLUDED.minutes_per_session,
+       updated_at = NOW()`,
+    [hotelId, displacement, JSON.stringify(overrides), minutes]
+  );
+
+  return { displacementRate: displacement, commissionOverrides: overrides, minutesPerSession: minutes };
+}
+
+/**
+ * Commission rate per OTA channel and the revenue-weighted blend; channels
+ * are weighted equally when the hotel had no OTA revenue in the period
+ */
+export function blendCommission(
+  rows: Array<{ slug: string; name: string; default_commission: any; revenue: any; commission: any }>,
+  overrides: Record<string, number>
+): { rate: number; channels: ChannelCommission[] } {
+  const totalRevenue = rows.reduce((sum, row) => sum + (Number(row.revenue) || 0), 0);
+
+  const channels: ChannelCommission[] = rows.map(row => {
+    const revenue = Number(row.revenue) || 0;
+    const override = overrides[row.slug];
+    const [rate, source]: [number, ChannelCommission['source']] = override !== undefined
+      ? [override, 'override']
+      : revenue > 0
+        ? [(Number(row.commission) || 0) / revenue * 100, 'bookings']
+        : [Number(row.default_commission) || 0, 'default'];
+
+    return {
+      slug: row.slug,
+      name: row.name,
+      rate: round(rate),
+      source,
+      revenueShare: totalRevenue > 0 ? round(revenue / totalRevenue * 100) : null
+    };
+  });
+
+  if (channels.length === 0) {
+    return { rate: 0, channels };
+  }
+
+  const rate = totalRevenue > 0
+    ? rows.reduce((sum, row, i) => sum + channels[i].rate * (Number(row.revenue) || 0), 0) / totalRevenue
+    : channels.reduce((sum, channel) => sum + channel.rate, 0) / channels.length;
+
+  return { rate: round(rate), channels };
+}
+
+/**
+ * ROI over a date range (inclusive; bookings by check-in date, AI usage by
+ * day in the hotel's timezone)
+ */
+export async function calculateRoi(hotelId: string, startDate: string, endDate: string): Promise<RoiResult> {
+  const dates = dateRange(startDate, endDate);
+
+  const hotel = await query(
+    `SELECT h.timezone, COALESCE(l.monthly_fee, 0) AS monthly_fee
+     FROM hotels h
+     LEFT JOIN licences l ON l.hotel_id = h.id
+     WHERE h.id = $1`,
+    [hotelId]
+  );
+  if (hotel.rows.length === 0) {
+    throw new ServiceError(`Hotel not found: ${hotelId}`, 404);
+  }
+  const timezone = hotel.rows[0].timezone || 'UTC';
+  const monthlyFee = parseFloat(hotel.rows[0].monthly_fee) || 0;
+
+  const [settings, otaChannels, direct, sessions] = await Promise.all([
+    getRoiSettings(hotelId),
+    query(
+      `SELECT c.slug, c.name, c.default_commission,
+              COALESCE(SUM(b.total_revenue), 0) AS revenue,
+              COALESCE(SUM(b.commission_paid), 0) AS commission
+       FROM channels c
+       LEFT JOIN bookings b ON b.channel_id = c.id AND b.hotel_id = $1
+         AND b.check_in BETWEEN $2 AND $3
+         AND b.booking_status NOT IN ('cancelled', 'no_show')
+       WHERE c.is_active = true AND c.channel_type = 'ota'
+       GROUP BY c.id
+       ORDER BY c.slug`,
+      [hotelId, startDate, endDate]
+    ),
+    query(
+      `SELECT COUNT(*) AS bookings, COALESCE(SUM(b.total_revenue), 0) AS revenue
+       FROM bookings b
+       JOIN channels c ON c.id = b.channel_id
+       WHERE b.hotel_id = $1 AND c.channel_type = 'direct' AND b.ai_assisted = true
+         AND b.check_in BETWEEN $2 AND $3
+         AND b.booking_status NOT IN ('cancelled', 'no_show')`,
+      [hotelId, startDate, endDate]
+    ),
+    query(
+      `SELECT COUNT(*) AS sessions, COALESCE(SUM(cost), 0) AS cost
+       FROM ai_sessions
+       WHERE hotel_id = $1
+         AND created_at >= ($2::date::timestamp AT TIME ZONE $4)
+         AND created_at < (($3::date + 1)::timestamp AT TIME ZONE $4)`,
+      [hotelId, startDate, endDate, timezone]
+    )
+  ]);
+
+  const { rate, channels } = blendCommission(otaChannels.rows, settings.commissionOverrides);
+  const aiDirectRevenue = parseFloat(direct.rows[0].revenue);
+  const revenueGained = round(aiDirectRevenue * settings.displacementRate / 100);
+  const commissionSaved = round(revenueGained * rate / 100);
+
+  // Each day carries its month's share of the monthly fee, so a calendar
+  // month costs exactly one fee
+  const licenceCost = round(dates.reduce((sum, date) => sum + monthlyFee / daysInMonth(date), 0));
+  const aiCost = round(parseFloat(sessions.rows[0].cost), 4);
+  const eywaCost = round(licenceCost + aiCost);
+  const netGain = round(commissionSaved - eywaCost);
+  const aiSessions = parseInt(sessions.rows[0].sessions);
+
+  return {
+    startDate,
+    endDate,
+    aiDirectBookings: parseInt(direct.rows[0].bookings),
+    aiDirectRevenue,
+    displacementRate: settings.displacementRate,
+    revenueGained,
+    commissionRate: rate,
+    commissionSaved,
+    licenceCost,
+    aiCost,
+    eywaCost,
+    netGain,
+    roiPercentage: eywaCost > 0 ? round(netGain / eywaCost * 100) : 0,
+    aiSessions,
+    timeSavedHours: round(aiSessions * settings.minutesPerSession / 60),
+    channels
+  };
+}
+
+/**
+ * Calendar period containing a date: ISO week (Monday-Sunday), month or quarter
+ */
+export function periodBounds(periodType: RoiPeriodType, date: string = dateOffset(0)): { startDate: string; endDate: string } {
+  const [year, month, day] = date.split('-').map(Number);
+
+  switch (periodType) {
+    case 'weekly': {
+      const weekday = (new Date(Date.UTC(year, month - 1, day)).getUTCDay() + 6) % 7; // Monday = 0
+      const monday = new Date(Date.UTC(year, month - 1, day - weekday));
+      return { startDate: dateOffset(0, monday), endDate: dateOffset(6, monday) };
+    }
+    case 'monthly':
+      return {
+        startDate: dateOffset(0, new Date(Date.UTC(year, month - 1, 1))),
+        endDate: dateOffset(0, new Date(Date.UTC(year, month, 0)))
+      };
+    case 'quarterly': {
+      const firstMonth = Math.floor((month - 1) / 3) * 3;
+      return {
+        startDate: dateOffset(0, new Date(Date.UTC(year, firstMonth, 1))),
+        endDate: dateOffset(0, new Date(Date.UTC(year, firstMonth + 3, 0)))
+      };
+    }
+    default:
+      throw new ServiceError(`period must be one of: ${ROI_PERIOD_TYPES.join(', ')}`, 400);
+  }
+}
+
+/**
+ * Compute and store the snapshot of the period containing a date (the
+ * period's not-yet-elapsed days are excluded)
+ */
+export async function snapshotRoi(hotelId: string, periodType: RoiPeriodType, date: string = dateOffset(-1)): Promise<RoiSnapshot> {
+  const period = periodBounds(periodType, date);
+  const endDate = period.endDate < date ? period.endDate : date;
+  const roi = await calculateRoi(hotelId, period.startDate, endDate);
+
+  const result = await query(
+    `INSERT INTO roi_metrics (
+       hotel_id, period_type, period_start, period_end, eywa_cost, revenue_gained,
+       commission_saved, time_saved_hrs, roi_percentage, vs_baseline
+     )
+     VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)
+     ON CONFLICT (hotel_id, period_type, period_start) DO UPDATE SET
+       period_end = EXCLUDED.period_end,
+       eywa_cost = EXCLUDED.eywa_cost,
+       revenue_gained = EXCLUDED.revenue_gained,
+       commission_saved = EXCLUDED.commission_saved,
+       time_saved_hrs = EXCLUDED.time_saved_hrs,
+       roi_percentage = EXCLUDED.roi_percentage,
+       vs_baseline = EXCLUDED.vs_baseline,
+       calculated_at = NOW()
+     RETURNING calculated_at`,
+    [
+      hotelId, periodType, period.startDate, endDate, roi.eywaCost, roi.revenueGained,
+      roi.commissionSaved, roi.timeSavedHours, roi.roiPercentage, JSON.stringify(baselineOf(roi))
+    ]
+  );
+
+  return { ...roi, periodType, calculatedAt: result.rows[0].calculated_at };
+}
+
+// Inputs behind a snapshot, kept so past periods stay explainable after the
+// hotel changes its assumptions
+function baselineOf(roi: RoiResult) {
+  return {
+    ai_direct_bookings: roi.aiDirectBookings,
+    ai_direct_revenue: roi.aiDirectRevenue,
+    displacement_rate: roi.displacementRate,
+    commission_rate: roi.commissionRate,
+    licence_cost: roi.licenceCost,
+    ai_cost: roi.aiCost,
+    ai_sessions: roi.aiSessions,
+    net_gain: roi.netGain,
+    channels: roi.channels
+  };
+}
+
+/**
+ * Stored snapshots of a period type, most recent first
+ */
+export async function listRoiSnapshots(hotelId: string, periodType: RoiPeriodType, limit = 12): Promise<RoiSnapshot[]> {
+  periodBounds(periodType);
+
+  const result = await query(
+    `SELECT to_char(period_start, 'YYYY-MM-DD') AS period_start, to_char(period_end, 'YYYY-MM-DD') AS period_end,
+            eywa_cost, revenue_gained, commission_saved, time_saved_hrs, roi_percentage, vs_baseline, calculated_at
+     FROM roi_metrics
+     WHERE hotel_id = $1 AND period_type = $2
+     ORDER BY period_start DESC
+     LIMIT $3`,
+    [hotelId, periodType, limit]
+  );
+
+  return result.rows.map(row => {
+    const baseline = row.vs_baseline || {};
+    return {
+      periodType,
+      startDate: row.period_start,
+      endDate: row.period_end,
+      aiDirectBookings: Number(baseline.ai_direct_bookings) || 0,
+      aiDirectRevenue: Number(baseline.ai_direct_revenue) || 0,
+      displacementRate: Number(baseline.displacement_rate) || 0,
+      revenueGained: Number(row.revenue_gained) || 0,
+      commissionRate: Number(baseline.commission_rate) || 0,
+      commissionSaved: Number(row.commission_saved) || 0,
+      licenceCost: Number(baseline.licence_cost) || 0,
+      aiCost: Number(baseline.ai_cost) || 0,
+      eywaCost: Number(row.eywa_cost) || 0,
+      netGain: Number(baseline.net_gain) || 0,
+      roiPercentage: Number(row.roi_percentage) || 0,
+      aiSessions: Number(baseline.ai_sessions) || 0,
+      timeSavedHours: Number(row.time_saved_hrs) || 0,
+      channels: baseline.channels || [],
+      calculatedAt: row.calculated_at
+    };
+  });
+}
+
+/**
+ * Refresh the weekly, monthly and quarterly snapshots containing yesterday
+ * for every active hotel. One hotel failing does not stop the others.
+ */
+export async function runRoiSnapshotJob(date: string = dateOffset(-1)): Promise<RoiSnapshotJobResult> {
+  const startTime = Date.now();
+  const hotels = await query('SELECT id FROM hotels WHERE is_active = true ORDER BY created_at');
+
+  let snapshots = 0;
+  let hotelsFailed = 0;
+  for (const { id: hotelId } of hotels.rows) {
+    try {
+      for (const periodType of ROI_PERIOD_TYPES) {
+        await snapshotRoi(hotelId, periodType, date);
+        snapshots++;
+      }
+    } catch (error: any) {
+      hotelsFailed++;
+      console.warn(`⚠️ ROI snapshot failed for hotel ${hotelId}: ${error.message}`);
+    }
+  }
+
+  return {
+    hotelsTotal: hotels.rows.length,
+    hotelsSuccess: hotels.rows.length - hotelsFailed,
+    hotelsFailed,
+    snapshots,
+    duration: Date.now() - startTime
+  };
+}
@@ -0,0 +1,212 @@
+/**
+ * SMTP Client
+ *
+ * Minimal SMTP submission client for notification emails: plain-text UTF-8
+ * messages to a single recipient, over implicit TLS (port 465) or plain TCP
+ * upgraded with STARTTLS when the server offers it, with AUTH PLAIN. With
+ * credentials, a server that does not offer STARTTLS is refused unless
+ * requireTls is turned off. Runs on node's net / tls modules (no mail library).
+ */
+
+import net from 'net';
+import tls from 'tls';
+import crypto from 'crypto';
+
+export interface SmtpConfig {
+  host: string;
+  port: number;
+  secure: boolean; // implicit TLS (465); otherwise STARTTLS when offered
+  user?: string;
+  password?: string;
+  requireTls?: boolean; // refuse to send without TLS (default: on when user is set)
+  from: string; // "Eywa <alerts@example.com>" or a bare address
+  heloName?: string;
+  timeoutMs?: number;
+  tlsOptions?: tls.ConnectionOptions; // e.g. a CA for a private relay
+}
+
+export interface MailMessage {
+  to: string;
+  subject: string;
+  text: string;
+}
+
+/**
+ * SMTP failure; transient ones (4xx replies, network errors) are worth a retry
+ */
+export class SmtpError extends Error {
+  constructor(message: string, public readonly code: number | null, public readonly transient: boolean) {
+    super(message);
+    this.name = 'SmtpError';
+  }
+}
+
+interface SmtpReply {
+  code: number;
+  lines: string[];
+}
+
+const DEFAULT_TIMEOUT_MS = 15000;
+
+// Reads multi-line replies ("250-..." continues, "250 ..." ends) from the current socket
+class ReplyReader {
+  private buffer = '';
+  private lines: string[] = [];
+  private waiting: { resolve: (reply: SmtpReply) => void; reject: (error: Error) => void } | null = null;
+  private failure: Error | null = null;
+  private socket!: net.Socket;
+
+  constructor(socket: net.Socket) {
+    this.attach(socket);
+  }
+
+  attach(socket: net.Socket): void {
+    this.socket = socket;
+    socket.setEncoding('utf8');
+    socket.on('data', (chunk: string) => this.onData(chunk));
+    socket.on('error', error => this.fail(new SmtpError(`SMTP connection error: ${error.message}`, null, true)));
+    socket.on('close', () => this.fail(new SmtpError('SMTP connection closed', null, true)));
+  }
+
+  detach(): void {
+    this.socket.removeAllListeners('data');
+    this.socket.removeAllListeners('error');
+    this.socket.removeAllListeners('close');
+  }
+
+  read(): Promise<SmtpReply> {
+    if (this.failure) return Promise.reject(this.failure);
+    return new Promise((resolve, reject) => {
+      this.waiting = { resolve, reject };
+      this.drain();
+    });
+  }
+
+  private onData(chunk: string): void {
+    this.buffer += chunk;
+    this.drain();
+  }
+
+  private drain(): void {
+    let index: number;
+    while (this.waiting && (index = this.buffer.indexOf('\r\n')) >= 0) {
+      const line = this.buffer.slice(0, index);
+      this.buffer = this.buffer.slice(index + 2);
+      this.lines.push(line.slice(4));
+      if (line[3] !== '-') {
+        const reply = { code: parseInt(line.slice(0, 3)), lines: this.lines };
+        const { resolve } = this.waiting;
+        this.lines = [];
+        this.waiting = null;
+        resolve(reply);
+      }
+    }
+  }
+
+  private fail(error: Error): void {
+    if (this.failure) return;
+    this.failure = error;
+    if (this.waiting) {
+      this.waiting.reject(error);
+      this.waiting = null;
+    }
+  }
+}
+
+function addressOf(mailbox: string): string {
+  const match = mailbox.match(/<([^>]+)>/);
+  return (match ? match[1] : mailbox).trim();
+}
+
+// RFC 2047 encoded-word for non-ASCII headers
+function encodeHeader(value: string): string {
+  return /^[\x20-\x7e]*$/.test(value) ? value : `=?UTF-8?B?${Buffer.from(value, 'utf8').toString('base64')}?=`;
+}
+
+/**
+ * RFC 5322 message (base64 body, so lines stay short and no dot-stuffing is needed)
+ */
+export function buildMessage(from: string, mail: MailMessage, heloName: string, date = new Date()): string {
+  const body = Buffer.from(mail.text, 'utf8').toString('base64').replace(/.{76}/g, '$&\r\n');
+  return [
+    `From: ${from}`,
+    `To: ${mail.to}`,
+    `Subject: ${encodeHeader(mail.subject.replace(/[\r\n]+/g, ' '))}`,
+    `Date: ${date.toUTCString()}`,
+    `Message-ID: <${crypto.randomUUID()}@${heloName}>`,
+    'MIME-Version: 1.0',
+    'Content-Type: text/plain; charset=utf-8',
+    'Content-Transfer-Encoding: base64',
+    '',
+    body,
+  ].join('\r\n');
+}
+
+function connect(config: SmtpConfig): Promise<net.Socket> {
+  return new Promise((resolve, reject) => {
+    const socket: net.Socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host, ...config.tlsOptions }, () => resolve(socket))
+      : net.connect({ host: config.host, port: config.port }, () => resolve(socket));
+    socket.once('error', error => reject(new SmtpError(`SMTP connection failed: ${error.message}`, null, true)));
+  });
+}
+
+function upgrade(socket: net.Socket, config: SmtpConfig): Promise<tls.TLSSocket> {
+  return new Promise((resolve, reject) => {
+    const secured = tls.connect({ socket, servername: config.host, ...config.tlsOptions }, () => resolve(secured));
+    secured.once('error', error => reject(new SmtpError(`STARTTLS failed: ${error.message}`, null, true)));
+  });
+}
+
+/**
+ * Send one message; resolves with its Message-ID
+ */
+export async function sendMail(config: SmtpConfig, mail: MailMessage): Promise<string> {
+  const heloName = config.heloName || 'localhost';
+  let socket = await connect(config);
+  socket.setTimeout(config.timeoutMs ?? DEFAULT_TIMEOUT_MS, () => socket.destroy(new Error('timeout')));
+  const reader = new ReplyReader(socket);
+
+  const expect = async (command: string | null, codes: number[], label = command?.split(/[ :]/)[0] || 'greeting'): Promise<SmtpReply> => {
+    if (command !== null) socket.write(`${command}\r\n`);
+    const reply = await reader.read();
+    if (!codes.includes(reply.code)) {
+      throw new SmtpError(`SMTP ${label} rejected: ${reply.code} ${reply.lines.join(' ')}`, reply.code, reply.code >= 400 && reply.code < 500);
+    }
+    return reply;
+  };
+
+  try {
+    await expect(null, [220]);
+    const ehlo = await expect(`EHLO ${heloName}`, [250]);
+
+    let encrypted = config.secure;
+    if (!encrypted && ehlo.lines.some(line => line.toUpperCase().startsWith('STARTTLS'))) {
+      await expect('STARTTLS', [220]);
+      reader.detach();
+      socket = await upgrade(socket, config);
+      reader.attach(socket);
+      await expect(`EHLO ${heloName}`, [250]);
+      encrypted = true;
+    }
+    if (!encrypted && (config.requireTls ?? Boolean(config.user))) {
+      throw new SmtpError('SMTP server does not offer STARTTLS; refusing to send credentials or mail in cleartext', null, false);
+    }
+
+    if (config.user) {
+      const credentials = Buffer.from(`\u0000${config.user}\u0000${config.password || ''}`, 'utf8').toString('base64');
+      await expect(`AUTH PLAIN ${credentials}`, [235]);
+    }
+
+    const message = buildMessage(config.from, mail, heloName);
+    await expect(`MAIL FROM:<${addressOf(config.from)}>`, [250]);
+    await expect(`RCPT TO:<${addressOf(mail.to)}>`, [250, 251]);
+    await expect('DATA', [354]);
+    await expect(`${message}\r\n.`, [250], 'message');
+    await expect('QUIT', [221]).catch(() => undefined);
+
+    return message.match(/^Message-ID: (.+)$/m)![1];
+  } finally {
+    socket.destroy();
+  }
+}
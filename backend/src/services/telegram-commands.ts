@@ -1,7 +1,8 @@
 // Eywa AI - Telegram Commands for PMS Testing
 // Commands that can be called from Telegram via Clawdbot
 
-import { pmsRouter, PMSType, PMS_LIST, createAdapter } from './pms-router';
+import { pmsRouter, PMSType, PMSEnvironment, PMS_LIST, ADAPTER_SPECS, validateCredentials } from './pms-router';
+import { maskCredentials } from './credential-vault.js';
 
 // Parse command from message
 export function parseCommand(message: string): { command: string; args: string[] } | null {
@@ -27,7 +28,7 @@ export async function executeCommand(command: string, args: string[]): Promise<s
       return await testPMS(args);
     
     case 'status':
-      return getStatus();
+      return await getStatus();
     
     case 'connect':
       return await connectPMS(args);
@@ -52,7 +53,7 @@ function getHelp(): string {
 **Commands:**
 \`/eywa list\` - List all supported PMS (17 total)
 \`/eywa test <pms>\` - Test connection to a PMS
-\`/eywa connect <pms> <credentials>\` - Connect a PMS
+\`/eywa connect <pms> eywa_hotel=<id> <credentials>\` - Connect a PMS to an Eywa hotel
 \`/eywa status\` - Show active connections
 \`/eywa availability <hotel_id> <start> <end>\` - Get availability
 \`/eywa reservations <hotel_id>\` - Get reservations
@@ -61,7 +62,9 @@ function getHelp(): string {
 **Examples:**
 \`/eywa list\`
 \`/eywa test apaleo\`
-\`/eywa connect mews client_token=xxx access_token=yyy\`
+\`/eywa connect mews eywa_hotel=xxx client_token=xxx access_token=yyy\`
+\`/eywa connect opera eywa_hotel=xxx hotel_id=HOTEL1 client_id=xxx client_secret=yyy enterprise_id=zzz\`
+\`/eywa connect apaleo eywa_hotel=xxx environment=stub client_id=demo\`
 \`/eywa availability hotel1 2024-03-01 2024-03-05\`
 
 **Coverage:** ~90% of global hotel market`;
@@ -75,14 +78,16 @@ function listPMS(): string {
     'US': PMS_LIST.filter(p => ['stayntouch', 'webrezpro'].includes(p.type)),
     'Enterprise': PMS_LIST.filter(p => p.type === 'inforhms'),
     'Vacation Rentals': PMS_LIST.filter(p => ['hostaway', 'beds24', 'guesty'].includes(p.type)),
+    'Turkey': PMS_LIST.filter(p => ['elektraweb', 'hotelrunner'].includes(p.type)),
   };
 
-  let result = '🏨 **Supported PMS Systems (17)**\n\n';
+  let result = `🏨 **Supported PMS Systems (${PMS_LIST.length})**\n\n`;
   
   for (const [region, pms] of Object.entries(grouped)) {
     result += `**${region}:**\n`;
     for (const p of pms) {
-      result += `  • ${p.name} (\`${p.type}\`) - ${p.authType}\n`;
+      const writes = p.capabilities.writes.length > 0 ? ` · writes: ${p.capabilities.writes.join(', ')}` : '';
+      result += `  • ${p.name} (\`${p.type}\`) - ${p.authType}${writes}\n`;
     }
     result += '\n';
   }
@@ -109,18 +114,28 @@ async function testPMS(args: string[]): Promise<string> {
     return `✅ **${pmsInfo.name}** adapter ready!\n\n` +
       `• Type: \`${pmsType}\`\n` +
       `• Auth: ${pmsInfo.authType}\n` +
-      `• Region: ${pmsInfo.region}\n\n` +
-      `To connect: \`/eywa connect ${pmsType} <credentials>\``;
+      `• Region: ${pmsInfo.region}\n` +
+      `• Credentials: ${describeCredentials(pmsType)}\n\n` +
+      `To connect: \`/eywa connect ${pmsType} hotel_id=<hotel_id> <credentials>\``;
   } catch (error: any) {
     return `❌ Error: ${error.message}`;
   }
 }
 
-function getStatus(): string {
-  const connections = pmsRouter.listConnections();
+function describeCredentials(pmsType: PMSType): string {
+  const spec = ADAPTER_SPECS[pmsType];
+  const parts = spec.required.map(key => `\`${key}\``);
+  if (spec.oneOf) {
+    parts.push(spec.oneOf.map(group => group.map(key => `\`${key}\``).join(' + ')).join(' or '));
+  }
+  return parts.join(', ');
+}
+
+async function getStatus(): Promise<string> {
+  const connections = await pmsRouter.listConnections();
   
   if (connections.length === 0) {
-    return '📭 No active PMS connections.\n\nUse `/eywa connect <pms> <credentials>` to add one.';
+    return '📭 No active PMS connections.\n\nUse `/eywa connect <pms> hotel_id=<hotel_id> <credentials>` to add one.';
   }
 
   let result = '📊 **Active PMS Connections**\n\n';
@@ -130,8 +145,15 @@ function getStatus(): string {
     result += `${status} **${conn.hotelId}**\n`;
     result += `  • PMS: ${conn.pmsType}\n`;
     result += `  • Env: ${conn.environment}\n`;
+    const credentials = Object.entries(maskCredentials(conn.credentials));
+    if (credentials.length > 0) {
+      result += `  • Credentials: ${credentials.map(([key, value]) => `${key}=${value}`).join(' ')}\n`;
+    }
     if (conn.lastSyncAt) {
-      result += `  • Last sync: ${conn.lastSyncAt.toISOString()}\n`;
+      result += `  • Last sync: ${new Date(conn.lastSyncAt).toISOString()}\n`;
+    }
+    if (conn.syncStatus === 'error') {
+      result += `  • Sync error: ${conn.syncError}\n`;
     }
     result += '\n';
   }
@@ -141,10 +163,10 @@ function getStatus(): string {
 
 async function connectPMS(args: string[]): Promise<string> {
   if (args.length < 2) {
-    return '❌ Usage: `/eywa connect <pms_type> <key>=<value> ...`\n\n' +
+    return '❌ Usage: `/eywa connect <pms_type> eywa_hotel=<hotel_id> <key>=<value> ...`\n\n' +
       'Example:\n' +
-      '`/eywa connect mews client_token=xxx access_token=yyy`\n' +
-      '`/eywa connect apaleo client_id=xxx client_secret=yyy`';
+      '`/eywa connect mews eywa_hotel=xxx client_token=xxx access_token=yyy`\n' +
+      '`/eywa connect apaleo eywa_hotel=xxx client_id=xxx client_secret=yyy`';
   }
 
   const pmsType = args[0] as PMSType;
@@ -163,27 +185,38 @@ async function connectPMS(args: string[]): Promise<string> {
     }
   }
 
+  // eywa_hotel and environment=sandbox|production|stub are connection options, not credentials
+  // (hotel_id stays a credential: Opera, StayNTouch and Infor HMS need the PMS hotel id)
+  const hotelId = credentials.eywa_hotel;
+  const environment = (credentials.environment as PMSEnvironment) || 'sandbox';
+  delete credentials.eywa_hotel;
+  delete credentials.environment;
+
+  if (!hotelId) {
+    return '❌ Missing `eywa_hotel=<hotel_id>` (the Eywa hotel to attach this PMS to)';
+  }
+
   if (Object.keys(credentials).length === 0) {
     return '❌ No credentials provided. Use format: `key=value`';
   }
 
+  const missing = validateCredentials(pmsType, credentials);
+  if (missing.length > 0 && environment !== 'stub') {
+    return `❌ Missing ${pmsInfo.name} credentials: ${missing.join(', ')}`;
+  }
+
   try {
     // Test the connection
-    const result = await pmsRouter.testConnection(pmsType, credentials);
+    const result = await pmsRouter.testConnection(pmsType, credentials, environment);
     
     if (result.success) {
-      // Generate a hotel ID
-      const hotelId = result.data?.id || `hotel_${Date.now()}`;
-      
       // Register the connection
-      pmsRouter.registerConnection({
-        id: `conn_${Date.now()}`,
+      await pmsRouter.registerConnection({
         hotelId,
         pmsType,
         credentials,
-        environment: (credentials.environment as 'sandbox' | 'production') || 'sandbox',
-        isActive: true,
-        createdAt: new Date()
+        environment,
+        isActive: true
       });
 
       return `✅ **Connected to ${pmsInfo.name}!**\n\n` +
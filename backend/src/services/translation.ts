@@ -0,0 +1,62 @@
+/**
+ * Review Translation Providers
+ *
+ * Optional translation of review text for hotel teams that do not read every
+ * language their guests write in. The provider is picked with
+ * TRANSLATION_PROVIDER; the default 'none' is a local no-op that returns the
+ * text untouched, so nothing leaves the box unless a real provider is
+ * registered with registerTranslationProvider.
+ */
+
+export interface TranslationResult {
+  text: string;
+  from: string | null; // language of the original, when known
+  to: string;
+  translated: boolean; // false when the text was returned as is
+  provider: string;
+}
+
+export interface TranslationProvider {
+  translate(text: string, from: string | null, to: string): Promise<TranslationResult>;
+}
+
+/**
+ * Returns the original text (no network, no translation)
+ */
+export class NoopTranslationProvider implements TranslationProvider {
+  async translate(text: string, from: string | null, to: string): Promise<TranslationResult> {
+    return { text, from, to, translated: false, provider: 'none' };
+  }
+}
+
+// TRANSLATION_PROVIDER value -> provider
+const TRANSLATION_PROVIDERS: Record<string, TranslationProvider> = {
+  none: new NoopTranslationProvider(),
+};
+
+/**
+ * Plug a translation provider in under a name (replaces any existing one)
+ */
+export function registerTranslationProvider(name: string, provider: TranslationProvider): void {
+  TRANSLATION_PROVIDERS[name] = provider;
+}
+
+/**
+ * Provider named by TRANSLATION_PROVIDER, the no-op one when unset or unknown
+ */
+export function getTranslationProvider(): TranslationProvider {
+  const name = process.env.TRANSLATION_PROVIDER || 'none';
+  return Object.prototype.hasOwnProperty.call(TRANSLATION_PROVIDERS, name)
+    ? TRANSLATION_PROVIDERS[name]
+    : TRANSLATION_PROVIDERS.none;
+}
+
+/**
+ * Translate a review text unless it is already in the target language
+ */
+export async function translateReview(text: string, from: string | null, to: string): Promise<TranslationResult> {
+  if (from === to) {
+    return { text, from, to, translated: false, provider: 'none' };
+  }
+  return getTranslationProvider().translate(text, from, to);
+}
@@ -5,7 +5,8 @@
  * Uses the Location Details and Location Search endpoints.
  * 
  * API Docs: https://tripadvisor-content-api.readme.io/reference
- * Rate Limit: 50 QPS
+ * Rate Limit: 50 QPS (requests are spaced client-side; HTTP 429 raises
+ * TripAdvisorRateLimitError with the Retry-After delay)
  * Auth: API Key in header
  */
 
@@ -21,6 +22,19 @@ const LOCATION_SEARCH_URL = `${BASE_URL}/location/search`;
 const LOCATION_DETAILS_URL = (id: string) => `${BASE_URL}/location/${id}/details`;
 const LOCATION_REVIEWS_URL = (id: string) => `${BASE_URL}/location/${id}/reviews`;
 
+// Spacing between requests to stay under 50 QPS
+const MIN_REQUEST_INTERVAL_MS = 20;
+
+// Used when a 429 response has no Retry-After header
+const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+export class TripAdvisorRateLimitError extends Error {
+  constructor(public readonly retryAfterSeconds: number) {
+    super(`TripAdvisor rate limit exceeded, retry after ${retryAfterSeconds}s`);
+    this.name = 'TripAdvisorRateLimitError';
+  }
+}
+
 export interface TripAdvisorLocation {
   location_id: string;
   name: string;
@@ -116,18 +130,51 @@ function addApiKey(url: string): string {
   return `${url}${separator}key=${TRIPADVISOR_API_KEY}`;
 }
 
+let nextRequestAt = 0;
+
+/**
+ * Wait for the next request slot (concurrent callers are queued)
+ */
+async function throttle(): Promise<void> {
+  const now = Date.now();
+  const slot = Math.max(now, nextRequestAt);
+  nextRequestAt = slot + MIN_REQUEST_INTERVAL_MS;
+  if (slot > now) {
+    await new Promise(resolve => setTimeout(resolve, slot - now));
+  }
+}
+
+/**
+ * GET a TripAdvisor endpoint within the rate limit
+ */
+async function request(url: string): Promise<Response> {
+  await throttle();
+
+  const response = await fetch(addApiKey(url), {
+    method: 'GET',
+    headers: getHeaders(),
+  });
+
+  if (response.status === 429) {
+    const retryAfter = parseInt(response.headers?.get('Retry-After') || '', 10);
+    throw new TripAdvisorRateLimitError(retryAfter > 0 ? retryAfter : DEFAULT_RETRY_AFTER_SECONDS);
+  }
+  return response;
+}
+
 /**
  * Parse ranking string to extract position and total
- * Input: "#15 of 234 Hotels in Paris"
- * Output: { position: 15, total: 234 }
+ * Input: "#15 of 1,834 Hotels in Paris"
+ * Output: { position: 15, total: 1834 }
  */
 export function parseRankingString(ranking: string): { position: number; total: number; context: string } {
-  const match = ranking.match(/#(\d+) of (\d+) (.+)/i);
+  const match = ranking.match(/#([\d,]+) of ([\d,]+) (.+)/i);
   if (match) {
+    const total = parseInt(match[2].replace(/,/g, ''), 10);
     return {
-      position: parseInt(match[1], 10),
-      total: parseInt(match[2], 10),
-      context: `of ${match[2]} ${match[3]}`,
+      position: parseInt(match[1].replace(/,/g, ''), 10),
+      total,
+      context: `of ${total} ${match[3]}`, // same number as ranking_total
     };
   }
   return { position: 0, total: 0, context: ranking };
@@ -157,12 +204,7 @@ export async function searchHotel(
     language: 'en',
   });
 
-  const url = addApiKey(`${LOCATION_SEARCH_URL}?${params}`);
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: getHeaders(),
-  });
+  const response = await request(`${LOCATION_SEARCH_URL}?${params}`);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -201,12 +243,7 @@ export async function searchNearbyHotels(
     params.append('radiusUnit', 'km');
   }
 
-  const url = addApiKey(`${LOCATION_SEARCH_URL}?${params}`);
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: getHeaders(),
-  });
+  const response = await request(`${LOCATION_SEARCH_URL}?${params}`);
 
   if (!response.ok) {
     const errorText = await response.text();
@@ -236,12 +273,7 @@ export async function getLocationDetails(locationId: string): Promise<TripAdviso
     currency: 'USD',
   });
 
-  const url = addApiKey(`${LOCATION_DETAILS_URL(locationId)}?${params}`);
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: getHeaders(),
-  });
+  const response = await request(`${LOCATION_DETAILS_URL(locationId)}?${params}`);
 
   if (!response.ok) {
     if (response.status === 404) {
@@ -291,12 +323,7 @@ export async function getLocationReviews(
     limit: limit.toString(),
   });
 
-  const url = addApiKey(`${LOCATION_REVIEWS_URL(locationId)}?${params}`);
-  
-  const response = await fetch(url, {
-    method: 'GET',
-    headers: getHeaders(),
-  });
+  const response = await request(`${LOCATION_REVIEWS_URL(locationId)}?${params}`);
 
   if (!response.ok) {
     if (response.status === 404) {
@@ -0,0 +1,6 @@
+// YYYY-MM-DD for today (UTC) shifted by a number of days
+export function dateOffset(days: number, from: Date = new Date()): string {
+  const copy = new Date(from);
+  copy.setUTCDate(copy.getUTCDate() + days);
+  return copy.toISOString().split('T')[0];
+}
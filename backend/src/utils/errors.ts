@@ -0,0 +1,7 @@
+// Error a service throws for the caller, with the HTTP status controllers answer with
+export class ServiceError extends Error {
+  constructor(message: string, public readonly status: number) {
+    super(message);
+    this.name = 'ServiceError';
+  }
+}
@@ -0,0 +1,5 @@
+// Rounds to a number of decimals (2 by default, e.g. amounts and rates)
+export function round(value: number, decimals = 2): number {
+  const factor = 10 ** decimals;
+  return Math.round(value * factor) / factor;
+}
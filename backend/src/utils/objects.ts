@@ -0,0 +1,7 @@
+// Drops undefined fields so partial updates never overwrite stored values
+export function withoutUndefined<T>(values: Partial<T>): Partial<T> {
+  for (const key of Object.keys(values) as Array<keyof T>) {
+    if (values[key] === undefined) delete values[key];
+  }
+  return values;
+}
@@ -0,0 +1,299 @@
+// Eywa AI - Shared PMS Adapter Contract
+// Single source of truth for the adapter interface and its data types.
+// Imported by the frontend adapters (src/adapters) and the backend PMS router.
+
+export interface IPMSAdapter {
+  name: string;
+  // Returns the token/key used for subsequent requests (validates credentials)
+  authenticate(forceRefresh?: boolean): Promise<string>;
+  getConfiguration(): Promise<HotelConfiguration>;
+  getAvailability(params: AvailabilityParams): Promise<Availability[]>;
+  getReservations(params?: ReservationParams): Promise<Reservation[]>;
+  getRoomTypes(): Promise<RoomType[]>;
+  getRates(): Promise<Rate[]>;
+}
+
+// Methods every adapter must implement (used by the conformance suite)
+export const PMS_ADAPTER_METHODS = [
+  'authenticate',
+  'getConfiguration',
+  'getAvailability',
+  'getReservations',
+  'getRoomTypes',
+  'getRates',
+] as const;
+
+// === Capability manifest ===
+// Every adapter class declares a static `capabilities` manifest so callers can
+// discover what a PMS supports before calling it.
+
+// Unified reads plus PMS-specific extras exposed by the adapter
+export type PMSReadCapability =
+  | 'configuration' | 'availability' | 'reservations' | 'reservationLookup' | 'roomTypes' | 'rates'
+  | 'listings' | 'calendars' | 'properties' | 'invoices' | 'channels';
+
+export type PMSWriteCapability =
+  | 'createReservation' | 'modifyReservation' | 'cancelReservation' | 'ari'
+  | 'checkIn' | 'checkOut';
+
+export type PMSCapability = PMSReadCapability | PMSWriteCapability;
+
+// How the PMS API pages large collections
+export type PMSPaging = 'none' | 'page' | 'offset' | 'cursor';
+
+// How much pricing detail getRates exposes:
+// none - no rates, room_rates - one base price per room type,
+// rate_plans - named rate plans, rate_plans_restrictions - plans plus stay restrictions
+export type RatePlanDepth = 'none' | 'room_rates' | 'rate_plans' | 'rate_plans_restrictions';
+
+export interface PMSCapabilities {
+  reads: PMSReadCapability[];
+  writes: PMSWriteCapability[];
+  webhooks: boolean;
+  paging: PMSPaging;
+  ratePlanDepth: RatePlanDepth;
+}
+
+export interface PMSAdapterClass {
+  capabilities: PMSCapabilities;
+}
+
+export const CORE_READS: PMSReadCapability[] = ['configuration', 'availability', 'reservations', 'roomTypes', 'rates'];
+
+// Adapter method backing each capability
+export const CAPABILITY_METHODS: Record<PMSCapability, string> = {
+  configuration: 'getConfiguration',
+  availability: 'getAvailability',
+  reservations: 'getReservations',
+  reservationLookup: 'getReservation',
+  roomTypes: 'getRoomTypes',
+  rates: 'getRates',
+  listings: 'getListings',
+  calendars: 'getCalendar',
+  properties: 'getProperties',
+  invoices: 'getInvoices',
+  channels: 'getChannels',
+  createReservation: 'createReservation',
+  modifyReservation: 'modifyReservation',
+  cancelReservation: 'cancelReservation',
+  ari: 'updateAri',
+  checkIn: 'checkIn',
+  checkOut: 'checkOut',
+};
+
+// Manifest declared by the adapter's class (undefined for undeclared adapters)
+export function capabilitiesOf(adapter: IPMSAdapter): PMSCapabilities | undefined {
+  return (adapter.constructor as Partial<PMSAdapterClass>).capabilities;
+}
+
+export function supportsCapability(adapter: IPMSAdapter, capability: PMSCapability): boolean {
+  const manifest = capabilitiesOf(adapter);
+  const declared = manifest
+    ? [...manifest.reads, ...manifest.writes].includes(capability)
+    : false;
+  return declared && typeof (adapter as unknown as Record<string, unknown>)[CAPABILITY_METHODS[capability]] === 'function';
+}
+
+export interface HotelConfiguration {
+  id: string;
+  name: string;
+  timezone: string;
+  currency: string;
+  address?: string;
+}
+
+export interface AvailabilityParams {
+  startDate: string;
+  endDate: string;
+  roomTypeId?: string;
+}
+
+export interface Availability {
+  date: string;
+  roomTypeId: string;
+  available: number;
+  rate: number;
+}
+
+export type ReservationStatus = 'confirmed' | 'cancelled' | 'checked_in' | 'checked_out';
+
+export interface ReservationParams {
+  startDate?: string;
+  endDate?: string;
+  status?: ReservationStatus;
+  // ISO timestamp; adapters that cannot filter on modification time ignore it,
+  // so callers must tolerate reservations that did not change
+  modifiedSince?: string;
+}
+
+export interface Reservation {
+  id: string;
+  guestName: string;
+  roomTypeId: string;
+  checkIn: string;
+  checkOut: string;
+  status: string;
+  totalAmount: number;
+  currency: string;
+  // Raw booking source / channel code as reported by the PMS
+  source?: string;
+  // Booking number given to the guest, when the PMS has one besides its id
+  confirmationNumber?: string;
+}
+
+export interface RoomType {
+  id: string;
+  name: string;
+  capacity: number;
+  description?: string;
+}
+
+export interface Rate {
+  id: string;
+  name: string;
+  roomTypeId: string;
+  price: number;
+  currency: string;
+}
+
+// === Optional single-reservation lookup ===
+// Lets webhook events refresh one booking without re-fetching the whole window.
+
+export interface IReservationLookup {
+  getReservation(reservationId: string): Promise<Reservation>;
+}
+
+export function canLookupReservations(adapter: IPMSAdapter): adapter is IPMSAdapter & IReservationLookup {
+  return typeof (adapter as Partial<IReservationLookup>).getReservation === 'function';
+}
+
+// === Optional write capabilities ===
+// Adapters implement these only when the PMS accepts reservation writes.
+// Every write carries an idempotency key so retries never double-book.
+
+export interface WriteOptions {
+  idempotencyKey: string;
+}
+
+export interface ReservationGuest {
+  firstName: string;
+  lastName: string;
+  email?: string;
+  phone?: string;
+}
+
+export interface CreateReservationInput {
+  roomTypeId: string;
+  ratePlanId?: string;
+  checkIn: string;
+  checkOut: string;
+  adults: number;
+  children?: number;
+  childrenAges?: number[];
+  guest: ReservationGuest;
+  totalAmount?: number;
+  currency?: string;
+  notes?: string;
+}
+
+export interface ModifyReservationInput {
+  roomTypeId?: string;
+  ratePlanId?: string;
+  checkIn?: string;
+  checkOut?: string;
+  adults?: number;
+  children?: number;
+  childrenAges?: number[];
+  guest?: Partial<ReservationGuest>;
+  notes?: string;
+}
+
+export interface CancelReservationOptions extends WriteOptions {
+  reason?: string;
+}
+
+export interface IReservationCreator {
+  createReservation(input: CreateReservationInput, options: WriteOptions): Promise<Reservation>;
+}
+
+export interface IReservationModifier {
+  modifyReservation(reservationId: string, changes: ModifyReservationInput, options: WriteOptions): Promise<Reservation>;
+}
+
+export interface IReservationCanceller {
+  cancelReservation(reservationId: string, options: CancelReservationOptions): Promise<void>;
+}
+
+export function canCreateReservations(adapter: IPMSAdapter): adapter is IPMSAdapter & IReservationCreator {
+  return typeof (adapter as Partial<IReservationCreator>).createReservation === 'function';
+}
+
+export function canModifyReservations(adapter: IPMSAdapter): adapter is IPMSAdapter & IReservationModifier {
+  return typeof (adapter as Partial<IReservationModifier>).modifyReservation === 'function';
+}
+
+export function canCancelReservations(adapter: IPMSAdapter): adapter is IPMSAdapter & IReservationCanceller {
+  return typeof (adapter as Partial<IReservationCanceller>).cancelReservation === 'function';
+}
+
+// === ARI push (availability, rates, restrictions) - optional capability ===
+
+// One update covers a room type (and optionally a rate plan) over an inclusive
+// date range. Only the fields that are set are pushed to the PMS.
+export interface AriUpdate {
+  roomTypeId: string;
+  ratePlanId?: string;
+  startDate: string;
+  endDate: string;
+  available?: number;
+  rate?: number;
+  currency?: string;
+  minStay?: number;
+  maxStay?: number;
+  closedToArrival?: boolean;
+  closedToDeparture?: boolean;
+  stopSell?: boolean;
+}
+
+export interface AriDateResult {
+  date: string;
+  roomTypeId: string;
+  ratePlanId?: string;
+  success: boolean;
+  error?: string;
+}
+
+export interface IAriUpdater {
+  updateAri(updates: AriUpdate[]): Promise<AriDateResult[]>;
+}
+
+export function canUpdateAri(adapter: IPMSAdapter): adapter is IPMSAdapter & IAriUpdater {
+  return typeof (adapter as Partial<IAriUpdater>).updateAri === 'function';
+}
+
+// Dates (YYYY-MM-DD) covered by an update, endDate inclusive
+export function ariDates(update: Pick<AriUpdate, 'startDate' | 'endDate'>): string[] {
+  const dates: string[] = [];
+  const end = new Date(`${update.endDate}T00:00:00Z`);
+  for (let day = new Date(`${update.startDate}T00:00:00Z`); day <= end; day.setUTCDate(day.getUTCDate() + 1)) {
+    dates.push(day.toISOString().split('T')[0]);
+  }
+  return dates;
+}
+
+// Whether an update carries a rate or stay restriction (vs. inventory only)
+export function hasAriRateFields(update: AriUpdate): boolean {
+  return [update.rate, update.minStay, update.maxStay, update.closedToArrival, update.closedToDeparture]
+    .some(value => value !== undefined);
+}
+
+// Per-date results for an update that succeeded or failed as a whole
+export function ariResults(update: AriUpdate, error?: string): AriDateResult[] {
+  return ariDates(update).map(date => ({
+    date,
+    roomTypeId: update.roomTypeId,
+    ratePlanId: update.ratePlanId,
+    success: !error,
+    error
+  }));
+}
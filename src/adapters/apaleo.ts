@@ -8,7 +8,21 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  CreateReservationInput,
+  ModifyReservationInput,
+  WriteOptions,
+  CancelReservationOptions,
+  IReservationCreator,
+  IReservationModifier,
+  IReservationCanceller,
+  IAriUpdater,
+  AriUpdate,
+  AriDateResult,
+  ariDates,
+  ariResults,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const APALEO_API_BASE = 'https://api.apaleo.com';
@@ -18,6 +32,12 @@ const TOKEN_REFRESH_BUFFER_MS = 60_000;
 type Primitive = string | number | boolean;
 type QueryValue = Primitive | Primitive[] | undefined;
 
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'PATCH' | 'DELETE';
+  body?: unknown;
+  idempotencyKey?: string;
+}
+
 export interface ApaleoAdapterConfig {
   clientId: string;
   clientSecret: string;
@@ -148,6 +168,8 @@ export interface ApaleoReservationItem {
     amount?: number;
     currency?: string;
   };
+  channelCode?: string;
+  source?: string;
   [key: string]: unknown;
 }
 
@@ -198,6 +220,12 @@ export interface ApaleoRatePlan {
   [key: string]: unknown;
 }
 
+export interface ApaleoCreateBookingResponse {
+  id?: string;
+  reservationIds?: Array<{ id: string }>;
+  [key: string]: unknown;
+}
+
 export interface ApaleoRatePlansResponse {
   ratePlans?: ApaleoRatePlan[];
   items?: ApaleoRatePlan[];
@@ -211,9 +239,19 @@ export interface ApaleoRatePlansResponse {
   [key: string]: unknown;
 }
 
-export class ApaleoAdapter implements IPMSAdapter {
+export class ApaleoAdapter
+  implements IPMSAdapter, IReservationCreator, IReservationModifier, IReservationCanceller, IAriUpdater
+{
   name = 'Apaleo';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'reservationLookup'],
+    writes: ['createReservation', 'modifyReservation', 'cancelReservation', 'ari'],
+    webhooks: true,
+    paging: 'page',
+    ratePlanDepth: 'rate_plans_restrictions'
+  };
+
   private readonly baseUrl: string;
   private readonly tokenUrl: string;
   private readonly clientId: string;
@@ -326,27 +364,24 @@ export class ApaleoAdapter implements IPMSAdapter {
       status: params.status
     };
 
+    // dateFilter=Modification makes from/to apply to the last change
+    if (params.modifiedSince) {
+      query.dateFilter = 'Modification';
+      query.from = params.modifiedSince;
+      query.to = new Date().toISOString();
+    }
+
     const response = await this.request<ApaleoReservationsResponse>('/booking/v1/reservations', query);
     const reservations = this.extractCollection<ApaleoReservationItem>(response, ['reservations']);
 
-    return reservations.map((reservation) => {
-      const guestFullName =
-        reservation.primaryGuest?.fullName ||
-        reservation.guest?.fullName ||
-        [reservation.primaryGuest?.firstName, reservation.primaryGuest?.lastName].filter(Boolean).join(' ') ||
-        [reservation.guest?.firstName, reservation.guest?.lastName].filter(Boolean).join(' ');
-
-      return {
-        id: reservation.id || reservation.reservationNumber || '',
-        guestName: guestFullName || 'Guest',
-        roomTypeId: reservation.unitGroupId || reservation.unitGroup?.id || '',
-        checkIn: reservation.arrival || reservation.checkIn || '',
-        checkOut: reservation.departure || reservation.checkOut || '',
-        status: reservation.status || 'confirmed',
-        totalAmount: reservation.totalGrossAmount?.amount ?? reservation.totalAmount?.amount ?? 0,
-        currency: reservation.totalGrossAmount?.currency || reservation.totalAmount?.currency || 'EUR'
-      };
-    });
+    return reservations.map((reservation) => this.mapReservation(reservation));
+  }
+
+  async getReservation(reservationId: string): Promise<Reservation> {
+    const reservation = await this.request<ApaleoReservationItem>(
+      `/booking/v1/reservations/${encodeURIComponent(reservationId)}`
+    );
+    return this.mapReservation(reservation);
   }
 
   async getRoomTypes(): Promise<RoomType[]> {
@@ -382,21 +417,217 @@ export class ApaleoAdapter implements IPMSAdapter {
     }));
   }
 
-  private async request<T>(path: string, query: Record<string, QueryValue> = {}, retry = true): Promise<T> {
+  // Write capabilities - bookings are created through the Booking API
+
+  async createReservation(input: CreateReservationInput, options: WriteOptions): Promise<Reservation> {
+    if (!input.ratePlanId) {
+      throw new Error('Apaleo createReservation requires ratePlanId.');
+    }
+    this.assertChildrenAges(input.children, input.childrenAges);
+
+    const primaryGuest = {
+      firstName: input.guest.firstName,
+      lastName: input.guest.lastName,
+      email: input.guest.email,
+      phone: input.guest.phone
+    };
+
+    const response = await this.request<ApaleoCreateBookingResponse>('/booking/v1/bookings', {}, {
+      method: 'POST',
+      idempotencyKey: options.idempotencyKey,
+      body: {
+        booker: primaryGuest,
+        comment: input.notes,
+        reservations: [
+          {
+            arrival: input.checkIn,
+            departure: input.checkOut,
+            adults: input.adults,
+            childrenAges: input.childrenAges,
+            primaryGuest,
+            guaranteeType: 'PM6Hold',
+            timeSlices: this.nights(input.checkIn, input.checkOut).map(() => ({ ratePlanId: input.ratePlanId }))
+          }
+        ]
+      }
+    });
+
+    return {
+      id: response.reservationIds?.[0]?.id || response.id || '',
+      guestName: `${input.guest.firstName} ${input.guest.lastName}`,
+      roomTypeId: input.roomTypeId,
+      checkIn: input.checkIn,
+      checkOut: input.checkOut,
+      status: 'Confirmed',
+      totalAmount: input.totalAmount ?? 0,
+      currency: input.currency || 'EUR'
+    };
+  }
+
+  async modifyReservation(
+    reservationId: string,
+    changes: ModifyReservationInput,
+    options: WriteOptions
+  ): Promise<Reservation> {
+    const id = encodeURIComponent(reservationId);
+    this.assertChildrenAges(changes.children, changes.childrenAges);
+
+    if (changes.checkIn || changes.checkOut || changes.adults !== undefined || changes.childrenAges || changes.ratePlanId) {
+      const current = await this.request<ApaleoReservationItem>(`/booking/v1/reservations/${id}`);
+      const arrival = changes.checkIn || current.arrival || '';
+      const departure = changes.checkOut || current.departure || '';
+
+      await this.request<unknown>(`/booking/v1/reservation-actions/${id}/amend`, {}, {
+        method: 'PUT',
+        idempotencyKey: options.idempotencyKey,
+        body: {
+          arrival,
+          departure,
+          adults: changes.adults,
+          childrenAges: changes.childrenAges,
+          timeSlices: changes.ratePlanId
+            ? this.nights(arrival, departure).map(() => ({ ratePlanId: changes.ratePlanId }))
+            : undefined
+        }
+      });
+    }
+
+    const patch: Array<{ op: 'replace'; path: string; value: unknown }> = [];
+    if (changes.notes !== undefined) patch.push({ op: 'replace', path: '/comment', value: changes.notes });
+    for (const [field, value] of Object.entries(changes.guest ?? {})) {
+      if (value !== undefined) patch.push({ op: 'replace', path: `/primaryGuest/${field}`, value });
+    }
+    if (patch.length > 0) {
+      await this.request<unknown>(`/booking/v1/reservations/${id}`, {}, {
+        method: 'PATCH',
+        idempotencyKey: options.idempotencyKey,
+        body: patch
+      });
+    }
+
+    return this.mapReservation(await this.request<ApaleoReservationItem>(`/booking/v1/reservations/${id}`));
+  }
+
+  async cancelReservation(reservationId: string, options: CancelReservationOptions): Promise<void> {
+    await this.request<unknown>(`/booking/v1/reservation-actions/${encodeURIComponent(reservationId)}/cancel`, {}, {
+      method: 'PUT',
+      idempotencyKey: options.idempotencyKey
+    });
+  }
+
+  private mapReservation(reservation: ApaleoReservationItem): Reservation {
+    const guestFullName =
+      reservation.primaryGuest?.fullName ||
+      reservation.guest?.fullName ||
+      [reservation.primaryGuest?.firstName, reservation.primaryGuest?.lastName].filter(Boolean).join(' ') ||
+      [reservation.guest?.firstName, reservation.guest?.lastName].filter(Boolean).join(' ');
+
+    return {
+      id: reservation.id || reservation.reservationNumber || '',
+      guestName: guestFullName || 'Guest',
+      roomTypeId: reservation.unitGroupId || reservation.unitGroup?.id || '',
+      checkIn: reservation.arrival || reservation.checkIn || '',
+      checkOut: reservation.departure || reservation.checkOut || '',
+      status: reservation.status || 'confirmed',
+      totalAmount: reservation.totalGrossAmount?.amount ?? reservation.totalAmount?.amount ?? 0,
+      currency: reservation.totalGrossAmount?.currency || reservation.totalAmount?.currency || 'EUR',
+      source: reservation.channelCode || reservation.source
+    };
+  }
+
+  // Apaleo prices children by age, so a bare child count is not enough
+  // ARI push - rates and restrictions are set per rate plan and night.
+  // Apaleo derives availability from units, so inventory counts are rejected.
+
+  async updateAri(updates: AriUpdate[]): Promise<AriDateResult[]> {
+    const results: AriDateResult[] = [];
+
+    for (const update of updates) {
+      if (!update.ratePlanId) {
+        results.push(...ariResults(update, 'Apaleo ARI updates require ratePlanId.'));
+        continue;
+      }
+      if (update.available !== undefined) {
+        results.push(...ariResults(update, 'Apaleo does not accept availability counts; availability follows units.'));
+        continue;
+      }
+
+      try {
+        await this.request<unknown>(`/rateplan/v1/rate-plans/${encodeURIComponent(update.ratePlanId)}/rates`, {}, {
+          method: 'PUT',
+          body: {
+            rates: ariDates(update).map(date => ({
+              from: date,
+              to: date,
+              price: update.rate !== undefined
+                ? { amount: update.rate, currency: update.currency || 'EUR' }
+                : undefined,
+              restrictions: {
+                minLengthOfStay: update.minStay,
+                maxLengthOfStay: update.maxStay,
+                closed: update.stopSell,
+                closedOnArrival: update.closedToArrival,
+                closedOnDeparture: update.closedToDeparture
+              }
+            }))
+          }
+        });
+        results.push(...ariResults(update));
+      } catch (error: any) {
+        results.push(...ariResults(update, error.message || 'Apaleo ARI update failed'));
+      }
+    }
+
+    return results;
+  }
+
+  private assertChildrenAges(children?: number, childrenAges?: number[]): void {
+    if ((children ?? 0) > (childrenAges?.length ?? 0)) {
+      throw new Error('Apaleo reservations require childrenAges for every child.');
+    }
+  }
+
+  // One entry per night between arrival and departure (Apaleo time slices)
+  private nights(arrival: string, departure: string): string[] {
+    const nights: string[] = [];
+    const day = new Date(`${arrival.slice(0, 10)}T00:00:00Z`);
+    const end = new Date(`${departure.slice(0, 10)}T00:00:00Z`);
+    while (day < end) {
+      nights.push(day.toISOString().slice(0, 10));
+      day.setUTCDate(day.getUTCDate() + 1);
+    }
+    return nights;
+  }
+
+  private async request<T>(
+    path: string,
+    query: Record<string, QueryValue> = {},
+    options: RequestOptions = {},
+    retry = true
+  ): Promise<T> {
     const token = await this.authenticate();
     const url = this.buildUrl(path, query);
 
+    const headers: Record<string, string> = {
+      Accept: 'application/json',
+      Authorization: `Bearer ${token}`
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = options.method === 'PATCH' ? 'application/json-patch+json' : 'application/json';
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
     const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        Accept: 'application/json',
-        Authorization: `Bearer ${token}`
-      }
+      method: options.method ?? 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
     });
 
     if (response.status === 401 && retry) {
       await this.authenticate(true);
-      return this.request<T>(path, query, false);
+      return this.request<T>(path, query, options, false);
     }
 
     const payload = await this.safeJson(response);
@@ -1,5 +1,18 @@
 // Eywa AI - Beds24 Channel Manager Adapter
 
+import {
+  IPMSAdapter,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  PMSCapabilities,
+  CORE_READS
+} from './types';
+
 const BEDS24_API_BASE = 'https://api.beds24.com/json';
 
 export interface Beds24Credentials {
@@ -7,6 +20,12 @@ export interface Beds24Credentials {
   propKey?: string;
 }
 
+export interface Beds24AdapterConfig extends Beds24Credentials {
+  baseUrl?: string;
+  // Property used for the unified methods (defaults to the first property)
+  propId?: number;
+}
+
 export interface Beds24AuthState {
   authenticated: boolean;
   apiKey: string;
@@ -132,19 +151,29 @@ export interface Beds24GetAvailabilityParams {
   to: string;
 }
 
-export class Beds24Adapter {
+export class Beds24Adapter implements IPMSAdapter {
   readonly name = 'Beds24';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'properties'],
+    writes: [],
+    webhooks: true,
+    paging: 'none',
+    ratePlanDepth: 'none'
+  };
+
   private readonly baseUrl: string;
+  private readonly propId?: number;
   private credentials: Beds24Credentials;
   private authState: Beds24AuthState | null = null;
 
-  constructor(config: Beds24Credentials & { baseUrl?: string }) {
+  constructor(config: Beds24AdapterConfig) {
     if (!config.apiKey) {
       throw new Beds24ApiError('Beds24 apiKey is required for authentication.');
     }
 
     this.baseUrl = config.baseUrl ?? BEDS24_API_BASE;
+    this.propId = config.propId;
     this.credentials = {
       apiKey: config.apiKey,
       propKey: config.propKey
@@ -160,7 +189,7 @@ export class Beds24Adapter {
     this.authState = null;
   }
 
-  async authenticate(): Promise<Beds24AuthState> {
+  async authenticate(): Promise<string> {
     // Beds24 JSON API authenticates each request with apiKey (+ optional propKey).
     // Validate credentials by making a low-cost request.
     await this.getProperties();
@@ -171,9 +200,79 @@ export class Beds24Adapter {
       propKey: this.credentials.propKey
     };
 
-    return this.authState;
+    return this.authState.apiKey;
+  }
+
+  // IPMSAdapter methods - Beds24 has no dedicated rate endpoint
+
+  async getConfiguration(): Promise<HotelConfiguration> {
+    const properties = await this.getProperties();
+    const property = properties.find((p) => p.propId === this.propId) ?? properties[0];
+    if (!property) {
+      throw new Beds24ApiError('Beds24 account has no properties.');
+    }
+
+    return {
+      id: String(property.propId),
+      name: property.name,
+      timezone: property.timezone || 'UTC',
+      currency: property.currency || 'EUR'
+    };
+  }
+
+  async getAvailability(params: AvailabilityParams): Promise<Availability[]> {
+    const days = await this.getAvailabilities({
+      propId: this.propId,
+      roomId: params.roomTypeId ? Number(params.roomTypeId) : undefined,
+      from: params.startDate,
+      to: params.endDate
+    });
+
+    return days.map((day) => ({
+      date: day.date,
+      roomTypeId: String(day.roomId),
+      available: day.qty,
+      rate: day.price ?? 0
+    }));
+  }
+
+  async getReservations(params: ReservationParams = {}): Promise<Reservation[]> {
+    const bookings = await this.getBookings({
+      propId: this.propId,
+      from: params.startDate,
+      to: params.endDate,
+      status: params.status
+    });
+
+    return bookings.map((booking) => ({
+      id: String(booking.bookingId),
+      guestName: String(booking.guestName ?? booking.guestFirstName ?? 'Guest'),
+      roomTypeId: String(booking.roomId ?? ''),
+      checkIn: booking.firstNight,
+      checkOut: booking.lastNight,
+      status: booking.status || 'confirmed',
+      totalAmount: booking.price ?? 0,
+      currency: 'EUR'
+    }));
   }
 
+  async getRoomTypes(): Promise<RoomType[]> {
+    const propId = this.propId ?? Number((await this.getConfiguration()).id);
+    const rooms = await this.getRooms({ propId });
+
+    return rooms.map((room) => ({
+      id: String(room.roomId),
+      name: room.roomName,
+      capacity: room.maxOccupancy ?? 2
+    }));
+  }
+
+  async getRates(): Promise<Rate[]> {
+    return [];
+  }
+
+  // Beds24-specific methods
+
   async getProperties(): Promise<Beds24Property[]> {
     const payload = await this.request<Beds24PropertiesResponse>('getProperties', {});
     return payload.properties ?? [];
@@ -200,7 +299,7 @@ export class Beds24Adapter {
     return payload.bookings ?? [];
   }
 
-  async getAvailability(params: Beds24GetAvailabilityParams): Promise<Beds24AvailabilityDay[]> {
+  async getAvailabilities(params: Beds24GetAvailabilityParams): Promise<Beds24AvailabilityDay[]> {
     const payload = await this.request<Beds24AvailabilityResponse>('getAvailabilities', {
       propId: params.propId,
       roomId: params.roomId,
@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const CLOCK_API_BASE = 'https://api.clock-software.com/v1';
@@ -103,6 +105,14 @@ export interface ClockReservation {
 export class ClockPMSAdapter implements IPMSAdapter {
   name = 'Clock PMS';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly propertyId: string;
@@ -160,6 +170,7 @@ export class ClockPMSAdapter implements IPMSAdapter {
     const reservations = response.reservations || response.data || [];
     return reservations.map(res => ({
       id: res.id || res.confirmationNumber || '',
+      confirmationNumber: res.confirmationNumber,
       guestName: res.guest ? [res.guest.firstName, res.guest.lastName].filter(Boolean).join(' ') : 'Guest',
       roomTypeId: res.roomTypeId || '',
       checkIn: res.arrival || '',
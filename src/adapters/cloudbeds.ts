@@ -8,7 +8,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const CLOUDBEDS_API_BASE = 'https://api.cloudbeds.com/api/v1.2';
@@ -60,6 +62,7 @@ type CloudbedsReservation = {
   status?: string;
   total?: number;
   currency?: string;
+  source_name?: string;
 };
 
 type CloudbedsRate = {
@@ -79,6 +82,15 @@ type CloudbedsAvailability = {
 
 export class CloudbedsAdapter implements IPMSAdapter {
   name = 'Cloudbeds';
+
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'reservationLookup'],
+    writes: [],
+    webhooks: true,
+    paging: 'page',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private baseUrl: string;
   private accessToken?: string;
   private username?: string;
@@ -93,7 +105,7 @@ export class CloudbedsAdapter implements IPMSAdapter {
     this.propertyId = config.propertyId;
   }
 
-  private async authenticate(): Promise<string> {
+  async authenticate(): Promise<string> {
     if (this.accessToken) return this.accessToken;
     if (!this.username || !this.password) {
       throw new Error('Cloudbeds authentication failed: missing access token or username/password.');
@@ -171,19 +183,19 @@ export class CloudbedsAdapter implements IPMSAdapter {
       property_id: this.propertyId,
       start_date: params.startDate,
       end_date: params.endDate,
-      status: params.status
+      status: params.status,
+      modified_from: params.modifiedSince
     });
 
-    return (data || []).map((res) => ({
-      id: res.reservation_id || '',
-      guestName: res.guest_name || 'Guest',
-      roomTypeId: res.room_type_id || '',
-      checkIn: res.checkin_date || '',
-      checkOut: res.checkout_date || '',
-      status: res.status || 'confirmed',
-      totalAmount: res.total || 0,
-      currency: res.currency || 'USD'
-    }));
+    return (data || []).map((res) => this.mapReservation(res));
+  }
+
+  async getReservation(reservationId: string): Promise<Reservation> {
+    const data = await this.request<CloudbedsReservation>('/getReservation', {
+      property_id: this.propertyId,
+      reservationID: reservationId
+    });
+    return this.mapReservation(data);
   }
 
   async getRates(): Promise<Rate[]> {
@@ -237,4 +249,18 @@ export class CloudbedsAdapter implements IPMSAdapter {
       description: room.description
     }));
   }
+
+  private mapReservation(res: CloudbedsReservation): Reservation {
+    return {
+      id: res.reservation_id || '',
+      guestName: res.guest_name || 'Guest',
+      roomTypeId: res.room_type_id || '',
+      checkIn: res.checkin_date || '',
+      checkOut: res.checkout_date || '',
+      status: res.status || 'confirmed',
+      totalAmount: res.total || 0,
+      currency: res.currency || 'USD',
+      source: res.source_name
+    };
+  }
 }
@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const EZEE_API_BASE = 'https://api.ezeetechnosys.com/v1';
@@ -109,6 +111,14 @@ export interface EzeeReservation {
 export class EzeeAdapter implements IPMSAdapter {
   name = 'eZee';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly hotelCode: string;
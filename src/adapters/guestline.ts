@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const GUESTLINE_API_BASE = 'https://api.guestline.com/v1';
@@ -185,6 +187,14 @@ export interface GuestlineReservationsResponse {
 export class GuestlineAdapter implements IPMSAdapter {
   name = 'Guestline';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'page',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly siteId: string;
@@ -281,6 +291,7 @@ export class GuestlineAdapter implements IPMSAdapter {
 
       return {
         id: res.reservationId || res.bookingRef || res.confirmationNumber || '',
+        confirmationNumber: res.confirmationNumber || res.bookingRef,
         guestName,
         roomTypeId: res.roomTypeId || res.roomTypeCode || '',
         checkIn: res.arrival || res.arrivalDate || '',
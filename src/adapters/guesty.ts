@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const GUESTY_API_BASE = 'https://api.guesty.com/api/v2';
@@ -116,6 +118,14 @@ export interface GuestyReservation {
 export class GuestyAdapter implements IPMSAdapter {
   name = 'Guesty';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'reservationLookup'],
+    writes: [],
+    webhooks: true,
+    paging: 'offset',
+    ratePlanDepth: 'room_rates'
+  };
+
   private readonly baseUrl: string;
   private readonly clientId: string;
   private readonly clientSecret: string;
@@ -200,16 +210,12 @@ export class GuestyAdapter implements IPMSAdapter {
       { from: params.startDate, to: params.endDate, status: params.status }
     );
     const reservations = response.results || response.data || [];
-    return reservations.map(res => ({
-      id: res._id || res.id || res.confirmationCode || '',
-      guestName: res.guest?.fullName || [res.guest?.firstName, res.guest?.lastName].filter(Boolean).join(' ') || 'Guest',
-      roomTypeId: res.listingId || '',
-      checkIn: res.checkInDateLocalized || res.checkIn || '',
-      checkOut: res.checkOutDateLocalized || res.checkOut || '',
-      status: res.status || 'confirmed',
-      totalAmount: res.money?.hostPayout ?? res.money?.totalPaid ?? 0,
-      currency: res.money?.currency || 'USD'
-    }));
+    return reservations.map(res => this.mapReservation(res));
+  }
+
+  async getReservation(reservationId: string): Promise<Reservation> {
+    const reservation = await this.request<GuestyReservation>(`/reservations/${encodeURIComponent(reservationId)}`);
+    return this.mapReservation(reservation);
   }
 
   async getRoomTypes(): Promise<RoomType[]> {
@@ -230,6 +236,21 @@ export class GuestyAdapter implements IPMSAdapter {
     return [];
   }
 
+  private mapReservation(res: GuestyReservation): Reservation {
+    return {
+      id: res._id || res.id || res.confirmationCode || '',
+      confirmationNumber: res.confirmationCode,
+      guestName: res.guest?.fullName || [res.guest?.firstName, res.guest?.lastName].filter(Boolean).join(' ') || 'Guest',
+      roomTypeId: res.listingId || '',
+      checkIn: res.checkInDateLocalized || res.checkIn || '',
+      checkOut: res.checkOutDateLocalized || res.checkOut || '',
+      status: res.status || 'confirmed',
+      totalAmount: res.money?.hostPayout ?? res.money?.totalPaid ?? 0,
+      currency: res.money?.currency || 'USD',
+      source: res.source
+    };
+  }
+
   private async request<T>(path: string, query: Record<string, QueryValue> = {}, retry = true): Promise<T> {
     const token = await this.authenticate();
     const url = this.buildUrl(path, query);
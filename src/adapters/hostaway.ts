@@ -1,5 +1,18 @@
 // Eywa AI - Hostaway PMS Adapter
 
+import {
+  IPMSAdapter,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  PMSCapabilities,
+  CORE_READS
+} from './types';
+
 const HOSTAWAY_API_BASE = 'https://api.hostaway.com/v1';
 const TOKEN_REFRESH_BUFFER_MS = 60_000;
 
@@ -184,9 +197,17 @@ interface TokenCache {
   expiresAt: number;
 }
 
-export class HostawayAdapter {
+export class HostawayAdapter implements IPMSAdapter {
   readonly name = 'Hostaway';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'reservationLookup', 'listings', 'calendars'],
+    writes: [],
+    webhooks: true,
+    paging: 'offset',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly clientId: string;
   private readonly clientSecret: string;
@@ -220,6 +241,76 @@ export class HostawayAdapter {
     return this.tokenCache.accessToken;
   }
 
+  // IPMSAdapter methods - Hostaway listings are mapped to room types
+
+  async getConfiguration(): Promise<HotelConfiguration> {
+    const [listing] = await this.getListings({ limit: 1 });
+    return {
+      id: String(listing?.accountId ?? listing?.id ?? ''),
+      name: listing?.name || 'Hostaway account',
+      timezone: listing?.timezone || 'UTC',
+      currency: listing?.currency || 'USD',
+      address: listing?.address
+    };
+  }
+
+  async getAvailability(params: AvailabilityParams): Promise<Availability[]> {
+    const days = await this.getCalendar({
+      listingId: params.roomTypeId ? Number(params.roomTypeId) : undefined,
+      startDate: params.startDate,
+      endDate: params.endDate
+    });
+
+    return days.map((day) => ({
+      date: day.date,
+      roomTypeId: String(day.listingId),
+      available: day.availableUnits ?? (day.available ? 1 : 0),
+      rate: day.price ?? day.basePrice ?? 0
+    }));
+  }
+
+  async getReservations(params: ReservationParams = {}): Promise<Reservation[]> {
+    const reservations = await this.listReservations({
+      checkInStartDate: params.startDate,
+      checkOutEndDate: params.endDate,
+      statuses: params.status ? [params.status] : undefined,
+      updatedSince: params.modifiedSince
+    });
+
+    return reservations.map((res) => this.mapReservation(res));
+  }
+
+  async getReservation(reservationId: string): Promise<Reservation> {
+    const response = await this.request<HostawayReservation>(`/reservations/${encodeURIComponent(reservationId)}`, {
+      method: 'GET'
+    });
+
+    return this.mapReservation(response.result);
+  }
+
+  async getRoomTypes(): Promise<RoomType[]> {
+    const listings = await this.getListings();
+    return listings.map((listing) => ({
+      id: String(listing.id),
+      name: listing.name,
+      capacity: listing.personCapacity ?? 2,
+      description: listing.roomType
+    }));
+  }
+
+  async getRates(): Promise<Rate[]> {
+    const rates = await this.listRates();
+    return rates.map((rate) => ({
+      id: String(rate.id),
+      name: rate.name || 'Standard',
+      roomTypeId: String(rate.listingId),
+      price: rate.amount ?? 0,
+      currency: rate.currency || 'USD'
+    }));
+  }
+
+  // Hostaway-specific methods
+
   async getListings(params: GetListingsParams = {}): Promise<HostawayListing[]> {
     const query: Record<string, QueryValue> = {
       limit: params.limit,
@@ -238,7 +329,7 @@ export class HostawayAdapter {
     return response.result;
   }
 
-  async getReservations(params: GetReservationsParams = {}): Promise<HostawayReservation[]> {
+  async listReservations(params: GetReservationsParams = {}): Promise<HostawayReservation[]> {
     const query: Record<string, QueryValue> = {
       listingId: params.listingId,
       status: params.statuses,
@@ -278,7 +369,7 @@ export class HostawayAdapter {
     return response.result;
   }
 
-  async getRates(params: GetRatesParams = {}): Promise<HostawayRate[]> {
+  async listRates(params: GetRatesParams = {}): Promise<HostawayRate[]> {
     const query: Record<string, QueryValue> = {
       listingId: params.listingId,
       listingIds: params.listingIds,
@@ -297,6 +388,20 @@ export class HostawayAdapter {
     return response.result;
   }
 
+  private mapReservation(res: HostawayReservation): Reservation {
+    return {
+      id: String(res.id),
+      guestName: res.guestName || 'Guest',
+      roomTypeId: String(res.listingId),
+      checkIn: res.checkInDate,
+      checkOut: res.checkOutDate,
+      status: res.status,
+      totalAmount: res.totalPrice ?? 0,
+      currency: res.currency || 'USD',
+      source: res.sourceName || res.source
+    };
+  }
+
   private async requestToken(): Promise<HostawayAuthResponse> {
     const body = new URLSearchParams({
       grant_type: 'client_credentials',
@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const HOTELOGIX_API_BASE = 'https://api.hotelogix.com/v1';
@@ -118,6 +120,14 @@ export interface HotelogixReservation {
 export class HotelogixAdapter implements IPMSAdapter {
   name = 'Hotelogix';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly hotelCode: string;
@@ -29,7 +29,7 @@ export { InforHMSAdapter, type InforHMSAdapterConfig } from './inforhms';
 
 // Vacation Rental / Channel Managers
 export { HostawayAdapter, type HostawayAdapterConfig } from './hostaway';
-export { Beds24Adapter } from './beds24';
+export { Beds24Adapter, type Beds24AdapterConfig } from './beds24';
 export { GuestyAdapter, type GuestyAdapterConfig } from './guesty';
 
 // Adapter registry for dynamic instantiation
@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const INFOR_API_BASE = 'https://api.infor.com/hms/v1';
@@ -112,6 +114,14 @@ export interface InforReservation {
 export class InforHMSAdapter implements IPMSAdapter {
   name = 'Infor HMS';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly clientId: string;
   private readonly clientSecret: string;
@@ -199,6 +209,7 @@ export class InforHMSAdapter implements IPMSAdapter {
     const reservations = response.reservations || response.data || [];
     return reservations.map(res => ({
       id: res.reservationId || res.confirmationNumber || '',
+      confirmationNumber: res.confirmationNumber,
       guestName: res.guest ? [res.guest.firstName, res.guest.lastName].filter(Boolean).join(' ') : 'Guest',
       roomTypeId: res.roomTypeId || '',
       checkIn: res.arrivalDate || '',
@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const LITTLE_HOTELIER_API_BASE = 'https://api.littlehotelier.com/v1';
@@ -102,6 +104,14 @@ export interface LittleHotelierReservation {
 export class LittleHotelierAdapter implements IPMSAdapter {
   name = 'Little Hotelier';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly propertyId: string;
@@ -1,6 +1,24 @@
 // Eywa AI - Mews PMS Adapter
 
-import { IPMSAdapter, HotelConfiguration, Availability, AvailabilityParams, Reservation, ReservationParams, RoomType, Rate } from './types';
+import {
+  IPMSAdapter,
+  HotelConfiguration,
+  Availability,
+  AvailabilityParams,
+  Reservation,
+  ReservationParams,
+  RoomType,
+  Rate,
+  CreateReservationInput,
+  ModifyReservationInput,
+  WriteOptions,
+  CancelReservationOptions,
+  IReservationCreator,
+  IReservationModifier,
+  IReservationCanceller,
+  PMSCapabilities,
+  CORE_READS
+} from './types';
 
 const MEWS_DEMO_URL = 'https://api.mews-demo.com/api/connector/v1';
 
@@ -12,13 +30,24 @@ const DEMO_CREDENTIALS = {
   Client: 'EywaAI'
 };
 
-export class MewsAdapter implements IPMSAdapter {
+export class MewsAdapter implements IPMSAdapter, IReservationCreator, IReservationModifier, IReservationCanceller {
   name = 'Mews';
+
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS, 'reservationLookup'],
+    writes: ['createReservation', 'modifyReservation', 'cancelReservation'],
+    webhooks: true,
+    paging: 'cursor',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private baseUrl: string;
   private credentials: typeof DEMO_CREDENTIALS;
+  private serviceId?: string;
 
-  constructor(config?: { baseUrl?: string; clientToken?: string; accessToken?: string }) {
+  constructor(config?: { baseUrl?: string; clientToken?: string; accessToken?: string; serviceId?: string }) {
     this.baseUrl = config?.baseUrl || MEWS_DEMO_URL;
+    this.serviceId = config?.serviceId;
     this.credentials = {
       ClientToken: config?.clientToken || DEMO_CREDENTIALS.ClientToken,
       AccessToken: config?.accessToken || DEMO_CREDENTIALS.AccessToken,
@@ -26,6 +55,11 @@ export class MewsAdapter implements IPMSAdapter {
     };
   }
 
+  // Mews Connector API sends the tokens with every request (no token exchange)
+  async authenticate(): Promise<string> {
+    return this.credentials.AccessToken;
+  }
+
   private async request<T>(endpoint: string, body: Record<string, unknown> = {}): Promise<T> {
     const response = await fetch(`${this.baseUrl}${endpoint}`, {
       method: 'POST',
@@ -67,23 +101,27 @@ export class MewsAdapter implements IPMSAdapter {
     })) || [];
   }
 
-  async getReservations(params: ReservationParams): Promise<Reservation[]> {
+  async getReservations(params: ReservationParams = {}): Promise<Reservation[]> {
     const data = await this.request<any>('/reservations/getAll', {
-      StartUtc: params.startDate,
-      EndUtc: params.endDate,
+      ...(params.modifiedSince
+        ? { UpdatedUtc: { StartUtc: params.modifiedSince, EndUtc: new Date().toISOString() } }
+        : { StartUtc: params.startDate, EndUtc: params.endDate }),
       States: params.status ? [params.status] : undefined
     });
     
-    return data.Reservations?.map((res: any) => ({
-      id: res.Id,
-      guestName: res.GuestName || 'Guest',
-      roomTypeId: res.RequestedCategoryId,
-      checkIn: res.StartUtc,
-      checkOut: res.EndUtc,
-      status: res.State,
-      totalAmount: res.TotalAmount?.Value || 0,
-      currency: res.TotalAmount?.Currency || 'EUR'
-    })) || [];
+    return data.Reservations?.map((res: any) => this.mapReservation(res)) || [];
+  }
+
+  async getReservation(reservationId: string): Promise<Reservation> {
+    const data = await this.request<any>('/reservations/getAll', {
+      ReservationIds: [reservationId]
+    });
+
+    const reservation = data.Reservations?.[0];
+    if (!reservation) {
+      throw new Error(`Mews reservation ${reservationId} not found.`);
+    }
+    return this.mapReservation(reservation);
   }
 
   async getRoomTypes(): Promise<RoomType[]> {
@@ -110,6 +148,121 @@ export class MewsAdapter implements IPMSAdapter {
       currency: rate.Price?.Currency || 'EUR'
     })) || [];
   }
+
+  // Write capabilities. Mews has no idempotency header; the key is sent as the
+  // reservation Identifier so it can be traced back in Mews.
+
+  async createReservation(input: CreateReservationInput, options: WriteOptions): Promise<Reservation> {
+    if (!input.ratePlanId) {
+      throw new Error('Mews createReservation requires ratePlanId.');
+    }
+
+    const serviceId = await this.resolveServiceId();
+    const customer = await this.request<any>('/customers/add', {
+      FirstName: input.guest.firstName,
+      LastName: input.guest.lastName,
+      Email: input.guest.email,
+      Phone: input.guest.phone,
+      OverwriteExisting: false
+    });
+
+    const data = await this.request<any>('/reservations/add', {
+      ServiceId: serviceId,
+      Reservations: [{
+        Identifier: options.idempotencyKey,
+        State: 'Confirmed',
+        StartUtc: input.checkIn,
+        EndUtc: input.checkOut,
+        CustomerId: customer.Id,
+        RequestedCategoryId: input.roomTypeId,
+        RateId: input.ratePlanId,
+        AdultCount: input.adults,
+        ChildCount: input.children ?? 0,
+        Notes: input.notes
+      }]
+    });
+
+    const created = data.Reservations?.[0]?.Reservation;
+    if (!created) {
+      throw new Error('Mews reservations/add returned no reservation.');
+    }
+
+    return this.mapReservation(created, `${input.guest.firstName} ${input.guest.lastName}`);
+  }
+
+  async modifyReservation(
+    reservationId: string,
+    changes: ModifyReservationInput,
+    options: WriteOptions
+  ): Promise<Reservation> {
+    const value = <T>(v: T | undefined) => (v === undefined ? undefined : { Value: v });
+
+    const data = await this.request<any>('/reservations/update', {
+      Reason: `Eywa AI ${options.idempotencyKey}`,
+      ReservationUpdates: [{
+        ReservationId: reservationId,
+        StartUtc: value(changes.checkIn),
+        EndUtc: value(changes.checkOut),
+        AdultCount: value(changes.adults),
+        ChildCount: value(changes.children),
+        RequestedCategoryId: value(changes.roomTypeId),
+        RateId: value(changes.ratePlanId),
+        Notes: value(changes.notes)
+      }]
+    });
+
+    const updated = data.Reservations?.[0];
+    if (!updated) {
+      throw new Error(`Mews reservation not found: ${reservationId}`);
+    }
+
+    if (changes.guest && (updated.AccountId || updated.CustomerId)) {
+      await this.request('/customers/update', {
+        CustomerId: updated.AccountId || updated.CustomerId,
+        FirstName: value(changes.guest.firstName),
+        LastName: value(changes.guest.lastName),
+        Email: value(changes.guest.email),
+        Phone: value(changes.guest.phone)
+      });
+    }
+
+    return this.mapReservation(updated);
+  }
+
+  async cancelReservation(reservationId: string, options: CancelReservationOptions): Promise<void> {
+    await this.request('/reservations/cancel', {
+      ReservationIds: [reservationId],
+      PostCancellationFee: false,
+      Notes: options.reason || `Cancelled via Eywa AI (${options.idempotencyKey})`
+    });
+  }
+
+  private async resolveServiceId(): Promise<string> {
+    if (this.serviceId) return this.serviceId;
+
+    const data = await this.request<any>('/services/getAll');
+    const service = data.Services?.find((s: any) => s.Data?.Discriminator === 'Bookable') || data.Services?.[0];
+    if (!service) {
+      throw new Error('Mews enterprise has no bookable service.');
+    }
+
+    this.serviceId = service.Id as string;
+    return this.serviceId;
+  }
+
+  private mapReservation(res: any, guestName?: string): Reservation {
+    return {
+      id: res.Id,
+      guestName: res.GuestName || guestName || 'Guest',
+      roomTypeId: res.RequestedCategoryId,
+      checkIn: res.StartUtc,
+      checkOut: res.EndUtc,
+      status: res.State,
+      totalAmount: res.TotalAmount?.Value || 0,
+      currency: res.TotalAmount?.Currency || 'EUR',
+      source: res.ChannelManager || res.Origin || undefined
+    };
+  }
 }
 
 // Test function
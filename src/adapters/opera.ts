@@ -10,7 +10,16 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  CreateReservationInput,
+  ModifyReservationInput,
+  WriteOptions,
+  CancelReservationOptions,
+  IReservationCreator,
+  IReservationModifier,
+  IReservationCanceller,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const OPERA_API_BASE = 'https://api.oraclehospitality.com';
@@ -19,6 +28,12 @@ const TOKEN_REFRESH_BUFFER_MS = 60_000;
 
 type QueryValue = string | number | boolean | undefined;
 
+interface RequestOptions {
+  method?: 'GET' | 'POST' | 'PUT' | 'DELETE';
+  body?: unknown;
+  idempotencyKey?: string;
+}
+
 export interface OperaAdapterConfig {
   clientId: string;
   clientSecret: string;
@@ -190,9 +205,25 @@ export interface OperaReservationsResponse {
   [key: string]: unknown;
 }
 
-export class OperaAdapter implements IPMSAdapter {
+export interface OperaCreateReservationResponse {
+  reservationIdList?: Array<{ id?: string; type?: string }>;
+  links?: Array<{ rel?: string; href?: string }>;
+  [key: string]: unknown;
+}
+
+export class OperaAdapter
+  implements IPMSAdapter, IReservationCreator, IReservationModifier, IReservationCanceller
+{
   name = 'Opera Cloud';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: ['createReservation', 'modifyReservation', 'cancelReservation'],
+    webhooks: true,
+    paging: 'offset',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly authUrl: string;
   private readonly clientId: string;
@@ -353,29 +384,7 @@ export class OperaAdapter implements IPMSAdapter {
 
     const reservations = response.reservations?.reservation || response.hotelReservations || [];
 
-    return reservations.map((res) => {
-      const resId = res.reservationId || 
-        res.reservationIdList?.find(id => id.type === 'Confirmation')?.id ||
-        res.confirmationNumber || '';
-
-      const guest = res.reservationGuests?.profileInfo?.profile?.customer?.personName?.[0];
-      const guestName = guest 
-        ? [guest.nameTitle, guest.givenName, guest.surname].filter(Boolean).join(' ')
-        : 'Guest';
-
-      const roomStay = res.roomStay;
-
-      return {
-        id: resId,
-        guestName,
-        roomTypeId: roomStay?.roomType || roomStay?.roomTypeCode || '',
-        checkIn: roomStay?.arrivalDate || roomStay?.expectedTimes?.reservationExpectedArrivalTime || '',
-        checkOut: roomStay?.departureDate || roomStay?.expectedTimes?.reservationExpectedDepartureTime || '',
-        status: res.status || res.reservationStatus || 'confirmed',
-        totalAmount: roomStay?.total?.amountAfterTax ?? roomStay?.total?.amountBeforeTax ?? 0,
-        currency: roomStay?.total?.currencyCode || 'USD'
-      };
-    });
+    return reservations.map((res) => this.mapReservation(res));
   }
 
   async getRoomTypes(): Promise<RoomType[]> {
@@ -409,27 +418,191 @@ export class OperaAdapter implements IPMSAdapter {
     }));
   }
 
+  // Write capabilities - Opera accepts an idempotency key header on writes
+
+  async createReservation(input: CreateReservationInput, options: WriteOptions): Promise<Reservation> {
+    const response = await this.request<OperaCreateReservationResponse>(
+      this.reservationsPath(),
+      {},
+      {
+        method: 'POST',
+        idempotencyKey: options.idempotencyKey,
+        body: {
+          reservations: {
+            reservation: [
+              {
+                roomStay: this.buildRoomStay(input),
+                reservationGuests: [{ profileInfo: { profile: this.buildProfile(input.guest) } }],
+                comments: input.notes ? [{ comment: { text: { value: input.notes } } }] : undefined,
+                hotelId: this.hotelId,
+                reservationStatus: 'Reserved'
+              }
+            ]
+          }
+        }
+      }
+    );
+
+    const resId = response.reservationIdList?.find(id => id.type === 'Reservation')?.id ||
+      response.reservationIdList?.[0]?.id || '';
+
+    return {
+      id: resId,
+      confirmationNumber: response.reservationIdList?.find(id => id.type === 'Confirmation')?.id,
+      guestName: `${input.guest.firstName} ${input.guest.lastName}`,
+      roomTypeId: input.roomTypeId,
+      checkIn: input.checkIn,
+      checkOut: input.checkOut,
+      status: 'Reserved',
+      totalAmount: input.totalAmount ?? 0,
+      currency: input.currency || 'USD'
+    };
+  }
+
+  async modifyReservation(
+    reservationId: string,
+    changes: ModifyReservationInput,
+    options: WriteOptions
+  ): Promise<Reservation> {
+    const path = `${this.reservationsPath()}/${encodeURIComponent(reservationId)}`;
+
+    const roomStay = {
+      arrivalDate: changes.checkIn,
+      departureDate: changes.checkOut,
+      roomType: changes.roomTypeId,
+      ratePlanCode: changes.ratePlanId,
+      adults: changes.adults,
+      children: changes.children
+    };
+
+    await this.request<unknown>(path, {}, {
+      method: 'PUT',
+      idempotencyKey: options.idempotencyKey,
+      body: {
+        reservations: {
+          reservation: [
+            {
+              reservationIdList: [{ id: reservationId, type: 'Reservation' }],
+              roomStay: Object.values(roomStay).some(value => value !== undefined) ? roomStay : undefined,
+              reservationGuests: changes.guest
+                ? [{ profileInfo: { profile: this.buildProfile(changes.guest) } }]
+                : undefined,
+              comments: changes.notes ? [{ comment: { text: { value: changes.notes } } }] : undefined,
+              hotelId: this.hotelId
+            }
+          ]
+        }
+      }
+    });
+
+    const response = await this.request<OperaReservationsResponse>(path);
+    const updated = response.reservations?.reservation?.[0] || response.hotelReservations?.[0];
+    if (!updated) {
+      throw new Error(`Opera reservation not found: ${reservationId}`);
+    }
+
+    return this.mapReservation(updated);
+  }
+
+  async cancelReservation(reservationId: string, options: CancelReservationOptions): Promise<void> {
+    await this.request<unknown>(
+      `${this.reservationsPath()}/${encodeURIComponent(reservationId)}/cancellations`,
+      {},
+      {
+        method: 'POST',
+        idempotencyKey: options.idempotencyKey,
+        body: {
+          reason: { description: options.reason || 'Cancelled via Eywa AI' },
+          reservations: [{ reservationIdList: [{ id: reservationId, type: 'Reservation' }], hotelId: this.hotelId }]
+        }
+      }
+    );
+  }
+
+  private reservationsPath(): string {
+    return `/rsv/v1/hotels/${this.hotelId}/reservations`;
+  }
+
+  private buildRoomStay(input: CreateReservationInput) {
+    return {
+      arrivalDate: input.checkIn,
+      departureDate: input.checkOut,
+      roomType: input.roomTypeId,
+      ratePlanCode: input.ratePlanId,
+      adults: input.adults,
+      children: input.children ?? 0,
+      total: input.totalAmount !== undefined
+        ? { amountAfterTax: input.totalAmount, currencyCode: input.currency }
+        : undefined
+    };
+  }
+
+  private buildProfile(guest: Partial<CreateReservationInput['guest']>) {
+    return {
+      customer: {
+        personName: [{ givenName: guest.firstName, surname: guest.lastName, nameType: 'Primary' }]
+      },
+      emails: guest.email ? { emailInfo: [{ email: { emailAddress: guest.email } }] } : undefined,
+      telephones: guest.phone ? { telephoneInfo: [{ telephone: { phoneNumber: guest.phone } }] } : undefined
+    };
+  }
+
+  private mapReservation(res: OperaReservation): Reservation {
+    const resId = res.reservationId || 
+      res.reservationIdList?.find(id => id.type === 'Confirmation')?.id ||
+      res.confirmationNumber || '';
+
+    const guest = res.reservationGuests?.profileInfo?.profile?.customer?.personName?.[0];
+    const guestName = guest 
+      ? [guest.nameTitle, guest.givenName, guest.surname].filter(Boolean).join(' ')
+      : 'Guest';
+
+    const roomStay = res.roomStay;
+
+    return {
+      id: resId,
+      confirmationNumber: res.reservationIdList?.find(id => id.type === 'Confirmation')?.id || res.confirmationNumber,
+      guestName,
+      roomTypeId: roomStay?.roomType || roomStay?.roomTypeCode || '',
+      checkIn: roomStay?.arrivalDate || roomStay?.expectedTimes?.reservationExpectedArrivalTime || '',
+      checkOut: roomStay?.departureDate || roomStay?.expectedTimes?.reservationExpectedDepartureTime || '',
+      status: res.status || res.reservationStatus || 'confirmed',
+      totalAmount: roomStay?.total?.amountAfterTax ?? roomStay?.total?.amountBeforeTax ?? 0,
+      currency: roomStay?.total?.currencyCode || 'USD'
+    };
+  }
+
   private async request<T>(
     path: string,
     query: Record<string, QueryValue> = {},
+    options: RequestOptions = {},
     retry = true
   ): Promise<T> {
     const token = await this.authenticate();
     const url = this.buildUrl(path, query);
 
+    const headers: Record<string, string> = {
+      'Accept': 'application/json',
+      'Authorization': `Bearer ${token}`,
+      'x-hotelid': this.hotelId,
+      'x-app-key': this.clientId
+    };
+    if (options.body !== undefined) {
+      headers['Content-Type'] = 'application/json';
+    }
+    if (options.idempotencyKey) {
+      headers['Idempotency-Key'] = options.idempotencyKey;
+    }
+
     const response = await fetch(url, {
-      method: 'GET',
-      headers: {
-        'Accept': 'application/json',
-        'Authorization': `Bearer ${token}`,
-        'x-hotelid': this.hotelId,
-        'x-app-key': this.clientId
-      }
+      method: options.method || 'GET',
+      headers,
+      body: options.body !== undefined ? JSON.stringify(options.body) : undefined
     });
 
     if (response.status === 401 && retry) {
       await this.authenticate(true);
-      return this.request<T>(path, query, false);
+      return this.request<T>(path, query, options, false);
     }
 
     const payload = await this.safeJson(response);
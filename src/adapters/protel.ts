@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const PROTEL_API_BASE = 'https://api.protel.net/v1';
@@ -176,6 +178,14 @@ export interface ProtelReservationsResponse {
 export class ProtelAdapter implements IPMSAdapter {
   name = 'Protel';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'page',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly hotelCode: string;
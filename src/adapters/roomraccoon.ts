@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const ROOMRACCOON_API_BASE = 'https://api.roomraccoon.com/v2';
@@ -190,6 +192,14 @@ export interface RoomRaccoonBookingsResponse {
 export class RoomRaccoonAdapter implements IPMSAdapter {
   name = 'RoomRaccoon';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'page',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly propertyId: string;
@@ -303,6 +313,7 @@ export class RoomRaccoonAdapter implements IPMSAdapter {
 
       return {
         id: booking.id || booking.bookingId || booking.reservationId || booking.confirmationCode || '',
+        confirmationNumber: booking.confirmationCode,
         guestName,
         roomTypeId: booking.roomTypeId || booking.roomId || '',
         checkIn: booking.checkIn || booking.arrivalDate || '',
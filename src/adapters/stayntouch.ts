@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const STAYNTOUCH_API_BASE = 'https://api.stayntouch.com/v2';
@@ -110,6 +112,14 @@ export interface StayNTouchReservation {
 export class StayNTouchAdapter implements IPMSAdapter {
   name = 'StayNTouch';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly clientId: string;
   private readonly clientSecret: string;
@@ -194,6 +204,7 @@ export class StayNTouchAdapter implements IPMSAdapter {
     const reservations = response.reservations || response.data || [];
     return reservations.map(res => ({
       id: res.id || res.confirmationNumber || '',
+      confirmationNumber: res.confirmationNumber,
       guestName: res.guest ? [res.guest.firstName, res.guest.lastName].filter(Boolean).join(' ') : 'Guest',
       roomTypeId: res.roomTypeId || '',
       checkIn: res.arrivalDate || '',
@@ -10,7 +10,9 @@ import {
   Reservation,
   ReservationParams,
   RoomType,
-  Rate
+  Rate,
+  PMSCapabilities,
+  CORE_READS
 } from './types';
 
 const WEBREZPRO_API_BASE = 'https://api.webrezpro.com/v1';
@@ -102,6 +104,14 @@ export interface WebRezProReservation {
 export class WebRezProAdapter implements IPMSAdapter {
   name = 'WebRezPro';
 
+  static readonly capabilities: PMSCapabilities = {
+    reads: [...CORE_READS],
+    writes: [],
+    webhooks: false,
+    paging: 'none',
+    ratePlanDepth: 'rate_plans'
+  };
+
   private readonly baseUrl: string;
   private readonly apiKey: string;
   private readonly propertyCode: string;
@@ -159,6 +169,7 @@ export class WebRezProAdapter implements IPMSAdapter {
     const reservations = response.reservations || response.data || [];
     return reservations.map(res => ({
       id: res.reservationId || res.confirmationNumber || '',
+      confirmationNumber: res.confirmationNumber,
       guestName: res.guest ? [res.guest.firstName, res.guest.lastName].filter(Boolean).join(' ') : 'Guest',
       roomTypeId: res.roomTypeId || '',
       checkIn: res.arrival || '',